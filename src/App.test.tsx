@@ -28,5 +28,6 @@ describe('App', () => {
     expect(screen.getByText('おすすめ')).toBeInTheDocument();
     expect(screen.getByText('天気')).toBeInTheDocument();
     expect(screen.getByText('趣味管理')).toBeInTheDocument();
+    expect(screen.getByText('記録')).toBeInTheDocument();
   });
 });
\ No newline at end of file
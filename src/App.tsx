@@ -4,30 +4,40 @@ import { useInitialSetup } from './hooks/useInitialSetup';
 import { ThemeToggle } from './components/theme/ThemeToggle';
 import { InstallPrompt } from './components/pwa/InstallPrompt';
 import { OfflineIndicator } from './components/pwa/OfflineIndicator';
+import { useTranslation } from './contexts/LanguageContext';
+import { getHobbyShareLinkPayload } from './utils/hobby-share';
 import myLogo from './assets/hobbyWeather.png';
 
 // 動的インポートによるコード分割
 const HobbyManager = lazy(() => import('./components/hobby/HobbyManager').then(module => ({ default: module.HobbyManager })));
 const WeatherDisplay = lazy(() => import('./components/weather/WeatherDisplay').then(module => ({ default: module.WeatherDisplay })));
 const RecommendationDashboard = lazy(() => import('./components/recommendation/RecommendationDashboard').then(module => ({ default: module.RecommendationDashboard })));
+const JournalPage = lazy(() => import('./components/journal/JournalPage').then(module => ({ default: module.JournalPage })));
 const SettingsPage = lazy(() => import('./components/settings/SettingsPage').then(module => ({ default: module.SettingsPage })));
 
 // アプリケーションのメインタブ
-type TabType = 'weather' | 'hobbies' | 'recommendations' | 'settings';
+type TabType = 'weather' | 'hobbies' | 'recommendations' | 'journal' | 'settings';
 
 // ローディングコンポーネント
-const LoadingSpinner = () => (
-    <div className="flex items-center justify-center py-12">
-        <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary-500 mr-3"></div>
-        <span className="text-text-secondary">読み込み中...</span>
-    </div>
-);
+const LoadingSpinner = () => {
+    const { t } = useTranslation();
+    return (
+        <div className="flex items-center justify-center py-12">
+            <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary-500 mr-3"></div>
+            <span className="text-text-secondary">{t('common.loading')}</span>
+        </div>
+    );
+};
 
 function App() {
     const [activeTab, setActiveTab] = useState<TabType>('recommendations');
     const { setupState } = useInitialSetup();
     const [showSetupFlow, setShowSetupFlow] = useState(false);
     const navRef = useRef<HTMLElement>(null);
+    const { t } = useTranslation();
+    const [sharedHobbyLink, setSharedHobbyLink] = useState(() =>
+        getHobbyShareLinkPayload(window.location.hash)
+    );
 
     // セットアップ完了状態の監視
     React.useEffect(() => {
@@ -45,13 +55,38 @@ function App() {
             window.removeEventListener('setup-completed', handleSetupCompleted);
     }, []);
 
+    // 開いている画面に趣味の共有リンクが貼り付けられた場合も取り込む
+    React.useEffect(() => {
+        const handleHashChange = () => {
+            const payload = getHobbyShareLinkPayload(window.location.hash);
+            if (payload) {
+                setSharedHobbyLink(payload);
+            }
+        };
+
+        window.addEventListener('hashchange', handleHashChange);
+        return () => window.removeEventListener('hashchange', handleHashChange);
+    }, []);
+
+    // 趣味の共有リンクで開いた場合は趣味タブで取り込み内容を確認する
+    React.useEffect(() => {
+        if (!sharedHobbyLink) return;
+        setActiveTab('hobbies');
+        window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}`);
+    }, [sharedHobbyLink]);
+
+    const handleSharedHobbyLinkHandled = useCallback(() => {
+        setSharedHobbyLink(null);
+    }, []);
+
     // タブの設定
     const tabs = React.useMemo(() => [
-        { id: 'recommendations' as TabType, label: 'おすすめ', icon: '🎯' },
-        { id: 'weather' as TabType, label: '天気', icon: '🌤️' },
-        { id: 'hobbies' as TabType, label: '趣味管理', icon: '🎨' },
-        { id: 'settings' as TabType, label: '設定', icon: '⚙️' },
-    ], []);
+        { id: 'recommendations' as TabType, label: t('app.tab.recommendations'), icon: '🎯' },
+        { id: 'weather' as TabType, label: t('app.tab.weather'), icon: '🌤️' },
+        { id: 'hobbies' as TabType, label: t('app.tab.hobbies'), icon: '🎨' },
+        { id: 'journal' as TabType, label: t('app.tab.journal'), icon: '📔' },
+        { id: 'settings' as TabType, label: t('app.tab.settings'), icon: '⚙️' },
+    ], [t]);
 
     // キーボードナビゲーション用のハンドラー
     const handleKeyboardNavigation = useCallback((event: React.KeyboardEvent) => {
@@ -102,7 +137,7 @@ function App() {
                 <div className="text-center">
                     <div className="inline-block animate-spin rounded-full h-12 w-12 border-b-2 border-primary-500 mb-4"></div>
                     <p className="text-text-secondary">
-                        アプリケーションを初期化中...
+                        {t('app.initializing')}
                     </p>
                 </div>
             </div>
@@ -122,11 +157,11 @@ function App() {
                         <div className="flex items-center space-x-3">
                             <img
                                 src={myLogo}
-                                alt="趣味予報アプリのロゴ"
+                                alt={t('app.logoAlt')}
                                 className="w-12 h-12"
                             />
                             <h1 className="text-xl font-bold text-text-primary">
-                                趣味予報
+                                {t('app.name')}
                             </h1>
                             <span className="text-sm text-text-tertiary">
                                 hobby-weather
@@ -142,7 +177,7 @@ function App() {
                                 ref={navRef}
                                 className="flex space-x-1" 
                                 role="tablist" 
-                                aria-label="メインナビゲーション"
+                                aria-label={t('app.mainNavigation')}
                                 onKeyDown={handleKeyboardNavigation}
                             >
                                 {tabs.map((tab) => (
@@ -159,7 +194,7 @@ function App() {
                                                 ? 'bg-primary-100 text-primary-700 border border-primary-200'
                                                 : 'text-text-secondary hover:text-text-primary hover:bg-surface-secondary'
                                         }`}
-                                        aria-label={`${tab.label}を表示`}
+                                        aria-label={t('app.showTab', { tab: tab.label })}
                                     >
                                         <span aria-hidden="true">{tab.icon}</span>
                                         <span>{tab.label}</span>
@@ -209,7 +244,23 @@ function App() {
                     >
                         {activeTab === 'hobbies' && (
                             <Suspense fallback={<LoadingSpinner />}>
-                                <HobbyManager />
+                                <HobbyManager
+                                    sharedLink={sharedHobbyLink}
+                                    onSharedLinkHandled={handleSharedHobbyLinkHandled}
+                                />
+                            </Suspense>
+                        )}
+                    </div>
+                    <div 
+                        id="journal-panel" 
+                        role="tabpanel" 
+                        tabIndex={0} 
+                        aria-labelledby="journal-tab"
+                        hidden={activeTab !== 'journal'}
+                    >
+                        {activeTab === 'journal' && (
+                            <Suspense fallback={<LoadingSpinner />}>
+                                <JournalPage />
                             </Suspense>
                         )}
                     </div>
@@ -234,7 +285,7 @@ function App() {
                 <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
                     <div className="flex justify-between items-center">
                         <div className="text-sm text-text-secondary">
-                            © 2025 趣味予報 - 天気に基づく趣味おすすめアプリ
+                            {t('app.footer')}
                         </div>
                     </div>
                 </div>
@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import { useTranslation } from '../../contexts/LanguageContext';
 import { 
   runDiagnostics 
 } from '../../services/api-key-test';
@@ -34,6 +35,7 @@ interface DiagnosticResults {
 }
 
 export const ApiKeyDiagnostics: React.FC = () => {
+  const { t } = useTranslation();
   const [results, setResults] = useState<DiagnosticResults | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isExpanded, setIsExpanded] = useState(false);
@@ -70,10 +72,10 @@ export const ApiKeyDiagnostics: React.FC = () => {
       <div className="flex items-center justify-between mb-4">
         <div>
           <h3 className="text-lg font-semibold text-gray-900">
-            🔍 API Key診断
+            {t('apiKeyDiagnostics.title')}
           </h3>
           <p className="text-sm text-gray-600">
-            OpenWeatherMap APIの設定状況を確認
+            {t('apiKeyDiagnostics.subtitle')}
           </p>
         </div>
         <div className="flex space-x-2">
@@ -82,13 +84,13 @@ export const ApiKeyDiagnostics: React.FC = () => {
             disabled={isLoading}
             className="bg-blue-600 text-white px-3 py-1 rounded text-sm hover:bg-blue-700 transition-colors disabled:opacity-50"
           >
-            {isLoading ? '診断中...' : '再診断'}
+            {isLoading ? t('apiKeyDiagnostics.checking') : t('apiKeyDiagnostics.rerun')}
           </button>
           <button
             onClick={() => setIsExpanded(!isExpanded)}
             className="bg-gray-100 text-gray-700 px-3 py-1 rounded text-sm hover:bg-gray-200 transition-colors"
           >
-            {isExpanded ? '詳細を隠す' : '詳細表示'}
+            {isExpanded ? t('apiKeyDiagnostics.hideDetails') : t('apiKeyDiagnostics.showDetails')}
           </button>
         </div>
       </div>
@@ -97,7 +99,7 @@ export const ApiKeyDiagnostics: React.FC = () => {
       {isLoading && (
         <div className="text-center py-4">
           <div className="inline-block animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
-          <p className="mt-2 text-gray-600">診断実行中...</p>
+          <p className="mt-2 text-gray-600">{t('apiKeyDiagnostics.running')}</p>
         </div>
       )}
 
@@ -112,9 +114,9 @@ export const ApiKeyDiagnostics: React.FC = () => {
                   {getStatusIcon(results.environment.hasApiKey)}
                 </span>
                 <div>
-                  <p className="font-medium">環境変数</p>
+                  <p className="font-medium">{t('apiKeyDiagnostics.environment')}</p>
                   <p className={`text-sm ${getStatusColor(results.environment.hasApiKey)}`}>
-                    {results.environment.hasApiKey ? '設定済み' : '未設定'}
+                    {results.environment.hasApiKey ? t('apiKeyDiagnostics.configured') : t('setupStatus.notSet')}
                   </p>
                 </div>
               </div>
@@ -126,9 +128,9 @@ export const ApiKeyDiagnostics: React.FC = () => {
                   {getStatusIcon(results.weatherService.hasApiKey)}
                 </span>
                 <div>
-                  <p className="font-medium">サービス読み込み</p>
+                  <p className="font-medium">{t('apiKeyDiagnostics.serviceLoad')}</p>
                   <p className={`text-sm ${getStatusColor(results.weatherService.hasApiKey)}`}>
-                    {results.weatherService.hasApiKey ? '正常' : 'エラー'}
+                    {results.weatherService.hasApiKey ? t('apiKeyDiagnostics.ok') : t('apiKeyDiagnostics.error')}
                   </p>
                 </div>
               </div>
@@ -140,9 +142,9 @@ export const ApiKeyDiagnostics: React.FC = () => {
                   {getStatusIcon(results.apiConnection.success)}
                 </span>
                 <div>
-                  <p className="font-medium">API接続</p>
+                  <p className="font-medium">{t('apiKeyDiagnostics.apiConnection')}</p>
                   <p className={`text-sm ${getStatusColor(results.apiConnection.success)}`}>
-                    {results.apiConnection.success ? '接続OK' : '接続失敗'}
+                    {results.apiConnection.success ? t('apiKeyDiagnostics.connected') : t('apiKeyDiagnostics.connectionFailed')}
                   </p>
                 </div>
               </div>
@@ -151,7 +153,7 @@ export const ApiKeyDiagnostics: React.FC = () => {
 
           {/* 推奨事項 */}
           <div className="bg-blue-50 rounded-lg p-4">
-            <h4 className="font-medium text-blue-900 mb-2">📋 推奨事項</h4>
+            <h4 className="font-medium text-blue-900 mb-2">{t('apiKeyDiagnostics.recommendations')}</h4>
             <ul className="space-y-1">
               {results.recommendations.map((rec, index) => (
                 <li key={index} className="text-sm text-blue-800">
@@ -166,63 +168,63 @@ export const ApiKeyDiagnostics: React.FC = () => {
             <div className="space-y-4 border-t pt-4">
               {/* 環境変数詳細 */}
               <div>
-                <h4 className="font-medium text-gray-900 mb-2">🔧 環境変数詳細</h4>
+                <h4 className="font-medium text-gray-900 mb-2">{t('apiKeyDiagnostics.environmentDetails')}</h4>
                 <div className="bg-gray-100 rounded p-3 text-sm font-mono">
-                  <p>設定状況: {results.environment.hasApiKey ? '✅ 設定済み' : '❌ 未設定'}</p>
-                  <p>キー長: {results.environment.apiKeyLength}文字</p>
-                  <p>プレビュー: {results.environment.apiKeyPreview}</p>
+                  <p>{t('apiKeyDiagnostics.status')}: {results.environment.hasApiKey ? `✅ ${t('apiKeyDiagnostics.configured')}` : `❌ ${t('setupStatus.notSet')}`}</p>
+                  <p>{t('apiKeyDiagnostics.keyLength', { count: results.environment.apiKeyLength })}</p>
+                  <p>{t('apiKeyDiagnostics.preview')}: {results.environment.apiKeyPreview}</p>
                 </div>
               </div>
 
               {/* WeatherService詳細 */}
               <div>
-                <h4 className="font-medium text-gray-900 mb-2">⚙️ WeatherService詳細</h4>
+                <h4 className="font-medium text-gray-900 mb-2">{t('apiKeyDiagnostics.serviceDetails')}</h4>
                 <div className="bg-gray-100 rounded p-3 text-sm font-mono">
-                  <p>読み込み状況: {results.weatherService.hasApiKey ? '✅ 正常' : '❌ エラー'}</p>
-                  <p>キー長: {results.weatherService.apiKeyLength}文字</p>
-                  <p>プレビュー: {results.weatherService.apiKeyPreview}</p>
+                  <p>{t('apiKeyDiagnostics.loadStatus')}: {results.weatherService.hasApiKey ? `✅ ${t('apiKeyDiagnostics.ok')}` : `❌ ${t('apiKeyDiagnostics.error')}`}</p>
+                  <p>{t('apiKeyDiagnostics.keyLength', { count: results.weatherService.apiKeyLength })}</p>
+                  <p>{t('apiKeyDiagnostics.preview')}: {results.weatherService.apiKeyPreview}</p>
                   {results.weatherService.error && (
-                    <p className="text-red-600">エラー: {results.weatherService.error}</p>
+                    <p className="text-red-600">{t('apiKeyDiagnostics.error')}: {results.weatherService.error}</p>
                   )}
                 </div>
               </div>
 
               {/* API接続詳細 */}
               <div>
-                <h4 className="font-medium text-gray-900 mb-2">🌐 API接続詳細</h4>
+                <h4 className="font-medium text-gray-900 mb-2">{t('apiKeyDiagnostics.connectionDetails')}</h4>
                 <div className="bg-gray-100 rounded p-3 text-sm font-mono">
-                  <p>接続状況: {results.apiConnection.success ? '✅ 成功' : '❌ 失敗'}</p>
+                  <p>{t('apiKeyDiagnostics.connectionStatus')}: {results.apiConnection.success ? `✅ ${t('apiKeyDiagnostics.succeeded')}` : `❌ ${t('apiKeyDiagnostics.failed')}`}</p>
                   {results.apiConnection.status && (
-                    <p>HTTPステータス: {results.apiConnection.status}</p>
+                    <p>{t('apiKeyDiagnostics.httpStatus')}: {results.apiConnection.status}</p>
                   )}
                   {results.apiConnection.success && results.apiConnection.data && (
                     <div>
-                      <p>テストデータ:</p>
-                      <p className="ml-2">都市: {String(results.apiConnection.data.city || 'N/A')}</p>
-                      <p className="ml-2">天気: {String(results.apiConnection.data.weather || 'N/A')}</p>
-                      <p className="ml-2">気温: {String(results.apiConnection.data.temperature || 'N/A')}°C</p>
+                      <p>{t('apiKeyDiagnostics.testData')}</p>
+                      <p className="ml-2">{t('apiKeyDiagnostics.city')}: {String(results.apiConnection.data.city || 'N/A')}</p>
+                      <p className="ml-2">{t('apiKeyDiagnostics.weather')}: {String(results.apiConnection.data.weather || 'N/A')}</p>
+                      <p className="ml-2">{t('apiKeyDiagnostics.temperature')}: {String(results.apiConnection.data.temperature || 'N/A')}°C</p>
                     </div>
                   )}
                   {results.apiConnection.error && (
-                    <p className="text-red-600">エラー: {results.apiConnection.error}</p>
+                    <p className="text-red-600">{t('apiKeyDiagnostics.error')}: {results.apiConnection.error}</p>
                   )}
                 </div>
               </div>
 
               {/* 設定手順 */}
               <div>
-                <h4 className="font-medium text-gray-900 mb-2">📝 設定手順</h4>
+                <h4 className="font-medium text-gray-900 mb-2">{t('apiKeyDiagnostics.setupSteps')}</h4>
                 <div className="bg-yellow-50 rounded p-3 text-sm">
                   <ol className="list-decimal list-inside space-y-1">
-                    <li>プロジェクトルートに <code className="bg-gray-200 px-1 rounded">.env.local</code> ファイルを作成</li>
-                    <li>以下の内容を記述:</li>
+                    <li>{t('apiKeyDiagnostics.stepCreate.before')}<code className="bg-gray-200 px-1 rounded">.env.local</code>{t('apiKeyDiagnostics.stepCreate.after')}</li>
+                    <li>{t('apiKeyDiagnostics.stepContent')}</li>
                     <li className="ml-4">
                       <code className="bg-gray-200 px-1 rounded">
                         VITE_OPENWEATHER_API_KEY=your_api_key_here
                       </code>
                     </li>
-                    <li>開発サーバーを再起動: <code className="bg-gray-200 px-1 rounded">npm run dev</code></li>
-                    <li>再診断ボタンで確認</li>
+                    <li>{t('apiKeyDiagnostics.stepRestart')}: <code className="bg-gray-200 px-1 rounded">npm run dev</code></li>
+                    <li>{t('apiKeyDiagnostics.stepVerify')}</li>
                   </ol>
                 </div>
               </div>
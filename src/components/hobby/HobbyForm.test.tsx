@@ -57,8 +57,12 @@ describe('HobbyForm', () => {
         preferredWeather: [{ condition: 'clear', weight: 5 }],
         preferredTimeOfDay: [],
         isActive: true,
-        isOutdoor: true
-      });
+        isOutdoor: true,
+        scoringProfile: {
+          preset: 'balanced',
+          weights: { weather: 40, temperature: 25, precipitation: 20, wind: 10, uv: 5 }
+        }
+      }, []);
     });
   });
 
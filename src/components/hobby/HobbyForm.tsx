@@ -1,29 +1,91 @@
 import React, { useState, useEffect } from 'react';
-import type { Hobby, WeatherCondition, TimeOfDay } from '../../types';
+import type {
+  Hobby,
+  WeatherCondition,
+  TimeOfDay,
+  ScoreFactor,
+  ScoringMode,
+  HardConstraints,
+  WeatherType,
+  Location,
+  HobbyLocationLink,
+  GoalPeriod,
+  WeatherIntensity
+} from '../../types';
 import { 
   WEATHER_CONDITIONS, 
   createWeatherCondition, 
-  validateHobby,
   getWeatherConditionIcon,
   getWeatherConditionLabel
 } from '../../hooks/useHobby';
-import { HOBBY_CATEGORIES, TIME_OF_DAY_OPTIONS, type HobbySuggestion } from '../../data/hobbySuggestions';
+import { validateHobby } from '../../utils/hobby-validation';
+import {
+  HOBBY_CATEGORIES,
+  TIME_OF_DAY_OPTIONS,
+  getLocalizedSuggestion,
+  type HobbySuggestion
+} from '../../data/hobbySuggestions';
+import {
+  SCORING_PRESETS,
+  SCORE_FACTOR_LABELS,
+  createScoringProfile,
+  type ScoringPreset
+} from '../../data/scoringProfiles';
+import { geolocationService } from '../../services/geolocation.service';
+import { MAX_GOAL_COUNT } from '../../utils/goals';
+import { INTENSITY_WEATHER_TYPES, WEATHER_INTENSITIES } from '../../utils/weather-classification';
 import { useTheme } from '../../contexts/ThemeContext';
+import { useUnits } from '../../contexts/UnitsContext';
+import { useTranslation } from '../../contexts/LanguageContext';
+import type { MessageKey } from '../../types/i18n';
 
 interface HobbyFormProps {
   hobby?: Hobby;
-  onSubmit: (hobby: Omit<Hobby, 'id' | 'createdAt' | 'updatedAt'>) => void;
+  locations?: Location[] | undefined; // 活動場所として選べる保存済みの場所
+  initialLocationLinks?: HobbyLocationLink[] | undefined; // 編集時の活動場所
+  onSubmit: (hobby: Omit<Hobby, 'id' | 'createdAt' | 'updatedAt'>, locationLinks: HobbyLocationLink[]) => void;
   onCancel: () => void;
   isLoading?: boolean;
 }
 
+// 数値で指定する活動不可条件
+// （scaleは入力値から保存値への倍率。unitを指定した項目は表示単位で入力し、°C・m/sで保存する）
+const HARD_CONSTRAINT_FIELDS: Array<{
+  key: Exclude<keyof HardConstraints, 'forbiddenWeather'>;
+  labelKey: MessageKey;
+  step: number;
+  scale: number;
+  unit?: 'temperature' | 'windSpeed';
+}> = [
+  { key: 'maxWindSpeed', labelKey: 'hardConstraint.maxWindSpeed', step: 0.5, scale: 1, unit: 'windSpeed' },
+  { key: 'maxPrecipitationProbability', labelKey: 'hardConstraint.maxPrecipitationProbability', step: 5, scale: 1 },
+  { key: 'minVisibility', labelKey: 'hardConstraint.minVisibility', step: 0.5, scale: 1000 },
+  { key: 'minFeelsLike', labelKey: 'hardConstraint.minFeelsLike', step: 1, scale: 1, unit: 'temperature' },
+  { key: 'maxFeelsLike', labelKey: 'hardConstraint.maxFeelsLike', step: 1, scale: 1, unit: 'temperature' }
+];
+
+// 換算後の入力値（小数第1位まで）
+const toInputValue = (value: number | undefined): number | '' =>
+  value === undefined ? '' : Number(value.toFixed(1));
+
 export const HobbyForm: React.FC<HobbyFormProps> = ({
   hobby,
+  locations = [],
+  initialLocationLinks,
   onSubmit,
   onCancel,
   isLoading = false
 }) => {
   const { currentTheme } = useTheme();
+  const { language, t } = useTranslation();
+  const {
+    toDisplayTemperature,
+    fromDisplayTemperature,
+    toDisplayWindSpeed,
+    fromDisplayWindSpeed,
+    temperatureSymbol,
+    windSpeedSymbol
+  } = useUnits();
   const [formData, setFormData] = useState({
     name: '',
     description: '',
@@ -32,9 +94,29 @@ export const HobbyForm: React.FC<HobbyFormProps> = ({
     isActive: true,
     isOutdoor: true,
     minTemperature: undefined as number | undefined,
-    maxTemperature: undefined as number | undefined
+    maxTemperature: undefined as number | undefined,
+    durationMinutes: undefined as number | undefined,
+    earliestStart: '',
+    latestEnd: '',
+    requiresDaylight: false,
+    prefersGoldenHour: false,
+    scoringMode: 'weather' as ScoringMode,
+    weeklyFrequency: undefined as number | undefined,
+    goalCount: undefined as number | undefined,
+    goalPeriod: 'week' as GoalPeriod,
+    scoringProfile: createScoringProfile(),
+    hardConstraints: {} as HardConstraints
   });
 
+  // 活動不可条件の表示状態
+  const [showConstraints, setShowConstraints] = useState(false);
+
+  // 活動場所（未選択の場合はすべての場所が対象）
+  const [locationLinks, setLocationLinks] = useState<HobbyLocationLink[]>([]);
+
+  // 重み付けの詳細設定の表示状態
+  const [showWeightEditor, setShowWeightEditor] = useState(false);
+
   // 趣味候補選択の状態
   const [showSuggestions, setShowSuggestions] = useState(false);
   const [selectedCategory, setSelectedCategory] = useState<string>('');
@@ -51,11 +133,28 @@ export const HobbyForm: React.FC<HobbyFormProps> = ({
         isActive: hobby.isActive,
         isOutdoor: hobby.isOutdoor ?? true,
         minTemperature: hobby.minTemperature,
-        maxTemperature: hobby.maxTemperature
+        maxTemperature: hobby.maxTemperature,
+        durationMinutes: hobby.durationMinutes,
+        earliestStart: hobby.earliestStart || '',
+        latestEnd: hobby.latestEnd || '',
+        requiresDaylight: hobby.requiresDaylight ?? false,
+        prefersGoldenHour: hobby.prefersGoldenHour ?? false,
+        scoringMode: hobby.scoringMode ?? 'weather',
+        weeklyFrequency: hobby.weeklyFrequency,
+        goalCount: hobby.goal?.count,
+        goalPeriod: hobby.goal?.period ?? 'week',
+        scoringProfile: hobby.scoringProfile ?? createScoringProfile(),
+        hardConstraints: hobby.hardConstraints ?? {}
       });
     }
   }, [hobby]);
 
+  useEffect(() => {
+    if (initialLocationLinks) {
+      setLocationLinks(initialLocationLinks);
+    }
+  }, [initialLocationLinks]);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -78,6 +177,33 @@ export const HobbyForm: React.FC<HobbyFormProps> = ({
     if (formData.maxTemperature !== undefined) {
       validationData.maxTemperature = formData.maxTemperature;
     }
+    if (formData.durationMinutes !== undefined) {
+      validationData.durationMinutes = formData.durationMinutes;
+    }
+    if (formData.earliestStart) {
+      validationData.earliestStart = formData.earliestStart;
+    }
+    if (formData.latestEnd) {
+      validationData.latestEnd = formData.latestEnd;
+    }
+    if (formData.requiresDaylight) {
+      validationData.requiresDaylight = true;
+    }
+    if (formData.prefersGoldenHour) {
+      validationData.prefersGoldenHour = true;
+    }
+    if (formData.scoringMode !== 'weather') {
+      validationData.scoringMode = formData.scoringMode;
+    }
+    if (formData.weeklyFrequency !== undefined) {
+      validationData.weeklyFrequency = formData.weeklyFrequency;
+    }
+    if (formData.goalCount !== undefined) {
+      validationData.goal = { count: formData.goalCount, period: formData.goalPeriod };
+    }
+    if (Object.keys(formData.hardConstraints).length > 0) {
+      validationData.hardConstraints = formData.hardConstraints;
+    }
     
     const validationErrors = validateHobby(validationData);
     if (validationErrors.length > 0) {
@@ -94,6 +220,7 @@ export const HobbyForm: React.FC<HobbyFormProps> = ({
       preferredTimeOfDay: formData.preferredTimeOfDay,
       isActive: formData.isActive,
       isOutdoor: formData.isOutdoor,
+      scoringProfile: formData.scoringProfile,
       // createdAt will be set by the database service
     };
 
@@ -107,8 +234,35 @@ export const HobbyForm: React.FC<HobbyFormProps> = ({
     if (formData.maxTemperature !== undefined) {
       submitData.maxTemperature = formData.maxTemperature;
     }
+    if (formData.durationMinutes !== undefined) {
+      submitData.durationMinutes = formData.durationMinutes;
+    }
+    if (formData.earliestStart) {
+      submitData.earliestStart = formData.earliestStart;
+    }
+    if (formData.latestEnd) {
+      submitData.latestEnd = formData.latestEnd;
+    }
+    if (formData.requiresDaylight) {
+      submitData.requiresDaylight = true;
+    }
+    if (formData.prefersGoldenHour) {
+      submitData.prefersGoldenHour = true;
+    }
+    if (formData.scoringMode !== 'weather') {
+      submitData.scoringMode = formData.scoringMode;
+    }
+    if (formData.weeklyFrequency !== undefined) {
+      submitData.weeklyFrequency = formData.weeklyFrequency;
+    }
+    if (formData.goalCount !== undefined) {
+      submitData.goal = { count: formData.goalCount, period: formData.goalPeriod };
+    }
+    if (Object.keys(formData.hardConstraints).length > 0) {
+      submitData.hardConstraints = formData.hardConstraints;
+    }
 
-    onSubmit(submitData);
+    onSubmit(submitData, locationLinks);
   };
 
   const addWeatherCondition = (type: string) => {
@@ -132,6 +286,18 @@ export const HobbyForm: React.FC<HobbyFormProps> = ({
     }));
   };
 
+  // 強さの上限（空の場合はすべての強さ）
+  const updateWeatherIntensity = (index: number, intensity: WeatherIntensity | '') => {
+    setFormData(prev => ({
+      ...prev,
+      preferredWeather: prev.preferredWeather.map((condition, i) =>
+        i === index
+          ? { condition: condition.condition, weight: condition.weight, ...(intensity && { intensity }) }
+          : condition
+      )
+    }));
+  };
+
   const removeWeatherCondition = (index: number) => {
     setFormData(prev => ({
       ...prev,
@@ -141,17 +307,121 @@ export const HobbyForm: React.FC<HobbyFormProps> = ({
 
   // 趣味候補選択ハンドラー
   const selectHobbySuggestion = (suggestion: HobbySuggestion) => {
+    const localized = getLocalizedSuggestion(suggestion, language);
     setFormData(prev => ({
       ...prev,
-      name: suggestion.name,
+      name: localized.name,
       isOutdoor: suggestion.isOutdoor,
+      requiresDaylight: suggestion.requiresDaylight ?? false,
+      prefersGoldenHour: suggestion.prefersGoldenHour ?? false,
+      scoringMode: suggestion.scoringMode ?? 'weather',
       preferredWeather: suggestion.defaultWeather?.map(w => createWeatherCondition(w, 8)) ?? [],
       preferredTimeOfDay: suggestion.defaultTimeOfDay ?? [],
-      description: suggestion.description ?? ''
+      description: localized.description ?? ''
     }));
     setShowSuggestions(false);
   };
 
+  // スコア計算プリセットの選択
+  const selectScoringPreset = (preset: ScoringPreset['id']) => {
+    setFormData(prev => ({ ...prev, scoringProfile: createScoringProfile(preset) }));
+  };
+
+  // 重みを個別に変更した場合はカスタム扱い
+  const updateScoringWeight = (factor: ScoreFactor, weight: number) => {
+    setFormData(prev => ({
+      ...prev,
+      scoringProfile: {
+        preset: 'custom',
+        weights: { ...prev.scoringProfile.weights, [factor]: Math.max(0, Math.min(100, weight)) }
+      }
+    }));
+  };
+
+  // 数値の活動不可条件を更新（空欄の場合は条件なし）
+  const updateHardConstraint = (
+    key: Exclude<keyof HardConstraints, 'forbiddenWeather'>,
+    value: string,
+    toStoredValue: (value: number) => number = (v) => v
+  ) => {
+    setFormData(prev => {
+      const hardConstraints = { ...prev.hardConstraints };
+      if (value === '') {
+        delete hardConstraints[key];
+      } else {
+        hardConstraints[key] = toStoredValue(Number(value));
+      }
+      return { ...prev, hardConstraints };
+    });
+  };
+
+  // 活動不可条件の表示単位への換算
+  const toConstraintDisplay = (field: typeof HARD_CONSTRAINT_FIELDS[number], value: number): number => {
+    if (field.unit === 'temperature') return toDisplayTemperature(value);
+    if (field.unit === 'windSpeed') return toDisplayWindSpeed(value);
+    return value / field.scale;
+  };
+
+  // 入力値から保存値（°C・m/s）への換算
+  const fromConstraintDisplay = (field: typeof HARD_CONSTRAINT_FIELDS[number], value: number): number => {
+    if (field.unit === 'temperature') return fromDisplayTemperature(value);
+    if (field.unit === 'windSpeed') return fromDisplayWindSpeed(value);
+    return value * field.scale;
+  };
+
+  // 活動不可条件のラベル（単位付き）
+  const getConstraintLabel = (field: typeof HARD_CONSTRAINT_FIELDS[number]): string => {
+    const label = t(field.labelKey);
+    if (field.unit === 'temperature') return t('hobbyForm.withUnit', { label, unit: temperatureSymbol });
+    if (field.unit === 'windSpeed') return t('hobbyForm.withUnit', { label, unit: windSpeedSymbol });
+    return label;
+  };
+
+  // 活動場所の切り替え
+  const toggleLocation = (locationId: number) => {
+    setLocationLinks(prev =>
+      prev.some(link => link.locationId === locationId)
+        ? prev.filter(link => link.locationId !== locationId)
+        : [...prev, { locationId }]
+    );
+  };
+
+  // 許容する移動距離を更新（空欄の場合は上限なし）
+  const updateMaxTravelDistance = (locationId: number, value: string) => {
+    setLocationLinks(prev => prev.map(link => {
+      if (link.locationId !== locationId) return link;
+      const updated: HobbyLocationLink = { locationId };
+      if (value !== '') {
+        updated.maxTravelDistance = Number(value);
+      }
+      return updated;
+    }));
+  };
+
+  // デフォルトの場所からの距離（km）
+  const defaultLocation = locations.find(location => location.isDefault);
+  const getDistanceFromDefault = (location: Location): number | null => {
+    if (!defaultLocation) return null;
+    return geolocationService.calculateDistance(defaultLocation.lat, defaultLocation.lon, location.lat, location.lon);
+  };
+
+  // 除外する天気の切り替え
+  const toggleForbiddenWeather = (weatherType: WeatherType) => {
+    setFormData(prev => {
+      const current = prev.hardConstraints.forbiddenWeather ?? [];
+      const forbiddenWeather = current.includes(weatherType)
+        ? current.filter(type => type !== weatherType)
+        : [...current, weatherType];
+      const hardConstraints = { ...prev.hardConstraints };
+      if (forbiddenWeather.length > 0) {
+        hardConstraints.forbiddenWeather = forbiddenWeather;
+      } else {
+        delete hardConstraints.forbiddenWeather;
+      }
+      return { ...prev, hardConstraints };
+    });
+  };
+
   // 活動時間帯の切り替え
   const toggleTimeOfDay = (timeOfDay: TimeOfDay) => {
     setFormData(prev => ({
@@ -180,7 +450,7 @@ export const HobbyForm: React.FC<HobbyFormProps> = ({
                 className="text-sm font-medium"
                 style={{ color: currentTheme.colors.error }}
               >
-                入力エラーがあります
+                {t('hobbyForm.errorTitle')}
               </h3>
               <div className="mt-2 text-sm" style={{ color: currentTheme.colors.error }}>
                 <ul className="list-disc list-inside space-y-1">
@@ -197,13 +467,13 @@ export const HobbyForm: React.FC<HobbyFormProps> = ({
       {/* 趣味候補選択 */}
       <div>
         <div className="flex items-center justify-between mb-3">
-          <h3 className="text-sm font-medium text-gray-700">趣味候補から選択</h3>
+          <h3 className="text-sm font-medium text-gray-700">{t('hobbyForm.suggestions')}</h3>
           <button
             type="button"
             onClick={() => setShowSuggestions(!showSuggestions)}
             className="text-sm text-blue-600 hover:text-blue-500"
           >
-            {showSuggestions ? '非表示' : '候補を表示'}
+            {showSuggestions ? t('common.hide') : t('hobbyForm.showSuggestions')}
           </button>
         </div>
 
@@ -212,7 +482,7 @@ export const HobbyForm: React.FC<HobbyFormProps> = ({
             backgroundColor: currentTheme.mode === 'dark' ? 'rgba(107, 114, 128, 0.1)' : 'rgb(249, 250, 251)'
           }}>
             <div className="mb-3">
-              <label className="text-xs font-medium text-gray-600">カテゴリ選択:</label>
+              <label className="text-xs font-medium text-gray-600">{t('hobbyForm.category')}</label>
               <div className="flex space-x-2 mt-1">
                 <button
                   type="button"
@@ -237,7 +507,7 @@ export const HobbyForm: React.FC<HobbyFormProps> = ({
                     }
                   }}
                 >
-                  すべて
+                  {t('common.all')}
                 </button>
                 {HOBBY_CATEGORIES.map(category => (
                   <button
@@ -264,7 +534,7 @@ export const HobbyForm: React.FC<HobbyFormProps> = ({
                       }
                     }}
                   >
-                    {category.icon} {category.name}
+                    {category.icon} {t(category.labelKey)}
                   </button>
                 ))}
               </div>
@@ -273,8 +543,8 @@ export const HobbyForm: React.FC<HobbyFormProps> = ({
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-2 max-h-48 overflow-y-auto">
               {HOBBY_CATEGORIES
                 .filter(category => !selectedCategory || category.name === selectedCategory)
-                .flatMap(category => category.hobbies)
-                .map((suggestion, index) => (
+                .flatMap(category => category.hobbies.map(suggestion => ({ suggestion, category })))
+                .map(({ suggestion, category }, index) => (
                   <button
                     key={index}
                     type="button"
@@ -294,10 +564,10 @@ export const HobbyForm: React.FC<HobbyFormProps> = ({
                       e.currentTarget.style.borderColor = currentTheme.colors.border.primary;
                     }}
                   >
-                    <div className="font-medium text-sm">{suggestion.name}</div>
+                    <div className="font-medium text-sm">{getLocalizedSuggestion(suggestion, language).name}</div>
                     <div className="text-xs text-gray-600 flex items-center space-x-1">
                       <span>{suggestion.categoryIcon}</span>
-                      <span>{suggestion.category}</span>
+                      <span>{t(category.labelKey)}</span>
                     </div>
                   </button>
                 ))}
@@ -312,7 +582,7 @@ export const HobbyForm: React.FC<HobbyFormProps> = ({
           className="block text-sm font-medium"
           style={{ color: currentTheme.colors.text.secondary }}
         >
-          趣味名 <span style={{ color: currentTheme.colors.error }}>*</span>
+          {t('hobbyForm.name')} <span style={{ color: currentTheme.colors.error }}>*</span>
         </label>
         <input
           type="text"
@@ -326,7 +596,7 @@ export const HobbyForm: React.FC<HobbyFormProps> = ({
             color: currentTheme.colors.text.primary,
             border: `1px solid ${currentTheme.colors.border.primary}`
           }}
-          placeholder="例: ランニング"
+          placeholder={t('hobbyForm.namePlaceholder')}
           maxLength={50}
           required
         />
@@ -338,7 +608,7 @@ export const HobbyForm: React.FC<HobbyFormProps> = ({
           className="block text-sm font-medium"
           style={{ color: currentTheme.colors.text.secondary }}
         >
-          説明
+          {t('hobbyForm.description')}
         </label>
         <textarea
           id="description"
@@ -352,11 +622,11 @@ export const HobbyForm: React.FC<HobbyFormProps> = ({
             color: currentTheme.colors.text.primary,
             border: `1px solid ${currentTheme.colors.border.primary}`
           }}
-          placeholder="趣味の詳細や楽しみ方について..."
+          placeholder={t('hobbyForm.descriptionPlaceholder')}
           maxLength={200}
         />
         <p className="mt-1 text-sm text-gray-500">
-          {formData.description.length}/200文字
+          {t('hobbyForm.descriptionLength', { count: formData.description.length, max: 200 })}
         </p>
       </div>
 
@@ -365,7 +635,7 @@ export const HobbyForm: React.FC<HobbyFormProps> = ({
           className="block text-sm font-medium mb-3"
           style={{ color: currentTheme.colors.text.secondary }}
         >
-          希望天気 <span style={{ color: currentTheme.colors.error }}>*</span>
+          {t('hobbyForm.preferredWeather')} <span style={{ color: currentTheme.colors.error }}>*</span>
         </label>
         
         {/* Selected weather conditions */}
@@ -382,7 +652,7 @@ export const HobbyForm: React.FC<HobbyFormProps> = ({
                   {getWeatherConditionLabel(condition.condition)}
                 </span>
                 <div className="flex items-center space-x-2">
-                  <label className="text-sm text-gray-600">スコア:</label>
+                  <label className="text-sm text-gray-600">{t('hobbyForm.weightScore')}</label>
                   <select
                     value={condition.weight}
                     onChange={(e) => updateWeatherWeight(index, parseInt(e.target.value))}
@@ -393,6 +663,23 @@ export const HobbyForm: React.FC<HobbyFormProps> = ({
                     ))}
                   </select>
                 </div>
+                {INTENSITY_WEATHER_TYPES.includes(condition.condition) && (
+                  <div className="flex items-center space-x-2">
+                    <label className="text-sm text-gray-600">{t('hobbyForm.weatherIntensity')}</label>
+                    <select
+                      value={condition.intensity ?? ''}
+                      onChange={(e) => updateWeatherIntensity(index, e.target.value as WeatherIntensity | '')}
+                      className="rounded border-gray-300 text-sm"
+                    >
+                      <option value="">{t('hobbyForm.weatherIntensityAny')}</option>
+                      {WEATHER_INTENSITIES.map(intensity => (
+                        <option key={intensity} value={intensity}>
+                          {t('hobbyForm.weatherIntensityOption', { intensity: t(`weather.intensity.${intensity}`) })}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
                 <button
                   type="button"
                   onClick={() => removeWeatherCondition(index)}
@@ -407,7 +694,7 @@ export const HobbyForm: React.FC<HobbyFormProps> = ({
 
         {/* Add weather condition */}
         <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-5 gap-2">
-          {WEATHER_CONDITIONS.map(({ type, label, icon }) => {
+          {WEATHER_CONDITIONS.map(({ type, labelKey, icon }) => {
             const isSelected = formData.preferredWeather.some(w => w.condition === type);
             return (
               <button
@@ -442,7 +729,7 @@ export const HobbyForm: React.FC<HobbyFormProps> = ({
                 }}
               >
                 <div className="text-lg mb-1">{icon}</div>
-                <div className="text-xs font-medium">{label}</div>
+                <div className="text-xs font-medium">{t(labelKey)}</div>
               </button>
             );
           })}
@@ -452,7 +739,7 @@ export const HobbyForm: React.FC<HobbyFormProps> = ({
       {/* 活動時間帯選択 */}
       <div>
         <label className="block text-sm font-medium text-gray-700 mb-3">
-          活動時間帯
+          {t('hobbyForm.timeOfDay')}
         </label>
         <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
           {TIME_OF_DAY_OPTIONS.map((option) => {
@@ -488,7 +775,7 @@ export const HobbyForm: React.FC<HobbyFormProps> = ({
                 }}
               >
                 <div className="text-2xl mb-1">{option.icon}</div>
-                <div className="text-sm font-medium">{option.label}</div>
+                <div className="text-sm font-medium">{t(option.labelKey)}</div>
                 <div className="text-xs text-gray-600">{option.description}</div>
               </button>
             );
@@ -496,6 +783,450 @@ export const HobbyForm: React.FC<HobbyFormProps> = ({
         </div>
       </div>
 
+      {/* 適温範囲 */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-3">
+          {t('hobbyForm.temperatureRange')}
+        </label>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {(['minTemperature', 'maxTemperature'] as const).map((key) => {
+            const value = formData[key];
+            return (
+              <div key={key}>
+                <label htmlFor={key} className="block text-xs text-gray-600 mb-1">
+                  {t('hobbyForm.withUnit', {
+                    label: t(key === 'minTemperature' ? 'recommendationDetail.minTemperature' : 'recommendationDetail.maxTemperature'),
+                    unit: temperatureSymbol
+                  })}
+                </label>
+                <input
+                  type="number"
+                  id={key}
+                  step={1}
+                  value={toInputValue(value === undefined ? undefined : toDisplayTemperature(value))}
+                  onChange={(e) => setFormData(prev => ({
+                    ...prev,
+                    // 気温は表示単位によらず°Cで保存する
+                    [key]: e.target.value === '' ? undefined : fromDisplayTemperature(Number(e.target.value))
+                  }))}
+                  className="block w-full rounded-md shadow-sm"
+                  style={{
+                    backgroundColor: currentTheme.colors.surface.secondary,
+                    color: currentTheme.colors.text.primary,
+                    border: `1px solid ${currentTheme.colors.border.primary}`
+                  }}
+                  placeholder={t('recommendationDetail.noPreference')}
+                />
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* 活動時間 */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-3">
+          {t('hobbyForm.duration')}
+        </label>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <div>
+            <label htmlFor="durationMinutes" className="block text-xs text-gray-600 mb-1">
+              {t('hobbyForm.durationMinutes')}
+            </label>
+            <input
+              type="number"
+              id="durationMinutes"
+              min={1}
+              max={1440}
+              step={15}
+              value={formData.durationMinutes ?? ''}
+              onChange={(e) => setFormData(prev => ({
+                ...prev,
+                durationMinutes: e.target.value === '' ? undefined : parseInt(e.target.value, 10)
+              }))}
+              className="block w-full rounded-md shadow-sm"
+              style={{
+                backgroundColor: currentTheme.colors.surface.secondary,
+                color: currentTheme.colors.text.primary,
+                border: `1px solid ${currentTheme.colors.border.primary}`
+              }}
+              placeholder={t('hobbyForm.durationPlaceholder')}
+            />
+          </div>
+          <div>
+            <label htmlFor="earliestStart" className="block text-xs text-gray-600 mb-1">
+              {t('hobbyForm.earliestStart')}
+            </label>
+            <input
+              type="time"
+              id="earliestStart"
+              value={formData.earliestStart}
+              onChange={(e) => setFormData(prev => ({ ...prev, earliestStart: e.target.value }))}
+              className="block w-full rounded-md shadow-sm"
+              style={{
+                backgroundColor: currentTheme.colors.surface.secondary,
+                color: currentTheme.colors.text.primary,
+                border: `1px solid ${currentTheme.colors.border.primary}`
+              }}
+            />
+          </div>
+          <div>
+            <label htmlFor="latestEnd" className="block text-xs text-gray-600 mb-1">
+              {t('hobbyForm.latestEnd')}
+            </label>
+            <input
+              type="time"
+              id="latestEnd"
+              value={formData.latestEnd}
+              onChange={(e) => setFormData(prev => ({ ...prev, latestEnd: e.target.value }))}
+              className="block w-full rounded-md shadow-sm"
+              style={{
+                backgroundColor: currentTheme.colors.surface.secondary,
+                color: currentTheme.colors.text.primary,
+                border: `1px solid ${currentTheme.colors.border.primary}`
+              }}
+            />
+          </div>
+        </div>
+        <p className="mt-1 text-xs text-gray-500">
+          {t('hobbyForm.durationHint')}
+        </p>
+        <div className="mt-3 space-y-2">
+          <label className="flex items-center text-sm text-gray-900">
+            <input
+              type="checkbox"
+              checked={formData.requiresDaylight}
+              onChange={(e) => setFormData(prev => ({ ...prev, requiresDaylight: e.target.checked }))}
+              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            />
+            <span className="ml-2">🌅 {t('hobbyForm.requiresDaylight')}</span>
+          </label>
+          <label className="flex items-center text-sm text-gray-900">
+            <input
+              type="checkbox"
+              checked={formData.prefersGoldenHour}
+              onChange={(e) => setFormData(prev => ({ ...prev, prefersGoldenHour: e.target.checked }))}
+              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            />
+            <span className="ml-2">✨ {t('hobbyForm.prefersGoldenHour')}</span>
+          </label>
+          <p className="text-xs text-gray-500">
+            {t('hobbyForm.prefersGoldenHourHint')}
+          </p>
+        </div>
+      </div>
+
+      {/* 活動頻度 */}
+      <div>
+        <label htmlFor="weeklyFrequency" className="block text-sm font-medium text-gray-700 mb-3">
+          {t('hobbyForm.weeklyFrequency')}
+        </label>
+        <select
+          id="weeklyFrequency"
+          value={formData.weeklyFrequency ?? ''}
+          onChange={(e) => setFormData(prev => ({
+            ...prev,
+            weeklyFrequency: e.target.value === '' ? undefined : parseInt(e.target.value, 10)
+          }))}
+          className="block w-full md:w-1/3 rounded-md shadow-sm"
+          style={{
+            backgroundColor: currentTheme.colors.surface.secondary,
+            color: currentTheme.colors.text.primary,
+            border: `1px solid ${currentTheme.colors.border.primary}`
+          }}
+        >
+          <option value="">{t('hobbyForm.weeklyFrequencyDefault')}</option>
+          {[2, 3, 4, 5, 6, 7].map(count => (
+            <option key={count} value={count}>
+              {t('hobbyForm.weeklyFrequencyOption', { count })}
+            </option>
+          ))}
+        </select>
+        <p className="mt-1 text-xs text-gray-500">
+          {t('hobbyForm.weeklyFrequencyHint')}
+        </p>
+      </div>
+
+      {/* 目標 */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-3">
+          {t('hobbyForm.goal')}
+        </label>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <div>
+            <label htmlFor="goalPeriod" className="block text-xs text-gray-600 mb-1">
+              {t('hobbyForm.goalPeriod')}
+            </label>
+            <select
+              id="goalPeriod"
+              value={formData.goalPeriod}
+              onChange={(e) => setFormData(prev => ({ ...prev, goalPeriod: e.target.value as GoalPeriod }))}
+              className="block w-full rounded-md shadow-sm"
+              style={{
+                backgroundColor: currentTheme.colors.surface.secondary,
+                color: currentTheme.colors.text.primary,
+                border: `1px solid ${currentTheme.colors.border.primary}`
+              }}
+            >
+              <option value="week">{t('hobbyForm.goalPeriod.week')}</option>
+              <option value="month">{t('hobbyForm.goalPeriod.month')}</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="goalCount" className="block text-xs text-gray-600 mb-1">
+              {t('hobbyForm.goalCount')}
+            </label>
+            <input
+              type="number"
+              id="goalCount"
+              min={1}
+              max={MAX_GOAL_COUNT[formData.goalPeriod]}
+              value={formData.goalCount ?? ''}
+              onChange={(e) => setFormData(prev => ({
+                ...prev,
+                goalCount: e.target.value === '' ? undefined : parseInt(e.target.value, 10)
+              }))}
+              className="block w-full rounded-md shadow-sm"
+              style={{
+                backgroundColor: currentTheme.colors.surface.secondary,
+                color: currentTheme.colors.text.primary,
+                border: `1px solid ${currentTheme.colors.border.primary}`
+              }}
+              placeholder={t('hobbyForm.goalCountPlaceholder')}
+            />
+          </div>
+        </div>
+        <p className="mt-1 text-xs text-gray-500">
+          {t('hobbyForm.goalHint')}
+        </p>
+      </div>
+
+      {/* スコア計算の重み付け */}
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <label className="block text-sm font-medium text-gray-700">
+            {t('hobbyForm.weights')}
+          </label>
+          <button
+            type="button"
+            onClick={() => setShowWeightEditor(!showWeightEditor)}
+            className="text-sm text-blue-600 hover:text-blue-500"
+          >
+            {showWeightEditor ? t('common.close') : t('hobbyForm.adjustWeights')}
+          </button>
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {SCORING_PRESETS.map((preset) => {
+            const isSelected = formData.scoringProfile.preset === preset.id;
+            return (
+              <button
+                key={preset.id}
+                type="button"
+                onClick={() => selectScoringPreset(preset.id)}
+                className="p-3 text-left rounded-lg border-2 transition-colors"
+                style={{
+                  borderColor: isSelected
+                    ? (currentTheme.mode === 'dark' ? 'rgba(59, 130, 246, 0.7)' : 'rgb(59, 130, 246)')
+                    : (currentTheme.mode === 'dark' ? 'rgba(107, 114, 128, 0.3)' : 'rgb(209, 213, 219)'),
+                  backgroundColor: isSelected
+                    ? (currentTheme.mode === 'dark' ? 'rgba(59, 130, 246, 0.2)' : 'rgb(239, 246, 255)')
+                    : currentTheme.colors.background.primary,
+                  color: currentTheme.colors.text.primary
+                }}
+              >
+                <div className="text-sm font-medium">{t(preset.labelKey)}</div>
+                <div className="text-xs text-gray-600">{t(preset.descriptionKey)}</div>
+              </button>
+            );
+          })}
+        </div>
+        {formData.scoringProfile.preset === 'custom' && (
+          <p className="mt-2 text-xs text-gray-500">{t('hobbyForm.customInUse')}</p>
+        )}
+        <label className="mt-3 flex items-center text-sm text-gray-900">
+          <input
+            type="checkbox"
+            checked={formData.scoringMode === 'night-sky'}
+            onChange={(e) => setFormData(prev => ({ ...prev, scoringMode: e.target.checked ? 'night-sky' : 'weather' }))}
+            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+          />
+          <span className="ml-2">🌌 {t('hobbyForm.nightSkyMode')}</span>
+        </label>
+        <p className="mt-1 text-xs text-gray-500">
+          {t('hobbyForm.nightSkyModeHint')}
+        </p>
+
+        {showWeightEditor && (
+          <div className="mt-3 space-y-2">
+            {(Object.keys(SCORE_FACTOR_LABELS) as ScoreFactor[]).map((factor) => (
+              <div key={factor} className="flex items-center space-x-3">
+                <label htmlFor={`weight-${factor}`} className="w-20 text-sm text-gray-600">
+                  {t(SCORE_FACTOR_LABELS[factor])}
+                </label>
+                <input
+                  type="range"
+                  id={`weight-${factor}`}
+                  min={0}
+                  max={100}
+                  step={5}
+                  value={formData.scoringProfile.weights[factor]}
+                  onChange={(e) => updateScoringWeight(factor, parseInt(e.target.value, 10))}
+                  className="flex-1"
+                />
+                <span className="w-10 text-right text-sm text-gray-700">
+                  {formData.scoringProfile.weights[factor]}
+                </span>
+              </div>
+            ))}
+            <p className="text-xs text-gray-500">
+              {t('hobbyForm.weightsHint')}
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* 活動不可の条件 */}
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <label className="block text-sm font-medium text-gray-700">
+            {t('hobbyForm.constraints')}
+          </label>
+          <button
+            type="button"
+            onClick={() => setShowConstraints(!showConstraints)}
+            className="text-sm text-blue-600 hover:text-blue-500"
+          >
+            {showConstraints ? t('common.close') : t('hobbyForm.setConstraints')}
+          </button>
+        </div>
+        {!showConstraints && Object.keys(formData.hardConstraints).length > 0 && (
+          <p className="text-xs text-gray-500">
+            {t('hobbyForm.constraintCount', { count: Object.keys(formData.hardConstraints).length })}
+          </p>
+        )}
+
+        {showConstraints && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {HARD_CONSTRAINT_FIELDS.map((field) => {
+                const value = formData.hardConstraints[field.key];
+                return (
+                  <div key={field.key}>
+                    <label htmlFor={`constraint-${field.key}`} className="block text-xs text-gray-600 mb-1">
+                      {getConstraintLabel(field)}
+                    </label>
+                    <input
+                      type="number"
+                      id={`constraint-${field.key}`}
+                      step={field.step}
+                      value={toInputValue(value === undefined ? undefined : toConstraintDisplay(field, value))}
+                      onChange={(e) => updateHardConstraint(field.key, e.target.value, (v) => fromConstraintDisplay(field, v))}
+                      className="block w-full rounded-md shadow-sm"
+                      style={{
+                        backgroundColor: currentTheme.colors.surface.secondary,
+                        color: currentTheme.colors.text.primary,
+                        border: `1px solid ${currentTheme.colors.border.primary}`
+                      }}
+                      placeholder={t('recommendationDetail.noPreference')}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+
+            <div>
+              <span className="block text-xs text-gray-600 mb-1">{t('hobbyForm.forbiddenWeather')}</span>
+              <div className="flex flex-wrap gap-2">
+                {WEATHER_CONDITIONS.map((condition) => {
+                  const isForbidden = formData.hardConstraints.forbiddenWeather?.includes(condition.type) ?? false;
+                  return (
+                    <button
+                      key={condition.type}
+                      type="button"
+                      onClick={() => toggleForbiddenWeather(condition.type)}
+                      aria-pressed={isForbidden}
+                      className="px-2 py-1 text-xs rounded-full border transition-colors"
+                      style={{
+                        borderColor: isForbidden
+                          ? (currentTheme.mode === 'dark' ? 'rgba(239, 68, 68, 0.7)' : 'rgb(239, 68, 68)')
+                          : (currentTheme.mode === 'dark' ? 'rgba(107, 114, 128, 0.3)' : 'rgb(209, 213, 219)'),
+                        backgroundColor: isForbidden
+                          ? (currentTheme.mode === 'dark' ? 'rgba(239, 68, 68, 0.2)' : 'rgb(254, 242, 242)')
+                          : currentTheme.colors.background.primary,
+                        color: currentTheme.colors.text.primary
+                      }}
+                    >
+                      {condition.icon} {t('hobbyForm.exclude', { label: t(condition.labelKey) })}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              {t('hobbyForm.constraintsHint')}
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* 活動場所 */}
+      {locations.length > 0 && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-3">
+            {t('hobbyForm.locations')}
+          </label>
+          <div className="space-y-2">
+            {locations.map((location) => {
+              if (location.id === undefined) return null;
+              const locationId = location.id;
+              const link = locationLinks.find(l => l.locationId === locationId);
+              const distance = getDistanceFromDefault(location);
+              return (
+                <div key={locationId} className="flex items-center justify-between gap-3">
+                  <label className="flex items-center text-sm text-gray-900">
+                    <input
+                      type="checkbox"
+                      checked={link !== undefined}
+                      onChange={() => toggleLocation(locationId)}
+                      className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                    />
+                    <span className="ml-2">📍 {location.name}</span>
+                    {distance !== null && (
+                      <span className="ml-2 text-xs text-gray-500">
+                        {location.isDefault ? t('locationSelector.default') : `${Math.round(distance)}km`}
+                      </span>
+                    )}
+                  </label>
+                  {link && (
+                    <div className="flex items-center space-x-1">
+                      <input
+                        type="number"
+                        aria-label={t('hobbyForm.maxTravelDistance', { name: location.name })}
+                        min={0}
+                        step={5}
+                        value={link.maxTravelDistance ?? ''}
+                        onChange={(e) => updateMaxTravelDistance(locationId, e.target.value)}
+                        className="w-24 rounded-md shadow-sm text-sm"
+                        style={{
+                          backgroundColor: currentTheme.colors.surface.secondary,
+                          color: currentTheme.colors.text.primary,
+                          border: `1px solid ${currentTheme.colors.border.primary}`
+                        }}
+                        placeholder={t('hobbyForm.noUpperLimit')}
+                      />
+                      <span className="text-xs text-gray-600">{t('hobbyForm.withinKm')}</span>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+          <p className="mt-1 text-xs text-gray-500">
+            {t('hobbyForm.locationsHint')}
+          </p>
+        </div>
+      )}
+
       <div className="flex items-center">
         <input
           id="isActive"
@@ -505,7 +1236,7 @@ export const HobbyForm: React.FC<HobbyFormProps> = ({
           className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
         />
         <label htmlFor="isActive" className="ml-2 block text-sm text-gray-900">
-          この趣味を有効にする
+          {t('hobbyForm.isActive')}
         </label>
       </div>
 
@@ -520,7 +1251,7 @@ export const HobbyForm: React.FC<HobbyFormProps> = ({
             color: currentTheme.colors.text.secondary
           }}
         >
-          キャンセル
+          {t('recommendationDetail.cancel')}
         </button>
         <button
           type="submit"
@@ -531,7 +1262,7 @@ export const HobbyForm: React.FC<HobbyFormProps> = ({
             color: currentTheme.colors.text.inverse
           }}
         >
-          {isLoading ? '保存中...' : (hobby ? '更新' : '作成')}
+          {isLoading ? t('common.saving') : (hobby ? t('hobbyForm.update') : t('hobbyForm.create'))}
         </button>
       </div>
     </form>
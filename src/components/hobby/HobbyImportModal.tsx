@@ -0,0 +1,229 @@
+import React, { useEffect, useState } from 'react';
+import type { HobbyImportItem, HobbyImportResult, HobbyShareFile } from '../../types/hobby-share';
+import { hobbyShareService } from '../../services/hobby-share.service';
+import { getWeatherConditionIcon, getWeatherConditionLabel } from '../../hooks/useHobby';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useTranslation } from '../../contexts/LanguageContext';
+import { useUnits } from '../../contexts/UnitsContext';
+
+interface HobbyImportModalProps {
+    file: HobbyShareFile;
+    onClose: () => void;
+    onImported: (result: HobbyImportResult) => void;
+}
+
+// 趣味ごとに選べる取り込み方法
+const getAvailableActions = (item: HobbyImportItem): Array<HobbyImportItem['action']> => {
+    if (item.errors.length > 0) return ['skip'];
+    if (item.conflict) return ['skip', 'overwrite', 'rename'];
+    if (item.duplicateInFile) return ['skip', 'rename'];
+    return ['create', 'skip'];
+};
+
+export const HobbyImportModal: React.FC<HobbyImportModalProps> = ({
+    file,
+    onClose,
+    onImported,
+}) => {
+    const { currentTheme } = useTheme();
+    const { t } = useTranslation();
+    const { formatTemperature } = useUnits();
+    const [items, setItems] = useState<HobbyImportItem[] | null>(null);
+    const [isImporting, setIsImporting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        hobbyShareService
+            .previewImport(file)
+            .then(setItems)
+            .catch((previewError: unknown) => {
+                console.error('趣味の取り込み内容の確認に失敗しました:', previewError);
+                setError(t('hobbyShare.import.failed'));
+            });
+    }, [file, t]);
+
+    const changeAction = (index: number, action: HobbyImportItem['action']) => {
+        setItems((current) =>
+            current?.map((item, itemIndex) => (itemIndex === index ? { ...item, action } : item)) ?? null
+        );
+    };
+
+    const importCount = items?.filter((item) => item.action !== 'skip').length ?? 0;
+
+    const importHobbies = async () => {
+        if (!items) return;
+        setIsImporting(true);
+        setError(null);
+
+        try {
+            onImported(await hobbyShareService.importHobbies(items));
+        } catch (importError) {
+            console.error('趣味の取り込みに失敗しました:', importError);
+            setError(t('hobbyShare.import.failed'));
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    const formatTemperatureRange = (item: HobbyImportItem): string | null => {
+        const { minTemperature, maxTemperature } = item.hobby;
+        if (minTemperature === undefined && maxTemperature === undefined) return null;
+        return t('hobbyShare.import.temperatureRange', {
+            min: minTemperature === undefined ? '-' : formatTemperature(minTemperature),
+            max: maxTemperature === undefined ? '-' : formatTemperature(maxTemperature),
+        });
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+            <div
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="hobby-import-title"
+                className="rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-auto"
+                style={{ backgroundColor: currentTheme.colors.surface.primary }}
+            >
+                <div
+                    className="sticky top-0 border-b px-6 py-4"
+                    style={{
+                        backgroundColor: currentTheme.colors.surface.primary,
+                        borderColor: currentTheme.colors.border.primary,
+                    }}
+                >
+                    <h2
+                        id="hobby-import-title"
+                        className="text-xl font-bold"
+                        style={{ color: currentTheme.colors.text.primary }}
+                    >
+                        {t('hobbyShare.import.title')}
+                    </h2>
+                    <p
+                        className="text-sm"
+                        style={{ color: currentTheme.colors.text.secondary }}
+                    >
+                        {t('hobbyShare.import.subtitle', { count: file.hobbies.length })}
+                    </p>
+                </div>
+
+                <div className="p-6 space-y-3">
+                    {!items && !error && (
+                        <p style={{ color: currentTheme.colors.text.secondary }}>
+                            {t('common.loading')}
+                        </p>
+                    )}
+
+                    {items?.map((item, index) => {
+                        const temperatureRange = formatTemperatureRange(item);
+                        return (
+                            <div
+                                key={index}
+                                className="border rounded-lg p-4 space-y-2"
+                                style={{ borderColor: currentTheme.colors.border.primary }}
+                            >
+                                <div className="flex justify-between items-start gap-4">
+                                    <div>
+                                        <div
+                                            className="font-medium"
+                                            style={{ color: currentTheme.colors.text.primary }}
+                                        >
+                                            {item.hobby.name}
+                                        </div>
+                                        {item.hobby.description && (
+                                            <div
+                                                className="text-sm"
+                                                style={{ color: currentTheme.colors.text.secondary }}
+                                            >
+                                                {item.hobby.description}
+                                            </div>
+                                        )}
+                                    </div>
+                                    <select
+                                        value={item.action}
+                                        onChange={(e) => changeAction(index, e.target.value as HobbyImportItem['action'])}
+                                        disabled={getAvailableActions(item).length === 1}
+                                        aria-label={t('hobbyShare.import.actionLabel', { name: item.hobby.name })}
+                                        className="text-sm border rounded-md px-2 py-1"
+                                        style={{
+                                            backgroundColor: currentTheme.colors.background.secondary,
+                                            borderColor: currentTheme.colors.border.primary,
+                                            color: currentTheme.colors.text.primary,
+                                        }}
+                                    >
+                                        {getAvailableActions(item).map((action) => (
+                                            <option key={action} value={action}>
+                                                {action === 'rename'
+                                                    ? t('hobbyShare.import.action.rename', { name: item.renamedName })
+                                                    : t(`hobbyShare.import.action.${action}`)}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+
+                                <div
+                                    className="flex flex-wrap gap-2 text-xs"
+                                    style={{ color: currentTheme.colors.text.secondary }}
+                                >
+                                    {item.hobby.preferredWeather?.map((condition) => (
+                                        <span key={condition.condition}>
+                                            {getWeatherConditionIcon(condition.condition)}{' '}
+                                            {getWeatherConditionLabel(condition.condition, condition.intensity)} ({condition.weight})
+                                        </span>
+                                    ))}
+                                    {temperatureRange && <span>🌡️ {temperatureRange}</span>}
+                                </div>
+
+                                {item.conflict && (
+                                    <p className="text-xs" style={{ color: currentTheme.colors.warning }}>
+                                        {t('hobbyShare.import.conflict', { name: item.conflict.name })}
+                                    </p>
+                                )}
+                                {!item.conflict && item.duplicateInFile && (
+                                    <p className="text-xs" style={{ color: currentTheme.colors.warning }}>
+                                        {t('hobbyShare.import.duplicateInFile')}
+                                    </p>
+                                )}
+                                {item.errors.length > 0 && (
+                                    <ul className="text-xs list-disc list-inside" style={{ color: currentTheme.colors.error }}>
+                                        {item.errors.map((message) => (
+                                            <li key={message}>{message}</li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </div>
+                        );
+                    })}
+
+                    {error && (
+                        <p className="text-sm" style={{ color: currentTheme.colors.error }}>
+                            {error}
+                        </p>
+                    )}
+                </div>
+
+                <div
+                    className="sticky bottom-0 border-t px-6 py-4 flex justify-end space-x-3"
+                    style={{
+                        backgroundColor: currentTheme.colors.surface.primary,
+                        borderColor: currentTheme.colors.border.primary,
+                    }}
+                >
+                    <button
+                        onClick={onClose}
+                        className="bg-gray-600 text-white px-4 py-2 rounded-md hover:bg-gray-700 transition-colors"
+                    >
+                        {t('common.cancel')}
+                    </button>
+                    <button
+                        onClick={() => void importHobbies()}
+                        disabled={!items || importCount === 0 || isImporting}
+                        className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                        {isImporting
+                            ? t('hobbyShare.import.importing')
+                            : t('hobbyShare.import.button', { count: importCount })}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -5,12 +5,14 @@ import {
     getWeatherConditionLabel,
 } from '../../hooks/useHobby';
 import { useTheme } from '../../contexts/ThemeContext';
+import { useTranslation } from '../../contexts/LanguageContext';
 
 interface HobbyListProps {
     hobbies: Hobby[];
     onEdit: (hobby: Hobby) => void;
     onDelete: (id: number) => void;
     onToggleActive: (id: number) => void;
+    onShare?: (hobby: Hobby) => void;
     isLoading?: boolean;
 }
 
@@ -19,9 +21,11 @@ export const HobbyList: React.FC<HobbyListProps> = ({
     onEdit,
     onDelete,
     onToggleActive,
+    onShare,
     isLoading = false,
 }) => {
     const { currentTheme } = useTheme();
+    const { locale, t } = useTranslation();
     if (isLoading) {
         return (
             <div className="text-center py-8">
@@ -33,7 +37,7 @@ export const HobbyList: React.FC<HobbyListProps> = ({
                     className="mt-2"
                     style={{ color: currentTheme.colors.text.secondary }}
                 >
-                    読み込み中...
+                    {t('common.loading')}
                 </p>
             </div>
         );
@@ -52,17 +56,17 @@ export const HobbyList: React.FC<HobbyListProps> = ({
                     className="text-lg font-medium mb-2"
                     style={{ color: currentTheme.colors.text.primary }}
                 >
-                    まだ趣味が登録されていません
+                    {t('hobbyList.empty')}
                 </h3>
                 <p style={{ color: currentTheme.colors.text.secondary }}>
-                    最初の趣味を追加して天気予報を楽しみましょう！
+                    {t('hobbyList.emptyHint')}
                 </p>
             </div>
         );
     }
 
     const formatDate = (date: Date) => {
-        return new Intl.DateTimeFormat('ja-JP', {
+        return new Intl.DateTimeFormat(locale, {
             year: 'numeric',
             month: 'short',
             day: 'numeric',
@@ -112,7 +116,7 @@ export const HobbyList: React.FC<HobbyListProps> = ({
                                                       .tertiary,
                                         }}
                                     >
-                                        {hobby.isActive ? '有効' : '無効'}
+                                        {hobby.isActive ? t('hobbyList.active') : t('hobbyList.inactive')}
                                     </span>
                                 </div>
 
@@ -136,7 +140,7 @@ export const HobbyList: React.FC<HobbyListProps> = ({
                                                 .secondary,
                                         }}
                                     >
-                                        希望天気:
+                                        {t('hobbyList.preferredWeather')}
                                     </h4>
                                     <div className="flex flex-wrap gap-2">
                                         {hobby.preferredWeather?.map(
@@ -161,7 +165,8 @@ export const HobbyList: React.FC<HobbyListProps> = ({
                                                     </span>
                                                     <span>
                                                         {getWeatherConditionLabel(
-                                                            condition.condition
+                                                            condition.condition,
+                                                            condition.intensity
                                                         )}
                                                     </span>
                                                     <span
@@ -191,14 +196,13 @@ export const HobbyList: React.FC<HobbyListProps> = ({
                                             .tertiary,
                                     }}
                                 >
-                                    作成日: {formatDate(hobby.createdAt)}
+                                    {t('hobbyList.createdAt', { date: formatDate(hobby.createdAt) })}
                                     {hobby.updatedAt &&
                                         hobby.updatedAt.getTime() !==
                                             hobby.createdAt.getTime() && (
                                             <span>
                                                 {' '}
-                                                | 更新日:{' '}
-                                                {formatDate(hobby.updatedAt)}
+                                                | {t('hobbyList.updatedAt', { date: formatDate(hobby.updatedAt) })}
                                             </span>
                                         )}
                                 </div>
@@ -219,7 +223,7 @@ export const HobbyList: React.FC<HobbyListProps> = ({
                                             : currentTheme.colors.success,
                                     }}
                                 >
-                                    {hobby.isActive ? '無効化' : '有効化'}
+                                    {hobby.isActive ? t('hobbyList.deactivate') : t('hobbyList.activate')}
                                 </button>
 
                                 <button
@@ -233,14 +237,30 @@ export const HobbyList: React.FC<HobbyListProps> = ({
                                         color: currentTheme.colors.primary,
                                     }}
                                 >
-                                    編集
+                                    {t('hobbyList.edit')}
                                 </button>
 
+                                {onShare && (
+                                    <button
+                                        onClick={() => onShare(hobby)}
+                                        className="px-3 py-1 text-xs font-medium rounded-md transition-opacity hover:opacity-80"
+                                        style={{
+                                            backgroundColor:
+                                                currentTheme.mode === 'dark'
+                                                    ? 'rgba(34, 197, 94, 0.1)'
+                                                    : 'rgb(240, 253, 244)',
+                                            color: currentTheme.colors.success,
+                                        }}
+                                    >
+                                        {t('hobbyList.share')}
+                                    </button>
+                                )}
+
                                 <button
                                     onClick={() => {
                                         if (
                                             window.confirm(
-                                                `「${hobby.name}」を削除しますか？この操作は取り消せません。`
+                                                t('hobbyList.deleteConfirm', { name: hobby.name })
                                             )
                                         ) {
                                             onDelete(hobby.id!);
@@ -255,7 +275,7 @@ export const HobbyList: React.FC<HobbyListProps> = ({
                                         color: currentTheme.colors.error,
                                     }}
                                 >
-                                    削除
+                                    {t('common.delete')}
                                 </button>
                             </div>
                         </div>
@@ -1,15 +1,29 @@
-import React, { useState } from 'react';
-import type { Hobby } from '../../types';
+import React, { useEffect, useState } from 'react';
+import type { Hobby, HobbyLocationLink, Location } from '../../types';
+import type { HobbyImportResult, HobbyShareFile } from '../../types/hobby-share';
 import { useHobby } from '../../hooks/useHobby';
+import { databaseService } from '../../services/database.service';
 import { useRecommendation } from '../../hooks/useRecommendation';
 import { useTheme } from '../../contexts/ThemeContext';
+import { useTranslation } from '../../contexts/LanguageContext';
 import { HobbyForm } from './HobbyForm';
 import { HobbyList } from './HobbyList';
+import { HobbyShareDialog } from './HobbyShareDialog';
+import { HobbyImportModal } from './HobbyImportModal';
+import { decodeHobbyShareLink, parseHobbyShare } from '../../utils/hobby-share';
 import { RecommendationFilters } from '../recommendation/RecommendationFilters';
 
 type ViewMode = 'list' | 'create' | 'edit';
 
-export const HobbyManager: React.FC = () => {
+interface HobbyManagerProps {
+    sharedLink?: string | null; // 開いた共有リンクのデータ（App.tsxがURLから読み取る）
+    onSharedLinkHandled?: () => void;
+}
+
+export const HobbyManager: React.FC<HobbyManagerProps> = ({
+    sharedLink,
+    onSharedLinkHandled,
+}) => {
     const {
         hobbies,
         activeHobbies,
@@ -25,26 +39,75 @@ export const HobbyManager: React.FC = () => {
 
     const { filters, updateFilters, clearFilters } = useRecommendation();
     const { currentTheme } = useTheme();
+    const { t } = useTranslation();
 
     const [viewMode, setViewMode] = useState<ViewMode>('list');
     const [editingHobby, setEditingHobby] = useState<Hobby | null>(null);
     const [showActiveOnly, setShowActiveOnly] = useState(false);
 
+    // 活動場所として選べる場所と、編集中の趣味の活動場所
+    const [locations, setLocations] = useState<Location[]>([]);
+    const [editingLocationLinks, setEditingLocationLinks] = useState<HobbyLocationLink[] | undefined>();
+
+    // 共有と取り込み
+    const [sharingHobbies, setSharingHobbies] = useState<Hobby[] | null>(null);
+    const [importFile, setImportFile] = useState<HobbyShareFile | null>(null);
+    const [shareMessage, setShareMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+    useEffect(() => {
+        if (!sharedLink) return;
+        try {
+            setImportFile(decodeHobbyShareLink(sharedLink));
+        } catch (linkError) {
+            setShareMessage({
+                type: 'error',
+                text: linkError instanceof Error ? linkError.message : t('hobbyShare.error.invalidLink'),
+            });
+        }
+        onSharedLinkHandled?.();
+    }, [sharedLink, onSharedLinkHandled, t]);
+
+    useEffect(() => {
+        if (viewMode === 'list') return;
+        databaseService.getAllLocations().then(setLocations).catch(() => setLocations([]));
+    }, [viewMode]);
+
+    useEffect(() => {
+        if (!editingHobby?.id) {
+            setEditingLocationLinks(undefined);
+            return;
+        }
+        databaseService
+            .getHobbyLocations(editingHobby.id)
+            .then((links) =>
+                setEditingLocationLinks(
+                    links.map(({ locationId, maxTravelDistance }) =>
+                        maxTravelDistance === undefined
+                            ? { locationId }
+                            : { locationId, maxTravelDistance }
+                    )
+                )
+            )
+            .catch(() => setEditingLocationLinks(undefined));
+    }, [editingHobby]);
+
     const handleCreate = async (
-        hobbyData: Omit<Hobby, 'id' | 'createdAt' | 'updatedAt'>
+        hobbyData: Omit<Hobby, 'id' | 'createdAt' | 'updatedAt'>,
+        locationLinks: HobbyLocationLink[]
     ) => {
-        await createHobby(hobbyData);
+        await createHobby(hobbyData, locationLinks);
         if (!error) {
             setViewMode('list');
         }
     };
 
     const handleUpdate = async (
-        hobbyData: Omit<Hobby, 'id' | 'createdAt' | 'updatedAt'>
+        hobbyData: Omit<Hobby, 'id' | 'createdAt' | 'updatedAt'>,
+        locationLinks: HobbyLocationLink[]
     ) => {
         if (!editingHobby?.id) return;
 
-        await updateHobby(editingHobby.id, hobbyData);
+        await updateHobby(editingHobby.id, hobbyData, locationLinks);
         if (!error) {
             setViewMode('list');
             setEditingHobby(null);
@@ -62,6 +125,28 @@ export const HobbyManager: React.FC = () => {
         clearError();
     };
 
+    const handleImportFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+
+        setShareMessage(null);
+        try {
+            setImportFile(parseHobbyShare(await file.text()));
+        } catch (fileError) {
+            setShareMessage({
+                type: 'error',
+                text: fileError instanceof Error ? fileError.message : t('hobbyShare.import.failed'),
+            });
+        }
+    };
+
+    const handleImported = async (result: HobbyImportResult) => {
+        setImportFile(null);
+        setShareMessage({ type: 'success', text: t('hobbyShare.import.success', { ...result }) });
+        await refreshHobbies();
+    };
+
     const displayedHobbies = showActiveOnly ? activeHobbies : hobbies;
 
     return (
@@ -69,10 +154,10 @@ export const HobbyManager: React.FC = () => {
             {/* Header */}
             <div className="mb-6">
                 <h1 className="text-2xl font-bold text-text-primary mb-2">
-                    趣味管理
+                    {t('hobbyManager.title')}
                 </h1>
                 <p className="text-text-secondary">
-                    あなたの趣味と希望する天気条件を管理できます
+                    {t('hobbyManager.subtitle')}
                 </p>
             </div>
 
@@ -89,7 +174,7 @@ export const HobbyManager: React.FC = () => {
                         </div>
                         <div className="ml-3">
                             <h3 className="text-sm font-medium text-red-800">
-                                エラーが発生しました
+                                {t('common.errorOccurred')}
                             </h3>
                             <div className="mt-1 text-sm text-red-700">
                                 {error}
@@ -99,7 +184,7 @@ export const HobbyManager: React.FC = () => {
                                     onClick={clearError}
                                     className="text-sm underline text-red-700 hover:text-red-600"
                                 >
-                                    エラーを閉じる
+                                    {t('common.dismissError')}
                                 </button>
                             </div>
                         </div>
@@ -124,7 +209,7 @@ export const HobbyManager: React.FC = () => {
                                 e.currentTarget.style.backgroundColor = currentTheme.mode === 'dark' ? currentTheme.colors.primary : '#2563eb';
                             }}
                         >
-                            + 新しい趣味を追加
+                            + {t('hobbyManager.create')}
                         </button>
 
                         <button
@@ -132,8 +217,26 @@ export const HobbyManager: React.FC = () => {
                             disabled={isLoading}
                             className="text-text-tertiary hover:text-gray-800 transition-colors disabled:opacity-50"
                         >
-                            🔄 更新
+                            🔄 {t('common.refresh')}
                         </button>
+
+                        <button
+                            onClick={() => setSharingHobbies(displayedHobbies)}
+                            disabled={displayedHobbies.length === 0}
+                            className="text-text-tertiary hover:text-gray-800 transition-colors disabled:opacity-50"
+                        >
+                            📤 {t('hobbyManager.shareAll')}
+                        </button>
+
+                        <label className="text-text-tertiary hover:text-gray-800 transition-colors cursor-pointer">
+                            📥 {t('hobbyManager.import')}
+                            <input
+                                type="file"
+                                accept="application/json,.json"
+                                onChange={(e) => void handleImportFileSelect(e)}
+                                className="sr-only"
+                            />
+                        </label>
                     </div>
 
                     <div className="flex items-center space-x-4">
@@ -151,18 +254,27 @@ export const HobbyManager: React.FC = () => {
                                 htmlFor="showActiveOnly"
                                 className="text-sm text-text-tertiary"
                             >
-                                有効な趣味のみ表示
+                                {t('hobbyManager.activeOnly')}
                             </label>
                         </div>
 
                         <div className="text-sm text-text-tertiary">
-                            全 {hobbies.length} 件 | 有効 {activeHobbies.length}{' '}
-                            件
+                            {t('hobbyManager.counts', { total: hobbies.length, active: activeHobbies.length })}
                         </div>
                     </div>
                 </div>
             )}
 
+            {viewMode === 'list' && shareMessage && (
+                <div className={`mb-6 p-3 rounded-md ${
+                    shareMessage.type === 'success'
+                        ? 'bg-green-50 dark:bg-green-900 text-green-800 dark:text-green-200 border border-green-200 dark:border-green-700'
+                        : 'bg-red-50 dark:bg-red-900 text-red-800 dark:text-red-200 border border-red-200 dark:border-red-700'
+                }`}>
+                    {shareMessage.text}
+                </div>
+            )}
+
             {/* Main Content */}
             <div className="rounded-lg shadow-sm border" style={{
                 backgroundColor: currentTheme.colors.background.primary,
@@ -175,6 +287,7 @@ export const HobbyManager: React.FC = () => {
                             onEdit={handleEdit}
                             onDelete={deleteHobby}
                             onToggleActive={toggleHobbyActive}
+                            onShare={(hobby) => setSharingHobbies([hobby])}
                             isLoading={isLoading}
                         />
                     )}
@@ -182,9 +295,10 @@ export const HobbyManager: React.FC = () => {
                     {viewMode === 'create' && (
                         <div>
                             <h2 className="text-xl font-semibold text-gray-900 mb-6">
-                                新しい趣味を追加
+                                {t('hobbyManager.create')}
                             </h2>
                             <HobbyForm
+                                locations={locations}
                                 onSubmit={handleCreate}
                                 onCancel={handleCancel}
                                 isLoading={isLoading}
@@ -195,10 +309,12 @@ export const HobbyManager: React.FC = () => {
                     {viewMode === 'edit' && editingHobby && (
                         <div>
                             <h2 className="text-xl font-semibold text-gray-900 mb-6">
-                                「{editingHobby.name}」を編集
+                                {t('hobbyManager.edit', { name: editingHobby.name })}
                             </h2>
                             <HobbyForm
                                 hobby={editingHobby}
+                                locations={locations}
+                                initialLocationLinks={editingLocationLinks}
                                 onSubmit={handleUpdate}
                                 onCancel={handleCancel}
                                 isLoading={isLoading}
@@ -218,7 +334,7 @@ export const HobbyManager: React.FC = () => {
                             {hobbies.length}
                         </div>
                         <div className="text-sm text-blue-800">
-                            登録済み趣味
+                            {t('hobbyManager.registered')}
                         </div>
                     </div>
 
@@ -228,7 +344,7 @@ export const HobbyManager: React.FC = () => {
                         <div className="text-2xl font-bold text-green-600">
                             {activeHobbies.length}
                         </div>
-                        <div className="text-sm text-green-800">有効な趣味</div>
+                        <div className="text-sm text-green-800">{t('hobbyManager.active')}</div>
                     </div>
 
                     <div className="p-4 rounded-lg" style={{
@@ -242,7 +358,7 @@ export const HobbyManager: React.FC = () => {
                                 0
                             )}
                         </div>
-                        <div className="text-sm text-gray-800">天気条件数</div>
+                        <div className="text-sm text-gray-800">{t('hobbyManager.weatherConditions')}</div>
                     </div>
                 </div>
             )}
@@ -257,6 +373,21 @@ export const HobbyManager: React.FC = () => {
                     />
                 </div>
             )}
+
+            {sharingHobbies && (
+                <HobbyShareDialog
+                    hobbies={sharingHobbies}
+                    onClose={() => setSharingHobbies(null)}
+                />
+            )}
+
+            {importFile && (
+                <HobbyImportModal
+                    file={importFile}
+                    onClose={() => setImportFile(null)}
+                    onImported={(result) => void handleImported(result)}
+                />
+            )}
         </div>
     );
 };
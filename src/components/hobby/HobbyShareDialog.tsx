@@ -0,0 +1,130 @@
+import React, { useMemo, useState } from 'react';
+import type { Hobby } from '../../types';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useTranslation } from '../../contexts/LanguageContext';
+import { createHobbyShareLink, serializeHobbyShare } from '../../utils/hobby-share';
+import { downloadTextFile, getFileDateStamp } from '../../utils/download';
+
+interface HobbyShareDialogProps {
+    hobbies: Hobby[]; // 共有する趣味（1件または複数）
+    onClose: () => void;
+}
+
+export const HobbyShareDialog: React.FC<HobbyShareDialogProps> = ({
+    hobbies,
+    onClose,
+}) => {
+    const { currentTheme } = useTheme();
+    const { t } = useTranslation();
+    const [copyState, setCopyState] = useState<'idle' | 'copied' | 'failed'>('idle');
+
+    const shareLink = useMemo(() => createHobbyShareLink(hobbies), [hobbies]);
+    const singleHobby = hobbies.length === 1 ? hobbies[0] : undefined;
+
+    const copyLink = async () => {
+        try {
+            await navigator.clipboard.writeText(shareLink);
+            setCopyState('copied');
+        } catch (error) {
+            console.error('共有リンクのコピーに失敗しました:', error);
+            setCopyState('failed');
+        }
+    };
+
+    const downloadFile = () => {
+        const fileName = singleHobby
+            ? `hobby-${singleHobby.name}.json`
+            : `hobbies-${getFileDateStamp()}.json`;
+        downloadTextFile(serializeHobbyShare(hobbies), fileName, 'application/json');
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+            <div
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="hobby-share-title"
+                className="rounded-lg shadow-xl max-w-lg w-full p-6 space-y-4"
+                style={{ backgroundColor: currentTheme.colors.surface.primary }}
+            >
+                <div>
+                    <h2
+                        id="hobby-share-title"
+                        className="text-xl font-bold"
+                        style={{ color: currentTheme.colors.text.primary }}
+                    >
+                        {singleHobby
+                            ? t('hobbyShare.titleSingle', { name: singleHobby.name })
+                            : t('hobbyShare.titleMultiple', { count: hobbies.length })}
+                    </h2>
+                    <p
+                        className="text-sm mt-1"
+                        style={{ color: currentTheme.colors.text.secondary }}
+                    >
+                        {t('hobbyShare.description')}
+                    </p>
+                </div>
+
+                {/* 共有リンク */}
+                <div className="space-y-2">
+                    <label
+                        htmlFor="hobby-share-link"
+                        className="block text-sm font-medium"
+                        style={{ color: currentTheme.colors.text.primary }}
+                    >
+                        {t('hobbyShare.link')}
+                    </label>
+                    <div className="flex space-x-2">
+                        <input
+                            id="hobby-share-link"
+                            type="text"
+                            readOnly
+                            value={shareLink}
+                            onFocus={(e) => e.currentTarget.select()}
+                            className="flex-1 px-3 py-2 text-sm border rounded-md"
+                            style={{
+                                backgroundColor: currentTheme.colors.background.secondary,
+                                borderColor: currentTheme.colors.border.primary,
+                                color: currentTheme.colors.text.primary,
+                            }}
+                        />
+                        <button
+                            onClick={() => void copyLink()}
+                            className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors text-sm"
+                        >
+                            {t('hobbyShare.copy')}
+                        </button>
+                    </div>
+                    {copyState !== 'idle' && (
+                        <p
+                            className="text-xs"
+                            style={{
+                                color: copyState === 'copied'
+                                    ? currentTheme.colors.success
+                                    : currentTheme.colors.error,
+                            }}
+                        >
+                            {copyState === 'copied' ? t('hobbyShare.copied') : t('hobbyShare.copyFailed')}
+                        </p>
+                    )}
+                </div>
+
+                <div className="flex justify-between items-center pt-2">
+                    <button
+                        onClick={downloadFile}
+                        className="text-sm underline hover:opacity-80"
+                        style={{ color: currentTheme.colors.primary }}
+                    >
+                        {t('hobbyShare.download')}
+                    </button>
+                    <button
+                        onClick={onClose}
+                        className="bg-gray-600 text-white px-4 py-2 rounded-md hover:bg-gray-700 transition-colors"
+                    >
+                        {t('common.close')}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
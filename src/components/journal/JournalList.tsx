@@ -0,0 +1,305 @@
+import React, { useEffect, useState } from 'react';
+import type { ActivityLog, ActivityPhoto, Hobby } from '../../types';
+import { getWeatherConditionIcon } from '../../hooks/useHobby';
+import { getActivityRatingOption } from '../../data/activityRatings';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useUnits } from '../../contexts/UnitsContext';
+import { useTranslation } from '../../contexts/LanguageContext';
+
+interface JournalListProps {
+    logs: ActivityLog[];
+    photos: ActivityPhoto[];
+    hobbies: Hobby[];
+    onUpdateNote: (logId: number, note: string) => void;
+    onDelete: (logId: number) => void;
+    onAddPhotos: (logId: number, files: File[]) => void;
+    onDeletePhoto: (photoId: number) => void;
+}
+
+// Blobから表示用のURLを作り、表示しなくなったら解放する
+const JournalPhoto: React.FC<{ photo: ActivityPhoto; onDelete: () => void }> = ({
+    photo,
+    onDelete,
+}) => {
+    const { t } = useTranslation();
+    const [url, setUrl] = useState<string | null>(null);
+
+    useEffect(() => {
+        const objectUrl = URL.createObjectURL(photo.blob);
+        setUrl(objectUrl);
+        return () => URL.revokeObjectURL(objectUrl);
+    }, [photo.blob]);
+
+    return (
+        <div className="relative w-24 h-24">
+            {url && (
+                <img
+                    src={url}
+                    alt={photo.name}
+                    className="w-24 h-24 object-cover rounded-md"
+                />
+            )}
+            <button
+                type="button"
+                onClick={onDelete}
+                className="absolute top-1 right-1 w-5 h-5 rounded-full bg-black bg-opacity-60 text-white text-xs"
+                aria-label={t('journal.deletePhoto', { name: photo.name })}
+            >
+                ×
+            </button>
+        </div>
+    );
+};
+
+// メモの編集欄（保存するまで記録には反映しない）
+const JournalNote: React.FC<{ note: string; onSave: (note: string) => void }> = ({
+    note,
+    onSave,
+}) => {
+    const { currentTheme } = useTheme();
+    const { t } = useTranslation();
+    const [draft, setDraft] = useState(note);
+
+    useEffect(() => {
+        setDraft(note);
+    }, [note]);
+
+    return (
+        <div className="flex items-start space-x-2">
+            <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                rows={2}
+                maxLength={1000}
+                placeholder={t('journal.notePlaceholder')}
+                className="flex-1 rounded-md shadow-sm text-sm"
+                style={{
+                    backgroundColor: currentTheme.colors.surface.secondary,
+                    color: currentTheme.colors.text.primary,
+                    border: `1px solid ${currentTheme.colors.border.primary}`,
+                }}
+            />
+            {draft !== note && (
+                <button
+                    type="button"
+                    onClick={() => onSave(draft)}
+                    className="px-3 py-1 text-xs font-medium rounded-md transition-opacity hover:opacity-80"
+                    style={{
+                        backgroundColor:
+                            currentTheme.mode === 'dark'
+                                ? 'rgba(59, 130, 246, 0.1)'
+                                : 'rgb(239, 246, 255)',
+                        color: currentTheme.colors.primary,
+                    }}
+                >
+                    {t('common.save')}
+                </button>
+            )}
+        </div>
+    );
+};
+
+export const JournalList: React.FC<JournalListProps> = ({
+    logs,
+    photos,
+    hobbies,
+    onUpdateNote,
+    onDelete,
+    onAddPhotos,
+    onDeletePhoto,
+}) => {
+    const { currentTheme } = useTheme();
+    const { toDisplayTemperature, formatWindSpeed } = useUnits();
+    const { locale, t } = useTranslation();
+
+    if (logs.length === 0) {
+        return (
+            <div className="text-center py-8">
+                <div
+                    className="text-6xl mb-4"
+                    style={{ color: currentTheme.colors.text.tertiary }}
+                >
+                    📔
+                </div>
+                <h3
+                    className="text-lg font-medium mb-2"
+                    style={{ color: currentTheme.colors.text.primary }}
+                >
+                    {t('journal.empty')}
+                </h3>
+                <p style={{ color: currentTheme.colors.text.secondary }}>
+                    {t('journal.emptyHint')}
+                </p>
+            </div>
+        );
+    }
+
+    const formatDate = (date: Date) => {
+        return new Intl.DateTimeFormat(locale, {
+            year: 'numeric',
+            month: 'short',
+            day: 'numeric',
+            weekday: 'short',
+        }).format(date);
+    };
+
+    return (
+        <div className="space-y-4">
+            {logs.map((log) => {
+                const hobby = hobbies.find((h) => h.id === log.hobbyId);
+                const rating = getActivityRatingOption(log.rating);
+                const logPhotos = photos.filter((photo) => photo.logId === log.id);
+
+                return (
+                    <div
+                        key={log.id}
+                        className="rounded-lg shadow-sm border-2 transition-all"
+                        style={{
+                            backgroundColor: currentTheme.colors.surface.primary,
+                            borderColor: currentTheme.colors.border.primary,
+                        }}
+                    >
+                        <div className="p-6">
+                            <div className="flex items-start justify-between">
+                                <div className="flex-1">
+                                    <div className="flex items-center space-x-3 mb-2">
+                                        <h3
+                                            className="text-lg font-semibold"
+                                            style={{
+                                                color: currentTheme.colors.text
+                                                    .primary,
+                                            }}
+                                        >
+                                            {hobby?.name ?? t('journal.deletedHobby')}
+                                        </h3>
+                                        <span
+                                            className="text-sm"
+                                            style={{
+                                                color: currentTheme.colors.text
+                                                    .secondary,
+                                            }}
+                                        >
+                                            {formatDate(log.date)}
+                                        </span>
+                                        {rating && (
+                                            <span
+                                                className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium"
+                                                style={{
+                                                    backgroundColor:
+                                                        currentTheme.colors
+                                                            .surface.secondary,
+                                                    color: currentTheme.colors
+                                                        .text.primary,
+                                                }}
+                                            >
+                                                {rating.icon} {t(rating.labelKey)}
+                                            </span>
+                                        )}
+                                    </div>
+
+                                    {/* その日の天気 */}
+                                    <div
+                                        className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm mb-3"
+                                        style={{
+                                            color: currentTheme.colors.text
+                                                .secondary,
+                                        }}
+                                    >
+                                        <span>
+                                            {getWeatherConditionIcon(
+                                                log.forecast.weatherType
+                                            )}{' '}
+                                            {log.forecast.weatherDescription}
+                                        </span>
+                                        <span>
+                                            {Math.round(toDisplayTemperature(log.forecast.temperature.max))}° /{' '}
+                                            {Math.round(toDisplayTemperature(log.forecast.temperature.min))}°
+                                        </span>
+                                        <span>
+                                            {t('weather.windSpeedValue', { value: formatWindSpeed(log.forecast.windSpeed) })}
+                                        </span>
+                                        <span>
+                                            {t('weather.popValue', { value: Math.round(log.forecast.pop * 100) })}
+                                        </span>
+                                        {log.locationName && (
+                                            <span>📍 {log.locationName}</span>
+                                        )}
+                                        <span>
+                                            {t('journal.predictedScore', { score: Math.round(log.predictedScore) })}
+                                        </span>
+                                    </div>
+
+                                    <JournalNote
+                                        note={log.note ?? ''}
+                                        onSave={(note) => onUpdateNote(log.id!, note)}
+                                    />
+
+                                    {/* 写真 */}
+                                    <div className="flex flex-wrap gap-2 mt-3">
+                                        {logPhotos.map((photo) => (
+                                            <JournalPhoto
+                                                key={photo.id}
+                                                photo={photo}
+                                                onDelete={() => onDeletePhoto(photo.id!)}
+                                            />
+                                        ))}
+                                        <label
+                                            className="w-24 h-24 flex flex-col items-center justify-center rounded-md border-2 border-dashed cursor-pointer text-xs"
+                                            style={{
+                                                borderColor:
+                                                    currentTheme.colors.border
+                                                        .primary,
+                                                color: currentTheme.colors.text
+                                                    .tertiary,
+                                            }}
+                                        >
+                                            <span className="text-2xl">📷</span>
+                                            {t('journal.addPhoto')}
+                                            <input
+                                                type="file"
+                                                accept="image/*"
+                                                multiple
+                                                className="hidden"
+                                                onChange={(e) => {
+                                                    const files = Array.from(e.target.files ?? []);
+                                                    if (files.length > 0) {
+                                                        onAddPhotos(log.id!, files);
+                                                    }
+                                                    e.target.value = '';
+                                                }}
+                                            />
+                                        </label>
+                                    </div>
+                                </div>
+
+                                <div className="flex flex-col space-y-2 ml-4">
+                                    <button
+                                        onClick={() => {
+                                            if (
+                                                window.confirm(
+                                                    t('journal.confirmDelete')
+                                                )
+                                            ) {
+                                                onDelete(log.id!);
+                                            }
+                                        }}
+                                        className="px-3 py-1 text-xs font-medium rounded-md transition-opacity hover:opacity-80"
+                                        style={{
+                                            backgroundColor:
+                                                currentTheme.mode === 'dark'
+                                                    ? 'rgba(239, 68, 68, 0.1)'
+                                                    : 'rgb(254, 226, 226)',
+                                            color: currentTheme.colors.error,
+                                        }}
+                                    >
+                                        {t('common.delete')}
+                                    </button>
+                                </div>
+                            </div>
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
@@ -0,0 +1,171 @@
+import React, { useMemo, useState } from 'react';
+import { useJournal } from '../../hooks/useJournal';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useTranslation } from '../../contexts/LanguageContext';
+import { calculateJournalStats } from '../../utils/journal';
+import { JournalList } from './JournalList';
+import { JournalStatsCard } from './JournalStatsCard';
+
+export const JournalPage: React.FC = () => {
+    const {
+        hobbies,
+        logs,
+        photos,
+        isLoading,
+        error,
+        updateNote,
+        deleteEntry,
+        addPhotos,
+        deletePhoto,
+        refreshJournal,
+        clearError,
+    } = useJournal();
+    const { currentTheme } = useTheme();
+    const { t } = useTranslation();
+
+    // 絞り込む趣味（nullの場合はすべて）
+    const [selectedHobbyId, setSelectedHobbyId] = useState<number | null>(null);
+
+    const displayedLogs = selectedHobbyId === null
+        ? logs
+        : logs.filter((log) => log.hobbyId === selectedHobbyId);
+
+    // 記録のある趣味ごとの統計
+    const hobbyStats = useMemo(() => {
+        return hobbies
+            .filter((hobby) => selectedHobbyId === null || hobby.id === selectedHobbyId)
+            .map((hobby) => ({
+                hobby,
+                stats: calculateJournalStats(logs.filter((log) => log.hobbyId === hobby.id)),
+            }))
+            .filter(({ stats }) => stats.totalSessions > 0);
+    }, [hobbies, logs, selectedHobbyId]);
+
+    return (
+        <div className="max-w-4xl mx-auto p-6">
+            {/* Header */}
+            <div className="mb-6">
+                <h1 className="text-2xl font-bold text-text-primary mb-2">
+                    {t('journal.title')}
+                </h1>
+                <p className="text-text-secondary">
+                    {t('journal.description')}
+                </p>
+            </div>
+
+            {/* Error Display */}
+            {error && (
+                <div className="mb-6 rounded-md p-4" style={{
+                    backgroundColor: currentTheme.mode === 'dark' ? 'rgba(239, 68, 68, 0.1)' : 'rgb(254, 242, 242)',
+                    borderColor: currentTheme.mode === 'dark' ? 'rgba(239, 68, 68, 0.2)' : 'rgb(254, 202, 202)',
+                    borderWidth: '1px'
+                }}>
+                    <div className="flex">
+                        <div className="flex-shrink-0">
+                            <span className="text-red-400">⚠️</span>
+                        </div>
+                        <div className="ml-3">
+                            <h3 className="text-sm font-medium text-red-800">
+                                {t('common.errorOccurred')}
+                            </h3>
+                            <div className="mt-1 text-sm text-red-700">
+                                {error}
+                            </div>
+                            <div className="mt-2">
+                                <button
+                                    onClick={clearError}
+                                    className="text-sm underline text-red-700 hover:text-red-600"
+                                >
+                                    {t('common.dismissError')}
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {/* Navigation */}
+            <div className="mb-6 flex flex-col sm:flex-row justify-between items-start sm:items-center space-y-4 sm:space-y-0">
+                <div className="flex items-center space-x-4">
+                    <label htmlFor="journalHobby" className="text-sm text-text-tertiary">
+                        {t('journal.hobbyFilter')}
+                    </label>
+                    <select
+                        id="journalHobby"
+                        value={selectedHobbyId ?? ''}
+                        onChange={(e) =>
+                            setSelectedHobbyId(e.target.value === '' ? null : Number(e.target.value))
+                        }
+                        className="rounded-md shadow-sm text-sm"
+                        style={{
+                            backgroundColor: currentTheme.colors.surface.secondary,
+                            color: currentTheme.colors.text.primary,
+                            border: `1px solid ${currentTheme.colors.border.primary}`,
+                        }}
+                    >
+                        <option value="">{t('common.all')}</option>
+                        {hobbies.map((hobby) => (
+                            <option key={hobby.id} value={hobby.id}>
+                                {hobby.name}
+                            </option>
+                        ))}
+                    </select>
+
+                    <button
+                        onClick={refreshJournal}
+                        disabled={isLoading}
+                        className="text-text-tertiary hover:text-gray-800 transition-colors disabled:opacity-50"
+                    >
+                        🔄 {t('common.refresh')}
+                    </button>
+                </div>
+
+                <div className="text-sm text-text-tertiary">
+                    {t('common.totalCount', { count: displayedLogs.length })}
+                </div>
+            </div>
+
+            {/* 趣味ごとの統計 */}
+            {hobbyStats.length > 0 && (
+                <div className="mb-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {hobbyStats.map(({ hobby, stats }) => (
+                        <JournalStatsCard key={hobby.id} hobby={hobby} stats={stats} />
+                    ))}
+                </div>
+            )}
+
+            {/* Main Content */}
+            <div className="rounded-lg shadow-sm border" style={{
+                backgroundColor: currentTheme.colors.background.primary,
+                borderColor: currentTheme.mode === 'dark' ? 'rgba(75, 85, 99, 0.3)' : 'rgb(229, 231, 235)'
+            }}>
+                <div className="p-6">
+                    {isLoading ? (
+                        <div className="text-center py-8">
+                            <div
+                                className="inline-block animate-spin rounded-full h-8 w-8 border-b-2"
+                                style={{ borderColor: currentTheme.colors.primary }}
+                            ></div>
+                            <p
+                                className="mt-2"
+                                style={{ color: currentTheme.colors.text.secondary }}
+                            >
+                                {t('common.loading')}
+                            </p>
+                        </div>
+                    ) : (
+                        <JournalList
+                            logs={displayedLogs}
+                            photos={photos}
+                            hobbies={hobbies}
+                            onUpdateNote={updateNote}
+                            onDelete={deleteEntry}
+                            onAddPhotos={addPhotos}
+                            onDeletePhoto={deletePhoto}
+                        />
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,157 @@
+import React from 'react';
+import type { Hobby } from '../../types';
+import type { HobbyJournalStats } from '../../utils/journal';
+import {
+    getWeatherConditionIcon,
+    getWeatherConditionLabel,
+} from '../../hooks/useHobby';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useUnits } from '../../contexts/UnitsContext';
+import { useTranslation } from '../../contexts/LanguageContext';
+
+interface JournalStatsCardProps {
+    hobby: Hobby;
+    stats: HobbyJournalStats;
+}
+
+export const JournalStatsCard: React.FC<JournalStatsCardProps> = ({
+    hobby,
+    stats,
+}) => {
+    const { currentTheme } = useTheme();
+    const { formatTemperature, formatWindSpeed } = useUnits();
+    const { locale, t } = useTranslation();
+    const maxCount = Math.max(1, ...stats.sessionsPerMonth.map((month) => month.count));
+
+    // 統計値の表示（記録がない場合は「-」）
+    const formatValue = (value: number | null, unit: string, digits = 1) =>
+        value === null ? '-' : `${value.toFixed(digits)}${unit}`;
+
+    // YYYY-MM形式の月を短い月名で表示
+    const formatMonth = (month: string) =>
+        new Intl.DateTimeFormat(locale, { month: 'short' }).format(
+            new Date(Number(month.slice(0, 4)), Number(month.slice(5)) - 1, 1)
+        );
+
+    return (
+        <div
+            className="rounded-lg shadow-sm border-2 p-6"
+            style={{
+                backgroundColor: currentTheme.colors.surface.primary,
+                borderColor: currentTheme.colors.border.primary,
+            }}
+        >
+            <div className="flex items-center justify-between mb-4">
+                <h3
+                    className="text-lg font-semibold"
+                    style={{ color: currentTheme.colors.text.primary }}
+                >
+                    {hobby.name}
+                </h3>
+                <span
+                    className="text-sm"
+                    style={{ color: currentTheme.colors.text.secondary }}
+                >
+                    {t('journalStats.sessions', { count: stats.totalSessions })}
+                </span>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3 text-sm mb-4">
+                <div>
+                    <span style={{ color: currentTheme.colors.text.secondary }}>
+                        {t('journalStats.averageRating')}
+                    </span>
+                    <p
+                        className="font-medium"
+                        style={{ color: currentTheme.colors.text.primary }}
+                    >
+                        {formatValue(stats.averageRating, ' / 5')}
+                    </p>
+                </div>
+                <div>
+                    <span style={{ color: currentTheme.colors.text.secondary }}>
+                        {t('journalStats.typicalWeather')}
+                    </span>
+                    <p
+                        className="font-medium"
+                        style={{ color: currentTheme.colors.text.primary }}
+                    >
+                        {stats.typicalWeather
+                            ? `${getWeatherConditionIcon(stats.typicalWeather)} ${getWeatherConditionLabel(stats.typicalWeather)}`
+                            : '-'}
+                    </p>
+                </div>
+                <div>
+                    <span style={{ color: currentTheme.colors.text.secondary }}>
+                        {t('journalStats.averageConditions')}
+                    </span>
+                    <p
+                        className="font-medium"
+                        style={{ color: currentTheme.colors.text.primary }}
+                    >
+                        {stats.averageTemperature === null
+                            ? '-'
+                            : formatTemperature(stats.averageTemperature)}{' '}
+                        /{' '}
+                        {stats.averageWindSpeed === null
+                            ? '-'
+                            : formatWindSpeed(stats.averageWindSpeed)}
+                    </p>
+                </div>
+                <div>
+                    <span style={{ color: currentTheme.colors.text.secondary }}>
+                        {t('journalStats.bestRatedWeather')}
+                    </span>
+                    <p
+                        className="font-medium"
+                        style={{ color: currentTheme.colors.text.primary }}
+                    >
+                        {stats.bestRatedWeather
+                            ? `${getWeatherConditionIcon(stats.bestRatedWeather)} ${getWeatherConditionLabel(stats.bestRatedWeather)}`
+                            : '-'}
+                    </p>
+                </div>
+            </div>
+
+            {/* 月ごとの回数 */}
+            <div>
+                <h4
+                    className="text-sm font-medium mb-2"
+                    style={{ color: currentTheme.colors.text.secondary }}
+                >
+                    {t('journalStats.perMonth')}
+                </h4>
+                <div className="flex items-end space-x-2 h-20">
+                    {stats.sessionsPerMonth.map((month) => (
+                        <div
+                            key={month.month}
+                            className="flex-1 flex flex-col items-center justify-end h-full"
+                            title={`${month.month}: ${t('journalStats.sessions', { count: month.count })}`}
+                        >
+                            <span
+                                className="text-xs"
+                                style={{ color: currentTheme.colors.text.secondary }}
+                            >
+                                {month.count}
+                            </span>
+                            <div
+                                className="w-full rounded-t"
+                                style={{
+                                    height: `${(month.count / maxCount) * 100}%`,
+                                    minHeight: month.count > 0 ? '4px' : '1px',
+                                    backgroundColor: currentTheme.colors.primary,
+                                }}
+                            />
+                            <span
+                                className="text-xs mt-1"
+                                style={{ color: currentTheme.colors.text.tertiary }}
+                            >
+                                {formatMonth(month.month)}
+                            </span>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -1,4 +1,4 @@
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor } from '../../test-utils';
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 
 // 実際のコンポーネントではなく、モックされたコンポーネントを使用
@@ -1,4 +1,5 @@
 import { useNotification } from '../../hooks/useNotification';
+import { useTranslation } from '../../contexts/LanguageContext';
 
 interface NotificationPermissionPromptProps {
   onPermissionGranted?: () => void;
@@ -12,6 +13,7 @@ export function NotificationPermissionPrompt({
   className = ""
 }: NotificationPermissionPromptProps) {
   const { permission, isSupported, isLoading, requestPermission, sendTestNotification } = useNotification();
+  const { t } = useTranslation();
 
   const handleRequestPermission = async () => {
     const newPermission = await requestPermission();
@@ -38,10 +40,10 @@ export function NotificationPermissionPrompt({
           <div className="text-yellow-600 mr-2">⚠️</div>
           <div>
             <h3 className="text-sm font-medium text-yellow-800">
-              通知機能がサポートされていません
+              {t('notificationPrompt.unsupportedTitle')}
             </h3>
             <p className="text-sm text-yellow-700 mt-1">
-              お使いのブラウザは通知機能をサポートしていません。
+              {t('notificationPrompt.unsupportedDescription')}
             </p>
           </div>
         </div>
@@ -57,10 +59,10 @@ export function NotificationPermissionPrompt({
             <div className="text-green-600 mr-2">✅</div>
             <div>
               <h3 className="text-sm font-medium text-green-800">
-                通知が有効です
+                {t('notificationPrompt.grantedTitle')}
               </h3>
               <p className="text-sm text-green-700 mt-1">
-                趣味に最適なタイミングで通知をお送りします。
+                {t('notificationPrompt.grantedDescription')}
               </p>
             </div>
           </div>
@@ -68,7 +70,7 @@ export function NotificationPermissionPrompt({
             onClick={handleTestNotification}
             className="text-sm bg-green-600 text-white px-3 py-1 rounded hover:bg-green-700"
           >
-            テスト送信
+            {t('notificationPrompt.sendTest')}
           </button>
         </div>
       </div>
@@ -82,10 +84,10 @@ export function NotificationPermissionPrompt({
           <div className="text-red-600 mr-2">🚫</div>
           <div>
             <h3 className="text-sm font-medium text-red-800">
-              通知が無効になっています
+              {t('notificationPrompt.deniedTitle')}
             </h3>
             <p className="text-sm text-red-700 mt-1">
-              ブラウザの設定から通知を許可してください。設定 → プライバシーとセキュリティ → 通知
+              {t('notificationPrompt.deniedDescription')}
             </p>
           </div>
         </div>
@@ -101,10 +103,10 @@ export function NotificationPermissionPrompt({
           <div className="text-blue-600 mr-2">🔔</div>
           <div>
             <h3 className="text-sm font-medium text-blue-800">
-              通知を有効にしませんか？
+              {t('notificationPrompt.requestTitle')}
             </h3>
             <p className="text-sm text-blue-700 mt-1">
-              天気に合わせた最適なタイミングで趣味活動をお知らせします。
+              {t('notificationPrompt.requestDescription')}
             </p>
           </div>
         </div>
@@ -113,7 +115,7 @@ export function NotificationPermissionPrompt({
           disabled={isLoading}
           className="text-sm bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 disabled:opacity-50"
         >
-          {isLoading ? '確認中...' : '通知を許可'}
+          {isLoading ? t('notificationPrompt.checking') : t('notificationPrompt.allow')}
         </button>
       </div>
     </div>
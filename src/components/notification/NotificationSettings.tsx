@@ -3,6 +3,7 @@ import { useNotificationConfig } from '../../hooks/useNotificationConfig';
 import { useNotification } from '../../hooks/useNotification';
 import { NotificationPermissionPrompt } from './NotificationPermissionPrompt';
 import { useTheme } from '../../contexts/ThemeContext';
+import { useTranslation } from '../../contexts/LanguageContext';
 import type { NotificationConfig, TimeRange } from '../../types/notification';
 
 interface NotificationSettingsProps {
@@ -11,6 +12,7 @@ interface NotificationSettingsProps {
 
 export function NotificationSettings({ className = "" }: NotificationSettingsProps) {
   const { currentTheme } = useTheme();
+  const { t } = useTranslation();
   const { permission } = useNotification();
   const { 
     configs, 
@@ -134,7 +136,7 @@ export function NotificationSettings({ className = "" }: NotificationSettingsPro
               className="text-sm font-medium"
               style={{ color: currentTheme.colors.error }}
             >
-              エラーが発生しました
+              {t('notificationSettings.error')}
             </h3>
             <p 
               className="text-sm mt-1"
@@ -162,7 +164,7 @@ export function NotificationSettings({ className = "" }: NotificationSettingsPro
           className="text-lg font-semibold mb-4"
           style={{ color: currentTheme.colors.text.primary }}
         >
-          🔔 通知設定
+          {t('notificationSettings.title')}
         </h2>
         
         <div className="space-y-4">
@@ -173,13 +175,13 @@ export function NotificationSettings({ className = "" }: NotificationSettingsPro
                 className="text-sm font-medium"
                 style={{ color: currentTheme.colors.text.primary }}
               >
-                通知機能
+                {t('notificationSettings.enabled')}
               </h3>
               <p 
                 className="text-sm"
                 style={{ color: currentTheme.colors.text.tertiary }}
               >
-                すべての通知の有効/無効を切り替え
+                {t('notificationSettings.enabledDescription')}
               </p>
             </div>
             <label className="relative inline-flex items-center cursor-pointer">
@@ -202,13 +204,13 @@ export function NotificationSettings({ className = "" }: NotificationSettingsPro
                   className="text-sm font-medium"
                   style={{ color: currentTheme.colors.text.primary }}
                 >
-                  静寂時間
+                  {t('notificationSettings.quietHours')}
                 </h3>
                 <p 
                   className="text-sm"
                   style={{ color: currentTheme.colors.text.tertiary }}
                 >
-                  指定した時間は通知を送信しません
+                  {t('notificationSettings.quietHoursDescription')}
                 </p>
               </div>
               <label className="relative inline-flex items-center cursor-pointer">
@@ -241,7 +243,7 @@ export function NotificationSettings({ className = "" }: NotificationSettingsPro
                   className="text-sm"
                   style={{ color: currentTheme.colors.text.tertiary }}
                 >
-                  から
+                  {t('notificationSettings.from')}
                 </span>
                 <input
                   type="time"
@@ -260,7 +262,7 @@ export function NotificationSettings({ className = "" }: NotificationSettingsPro
                   className="text-sm"
                   style={{ color: currentTheme.colors.text.tertiary }}
                 >
-                  まで
+                  {t('notificationSettings.until')}
                 </span>
               </div>
             )}
@@ -274,13 +276,13 @@ export function NotificationSettings({ className = "" }: NotificationSettingsPro
                   className="text-sm font-medium"
                   style={{ color: currentTheme.colors.text.primary }}
                 >
-                  1日の最大通知数
+                  {t('notificationSettings.maxDaily')}
                 </h3>
                 <p 
                   className="text-sm"
                   style={{ color: currentTheme.colors.text.tertiary }}
                 >
-                  1日に送信する通知の上限数
+                  {t('notificationSettings.maxDailyDescription')}
                 </p>
               </div>
               <select
@@ -294,10 +296,9 @@ export function NotificationSettings({ className = "" }: NotificationSettingsPro
                   border: `1px solid ${currentTheme.colors.border.primary}`
                 }}
               >
-                <option value={5}>5回</option>
-                <option value={10}>10回</option>
-                <option value={20}>20回</option>
-                <option value={50}>50回</option>
+                {[5, 10, 20, 50].map((count) => (
+                  <option key={count} value={count}>{t('notificationSettings.times', { count })}</option>
+                ))}
               </select>
             </div>
           </div>
@@ -310,13 +311,13 @@ export function NotificationSettings({ className = "" }: NotificationSettingsPro
                   className="text-sm font-medium"
                   style={{ color: currentTheme.colors.text.primary }}
                 >
-                  通知音
+                  {t('notificationSettings.sound')}
                 </h3>
                 <p 
                   className="text-sm"
                   style={{ color: currentTheme.colors.text.tertiary }}
                 >
-                  通知時に音を再生
+                  {t('notificationSettings.soundDescription')}
                 </p>
               </div>
               <label className="relative inline-flex items-center cursor-pointer">
@@ -336,13 +337,13 @@ export function NotificationSettings({ className = "" }: NotificationSettingsPro
                   className="text-sm font-medium"
                   style={{ color: currentTheme.colors.text.primary }}
                 >
-                  バイブレーション
+                  {t('notificationSettings.vibration')}
                 </h3>
                 <p 
                   className="text-sm"
                   style={{ color: currentTheme.colors.text.tertiary }}
                 >
-                  通知時に振動（対応デバイスのみ）
+                  {t('notificationSettings.vibrationDescription')}
                 </p>
               </div>
               <label className="relative inline-flex items-center cursor-pointer">
@@ -368,7 +369,7 @@ export function NotificationSettings({ className = "" }: NotificationSettingsPro
           className="text-lg font-semibold mb-4"
           style={{ color: currentTheme.colors.text.primary }}
         >
-          📋 通知タイプ設定
+          {t('notificationSettings.typesTitle')}
         </h2>
         
         <div className="space-y-4">
@@ -385,7 +386,7 @@ export function NotificationSettings({ className = "" }: NotificationSettingsPro
               className="text-sm text-center py-4"
               style={{ color: currentTheme.colors.text.tertiary }}
             >
-              通知設定がありません
+              {t('notificationSettings.noConfigs')}
             </p>
           )}
         </div>
@@ -401,14 +402,14 @@ export function NotificationSettings({ className = "" }: NotificationSettingsPro
             className="text-lg font-semibold"
             style={{ color: currentTheme.colors.text.primary }}
           >
-            📊 通知統計
+            {t('notificationSettings.statsTitle')}
           </h2>
           <button
             onClick={loadStats}
             className="text-sm hover:opacity-80 transition-opacity"
             style={{ color: currentTheme.colors.primary }}
           >
-            {showStats ? '再読み込み' : '統計を表示'}
+            {showStats ? t('notificationSettings.reloadStats') : t('notificationSettings.showStats')}
           </button>
         </div>
         
@@ -425,7 +426,7 @@ export function NotificationSettings({ className = "" }: NotificationSettingsPro
                 className="text-sm"
                 style={{ color: currentTheme.colors.text.tertiary }}
               >
-                総送信数
+                {t('notificationSettings.totalSent')}
               </div>
             </div>
             <div>
@@ -439,7 +440,7 @@ export function NotificationSettings({ className = "" }: NotificationSettingsPro
                 className="text-sm"
                 style={{ color: currentTheme.colors.text.tertiary }}
               >
-                クリック率
+                {t('notificationSettings.clickRate')}
               </div>
             </div>
             <div>
@@ -453,7 +454,7 @@ export function NotificationSettings({ className = "" }: NotificationSettingsPro
                 className="text-sm"
                 style={{ color: currentTheme.colors.text.tertiary }}
               >
-                非表示率
+                {t('notificationSettings.dismissRate')}
               </div>
             </div>
           </div>
@@ -472,6 +473,7 @@ function NotificationConfigItem({
   onToggle: (id: number) => Promise<void>; 
 }) {
   const { currentTheme } = useTheme();
+  const { t } = useTranslation();
   const getConfigIcon = (type: string) => {
     switch (type) {
       case 'high-score': return '🌟';
@@ -483,10 +485,10 @@ function NotificationConfigItem({
 
   const getConfigDescription = (type: string) => {
     switch (type) {
-      case 'high-score': return '趣味活動の高スコア通知';
-      case 'weather-alert': return '天気急変アラート';
-      case 'regular-report': return '定期的な趣味レポート';
-      default: return '通知';
+      case 'high-score': return t('notificationSettings.type.highScore');
+      case 'weather-alert': return t('notificationSettings.type.weatherAlert');
+      case 'regular-report': return t('notificationSettings.type.regularReport');
+      default: return t('notificationSettings.type.default');
     }
   };
 
@@ -1,5 +1,6 @@
 import { useState } from 'react';
 import { useNotificationScheduler } from '../../hooks/useNotificationScheduler';
+import { useTranslation } from '../../contexts/LanguageContext';
 
 interface SchedulerMonitorProps {
   className?: string;
@@ -16,11 +17,12 @@ export function SchedulerMonitor({ className = "" }: SchedulerMonitorProps) {
     stop,
     refresh
   } = useNotificationScheduler();
+  const { locale, t } = useTranslation();
 
   const [showAllTasks, setShowAllTasks] = useState(false);
 
   const formatDate = (date: Date) => {
-    return new Intl.DateTimeFormat('ja-JP', {
+    return new Intl.DateTimeFormat(locale, {
       month: 'short',
       day: 'numeric',
       hour: '2-digit',
@@ -33,7 +35,7 @@ export function SchedulerMonitor({ className = "" }: SchedulerMonitorProps) {
     const diff = date.getTime() - now.getTime();
     
     if (diff < 0) {
-      return '期限切れ';
+      return t('schedulerMonitor.overdue');
     }
     
     const minutes = Math.floor(diff / (1000 * 60));
@@ -41,13 +43,13 @@ export function SchedulerMonitor({ className = "" }: SchedulerMonitorProps) {
     const days = Math.floor(hours / 24);
     
     if (days > 0) {
-      return `${days}日後`;
+      return t('schedulerMonitor.inDays', { count: days });
     } else if (hours > 0) {
-      return `${hours}時間後`;
+      return t('schedulerMonitor.inHours', { count: hours });
     } else if (minutes > 0) {
-      return `${minutes}分後`;
+      return t('schedulerMonitor.inMinutes', { count: minutes });
     } else {
-      return '間もなく';
+      return t('schedulerMonitor.soon');
     }
   };
 
@@ -67,12 +69,12 @@ export function SchedulerMonitor({ className = "" }: SchedulerMonitorProps) {
   return (
     <div className={`bg-white rounded-lg shadow p-6 ${className}`}>
       <div className="flex items-center justify-between mb-6">
-        <h2 className="text-lg font-semibold text-gray-900">🕒 スケジューラー監視</h2>
+        <h2 className="text-lg font-semibold text-gray-900">{t('schedulerMonitor.title')}</h2>
         <button
           onClick={refresh}
           className="text-sm text-blue-600 hover:text-blue-800"
         >
-          更新
+          {t('schedulerMonitor.refresh')}
         </button>
       </div>
 
@@ -82,7 +84,7 @@ export function SchedulerMonitor({ className = "" }: SchedulerMonitorProps) {
           <div className="flex items-center">
             <div className="text-red-600 mr-2">❌</div>
             <div>
-              <h4 className="text-sm font-medium text-red-800">エラー</h4>
+              <h4 className="text-sm font-medium text-red-800">{t('schedulerMonitor.error')}</h4>
               <p className="text-sm text-red-700 mt-1">{error}</p>
             </div>
           </div>
@@ -93,21 +95,21 @@ export function SchedulerMonitor({ className = "" }: SchedulerMonitorProps) {
       <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mb-6">
         <div className="text-center">
           <div className={`text-2xl font-bold ${getStatusColor(isRunning)}`}>
-            {isRunning ? '動作中' : '停止中'}
+            {isRunning ? t('schedulerMonitor.running') : t('schedulerMonitor.stopped')}
           </div>
-          <div className="text-sm text-gray-500">ステータス</div>
+          <div className="text-sm text-gray-500">{t('schedulerMonitor.status')}</div>
         </div>
         
         <div className="text-center">
           <div className="text-2xl font-bold text-blue-600">{taskCount}</div>
-          <div className="text-sm text-gray-500">スケジュール済み</div>
+          <div className="text-sm text-gray-500">{t('schedulerMonitor.scheduled')}</div>
         </div>
         
         <div className="text-center">
           <div className="text-2xl font-bold text-purple-600">
             {nextTask ? formatRelativeTime(nextTask.nextRun) : '－'}
           </div>
-          <div className="text-sm text-gray-500">次回実行</div>
+          <div className="text-sm text-gray-500">{t('schedulerMonitor.nextRun')}</div>
         </div>
       </div>
 
@@ -118,14 +120,14 @@ export function SchedulerMonitor({ className = "" }: SchedulerMonitorProps) {
             onClick={start}
             className="bg-green-600 text-white px-4 py-2 rounded-md hover:bg-green-700 transition-colors"
           >
-            スケジューラー開始
+            {t('schedulerMonitor.start')}
           </button>
         ) : (
           <button
             onClick={stop}
             className="bg-red-600 text-white px-4 py-2 rounded-md hover:bg-red-700 transition-colors"
           >
-            スケジューラー停止
+            {t('schedulerMonitor.stop')}
           </button>
         )}
       </div>
@@ -133,7 +135,7 @@ export function SchedulerMonitor({ className = "" }: SchedulerMonitorProps) {
       {/* 次回タスク */}
       {nextTask && (
         <div className="border-t pt-4 mb-4">
-          <h3 className="text-sm font-medium text-gray-900 mb-2">次回実行予定</h3>
+          <h3 className="text-sm font-medium text-gray-900 mb-2">{t('schedulerMonitor.nextTask')}</h3>
           <div className="bg-blue-50 rounded-lg p-3">
             <div className="flex items-center justify-between">
               <div className="flex items-center space-x-2">
@@ -161,13 +163,13 @@ export function SchedulerMonitor({ className = "" }: SchedulerMonitorProps) {
         <div className="border-t pt-4">
           <div className="flex items-center justify-between mb-2">
             <h3 className="text-sm font-medium text-gray-900">
-              スケジュール済みタスク ({allTasks.length})
+              {t('schedulerMonitor.tasks', { count: allTasks.length })}
             </h3>
             <button
               onClick={() => setShowAllTasks(!showAllTasks)}
               className="text-sm text-blue-600 hover:text-blue-800"
             >
-              {showAllTasks ? '非表示' : '表示'}
+              {showAllTasks ? t('common.hide') : t('common.show')}
             </button>
           </div>
 
@@ -204,8 +206,8 @@ export function SchedulerMonitor({ className = "" }: SchedulerMonitorProps) {
       {taskCount === 0 && (
         <div className="text-center py-8 text-gray-500">
           <div className="text-4xl mb-2">📭</div>
-          <div className="text-sm">スケジュール済みのタスクがありません</div>
-          <div className="text-xs mt-1">通知設定を有効にするとタスクが表示されます</div>
+          <div className="text-sm">{t('schedulerMonitor.empty')}</div>
+          <div className="text-xs mt-1">{t('schedulerMonitor.emptyHint')}</div>
         </div>
       )}
     </div>
@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import { useTranslation } from '../../contexts/LanguageContext';
 
 interface BeforeInstallPromptEvent extends Event {
   prompt(): Promise<void>;
@@ -6,6 +7,7 @@ interface BeforeInstallPromptEvent extends Event {
 }
 
 export const InstallPrompt: React.FC = () => {
+  const { t } = useTranslation();
   const [deferredPrompt, setDeferredPrompt] = useState<BeforeInstallPromptEvent | null>(null);
   const [showInstallPrompt, setShowInstallPrompt] = useState(false);
 
@@ -59,9 +61,9 @@ export const InstallPrompt: React.FC = () => {
     <div className="fixed bottom-4 left-4 right-4 md:left-auto md:right-4 md:w-80 bg-primary-600 text-white rounded-lg shadow-lg p-4 z-50">
       <div className="flex items-center justify-between">
         <div className="flex-1">
-          <h3 className="font-semibold text-sm mb-1">アプリをインストール</h3>
+          <h3 className="font-semibold text-sm mb-1">{t('pwa.install.title')}</h3>
           <p className="text-xs opacity-90">
-            ホーム画面に追加してより簡単にアクセス
+            {t('pwa.install.description')}
           </p>
         </div>
         <div className="flex space-x-2 ml-4">
@@ -69,12 +71,12 @@ export const InstallPrompt: React.FC = () => {
             onClick={handleInstallClick}
             className="bg-white text-primary-600 px-3 py-1 rounded text-xs font-medium hover:bg-gray-100 transition-colors"
           >
-            インストール
+            {t('pwa.install.action')}
           </button>
           <button
             onClick={handleDismiss}
             className="text-white/80 hover:text-white px-2 py-1 rounded text-xs transition-colors"
-            aria-label="閉じる"
+            aria-label={t('common.close')}
           >
             ✕
           </button>
@@ -1,8 +1,10 @@
 import React from 'react';
 import { useOnlineStatus } from '../../hooks/useOnlineStatus';
+import { useTranslation } from '../../contexts/LanguageContext';
 
 export const OfflineIndicator: React.FC = () => {
   const isOnline = useOnlineStatus();
+  const { t } = useTranslation();
 
   if (isOnline) {
     return null;
@@ -18,7 +20,7 @@ export const OfflineIndicator: React.FC = () => {
             clipRule="evenodd"
           />
         </svg>
-        <span>オフラインモードで動作中 - 保存済みデータを表示</span>
+        <span>{t('pwa.offline')}</span>
       </div>
     </div>
   );
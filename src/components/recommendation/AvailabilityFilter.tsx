@@ -0,0 +1,62 @@
+import React from 'react';
+import type {
+    BusyHandling,
+    RecommendationFilters,
+} from '../../services/recommendation.service';
+import { useTranslation } from '../../contexts/LanguageContext';
+
+interface AvailabilityFilterProps {
+    filters: RecommendationFilters;
+    onFiltersChange: (filters: Partial<RecommendationFilters>) => void;
+    className?: string;
+}
+
+const BUSY_HANDLING_OPTIONS: BusyHandling[] = ['exclude', 'penalize'];
+
+// 「空いている日だけ」の切り替えと、予定と重なる日の扱い
+export const AvailabilityFilter: React.FC<AvailabilityFilterProps> = ({
+    filters,
+    onFiltersChange,
+    className = '',
+}) => {
+    const { t } = useTranslation();
+    const busyHandling = filters.busyHandling ?? 'exclude';
+
+    return (
+        <div className={className}>
+            <label className="flex items-center">
+                <input
+                    type="checkbox"
+                    checked={!!filters.onlyWhenFree}
+                    onChange={() => onFiltersChange({ onlyWhenFree: !filters.onlyWhenFree })}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span className="ml-2 text-sm text-text-primary">
+                    {t('recommendationFilters.onlyWhenFree')}
+                </span>
+            </label>
+            {filters.onlyWhenFree && (
+                <div className="mt-2 ml-6 flex flex-wrap gap-x-4 gap-y-1">
+                    {BUSY_HANDLING_OPTIONS.map((option) => (
+                        <label key={option} className="flex items-center">
+                            <input
+                                type="radio"
+                                name="busy-handling"
+                                value={option}
+                                checked={busyHandling === option}
+                                onChange={() => onFiltersChange({ busyHandling: option })}
+                                className="text-blue-600 focus:ring-blue-500"
+                            />
+                            <span className="ml-2 text-sm text-text-secondary">
+                                {t(`recommendationFilters.busyHandling.${option}`)}
+                            </span>
+                        </label>
+                    ))}
+                </div>
+            )}
+            <p className="mt-1 text-xs text-text-tertiary">
+                {t('recommendationFilters.onlyWhenFreeHint')}
+            </p>
+        </div>
+    );
+};
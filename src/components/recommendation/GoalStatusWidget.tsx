@@ -0,0 +1,78 @@
+import React from 'react';
+import type { GoalProgress, GoalStatus } from '../../utils/goals';
+import { useTranslation } from '../../contexts/LanguageContext';
+
+interface GoalStatusWidgetProps {
+    goalProgress: GoalProgress[];
+    className?: string;
+}
+
+const STATUS_STYLES: Record<GoalStatus, { badge: string; bar: string }> = {
+    achieved: { badge: 'bg-green-100 text-green-800', bar: 'bg-green-500' },
+    onTrack: { badge: 'bg-blue-100 text-blue-800', bar: 'bg-blue-500' },
+    behind: { badge: 'bg-orange-100 text-orange-800', bar: 'bg-orange-500' },
+};
+
+// 趣味の目標の進捗（目標を設定した趣味がない場合は表示しない）
+export const GoalStatusWidget: React.FC<GoalStatusWidgetProps> = ({
+    goalProgress,
+    className = '',
+}) => {
+    const { t } = useTranslation();
+
+    if (goalProgress.length === 0) return null;
+
+    const behindCount = goalProgress.filter((progress) => progress.status === 'behind').length;
+
+    return (
+        <section className={`bg-surface-secondary border border-border-primary rounded-md p-4 ${className}`}>
+            <div className="flex items-center justify-between mb-3">
+                <h3 className="text-sm font-medium text-text-primary">🎯 {t('goals.title')}</h3>
+                {behindCount > 0 && (
+                    <span className="text-xs text-orange-700">
+                        {t('goals.behindCount', { count: behindCount })}
+                    </span>
+                )}
+            </div>
+
+            <ul className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {goalProgress.map((progress) => {
+                    const { hobby, goal, completed, remaining, daysLeft, status } = progress;
+                    const percent = Math.min(100, Math.round((completed / goal.count) * 100));
+                    return (
+                        <li key={hobby.id} className="space-y-1">
+                            <div className="flex items-center justify-between gap-2 text-sm">
+                                <span className="font-medium text-text-primary">{hobby.name}</span>
+                                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[status].badge}`}>
+                                    {t(`goals.status.${status}`)}
+                                </span>
+                            </div>
+                            <div
+                                className="h-2 rounded-full bg-gray-200 overflow-hidden"
+                                role="progressbar"
+                                aria-valuemin={0}
+                                aria-valuemax={goal.count}
+                                aria-valuenow={Math.min(completed, goal.count)}
+                                aria-label={t('goals.progressLabel', { hobby: hobby.name })}
+                            >
+                                <div className={`h-full ${STATUS_STYLES[status].bar}`} style={{ width: `${percent}%` }} />
+                            </div>
+                            <div className="flex justify-between text-xs text-text-secondary">
+                                <span>
+                                    {t('goals.progress', {
+                                        period: t(`goals.period.${goal.period}`),
+                                        completed,
+                                        count: goal.count,
+                                    })}
+                                </span>
+                                {remaining > 0 && (
+                                    <span>{t('goals.remaining', { count: remaining, days: daysLeft })}</span>
+                                )}
+                            </div>
+                        </li>
+                    );
+                })}
+            </ul>
+        </section>
+    );
+};
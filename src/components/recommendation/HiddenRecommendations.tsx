@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import type { HiddenRecommendation } from '../../services/recommendation.service';
+import { useTranslation } from '../../contexts/LanguageContext';
+import { formatBusyInterval } from '../../utils/availability';
+
+interface HiddenRecommendationsProps {
+    hiddenRecommendations: HiddenRecommendation[];
+    className?: string;
+}
+
+// 予定と重なるためおすすめから外した日の一覧
+export const HiddenRecommendations: React.FC<HiddenRecommendationsProps> = ({
+    hiddenRecommendations,
+    className = '',
+}) => {
+    const { t, locale } = useTranslation();
+    const [isExpanded, setIsExpanded] = useState(false);
+
+    if (hiddenRecommendations.length === 0) return null;
+
+    return (
+        <div className={`bg-surface-secondary border border-border-primary rounded-md p-4 ${className}`}>
+            <button
+                type="button"
+                onClick={() => setIsExpanded(!isExpanded)}
+                aria-expanded={isExpanded}
+                className="w-full flex items-center justify-between text-left text-sm font-medium text-text-primary"
+            >
+                <span>
+                    🗓️ {t('hiddenRecommendations.title', { count: hiddenRecommendations.length })}
+                </span>
+                <span className="text-text-secondary">{isExpanded ? '▲' : '▼'}</span>
+            </button>
+
+            {isExpanded && (
+                <ul className="mt-3 space-y-2">
+                    {hiddenRecommendations.map(({ hobby, day, conflicts }) => (
+                        <li
+                            key={`${hobby.id ?? hobby.name}-${day.date.getTime()}`}
+                            className="text-sm"
+                        >
+                            <div className="flex justify-between gap-4 text-text-primary">
+                                <span>
+                                    {hobby.name} ·{' '}
+                                    {day.date.toLocaleDateString(locale, {
+                                        month: 'short',
+                                        day: 'numeric',
+                                        weekday: 'short',
+                                    })}
+                                </span>
+                                <span className="text-text-secondary">
+                                    {t('common.points', { score: Math.round(day.score) })}
+                                </span>
+                            </div>
+                            <div className="text-xs text-text-tertiary">
+                                {t('hiddenRecommendations.conflicts', {
+                                    events: conflicts
+                                        .map((conflict) =>
+                                            t('hiddenRecommendations.event', {
+                                                summary: conflict.summary ?? t('availability.untitled'),
+                                                time: formatBusyInterval(conflict),
+                                            })
+                                        )
+                                        .join(t('common.listSeparator')),
+                                })}
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
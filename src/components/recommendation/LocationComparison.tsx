@@ -0,0 +1,173 @@
+import React from 'react';
+import type { MultiLocationRecommendation } from '../../services/recommendation.service';
+import { weatherService } from '../../services/weather.service';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useUnits } from '../../contexts/UnitsContext';
+import { useTranslation } from '../../contexts/LanguageContext';
+
+// 場所比較のプロパティ
+interface LocationComparisonProps {
+  recommendations: MultiLocationRecommendation[]; // 趣味ごとの場所別おすすめ
+  locationCount: number; // 比較した場所の数
+  isLoading?: boolean; // 読み込み中フラグ
+}
+
+// 上位として表示する（場所, 日）の組み合わせの数
+const TOP_PAIR_COUNT = 3;
+
+export const LocationComparison: React.FC<LocationComparisonProps> = ({
+  recommendations,
+  locationCount,
+  isLoading = false
+}) => {
+  const { currentTheme } = useTheme();
+  const { toDisplayTemperature } = useUnits();
+  const { locale, t } = useTranslation();
+
+  // スコアに基づく色分け
+  const getScoreColor = (score: number): string => {
+    if (score >= 80) return 'text-green-600 bg-green-100';
+    if (score >= 60) return 'text-yellow-600 bg-yellow-100';
+    if (score >= 40) return 'text-orange-600 bg-orange-100';
+    return 'text-red-600 bg-red-100';
+  };
+
+  // 日付のフォーマット
+  const formatDate = (date: Date): string => {
+    return new Intl.DateTimeFormat(locale, {
+      month: 'short',
+      day: 'numeric',
+      weekday: 'short'
+    }).format(date);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-8">
+        <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        <p className="mt-2 text-gray-600">{t('locationComparison.comparing')}</p>
+      </div>
+    );
+  }
+
+  if (locationCount < 2) {
+    return (
+      <div className="text-center py-12">
+        <div className="text-gray-400 text-6xl mb-4">📍</div>
+        <h3 className="text-lg font-medium text-gray-900 mb-2">
+          {t('locationComparison.notEnough')}
+        </h3>
+        <p className="text-gray-600">
+          {t('locationComparison.notEnoughHint')}
+        </p>
+      </div>
+    );
+  }
+
+  if (recommendations.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <div className="text-gray-400 text-6xl mb-4">🎯</div>
+        <h3 className="text-lg font-medium text-gray-900 mb-2">
+          {t('recommendationList.empty')}
+        </h3>
+        <p className="text-gray-600">
+          {t('locationComparison.emptyHint')}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      {recommendations.map((recommendation) => {
+        const topPairs = recommendation.pairs.slice(0, TOP_PAIR_COUNT);
+
+        return (
+          <div
+            key={recommendation.hobby.id ?? recommendation.hobby.name}
+            className="rounded-lg shadow-md border p-6"
+            style={{
+              backgroundColor: currentTheme.colors.surface.primary,
+              borderColor: currentTheme.colors.border.primary,
+            }}
+          >
+            <h3
+              className="text-lg font-semibold mb-4"
+              style={{ color: currentTheme.colors.text.primary }}
+            >
+              {recommendation.hobby.name}
+            </h3>
+
+            {/* 上位の組み合わせ */}
+            {topPairs.length > 0 ? (
+              <ol className="space-y-2 mb-4">
+                {topPairs.map((pair, index) => (
+                  <li
+                    key={`${pair.location.id}-${pair.day.date.toDateString()}`}
+                    className="flex items-center justify-between rounded-lg p-3"
+                    style={{
+                      backgroundColor: index === 0
+                        ? (currentTheme.mode === 'dark' ? 'rgba(59, 130, 246, 0.1)' : 'rgb(239, 246, 255)')
+                        : currentTheme.colors.surface.secondary
+                    }}
+                  >
+                    <div className="flex items-center space-x-2">
+                      <span className="text-sm font-medium" style={{ color: currentTheme.colors.text.secondary }}>
+                        {index + 1}.
+                      </span>
+                      <span className="text-lg">
+                        {weatherService.getWeatherIcon(pair.day.forecast.weatherType)}
+                      </span>
+                      <div>
+                        <p className="text-sm font-medium" style={{ color: currentTheme.colors.text.primary }}>
+                          📍 {pair.location.name}
+                        </p>
+                        <p className="text-xs" style={{ color: currentTheme.colors.text.secondary }}>
+                          {t('locationComparison.dayTemperature', {
+                            date: formatDate(pair.day.date),
+                            max: Math.round(toDisplayTemperature(pair.day.forecast.temperature.max)),
+                            min: Math.round(toDisplayTemperature(pair.day.forecast.temperature.min)),
+                          })}
+                        </p>
+                      </div>
+                    </div>
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${getScoreColor(pair.day.score)}`}>
+                      {t('common.points', { score: Math.round(pair.day.score) })}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            ) : (
+              <p className="text-sm text-red-600 mb-4">{t('locationComparison.noPossibleDays')}</p>
+            )}
+
+            {/* 場所ごとの比較 */}
+            <table className="w-full text-xs">
+              <thead>
+                <tr style={{ color: currentTheme.colors.text.tertiary }}>
+                  <th className="text-left font-normal">{t('locationComparison.place')}</th>
+                  <th className="text-left font-normal">{t('locationComparison.bestDay')}</th>
+                  <th className="text-right font-normal">{t('locationComparison.overall')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {recommendation.locations.map((summary) => (
+                  <tr key={summary.location.id ?? summary.location.name} style={{ color: currentTheme.colors.text.primary }}>
+                    <td>{summary.location.name}</td>
+                    <td>
+                      {summary.bestDay
+                        ? t('locationComparison.bestDayScore', { date: formatDate(summary.bestDay.date), score: Math.round(summary.bestDay.score) })
+                        : t('recommendationCard.impossible')}
+                    </td>
+                    <td className="text-right font-medium">{t('common.points', { score: Math.round(summary.overallScore) })}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,57 @@
+import React from 'react';
+import type { NightSky } from '../../types';
+import { getMoonPhaseName, type MoonPhaseName } from '../../utils/astronomy';
+import { useTranslation } from '../../contexts/LanguageContext';
+
+interface NightSkyInfoProps {
+  nightSky: NightSky; // その日の夜の月と暗さ
+}
+
+// 月相ごとの絵文字
+const MOON_PHASE_ICONS: Record<MoonPhaseName, string> = {
+  new: '🌑',
+  waxingCrescent: '🌒',
+  firstQuarter: '🌓',
+  waxingGibbous: '🌔',
+  full: '🌕',
+  waningGibbous: '🌖',
+  lastQuarter: '🌗',
+  waningCrescent: '🌘'
+};
+
+export const NightSkyInfo: React.FC<NightSkyInfoProps> = ({ nightSky }) => {
+  const { locale, t } = useTranslation();
+  const phaseName = getMoonPhaseName(nightSky.moonPhase);
+
+  const formatTime = (date: Date | null): string =>
+    date ? new Intl.DateTimeFormat(locale, { hour: '2-digit', minute: '2-digit' }).format(date) : '—';
+
+  return (
+    <div className="bg-indigo-50 rounded-lg p-3 mb-3 text-xs">
+      <p className="font-medium text-gray-900 mb-2">
+        {MOON_PHASE_ICONS[phaseName]} {t('recommendationDetail.moonPhase', {
+          phase: t(`moonPhase.${phaseName}`),
+          percent: Math.round(nightSky.moonIllumination * 100)
+        })}
+      </p>
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+        <div>
+          <span className="text-gray-600">{t('recommendationDetail.moonrise')}</span>
+          <p className="font-medium">{formatTime(nightSky.moonrise)}</p>
+        </div>
+        <div>
+          <span className="text-gray-600">{t('recommendationDetail.moonset')}</span>
+          <p className="font-medium">{formatTime(nightSky.moonset)}</p>
+        </div>
+        <div>
+          <span className="text-gray-600">{t('recommendationDetail.darkness')}</span>
+          <p className="font-medium">
+            {nightSky.darkness
+              ? t('forecastCard.timeRange', { start: formatTime(nightSky.darkness.start), end: formatTime(nightSky.darkness.end) })
+              : t('recommendationDetail.noDarkness')}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,25 +1,43 @@
 import React from 'react';
 import type { HobbyRecommendation } from '../../services/recommendation.service';
+import type { ColdStressLevel, Location, WbgtLevel } from '../../types';
 import { weatherService } from '../../services/weather.service';
 import { useTheme } from '../../contexts/ThemeContext';
+import { useUnits } from '../../contexts/UnitsContext';
+import { useTranslation } from '../../contexts/LanguageContext';
+import { createRecommendedDayCalendar, getCalendarFileName } from '../../utils/recommendation-calendar';
+import { downloadTextFile } from '../../utils/download';
+import { getConfidenceLevel } from '../../utils/forecast-confidence';
 
 // おすすめカードのプロパティ
 interface RecommendationCardProps {
   recommendation: HobbyRecommendation; // おすすめ情報
   onViewDetails?: (recommendation: HobbyRecommendation) => void; // 詳細表示コールバック
+  location?: Location | undefined; // 予報の場所（カレンダーの予定に含める）
   className?: string; // 追加のCSSクラス
 }
 
 export const RecommendationCard: React.FC<RecommendationCardProps> = ({
   recommendation,
   onViewDetails,
+  location,
   className = ''
 }) => {
   const { currentTheme } = useTheme();
+  const { toDisplayTemperature, formatTemperature } = useUnits();
+  const { locale, t } = useTranslation();
   const { hobby, recommendedDays, overallScore, bestDayIndex } = recommendation;
   const bestDay = recommendedDays[bestDayIndex];
+  const impossibleDays = recommendedDays.filter(day => !day.isPossible);
+  const otherDays = recommendedDays.filter(day => day !== bestDay);
+  // 活動不可の理由は注意事項に共通の接頭辞付きで入っている
+  const blockedPrefix = t('factor.blocked', { reason: '' });
+  // 屋外の趣味で熱中症・寒さの注意が必要な段階か
+  const safety = hobby.isOutdoor ? bestDay?.safety : undefined;
+  const showsHeatRisk = safety !== undefined && safety.wbgtLevel !== 'safe';
+  const showsColdRisk = safety !== undefined && safety.coldStressLevel !== 'none';
 
-  if (!bestDay) return null;
+  if (recommendedDays.length === 0) return null;
 
   // スコアに基づく色分け
   const getScoreColor = (score: number): string => {
@@ -30,11 +48,19 @@ export const RecommendationCard: React.FC<RecommendationCardProps> = ({
   };
 
   // スコアラベルの取得
+  // 暑さ・寒さの段階に基づく色分け
+  const getSafetyColor = (level: WbgtLevel | ColdStressLevel): string => {
+    if (level === 'danger') return 'text-red-800 bg-red-100';
+    if (level === 'severeWarning') return 'text-orange-800 bg-orange-100';
+    if (level === 'warning') return 'text-yellow-800 bg-yellow-100';
+    return 'text-blue-800 bg-blue-100';
+  };
+
   const getScoreLabel = (score: number): string => {
-    if (score >= 80) return '最適';
-    if (score >= 60) return '良好';
-    if (score >= 40) return '普通';
-    return '注意';
+    if (score >= 80) return t('recommendationCard.scoreLabel.excellent');
+    if (score >= 60) return t('recommendationCard.scoreLabel.good');
+    if (score >= 40) return t('recommendationCard.scoreLabel.fair');
+    return t('recommendationCard.scoreLabel.poor');
   };
 
   // 日付のフォーマット
@@ -43,16 +69,24 @@ export const RecommendationCard: React.FC<RecommendationCardProps> = ({
     const tomorrow = new Date(today);
     tomorrow.setDate(tomorrow.getDate() + 1);
 
-    if (date.toDateString() === today.toDateString()) return '今日';
-    if (date.toDateString() === tomorrow.toDateString()) return '明日';
+    if (date.toDateString() === today.toDateString()) return t('common.today');
+    if (date.toDateString() === tomorrow.toDateString()) return t('common.tomorrow');
 
-    return new Intl.DateTimeFormat('ja-JP', {
+    return new Intl.DateTimeFormat(locale, {
       month: 'short',
       day: 'numeric',
       weekday: 'short'
     }).format(date);
   };
 
+  // 時刻のフォーマット
+  const formatTime = (date: Date): string => {
+    return new Intl.DateTimeFormat(locale, {
+      hour: '2-digit',
+      minute: '2-digit'
+    }).format(date);
+  };
+
   return (
     <div 
       className={`rounded-lg shadow-md border p-6 hover:shadow-lg transition-shadow ${className}`}
@@ -73,7 +107,12 @@ export const RecommendationCard: React.FC<RecommendationCardProps> = ({
             </h3>
             {hobby.isOutdoor && (
               <span className="bg-green-100 text-green-800 text-xs px-2 py-1 rounded-full">
-                屋外
+                {t('recommendationCard.outdoor')}
+              </span>
+            )}
+            {recommendation.goalProgress?.status === 'behind' && (
+              <span className="bg-orange-100 text-orange-800 text-xs px-2 py-1 rounded-full">
+                {t('recommendationCard.goalBehind', { count: recommendation.goalProgress.remaining })}
               </span>
             )}
           </div>
@@ -89,74 +128,146 @@ export const RecommendationCard: React.FC<RecommendationCardProps> = ({
 
         <div className="text-right">
           <div className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${getScoreColor(overallScore)}`}>
-            {Math.round(overallScore)}点 ({getScoreLabel(overallScore)})
+            {t('common.points', { score: Math.round(overallScore) })} ({getScoreLabel(overallScore)})
           </div>
         </div>
       </div>
 
       {/* 最適日 */}
-      <div 
-        className="rounded-lg p-4 mb-4"
-        style={{ 
-          backgroundColor: currentTheme.mode === 'dark' 
-            ? 'rgba(59, 130, 246, 0.1)' 
-            : 'rgb(239, 246, 255)'
-        }}
-      >
-        <div className="flex items-center justify-between mb-2">
-          <h4 
-            className="text-sm font-medium"
-            style={{ color: currentTheme.colors.text.primary }}
-          >
-            最適な日
-          </h4>
-          <span 
-            className="text-sm font-medium"
-            style={{ color: currentTheme.colors.primary }}
-          >
-            {formatDate(bestDay.date)}
-          </span>
-        </div>
-
-        <div className="flex items-center space-x-4">
-          {/* 天気 */}
-          <div className="flex items-center space-x-2">
-            <span className="text-2xl">
-              {weatherService.getWeatherIcon(bestDay.forecast.weatherType)}
+      {bestDay ? (
+        <div 
+          className="rounded-lg p-4 mb-4"
+          style={{ 
+            backgroundColor: currentTheme.mode === 'dark' 
+              ? 'rgba(59, 130, 246, 0.1)' 
+              : 'rgb(239, 246, 255)'
+          }}
+        >
+          <div className="flex items-center justify-between mb-2">
+            <h4 
+              className="text-sm font-medium"
+              style={{ color: currentTheme.colors.text.primary }}
+            >
+              {t('recommendationCard.bestDay')}
+            </h4>
+            <span 
+              className="text-sm font-medium"
+              style={{ color: currentTheme.colors.primary }}
+            >
+              {formatDate(bestDay.date)}
             </span>
-            <div>
-              <p 
-                className="text-sm font-medium"
-                style={{ color: currentTheme.colors.text.primary }}
-              >
-                {bestDay.forecast.weatherDescription}
-              </p>
-              <p 
-                className="text-xs"
-                style={{ color: currentTheme.colors.text.secondary }}
-              >
-                {Math.round(bestDay.forecast.temperature.max)}° / {Math.round(bestDay.forecast.temperature.min)}°
-              </p>
-            </div>
           </div>
 
-          {/* スコア */}
-          <div className="flex-1 text-right">
-            <div className={`inline-flex items-center px-2 py-1 rounded text-sm font-medium ${getScoreColor(bestDay.score)}`}>
-              {Math.round(bestDay.score)}点
+          <div className="flex items-center space-x-4">
+            {/* 天気 */}
+            <div className="flex items-center space-x-2">
+              <span className="text-2xl">
+                {weatherService.getWeatherIcon(bestDay.forecast.weatherType)}
+              </span>
+              <div>
+                <p 
+                  className="text-sm font-medium"
+                  style={{ color: currentTheme.colors.text.primary }}
+                >
+                  {bestDay.forecast.weatherDescription}
+                </p>
+                <p 
+                  className="text-xs"
+                  style={{ color: currentTheme.colors.text.secondary }}
+                >
+                  {Math.round(toDisplayTemperature(bestDay.forecast.temperature.max))}° / {Math.round(toDisplayTemperature(bestDay.forecast.temperature.min))}°
+                </p>
+              </div>
+            </div>
+
+            {/* スコア */}
+            <div className="flex-1 text-right">
+              <div className={`inline-flex items-center px-2 py-1 rounded text-sm font-medium ${getScoreColor(bestDay.score)}`}>
+                {t('common.points', { score: Math.round(bestDay.score) })}
+              </div>
+              {bestDay.confidence < 1 && (
+                <p
+                  className="text-xs mt-1"
+                  style={{ color: currentTheme.colors.text.tertiary }}
+                >
+                  {t('recommendationCard.adjustedScore', {
+                    score: Math.round(bestDay.adjustedScore),
+                    percent: Math.round(bestDay.confidence * 100),
+                  })}
+                </p>
+              )}
             </div>
           </div>
+
+          {/* 活動時間帯 */}
+          {bestDay.activityWindow && (
+            <p
+              className="text-xs mt-3"
+              style={{ color: currentTheme.colors.text.secondary }}
+            >
+              ⏱️ {t('recommendationCard.activityWindow', {
+                start: formatTime(bestDay.activityWindow.start),
+                end: formatTime(bestDay.activityWindow.end),
+                worst: formatTime(bestDay.activityWindow.worstSlot.datetime),
+                score: Math.round(bestDay.activityWindow.worstSlotScore),
+              })}
+            </p>
+          )}
+
+          {/* 熱中症・寒さの注意 */}
+          {safety && showsHeatRisk && (
+            <div className={`rounded px-3 py-2 mt-3 text-xs ${getSafetyColor(safety.wbgtLevel)}`}>
+              <p className="font-medium">
+                🥵 {t('recommendationCard.heatRisk', { level: t(`safety.wbgt.${safety.wbgtLevel}`) })}
+              </p>
+              <p>
+                {t('recommendationCard.heatDetails', {
+                  wbgt: safety.wbgt.toFixed(1),
+                  heatIndex: formatTemperature(safety.heatIndex),
+                  discomfort: Math.round(safety.discomfortIndex),
+                })}
+              </p>
+            </div>
+          )}
+          {safety && showsColdRisk && (
+            <div className={`rounded px-3 py-2 mt-3 text-xs ${getSafetyColor(safety.coldStressLevel)}`}>
+              <p className="font-medium">
+                🥶 {t('recommendationCard.coldRisk', { level: t(`safety.cold.${safety.coldStressLevel}`) })}
+              </p>
+              <p>
+                {t('recommendationCard.coldDetails', { windChill: formatTemperature(safety.windChill) })}
+              </p>
+            </div>
+          )}
         </div>
-      </div>
+      ) : (
+        <div
+          className="rounded-lg p-4 mb-4 border border-dashed"
+          style={{ borderColor: currentTheme.colors.error }}
+        >
+          <h4
+            className="text-sm font-medium mb-1"
+            style={{ color: currentTheme.colors.error }}
+          >
+            {t('recommendationCard.noPossibleDays')}
+          </h4>
+          <p
+            className="text-xs"
+            style={{ color: currentTheme.colors.text.secondary }}
+          >
+            {impossibleDays[0]?.warningFactors[0]}
+          </p>
+        </div>
+      )}
 
       {/* 良い条件 */}
-      {bestDay.matchingFactors.length > 0 && (
+      {bestDay && bestDay.matchingFactors.length > 0 && (
         <div className="mb-4">
           <h5 
             className="text-xs font-medium mb-2"
             style={{ color: currentTheme.colors.success }}
           >
-            ✓ 良い条件
+            {t('recommendationCard.matching')}
           </h5>
           <div className="space-y-1">
             {bestDay.matchingFactors.slice(0, 2).map((factor, index) => (
@@ -173,13 +284,13 @@ export const RecommendationCard: React.FC<RecommendationCardProps> = ({
       )}
 
       {/* 注意事項 */}
-      {bestDay.warningFactors.length > 0 && (
+      {bestDay && bestDay.warningFactors.length > 0 && (
         <div className="mb-4">
           <h5 
             className="text-xs font-medium mb-2"
             style={{ color: currentTheme.colors.warning }}
           >
-            ⚠ 注意事項
+            {t('recommendationCard.warnings')}
           </h5>
           <div className="space-y-1">
             {bestDay.warningFactors.slice(0, 2).map((factor, index) => (
@@ -196,33 +307,48 @@ export const RecommendationCard: React.FC<RecommendationCardProps> = ({
       )}
 
       {/* その他の候補日 */}
-      {recommendedDays.length > 1 && (
+      {bestDay && otherDays.length > 0 && (
         <div className="mb-4">
           <h5 
             className="text-xs font-medium mb-2"
             style={{ color: currentTheme.colors.text.secondary }}
           >
-            他の候補日
+            {t('recommendationCard.otherDays')}
           </h5>
           <div className="flex space-x-2 overflow-x-auto">
-            {recommendedDays.slice(1, 4).map((day, index) => (
+            {otherDays.slice(0, 3).map((day, index) => (
               <div
                 key={index}
-                className="flex-shrink-0 rounded px-3 py-2 text-center"
-                style={{ backgroundColor: currentTheme.colors.surface.secondary }}
+                className={`flex-shrink-0 rounded px-3 py-2 text-center ${day.isPossible ? '' : 'border border-dashed'} ${getConfidenceLevel(day.confidence) === 'low' ? 'opacity-60' : ''}`}
+                style={{
+                  backgroundColor: currentTheme.colors.surface.secondary,
+                  borderColor: day.isPossible ? undefined : currentTheme.colors.error
+                }}
+                title={day.isPossible
+                  ? t('recommendationCard.adjustedScore', { score: Math.round(day.adjustedScore), percent: Math.round(day.confidence * 100) })
+                  : day.warningFactors.filter(factor => factor.startsWith(blockedPrefix)).join('\n')}
               >
                 <p 
-                  className="text-xs"
+                  className={`text-xs ${day.isPossible ? '' : 'line-through'}`}
                   style={{ color: currentTheme.colors.text.tertiary }}
                 >
                   {formatDate(day.date)}
                 </p>
-                <p 
-                  className="text-sm font-medium"
-                  style={{ color: currentTheme.colors.text.primary }}
-                >
-                  {Math.round(day.score)}点
-                </p>
+                {day.isPossible ? (
+                  <p 
+                    className="text-sm font-medium"
+                    style={{ color: currentTheme.colors.text.primary }}
+                  >
+                    {t('common.points', { score: Math.round(day.score) })}
+                  </p>
+                ) : (
+                  <p
+                    className="text-xs font-medium"
+                    style={{ color: currentTheme.colors.error }}
+                  >
+                    {t('recommendationCard.impossible')}
+                  </p>
+                )}
               </div>
             ))}
           </div>
@@ -238,18 +364,35 @@ export const RecommendationCard: React.FC<RecommendationCardProps> = ({
           className="text-xs"
           style={{ color: currentTheme.colors.text.tertiary }}
         >
-          {recommendedDays.length}日間の予測
+          {t('recommendationCard.forecastDays', { count: recommendedDays.length })}
+          {impossibleDays.length > 0 && t('recommendationCard.impossibleDays', { count: impossibleDays.length })}
         </div>
         
-        {onViewDetails && (
-          <button
-            onClick={() => onViewDetails(recommendation)}
-            className="text-sm font-medium hover:opacity-80 transition-opacity"
-            style={{ color: currentTheme.colors.primary }}
-          >
-            詳細を見る →
-          </button>
-        )}
+        <div className="flex items-center space-x-3">
+          {bestDay && (
+            <button
+              onClick={() => downloadTextFile(
+                createRecommendedDayCalendar(hobby, bestDay, location),
+                getCalendarFileName(hobby, bestDay.date),
+                'text/calendar'
+              )}
+              className="text-sm font-medium hover:opacity-80 transition-opacity"
+              style={{ color: currentTheme.colors.text.secondary }}
+              title={t('calendar.addBestDay')}
+            >
+              📅 {t('calendar.add')}
+            </button>
+          )}
+          {onViewDetails && (
+            <button
+              onClick={() => onViewDetails(recommendation)}
+              className="text-sm font-medium hover:opacity-80 transition-opacity"
+              style={{ color: currentTheme.colors.primary }}
+            >
+              {t('recommendationCard.viewDetails')}
+            </button>
+          )}
+        </div>
       </div>
     </div>
   );
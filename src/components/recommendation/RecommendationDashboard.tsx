@@ -1,19 +1,38 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useRecommendation } from '../../hooks/useRecommendation';
 import { useHobby } from '../../hooks/useHobby';
 import { useWeather } from '../../hooks/useWeather';
+import { useLocationComparison } from '../../hooks/useLocationComparison';
+import { useGoals } from '../../hooks/useGoals';
 import { RecommendationList } from './RecommendationList';
+import { LocationComparison } from './LocationComparison';
+import { AvailabilityFilter } from './AvailabilityFilter';
+import { HiddenRecommendations } from './HiddenRecommendations';
+import { WeeklyPlanner } from './WeeklyPlanner';
+import { GoalStatusWidget } from './GoalStatusWidget';
+import { useTranslation } from '../../contexts/LanguageContext';
+
+// 表示モード（現在地の日程 / 場所の比較）
+type ViewMode = 'days' | 'planner' | 'locations';
 
 export const RecommendationDashboard: React.FC = () => {
-    const { hobbies } = useHobby();
+    const { t } = useTranslation();
+    const { hobbies, refreshHobbies } = useHobby();
     const { forecast, location } = useWeather();
     const {
         recommendations,
+        hiddenRecommendations,
         isLoading,
         error,
+        filters,
         generateRecommendations,
+        updateFilters,
         clearError,
     } = useRecommendation();
+    const comparison = useLocationComparison();
+    const { goalProgress } = useGoals(hobbies);
+    const { compareLocations } = comparison;
+    const [viewMode, setViewMode] = useState<ViewMode>('days');
 
     // 趣味と天気予報が揃ったら自動でおすすめを生成
     useEffect(() => {
@@ -22,6 +41,13 @@ export const RecommendationDashboard: React.FC = () => {
         }
     }, [hobbies, forecast, generateRecommendations]);
 
+    // 場所比較モードでは保存済みの全場所で比較
+    useEffect(() => {
+        if (viewMode === 'locations' && hobbies.length > 0) {
+            compareLocations(hobbies);
+        }
+    }, [viewMode, hobbies, compareLocations]);
+
     const handleRefresh = () => {
         if (hobbies.length > 0 && forecast) {
             generateRecommendations(hobbies, forecast);
@@ -39,7 +65,7 @@ export const RecommendationDashboard: React.FC = () => {
                         </div>
                         <div className="ml-3 flex-1">
                             <h3 className="text-sm font-medium text-red-800">
-                                推薦の生成に失敗しました
+                                {t('recommendationDashboard.generateFailed')}
                             </h3>
                             <div className="mt-1 text-sm text-red-700">
                                 {error}
@@ -49,13 +75,13 @@ export const RecommendationDashboard: React.FC = () => {
                                     onClick={clearError}
                                     className="text-sm underline text-red-700 hover:text-red-600"
                                 >
-                                    エラーを閉じる
+                                    {t('common.dismissError')}
                                 </button>
                                 <button
                                     onClick={handleRefresh}
                                     className="text-sm underline text-red-700 hover:text-red-600"
                                 >
-                                    再試行
+                                    {t('weatherDisplay.retry')}
                                 </button>
                             </div>
                         </div>
@@ -72,18 +98,18 @@ export const RecommendationDashboard: React.FC = () => {
                         </div>
                         <div className="ml-3">
                             <h3 className="text-sm font-medium text-yellow-800">
-                                推薦を生成するための準備
+                                {t('recommendationDashboard.prerequisites')}
                             </h3>
                             <div className="mt-1 text-sm text-yellow-700">
                                 <ul className="list-disc list-inside space-y-1">
                                     {!location && (
-                                        <li>場所を選択してください</li>
+                                        <li>{t('recommendationDashboard.needLocation')}</li>
                                     )}
                                     {!forecast && (
-                                        <li>天気予報を取得してください</li>
+                                        <li>{t('recommendationDashboard.needForecast')}</li>
                                     )}
                                     {hobbies.length === 0 && (
-                                        <li>趣味を登録してください</li>
+                                        <li>{t('recommendationDashboard.needHobbies')}</li>
                                     )}
                                 </ul>
                             </div>
@@ -92,14 +118,76 @@ export const RecommendationDashboard: React.FC = () => {
                 </div>
             )}
 
+            {/* Goals */}
+            <GoalStatusWidget goalProgress={goalProgress} />
+
+            {/* View Mode */}
+            <div className="flex justify-center">
+                <div className="inline-flex rounded-md border border-gray-200 overflow-hidden" role="group">
+                    {([
+                        { id: 'days', label: t('recommendationDashboard.mode.days') },
+                        { id: 'planner', label: t('recommendationDashboard.mode.planner') },
+                        { id: 'locations', label: t('recommendationDashboard.mode.locations') },
+                    ] as Array<{ id: ViewMode; label: string }>).map((mode) => (
+                        <button
+                            key={mode.id}
+                            type="button"
+                            onClick={() => setViewMode(mode.id)}
+                            aria-pressed={viewMode === mode.id}
+                            className={`px-4 py-2 text-sm font-medium transition-colors ${
+                                viewMode === mode.id
+                                    ? 'bg-blue-600 text-white'
+                                    : 'text-text-secondary hover:bg-surface-secondary'
+                            }`}
+                        >
+                            {mode.label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
             {/* Recommendations */}
-            <RecommendationList
-                recommendations={recommendations}
-                isLoading={isLoading}
-            />
+            {viewMode === 'days' ? (
+                <>
+                    <AvailabilityFilter filters={filters} onFiltersChange={updateFilters} />
+                    {filters.onlyWhenFree && !isLoading && (
+                        <HiddenRecommendations hiddenRecommendations={hiddenRecommendations} />
+                    )}
+                    <RecommendationList
+                        recommendations={recommendations}
+                        isLoading={isLoading}
+                        location={location ?? undefined}
+                        onActivityLogged={refreshHobbies}
+                    />
+                </>
+            ) : viewMode === 'planner' ? (
+                <>
+                    <AvailabilityFilter filters={filters} onFiltersChange={updateFilters} />
+                    <WeeklyPlanner recommendations={recommendations} isLoading={isLoading} />
+                </>
+            ) : (
+                <>
+                    {comparison.error && (
+                        <div className="bg-red-50 border border-red-200 rounded-md p-4 text-sm text-red-700">
+                            {comparison.error}
+                        </div>
+                    )}
+                    {comparison.failedLocations.length > 0 && (
+                        <p className="text-sm text-yellow-700">
+                            ⚠️ {t('recommendationDashboard.failedLocations', { locations: comparison.failedLocations.join(t('common.listSeparator')) })}
+                        </p>
+                    )}
+                    <LocationComparison
+                        recommendations={comparison.recommendations}
+                        locationCount={comparison.locationCount}
+                        isLoading={comparison.isLoading}
+                    />
+                </>
+            )}
 
             {/* Help Section */}
-            {recommendations.length === 0 &&
+            {viewMode === 'days' &&
+                recommendations.length === 0 &&
                 !isLoading &&
                 location &&
                 forecast &&
@@ -107,12 +195,12 @@ export const RecommendationDashboard: React.FC = () => {
                     <div className="text-center py-12">
                         <div className="text-gray-400 text-6xl mb-4">💡</div>
                         <h3 className="text-lg font-medium text-gray-900 mb-2">
-                            推薦のヒント
+                            {t('recommendationDashboard.hintsTitle')}
                         </h3>
                         <div className="text-gray-600 space-y-2 max-w-md mx-auto">
-                            <p>・趣味の天気設定や気温範囲を確認してください</p>
-                            <p>・フィルター条件が厳しすぎる可能性があります</p>
-                            <p>・予報期間中に適した条件がないかもしれません</p>
+                            <p>{t('recommendationDashboard.hint.settings')}</p>
+                            <p>{t('recommendationDashboard.hint.filters')}</p>
+                            <p>{t('recommendationDashboard.hint.forecast')}</p>
                         </div>
                     </div>
                 )}
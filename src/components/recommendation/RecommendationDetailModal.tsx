@@ -1,20 +1,44 @@
-import React from 'react';
-import type { HobbyRecommendation } from '../../services/recommendation.service';
+import React, { useState } from 'react';
+import type { HobbyRecommendation, RecommendedDay } from '../../services/recommendation.service';
+import { getProfileDrift } from '../../services/activity-log.service';
 import { getWeatherConditionIcon, getWeatherConditionLabel } from '../../hooks/useHobby';
+import { useActivityLog } from '../../hooks/useActivityLog';
+import { NIGHT_SKY_FACTOR_LABELS, SCORE_FACTOR_LABELS, SCORING_PRESETS } from '../../data/scoringProfiles';
+import { ACTIVITY_RATING_OPTIONS, getActivityRatingOption } from '../../data/activityRatings';
 import { useTheme } from '../../contexts/ThemeContext';
+import { useUnits } from '../../contexts/UnitsContext';
+import { useTranslation } from '../../contexts/LanguageContext';
+import type { ActivityRating, Hobby, Location } from '../../types';
+import { createRecommendedDayCalendar, getCalendarFileName } from '../../utils/recommendation-calendar';
+import { downloadTextFile } from '../../utils/download';
+import { NightSkyInfo } from './NightSkyInfo';
+
+// スコアの内訳の要素名（夜空モードの要素を含む）
+const BREAKDOWN_FACTOR_LABELS = { ...SCORE_FACTOR_LABELS, ...NIGHT_SKY_FACTOR_LABELS };
 
 // おすすめ詳細モーダルのプロパティ
 interface RecommendationDetailModalProps {
   recommendation: HobbyRecommendation; // おすすめ情報
+  location?: Location | undefined; // 活動記録に残す場所
   onClose: () => void; // 閉じるコールバック
+  onActivityLogged?: ((hobby: Hobby) => void) | undefined; // 活動を記録して趣味の設定が更新されたとき
 }
 
 export const RecommendationDetailModal: React.FC<RecommendationDetailModalProps> = ({
   recommendation,
-  onClose
+  location,
+  onClose,
+  onActivityLogged
 }) => {
   const { currentTheme } = useTheme();
-  const { hobby, recommendedDays, overallScore } = recommendation;
+  const units = useUnits();
+  const { locale, t } = useTranslation();
+  const { recommendedDays, overallScore } = recommendation;
+  const { hobby, logs, isLoading: isLogging, error: logError, logActivity } = useActivityLog(recommendation.hobby);
+  const [ratingDayIndex, setRatingDayIndex] = useState<number | null>(null);
+  const drift = getProfileDrift(hobby);
+  // 夜に活動する趣味には月と夜空の情報を表示
+  const showsNightSky = hobby.scoringMode === 'night-sky' || (hobby.preferredTimeOfDay?.includes('night') ?? false);
 
   // スコアに基づく色分け
   const getScoreColor = (score: number): string => {
@@ -30,10 +54,10 @@ export const RecommendationDetailModal: React.FC<RecommendationDetailModalProps>
     const tomorrow = new Date(today);
     tomorrow.setDate(tomorrow.getDate() + 1);
 
-    if (date.toDateString() === today.toDateString()) return '今日';
-    if (date.toDateString() === tomorrow.toDateString()) return '明日';
+    if (date.toDateString() === today.toDateString()) return t('common.today');
+    if (date.toDateString() === tomorrow.toDateString()) return t('common.tomorrow');
 
-    return new Intl.DateTimeFormat('ja-JP', {
+    return new Intl.DateTimeFormat(locale, {
       month: 'short',
       day: 'numeric',
       weekday: 'long'
@@ -41,6 +65,33 @@ export const RecommendationDetailModal: React.FC<RecommendationDetailModalProps>
   };
 
   // 時刻のフォーマット
+  const formatTime = (date: Date): string => {
+    return new Intl.DateTimeFormat(locale, {
+      hour: '2-digit',
+      minute: '2-digit'
+    }).format(date);
+  };
+
+  // 実施した日の評価を記録
+  const handleRate = async (day: RecommendedDay, rating: ActivityRating) => {
+    const updated = await logActivity(day, rating, location);
+    if (updated) {
+      setRatingDayIndex(null);
+      onActivityLogged?.(updated);
+    }
+  };
+
+  // その日の記録を取得
+  const findLog = (day: RecommendedDay) =>
+    logs.find(log => log.date.toDateString() === day.date.toDateString());
+
+  // 重みの表示（未設定の場合は「なし」）
+  const formatWeight = (weight: number | undefined): string =>
+    weight === undefined ? t('recommendationDetail.none') : String(weight);
+
+  // 気温の表示（未設定の場合は「制限なし」）
+  const formatTemperature = (temperature: number | undefined): string =>
+    temperature === undefined ? t('recommendationDetail.noLimit') : units.formatTemperature(temperature, 1);
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
@@ -68,7 +119,7 @@ export const RecommendationDetailModal: React.FC<RecommendationDetailModalProps>
                 className="text-sm"
                 style={{ color: currentTheme.colors.text.secondary }}
               >
-                詳細なおすすめ情報
+                {t('recommendationDetail.subtitle')}
               </p>
             </div>
             <button
@@ -76,7 +127,7 @@ export const RecommendationDetailModal: React.FC<RecommendationDetailModalProps>
               className="hover:opacity-80 transition-opacity"
               style={{ color: currentTheme.colors.text.tertiary }}
             >
-              <span className="sr-only">閉じる</span>
+              <span className="sr-only">{t('common.close')}</span>
               <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
               </svg>
@@ -93,7 +144,7 @@ export const RecommendationDetailModal: React.FC<RecommendationDetailModalProps>
                   <h3 className="font-semibold text-gray-900">{hobby.name}</h3>
                   {hobby.isOutdoor && (
                     <span className="bg-green-100 text-green-800 text-xs px-2 py-1 rounded-full">
-                      屋外活動
+                      {t('recommendationDetail.outdoor')}
                     </span>
                   )}
                 </div>
@@ -103,16 +154,16 @@ export const RecommendationDetailModal: React.FC<RecommendationDetailModalProps>
               </div>
               <div className="text-right">
                 <div className={`text-2xl font-bold ${getScoreColor(overallScore)}`}>
-                  {Math.round(overallScore)}点
+                  {t('common.points', { score: Math.round(overallScore) })}
                 </div>
-                <p className="text-xs text-gray-600">総合スコア</p>
+                <p className="text-xs text-gray-600">{t('recommendationDetail.overallScore')}</p>
               </div>
             </div>
 
             {/* 趣味の設定 */}
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
               <div>
-                <span className="text-gray-600">好適天気:</span>
+                <span className="text-gray-600">{t('recommendationDetail.preferredWeather')}</span>
                 <div className="mt-1">
                   {hobby.preferredWeather && hobby.preferredWeather.length > 0 ? (
                     hobby.preferredWeather.map((weather, index) => (
@@ -125,37 +176,84 @@ export const RecommendationDetailModal: React.FC<RecommendationDetailModalProps>
                         ) : (
                           <>
                             {getWeatherConditionIcon(weather.condition)}
-                            <span className="ml-1">{getWeatherConditionLabel(weather.condition)}</span>
+                            <span className="ml-1">{getWeatherConditionLabel(weather.condition, weather.intensity)}</span>
                           </>
                         )}
                       </span>
                     ))
                   ) : (
-                    <span className="text-gray-400">指定なし</span>
+                    <span className="text-gray-400">{t('recommendationDetail.noPreference')}</span>
                   )}
                 </div>
               </div>
               
               <div>
-                <span className="text-gray-600">適温範囲:</span>
+                <span className="text-gray-600">{t('recommendationDetail.temperatureRange')}</span>
                 <p className="mt-1 font-medium">
-                  {hobby.minTemperature ?? '制限なし'}°C - {hobby.maxTemperature ?? '制限なし'}°C
+                  {formatTemperature(hobby.minTemperature)} - {formatTemperature(hobby.maxTemperature)}
                 </p>
               </div>
               
               <div>
-                <span className="text-gray-600">作成日:</span>
+                <span className="text-gray-600">{t('recommendationDetail.scoringProfile')}</span>
                 <p className="mt-1 font-medium">
-                  {new Intl.DateTimeFormat('ja-JP').format(new Date(hobby.createdAt))}
+                  {t(SCORING_PRESETS.find(preset => preset.id === hobby.scoringProfile?.preset)?.labelKey
+                    ?? (hobby.scoringProfile ? 'scoringPreset.custom.label' : 'scoringPreset.balanced.label'))}
+                </p>
+              </div>
+
+              <div>
+                <span className="text-gray-600">{t('recommendationDetail.createdAt')}</span>
+                <p className="mt-1 font-medium">
+                  {new Intl.DateTimeFormat(locale).format(new Date(hobby.createdAt))}
                 </p>
               </div>
             </div>
           </div>
 
+          {/* 活動記録からの学習 */}
+          <div className="border border-gray-200 rounded-lg p-4 mb-6">
+            <h3 className="font-semibold text-gray-900 mb-2">
+              {t('recommendationDetail.learning', { count: logs.length })}
+            </h3>
+            {drift && (drift.weather.length > 0 || drift.minTemperature || drift.maxTemperature) ? (
+              <div className="text-sm text-gray-700 space-y-1">
+                <p className="text-xs text-gray-500">
+                  {t('recommendationDetail.changesSince', { date: new Intl.DateTimeFormat(locale).format(new Date(drift.since)) })}
+                </p>
+                {drift.weather.map((change) => (
+                  <p key={change.condition}>
+                    {getWeatherConditionIcon(change.condition)} {getWeatherConditionLabel(change.condition)}:
+                    {' '}{formatWeight(change.from)} → <span className="font-medium">{formatWeight(change.to)}</span>
+                  </p>
+                ))}
+                {drift.minTemperature && (
+                  <p>
+                    🌡️ {t('recommendationDetail.minTemperature')}: {formatTemperature(drift.minTemperature.from)} → <span className="font-medium">{formatTemperature(drift.minTemperature.to)}</span>
+                  </p>
+                )}
+                {drift.maxTemperature && (
+                  <p>
+                    🌡️ {t('recommendationDetail.maxTemperature')}: {formatTemperature(drift.maxTemperature.from)} → <span className="font-medium">{formatTemperature(drift.maxTemperature.to)}</span>
+                  </p>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-600">
+                {logs.length > 0
+                  ? t('recommendationDetail.noChanges')
+                  : t('recommendationDetail.learningHint')}
+              </p>
+            )}
+            {logError && (
+              <p className="mt-2 text-sm text-red-600">{logError}</p>
+            )}
+          </div>
+
           {/* おすすめ日程 */}
           <div>
             <h3 className="text-lg font-semibold text-gray-900 mb-4">
-              おすすめ日程 ({recommendedDays.length}日間)
+              {t('recommendationDetail.days', { count: recommendedDays.length })}
             </h3>
             
             <div className="space-y-4">
@@ -167,7 +265,7 @@ export const RecommendationDetailModal: React.FC<RecommendationDetailModalProps>
                         {formatDate(day.date)}
                       </h4>
                       <p className="text-sm text-gray-600">
-                        {new Intl.DateTimeFormat('ja-JP', { 
+                        {new Intl.DateTimeFormat(locale, { 
                           year: 'numeric', 
                           month: 'long', 
                           day: 'numeric' 
@@ -175,12 +273,18 @@ export const RecommendationDetailModal: React.FC<RecommendationDetailModalProps>
                       </p>
                     </div>
                     <div className="text-right">
-                      <div className={`text-xl font-bold ${getScoreColor(day.score)}`}>
-                        {Math.round(day.score)}点
-                      </div>
-                      {index === 0 && (
+                      {day.isPossible ? (
+                        <div className={`text-xl font-bold ${getScoreColor(day.score)}`}>
+                          {t('common.points', { score: Math.round(day.score) })}
+                        </div>
+                      ) : (
+                        <div className="text-sm font-bold text-red-600">
+                          🚫 {t('recommendationCard.impossible')}
+                        </div>
+                      )}
+                      {index === 0 && day.isPossible && (
                         <span className="bg-blue-100 text-blue-800 text-xs px-2 py-1 rounded-full">
-                          最適日
+                          {t('recommendationDetail.bestDay')}
                         </span>
                       )}
                     </div>
@@ -198,27 +302,27 @@ export const RecommendationDetailModal: React.FC<RecommendationDetailModalProps>
                             {day.forecast.weatherDescription}
                           </p>
                           <p className="text-sm text-gray-600">
-                            {Math.round(day.forecast.temperature.max)}° / {Math.round(day.forecast.temperature.min)}°
+                            {Math.round(units.toDisplayTemperature(day.forecast.temperature.max))}° / {Math.round(units.toDisplayTemperature(day.forecast.temperature.min))}°
                           </p>
                         </div>
                       </div>
                       
                       <div className="flex-1 grid grid-cols-2 md:grid-cols-4 gap-2 text-xs">
                         <div>
-                          <span className="text-gray-600">降水確率</span>
+                          <span className="text-gray-600">{t('forecastCard.pop')}</span>
                           <p className="font-medium">{Math.round(day.forecast.pop * 100)}%</p>
                         </div>
                         <div>
-                          <span className="text-gray-600">湿度</span>
+                          <span className="text-gray-600">{t('weatherCard.humidity')}</span>
                           <p className="font-medium">{day.forecast.humidity}%</p>
                         </div>
                         <div>
-                          <span className="text-gray-600">風速</span>
-                          <p className="font-medium">{day.forecast.windSpeed.toFixed(1)} m/s</p>
+                          <span className="text-gray-600">{t('weatherCard.windSpeed')}</span>
+                          <p className="font-medium">{units.formatWindSpeed(day.forecast.windSpeed)}</p>
                         </div>
                         {day.forecast.uvIndex > 0 && (
                           <div>
-                            <span className="text-gray-600">UV指数</span>
+                            <span className="text-gray-600">{t('weatherCard.uvIndex')}</span>
                             <p className="font-medium">{day.forecast.uvIndex.toFixed(1)}</p>
                           </div>
                         )}
@@ -226,13 +330,62 @@ export const RecommendationDetailModal: React.FC<RecommendationDetailModalProps>
                     </div>
                   </div>
 
+                  {/* 月と夜空 */}
+                  {showsNightSky && day.forecast.nightSky && (
+                    <NightSkyInfo nightSky={day.forecast.nightSky} />
+                  )}
+
+                  {/* 活動時間帯 */}
+                  {day.activityWindow && (
+                    <div className="text-sm text-gray-700 mb-3">
+                      <p>
+                        ⏱️ {t('recommendationDetail.activityWindow', { start: formatTime(day.activityWindow.start), end: formatTime(day.activityWindow.end) })}
+                      </p>
+                      <p className="text-xs text-gray-600">
+                        {t('recommendationDetail.worstSlot', {
+                          time: formatTime(day.activityWindow.worstSlot.datetime),
+                          description: day.activityWindow.worstSlot.weatherDescription,
+                          temperature: units.formatTemperature(day.activityWindow.worstSlot.temperature),
+                          score: Math.round(day.activityWindow.worstSlotScore)
+                        })}
+                      </p>
+                    </div>
+                  )}
+
+                  {/* スコアの内訳 */}
+                  <div className="mb-3">
+                    <h5 className="text-sm font-medium text-gray-700 mb-2">
+                      {t('recommendationDetail.breakdown')}
+                    </h5>
+                    <table className="w-full text-xs">
+                      <thead>
+                        <tr className="text-gray-500">
+                          <th className="text-left font-normal">{t('recommendationDetail.factor')}</th>
+                          <th className="text-right font-normal">{t('recommendationDetail.rating')}</th>
+                          <th className="text-right font-normal">{t('recommendationDetail.weight')}</th>
+                          <th className="text-right font-normal">{t('recommendationDetail.contribution')}</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {day.breakdown.map((item) => (
+                          <tr key={item.factor} className="text-gray-700">
+                            <td>{t(BREAKDOWN_FACTOR_LABELS[item.factor])}</td>
+                            <td className="text-right">{t('common.points', { score: Math.round(item.score) })}</td>
+                            <td className="text-right">{Math.round(item.weight * 100)}%</td>
+                            <td className="text-right font-medium">{item.contribution.toFixed(1)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+
                   {/* 要因分析 */}
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     {/* 良い条件 */}
                     {day.matchingFactors.length > 0 && (
                       <div>
                         <h5 className="text-sm font-medium text-green-700 mb-2">
-                          ✓ 良い条件
+                          {t('recommendationCard.matching')}
                         </h5>
                         <ul className="space-y-1">
                           {day.matchingFactors.map((factor, factorIndex) => (
@@ -248,7 +401,7 @@ export const RecommendationDetailModal: React.FC<RecommendationDetailModalProps>
                     {day.warningFactors.length > 0 && (
                       <div>
                         <h5 className="text-sm font-medium text-orange-700 mb-2">
-                          ⚠ 注意事項
+                          {t('recommendationCard.warnings')}
                         </h5>
                         <ul className="space-y-1">
                           {day.warningFactors.map((factor, factorIndex) => (
@@ -260,6 +413,69 @@ export const RecommendationDetailModal: React.FC<RecommendationDetailModalProps>
                       </div>
                     )}
                   </div>
+
+                  {/* 活動の記録 */}
+                  <div className="mt-3 pt-3 border-t border-gray-100 flex items-start justify-between gap-4">
+                    {(() => {
+                      const log = findLog(day);
+                      if (log) {
+                        const option = getActivityRatingOption(log.rating);
+                        return (
+                          <p className="text-sm text-gray-600">
+                            ✅ {t('recommendationDetail.logged')}: {option?.icon} {option && t(option.labelKey)}
+                          </p>
+                        );
+                      }
+                      if (ratingDayIndex !== index) {
+                        return (
+                          <button
+                            type="button"
+                            onClick={() => setRatingDayIndex(index)}
+                            className="text-sm text-blue-600 hover:text-blue-500"
+                          >
+                            {t('recommendationDetail.logThisDay')}
+                          </button>
+                        );
+                      }
+                      return (
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="text-sm text-gray-600">{t('recommendationDetail.howWasIt')}</span>
+                          {ACTIVITY_RATING_OPTIONS.map((option) => (
+                            <button
+                              key={option.rating}
+                              type="button"
+                              disabled={isLogging}
+                              onClick={() => handleRate(day, option.rating)}
+                              className="px-2 py-1 text-sm rounded-full border border-gray-300 hover:bg-gray-50 disabled:opacity-50"
+                              title={t(option.labelKey)}
+                            >
+                              {option.icon} {t(option.labelKey)}
+                            </button>
+                          ))}
+                          <button
+                            type="button"
+                            onClick={() => setRatingDayIndex(null)}
+                            className="text-xs text-gray-500 hover:text-gray-700"
+                          >
+                            {t('recommendationDetail.cancel')}
+                          </button>
+                        </div>
+                      );
+                    })()}
+                    {day.isPossible && (
+                      <button
+                        type="button"
+                        onClick={() => downloadTextFile(
+                          createRecommendedDayCalendar(hobby, day, location),
+                          getCalendarFileName(hobby, day.date),
+                          'text/calendar'
+                        )}
+                        className="text-sm text-gray-600 hover:text-gray-800 whitespace-nowrap"
+                      >
+                        📅 {t('calendar.add')}
+                      </button>
+                    )}
+                  </div>
                 </div>
               ))}
             </div>
@@ -273,7 +489,7 @@ export const RecommendationDetailModal: React.FC<RecommendationDetailModalProps>
               onClick={onClose}
               className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors"
             >
-              閉じる
+              {t('common.close')}
             </button>
           </div>
         </div>
@@ -2,6 +2,9 @@ import React, { useState } from 'react';
 import type { RecommendationFilters as RecommendationFiltersType } from '../../services/recommendation.service';
 import type { WeatherType } from '../../types';
 import { useTheme } from '../../contexts/ThemeContext';
+import { useTranslation } from '../../contexts/LanguageContext';
+import type { MessageKey } from '../../types/i18n';
+import { AvailabilityFilter } from './AvailabilityFilter';
 
 interface RecommendationFiltersProps {
     filters: RecommendationFiltersType;
@@ -12,17 +15,17 @@ interface RecommendationFiltersProps {
 
 const WEATHER_TYPE_OPTIONS: {
     value: WeatherType;
-    label: string;
+    labelKey: MessageKey;
     icon: string;
 }[] = [
-    { value: 'clear', label: '晴れ', icon: '☀️' },
-    { value: 'clouds', label: '曇り', icon: '☁️' },
-    { value: 'rain', label: '雨', icon: '🌧️' },
-    { value: 'snow', label: '雪', icon: '❄️' },
-    { value: 'drizzle', label: '小雨', icon: '🌦️' },
-    { value: 'thunderstorm', label: '雷雨', icon: '⛈️' },
-    { value: 'mist', label: '霧', icon: '🌫️' },
-    { value: 'fog', label: '濃霧', icon: '🌫️' },
+    { value: 'clear', labelKey: 'weather.type.clear', icon: '☀️' },
+    { value: 'clouds', labelKey: 'weather.type.clouds', icon: '☁️' },
+    { value: 'rain', labelKey: 'weather.type.rain', icon: '🌧️' },
+    { value: 'snow', labelKey: 'weather.type.snow', icon: '❄️' },
+    { value: 'drizzle', labelKey: 'weather.type.drizzle', icon: '🌦️' },
+    { value: 'thunderstorm', labelKey: 'weather.type.thunderstorm', icon: '⛈️' },
+    { value: 'mist', labelKey: 'weather.type.mist', icon: '🌫️' },
+    { value: 'fog', labelKey: 'weather.type.fog', icon: '🌫️' },
 ];
 
 export const RecommendationFilters: React.FC<RecommendationFiltersProps> = ({
@@ -32,6 +35,7 @@ export const RecommendationFilters: React.FC<RecommendationFiltersProps> = ({
     className = '',
 }) => {
     const { currentTheme } = useTheme();
+    const { t } = useTranslation();
     const [isExpanded, setIsExpanded] = useState(false);
 
     const handleMinScoreChange = (value: string) => {
@@ -133,7 +137,7 @@ export const RecommendationFilters: React.FC<RecommendationFiltersProps> = ({
                                 color: currentTheme.colors.text.primary,
                             }}
                         >
-                            フィルター
+                            {t('recommendationFilters.title')}
                         </h3>
                         {hasActiveFilters && (
                             <span
@@ -149,7 +153,7 @@ export const RecommendationFilters: React.FC<RecommendationFiltersProps> = ({
                                             : 'rgb(30, 64, 175)',
                                 }}
                             >
-                                適用中
+                                {t('recommendationFilters.active')}
                             </span>
                         )}
                     </div>
@@ -170,14 +174,14 @@ export const RecommendationFilters: React.FC<RecommendationFiltersProps> = ({
                                         currentTheme.colors.text.secondary;
                                 }}
                             >
-                                クリア
+                                {t('common.clear')}
                             </button>
                         )}
                         <button
                             onClick={() => setIsExpanded(!isExpanded)}
                             className="text-blue-600 hover:text-blue-700 text-sm font-medium"
                         >
-                            {isExpanded ? '閉じる' : '詳細設定'}
+                            {isExpanded ? t('common.close') : t('recommendationFilters.advanced')}
                         </button>
                     </div>
                 </div>
@@ -195,7 +199,7 @@ export const RecommendationFilters: React.FC<RecommendationFiltersProps> = ({
                                 color: currentTheme.colors.text.secondary,
                             }}
                         >
-                            最小スコア
+                            {t('recommendationFilters.minScore')}
                         </label>
                         <select
                             id="min-score"
@@ -205,11 +209,12 @@ export const RecommendationFilters: React.FC<RecommendationFiltersProps> = ({
                             }
                             className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm"
                         >
-                            <option value="">すべて</option>
-                            <option value="70">70点以上</option>
-                            <option value="60">60点以上</option>
-                            <option value="50">50点以上</option>
-                            <option value="40">40点以上</option>
+                            <option value="">{t('common.all')}</option>
+                            {[70, 60, 50, 40].map((score) => (
+                                <option key={score} value={score}>
+                                    {t('recommendationFilters.scoreAtLeast', { score })}
+                                </option>
+                            ))}
                         </select>
                     </div>
 
@@ -221,7 +226,7 @@ export const RecommendationFilters: React.FC<RecommendationFiltersProps> = ({
                                 color: currentTheme.colors.text.secondary,
                             }}
                         >
-                            天気
+                            {t('recommendationFilters.weather')}
                         </label>
                         <div className="flex flex-wrap gap-1">
                             {WEATHER_TYPE_OPTIONS.slice(0, 3).map((option) => (
@@ -238,7 +243,7 @@ export const RecommendationFilters: React.FC<RecommendationFiltersProps> = ({
                                             : 'bg-gray-50 border-gray-300 text-gray-700 hover:bg-gray-100'
                                     }`}
                                 >
-                                    {option.icon} {option.label}
+                                    {option.icon} {t(option.labelKey)}
                                 </button>
                             ))}
                         </div>
@@ -252,7 +257,7 @@ export const RecommendationFilters: React.FC<RecommendationFiltersProps> = ({
                                 color: currentTheme.colors.text.secondary,
                             }}
                         >
-                            曜日
+                            {t('recommendationFilters.weekday')}
                         </label>
                         <div className="space-y-1">
                             <label className="flex items-center">
@@ -271,7 +276,7 @@ export const RecommendationFilters: React.FC<RecommendationFiltersProps> = ({
                                             .secondary,
                                     }}
                                 >
-                                    週末を除外
+                                    {t('recommendationFilters.excludeWeekends')}
                                 </span>
                             </label>
                             <label className="flex items-center">
@@ -290,7 +295,7 @@ export const RecommendationFilters: React.FC<RecommendationFiltersProps> = ({
                                             .secondary,
                                     }}
                                 >
-                                    平日を除外
+                                    {t('recommendationFilters.excludeWeekdays')}
                                 </span>
                             </label>
                         </div>
@@ -313,7 +318,7 @@ export const RecommendationFilters: React.FC<RecommendationFiltersProps> = ({
                                     color: currentTheme.colors.text.secondary,
                                 }}
                             >
-                                適用中
+                                {t('recommendationFilters.active')}
                             </div>
                         </div>
                     </div>
@@ -327,7 +332,7 @@ export const RecommendationFilters: React.FC<RecommendationFiltersProps> = ({
                         {/* Date Range */}
                         <div>
                             <h4 className="text-sm font-medium text-gray-900 mb-3">
-                                期間設定
+                                {t('recommendationFilters.dateRange')}
                             </h4>
                             <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                                 <div>
@@ -335,7 +340,7 @@ export const RecommendationFilters: React.FC<RecommendationFiltersProps> = ({
                                         htmlFor="start-date"
                                         className="block text-sm text-gray-700 mb-1"
                                     >
-                                        開始日
+                                        {t('recommendationFilters.startDate')}
                                     </label>
                                     <input
                                         id="start-date"
@@ -357,7 +362,7 @@ export const RecommendationFilters: React.FC<RecommendationFiltersProps> = ({
                                         htmlFor="end-date"
                                         className="block text-sm text-gray-700 mb-1"
                                     >
-                                        終了日
+                                        {t('recommendationFilters.endDate')}
                                     </label>
                                     <input
                                         id="end-date"
@@ -380,7 +385,7 @@ export const RecommendationFilters: React.FC<RecommendationFiltersProps> = ({
                         {/* All Weather Types */}
                         <div>
                             <h4 className="text-sm font-medium text-gray-900 mb-3">
-                                天気条件
+                                {t('recommendationFilters.weatherConditions')}
                             </h4>
                             <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
                                 {WEATHER_TYPE_OPTIONS.map((option) => (
@@ -402,11 +407,22 @@ export const RecommendationFilters: React.FC<RecommendationFiltersProps> = ({
                                         <span className="mr-2">
                                             {option.icon}
                                         </span>
-                                        {option.label}
+                                        {t(option.labelKey)}
                                     </button>
                                 ))}
                             </div>
                         </div>
+
+                        {/* Availability */}
+                        <div>
+                            <h4 className="text-sm font-medium text-gray-900 mb-3">
+                                {t('recommendationFilters.availability')}
+                            </h4>
+                            <AvailabilityFilter
+                                filters={filters}
+                                onFiltersChange={onFiltersChange}
+                            />
+                        </div>
                     </div>
                 </div>
             )}
@@ -1,7 +1,18 @@
 import React, { useState } from 'react';
 import type { HobbyRecommendation } from '../../services/recommendation.service';
+import type { Hobby, Location } from '../../types';
 import { RecommendationCard } from './RecommendationCard';
 import { RecommendationDetailModal } from './RecommendationDetailModal';
+import { useTranslation } from '../../contexts/LanguageContext';
+import {
+    DEFAULT_CALENDAR_TOP_N,
+    createRecommendationCalendar,
+    getCalendarFileName,
+} from '../../utils/recommendation-calendar';
+import { downloadTextFile } from '../../utils/download';
+
+// カレンダーに書き出す日数の選択肢（趣味ごと）
+const CALENDAR_TOP_N_OPTIONS = [1, 3, 5, 7];
 
 // おすすめリストのプロパティ
 interface RecommendationListProps {
@@ -10,6 +21,8 @@ interface RecommendationListProps {
     className?: string; // CSSクラス
     onRefresh?: () => void; // 追加
     canRefresh?: boolean; // 追加
+    location?: Location | undefined; // 活動記録に残す場所
+    onActivityLogged?: ((hobby: Hobby) => void) | undefined; // 活動の記録で趣味が更新されたとき
 }
 
 export const RecommendationList: React.FC<RecommendationListProps> = ({
@@ -18,9 +31,13 @@ export const RecommendationList: React.FC<RecommendationListProps> = ({
     className = '',
     onRefresh,
     canRefresh = true,
+    location,
+    onActivityLogged,
 }) => {
+    const { t } = useTranslation();
     const [selectedRecommendation, setSelectedRecommendation] =
         useState<HobbyRecommendation | null>(null);
+    const [calendarTopN, setCalendarTopN] = useState(DEFAULT_CALENDAR_TOP_N);
 
     const handleViewDetails = (recommendation: HobbyRecommendation) => {
         setSelectedRecommendation(recommendation);
@@ -30,12 +47,21 @@ export const RecommendationList: React.FC<RecommendationListProps> = ({
         setSelectedRecommendation(null);
     };
 
+    // 趣味ごとの上位のおすすめ日をまとめて書き出す
+    const handleExportCalendar = () => {
+        downloadTextFile(
+            createRecommendationCalendar(recommendations, { topN: calendarTopN, location }),
+            getCalendarFileName(),
+            'text/calendar'
+        );
+    };
+
     if (isLoading) {
         return (
             <div className={`space-y-6 ${className}`}>
                 <div className="text-center py-8">
                     <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
-                    <p className="mt-2 text-gray-600">おすすめを計算中...</p>
+                    <p className="mt-2 text-gray-600">{t('recommendationList.calculating')}</p>
                 </div>
             </div>
         );
@@ -46,12 +72,12 @@ export const RecommendationList: React.FC<RecommendationListProps> = ({
             <div className={`text-center py-12 ${className}`}>
                 <div className="text-gray-400 text-6xl mb-4">🎯</div>
                 <h3 className="text-lg font-medium text-gray-900 mb-2">
-                    おすすめがありません
+                    {t('recommendationList.empty')}
                 </h3>
                 <p className="text-gray-600 mb-4">
-                    現在の条件ではおすすめできる趣味がありません。
+                    {t('recommendationList.emptyHint')}
                     <br />
-                    趣味を追加するか、条件を変更してください。
+                    {t('recommendationList.emptyAction')}
                 </p>
             </div>
         );
@@ -71,19 +97,44 @@ export const RecommendationList: React.FC<RecommendationListProps> = ({
                         >
                             <span className="text-xs">🔄</span>
                             <span>
-                                {isLoading ? '生成中...' : '推薦を更新'}
+                                {isLoading ? t('recommendationList.generating') : t('recommendationList.refresh')}
                             </span>
                         </button>
                     )}
                     {/* タイトル・説明文（中央寄せ） */}
                     <div className="flex flex-col items-center">
                         <h2 className="text-2xl font-bold text-text-primary">
-                            趣味おすすめ日
+                            {t('recommendationList.title')}
                         </h2>
                         <p className="text-text-secondary">
-                            天気予報に基づいて最適な趣味とタイミングを提案します。
+                            {t('recommendationList.description')}
                         </p>
                     </div>
+
+                    {/* カレンダーへの書き出し */}
+                    <div className="flex items-center justify-center space-x-2 mt-3 text-sm">
+                        <label htmlFor="calendar-top-n" className="text-text-secondary">
+                            {t('calendar.topNLabel')}
+                        </label>
+                        <select
+                            id="calendar-top-n"
+                            value={calendarTopN}
+                            onChange={(e) => setCalendarTopN(Number(e.target.value))}
+                            className="border border-border-primary rounded-md px-2 py-1 bg-surface-primary text-text-primary"
+                        >
+                            {CALENDAR_TOP_N_OPTIONS.map((count) => (
+                                <option key={count} value={count}>
+                                    {t('calendar.topNOption', { count })}
+                                </option>
+                            ))}
+                        </select>
+                        <button
+                            onClick={handleExportCalendar}
+                            className="px-3 py-1 rounded-md border border-border-primary text-text-primary hover:bg-surface-secondary transition-colors"
+                        >
+                            📅 {t('calendar.export')}
+                        </button>
+                    </div>
                 </div>
 
                 {/* おすすめ一覧 */}
@@ -93,6 +144,7 @@ export const RecommendationList: React.FC<RecommendationListProps> = ({
                             key={`${recommendation.hobby.id}-${index}`}
                             recommendation={recommendation}
                             onViewDetails={handleViewDetails}
+                            location={location}
                         />
                     ))}
                 </div>
@@ -102,7 +154,9 @@ export const RecommendationList: React.FC<RecommendationListProps> = ({
             {selectedRecommendation && (
                 <RecommendationDetailModal
                     recommendation={selectedRecommendation}
+                    location={location}
                     onClose={handleCloseModal}
+                    onActivityLogged={onActivityLogged}
                 />
             )}
         </>
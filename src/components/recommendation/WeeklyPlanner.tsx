@@ -0,0 +1,189 @@
+import React from 'react';
+import type { HobbyRecommendation } from '../../services/recommendation.service';
+import { useWeeklyPlan } from '../../hooks/useWeeklyPlan';
+import { useTranslation } from '../../contexts/LanguageContext';
+
+interface WeeklyPlannerProps {
+    recommendations: HobbyRecommendation[];
+    isLoading: boolean;
+    className?: string;
+}
+
+// 1日に割り当てられる趣味の数の選択肢
+const CAPACITY_OPTIONS = [0, 1, 2, 3];
+
+const selectClassName =
+    'text-xs border border-border-primary rounded px-1 py-0.5 bg-surface-primary text-text-primary';
+
+// 趣味を日に割り当てた週間プラン（移動・削除・追加、日ごとの数を編集できる）
+export const WeeklyPlanner: React.FC<WeeklyPlannerProps> = ({
+    recommendations,
+    isLoading,
+    className = '',
+}) => {
+    const { t, locale } = useTranslation();
+    const {
+        plan,
+        hasEdits,
+        moveAssignment,
+        removeAssignment,
+        addAssignment,
+        setDayCapacity,
+        resetEdits,
+    } = useWeeklyPlan(recommendations);
+
+    if (isLoading) {
+        return <p className={`text-center text-text-secondary ${className}`}>{t('common.loading')}</p>;
+    }
+
+    if (plan.days.length === 0) {
+        return <p className={`text-center text-text-secondary ${className}`}>{t('planner.empty')}</p>;
+    }
+
+    // スコアに基づく色分け
+    const getScoreColor = (score: number): string => {
+        if (score >= 80) return 'text-green-600 bg-green-100';
+        if (score >= 60) return 'text-yellow-600 bg-yellow-100';
+        if (score >= 40) return 'text-orange-600 bg-orange-100';
+        return 'text-red-600 bg-red-100';
+    };
+
+    const formatDay = (date: Date) =>
+        date.toLocaleDateString(locale, { month: 'short', day: 'numeric', weekday: 'short' });
+
+    return (
+        <div className={`space-y-4 ${className}`}>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <div>
+                    <h3 className="text-lg font-semibold text-text-primary">{t('planner.title')}</h3>
+                    <p className="text-sm text-text-secondary">{t('planner.description')}</p>
+                </div>
+                <div className="flex items-center gap-4">
+                    <span className="text-sm text-text-primary">
+                        {t('planner.totalScore', { score: Math.round(plan.totalScore) })}
+                    </span>
+                    {hasEdits && (
+                        <button
+                            type="button"
+                            onClick={resetEdits}
+                            className="text-sm underline text-blue-600 hover:text-blue-700"
+                        >
+                            {t('planner.reset')}
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 xl:grid-cols-7 gap-3">
+                {plan.days.map((day) => (
+                    <section
+                        key={day.key}
+                        className="bg-surface-secondary border border-border-primary rounded-md p-3 space-y-2"
+                    >
+                        <div className="flex items-center justify-between gap-2">
+                            <h4 className="text-sm font-medium text-text-primary">{formatDay(day.date)}</h4>
+                            <select
+                                value={day.capacity}
+                                onChange={(e) => setDayCapacity(day.key, parseInt(e.target.value, 10))}
+                                aria-label={t('planner.capacityLabel', { date: formatDay(day.date) })}
+                                className={selectClassName}
+                            >
+                                {CAPACITY_OPTIONS.map((count) => (
+                                    <option key={count} value={count}>
+                                        {t('planner.capacityOption', { count })}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+
+                        {day.assignments.length === 0 && (
+                            <p className="text-xs text-text-tertiary">{t('planner.free')}</p>
+                        )}
+
+                        <ul className="space-y-2">
+                            {day.assignments.map(({ hobby, day: recommendedDay, pinned }) => {
+                                const hobbyId = hobby.id as number;
+                                return (
+                                    <li
+                                        key={hobbyId}
+                                        className="bg-surface-primary border border-border-primary rounded p-2 space-y-1"
+                                    >
+                                        <div className="flex items-start justify-between gap-2">
+                                            <span className="text-sm font-medium text-text-primary">
+                                                {pinned && <span title={t('planner.pinned')}>📌 </span>}
+                                                {hobby.name}
+                                            </span>
+                                            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getScoreColor(recommendedDay.score)}`}>
+                                                {t('common.points', { score: Math.round(recommendedDay.score) })}
+                                            </span>
+                                        </div>
+                                        {!recommendedDay.isPossible && (
+                                            <p className="text-xs text-red-600">{t('planner.notPossible')}</p>
+                                        )}
+                                        <div className="flex items-center justify-between gap-2">
+                                            <select
+                                                value=""
+                                                onChange={(e) => moveAssignment(hobbyId, day.key, e.target.value)}
+                                                aria-label={t('planner.moveLabel', { hobby: hobby.name })}
+                                                className={selectClassName}
+                                            >
+                                                <option value="">{t('planner.move')}</option>
+                                                {plan.days
+                                                    .filter((other) =>
+                                                        other.key !== day.key &&
+                                                        other.alternatives.some((alternative) => alternative.hobby.id === hobbyId)
+                                                    )
+                                                    .map((other) => (
+                                                        <option key={other.key} value={other.key}>
+                                                            {formatDay(other.date)}
+                                                        </option>
+                                                    ))}
+                                            </select>
+                                            <button
+                                                type="button"
+                                                onClick={() => removeAssignment(hobbyId, day.key)}
+                                                aria-label={t('planner.removeLabel', { hobby: hobby.name })}
+                                                className="text-xs text-text-secondary hover:text-red-600"
+                                            >
+                                                {t('common.delete')}
+                                            </button>
+                                        </div>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+
+                        {day.alternatives.length > 0 && (
+                            <select
+                                value=""
+                                onChange={(e) => addAssignment(parseInt(e.target.value, 10), day.key)}
+                                aria-label={t('planner.addLabel', { date: formatDay(day.date) })}
+                                className={`w-full ${selectClassName}`}
+                            >
+                                <option value="">{t('planner.add')}</option>
+                                {day.alternatives.map(({ hobby, day: recommendedDay }) => (
+                                    <option key={hobby.id} value={hobby.id}>
+                                        {hobby.name} ({t('common.points', { score: Math.round(recommendedDay.score) })})
+                                    </option>
+                                ))}
+                            </select>
+                        )}
+                    </section>
+                ))}
+            </div>
+
+            {plan.unassigned.length > 0 && (
+                <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3 text-sm text-yellow-800">
+                    <p className="font-medium">{t('planner.unassignedTitle')}</p>
+                    <ul className="mt-1 list-disc list-inside">
+                        {plan.unassigned.map(({ hobby, missing }) => (
+                            <li key={hobby.id}>
+                                {t('planner.unassigned', { hobby: hobby.name, count: missing })}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
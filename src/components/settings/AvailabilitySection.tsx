@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { useAvailability } from '../../hooks/useAvailability';
+import { useTranslation } from '../../contexts/LanguageContext';
+import { formatBusyInterval } from '../../utils/availability';
+import type { BusyImportResult } from '../../services/availability.service';
+
+// 一覧に表示する予定の件数
+const VISIBLE_INTERVAL_COUNT = 20;
+
+export const AvailabilitySection: React.FC = () => {
+  const { t } = useTranslation();
+  const {
+    busyIntervals,
+    isLoading,
+    error,
+    importCalendar,
+    importBusyList,
+    deleteBusyInterval,
+    clearBusyIntervals,
+    clearError,
+  } = useAvailability();
+  const [busyListText, setBusyListText] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [result, setResult] = useState<BusyImportResult | null>(null);
+  const [showAll, setShowAll] = useState(false);
+
+  const runImport = async (importer: () => Promise<BusyImportResult | null>) => {
+    setIsImporting(true);
+    setResult(null);
+    clearError();
+
+    const imported = await importer();
+    setResult(imported);
+    setIsImporting(false);
+    return imported;
+  };
+
+  const selectFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const content = await file.text();
+    await runImport(() => importCalendar(content));
+  };
+
+  const importPastedList = async () => {
+    const imported = await runImport(() => importBusyList(busyListText));
+    if (imported && imported.invalidLines.length === 0) {
+      setBusyListText('');
+    }
+  };
+
+  const clearAll = async () => {
+    if (!window.confirm(t('availability.confirmClear'))) return;
+    setResult(null);
+    await clearBusyIntervals();
+  };
+
+  const visibleIntervals = showAll ? busyIntervals : busyIntervals.slice(0, VISIBLE_INTERVAL_COUNT);
+
+  return (
+    <section className="space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold text-text-primary mb-2">
+          {t('availability.title')}
+        </h3>
+        <p className="text-sm text-text-secondary">{t('availability.description')}</p>
+      </div>
+
+      {/* カレンダーファイルの取り込み */}
+      <div className="space-y-3">
+        <h4 className="text-sm font-medium text-text-secondary">{t('availability.calendar.title')}</h4>
+        <label className="block">
+          <span className="block text-sm text-text-primary mb-1">{t('availability.calendar.selectFile')}</span>
+          <input
+            type="file"
+            accept="text/calendar,.ics"
+            onChange={(e) => void selectFile(e)}
+            disabled={isImporting}
+            className="block w-full text-sm text-text-secondary"
+          />
+        </label>
+        <p className="text-xs text-text-tertiary">{t('availability.calendar.hint')}</p>
+      </div>
+
+      {/* 予定の一覧の貼り付け */}
+      <div className="space-y-3">
+        <h4 className="text-sm font-medium text-text-secondary">{t('availability.list.title')}</h4>
+        <textarea
+          value={busyListText}
+          onChange={(e) => setBusyListText(e.target.value)}
+          rows={5}
+          placeholder={t('availability.list.placeholder')}
+          aria-label={t('availability.list.title')}
+          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm font-mono text-sm
+                   focus:outline-none focus:ring-blue-500 focus:border-blue-500
+                   dark:bg-gray-700 dark:text-white"
+        />
+        <p className="text-xs text-text-tertiary">{t('availability.list.hint')}</p>
+        <button
+          onClick={() => void importPastedList()}
+          disabled={isImporting || !busyListText.trim()}
+          className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {isImporting ? t('availability.importing') : t('availability.list.button')}
+        </button>
+      </div>
+
+      {result && (
+        <div className="p-3 rounded-md bg-green-50 dark:bg-green-900 text-green-800 dark:text-green-200 border border-green-200 dark:border-green-700 space-y-1">
+          <p>{t('availability.result', { added: result.added, duplicates: result.duplicates })}</p>
+          {result.invalidLines.length > 0 && (
+            <p className="text-sm text-red-700 dark:text-red-300">
+              {t('availability.invalidLines', {
+                lines: result.invalidLines.join(t('common.listSeparator')),
+              })}
+            </p>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <div className="p-3 rounded-md bg-red-50 dark:bg-red-900 text-red-800 dark:text-red-200 border border-red-200 dark:border-red-700">
+          {error}
+        </div>
+      )}
+
+      {/* 取り込んだ予定 */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-medium text-text-secondary">
+            {t('availability.saved.title', { count: busyIntervals.length })}
+          </h4>
+          {busyIntervals.length > 0 && (
+            <button
+              onClick={() => void clearAll()}
+              className="text-sm underline text-red-600 hover:text-red-700"
+            >
+              {t('availability.saved.clear')}
+            </button>
+          )}
+        </div>
+
+        {isLoading && <p className="text-sm text-text-secondary">{t('common.loading')}</p>}
+        {!isLoading && busyIntervals.length === 0 && (
+          <p className="text-sm text-text-secondary">{t('availability.saved.empty')}</p>
+        )}
+
+        <ul className="divide-y divide-border-primary">
+          {visibleIntervals.map((interval) => (
+            <li key={interval.id} className="flex items-center justify-between gap-4 py-2">
+              <div className="min-w-0">
+                <div className="text-sm text-text-primary">{formatBusyInterval(interval)}</div>
+                <div className="text-xs text-text-tertiary truncate">
+                  {interval.summary ?? t('availability.untitled')}
+                  {' · '}
+                  {t(`availability.source.${interval.source}`)}
+                </div>
+              </div>
+              <button
+                onClick={() => interval.id !== undefined && void deleteBusyInterval(interval.id)}
+                className="text-sm text-text-secondary hover:text-red-600"
+                aria-label={t('availability.saved.delete', { interval: formatBusyInterval(interval) })}
+              >
+                {t('common.delete')}
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        {busyIntervals.length > VISIBLE_INTERVAL_COUNT && (
+          <button
+            onClick={() => setShowAll(!showAll)}
+            className="text-sm text-blue-600 hover:text-blue-700"
+          >
+            {showAll
+              ? t('availability.saved.showLess')
+              : t('availability.saved.showAll', { count: busyIntervals.length })}
+          </button>
+        )}
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,255 @@
+import React, { useState } from 'react';
+import { backupService } from '../../services/backup.service';
+import { useTranslation } from '../../contexts/LanguageContext';
+import { downloadTextFile, getFileDateStamp } from '../../utils/download';
+import type { BackupFile, RestoreMode, RestorePreview } from '../../types/backup';
+
+const RESTORE_MODES: RestoreMode[] = ['merge', 'replace'];
+
+export const BackupSection: React.FC = () => {
+  const { t, locale } = useTranslation();
+  const [includeApiKey, setIncludeApiKey] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [backup, setBackup] = useState<BackupFile | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [preview, setPreview] = useState<RestorePreview | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [isRestored, setIsRestored] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const exportBackup = async () => {
+    setIsExporting(true);
+    setMessage(null);
+
+    try {
+      const json = await backupService.exportBackup({ includeApiKey });
+      downloadTextFile(json, `hobby-weather-backup-${getFileDateStamp()}.json`, 'application/json');
+      setMessage({ type: 'success', text: t('backup.export.success') });
+    } catch (error) {
+      console.error('バックアップの作成に失敗しました:', error);
+      setMessage({ type: 'error', text: t('backup.export.failed') });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // 復元方法を変えたら変更内容を計算し直す
+  const updatePreview = async (nextBackup: BackupFile, nextMode: RestoreMode) => {
+    setPreview(await backupService.previewRestore(nextBackup, nextMode));
+  };
+
+  const selectFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    setBackup(null);
+    setPreview(null);
+    setIsRestored(false);
+    setMessage(null);
+    if (!file) return;
+
+    try {
+      const loaded = backupService.readBackup(await file.text());
+      setBackup(loaded);
+      await updatePreview(loaded, mode);
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : t('backup.restore.failed'),
+      });
+    }
+  };
+
+  const changeMode = async (nextMode: RestoreMode) => {
+    setMode(nextMode);
+    if (!backup) return;
+
+    setPreview(null);
+    setMessage(null);
+    try {
+      await updatePreview(backup, nextMode);
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : t('backup.restore.failed'),
+      });
+    }
+  };
+
+  const restoreBackup = async () => {
+    if (!backup) return;
+    if (mode === 'replace' && !window.confirm(t('backup.restore.confirmReplace'))) return;
+
+    setIsRestoring(true);
+    setMessage(null);
+
+    try {
+      await backupService.restoreBackup(backup, mode);
+      setIsRestored(true);
+      setMessage({ type: 'success', text: t('backup.restore.success') });
+    } catch (error) {
+      console.error('バックアップの復元に失敗しました:', error);
+      setMessage({ type: 'error', text: t('backup.restore.failed') });
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const changedTables = preview?.tables.filter(
+    (change) => change.added + change.updated + change.removed > 0
+  ) ?? [];
+
+  return (
+    <section className="space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold text-text-primary mb-2">
+          {t('backup.title')}
+        </h3>
+        <p className="text-sm text-text-secondary">{t('backup.description')}</p>
+      </div>
+
+      {/* バックアップの作成 */}
+      <div className="space-y-3">
+        <h4 className="text-sm font-medium text-text-secondary">{t('backup.export.title')}</h4>
+        <label className="flex items-start gap-3 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={includeApiKey}
+            onChange={(e) => setIncludeApiKey(e.target.checked)}
+            className="mt-1 text-primary-500 focus:ring-primary-500"
+          />
+          <span>
+            <span className="block text-sm font-medium text-text-primary">
+              {t('backup.export.includeApiKey')}
+            </span>
+            <span className="block text-xs text-text-tertiary">
+              {t('backup.export.includeApiKeyHint')}
+            </span>
+          </span>
+        </label>
+        <button
+          onClick={() => void exportBackup()}
+          disabled={isExporting}
+          className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {isExporting ? t('backup.export.exporting') : t('backup.export.button')}
+        </button>
+      </div>
+
+      {/* バックアップからの復元 */}
+      <div className="space-y-3">
+        <h4 className="text-sm font-medium text-text-secondary">{t('backup.restore.title')}</h4>
+        <label className="block">
+          <span className="block text-sm text-text-primary mb-1">{t('backup.restore.selectFile')}</span>
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={(e) => void selectFile(e)}
+            className="block w-full text-sm text-text-secondary"
+          />
+        </label>
+
+        {backup && preview && (
+          <>
+            <div className="space-y-2">
+              <span className="text-sm font-medium text-text-secondary">{t('backup.restore.mode')}</span>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                {RESTORE_MODES.map((option) => (
+                  <label
+                    key={option}
+                    className="flex items-start gap-3 p-3 rounded-lg border border-border-primary cursor-pointer hover:bg-surface-secondary transition-colors"
+                  >
+                    <input
+                      type="radio"
+                      name="restore-mode"
+                      value={option}
+                      checked={mode === option}
+                      onChange={() => void changeMode(option)}
+                      className="mt-1 text-primary-500 focus:ring-primary-500"
+                    />
+                    <span>
+                      <span className="block text-sm font-medium text-text-primary">
+                        {t(`backup.restore.mode.${option}`)}
+                      </span>
+                      <span className="block text-xs text-text-tertiary">
+                        {t(`backup.restore.mode.${option}Description`)}
+                      </span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            {/* 復元前の確認（まだ書き込まない） */}
+            <div className="p-3 bg-surface-secondary rounded-lg space-y-2">
+              <div className="text-xs text-text-tertiary">
+                {t('backup.restore.previewTitle', {
+                  exportedAt: preview.exportedAt
+                    ? new Date(preview.exportedAt).toLocaleString(locale)
+                    : '-',
+                })}
+              </div>
+              <ul className="text-sm text-text-primary space-y-1">
+                {changedTables.length === 0 && (
+                  <li className="text-text-secondary">{t('backup.restore.noChanges')}</li>
+                )}
+                {changedTables.map((change) => (
+                  <li key={change.table} className="flex justify-between gap-4">
+                    <span>{t(`backup.table.${change.table}`)}</span>
+                    <span className="text-text-secondary">
+                      {t('backup.restore.previewChange', {
+                        added: change.added,
+                        updated: change.updated,
+                        removed: change.removed,
+                      })}
+                    </span>
+                  </li>
+                ))}
+                <li className="flex justify-between gap-4">
+                  <span>{t('backup.restore.theme')}</span>
+                  <span className="text-text-secondary">
+                    {preview.theme ? t('backup.restore.willRestore') : t('backup.restore.notIncluded')}
+                  </span>
+                </li>
+                <li className="flex justify-between gap-4">
+                  <span>{t('backup.restore.apiKey')}</span>
+                  <span className="text-text-secondary">
+                    {preview.apiKey ? t('backup.restore.willRestore') : t('backup.restore.notIncluded')}
+                  </span>
+                </li>
+              </ul>
+            </div>
+
+            <div className="flex space-x-3">
+              <button
+                onClick={() => void restoreBackup()}
+                disabled={isRestoring || isRestored}
+                className={`text-white px-4 py-2 rounded-md disabled:opacity-50 disabled:cursor-not-allowed transition-colors ${
+                  mode === 'replace' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+                }`}
+              >
+                {isRestoring ? t('backup.restore.restoring') : t('backup.restore.button')}
+              </button>
+              {isRestored && (
+                <button
+                  onClick={() => window.location.reload()}
+                  className="bg-gray-600 text-white px-4 py-2 rounded-md hover:bg-gray-700 transition-colors"
+                >
+                  {t('backup.restore.reload')}
+                </button>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+
+      {message && (
+        <div className={`p-3 rounded-md ${
+          message.type === 'success'
+            ? 'bg-green-50 dark:bg-green-900 text-green-800 dark:text-green-200 border border-green-200 dark:border-green-700'
+            : 'bg-red-50 dark:bg-red-900 text-red-800 dark:text-red-200 border border-red-200 dark:border-red-700'
+        }`}>
+          {message.text}
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,34 @@
+import React from 'react';
+import { useTranslation } from '../../contexts/LanguageContext';
+import { LANGUAGE_OPTIONS } from '../../utils/i18n';
+
+export const LanguageSettingsSection: React.FC = () => {
+  const { language, setLanguage, t } = useTranslation();
+
+  return (
+    <section className="space-y-3">
+      <h3 className="text-lg font-semibold text-text-primary mb-4">
+        {t('settings.language.title')}
+      </h3>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        {LANGUAGE_OPTIONS.map((option) => (
+          <label
+            key={option.value}
+            className="flex items-center gap-3 p-3 rounded-lg border border-border-primary cursor-pointer hover:bg-surface-secondary transition-colors"
+          >
+            <input
+              type="radio"
+              name="language"
+              value={option.value}
+              checked={language === option.value}
+              onChange={() => void setLanguage(option.value)}
+              className="text-primary-500 focus:ring-primary-500"
+            />
+            {/* 言語名はどの表示言語でもその言語自身の表記で出す */}
+            <span className="text-sm font-medium text-text-primary">{option.label}</span>
+          </label>
+        ))}
+      </div>
+    </section>
+  );
+};
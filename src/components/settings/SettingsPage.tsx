@@ -2,14 +2,20 @@ import React, { useState, useEffect } from 'react';
 import { ApiKeyDiagnostics } from '../common/ApiKeyDiagnostics';
 import { SetupStatusSection } from './SetupStatusSection';
 import { SetupResetSection } from './SetupResetSection';
+import { BackupSection } from './BackupSection';
+import { AvailabilitySection } from './AvailabilitySection';
 import { NotificationSettings } from '../notification/NotificationSettings';
 import { ThemeSettings } from '../theme/ThemeSettings';
+import { UnitSettingsSection } from './UnitSettingsSection';
+import { LanguageSettingsSection } from './LanguageSettingsSection';
+import { useTranslation } from '../../contexts/LanguageContext';
 
 interface ApiKeySettings {
   openWeatherApiKey: string;
 }
 
 export const SettingsPage: React.FC = () => {
+  const { t } = useTranslation();
   const [apiSettings, setApiSettings] = useState<ApiKeySettings>({
     openWeatherApiKey: ''
   });
@@ -41,10 +47,10 @@ export const SettingsPage: React.FC = () => {
       const { weatherService } = await import('../../services/weather.service');
       weatherService.refreshApiKey();
       
-      setMessage({ type: 'success', text: 'API Key設定を保存しました。次回のAPI呼び出しから新しいキーが使用されます。' });
+      setMessage({ type: 'success', text: t('settings.apiKey.saved') });
     } catch (error) {
       console.error('API Key設定保存エラー:', error);
-      setMessage({ type: 'error', text: 'API Key設定の保存に失敗しました' });
+      setMessage({ type: 'error', text: t('settings.apiKey.saveFailed') });
     } finally {
       setIsLoading(false);
     }
@@ -54,16 +60,16 @@ export const SettingsPage: React.FC = () => {
   const clearApiSettings = () => {
     setApiSettings({ openWeatherApiKey: '' });
     localStorage.removeItem('hobby-weather-api-settings');
-    setMessage({ type: 'success', text: 'API Key設定をクリアしました' });
+    setMessage({ type: 'success', text: t('settings.apiKey.cleared') });
   };
 
   return (
     <div className="max-w-4xl mx-auto p-6">
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
         <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
-          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">設定</h2>
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">{t('settings.title')}</h2>
           <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">
-            アプリケーションの動作設定を管理します
+            {t('settings.description')}
           </p>
         </div>
 
@@ -74,12 +80,18 @@ export const SettingsPage: React.FC = () => {
           {/* テーマ設定セクション */}
           <ThemeSettings />
 
+          {/* 言語設定セクション */}
+          <LanguageSettingsSection />
+
+          {/* 単位設定セクション */}
+          <UnitSettingsSection />
+
           {/* API Key設定セクション */}
           <section>
             <div className="flex items-center space-x-2 mb-4">
-              <h3 className="text-lg font-medium text-gray-900 dark:text-white">API Key設定</h3>
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white">{t('settings.apiKey.title')}</h3>
               <span className="bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 text-xs px-2 py-1 rounded-full">
-                ローカル保存
+                {t('settings.apiKey.localBadge')}
               </span>
             </div>
             
@@ -92,11 +104,10 @@ export const SettingsPage: React.FC = () => {
                 </div>
                 <div className="ml-3">
                   <h3 className="text-sm font-medium text-yellow-800 dark:text-yellow-200">
-                    API Key設定が必要です
+                    {t('settings.apiKey.requiredTitle')}
                   </h3>
                   <p className="mt-2 text-sm text-yellow-700 dark:text-yellow-300">
-                    天気データを取得するには、OpenWeatherMap API Keyの設定が必要です。
-                    設定したAPI Keyはブラウザのローカルストレージに保存されます。
+                    {t('settings.apiKey.requiredDescription')}
                   </p>
                 </div>
               </div>
@@ -126,7 +137,7 @@ export const SettingsPage: React.FC = () => {
                   >
                     https://openweathermap.org/api
                   </a>
-                  でAPI Keyを取得してください（無料）
+                  {t('settings.apiKey.getKeyHint')}
                 </p>
               </div>
 
@@ -137,14 +148,14 @@ export const SettingsPage: React.FC = () => {
                   className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 
                            disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                 >
-                  {isLoading ? '保存中...' : '保存'}
+                  {isLoading ? t('common.saving') : t('common.save')}
                 </button>
                 
                 <button
                   onClick={clearApiSettings}
                   className="bg-gray-600 text-white px-4 py-2 rounded-md hover:bg-gray-700 transition-colors"
                 >
-                  クリア
+                  {t('common.clear')}
                 </button>
               </div>
 
@@ -162,18 +173,24 @@ export const SettingsPage: React.FC = () => {
 
           {/* 通知設定セクション */}
           <section>
-            <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">通知設定</h3>
+            <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">{t('settings.notifications.title')}</h3>
             <NotificationSettings />
           </section>
 
           {/* API診断セクション */}
           <section>
-            <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">API接続診断</h3>
+            <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">{t('settings.diagnostics.title')}</h3>
             <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
               <ApiKeyDiagnostics />
             </div>
           </section>
 
+          {/* 予定（空き時間）セクション */}
+          <AvailabilitySection />
+
+          {/* バックアップ・復元セクション */}
+          <BackupSection />
+
           {/* セットアップリセットセクション */}
           <SetupResetSection />
         </div>
@@ -1,10 +1,12 @@
 import React, { useState } from 'react';
 import { useInitialSetup } from '../../hooks/useInitialSetup';
 import { useTheme } from '../../contexts/ThemeContext';
+import { useTranslation } from '../../contexts/LanguageContext';
 
 export const SetupResetSection: React.FC = () => {
     const { refreshSetupState } = useInitialSetup();
     const { currentTheme } = useTheme();
+    const { t } = useTranslation();
     const [isResetting, setIsResetting] = useState(false);
     const [resetMessage, setResetMessage] = useState<{
         type: 'success' | 'error';
@@ -18,15 +20,7 @@ export const SetupResetSection: React.FC = () => {
 
         try {
             // 確認ダイアログを表示
-            const confirmed = window.confirm(
-                'セットアップ情報をリセットしますか？\n\n' +
-                    '以下の設定が削除されます：\n' +
-                    '• 初期セットアップ完了フラグ\n' +
-                    '• API Key設定\n' +
-                    '• 場所設定\n' +
-                    '• 趣味データ\n\n' +
-                    '次回起動時に初期セットアップから開始されます。'
-            );
+            const confirmed = window.confirm(t('setupReset.confirm'));
 
             if (!confirmed) {
                 setIsResetting(false);
@@ -46,7 +40,7 @@ export const SetupResetSection: React.FC = () => {
 
             setResetMessage({
                 type: 'success',
-                text: 'セットアップ情報をリセットしました。ページを再読み込みすると初期セットアップが開始されます。',
+                text: t('setupReset.success'),
             });
 
             // 状態を更新
@@ -55,7 +49,7 @@ export const SetupResetSection: React.FC = () => {
             console.error('Failed to reset setup info:', error);
             setResetMessage({
                 type: 'error',
-                text: 'セットアップ情報のリセットに失敗しました。',
+                text: t('setupReset.failed'),
             });
         } finally {
             setIsResetting(false);
@@ -71,13 +65,13 @@ export const SetupResetSection: React.FC = () => {
         <section>
             <div className="flex items-center space-x-2 mb-4">
                 <h3 className="text-lg font-medium text-text-primary">
-                    セットアップリセット
+                    {t('setupReset.title')}
                 </h3>
                 <span className="text-xs px-2 py-1 rounded-full" style={{
                     backgroundColor: currentTheme.mode === 'dark' ? 'rgba(239, 68, 68, 0.2)' : 'rgb(254, 242, 242)',
                     color: currentTheme.mode === 'dark' ? 'rgb(248, 113, 113)' : 'rgb(153, 27, 27)'
                 }}>
-                    危険操作
+                    {t('setupReset.dangerBadge')}
                 </span>
             </div>
 
@@ -93,19 +87,19 @@ export const SetupResetSection: React.FC = () => {
                     </div>
                     <div className="ml-3 flex-1">
                         <h4 className="text-sm font-medium text-red-800">
-                            セットアップ情報のリセット
+                            {t('setupReset.heading')}
                         </h4>
                         <div className="mt-2 text-sm text-red-700">
                             <p>
-                                全ての設定と登録データを削除し、初期セットアップからやり直すことができます。
+                                {t('setupReset.description')}
                             </p>
-                            <p className="mt-1 font-medium">削除される内容：</p>
+                            <p className="mt-1 font-medium">{t('setupReset.deletedItems')}</p>
                             <ul className="list-disc list-inside mt-1 space-y-1">
-                                <li>API Key設定</li>
-                                <li>場所設定</li>
-                                <li>登録済みの趣味</li>
-                                <li>天気データキャッシュ</li>
-                                <li>初期セットアップ完了フラグ</li>
+                                <li>{t('setupReset.item.apiKey')}</li>
+                                <li>{t('setupReset.item.locations')}</li>
+                                <li>{t('setupReset.item.hobbies')}</li>
+                                <li>{t('setupReset.item.weatherCache')}</li>
+                                <li>{t('setupReset.item.setupFlag')}</li>
                             </ul>
                         </div>
                         <div className="mt-4 flex space-x-3">
@@ -128,8 +122,8 @@ export const SetupResetSection: React.FC = () => {
                                 }}
                             >
                                 {isResetting
-                                    ? 'リセット中...'
-                                    : 'セットアップをリセット'}
+                                    ? t('setupReset.resetting')
+                                    : t('setupReset.reset')}
                             </button>
 
                             {resetMessage?.type === 'success' && (
@@ -146,7 +140,7 @@ export const SetupResetSection: React.FC = () => {
                                         e.currentTarget.style.backgroundColor = currentTheme.mode === 'dark' ? currentTheme.colors.primary : '#2563eb';
                                     }}
                                 >
-                                    初期セットアップに戻る
+                                    {t('setupReset.backToSetup')}
                                 </button>
                             )}
                         </div>
@@ -3,16 +3,18 @@ import { useInitialSetup } from '../../hooks/useInitialSetup';
 import { useHobby } from '../../hooks/useHobby';
 import { useWeather } from '../../hooks/useWeather';
 import { useTheme } from '../../contexts/ThemeContext';
+import { useTranslation } from '../../contexts/LanguageContext';
 
 export const SetupStatusSection: React.FC = () => {
     const { setupState } = useInitialSetup();
     const { hobbies } = useHobby();
     const { location } = useWeather();
     const { currentTheme } = useTheme();
+    const { t } = useTranslation();
 
     // 場所の表示名を取得
     const getLocationDisplayName = () => {
-        if (!location) return '未設定';
+        if (!location) return t('setupStatus.notSet');
 
         const parts = [location.name];
         if (location.state) parts.push(location.state);
@@ -27,7 +29,7 @@ export const SetupStatusSection: React.FC = () => {
             <section>
                 <div className="flex items-center space-x-2 mb-4">
                     <h3 className="text-lg font-medium text-text-primary">
-                        セットアップ状態
+                        {t('setupStatus.title')}
                     </h3>
                     <span
                         className="text-xs px-2 py-1 rounded-full"
@@ -42,7 +44,7 @@ export const SetupStatusSection: React.FC = () => {
                                     : 'rgb(107, 33, 168)',
                         }}
                     >
-                        初期設定
+                        {t('setupStatus.badge')}
                     </span>
                 </div>
 
@@ -78,8 +80,8 @@ export const SetupStatusSection: React.FC = () => {
                                 }`}
                             >
                                 {setupState.hasApiKey
-                                    ? '✓ 設定済み'
-                                    : '✗ 未設定'}
+                                    ? t('setupStatus.configured')
+                                    : t('setupStatus.missing')}
                             </div>
                         </div>
 
@@ -94,7 +96,7 @@ export const SetupStatusSection: React.FC = () => {
                             <div className="flex items-center space-x-2 mb-2">
                                 <span className="text-lg">📍</span>
                                 <span className="font-medium text-gray-900">
-                                    場所
+                                    {t('setupStatus.location')}
                                 </span>
                             </div>
                             <div
@@ -105,8 +107,8 @@ export const SetupStatusSection: React.FC = () => {
                                 }`}
                             >
                                 {setupState.hasLocation
-                                    ? '✓ 設定済み'
-                                    : '✗ 未設定'}
+                                    ? t('setupStatus.configured')
+                                    : t('setupStatus.missing')}
                             </div>
                             {setupState.hasLocation && (
                                 <div className="text-xs text-gray-500 mt-1">
@@ -126,7 +128,7 @@ export const SetupStatusSection: React.FC = () => {
                             <div className="flex items-center space-x-2 mb-2">
                                 <span className="text-lg">🎨</span>
                                 <span className="font-medium text-gray-900">
-                                    趣味
+                                    {t('setupStatus.hobbies')}
                                 </span>
                             </div>
                             <div
@@ -137,8 +139,8 @@ export const SetupStatusSection: React.FC = () => {
                                 }`}
                             >
                                 {setupState.hasHobbies
-                                    ? `✓ ${hobbies.length}件登録済み`
-                                    : '- 未登録（任意）'}
+                                    ? t('setupStatus.hobbiesRegistered', { count: hobbies.length })
+                                    : t('setupStatus.hobbiesOptional')}
                             </div>
                         </div>
                     </div>
@@ -148,7 +150,7 @@ export const SetupStatusSection: React.FC = () => {
                         <div className="flex items-center justify-between">
                             <div>
                                 <span className="text-sm font-medium text-gray-700">
-                                    初期セットアップ状態:
+                                    {t('setupStatus.overall')}
                                 </span>
                                 <span
                                     className={`ml-2 text-sm ${
@@ -158,13 +160,13 @@ export const SetupStatusSection: React.FC = () => {
                                     }`}
                                 >
                                     {setupState.isCompleted
-                                        ? '✓ 完了'
-                                        : '⚠ 未完了'}
+                                        ? t('setupStatus.completed')
+                                        : t('setupStatus.incomplete')}
                                 </span>
                             </div>
 
                             <div className="text-xs text-gray-500">
-                                必須: API Key, 場所 | 任意: 趣味
+                                {t('setupStatus.requirements')}
                             </div>
                         </div>
                     </div>
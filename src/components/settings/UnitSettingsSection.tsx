@@ -0,0 +1,77 @@
+import React from 'react';
+import { useUnits } from '../../contexts/UnitsContext';
+import { useTranslation } from '../../contexts/LanguageContext';
+import { TEMPERATURE_UNIT_OPTIONS, WIND_SPEED_UNIT_OPTIONS } from '../../utils/units';
+
+export const UnitSettingsSection: React.FC = () => {
+  const { units, setTemperatureUnit, setWindSpeedUnit, formatTemperature, formatWindSpeed } = useUnits();
+  const { t } = useTranslation();
+
+  return (
+    <section className="space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold text-text-primary mb-4">
+          {t('settings.units.title')}
+        </h3>
+
+        {/* 気温の単位 */}
+        <div className="space-y-3">
+          <label className="text-sm font-medium text-text-secondary">
+            {t('settings.units.temperature')}
+          </label>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {TEMPERATURE_UNIT_OPTIONS.map((option) => (
+              <label
+                key={option.value}
+                className="flex items-center gap-3 p-3 rounded-lg border border-border-primary cursor-pointer hover:bg-surface-secondary transition-colors"
+              >
+                <input
+                  type="radio"
+                  name="temperature-unit"
+                  value={option.value}
+                  checked={units.temperatureUnit === option.value}
+                  onChange={() => void setTemperatureUnit(option.value)}
+                  className="text-primary-500 focus:ring-primary-500"
+                />
+                <span className="text-sm font-medium text-text-primary">{t(option.labelKey)}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* 風速の単位 */}
+      <div className="space-y-3">
+        <label className="text-sm font-medium text-text-secondary">
+          {t('settings.units.windSpeed')}
+        </label>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+          {WIND_SPEED_UNIT_OPTIONS.map((option) => (
+            <label
+              key={option.value}
+              className="flex items-center gap-3 p-3 rounded-lg border border-border-primary cursor-pointer hover:bg-surface-secondary transition-colors"
+            >
+              <input
+                type="radio"
+                name="wind-speed-unit"
+                value={option.value}
+                checked={units.windSpeedUnit === option.value}
+                onChange={() => void setWindSpeedUnit(option.value)}
+                className="text-primary-500 focus:ring-primary-500"
+              />
+              <span className="text-sm font-medium text-text-primary">{t(option.labelKey)}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {/* 表示例 */}
+      <div className="p-3 bg-surface-secondary rounded-lg">
+        <div className="text-xs text-text-tertiary mb-1">{t('settings.units.example')}</div>
+        <div className="text-sm font-medium text-text-primary">
+          {t('settings.units.exampleValue', { temperature: formatTemperature(25), windSpeed: formatWindSpeed(5) })}
+        </div>
+      </div>
+    </section>
+  );
+};
@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { useInitialSetup } from '../../hooks/useInitialSetup';
+import { useTranslation } from '../../contexts/LanguageContext';
 import { ApiKeySetupStep } from './steps/ApiKeySetupStep';
 import { LocationSetupStep } from './steps/LocationSetupStep';
 import { HobbySetupStep } from './steps/HobbySetupStep';
@@ -8,6 +9,7 @@ import myLogo from '../../assets/hobbyWeather.png';
 
 export const InitialSetupFlow: React.FC = () => {
   const { setupState, stepInfo, goToNextStep, markAsCompleted, canProceed } = useInitialSetup();
+  const { t } = useTranslation();
   const [isAnimating, setIsAnimating] = useState(false);
 
   const handleStepComplete = () => {
@@ -49,7 +51,7 @@ export const InitialSetupFlow: React.FC = () => {
       <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-800 dark:to-gray-900 flex items-center justify-center">
         <div className="text-center">
           <div className="inline-block animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mb-4"></div>
-          <p className="text-gray-600">初期化中...</p>
+          <p className="text-gray-600">{t('setupFlow.initializing')}</p>
         </div>
       </div>
     );
@@ -62,10 +64,10 @@ export const InitialSetupFlow: React.FC = () => {
         <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="flex items-center justify-between h-16">
             <div className="flex items-center space-x-3">
-              <img src={myLogo} alt="ロゴ" className="w-10 h-10" />
+              <img src={myLogo} alt={t('setupFlow.logoAlt')} className="w-10 h-10" />
               <div>
-                <h1 className="text-lg font-bold text-gray-900">趣味予報</h1>
-                <p className="text-sm text-gray-500">初期セットアップ</p>
+                <h1 className="text-lg font-bold text-gray-900">{t('app.name')}</h1>
+                <p className="text-sm text-gray-500">{t('setupFlow.subtitle')}</p>
               </div>
             </div>
             
@@ -75,7 +77,7 @@ export const InitialSetupFlow: React.FC = () => {
                 onClick={handleSkipToApp}
                 className="text-sm text-gray-600 hover:text-gray-800 transition-colors"
               >
-                セットアップをスキップ
+                {t('setupFlow.skip')}
               </button>
             )}
           </div>
@@ -86,7 +88,7 @@ export const InitialSetupFlow: React.FC = () => {
       <div className="bg-white border-b border-gray-200">
         <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
           <div className="flex items-center justify-between mb-2">
-            <h2 className="text-sm font-medium text-gray-700">セットアップ進捗</h2>
+            <h2 className="text-sm font-medium text-gray-700">{t('setupFlow.progress')}</h2>
             <span className="text-sm text-gray-500">
               {setupState.currentStep === 'completed' ? stepInfo.length : getCurrentStepIndex() + 1} / {stepInfo.length}
             </span>
@@ -144,10 +146,10 @@ export const InitialSetupFlow: React.FC = () => {
         <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           <div className="text-center">
             <p className="text-sm text-gray-600">
-              © 2025 趣味予報 - 天気に基づく趣味おすすめアプリ
+              {t('app.footer')}
             </p>
             <p className="text-xs text-gray-500 mt-1">
-              * 必須項目を完了すると、アプリをご利用いただけます
+              {t('setupFlow.requiredHint')}
             </p>
           </div>
         </div>
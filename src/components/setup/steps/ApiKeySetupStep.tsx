@@ -1,10 +1,12 @@
 import React, { useState, useEffect } from 'react';
+import { useTranslation } from '../../../contexts/LanguageContext';
 
 interface ApiKeySetupStepProps {
   onComplete: () => void;
 }
 
 export const ApiKeySetupStep: React.FC<ApiKeySetupStepProps> = ({ onComplete }) => {
+  const { t } = useTranslation();
   const [apiKey, setApiKey] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -28,7 +30,7 @@ export const ApiKeySetupStep: React.FC<ApiKeySetupStepProps> = ({ onComplete })
 
   const handleSaveApiKey = async () => {
     if (!apiKey.trim()) {
-      setError('API Keyを入力してください');
+      setError(t('setupApiKey.required'));
       return;
     }
 
@@ -52,7 +54,7 @@ export const ApiKeySetupStep: React.FC<ApiKeySetupStepProps> = ({ onComplete })
       }, 1000);
     } catch (error) {
       console.error('API Key保存エラー:', error);
-      setError('API Keyの保存に失敗しました。もう一度お試しください。');
+      setError(t('setupApiKey.saveFailed'));
     } finally {
       setIsLoading(false);
     }
@@ -60,7 +62,7 @@ export const ApiKeySetupStep: React.FC<ApiKeySetupStepProps> = ({ onComplete })
 
   const handleTestApiKey = async () => {
     if (!apiKey.trim()) {
-      setError('API Keyを入力してください');
+      setError(t('setupApiKey.required'));
       return;
     }
 
@@ -75,16 +77,16 @@ export const ApiKeySetupStep: React.FC<ApiKeySetupStepProps> = ({ onComplete })
       
       if (!response.ok) {
         if (response.status === 401) {
-          throw new Error('API Keyが無効です。正しいキーを入力してください。');
+          throw new Error(t('setupApiKey.invalid'));
         } else {
-          throw new Error('API接続に失敗しました。しばらく時間をおいてから再度お試しください。');
+          throw new Error(t('setupApiKey.connectionFailed'));
         }
       }
       
       setSuccess(true);
       setError(null);
     } catch (error) {
-      setError(error instanceof Error ? error.message : 'API接続テストに失敗しました');
+      setError(error instanceof Error ? error.message : t('setupApiKey.testFailed'));
       setSuccess(false);
     } finally {
       setIsLoading(false);
@@ -97,15 +99,15 @@ export const ApiKeySetupStep: React.FC<ApiKeySetupStepProps> = ({ onComplete })
         {/* Header */}
         <div className="text-center mb-8">
           <div className="text-5xl mb-4">🔑</div>
-          <h2 className="text-2xl font-bold text-gray-900 mb-2">API Key設定</h2>
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">{t('setup.step.apiKey.title')}</h2>
           <p className="text-gray-600">
-            天気情報を取得するためのAPI Keyを設定します
+            {t('setupApiKey.description')}
           </p>
         </div>
 
         {/* Instructions */}
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
-          <h3 className="font-medium text-blue-900 mb-2">📋 API Key取得手順</h3>
+          <h3 className="font-medium text-blue-900 mb-2">{t('setupApiKey.instructions')}</h3>
           <ol className="text-sm text-blue-800 space-y-1 list-decimal list-inside">
             <li>
               <a 
@@ -116,11 +118,11 @@ export const ApiKeySetupStep: React.FC<ApiKeySetupStepProps> = ({ onComplete })
               >
                 OpenWeatherMap
               </a>
-              にアクセス
+              {t('setupApiKey.visit')}
             </li>
-            <li>「Get API key」をクリックして無料アカウントを作成</li>
-            <li>メール確認後、API Keyを取得</li>
-            <li>取得したキーを下記に入力</li>
+            <li>{t('setupApiKey.step2')}</li>
+            <li>{t('setupApiKey.step3')}</li>
+            <li>{t('setupApiKey.step4')}</li>
           </ol>
         </div>
 
@@ -139,7 +141,7 @@ export const ApiKeySetupStep: React.FC<ApiKeySetupStepProps> = ({ onComplete })
                 setError(null);
                 setSuccess(false);
               }}
-              placeholder="API Keyを入力してください"
+              placeholder={t('setupApiKey.required')}
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               disabled={isLoading}
             />
@@ -160,7 +162,7 @@ export const ApiKeySetupStep: React.FC<ApiKeySetupStepProps> = ({ onComplete })
             <div className="bg-green-50 border border-green-200 rounded-md p-3">
               <div className="flex items-center">
                 <span className="text-green-400 mr-2">✅</span>
-                <span className="text-sm text-green-700">API Keyが正常に設定されました</span>
+                <span className="text-sm text-green-700">{t('setupApiKey.success')}</span>
               </div>
             </div>
           )}
@@ -172,7 +174,7 @@ export const ApiKeySetupStep: React.FC<ApiKeySetupStepProps> = ({ onComplete })
               disabled={isLoading || !apiKey.trim()}
               className="flex-1 bg-gray-600 text-white py-2 px-4 rounded-md hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              {isLoading ? 'テスト中...' : 'API接続テスト'}
+              {isLoading ? t('setupApiKey.testing') : t('setupApiKey.test')}
             </button>
             
             <button
@@ -180,7 +182,7 @@ export const ApiKeySetupStep: React.FC<ApiKeySetupStepProps> = ({ onComplete })
               disabled={isLoading || !apiKey.trim()}
               className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              {isLoading ? '保存中...' : '保存して次へ'}
+              {isLoading ? t('common.saving') : t('setupApiKey.saveAndNext')}
             </button>
           </div>
         </div>
@@ -189,12 +191,12 @@ export const ApiKeySetupStep: React.FC<ApiKeySetupStepProps> = ({ onComplete })
         <div className="mt-6 pt-6 border-t border-gray-200">
           <details className="text-sm text-gray-600">
             <summary className="cursor-pointer font-medium text-gray-700 hover:text-gray-900">
-              API Keyについて
+              {t('setupApiKey.about')}
             </summary>
             <div className="mt-2 space-y-2">
-              <p>• OpenWeatherMapの無料プランでは1日1,000回まで呼び出し可能</p>
-              <p>• API Keyはブラウザのローカルストレージに安全に保存されます</p>
-              <p>• 共有PCでの使用後は設定をクリアすることをおすすめします</p>
+              <p>{t('setupApiKey.aboutQuota')}</p>
+              <p>{t('setupApiKey.aboutStorage')}</p>
+              <p>{t('setupApiKey.aboutSharedPc')}</p>
             </div>
           </details>
         </div>
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { useHobby } from '../../../hooks/useHobby';
+import { useTranslation } from '../../../contexts/LanguageContext';
 import { HobbyForm } from '../../hobby/HobbyForm';
 import type { Hobby } from '../../../types';
 
@@ -10,6 +11,7 @@ interface HobbySetupStepProps {
 
 export const HobbySetupStep: React.FC<HobbySetupStepProps> = ({ onComplete, onSkip }) => {
   const { hobbies, createHobby, isLoading, error, clearError } = useHobby();
+  const { t } = useTranslation();
   const [showForm, setShowForm] = useState(false);
 
   useEffect(() => {
@@ -41,7 +43,7 @@ export const HobbySetupStep: React.FC<HobbySetupStepProps> = ({ onComplete, onSk
 
     return (
       <div className="bg-gray-50 rounded-lg p-4 mb-6">
-        <h3 className="font-medium text-gray-900 mb-3">登録済みの趣味</h3>
+        <h3 className="font-medium text-gray-900 mb-3">{t('setupHobby.registered')}</h3>
         <div className="space-y-2">
           {hobbies.map((hobby) => (
             <div key={hobby.id} className="flex items-center justify-between bg-white p-3 rounded-md">
@@ -55,10 +57,10 @@ export const HobbySetupStep: React.FC<HobbySetupStepProps> = ({ onComplete, onSk
                     ? 'bg-green-100 text-green-800' 
                     : 'bg-gray-100 text-gray-600'
                 }`}>
-                  {hobby.isActive ? '有効' : '無効'}
+                  {hobby.isActive ? t('hobbyList.active') : t('hobbyList.inactive')}
                 </span>
                 <span className="text-sm text-gray-500">
-                  {hobby.preferredWeather?.length || 0} 天気条件
+                  {t('setupHobby.weatherConditions', { count: hobby.preferredWeather?.length || 0 })}
                 </span>
               </div>
             </div>
@@ -74,16 +76,16 @@ export const HobbySetupStep: React.FC<HobbySetupStepProps> = ({ onComplete, onSk
         {/* Header */}
         <div className="text-center mb-8">
           <div className="text-5xl mb-4">🎨</div>
-          <h2 className="text-2xl font-bold text-gray-900 mb-2">趣味登録</h2>
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">{t('setup.step.hobbies.title')}</h2>
           <p className="text-gray-600">
-            あなたの趣味を登録して、パーソナライズされた推薦を受けましょう
+            {t('setupHobby.description')}
           </p>
         </div>
 
         {/* Optional Badge */}
         <div className="flex justify-center mb-6">
           <span className="bg-blue-100 text-blue-800 text-sm px-3 py-1 rounded-full">
-            オプション（後で追加可能）
+            {t('setupHobby.optional')}
           </span>
         </div>
 
@@ -93,11 +95,11 @@ export const HobbySetupStep: React.FC<HobbySetupStepProps> = ({ onComplete, onSk
             <div className="flex items-center justify-center mb-2">
               <span className="text-green-400 text-xl mr-2">✅</span>
               <span className="font-medium text-green-800">
-                {hobbies.length}件の趣味が登録されました
+                {t('setupHobby.registeredCount', { count: hobbies.length })}
               </span>
             </div>
             <div className="text-center text-sm text-green-600">
-              推薦機能がより正確になります
+              {t('setupHobby.moreAccurate')}
             </div>
           </div>
         )}
@@ -125,7 +127,7 @@ export const HobbySetupStep: React.FC<HobbySetupStepProps> = ({ onComplete, onSk
             >
               <span>+</span>
               <span>
-                {hobbies.length === 0 ? '最初の趣味を追加' : '別の趣味を追加'}
+                {hobbies.length === 0 ? t('setupHobby.addFirst') : t('setupHobby.addAnother')}
               </span>
             </button>
 
@@ -135,20 +137,20 @@ export const HobbySetupStep: React.FC<HobbySetupStepProps> = ({ onComplete, onSk
                 onClick={handleSkipStep}
                 className="flex-1 bg-gray-600 text-white py-2 px-4 rounded-md hover:bg-gray-700 transition-colors"
               >
-                {hobbies.length === 0 ? 'スキップ' : '後で追加'}
+                {hobbies.length === 0 ? t('setupHobby.skip') : t('setupHobby.addLater')}
               </button>
               
               <button
                 onClick={handleCompleteSetup}
                 className="flex-1 bg-green-600 text-white py-2 px-4 rounded-md hover:bg-green-700 transition-colors"
               >
-                {hobbies.length === 0 ? 'セットアップ完了' : '次へ'}
+                {hobbies.length === 0 ? t('setupHobby.finish') : t('setupHobby.next')}
               </button>
             </div>
           </div>
         ) : (
           <div>
-            <h3 className="text-lg font-medium text-gray-900 mb-4">新しい趣味を追加</h3>
+            <h3 className="text-lg font-medium text-gray-900 mb-4">{t('hobbyManager.create')}</h3>
             <HobbyForm
               onSubmit={handleCreateHobby}
               onCancel={() => setShowForm(false)}
@@ -159,23 +161,23 @@ export const HobbySetupStep: React.FC<HobbySetupStepProps> = ({ onComplete, onSk
 
         {/* Benefits */}
         <div className="mt-8 pt-6 border-t border-gray-200">
-          <h3 className="font-medium text-gray-900 mb-3">趣味登録のメリット</h3>
+          <h3 className="font-medium text-gray-900 mb-3">{t('setupHobby.benefits')}</h3>
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
             <div className="flex items-start space-x-2">
               <span className="text-green-500">✓</span>
-              <span className="text-gray-600">天気に応じた趣味の推薦</span>
+              <span className="text-gray-600">{t('setupHobby.benefitWeather')}</span>
             </div>
             <div className="flex items-start space-x-2">
               <span className="text-green-500">✓</span>
-              <span className="text-gray-600">個人の好みに合わせた提案</span>
+              <span className="text-gray-600">{t('setupHobby.benefitPersonal')}</span>
             </div>
             <div className="flex items-start space-x-2">
               <span className="text-green-500">✓</span>
-              <span className="text-gray-600">天気条件による絞り込み</span>
+              <span className="text-gray-600">{t('setupHobby.benefitFilter')}</span>
             </div>
             <div className="flex items-start space-x-2">
               <span className="text-green-500">✓</span>
-              <span className="text-gray-600">季節やイベントに応じた提案</span>
+              <span className="text-gray-600">{t('setupHobby.benefitSeason')}</span>
             </div>
           </div>
         </div>
@@ -184,12 +186,12 @@ export const HobbySetupStep: React.FC<HobbySetupStepProps> = ({ onComplete, onSk
         <div className="mt-6">
           <details className="text-sm text-gray-600">
             <summary className="cursor-pointer font-medium text-gray-700 hover:text-gray-900">
-              趣味登録について
+              {t('setupHobby.about')}
             </summary>
             <div className="mt-2 space-y-2">
-              <p>• 趣味は後からいつでも追加・編集できます</p>
-              <p>• 天気条件を設定すると、より正確な推薦が受けられます</p>
-              <p>• 趣味が多いほど、推薦の精度が向上します</p>
+              <p>{t('setupHobby.aboutEdit')}</p>
+              <p>{t('setupHobby.aboutWeather')}</p>
+              <p>{t('setupHobby.aboutMore')}</p>
             </div>
           </details>
         </div>
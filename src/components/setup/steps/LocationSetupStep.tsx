@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { useWeather } from '../../../hooks/useWeather';
+import { useTranslation } from '../../../contexts/LanguageContext';
 
 interface LocationSetupStepProps {
   onComplete: () => void;
@@ -14,6 +15,7 @@ export const LocationSetupStep: React.FC<LocationSetupStepProps> = ({ onComplete
     setLocation,
     clearError
   } = useWeather();
+  const { t } = useTranslation();
 
   const [manualLocation, setManualLocation] = useState('');
   const [isManualMode, setIsManualMode] = useState(false);
@@ -41,7 +43,7 @@ export const LocationSetupStep: React.FC<LocationSetupStepProps> = ({ onComplete
 
   const handleManualLocationSubmit = async () => {
     if (!manualLocation.trim()) {
-      setSearchError('場所を入力してください');
+      setSearchError(t('setupLocation.required'));
       return;
     }
 
@@ -52,7 +54,7 @@ export const LocationSetupStep: React.FC<LocationSetupStepProps> = ({ onComplete
       // OpenWeatherMap Geocoding APIを使用して場所を検索
       const savedSettings = localStorage.getItem('hobby-weather-api-settings');
       if (!savedSettings) {
-        throw new Error('API Keyが設定されていません');
+        throw new Error(t('setupLocation.apiKeyMissing'));
       }
 
       const settings = JSON.parse(savedSettings);
@@ -63,12 +65,12 @@ export const LocationSetupStep: React.FC<LocationSetupStepProps> = ({ onComplete
       );
 
       if (!response.ok) {
-        throw new Error('場所の検索に失敗しました');
+        throw new Error(t('setupLocation.searchFailed'));
       }
 
       const data = await response.json();
       if (!data || data.length === 0) {
-        throw new Error('指定された場所が見つかりません');
+        throw new Error(t('setupLocation.notFound'));
       }
 
       const locationData = data[0];
@@ -83,7 +85,7 @@ export const LocationSetupStep: React.FC<LocationSetupStepProps> = ({ onComplete
       });
 
     } catch (error) {
-      setSearchError(error instanceof Error ? error.message : '場所の設定に失敗しました');
+      setSearchError(error instanceof Error ? error.message : t('setupLocation.setFailed'));
     } finally {
       setIsSearching(false);
     }
@@ -105,9 +107,9 @@ export const LocationSetupStep: React.FC<LocationSetupStepProps> = ({ onComplete
         {/* Header */}
         <div className="text-center mb-8">
           <div className="text-5xl mb-4">📍</div>
-          <h2 className="text-2xl font-bold text-gray-900 mb-2">場所設定</h2>
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">{t('setup.step.location.title')}</h2>
           <p className="text-gray-600">
-            天気予報を取得する場所を設定します
+            {t('setupLocation.description')}
           </p>
         </div>
 
@@ -116,17 +118,17 @@ export const LocationSetupStep: React.FC<LocationSetupStepProps> = ({ onComplete
           <div className="bg-green-50 border border-green-200 rounded-lg p-6 mb-6">
             <div className="flex items-center justify-center mb-4">
               <span className="text-green-400 text-2xl mr-2">✅</span>
-              <span className="text-lg font-medium text-green-800">場所が設定されました</span>
+              <span className="text-lg font-medium text-green-800">{t('setupLocation.done')}</span>
             </div>
             <div className="text-center">
               <p className="text-green-700 font-medium text-lg">{getLocationDisplayName()}</p>
               <p className="text-sm text-green-600 mt-1">
-                緯度: {location.lat.toFixed(4)}, 経度: {location.lon.toFixed(4)}
+                {t('setupLocation.coordinates', { lat: location.lat.toFixed(4), lon: location.lon.toFixed(4) })}
               </p>
             </div>
             <div className="text-center mt-4">
               <div className="inline-block animate-spin rounded-full h-4 w-4 border-b-2 border-green-600 mr-2"></div>
-              <span className="text-sm text-green-700">次のステップに進んでいます...</span>
+              <span className="text-sm text-green-700">{t('setupLocation.proceeding')}</span>
             </div>
           </div>
         )}
@@ -138,15 +140,15 @@ export const LocationSetupStep: React.FC<LocationSetupStepProps> = ({ onComplete
             <div className="border border-gray-200 rounded-lg p-6">
               <div className="flex items-center justify-between mb-4">
                 <div>
-                  <h3 className="font-medium text-gray-900">現在地を使用</h3>
-                  <p className="text-sm text-gray-600">GPSを使用して現在の位置を取得します</p>
+                  <h3 className="font-medium text-gray-900">{t('setupLocation.useCurrent')}</h3>
+                  <p className="text-sm text-gray-600">{t('setupLocation.useCurrentHint')}</p>
                 </div>
                 <button
                   onClick={handleGetCurrentLocation}
                   disabled={isLocationLoading}
                   className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                 >
-                  {isLocationLoading ? '取得中...' : '現在地を取得'}
+                  {isLocationLoading ? t('locationSelector.locating') : t('locationSelector.getCurrent')}
                 </button>
               </div>
 
@@ -164,14 +166,14 @@ export const LocationSetupStep: React.FC<LocationSetupStepProps> = ({ onComplete
             <div className="border border-gray-200 rounded-lg p-6">
               <div className="flex items-center justify-between mb-4">
                 <div>
-                  <h3 className="font-medium text-gray-900">手動で場所を指定</h3>
-                  <p className="text-sm text-gray-600">都市名や地域名を入力してください</p>
+                  <h3 className="font-medium text-gray-900">{t('setupLocation.manual')}</h3>
+                  <p className="text-sm text-gray-600">{t('setupLocation.manualHint')}</p>
                 </div>
                 <button
                   onClick={() => setIsManualMode(!isManualMode)}
                   className="text-blue-600 hover:text-blue-700 text-sm font-medium"
                 >
-                  {isManualMode ? '閉じる' : '手動入力'}
+                  {isManualMode ? t('common.close') : t('setupLocation.manualButton')}
                 </button>
               </div>
 
@@ -185,7 +187,7 @@ export const LocationSetupStep: React.FC<LocationSetupStepProps> = ({ onComplete
                         setManualLocation(e.target.value);
                         setSearchError(null);
                       }}
-                      placeholder="例: 東京, Tokyo, New York"
+                      placeholder={t('setupLocation.placeholder')}
                       className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                       disabled={isSearching}
                       onKeyPress={(e) => {
@@ -210,7 +212,7 @@ export const LocationSetupStep: React.FC<LocationSetupStepProps> = ({ onComplete
                     disabled={isSearching || !manualLocation.trim()}
                     className="w-full bg-green-600 text-white py-2 px-4 rounded-md hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                   >
-                    {isSearching ? '検索中...' : '場所を設定'}
+                    {isSearching ? t('locationSelector.searching') : t('setupLocation.submit')}
                   </button>
                 </div>
               )}
@@ -222,12 +224,12 @@ export const LocationSetupStep: React.FC<LocationSetupStepProps> = ({ onComplete
         <div className="mt-6 pt-6 border-t border-gray-200">
           <details className="text-sm text-gray-600">
             <summary className="cursor-pointer font-medium text-gray-700 hover:text-gray-900">
-              場所設定について
+              {t('setupLocation.about')}
             </summary>
             <div className="mt-2 space-y-2">
-              <p>• 現在地取得にはブラウザの位置情報許可が必要です</p>
-              <p>• 手動入力では都市名、地域名、国名で検索できます</p>
-              <p>• 設定した場所は後で変更することができます</p>
+              <p>{t('setupLocation.aboutPermission')}</p>
+              <p>{t('setupLocation.aboutSearch')}</p>
+              <p>{t('setupLocation.aboutChange')}</p>
             </div>
           </details>
         </div>
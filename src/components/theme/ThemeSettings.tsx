@@ -1,5 +1,6 @@
 import React from 'react';
 import { useTheme } from '../../contexts/ThemeContext';
+import { useTranslation } from '../../contexts/LanguageContext';
 import type { ThemeMode } from '../../types/theme';
 
 export const ThemeSettings: React.FC = () => {
@@ -12,18 +13,19 @@ export const ThemeSettings: React.FC = () => {
     setReducedMotion,
     setFontSize,
   } = useTheme();
+  const { t } = useTranslation();
 
   return (
     <div className="space-y-6">
       <div>
         <h3 className="text-lg font-semibold text-text-primary mb-4">
-          テーマ設定
+          {t('theme.settings.title')}
         </h3>
         
         {/* テーマモード選択 */}
         <div className="space-y-3">
           <label className="text-sm font-medium text-text-secondary">
-            外観モード
+            {t('theme.settings.appearance')}
           </label>
           <div className="grid grid-cols-1 gap-2">
             {(['light', 'dark', 'system'] as ThemeMode[]).map((mode) => (
@@ -59,14 +61,12 @@ export const ThemeSettings: React.FC = () => {
                   </span>
                   <div>
                     <div className="text-sm font-medium text-text-primary">
-                      {mode === 'light' && 'ライトモード'}
-                      {mode === 'dark' && 'ダークモード'}
-                      {mode === 'system' && 'システム設定に従う'}
+                      {t(`theme.settings.mode.${mode}`)}
                     </div>
                     <div className="text-xs text-text-tertiary">
-                      {mode === 'light' && '常に明るいテーマを使用'}
-                      {mode === 'dark' && '常に暗いテーマを使用'}
-                      {mode === 'system' && `システム設定: ${systemPreference === 'dark' ? 'ダーク' : 'ライト'}モード`}
+                      {mode === 'system'
+                        ? t('theme.settings.systemCurrent', { mode: t(`theme.mode.${systemPreference}`) })
+                        : t(`theme.settings.modeDescription.${mode}`)}
                     </div>
                   </div>
                 </div>
@@ -77,9 +77,9 @@ export const ThemeSettings: React.FC = () => {
 
         {/* 現在のテーマ情報 */}
         <div className="mt-4 p-3 bg-surface-secondary rounded-lg">
-          <div className="text-xs text-text-tertiary mb-1">現在のテーマ</div>
+          <div className="text-xs text-text-tertiary mb-1">{t('theme.settings.current')}</div>
           <div className="text-sm font-medium text-text-primary">
-            {currentTheme.name} - {currentTheme.mode === 'dark' ? 'ダーク' : 'ライト'}モード
+            {currentTheme.name} - {t(`theme.mode.${currentTheme.mode}`)}
           </div>
         </div>
       </div>
@@ -87,7 +87,7 @@ export const ThemeSettings: React.FC = () => {
       {/* アクセシビリティ設定 */}
       <div>
         <h4 className="text-base font-semibold text-text-primary mb-3">
-          アクセシビリティ
+          {t('theme.settings.accessibility')}
         </h4>
         
         <div className="space-y-4">
@@ -95,10 +95,10 @@ export const ThemeSettings: React.FC = () => {
           <label className="flex items-center justify-between p-3 rounded-lg border border-border-primary cursor-pointer hover:bg-surface-secondary transition-colors">
             <div>
               <div className="text-sm font-medium text-text-primary">
-                高コントラストモード
+                {t('theme.settings.highContrast')}
               </div>
               <div className="text-xs text-text-tertiary">
-                視認性を向上させるため、より強いコントラストを使用
+                {t('theme.settings.highContrastDescription')}
               </div>
             </div>
             <input
@@ -113,10 +113,10 @@ export const ThemeSettings: React.FC = () => {
           <label className="flex items-center justify-between p-3 rounded-lg border border-border-primary cursor-pointer hover:bg-surface-secondary transition-colors">
             <div>
               <div className="text-sm font-medium text-text-primary">
-                動きの軽減
+                {t('theme.settings.reducedMotion')}
               </div>
               <div className="text-xs text-text-tertiary">
-                アニメーションと視覚効果を最小限に抑制
+                {t('theme.settings.reducedMotionDescription')}
               </div>
             </div>
             <input
@@ -130,7 +130,7 @@ export const ThemeSettings: React.FC = () => {
           {/* フォントサイズ */}
           <div className="p-3 rounded-lg border border-border-primary">
             <div className="text-sm font-medium text-text-primary mb-2">
-              フォントサイズ
+              {t('theme.settings.fontSize')}
             </div>
             <div className="grid grid-cols-3 gap-2">
               {(['small', 'medium', 'large'] as const).map((size) => (
@@ -151,9 +151,7 @@ export const ThemeSettings: React.FC = () => {
                       ? 'text-primary-600' 
                       : 'text-text-secondary'
                   }`}>
-                    {size === 'small' && '小'}
-                    {size === 'medium' && '中'}
-                    {size === 'large' && '大'}
+                    {t(`theme.settings.fontSize.${size}`)}
                   </span>
                 </label>
               ))}
@@ -165,25 +163,25 @@ export const ThemeSettings: React.FC = () => {
       {/* テーマプレビュー */}
       <div>
         <h4 className="text-base font-semibold text-text-primary mb-3">
-          プレビュー
+          {t('theme.settings.preview')}
         </h4>
         
         <div className="p-4 rounded-lg border border-border-primary bg-surface-secondary">
           <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
-              <div className="w-full h-8 bg-primary-500 rounded" title="プライマリカラー" />
-              <div className="w-full h-6 bg-secondary-500 rounded" title="セカンダリカラー" />
-              <div className="w-full h-6 bg-accent-500 rounded" title="アクセントカラー" />
+              <div className="w-full h-8 bg-primary-500 rounded" title={t('theme.settings.primaryColor')} />
+              <div className="w-full h-6 bg-secondary-500 rounded" title={t('theme.settings.secondaryColor')} />
+              <div className="w-full h-6 bg-accent-500 rounded" title={t('theme.settings.accentColor')} />
             </div>
             <div className="space-y-2">
               <div className="p-2 bg-surface-primary border border-border-primary rounded">
-                <div className="text-xs text-text-primary">サンプルテキスト</div>
-                <div className="text-2xs text-text-secondary">詳細テキスト</div>
+                <div className="text-xs text-text-primary">{t('theme.settings.sampleText')}</div>
+                <div className="text-2xs text-text-secondary">{t('theme.settings.detailText')}</div>
               </div>
               <div className="flex gap-1">
-                <div className="w-4 h-4 bg-success-500 rounded-sm" title="成功" />
-                <div className="w-4 h-4 bg-warning-500 rounded-sm" title="警告" />
-                <div className="w-4 h-4 bg-error-500 rounded-sm" title="エラー" />
+                <div className="w-4 h-4 bg-success-500 rounded-sm" title={t('theme.settings.success')} />
+                <div className="w-4 h-4 bg-warning-500 rounded-sm" title={t('theme.settings.warning')} />
+                <div className="w-4 h-4 bg-error-500 rounded-sm" title={t('theme.settings.error')} />
               </div>
             </div>
           </div>
@@ -1,5 +1,6 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { useTheme } from '../../contexts/ThemeContext';
+import { useTranslation } from '../../contexts/LanguageContext';
 import type { ThemeMode } from '../../types/theme';
 
 interface ThemeToggleProps {
@@ -12,6 +13,7 @@ export const ThemeToggle: React.FC<ThemeToggleProps> = ({
   className = '' 
 }) => {
   const { config, setMode, toggleTheme } = useTheme();
+  const { t } = useTranslation();
   const [isOpen, setIsOpen] = useState(false);
   const [focusedIndex, setFocusedIndex] = useState(0);
   const dropdownRef = useRef<HTMLDivElement>(null);
@@ -117,13 +119,11 @@ export const ThemeToggle: React.FC<ThemeToggleProps> = ({
   const getCurrentThemeDescription = (): string => {
     switch (config.mode) {
       case 'dark':
-        return 'ダークモード（現在選択中）';
       case 'light':
-        return 'ライトモード（現在選択中）';
       case 'system':
-        return 'システム設定（現在選択中）';
+        return t('theme.toggle.selected', { mode: t(`theme.toggle.mode.${config.mode}`) });
       default:
-        return 'テーマ選択';
+        return t('theme.toggle.select');
     }
   };
 
@@ -140,8 +140,8 @@ export const ThemeToggle: React.FC<ThemeToggleProps> = ({
           focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2 focus:ring-offset-surface-primary
           ${className}
         `}
-        aria-label={`テーマを切り替え（${getCurrentThemeDescription()}）`}
-        title="テーマを切り替え"
+        aria-label={t('theme.toggle.switchLabel', { description: getCurrentThemeDescription() })}
+        title={t('theme.toggle.switch')}
       >
         {config.mode === 'dark' ? (
           <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" aria-hidden="true">
@@ -176,7 +176,7 @@ export const ThemeToggle: React.FC<ThemeToggleProps> = ({
         "
         aria-expanded={isOpen}
         aria-haspopup="menu"
-        aria-label={`テーマ選択メニュー（${getCurrentThemeDescription()}）`}
+        aria-label={t('theme.toggle.menuLabel', { description: getCurrentThemeDescription() })}
         id="theme-toggle-button"
       >
         <span className="flex items-center gap-2">
@@ -185,21 +185,21 @@ export const ThemeToggle: React.FC<ThemeToggleProps> = ({
               <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" aria-hidden="true">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20.354 15.354A9 9 0 018.646 3.646 9.003 9.003 0 0012 21a9.003 9.003 0 008.354-5.646z" />
               </svg>
-              ダークモード
+              {t('theme.toggle.mode.dark')}
             </>
           ) : config.mode === 'light' ? (
             <>
               <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" aria-hidden="true">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 3v1m0 16v1m9-9h-1M4 12H3m15.364 6.364l-.707-.707M6.343 6.343l-.707-.707m12.728 0l-.707.707M6.343 17.657l-.707.707M16 12a4 4 0 11-8 0 4 4 0 018 0z" />
               </svg>
-              ライトモード
+              {t('theme.toggle.mode.light')}
             </>
           ) : (
             <>
               <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" aria-hidden="true">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.75 17L9 20l-1 1h8l-1-1-.75-3M3 13h18M5 17h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
               </svg>
-              システム設定
+              {t('theme.toggle.mode.system')}
             </>
           )}
         </span>
@@ -264,12 +264,10 @@ export const ThemeToggle: React.FC<ThemeToggleProps> = ({
                 )}
               </span>
               <span className="text-sm">
-                {mode === 'light' && 'ライトモード'}
-                {mode === 'dark' && 'ダークモード'}
-                {mode === 'system' && 'システム設定'}
+                {t(`theme.toggle.mode.${mode}`)}
               </span>
               {config.mode === mode && (
-                <span className="ml-auto" aria-label="選択中">
+                <span className="ml-auto" aria-label={t('theme.toggle.current')}>
                   <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                   </svg>
@@ -0,0 +1,228 @@
+import React, { useState } from 'react';
+import type { Hobby, Location } from '../../types';
+import { useClimatology } from '../../hooks/useClimatology';
+import { MIN_SUITABILITY_SAMPLE_DAYS } from '../../utils/climatology';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useUnits } from '../../contexts/UnitsContext';
+import { useTranslation } from '../../contexts/LanguageContext';
+
+interface ClimatologyChartProps {
+    location: Location;
+    hobbies: Hobby[];
+    updatedAt?: Date; // 天気を取得した日時（記録が増えたら集計し直す）
+}
+
+// 向いている月として表示する数
+const BEST_MONTH_COUNT = 3;
+
+const MONTHS = Array.from({ length: 12 }, (_, index) => index + 1);
+
+// 記録した天気から月ごとの典型的な気温・雨の日・風をグラフで表示
+export const ClimatologyChart: React.FC<ClimatologyChartProps> = ({
+    location,
+    hobbies,
+    updatedAt,
+}) => {
+    const { currentTheme } = useTheme();
+    const { formatTemperature, formatWindSpeed } = useUnits();
+    const { locale, t } = useTranslation();
+    const [hobbyId, setHobbyId] = useState<number | null>(null);
+    const selectedHobby = hobbies.find((hobby) => hobby.id === hobbyId);
+    const { climatology, error } = useClimatology(location, selectedHobby, updatedAt);
+
+    const formatMonth = (month: number) =>
+        new Intl.DateTimeFormat(locale, { month: 'short' }).format(new Date(2000, month - 1, 1));
+
+    if (!climatology) {
+        return error ? <p className="text-sm text-red-600">{error}</p> : null;
+    }
+
+    const { monthly, recordedDays, firstRecordedAt, bestMonths } = climatology;
+    const monthlyByPeriod = new Map(monthly.map((summary) => [summary.period, summary]));
+    const lowest = Math.min(...monthly.map((summary) => summary.averageMin));
+    const highest = Math.max(...monthly.map((summary) => summary.averageMax));
+    const temperatureRange = Math.max(1, highest - lowest);
+    const topMonths = bestMonths.slice(0, BEST_MONTH_COUNT);
+
+    return (
+        <div
+            className="rounded-lg shadow-sm border-2 p-6"
+            style={{
+                backgroundColor: currentTheme.colors.surface.primary,
+                borderColor: currentTheme.colors.border.primary,
+            }}
+        >
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                <h3
+                    className="text-lg font-semibold"
+                    style={{ color: currentTheme.colors.text.primary }}
+                >
+                    📅 {t('climatology.title')}
+                </h3>
+                {firstRecordedAt && (
+                    <span
+                        className="text-sm"
+                        style={{ color: currentTheme.colors.text.secondary }}
+                    >
+                        {t('climatology.recordedDays', {
+                            count: recordedDays,
+                            date: firstRecordedAt.toLocaleDateString(locale),
+                        })}
+                    </span>
+                )}
+            </div>
+
+            {recordedDays === 0 ? (
+                <p className="text-sm" style={{ color: currentTheme.colors.text.secondary }}>
+                    {t('climatology.empty')}
+                </p>
+            ) : (
+                <>
+                    {/* 気温（平均最低〜平均最高の範囲） */}
+                    <h4
+                        className="text-sm font-medium mb-2"
+                        style={{ color: currentTheme.colors.text.secondary }}
+                    >
+                        {t('climatology.temperature')}
+                    </h4>
+                    <div className="flex items-stretch space-x-1 h-32 mb-4">
+                        {MONTHS.map((month) => {
+                            const summary = monthlyByPeriod.get(month);
+                            const isBest = topMonths.some((best) => best.month === month);
+                            return (
+                                <div
+                                    key={month}
+                                    className="flex-1 flex flex-col items-center"
+                                    title={
+                                        summary &&
+                                        t('climatology.monthSummary', {
+                                            month: formatMonth(month),
+                                            temperature: formatTemperature(summary.averageTemperature),
+                                            min: formatTemperature(summary.averageMin),
+                                            max: formatTemperature(summary.averageMax),
+                                            rain: Math.round(summary.rainDayRatio * 100),
+                                            wind: formatWindSpeed(summary.averageWindSpeed),
+                                            count: summary.sampleDays,
+                                        })
+                                    }
+                                >
+                                    <span
+                                        className="text-xs"
+                                        style={{ color: currentTheme.colors.text.secondary }}
+                                    >
+                                        {summary ? Math.round(summary.averageTemperature) : ''}
+                                    </span>
+                                    <div className="relative w-full flex-1">
+                                        {summary && (
+                                            <div
+                                                className="absolute inset-x-0 rounded"
+                                                style={{
+                                                    bottom: `${((summary.averageMin - lowest) / temperatureRange) * 100}%`,
+                                                    height: `${((summary.averageMax - summary.averageMin) / temperatureRange) * 100}%`,
+                                                    minHeight: '4px',
+                                                    backgroundColor: isBest
+                                                        ? currentTheme.colors.primary
+                                                        : currentTheme.colors.secondary,
+                                                }}
+                                            />
+                                        )}
+                                    </div>
+                                    <span
+                                        className={`text-xs mt-1 ${isBest ? 'font-semibold' : ''}`}
+                                        style={{ color: currentTheme.colors.text.tertiary }}
+                                    >
+                                        {formatMonth(month)}
+                                    </span>
+                                </div>
+                            );
+                        })}
+                    </div>
+
+                    {/* 雨の日の割合 */}
+                    <h4
+                        className="text-sm font-medium mb-2"
+                        style={{ color: currentTheme.colors.text.secondary }}
+                    >
+                        {t('climatology.rainDays')}
+                    </h4>
+                    <div className="flex items-end space-x-1 h-16 mb-4">
+                        {MONTHS.map((month) => {
+                            const summary = monthlyByPeriod.get(month);
+                            return (
+                                <div
+                                    key={month}
+                                    className="flex-1 flex flex-col items-center justify-end h-full"
+                                >
+                                    {summary && (
+                                        <>
+                                            <span
+                                                className="text-xs"
+                                                style={{ color: currentTheme.colors.text.secondary }}
+                                            >
+                                                {Math.round(summary.rainDayRatio * 100)}
+                                            </span>
+                                            <div
+                                                className="w-full rounded-t bg-blue-400"
+                                                style={{
+                                                    height: `${summary.rainDayRatio * 100}%`,
+                                                    minHeight: '1px',
+                                                }}
+                                            />
+                                        </>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+
+                    {/* 趣味に向いている月 */}
+                    {hobbies.length > 0 && (
+                        <div className="space-y-2 text-sm">
+                            <label className="flex items-center gap-2">
+                                <span style={{ color: currentTheme.colors.text.secondary }}>
+                                    {t('climatology.hobbyLabel')}
+                                </span>
+                                <select
+                                    value={hobbyId ?? ''}
+                                    onChange={(e) => setHobbyId(e.target.value ? Number(e.target.value) : null)}
+                                    className="border border-border-primary rounded-md px-2 py-1 bg-surface-primary text-text-primary"
+                                >
+                                    <option value="">{t('climatology.hobbyNone')}</option>
+                                    {hobbies.map((hobby) => (
+                                        <option key={hobby.id} value={hobby.id}>
+                                            {hobby.name}
+                                        </option>
+                                    ))}
+                                </select>
+                            </label>
+                            {selectedHobby && (
+                                <p style={{ color: currentTheme.colors.text.primary }}>
+                                    {topMonths.length > 0
+                                        ? t('climatology.bestMonths', {
+                                              hobby: selectedHobby.name,
+                                              months: topMonths
+                                                  .map((best) =>
+                                                      t('climatology.bestMonth', {
+                                                          month: formatMonth(best.month),
+                                                          ratio: Math.round(best.suitableDayRatio * 100),
+                                                      })
+                                                  )
+                                                  .join(t('common.listSeparator')),
+                                          })
+                                        : t('climatology.noBestMonths', {
+                                              hobby: selectedHobby.name,
+                                              count: MIN_SUITABILITY_SAMPLE_DAYS,
+                                          })}
+                                </p>
+                            )}
+                        </div>
+                    )}
+
+                    <p className="text-xs mt-3" style={{ color: currentTheme.colors.text.tertiary }}>
+                        {t('climatology.hint')}
+                    </p>
+                </>
+            )}
+        </div>
+    );
+};
@@ -1,7 +1,10 @@
 import React from 'react';
-import type { DailyForecast } from '../../types';
+import type { DailyForecast, DaylightRange } from '../../types';
 import { weatherService } from '../../services/weather.service';
 import { useTheme } from '../../contexts/ThemeContext';
+import { useUnits } from '../../contexts/UnitsContext';
+import { useTranslation } from '../../contexts/LanguageContext';
+import { getConfidenceLevel, getForecastConfidence } from '../../utils/forecast-confidence';
 
 interface ForecastCardProps {
     forecast: DailyForecast;
@@ -13,20 +16,47 @@ export const ForecastCard: React.FC<ForecastCardProps> = ({
     isToday = false,
 }) => {
     const { currentTheme } = useTheme();
+    const { toDisplayTemperature, formatWindSpeed } = useUnits();
+    const { locale, t } = useTranslation();
+    // 降水量（雨と雪の合計、取得元が提供する場合のみ）
+    const precipitationAmount = forecast.rain !== undefined || forecast.snow !== undefined
+        ? (forecast.rain ?? 0) + (forecast.snow ?? 0)
+        : undefined;
     const formatDate = (date: Date) => {
-        if (isToday) return '今日';
+        if (isToday) return t('common.today');
 
         const tomorrow = new Date();
         tomorrow.setDate(tomorrow.getDate() + 1);
-        if (date.toDateString() === tomorrow.toDateString()) return '明日';
+        if (date.toDateString() === tomorrow.toDateString()) return t('common.tomorrow');
 
-        return new Intl.DateTimeFormat('ja-JP', {
+        return new Intl.DateTimeFormat(locale, {
             month: 'short',
             day: 'numeric',
             weekday: 'short',
         }).format(date);
     };
 
+    const formatTime = (date: Date) =>
+        new Intl.DateTimeFormat(locale, {
+            hour: '2-digit',
+            minute: '2-digit',
+        }).format(date);
+
+    // 朝・夕の時間帯を「05:10〜05:50、18:30〜19:10」の形にまとめる
+    const formatRanges = (ranges: (DaylightRange | null)[]) =>
+        ranges
+            .filter((range): range is DaylightRange => range !== null)
+            .map(range => t('forecastCard.timeRange', { start: formatTime(range.start), end: formatTime(range.end) }))
+            .join(t('common.listSeparator'));
+
+    const daylight = forecast.daylight;
+    const goldenHours = daylight ? formatRanges([daylight.morningGoldenHour, daylight.eveningGoldenHour]) : '';
+    const blueHours = daylight ? formatRanges([daylight.morningBlueHour, daylight.eveningBlueHour]) : '';
+
+    // 信頼度の低い日（先の日・一部の時間のみの日）は薄く表示
+    const confidence = getForecastConfidence(forecast);
+    const confidenceLevel = getConfidenceLevel(confidence);
+
     const getPrecipitationColor = (pop: number): string => {
         if (pop === 0) return '';
         if (pop <= 20) return 'text-blue-400';
@@ -38,7 +68,7 @@ export const ForecastCard: React.FC<ForecastCardProps> = ({
 
     return (
         <div
-            className="rounded-lg border-2 p-4 transition-all hover:shadow-md"
+            className={`rounded-lg border-2 p-4 transition-all hover:shadow-md ${confidenceLevel === 'low' ? 'opacity-60' : ''}`}
             style={{
                 backgroundColor: isToday
                     ? currentTheme.mode === 'dark'
@@ -65,11 +95,24 @@ export const ForecastCard: React.FC<ForecastCardProps> = ({
                     className="text-xs "
                     style={{ color: currentTheme.colors.text.secondary }}
                 >
-                    {new Intl.DateTimeFormat('ja-JP', {
+                    {new Intl.DateTimeFormat(locale, {
                         month: 'numeric',
                         day: 'numeric',
                     }).format(forecast.date)}
                 </p>
+                {(forecast.isPartial || confidenceLevel !== 'high') && (
+                    <div
+                        className="mt-1 flex flex-wrap justify-center gap-1 text-xs"
+                        style={{ color: currentTheme.colors.text.tertiary }}
+                    >
+                        {forecast.isPartial && (
+                            <span title={t('forecastCard.partialHint')}>⏳ {t('forecastCard.partial')}</span>
+                        )}
+                        {confidenceLevel !== 'high' && (
+                            <span>{t('forecastCard.confidence', { percent: Math.round(confidence * 100) })}</span>
+                        )}
+                    </div>
+                )}
             </div>
 
             {/* Weather Icon and Description */}
@@ -92,20 +135,20 @@ export const ForecastCard: React.FC<ForecastCardProps> = ({
                         className="text-xl font-bold"
                         style={{ color: currentTheme.colors.text.primary }}
                     >
-                        {Math.round(forecast.temperature.max)}°
+                        {Math.round(toDisplayTemperature(forecast.temperature.max))}°
                     </span>
                     <span
                         className="text-sm "
                         style={{ color: currentTheme.colors.text.secondary }}
                     >
-                        {Math.round(forecast.temperature.min)}°
+                        {Math.round(toDisplayTemperature(forecast.temperature.min))}°
                     </span>
                 </div>
                 <p
                     className="text-xs  mt-1"
                     style={{ color: currentTheme.colors.text.secondary }}
                 >
-                    最高/最低
+                    {t('forecastCard.highLow')}
                 </p>
             </div>
 
@@ -119,11 +162,19 @@ export const ForecastCard: React.FC<ForecastCardProps> = ({
                     >
                         {Math.round(forecast.pop * 100)}%
                     </div>
+                    {precipitationAmount !== undefined && precipitationAmount > 0 && (
+                        <div
+                            className="text-xs"
+                            style={{ color: currentTheme.colors.text.secondary }}
+                        >
+                            {t('forecastCard.precipitationAmount', { value: precipitationAmount.toFixed(1) })}
+                        </div>
+                    )}
                     <p
                         className="text-xs "
                         style={{ color: currentTheme.colors.text.secondary }}
                     >
-                        降水確率
+                        {t('forecastCard.pop')}
                     </p>
                 </div>
             )}
@@ -132,20 +183,31 @@ export const ForecastCard: React.FC<ForecastCardProps> = ({
             <div className="space-y-2">
                 <div className="flex justify-between items-center text-xs">
                     <span style={{ color: currentTheme.colors.text.secondary }}>
-                        湿度
+                        {t('weatherCard.humidity')}
                     </span>
                     <span className="font-medium">{forecast.humidity}%</span>
                 </div>
 
                 <div className="flex justify-between items-center text-xs">
                     <span style={{ color: currentTheme.colors.text.secondary }}>
-                        風速
+                        {t('weatherCard.windSpeed')}
                     </span>
                     <span className="font-medium">
-                        {forecast.windSpeed.toFixed(1)} m/s
+                        {formatWindSpeed(forecast.windSpeed)}
                     </span>
                 </div>
 
+                {forecast.windGust !== undefined && (
+                    <div className="flex justify-between items-center text-xs">
+                        <span style={{ color: currentTheme.colors.text.secondary }}>
+                            {t('forecastCard.windGust')}
+                        </span>
+                        <span className="font-medium">
+                            {formatWindSpeed(forecast.windGust)}
+                        </span>
+                    </div>
+                )}
+
                 {forecast.uvIndex > 0 && (
                     <div className="flex justify-between items-center text-xs">
                         <span
@@ -153,7 +215,7 @@ export const ForecastCard: React.FC<ForecastCardProps> = ({
                                 color: currentTheme.colors.text.secondary,
                             }}
                         >
-                            UV指数
+                            {t('weatherCard.uvIndex')}
                         </span>
                         <span className="font-medium">
                             {forecast.uvIndex.toFixed(1)}
@@ -176,10 +238,10 @@ export const ForecastCard: React.FC<ForecastCardProps> = ({
                                 color: currentTheme.colors.text.secondary,
                             }}
                         >
-                            朝
+                            {t('timeOfDay.morning')}
                         </p>
                         <p className="font-medium">
-                            {Math.round(forecast.temperature.morning)}°
+                            {Math.round(toDisplayTemperature(forecast.temperature.morning))}°
                         </p>
                     </div>
                     <div className="text-center">
@@ -188,10 +250,10 @@ export const ForecastCard: React.FC<ForecastCardProps> = ({
                                 color: currentTheme.colors.text.secondary,
                             }}
                         >
-                            昼
+                            {t('timeOfDay.day')}
                         </p>
                         <p className="font-medium">
-                            {Math.round(forecast.temperature.day)}°
+                            {Math.round(toDisplayTemperature(forecast.temperature.day))}°
                         </p>
                     </div>
                     <div className="text-center">
@@ -200,10 +262,10 @@ export const ForecastCard: React.FC<ForecastCardProps> = ({
                                 color: currentTheme.colors.text.secondary,
                             }}
                         >
-                            夕
+                            {t('timeOfDay.evening')}
                         </p>
                         <p className="font-medium">
-                            {Math.round(forecast.temperature.evening)}°
+                            {Math.round(toDisplayTemperature(forecast.temperature.evening))}°
                         </p>
                     </div>
                     <div className="text-center">
@@ -212,14 +274,57 @@ export const ForecastCard: React.FC<ForecastCardProps> = ({
                                 color: currentTheme.colors.text.secondary,
                             }}
                         >
-                            夜
+                            {t('timeOfDay.night')}
                         </p>
                         <p className="font-medium">
-                            {Math.round(forecast.temperature.night)}°
+                            {Math.round(toDisplayTemperature(forecast.temperature.night))}°
                         </p>
                     </div>
                 </div>
             </div>
+
+            {/* Daylight */}
+            {daylight && (
+                <div
+                    className="mt-3 pt-3 border-t space-y-1 text-xs"
+                    style={{
+                        borderColor: currentTheme.colors.border.primary,
+                    }}
+                >
+                    {daylight.polar ? (
+                        <p className="text-center" style={{ color: currentTheme.colors.text.secondary }}>
+                            {daylight.polar === 'day' ? `☀️ ${t('forecastCard.polarDay')}` : `🌑 ${t('forecastCard.polarNight')}`}
+                        </p>
+                    ) : (
+                        daylight.sunrise && daylight.sunset && (
+                            <div className="flex justify-between items-center">
+                                <span style={{ color: currentTheme.colors.text.secondary }}>
+                                    🌅 {t('forecastCard.sunrise')} / {t('forecastCard.sunset')}
+                                </span>
+                                <span className="font-medium">
+                                    {formatTime(daylight.sunrise)} / {formatTime(daylight.sunset)}
+                                </span>
+                            </div>
+                        )
+                    )}
+                    {goldenHours && (
+                        <div className="flex justify-between items-start gap-2">
+                            <span style={{ color: currentTheme.colors.text.secondary }}>
+                                ✨ {t('forecastCard.goldenHour')}
+                            </span>
+                            <span className="font-medium text-right">{goldenHours}</span>
+                        </div>
+                    )}
+                    {blueHours && (
+                        <div className="flex justify-between items-start gap-2">
+                            <span style={{ color: currentTheme.colors.text.secondary }}>
+                                🔵 {t('forecastCard.blueHour')}
+                            </span>
+                            <span className="font-medium text-right">{blueHours}</span>
+                        </div>
+                    )}
+                </div>
+            )}
         </div>
     );
 };
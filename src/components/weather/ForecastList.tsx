@@ -1,23 +1,36 @@
 import React from 'react';
 import type { WeatherForecast } from '../../types';
+import type { HourlyRecommendation } from '../../services/recommendation.service';
 import { ForecastCard } from './ForecastCard';
+import { HourlyTimeline } from './HourlyTimeline';
 import { useTheme } from '../../contexts/ThemeContext';
+import { useUnits } from '../../contexts/UnitsContext';
+import { useTranslation } from '../../contexts/LanguageContext';
+import { getConfidenceLevel, getForecastConfidence } from '../../utils/forecast-confidence';
 
 interface ForecastListProps {
     forecast: WeatherForecast;
+    hourlyRecommendations?: HourlyRecommendation[];
     className?: string;
 }
 
 export const ForecastList: React.FC<ForecastListProps> = ({
     forecast,
+    hourlyRecommendations = [],
     className = '',
 }) => {
     const { currentTheme } = useTheme();
+    const { formatTemperature } = useUnits();
+    const { locale, t } = useTranslation();
     const today = new Date();
     today.setHours(0, 0, 0, 0);
+    const hasUncertainDays = forecast.forecasts.some(
+        (dailyForecast) =>
+            dailyForecast.isPartial || getConfidenceLevel(getForecastConfidence(dailyForecast)) !== 'high'
+    );
 
     const formatCacheTime = (date: Date) => {
-        return new Intl.DateTimeFormat('ja-JP', {
+        return new Intl.DateTimeFormat(locale, {
             month: 'short',
             day: 'numeric',
             hour: '2-digit',
@@ -48,7 +61,7 @@ export const ForecastList: React.FC<ForecastListProps> = ({
                                 color: currentTheme.colors.text.primary,
                             }}
                         >
-                            7日間の天気予報
+                            {t('forecastList.title')}
                         </h3>
                         <p
                             className="text-sm"
@@ -56,8 +69,18 @@ export const ForecastList: React.FC<ForecastListProps> = ({
                                 color: currentTheme.colors.text.secondary,
                             }}
                         >
-                            {forecast.forecasts.length}日間の詳細予報
+                            {t('forecastList.detail', { count: forecast.forecasts.length })}
                         </p>
+                        {hasUncertainDays && (
+                            <p
+                                className="text-xs mt-1"
+                                style={{
+                                    color: currentTheme.colors.text.tertiary,
+                                }}
+                            >
+                                {t('forecastList.confidenceNote')}
+                            </p>
+                        )}
                     </div>
                     <div className="text-right">
                         <p
@@ -66,7 +89,7 @@ export const ForecastList: React.FC<ForecastListProps> = ({
                                 color: currentTheme.colors.text.tertiary,
                             }}
                         >
-                            更新: {formatCacheTime(forecast.cachedAt)}
+                            {t('forecastList.updatedAt', { time: formatCacheTime(forecast.cachedAt) })}
                         </p>
                     </div>
                 </div>
@@ -83,14 +106,14 @@ export const ForecastList: React.FC<ForecastListProps> = ({
                                 color: currentTheme.colors.text.primary,
                             }}
                         >
-                            予報データがありません
+                            {t('forecastList.empty')}
                         </h3>
                         <p
                             style={{
                                 color: currentTheme.colors.text.secondary,
                             }}
                         >
-                            天気予報を取得できませんでした。
+                            {t('forecastList.emptyHint')}
                         </p>
                     </div>
                 ) : (
@@ -113,6 +136,29 @@ export const ForecastList: React.FC<ForecastListProps> = ({
                 )}
             </div>
 
+            {/* Hourly Timeline */}
+            {forecast.hourly && forecast.hourly.length > 0 && (
+                <div
+                    className="px-6 py-4 border-t"
+                    style={{
+                        borderColor: currentTheme.colors.border.primary,
+                    }}
+                >
+                    <h4
+                        className="text-sm font-medium mb-3"
+                        style={{
+                            color: currentTheme.colors.text.primary,
+                        }}
+                    >
+                        {t('forecastList.hourly')}
+                    </h4>
+                    <HourlyTimeline
+                        hourly={forecast.hourly}
+                        recommendations={hourlyRecommendations}
+                    />
+                </div>
+            )}
+
             {/* Summary Statistics */}
             {forecast.forecasts.length > 0 && (
                 <div
@@ -131,7 +177,7 @@ export const ForecastList: React.FC<ForecastListProps> = ({
                             color: currentTheme.colors.text.primary,
                         }}
                     >
-                        週間サマリー
+                        {t('forecastList.summary')}
                     </h4>
                     <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
                         <div>
@@ -140,15 +186,17 @@ export const ForecastList: React.FC<ForecastListProps> = ({
                                     color: currentTheme.colors.text.primary,
                                 }}
                             >
-                                最高気温
+                                {t('forecastList.highest')}
                             </p>
                             <p className="font-semibold text-red-600">
-                                {Math.max(
-                                    ...forecast.forecasts.map(
-                                        (f) => f.temperature.max
-                                    )
-                                ).toFixed(1)}
-                                °C
+                                {formatTemperature(
+                                    Math.max(
+                                        ...forecast.forecasts.map(
+                                            (f) => f.temperature.max
+                                        )
+                                    ),
+                                    1
+                                )}
                             </p>
                         </div>
                         <div>
@@ -157,15 +205,17 @@ export const ForecastList: React.FC<ForecastListProps> = ({
                                     color: currentTheme.colors.text.primary,
                                 }}
                             >
-                                最低気温
+                                {t('forecastList.lowest')}
                             </p>
                             <p className="font-semibold text-blue-600">
-                                {Math.min(
-                                    ...forecast.forecasts.map(
-                                        (f) => f.temperature.min
-                                    )
-                                ).toFixed(1)}
-                                °C
+                                {formatTemperature(
+                                    Math.min(
+                                        ...forecast.forecasts.map(
+                                            (f) => f.temperature.min
+                                        )
+                                    ),
+                                    1
+                                )}
                             </p>
                         </div>
                         <div>
@@ -174,7 +224,7 @@ export const ForecastList: React.FC<ForecastListProps> = ({
                                     color: currentTheme.colors.text.primary,
                                 }}
                             >
-                                平均湿度
+                                {t('forecastList.averageHumidity')}
                             </p>
                             <p className="font-semibold text-gray-700">
                                 {Math.round(
@@ -192,15 +242,14 @@ export const ForecastList: React.FC<ForecastListProps> = ({
                                     color: currentTheme.colors.text.primary,
                                 }}
                             >
-                                降水日数
+                                {t('forecastList.rainyDays')}
                             </p>
                             <p className="font-semibold text-blue-700">
-                                {
-                                    forecast.forecasts.filter(
+                                {t('forecastList.days', {
+                                    count: forecast.forecasts.filter(
                                         (f) => f.pop > 0.3
-                                    ).length
-                                }
-                                日
+                                    ).length,
+                                })}
                             </p>
                         </div>
                     </div>
@@ -0,0 +1,135 @@
+import React from 'react';
+import type { HourlyForecast } from '../../types';
+import type { HourlyRecommendation, RecommendedWindow } from '../../services/recommendation.service';
+import { weatherService } from '../../services/weather.service';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useUnits } from '../../contexts/UnitsContext';
+import { useTranslation } from '../../contexts/LanguageContext';
+
+interface HourlyTimelineProps {
+    hourly: HourlyForecast[];
+    recommendations?: HourlyRecommendation[];
+    maxSlots?: number;
+}
+
+export const HourlyTimeline: React.FC<HourlyTimelineProps> = ({
+    hourly,
+    recommendations = [],
+    maxSlots = 24,
+}) => {
+    const { currentTheme } = useTheme();
+    const { toDisplayTemperature } = useUnits();
+    const { locale, t } = useTranslation();
+    const now = Date.now();
+
+    // 現在以降の予報のみ表示（過去分しかない場合は先頭から）
+    const upcoming = hourly.filter((slot) => slot.datetime.getTime() >= now);
+    const slots = (upcoming.length > 0 ? upcoming : hourly).slice(0, maxSlots);
+
+    const formatHour = (date: Date) => {
+        return new Intl.DateTimeFormat(locale, {
+            hour: '2-digit',
+            minute: '2-digit',
+        }).format(date);
+    };
+
+    const formatWindow = (window: RecommendedWindow) => {
+        const weekday = new Intl.DateTimeFormat(locale, {
+            weekday: 'short',
+        }).format(window.start);
+        return `${weekday} ${formatHour(window.start)}–${formatHour(window.end)}`;
+    };
+
+    const getScoreColor = (score: number): string => {
+        if (score >= 80) return 'bg-green-100 text-green-800';
+        if (score >= 60) return 'bg-yellow-100 text-yellow-800';
+        return 'bg-gray-100 text-gray-800';
+    };
+
+    if (slots.length === 0) {
+        return null;
+    }
+
+    return (
+        <div className="space-y-4">
+            {/* Hourly Strip */}
+            <div className="flex overflow-x-auto space-x-3 pb-2">
+                {slots.map((slot) => (
+                    <div
+                        key={slot.datetime.getTime()}
+                        className="flex-shrink-0 w-16 text-center rounded-md border py-2"
+                        style={{
+                            borderColor: currentTheme.colors.border.primary,
+                        }}
+                    >
+                        <p
+                            className="text-xs"
+                            style={{
+                                color: currentTheme.colors.text.secondary,
+                            }}
+                        >
+                            {formatHour(slot.datetime)}
+                        </p>
+                        <div className="text-xl my-1">
+                            {weatherService.getWeatherIcon(slot.weatherType)}
+                        </div>
+                        <p
+                            className="text-sm font-semibold"
+                            style={{
+                                color: currentTheme.colors.text.primary,
+                            }}
+                        >
+                            {Math.round(toDisplayTemperature(slot.temperature))}°
+                        </p>
+                        {slot.pop > 0 && (
+                            <p className="text-xs text-blue-600">
+                                {Math.round(slot.pop * 100)}%
+                            </p>
+                        )}
+                    </div>
+                ))}
+            </div>
+
+            {/* Recommended Windows */}
+            {recommendations.length > 0 && (
+                <div className="space-y-2">
+                    <h4
+                        className="text-sm font-medium"
+                        style={{
+                            color: currentTheme.colors.text.primary,
+                        }}
+                    >
+                        {t('hourlyTimeline.recommendedWindows')}
+                    </h4>
+                    {recommendations.map((recommendation) => (
+                        <div
+                            key={recommendation.hobby.id ?? recommendation.hobby.name}
+                            className="flex flex-wrap items-center gap-2 text-sm"
+                        >
+                            <span
+                                className="font-medium mr-1"
+                                style={{
+                                    color: currentTheme.colors.text.primary,
+                                }}
+                            >
+                                {recommendation.hobby.name}
+                            </span>
+                            {recommendation.windows.map((window) => (
+                                <span
+                                    key={window.start.getTime()}
+                                    className={`px-2 py-1 rounded-full text-xs ${getScoreColor(window.score)}`}
+                                    title={[
+                                        ...window.matchingFactors,
+                                        ...window.warningFactors,
+                                    ].join(' / ')}
+                                >
+                                    {formatWindow(window)} {t('common.points', { score: Math.round(window.score) })}
+                                </span>
+                            ))}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
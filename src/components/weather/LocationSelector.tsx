@@ -1,8 +1,11 @@
 import React, { useState, useEffect } from 'react';
-import type { Location, LocationSearchResult, LocationType } from '../../types';
+import type { Location, LocationSearchResult, LocationType, WeatherProviderType } from '../../types';
 import { weatherService } from '../../services/weather.service';
+import { DEFAULT_WEATHER_PROVIDER, WEATHER_PROVIDER_OPTIONS } from '../../services/weather-providers';
 import { databaseService } from '../../services/database.service';
 import { useTheme } from '../../contexts/ThemeContext';
+import { useTranslation } from '../../contexts/LanguageContext';
+import type { MessageKey } from '../../types/i18n';
 
 interface LocationSelectorProps {
   currentLocation: Location | null;
@@ -18,6 +21,7 @@ export const LocationSelector: React.FC<LocationSelectorProps> = ({
   isLoading = false
 }) => {
   const { currentTheme } = useTheme();
+  const { t } = useTranslation();
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<LocationSearchResult[]>([]);
   const [savedLocations, setSavedLocations] = useState<Location[]>([]);
@@ -49,10 +53,10 @@ export const LocationSelector: React.FC<LocationSelectorProps> = ({
       setSearchResults(results);
 
       if (results.length === 0) {
-        setSearchError('該当する場所が見つかりませんでした');
+        setSearchError(t('locationSelector.noResults'));
       }
     } catch (error) {
-      setSearchError(error instanceof Error ? error.message : '検索に失敗しました');
+      setSearchError(error instanceof Error ? error.message : t('locationSelector.searchFailed'));
       setSearchResults([]);
     } finally {
       setIsSearching(false);
@@ -93,7 +97,7 @@ export const LocationSelector: React.FC<LocationSelectorProps> = ({
       setSearchResults([]);
       setIsExpanded(false);
     } catch (error) {
-      setSearchError(error instanceof Error ? error.message : '場所の保存に失敗しました');
+      setSearchError(error instanceof Error ? error.message : t('locationSelector.saveFailed'));
     }
   };
 
@@ -104,10 +108,39 @@ export const LocationSelector: React.FC<LocationSelectorProps> = ({
         onLocationSelect({ ...location, isDefault: true });
         setIsExpanded(false);
       } else {
-        setSearchError('場所IDが見つかりません');
+        setSearchError(t('locationSelector.missingId'));
       }
     } catch (error) {
-      setSearchError(error instanceof Error ? error.message : '場所の選択に失敗しました');
+      setSearchError(error instanceof Error ? error.message : t('locationSelector.selectFailed'));
+    }
+  };
+
+  // 現在の場所の天気データ取得元を変更
+  const handleProviderChange = async (weatherProvider: WeatherProviderType) => {
+    if (!currentLocation?.id) return;
+
+    try {
+      await databaseService.updateLocation(currentLocation.id, { weatherProvider });
+      onLocationSelect({ ...currentLocation, weatherProvider });
+      await loadSavedLocations();
+    } catch (error) {
+      setSearchError(error instanceof Error ? error.message : t('locationSelector.providerChangeFailed'));
+    }
+  };
+
+  // 通知の対象にするかを切り替え（未指定の場合はデフォルトの場所のみ対象）
+  const handleAlertsToggle = async (location: Location) => {
+    if (!location.id) return;
+
+    try {
+      const alertsEnabled = !(location.alertsEnabled ?? location.isDefault);
+      await databaseService.updateLocation(location.id, { alertsEnabled });
+      if (currentLocation?.id === location.id) {
+        onLocationSelect({ ...currentLocation, alertsEnabled });
+      }
+      await loadSavedLocations();
+    } catch (error) {
+      setSearchError(error instanceof Error ? error.message : t('locationSelector.alertsChangeFailed'));
     }
   };
 
@@ -130,13 +163,13 @@ export const LocationSelector: React.FC<LocationSelectorProps> = ({
 
   // 場所タイプのラベルを取得
   const getLocationTypeLabel = (type: LocationType): string => {
-    const labels: Record<LocationType, string> = {
-      city: '都市',
-      business: '店舗',
-      landmark: 'ランドマーク',
-      address: '住所'
+    const labels: Record<LocationType, MessageKey> = {
+      city: 'locationSelector.type.city',
+      business: 'locationSelector.type.business',
+      landmark: 'locationSelector.type.landmark',
+      address: 'locationSelector.type.address'
     };
-    return labels[type] ?? '場所';
+    return t(labels[type] ?? 'locationSelector.type.default');
   };
 
 
@@ -150,7 +183,7 @@ export const LocationSelector: React.FC<LocationSelectorProps> = ({
         <div className="flex-1">
           <h3 className="text-lg font-semibold mb-1" style={{
             color: currentTheme.colors.text.primary
-          }}>現在の場所</h3>
+          }}>{t('locationSelector.current')}</h3>
           {currentLocation ? (
             <div className="flex items-center space-x-2">
               <span className="text-blue-600">📍</span>
@@ -162,14 +195,36 @@ export const LocationSelector: React.FC<LocationSelectorProps> = ({
                   backgroundColor: currentTheme.mode === 'dark' ? 'rgba(59, 130, 246, 0.2)' : 'rgb(219, 234, 254)',
                   color: currentTheme.mode === 'dark' ? 'rgb(147, 197, 253)' : 'rgb(30, 64, 175)'
                 }}>
-                  デフォルト
+                  {t('locationSelector.default')}
                 </span>
               )}
             </div>
           ) : (
             <p style={{
               color: currentTheme.colors.text.tertiary
-            }}>場所が設定されていません</p>
+            }}>{t('locationSelector.notSet')}</p>
+          )}
+          {currentLocation?.id && (
+            <div className="flex items-center space-x-2 mt-2">
+              <label htmlFor="weather-provider" className="text-xs" style={{
+                color: currentTheme.colors.text.tertiary
+              }}>
+                {t('locationSelector.weatherSource')}
+              </label>
+              <select
+                id="weather-provider"
+                value={currentLocation.weatherProvider ?? DEFAULT_WEATHER_PROVIDER}
+                onChange={(e) => handleProviderChange(e.target.value as WeatherProviderType)}
+                disabled={isLoading}
+                className="rounded border-gray-300 text-xs"
+              >
+                {WEATHER_PROVIDER_OPTIONS.map(option => (
+                  <option key={option.type} value={option.type}>
+                    {t('locationSelector.providerOption', { label: t(option.labelKey), description: t(option.descriptionKey) })}
+                  </option>
+                ))}
+              </select>
+            </div>
           )}
         </div>
 
@@ -178,16 +233,16 @@ export const LocationSelector: React.FC<LocationSelectorProps> = ({
             onClick={onCurrentLocationRequest}
             disabled={isLoading}
             className="bg-green-600 text-white px-3 py-2 rounded-md text-sm hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-            title="現在地を取得"
+            title={t('locationSelector.getCurrent')}
           >
-            {isLoading ? '取得中...' : '📍 現在地'}
+            {isLoading ? t('locationSelector.locating') : t('locationSelector.currentButton')}
           </button>
 
           <button
             onClick={() => setIsExpanded(!isExpanded)}
             className="bg-blue-600 text-white px-3 py-2 rounded-md text-sm hover:bg-blue-700 transition-colors"
           >
-            {isExpanded ? '閉じる' : '場所を変更'}
+            {isExpanded ? t('common.close') : t('locationSelector.change')}
           </button>
         </div>
       </div>
@@ -198,7 +253,7 @@ export const LocationSelector: React.FC<LocationSelectorProps> = ({
           {/* 検索 */}
           <div className="mb-4">
             <label htmlFor="location-search" className="block text-sm font-medium text-gray-700 mb-2">
-              場所を検索
+              {t('locationSelector.search')}
             </label>
             <div className="flex space-x-2">
               <input
@@ -207,7 +262,7 @@ export const LocationSelector: React.FC<LocationSelectorProps> = ({
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
                 onKeyPress={handleKeyPress}
-                placeholder="場所を検索（都市名、店舗名、ランドマークなど）"
+                placeholder={t('locationSelector.searchPlaceholder')}
                 className="flex-1 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
               />
               <button
@@ -215,7 +270,7 @@ export const LocationSelector: React.FC<LocationSelectorProps> = ({
                 disabled={isSearching || !searchQuery.trim()}
                 className="bg-blue-600 text-white px-4 py-2 rounded-md text-sm hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                {isSearching ? '検索中...' : '検索'}
+                {isSearching ? t('locationSelector.searching') : t('locationSelector.searchButton')}
               </button>
             </div>
           </div>
@@ -234,7 +289,7 @@ export const LocationSelector: React.FC<LocationSelectorProps> = ({
           {/* 検索結果 */}
           {searchResults.length > 0 && (
             <div className="mb-4">
-              <h4 className="text-sm font-medium text-gray-700 mb-2">検索結果</h4>
+              <h4 className="text-sm font-medium text-gray-700 mb-2">{t('locationSelector.results')}</h4>
               <div className="space-y-2 max-h-48 overflow-y-auto">
                 {searchResults.map((result, index) => (
                   <button
@@ -294,76 +349,94 @@ export const LocationSelector: React.FC<LocationSelectorProps> = ({
           {/* 保存済みの場所 */}
           {savedLocations.length > 0 && (
             <div>
-              <h4 className="text-sm font-medium text-gray-700 mb-2">保存済みの場所</h4>
+              <h4 className="text-sm font-medium text-gray-700 mb-2">{t('locationSelector.saved')}</h4>
               <div className="space-y-2 max-h-48 overflow-y-auto">
-                {savedLocations.map((location) => (
-                  <button
-                    key={location.id}
-                    onClick={() => handleSavedLocationSelect(location)}
-                    className="w-full text-left p-3 border rounded-md transition-colors"
-                    style={{
-                      backgroundColor: currentLocation?.id === location.id
-                        ? (currentTheme.mode === 'dark' ? 'rgba(59, 130, 246, 0.2)' : 'rgb(239, 246, 255)')
-                        : currentTheme.colors.background.primary,
-                      borderColor: currentLocation?.id === location.id
-                        ? (currentTheme.mode === 'dark' ? 'rgba(59, 130, 246, 0.5)' : 'rgb(147, 197, 253)')
-                        : currentTheme.colors.border.primary,
-                      color: currentTheme.colors.text.primary
-                    }}
-                    onMouseEnter={(e) => {
-                      if (currentLocation?.id !== location.id) {
-                        e.currentTarget.style.backgroundColor = currentTheme.mode === 'dark' ? 'rgba(107, 114, 128, 0.1)' : 'rgb(249, 250, 251)';
-                        e.currentTarget.style.borderColor = currentTheme.mode === 'dark' ? 'rgba(107, 114, 128, 0.5)' : 'rgb(209, 213, 219)';
-                      }
-                    }}
-                    onMouseLeave={(e) => {
-                      if (currentLocation?.id !== location.id) {
-                        e.currentTarget.style.backgroundColor = currentTheme.colors.background.primary;
-                        e.currentTarget.style.borderColor = currentTheme.colors.border.primary;
-                      }
-                    }}
-                  >
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-start space-x-3">
-                        <span className="text-lg flex-shrink-0 mt-0.5">
-                          {location.type ? getLocationTypeIcon(location.type) : '📍'}
-                        </span>
-                        <div className="flex-1 min-w-0">
-                          <div className="flex items-center space-x-2">
-                            <p className="font-medium truncate" style={{
-                              color: currentTheme.colors.text.primary
-                            }}>{location.name}</p>
-                            {location.type && (
-                              <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs" style={{
-                                backgroundColor: currentTheme.mode === 'dark' ? 'rgba(107, 114, 128, 0.3)' : 'rgb(243, 244, 246)',
-                                color: currentTheme.mode === 'dark' ? 'rgb(156, 163, 175)' : 'rgb(75, 85, 99)'
-                              }}>
-                                {getLocationTypeLabel(location.type)}
-                              </span>
-                            )}
+                {savedLocations.map((location) => {
+                  const alertsEnabled = location.alertsEnabled ?? location.isDefault;
+                  return (
+                    <div key={location.id} className="flex items-stretch space-x-2">
+                      <button
+                        onClick={() => handleSavedLocationSelect(location)}
+                        className="flex-1 min-w-0 text-left p-3 border rounded-md transition-colors"
+                        style={{
+                          backgroundColor: currentLocation?.id === location.id
+                            ? (currentTheme.mode === 'dark' ? 'rgba(59, 130, 246, 0.2)' : 'rgb(239, 246, 255)')
+                            : currentTheme.colors.background.primary,
+                          borderColor: currentLocation?.id === location.id
+                            ? (currentTheme.mode === 'dark' ? 'rgba(59, 130, 246, 0.5)' : 'rgb(147, 197, 253)')
+                            : currentTheme.colors.border.primary,
+                          color: currentTheme.colors.text.primary
+                        }}
+                        onMouseEnter={(e) => {
+                          if (currentLocation?.id !== location.id) {
+                            e.currentTarget.style.backgroundColor = currentTheme.mode === 'dark' ? 'rgba(107, 114, 128, 0.1)' : 'rgb(249, 250, 251)';
+                            e.currentTarget.style.borderColor = currentTheme.mode === 'dark' ? 'rgba(107, 114, 128, 0.5)' : 'rgb(209, 213, 219)';
+                          }
+                        }}
+                        onMouseLeave={(e) => {
+                          if (currentLocation?.id !== location.id) {
+                            e.currentTarget.style.backgroundColor = currentTheme.colors.background.primary;
+                            e.currentTarget.style.borderColor = currentTheme.colors.border.primary;
+                          }
+                        }}
+                      >
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-start space-x-3">
+                            <span className="text-lg flex-shrink-0 mt-0.5">
+                              {location.type ? getLocationTypeIcon(location.type) : '📍'}
+                            </span>
+                            <div className="flex-1 min-w-0">
+                              <div className="flex items-center space-x-2">
+                                <p className="font-medium truncate" style={{
+                                  color: currentTheme.colors.text.primary
+                                }}>{location.name}</p>
+                                {location.type && (
+                                  <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs" style={{
+                                    backgroundColor: currentTheme.mode === 'dark' ? 'rgba(107, 114, 128, 0.3)' : 'rgb(243, 244, 246)',
+                                    color: currentTheme.mode === 'dark' ? 'rgb(156, 163, 175)' : 'rgb(75, 85, 99)'
+                                  }}>
+                                    {getLocationTypeLabel(location.type)}
+                                  </span>
+                                )}
+                              </div>
+
+                              {location.category && (
+                                <p className="text-xs text-blue-600 mt-1">{location.category}</p>
+                              )}
+
+                              {location.address && (
+                                <p className="text-xs text-gray-500 mt-1 truncate">{location.address}</p>
+                              )}
+
+                              <p className="text-xs text-gray-500 mt-1">
+                                ({location.lat.toFixed(4)}, {location.lon.toFixed(4)})
+                              </p>
+                            </div>
                           </div>
-
-                          {location.category && (
-                            <p className="text-xs text-blue-600 mt-1">{location.category}</p>
-                          )}
-
-                          {location.address && (
-                            <p className="text-xs text-gray-500 mt-1 truncate">{location.address}</p>
+                          {location.isDefault && (
+                            <span className="bg-blue-100 text-blue-800 text-xs px-2 py-1 rounded-full">
+                              {t('locationSelector.default')}
+                            </span>
                           )}
-
-                          <p className="text-xs text-gray-500 mt-1">
-                            ({location.lat.toFixed(4)}, {location.lon.toFixed(4)})
-                          </p>
                         </div>
-                      </div>
-                      {location.isDefault && (
-                        <span className="bg-blue-100 text-blue-800 text-xs px-2 py-1 rounded-full">
-                          デフォルト
-                        </span>
-                      )}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleAlertsToggle(location)}
+                        aria-pressed={alertsEnabled}
+                        title={alertsEnabled ? t('locationSelector.disableAlerts') : t('locationSelector.enableAlerts')}
+                        className="px-3 border rounded-md text-lg transition-opacity hover:opacity-80"
+                        style={{
+                          backgroundColor: currentTheme.colors.background.primary,
+                          borderColor: currentTheme.colors.border.primary,
+                          opacity: alertsEnabled ? 1 : 0.5
+                        }}
+                      >
+                        {alertsEnabled ? '🔔' : '🔕'}
+                      </button>
                     </div>
-                  </button>
-                ))}
+                  );
+                })}
               </div>
             </div>
           )}
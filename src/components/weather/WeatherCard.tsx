@@ -2,6 +2,9 @@ import React from 'react';
 import type { WeatherData } from '../../types';
 import { weatherService } from '../../services/weather.service';
 import { useTheme } from '../../contexts/ThemeContext';
+import { useUnits } from '../../contexts/UnitsContext';
+import { useTranslation } from '../../contexts/LanguageContext';
+import type { MessageKey } from '../../types/i18n';
 
 interface WeatherCardProps {
     weather: WeatherData;
@@ -13,15 +16,17 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
     className = '',
 }) => {
     const { currentTheme } = useTheme();
+    const { toDisplayTemperature, temperatureSymbol, formatTemperature, formatWindSpeed } = useUnits();
+    const { locale, t } = useTranslation();
     const formatTime = (date: Date) => {
-        return new Intl.DateTimeFormat('ja-JP', {
+        return new Intl.DateTimeFormat(locale, {
             hour: '2-digit',
             minute: '2-digit',
         }).format(date);
     };
 
     const formatDate = (date: Date) => {
-        return new Intl.DateTimeFormat('ja-JP', {
+        return new Intl.DateTimeFormat(locale, {
             month: 'short',
             day: 'numeric',
             weekday: 'short',
@@ -29,27 +34,27 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
     };
 
     const getWindDirection = (degrees: number): string => {
-        const directions = [
-            '北',
-            '北東',
-            '東',
-            '南東',
-            '南',
-            '南西',
-            '西',
-            '北西',
+        const directions: MessageKey[] = [
+            'weatherCard.direction.n',
+            'weatherCard.direction.ne',
+            'weatherCard.direction.e',
+            'weatherCard.direction.se',
+            'weatherCard.direction.s',
+            'weatherCard.direction.sw',
+            'weatherCard.direction.w',
+            'weatherCard.direction.nw',
         ];
         const index = Math.round(degrees / 45) % 8;
-        return directions[index] ?? '不明';
+        return t(directions[index] ?? 'weather.unknown');
     };
 
     const getUVLevel = (uvIndex: number): { level: string; color: string } => {
-        if (uvIndex <= 2) return { level: '弱い', color: 'text-green-600' };
-        if (uvIndex <= 5) return { level: '中程度', color: 'text-yellow-600' };
-        if (uvIndex <= 7) return { level: '強い', color: 'text-orange-600' };
+        if (uvIndex <= 2) return { level: t('weatherCard.uv.low'), color: 'text-green-600' };
+        if (uvIndex <= 5) return { level: t('weatherCard.uv.moderate'), color: 'text-yellow-600' };
+        if (uvIndex <= 7) return { level: t('weatherCard.uv.high'), color: 'text-orange-600' };
         if (uvIndex <= 10)
-            return { level: '非常に強い', color: 'text-red-600' };
-        return { level: '極端', color: 'text-purple-600' };
+            return { level: t('weatherCard.uv.veryHigh'), color: 'text-red-600' };
+        return { level: t('weatherCard.uv.extreme'), color: 'text-purple-600' };
     };
 
     const uvInfo = getUVLevel(weather.uvIndex);
@@ -69,7 +74,7 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
                         className="text-lg font-semibold"
                         style={{ color: currentTheme.colors.text.primary }}
                     >
-                        現在の天気
+                        {t('weatherCard.title')}
                     </h3>
                     <p
                         className="text-sm"
@@ -99,20 +104,20 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
                         className="text-4xl font-bold"
                         style={{ color: currentTheme.colors.text.primary }}
                     >
-                        {Math.round(weather.temperature)}
+                        {Math.round(toDisplayTemperature(weather.temperature))}
                     </span>
                     <span
                         className="text-xl ml-1"
                         style={{ color: currentTheme.colors.text.tertiary }}
                     >
-                        °C
+                        {temperatureSymbol}
                     </span>
                 </div>
                 <p
                     className="text-sm mt-1"
                     style={{ color: currentTheme.colors.text.secondary }}
                 >
-                    体感温度 {Math.round(weather.feelsLike)}°C
+                    {t('weatherCard.feelsLike', { value: formatTemperature(weather.feelsLike) })}
                 </p>
             </div>
 
@@ -136,7 +141,7 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
                                     color: currentTheme.colors.text.primary,
                                 }}
                             >
-                                湿度
+                                {t('weatherCard.humidity')}
                             </p>
                             <p className="text-lg font-semibold text-blue-700">
                                 {weather.humidity}%
@@ -163,7 +168,7 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
                                     color: currentTheme.colors.text.primary,
                                 }}
                             >
-                                風速
+                                {t('weatherCard.windSpeed')}
                             </p>
                             <p
                                 className="text-lg font-semibold"
@@ -171,7 +176,7 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
                                     color: currentTheme.colors.text.secondary,
                                 }}
                             >
-                                {weather.windSpeed.toFixed(1)} m/s
+                                {formatWindSpeed(weather.windSpeed)}
                             </p>
                             <p
                                 className="text-xs"
@@ -203,7 +208,7 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
                                     color: currentTheme.colors.text.primary,
                                 }}
                             >
-                                気圧
+                                {t('weatherCard.pressure')}
                             </p>
                             <p className="text-lg font-semibold text-indigo-700">
                                 {weather.pressure} hPa
@@ -230,7 +235,7 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
                                     color: currentTheme.colors.text.primary,
                                 }}
                             >
-                                視界
+                                {t('weatherCard.visibility')}
                             </p>
                             <p className="text-lg font-semibold text-purple-700">
                                 {(weather.visibility / 1000).toFixed(1)} km
@@ -257,7 +262,7 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
                                     color: currentTheme.colors.text.primary,
                                 }}
                             >
-                                雲量
+                                {t('weatherCard.cloudiness')}
                             </p>
                             <p className="text-lg font-semibold text-yellow-700">
                                 {weather.cloudiness}%
@@ -285,7 +290,7 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
                                         color: currentTheme.colors.text.primary,
                                     }}
                                 >
-                                    UV指数
+                                    {t('weatherCard.uvIndex')}
                                 </p>
                                 <p className="text-lg font-semibold text-orange-700">
                                     {weather.uvIndex}
@@ -299,6 +304,35 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
                         </div>
                     </div>
                 )}
+
+                {weather.sunrise && weather.sunset && (
+                    <div
+                        className="rounded-lg p-3"
+                        style={{
+                            backgroundColor:
+                                currentTheme.mode === 'dark'
+                                    ? 'rgba(234, 179, 8, 0.1)'
+                                    : 'rgb(254, 249, 195)',
+                        }}
+                    >
+                        <div className="flex items-center space-x-2">
+                            <span className="text-yellow-600">🌅</span>
+                            <div>
+                                <p
+                                    className="text-sm font-medium"
+                                    style={{
+                                        color: currentTheme.colors.text.primary,
+                                    }}
+                                >
+                                    {t('weatherCard.sunriseSunset')}
+                                </p>
+                                <p className="text-lg font-semibold text-yellow-700">
+                                    {formatTime(weather.sunrise)} / {formatTime(weather.sunset)}
+                                </p>
+                            </div>
+                        </div>
+                    </div>
+                )}
             </div>
 
             {/* Cache Info */}
@@ -310,7 +344,7 @@ export const WeatherCard: React.FC<WeatherCardProps> = ({
                     className="text-xs text-center"
                     style={{ color: currentTheme.colors.text.tertiary }}
                 >
-                    データ取得時刻: {formatTime(weather.cachedAt)}
+                    {t('weatherCard.fetchedAt', { time: formatTime(weather.cachedAt) })}
                 </p>
             </div>
         </div>
@@ -1,12 +1,19 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { useWeather } from '../../hooks/useWeather';
+import { useHobby } from '../../hooks/useHobby';
+import { recommendationService, type HourlyRecommendation } from '../../services/recommendation.service';
 import { useTheme } from '../../contexts/ThemeContext';
+import { useUnits } from '../../contexts/UnitsContext';
+import { useTranslation } from '../../contexts/LanguageContext';
 import { WeatherCard } from './WeatherCard';
 import { ForecastList } from './ForecastList';
 import { LocationSelector } from './LocationSelector';
+import { ClimatologyChart } from './ClimatologyChart';
 
 export const WeatherDisplay: React.FC = () => {
     const { currentTheme } = useTheme();
+    const { formatTemperature } = useUnits();
+    const { t } = useTranslation();
     const {
         currentWeather,
         forecast,
@@ -20,16 +27,40 @@ export const WeatherDisplay: React.FC = () => {
         setLocation,
         clearError,
     } = useWeather();
+    const { activeHobbies } = useHobby();
+    const [hourlyRecommendations, setHourlyRecommendations] = useState<HourlyRecommendation[]>([]);
+
+    // 時間単位の予報がある場合は趣味ごとのおすすめ時間帯を算出
+    useEffect(() => {
+        if (!forecast?.hourly || activeHobbies.length === 0) {
+            setHourlyRecommendations([]);
+            return;
+        }
+
+        let cancelled = false;
+        recommendationService
+            .generateHourlyRecommendations(activeHobbies, forecast)
+            .then((recommendations) => {
+                if (!cancelled) setHourlyRecommendations(recommendations);
+            })
+            .catch((err) => {
+                console.error('Failed to generate hourly recommendations:', err);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [forecast, activeHobbies]);
 
     return (
         <div className="max-w-6xl mx-auto p-6 space-y-6">
             {/* Header */}
             <div className="text-center">
                 <h1 className="text-3xl font-bold text-text-primary mb-2">
-                    天気予報
+                    {t('weatherDisplay.title')}
                 </h1>
                 <p className="text-text-secondary">
-                    現在の天気と7日間の予報をチェック
+                    {t('weatherDisplay.description')}
                 </p>
             </div>
 
@@ -46,7 +77,7 @@ export const WeatherDisplay: React.FC = () => {
                         </div>
                         <div className="ml-3 flex-1">
                             <h3 className="text-sm font-medium text-red-800">
-                                エラーが発生しました
+                                {t('common.errorOccurred')}
                             </h3>
                             <div className="mt-1 text-sm text-red-700">
                                 {error || locationError}
@@ -56,7 +87,7 @@ export const WeatherDisplay: React.FC = () => {
                                     onClick={clearError}
                                     className="text-sm underline text-red-700 hover:text-red-600"
                                 >
-                                    エラーを閉じる
+                                    {t('common.dismissError')}
                                 </button>
                             </div>
                         </div>
@@ -80,7 +111,7 @@ export const WeatherDisplay: React.FC = () => {
                         <div className="text-center py-8">
                             <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
                             <p className="mt-2 text-gray-600">
-                                天気データを取得中...
+                                {t('weatherDisplay.loading')}
                             </p>
                         </div>
                     )}
@@ -97,7 +128,7 @@ export const WeatherDisplay: React.FC = () => {
                                 >
                                     <span>🔄</span>
                                     <span>
-                                        {isLoading ? '更新中...' : '天気を更新'}
+                                        {isLoading ? t('weatherDisplay.refreshing') : t('weatherDisplay.refresh')}
                                     </span>
                                 </button>
                             </div>
@@ -108,7 +139,19 @@ export const WeatherDisplay: React.FC = () => {
                             )}
 
                             {/* Forecast */}
-                            {forecast && <ForecastList forecast={forecast} />}
+                            {forecast && (
+                                <ForecastList
+                                    forecast={forecast}
+                                    hourlyRecommendations={hourlyRecommendations}
+                                />
+                            )}
+
+                            {/* Typical Weather by Month */}
+                            <ClimatologyChart
+                                location={location}
+                                hobbies={activeHobbies}
+                                {...(forecast && { updatedAt: forecast.generatedAt })}
+                            />
 
                             {/* No Data Message */}
                             {!currentWeather && !forecast && !isLoading && (
@@ -117,16 +160,16 @@ export const WeatherDisplay: React.FC = () => {
                                         🌤️
                                     </div>
                                     <h3 className="text-lg font-medium text-gray-900 mb-2">
-                                        天気データがありません
+                                        {t('weatherDisplay.empty')}
                                     </h3>
                                     <p className="text-gray-600 mb-4">
-                                        天気データを取得できませんでした。再度お試しください。
+                                        {t('weatherDisplay.emptyHint')}
                                     </p>
                                     <button
                                         onClick={refreshWeather}
                                         className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors"
                                     >
-                                        再試行
+                                        {t('weatherDisplay.retry')}
                                     </button>
                                 </div>
                             )}
@@ -138,17 +181,17 @@ export const WeatherDisplay: React.FC = () => {
                 <div className="text-center py-12">
                     <div className="text-gray-400 text-6xl mb-4">📍</div>
                     <h3 className="text-lg font-medium text-gray-900 mb-2">
-                        場所を選択してください
+                        {t('weatherDisplay.selectLocation')}
                     </h3>
                     <p className="text-gray-600 mb-4">
-                        天気予報を表示するには、まず場所を選択または現在地を取得してください。
+                        {t('weatherDisplay.selectLocationHint')}
                     </p>
                     <button
                         onClick={getCurrentLocation}
                         disabled={isLocationLoading}
                         className="bg-green-600 text-white px-4 py-2 rounded-md hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                     >
-                        {isLocationLoading ? '取得中...' : '現在地を取得'}
+                        {isLocationLoading ? t('locationSelector.locating') : t('locationSelector.getCurrent')}
                     </button>
                 </div>
             )}
@@ -162,49 +205,51 @@ export const WeatherDisplay: React.FC = () => {
                     <h3 className="text-lg font-semibold mb-4" style={{
                         color: currentTheme.colors.text.primary
                     }}>
-                        統計情報
+                        {t('weatherDisplay.stats')}
                     </h3>
                     <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-4 gap-4">
                         <div className="text-center">
                             <div className="text-2xl font-bold text-blue-600">
-                                {Math.round(currentWeather.temperature)}°C
+                                {formatTemperature(currentWeather.temperature)}
                             </div>
                             <div className="text-sm" style={{
                                 color: currentTheme.colors.text.secondary
                             }}>
-                                現在気温
+                                {t('weatherDisplay.currentTemperature')}
                             </div>
                         </div>
 
                         <div className="text-center">
                             <div className="text-2xl font-bold text-red-600">
-                                {Math.max(
-                                    ...forecast.forecasts.map(
-                                        (f) => f.temperature.max
+                                {formatTemperature(
+                                    Math.max(
+                                        ...forecast.forecasts.map(
+                                            (f) => f.temperature.max
+                                        )
                                     )
-                                ).toFixed(0)}
-                                °C
+                                )}
                             </div>
                             <div className="text-sm" style={{
                                 color: currentTheme.colors.text.secondary
                             }}>
-                                週間最高
+                                {t('weatherDisplay.weeklyHigh')}
                             </div>
                         </div>
 
                         <div className="text-center">
                             <div className="text-2xl font-bold text-blue-600">
-                                {Math.min(
-                                    ...forecast.forecasts.map(
-                                        (f) => f.temperature.min
+                                {formatTemperature(
+                                    Math.min(
+                                        ...forecast.forecasts.map(
+                                            (f) => f.temperature.min
+                                        )
                                     )
-                                ).toFixed(0)}
-                                °C
+                                )}
                             </div>
                             <div className="text-sm" style={{
                                 color: currentTheme.colors.text.secondary
                             }}>
-                                週間最低
+                                {t('weatherDisplay.weeklyLow')}
                             </div>
                         </div>
 
@@ -219,7 +264,7 @@ export const WeatherDisplay: React.FC = () => {
                             <div className="text-sm" style={{
                                 color: currentTheme.colors.text.secondary
                             }}>
-                                晴れ予想日
+                                {t('weatherDisplay.clearDays')}
                             </div>
                         </div>
                     </div>
@@ -0,0 +1,1254 @@
+import type { Message } from '../../types/i18n';
+import type { MessageKey } from './ja';
+
+// 英語のメッセージカタログ
+export const en: Record<MessageKey, Message> = {
+  // 天気の種類
+  'weather.type.clear': 'Clear',
+  'weather.type.clouds': 'Clouds',
+  'weather.type.rain': 'Rain',
+  'weather.type.drizzle': 'Drizzle',
+  'weather.type.thunderstorm': 'Thunderstorm',
+  'weather.type.snow': 'Snow',
+  'weather.type.mist': 'Mist',
+  'weather.type.fog': 'Fog',
+  'weather.type.haze': 'Haze',
+  'weather.type.dust': 'Dust',
+
+  // 降水などの強さ
+  'weather.intensity.light': 'Light',
+  'weather.intensity.moderate': 'Moderate',
+  'weather.intensity.heavy': 'Heavy',
+  'weather.intensityLimit': '{weather} (up to {intensity})',
+  'weather.unknown': 'Unknown',
+
+  // WMO天気コード（Open-Meteo）
+  'weather.wmo.0': 'Clear sky',
+  'weather.wmo.1': 'Mainly clear',
+  'weather.wmo.2': 'Partly cloudy',
+  'weather.wmo.3': 'Overcast',
+  'weather.wmo.45': 'Fog',
+  'weather.wmo.48': 'Depositing rime fog',
+  'weather.wmo.51': 'Light drizzle',
+  'weather.wmo.53': 'Drizzle',
+  'weather.wmo.55': 'Dense drizzle',
+  'weather.wmo.56': 'Freezing drizzle',
+  'weather.wmo.57': 'Dense freezing drizzle',
+  'weather.wmo.61': 'Slight rain',
+  'weather.wmo.63': 'Rain',
+  'weather.wmo.65': 'Heavy rain',
+  'weather.wmo.66': 'Freezing rain',
+  'weather.wmo.67': 'Heavy freezing rain',
+  'weather.wmo.71': 'Slight snow',
+  'weather.wmo.73': 'Snow',
+  'weather.wmo.75': 'Heavy snow',
+  'weather.wmo.77': 'Snow grains',
+  'weather.wmo.80': 'Slight rain showers',
+  'weather.wmo.81': 'Rain showers',
+  'weather.wmo.82': 'Violent rain showers',
+  'weather.wmo.85': 'Snow showers',
+  'weather.wmo.86': 'Heavy snow showers',
+  'weather.wmo.95': 'Thunderstorm',
+  'weather.wmo.96': 'Thunderstorm with hail',
+  'weather.wmo.99': 'Thunderstorm with heavy hail',
+
+  // 場所の種類（検索結果）
+  'place.amenity.restaurant': 'Restaurant',
+  'place.amenity.cafe': 'Cafe',
+  'place.amenity.bar': 'Bar',
+  'place.amenity.fast_food': 'Fast food',
+  'place.amenity.pub': 'Pub',
+  'place.amenity.bank': 'Bank',
+  'place.amenity.hospital': 'Hospital',
+  'place.amenity.pharmacy': 'Pharmacy',
+  'place.amenity.school': 'School',
+  'place.amenity.university': 'University',
+  'place.amenity.library': 'Library',
+  'place.amenity.museum': 'Museum',
+  'place.amenity.theatre': 'Theatre',
+  'place.amenity.cinema': 'Cinema',
+  'place.amenity.park': 'Park',
+  'place.amenity.playground': 'Playground',
+  'place.amenity.swimming_pool': 'Swimming pool',
+  'place.amenity.gym': 'Gym',
+  'place.amenity.hotel': 'Hotel',
+  'place.amenity.fuel': 'Gas station',
+  'place.amenity.parking': 'Parking',
+  'place.amenity.post_office': 'Post office',
+  'place.amenity.police': 'Police station',
+  'place.amenity.fire_station': 'Fire station',
+  'place.shop.supermarket': 'Supermarket',
+  'place.shop.convenience': 'Convenience store',
+  'place.shop.clothes': 'Clothing store',
+  'place.shop.electronics': 'Electronics store',
+  'place.shop.books': 'Bookstore',
+  'place.shop.bakery': 'Bakery',
+  'place.shop.beauty': 'Beauty salon',
+  'place.shop.hairdresser': 'Hairdresser',
+  'place.shop.bicycle': 'Bicycle shop',
+  'place.shop.car': 'Car dealer',
+  'place.shop.mobile_phone': 'Mobile phone shop',
+  'place.tourism': 'Tourist attraction',
+  'place.leisure': 'Leisure facility',
+
+  // 天気データの取得元
+  'weatherProvider.openweathermap.label': 'OpenWeatherMap',
+  'weatherProvider.openweathermap.description': 'API key required',
+  'weatherProvider.open-meteo.label': 'Open-Meteo',
+  'weatherProvider.open-meteo.description': 'Free service, no API key needed',
+  'weatherProvider.local.label': 'Sample data',
+  'weatherProvider.local.description': 'Fixed data for offline checks and testing',
+
+  // サンプルデータの天気
+  'fixture.clearSky': 'Clear sky',
+  'fixture.mostlyCloudy': 'Mostly cloudy',
+  'fixture.lightRain': 'Light rain',
+  'fixture.clear': 'Clear',
+  'fixture.thinClouds': 'Thin clouds',
+
+  // おすすめの理由
+  'factor.activityWindow': 'Best window: {start}–{end}',
+  'factor.goldenHour': 'Clear sky expected for golden hour {start}–{end} (+{bonus} pts)',
+  'factor.safety.heat': 'Heat stress (WBGT) {value}: {level}',
+  'factor.safety.cold': 'Wind chill {value}: {level}',
+  'factor.nightSky.clear': 'Night cloud cover {value}%',
+  'factor.nightSky.cloudy': 'Cloudy night (cloud cover {value}%)',
+  'factor.nightSky.moonless': { one: '{count} hour of dark, moonless sky', other: '{count} hours of dark, moonless sky' },
+  'factor.nightSky.brightMoon': 'Bright moon in the sky ({percent}% illuminated)',
+  'factor.nightSky.noDarkness': 'Twilight lasts all night, so the sky never gets fully dark',
+  'factor.travelOverLimit': 'Travel distance {distance} km (limit {limit} km)',
+  'factor.travelPenalty': 'Travel distance {distance} km (-{penalty} pts)',
+  'factor.busyPenalty': 'Busy: {summary} (-{penalty} pts)',
+  'factor.blocked': 'Not possible: {reason}',
+  'factor.constraint.windSpeed': 'Wind {value} (limit {limit})',
+  'factor.constraint.precipitation': 'Chance of rain {value}% (limit {limit}%)',
+  'factor.constraint.visibility': 'Visibility {value} km (minimum {limit} km)',
+  'factor.constraint.forbiddenWeather': '{icon} {weather} (excluded weather)',
+  'factor.constraint.minFeelsLike': 'Feels like {value} (minimum {limit})',
+  'factor.constraint.maxFeelsLike': 'Feels like {value} (limit {limit})',
+  'factor.constraint.duration': { one: 'No window of {count} consecutive minute', other: 'No window of {count} consecutive minutes' },
+  'factor.constraint.daylight': 'Only between sunrise ({sunrise}) and sunset ({sunset})',
+  'factor.constraint.polarNight': 'The sun does not rise on this day (polar night)',
+  'factor.preferredWeather': 'Preferred weather: {icon} {weather} (weight: {weight})',
+  'factor.idealTemperature': 'Comfortable temperature: {value}',
+  'factor.lowTemperature': 'Cold: {value} (recommended: at least {limit})',
+  'factor.highTemperature': 'Hot: {value} (recommended: at most {limit})',
+  'factor.precipitation': 'Chance of rain: {value}%',
+  'factor.dry': 'Dry: {value}% chance of rain',
+  'factor.precipitationAmount': 'Chance of rain: {value}% ({amount} mm)',
+  'factor.strongWind': 'Strong wind: {value}',
+  'factor.strongGust': 'Gusty: gusts up to {value}',
+  'factor.calmWind': 'Light wind: {value}',
+  'factor.highUv': 'High UV: index {value}',
+
+  // 共通
+  'common.hobbyActivity': 'your hobby',
+  'common.listSeparator': ', ',
+
+  // 定期レポート
+  'notify.skip.noLocation': 'No locations are set up for alerts',
+  'notify.skip.noForecast': 'Could not fetch forecast data',
+  'notify.skip.noHobbies': 'No active hobbies are registered',
+  'notify.skip.noRecommendations': 'Could not generate recommendations',
+  'notify.skip.error': 'An error occurred while generating the report',
+  'report.period.daily': 'Today',
+  'report.period.weekly': 'This week',
+  'report.period.monthly': 'This month',
+  'report.summary.none': '{period} the weather is a bit tough, and no hobbies can be recommended.',
+  'report.summary.lowScores': { one: '{period} the weather is a bit tough. We checked {count} hobby, but it did not score highly.', other: '{period} the weather is a bit tough. We checked {count} hobbies, but few scored highly.' },
+  'report.summary.single': '{period} is ideal for {hobby} (score {score}).',
+  'report.summary.multiple': '{period} {count} hobbies have good conditions. We especially recommend {hobbies}.',
+  'report.summary.goalsBehind': { one: ' {hobbies} is behind its goal.', other: ' {hobbies} are behind their goals.' },
+  'report.weather.unavailable': 'Could not fetch weather data.',
+  'report.weather.current': 'Currently {weather} at {temperature}, ',
+  'report.weather.rainLikely': 'with a {value}% chance of rain, so rain is likely.',
+  'report.weather.changeable': 'with a {value}% chance of rain, so the weather may change.',
+  'report.weather.stable': 'with a {value}% chance of rain and stable conditions.',
+  'report.weather.windy': ' It is fairly windy ({value}).',
+  'report.weather.highUv': ' The UV index is high, so protect yourself from the sun (UV index {value}).',
+  'report.stats.averageScore': 'Average suitability score: {score}',
+  'report.stats.mixed': ' ({outdoor} outdoor, {indoor} indoor)',
+  'report.stats.outdoor': ' (mostly outdoor)',
+  'report.stats.indoor': ' (mostly indoor)',
+  'report.stats.history': { one: '. {count} report was sent in the last 30 days.', other: '. {count} reports were sent in the last 30 days.' },
+  'report.stats.unavailable': 'Could not load statistics.',
+  'report.action.bestToday': 'Today is ideal for {hobby}',
+  'report.action.goalBehind': { one: '{hobby}: {count} more time to reach the goal for {period}', other: '{hobby}: {count} more times to reach the goal for {period}' },
+  'report.action.rainIndoor': 'Prepare for rain and favor indoor activities',
+  'report.action.umbrella': 'Bring a folding umbrella and enjoy the outdoors',
+  'report.action.uv': 'Use sunscreen and a hat to protect against UV',
+  'report.action.wind': 'It is windy, so take care outdoors',
+  'report.action.cold': 'Dress warmly',
+  'report.action.heat': 'Stay hydrated and watch out for heatstroke',
+  'report.action.rest': 'Today might be a good day to rest instead',
+  'report.title': '📊 Today\'s hobby report ({location})',
+
+  // 通知
+  'notify.locationPrefix': '[{location}] ',
+  'notify.skip.belowScore': 'No hobbies scored {score} or higher',
+  'notify.skip.cooldown': 'In cooldown period',
+  'notify.skip.evaluationError': 'An error occurred during evaluation',
+  'notify.defaultReason': 'Recommended based on the weather',
+  'notify.highScore.title': '🌟 High score for {hobby}!',
+  'notify.highScore.message': 'Score {score}! {weather} makes it ideal.',
+  'notify.highScore.single.title': '{hobby} is ideal!',
+  'notify.highScore.single.message': '{prefix}{weather}, {temperature}. A high score of {score}!',
+  'notify.highScore.multiple.title': '{count} hobbies are ideal!',
+  'notify.highScore.multiple.message': '{prefix}{weather}, {temperature}. We recommend {hobbies} and more. Top score: {score}',
+  'notify.detailedHighScore.single.title': '🌟 {hobby} is ideal!',
+  'notify.detailedHighScore.multiple.title': '⭐ {count} hobbies are ideal!',
+  'notify.weatherAlert.title': '{icon} Sudden weather change',
+  'notify.severity.low': 'Weather info',
+  'notify.severity.medium': 'Weather advisory',
+  'notify.severity.high': 'Weather warning',
+  'notify.severity.urgent': 'Sudden weather change warning',
+  'notify.report.title': '📊 Today\'s hobby report',
+  'notify.test.title': '🧪 Test notification',
+  'notify.test.message': 'Notifications are working correctly.',
+
+  // 天気急変アラート
+  'alert.noLocation': 'No locations to monitor',
+  'alert.evaluationError': 'An error occurred while evaluating weather alerts',
+  'alert.unknownError': 'Unknown error',
+  'alert.fetchFailed': 'Failed to fetch weather data',
+  'alert.cooldown': 'In cooldown',
+  'alert.cooldownSkipped': 'Skipped because the alert is in cooldown',
+  'alert.notTriggered': 'Alert conditions not met',
+  'alert.temperatureRise': 'Temperature rose by {value}',
+  'alert.temperatureDrop': 'Temperature dropped by {value}',
+  'alert.precipitationIncrease': 'Chance of rain rose by {value}%',
+  'alert.windIncrease': 'Wind speed increased by {value}',
+  'alert.generic': 'Weather alert: {type}',
+  'alert.rainWarning': 'Rain is now likely ({value}% chance)',
+  'alert.temperatureDropForecast': 'A sharp temperature drop is forecast ({value})',
+  'alert.highWind': 'Strong wind is forecast ({value})',
+  'alert.heavyRain': 'Heavy rain is forecast ({value} mm)',
+  'alert.strongGust': 'Strong gusts are forecast (up to {value})',
+  'alert.poorVisibility': 'Poor visibility is forecast ({value} km)',
+  'alert.extremeUv': 'The UV index is very high (UV index {value})',
+  'alert.heatstrokeRisk': 'High risk of heatstroke (WBGT {value}, {level})',
+  'alert.coldStress': 'Severe cold (wind chill {value}, {level})',
+
+  // 通知スケジューラー
+  'scheduler.placeholderMessage': 'Notification',
+  'scheduler.currentWeather': 'current weather',
+  'scheduler.currentConditions': 'current conditions',
+  'scheduler.highScoreChecked': 'Hobby check complete',
+  'scheduler.noHighScore': 'No hobbies have a high score right now',
+  'scheduler.monitoring': 'Monitoring the weather',
+  'scheduler.noAlerts': 'No notable weather changes right now',
+  'scheduler.reportTitle': '📊 Hobby report',
+  'scheduler.reportFailed': 'Could not generate the report',
+
+  // 位置情報
+  'geolocation.unsupported': 'This browser does not support geolocation',
+  'geolocation.denied': 'Location access was denied',
+  'geolocation.unavailable': 'Could not determine your location',
+  'geolocation.timeout': 'Timed out while getting your location',
+  'geolocation.failed': 'Failed to get your location',
+
+  // 通知設定の初期値
+  'notificationConfig.highScore': 'High score notifications',
+  'notificationConfig.weatherAlert': 'Sudden weather alerts',
+  'notificationConfig.regularReport': 'Daily hobby report',
+
+  // APIキー診断の推奨事項
+  'diagnostics.recommendation.envMissing': '❌ The VITE_OPENWEATHER_API_KEY environment variable is not set',
+  'diagnostics.recommendation.envHint': '💡 Set the API key in your .env.local file',
+  'diagnostics.recommendation.envShort': '⚠️ The API key may be too short',
+  'diagnostics.recommendation.envOk': '✅ The environment variable is set correctly',
+  'diagnostics.recommendation.serviceMissing': '❌ WeatherService has not loaded the API key',
+  'diagnostics.recommendation.serviceHint': '💡 Restart the development server',
+  'diagnostics.recommendation.serviceOk': '✅ WeatherService has the API key',
+  'diagnostics.recommendation.connectionFailed': '❌ The API connection failed',
+  'diagnostics.recommendation.invalidKey': '💡 The API key is invalid. Check it on OpenWeatherMap',
+  'diagnostics.recommendation.rateLimited': '💡 The API rate limit was reached. Wait a while and try again',
+  'diagnostics.recommendation.networkHint': '💡 Check your network connection or API key',
+  'diagnostics.recommendation.connectionOk': '✅ The API connection is working',
+
+  // スコア計算
+  'scoringPreset.balanced.label': 'Balanced',
+  'scoringPreset.balanced.description': 'Weighs weather, temperature and rain evenly',
+  'scoringPreset.wind-sensitive.label': 'Wind-sensitive',
+  'scoringPreset.wind-sensitive.description': 'For hobbies easily affected by wind, like kayaking, drones or fishing',
+  'scoringPreset.rain-tolerant.label': 'Rain-tolerant',
+  'scoringPreset.rain-tolerant.description': 'For hobbies that tolerate some rain (less weight on rain)',
+  'scoringPreset.sun-seeking.label': 'Sun-seeking',
+  'scoringPreset.sun-seeking.description': 'For hobbies where sunshine matters, like photography or sunbathing',
+  'scoringPreset.custom.label': 'Custom',
+  'scoreFactor.weather': 'Weather',
+  'scoreFactor.temperature': 'Temperature',
+  'scoreFactor.precipitation': 'Chance of rain',
+  'scoreFactor.wind': 'Wind',
+  'scoreFactor.uv': 'UV index',
+  'scoreFactor.cloudCover': 'Night cloud cover',
+  'scoreFactor.moonlight': 'Moonlight',
+  'scoreFactor.darkness': 'Darkness',
+
+  // 活動の評価
+  'rating.1': 'Terrible',
+  'rating.2': 'Meh',
+  'rating.3': 'Okay',
+  'rating.4': 'Good',
+  'rating.5': 'Excellent',
+
+  // 単位
+  'units.celsius': 'Celsius (°C)',
+  'units.fahrenheit': 'Fahrenheit (°F)',
+  'units.ms': 'Meters per second (m/s)',
+  'units.kmh': 'Kilometers per hour (km/h)',
+  'units.mph': 'Miles per hour (mph)',
+
+  // 趣味候補・時間帯
+  'suggestionCategory.nature': 'Nature outdoors',
+  'suggestionCategory.active': 'Active outdoors',
+  'suggestionCategory.sports': 'Sports & exercise',
+  'timeOfDay.morning': 'Morning',
+  'timeOfDay.day': 'Daytime',
+  'timeOfDay.evening': 'Evening',
+  'timeOfDay.night': 'Night',
+  'app.updateAvailable': 'A new version is available. Reload the app?',
+
+  // 設定画面：言語・単位
+  'settings.language.title': 'Language',
+  'settings.units.title': 'Units',
+  'settings.units.temperature': 'Temperature',
+  'settings.units.windSpeed': 'Wind speed',
+  'settings.units.example': 'Preview',
+  'settings.units.exampleValue': 'Temperature {temperature} · Wind {windSpeed}',
+
+  // 設定画面
+  'settings.title': 'Settings',
+  'settings.description': 'Manage how the app behaves',
+  'settings.apiKey.title': 'API key',
+  'settings.apiKey.localBadge': 'Stored locally',
+  'settings.apiKey.requiredTitle': 'An API key is required',
+  'settings.apiKey.requiredDescription': 'An OpenWeatherMap API key is required to fetch weather data. The key is stored in your browser\'s local storage.',
+  'settings.apiKey.getKeyHint': ' — get a free API key there',
+  'settings.apiKey.saved': 'API key saved. The new key will be used from the next API call.',
+  'settings.apiKey.saveFailed': 'Failed to save the API key',
+  'settings.apiKey.cleared': 'API key cleared',
+  'settings.notifications.title': 'Notifications',
+  'settings.diagnostics.title': 'API connection diagnostics',
+  'common.save': 'Save',
+  'common.saving': 'Saving...',
+  'common.clear': 'Clear',
+
+  // 設定画面：セットアップリセット
+  'setupReset.confirm': 'Reset your setup?\n\nThe following will be deleted:\n• Initial setup completion flag\n• API key\n• Locations\n• Hobby data\n\nThe initial setup will start on the next launch.',
+  'setupReset.success': 'Setup has been reset. Reload the page to start the initial setup.',
+  'setupReset.failed': 'Failed to reset the setup.',
+  'setupReset.title': 'Reset setup',
+  'setupReset.dangerBadge': 'Danger zone',
+  'setupReset.heading': 'Reset setup information',
+  'setupReset.description': 'Delete all settings and saved data and start over from the initial setup.',
+  'setupReset.deletedItems': 'What will be deleted:',
+  'setupReset.item.apiKey': 'API key',
+  'setupReset.item.locations': 'Locations',
+  'setupReset.item.hobbies': 'Saved hobbies',
+  'setupReset.item.weatherCache': 'Cached weather data',
+  'setupReset.item.setupFlag': 'Initial setup completion flag',
+  'setupReset.resetting': 'Resetting...',
+  'setupReset.reset': 'Reset setup',
+  'setupReset.backToSetup': 'Back to initial setup',
+
+  // 設定画面：セットアップ状態
+  'setupStatus.notSet': 'Not set',
+  'setupStatus.title': 'Setup status',
+  'setupStatus.badge': 'Initial setup',
+  'setupStatus.configured': '✓ Configured',
+  'setupStatus.missing': '✗ Not configured',
+  'setupStatus.location': 'Location',
+  'setupStatus.hobbies': 'Hobbies',
+  'setupStatus.hobbiesRegistered': { one: '✓ {count} hobby saved', other: '✓ {count} hobbies saved' },
+  'setupStatus.hobbiesOptional': '- None yet (optional)',
+  'setupStatus.overall': 'Initial setup:',
+  'setupStatus.completed': '✓ Complete',
+  'setupStatus.incomplete': '⚠ Incomplete',
+  'setupStatus.requirements': 'Required: API key, location | Optional: hobbies',
+
+  // テーマ
+  'theme.mode.light': 'Light mode',
+  'theme.mode.dark': 'Dark mode',
+  'theme.settings.title': 'Theme',
+  'theme.settings.appearance': 'Appearance',
+  'theme.settings.mode.light': 'Light mode',
+  'theme.settings.mode.dark': 'Dark mode',
+  'theme.settings.mode.system': 'Use system setting',
+  'theme.settings.modeDescription.light': 'Always use the light theme',
+  'theme.settings.modeDescription.dark': 'Always use the dark theme',
+  'theme.settings.systemCurrent': 'System setting: {mode}',
+  'theme.settings.current': 'Current theme',
+  'theme.settings.accessibility': 'Accessibility',
+  'theme.settings.highContrast': 'High contrast mode',
+  'theme.settings.highContrastDescription': 'Use stronger contrast for better visibility',
+  'theme.settings.reducedMotion': 'Reduce motion',
+  'theme.settings.reducedMotionDescription': 'Minimize animations and visual effects',
+  'theme.settings.fontSize': 'Font size',
+  'theme.settings.fontSize.small': 'Small',
+  'theme.settings.fontSize.medium': 'Medium',
+  'theme.settings.fontSize.large': 'Large',
+  'theme.settings.preview': 'Preview',
+  'theme.settings.primaryColor': 'Primary color',
+  'theme.settings.secondaryColor': 'Secondary color',
+  'theme.settings.accentColor': 'Accent color',
+  'theme.settings.sampleText': 'Sample text',
+  'theme.settings.detailText': 'Detail text',
+  'theme.settings.success': 'Success',
+  'theme.settings.warning': 'Warning',
+  'theme.settings.error': 'Error',
+  'theme.toggle.mode.light': 'Light mode',
+  'theme.toggle.mode.dark': 'Dark mode',
+  'theme.toggle.mode.system': 'System',
+  'theme.toggle.selected': '{mode} (selected)',
+  'theme.toggle.select': 'Choose theme',
+  'theme.toggle.switch': 'Switch theme',
+  'theme.toggle.switchLabel': 'Switch theme ({description})',
+  'theme.toggle.menuLabel': 'Theme menu ({description})',
+  'theme.toggle.current': 'Selected',
+
+  // PWA
+  'pwa.install.title': 'Install the app',
+  'pwa.install.description': 'Add it to your home screen for quicker access',
+  'pwa.install.action': 'Install',
+  'pwa.offline': 'Offline mode - showing saved data',
+  'common.close': 'Close',
+  'common.cancel': 'Cancel',
+
+  // 通知許可
+  'notificationPrompt.unsupportedTitle': 'Notifications are not supported',
+  'notificationPrompt.unsupportedDescription': 'Your browser does not support notifications.',
+  'notificationPrompt.grantedTitle': 'Notifications are on',
+  'notificationPrompt.grantedDescription': 'We will notify you at the best times for your hobbies.',
+  'notificationPrompt.sendTest': 'Send test',
+  'notificationPrompt.deniedTitle': 'Notifications are blocked',
+  'notificationPrompt.deniedDescription': 'Allow notifications in your browser settings: Settings → Privacy and security → Notifications',
+  'notificationPrompt.requestTitle': 'Turn on notifications?',
+  'notificationPrompt.requestDescription': 'We will let you know the best times for your hobbies based on the weather.',
+  'notificationPrompt.checking': 'Checking...',
+  'notificationPrompt.allow': 'Allow notifications',
+
+  // 通知設定
+  'notificationSettings.error': 'An error occurred',
+  'notificationSettings.title': '🔔 Notification settings',
+  'notificationSettings.enabled': 'Notifications',
+  'notificationSettings.enabledDescription': 'Turn all notifications on or off',
+  'notificationSettings.quietHours': 'Quiet hours',
+  'notificationSettings.quietHoursDescription': 'No notifications are sent during these hours',
+  'notificationSettings.from': 'to',
+  'notificationSettings.until': '',
+  'notificationSettings.maxDaily': 'Daily notification limit',
+  'notificationSettings.maxDailyDescription': 'Maximum number of notifications per day',
+  'notificationSettings.sound': 'Sound',
+  'notificationSettings.soundDescription': 'Play a sound with notifications',
+  'notificationSettings.vibration': 'Vibration',
+  'notificationSettings.vibrationDescription': 'Vibrate with notifications (supported devices only)',
+  'notificationSettings.typesTitle': '📋 Notification types',
+  'notificationSettings.noConfigs': 'No notification settings',
+  'notificationSettings.statsTitle': '📊 Notification stats',
+  'notificationSettings.totalSent': 'Total sent',
+  'notificationSettings.clickRate': 'Click rate',
+  'notificationSettings.dismissRate': 'Dismiss rate',
+  'notificationSettings.times': { one: '{count} time', other: '{count} times' },
+  'notificationSettings.reloadStats': 'Reload',
+  'notificationSettings.showStats': 'Show stats',
+  'notificationSettings.type.highScore': 'High-score hobby alerts',
+  'notificationSettings.type.weatherAlert': 'Sudden weather change alerts',
+  'notificationSettings.type.regularReport': 'Regular hobby reports',
+  'notificationSettings.type.default': 'Notification',
+
+  // スケジューラー監視
+  'schedulerMonitor.title': '🕒 Scheduler monitor',
+  'schedulerMonitor.refresh': 'Refresh',
+  'schedulerMonitor.error': 'Error',
+  'schedulerMonitor.status': 'Status',
+  'schedulerMonitor.scheduled': 'Scheduled',
+  'schedulerMonitor.nextRun': 'Next run',
+  'schedulerMonitor.start': 'Start scheduler',
+  'schedulerMonitor.stop': 'Stop scheduler',
+  'schedulerMonitor.nextTask': 'Next scheduled task',
+  'schedulerMonitor.empty': 'No scheduled tasks',
+  'schedulerMonitor.emptyHint': 'Tasks appear once notification settings are enabled',
+  'schedulerMonitor.overdue': 'Overdue',
+  'schedulerMonitor.inDays': { one: 'in {count} day', other: 'in {count} days' },
+  'schedulerMonitor.inHours': { one: 'in {count} hour', other: 'in {count} hours' },
+  'schedulerMonitor.inMinutes': { one: 'in {count} minute', other: 'in {count} minutes' },
+  'schedulerMonitor.soon': 'Soon',
+  'schedulerMonitor.running': 'Running',
+  'schedulerMonitor.stopped': 'Stopped',
+  'schedulerMonitor.tasks': 'Scheduled tasks ({count})',
+  'common.hide': 'Hide',
+  'common.show': 'Show',
+
+  // アプリ全体
+  'app.initializing': 'Initializing the app...',
+  'app.name': 'Hobby Forecast',
+  'app.footer': '© 2025 Hobby Forecast - hobby recommendations based on the weather',
+  'common.loading': 'Loading...',
+  'app.tab.recommendations': 'For you',
+  'app.tab.weather': 'Weather',
+  'app.tab.hobbies': 'Hobbies',
+  'app.tab.journal': 'Journal',
+  'app.tab.settings': 'Settings',
+  'app.logoAlt': 'Hobby Forecast logo',
+  'app.mainNavigation': 'Main navigation',
+  'app.showTab': 'Show {tab}',
+
+  // 活動記録
+  'journal.empty': 'No activity records yet',
+  'journal.emptyHint': 'Choose "I did this on this day" in a recommendation\'s details to add a record',
+  'journal.addPhoto': 'Add photos',
+  'journal.deletePhoto': 'Delete {name}',
+  'journal.notePlaceholder': 'Add a note',
+  'journal.deletedHobby': 'Deleted hobby',
+  'journal.predictedScore': 'Predicted score {score}',
+  'journal.confirmDelete': 'Delete this record? Its photos will be deleted too.',
+  'weather.windSpeedValue': 'Wind {value}',
+  'weather.popValue': 'Chance of rain {value}%',
+  'common.delete': 'Delete',
+
+  // 活動記録ページ
+  'journal.title': 'Activity journal',
+  'journal.description': 'Look back on the hobbies you did and the weather on those days',
+  'journal.hobbyFilter': 'Hobby',
+  'common.errorOccurred': 'An error occurred',
+  'common.dismissError': 'Dismiss error',
+  'common.all': 'All',
+  'common.refresh': 'Refresh',
+  'common.totalCount': '{count} total',
+
+  // フック: useActivityLog.ts
+  'activityLog.loadFailed': 'Failed to load activity records',
+  'activityLog.saveFailed': 'Failed to record the activity',
+
+  // フック: useHobby.ts
+  'hobby.loadFailed': 'Failed to load hobbies',
+  'hobby.createFailed': 'Failed to create the hobby',
+  'hobby.updateFailed': 'Failed to update the hobby',
+  'hobby.deleteFailed': 'Failed to delete the hobby',
+  'hobby.notFound': 'Hobby not found',
+  'validation.nameRequired': 'A hobby name is required',
+  'validation.nameTooLong': 'Hobby names must be 50 characters or fewer',
+  'validation.descriptionTooLong': 'Descriptions must be 200 characters or fewer',
+  'validation.weatherRequired': 'Select at least one preferred weather',
+  'validation.durationRange': 'Duration must be between 1 minute and 24 hours',
+  'validation.weeklyFrequencyRange': 'Times per week must be a whole number from 1 to 7',
+  'validation.goalPeriod': 'Choose a weekly or monthly goal',
+  'validation.scoringMode': 'The scoring mode must be weather or night-sky',
+  'validation.goalCountRange': 'Goal count must be a whole number from 1 to {max}',
+  'validation.earliestStartFormat': 'Enter the earliest start time as HH:mm',
+  'validation.latestEndFormat': 'Enter the end time as HH:mm',
+  'validation.endBeforeStart': 'The end time must be after the earliest start time',
+  'validation.maxWindSpeed': 'Maximum wind speed must be 0 or more',
+  'validation.maxPrecipitation': 'Maximum chance of rain must be between 0 and 100%',
+  'validation.minVisibility': 'Minimum visibility must be 0 or more',
+  'validation.feelsLikeRange': 'Minimum feels-like temperature must not exceed the maximum',
+  'validation.forbiddenWeather': 'Excluded weather must be a list of weather types',
+  'validation.scoringProfile': 'Scoring weights must use a known preset and a number of 0 or more for each factor',
+
+  // フック: useJournal.ts
+  'journal.loadFailed': 'Failed to load activity records',
+  'journal.noteSaveFailed': 'Failed to save the note',
+  'journal.deleteFailed': 'Failed to delete the record',
+  'journal.photoSaveFailed': 'Failed to save photos',
+  'journal.photoDeleteFailed': 'Failed to delete the photo',
+
+  // フック: useLocationComparison.ts
+  'locationComparison.failed': 'Failed to compare locations',
+
+  // フック: useNotificationConfig.ts
+  'notificationConfig.loadFailed': 'Failed to load notification settings',
+  'notificationConfig.createFailed': 'Failed to create the notification setting',
+  'notificationConfig.updateFailed': 'Failed to update the notification setting',
+  'notificationConfig.deleteFailed': 'Failed to delete the notification setting',
+  'notificationConfig.toggleFailed': 'Failed to toggle the notification setting',
+  'notificationConfig.globalUpdateFailed': 'Failed to update global settings',
+  'notificationConfig.reloadFailed': 'Failed to reload notification settings',
+  'notificationConfig.historyReloadFailed': 'Failed to reload notification history',
+
+  // フック: useNotificationScheduler.ts
+  'schedulerMonitor.statusFailed': 'Failed to get scheduler status',
+  'schedulerMonitor.startFailed': 'Failed to start the scheduler',
+  'schedulerMonitor.stopFailed': 'Failed to stop the scheduler',
+
+  // フック: useRecommendation.ts
+  'recommendation.generateFailed': 'Failed to generate recommendations',
+
+  // フック: useWeather.ts
+  'weather.fetchFailed': 'Failed to fetch weather data',
+  'weather.locationFailed': 'Failed to get your location',
+
+  // フック: useInitialSetup.ts
+  'setup.step.apiKey.title': 'API key',
+  'setup.step.apiKey.description': 'Set an API key to fetch weather data',
+  'setup.step.location.title': 'Location',
+  'setup.step.location.description': 'Choose where to get the weather forecast for',
+  'setup.step.hobbies.title': 'Hobbies',
+  'setup.step.hobbies.description': 'Add your hobbies to get personalized recommendations',
+
+  // フック: useHobby.ts（続き）
+  'validation.weatherWeightRange': 'Weather condition {index} must have a score from 1 to 10',
+  'validation.weatherIntensity': 'Weather condition {index} can only set an intensity of light, moderate or heavy for rain, drizzle, snow or thunderstorm',
+
+  // 活動記録の統計
+  'journalStats.averageRating': 'Average rating',
+  'journalStats.typicalWeather': 'Typical weather',
+  'journalStats.averageConditions': 'Avg. temperature / wind',
+  'journalStats.bestRatedWeather': 'Best-rated weather',
+  'journalStats.perMonth': 'Sessions per month',
+  'journalStats.sessions': { one: '{count} session', other: '{count} sessions' },
+
+  // 場所の選択
+  'locationSelector.current': 'Current location',
+  'locationSelector.notSet': 'No location set',
+  'locationSelector.weatherSource': 'Weather data:',
+  'locationSelector.search': 'Search for a place',
+  'locationSelector.results': 'Search results',
+  'locationSelector.saved': 'Saved places',
+  'locationSelector.noResults': 'No matching places found',
+  'locationSelector.searchFailed': 'Search failed',
+  'locationSelector.saveFailed': 'Failed to save the place',
+  'locationSelector.missingId': 'Place ID not found',
+  'locationSelector.selectFailed': 'Failed to select the place',
+  'locationSelector.providerChangeFailed': 'Failed to change the weather data source',
+  'locationSelector.alertsChangeFailed': 'Failed to change notification settings',
+  'locationSelector.type.city': 'City',
+  'locationSelector.type.business': 'Business',
+  'locationSelector.type.landmark': 'Landmark',
+  'locationSelector.type.address': 'Address',
+  'locationSelector.type.default': 'Place',
+  'locationSelector.default': 'Default',
+  'locationSelector.providerOption': '{label} ({description})',
+  'locationSelector.getCurrent': 'Use current location',
+  'locationSelector.locating': 'Locating...',
+  'locationSelector.currentButton': '📍 Current location',
+  'locationSelector.change': 'Change location',
+  'locationSelector.searchPlaceholder': 'Search places (cities, shops, landmarks, etc.)',
+  'locationSelector.searching': 'Searching...',
+  'locationSelector.searchButton': 'Search',
+  'locationSelector.disableAlerts': 'Stop notifications for this place',
+  'locationSelector.enableAlerts': 'Get notifications for this place',
+
+  // 現在の天気
+  'weatherCard.title': 'Current weather',
+  'weatherCard.humidity': 'Humidity',
+  'weatherCard.windSpeed': 'Wind speed',
+  'weatherCard.pressure': 'Pressure',
+  'weatherCard.visibility': 'Visibility',
+  'weatherCard.cloudiness': 'Cloud cover',
+  'weatherCard.uvIndex': 'UV index',
+  'weatherCard.sunriseSunset': 'Sunrise / sunset',
+  'weatherCard.direction.n': 'N',
+  'weatherCard.direction.ne': 'NE',
+  'weatherCard.direction.e': 'E',
+  'weatherCard.direction.se': 'SE',
+  'weatherCard.direction.s': 'S',
+  'weatherCard.direction.sw': 'SW',
+  'weatherCard.direction.w': 'W',
+  'weatherCard.direction.nw': 'NW',
+  'weatherCard.uv.low': 'Low',
+  'weatherCard.uv.moderate': 'Moderate',
+  'weatherCard.uv.high': 'High',
+  'weatherCard.uv.veryHigh': 'Very high',
+  'weatherCard.uv.extreme': 'Extreme',
+  'weatherCard.feelsLike': 'Feels like {value}',
+  'weatherCard.fetchedAt': 'Updated at {time}',
+
+  // 日別予報
+  'forecastCard.highLow': 'High/Low',
+  'forecastCard.pop': 'Chance of rain',
+  'forecastCard.precipitationAmount': '{value} mm',
+  'forecastCard.windGust': 'Max gust',
+  'forecastCard.partial': 'Partial day',
+  'forecastCard.partialHint': 'The forecast range ends during this day, so only part of it is covered',
+  'forecastCard.confidence': '{percent}% confidence',
+  'forecastCard.sunrise': 'Sunrise',
+  'forecastCard.sunset': 'Sunset',
+  'forecastCard.goldenHour': 'Golden hour',
+  'forecastCard.blueHour': 'Blue hour',
+  'forecastCard.timeRange': '{start}–{end}',
+  'forecastCard.polarDay': 'Midnight sun (the sun does not set)',
+  'forecastCard.polarNight': 'Polar night (the sun does not rise)',
+  'common.today': 'Today',
+  'common.tomorrow': 'Tomorrow',
+
+  // 週間予報
+  'forecastList.title': '7-day forecast',
+  'forecastList.empty': 'No forecast data',
+  'forecastList.emptyHint': 'The forecast could not be loaded.',
+  'forecastList.hourly': 'Hourly forecast',
+  'forecastList.summary': 'Week summary',
+  'forecastList.highest': 'Highest',
+  'forecastList.lowest': 'Lowest',
+  'forecastList.averageHumidity': 'Avg. humidity',
+  'forecastList.rainyDays': 'Rainy days',
+  'forecastList.detail': { one: '{count}-day detailed forecast', other: '{count}-day detailed forecast' },
+  'forecastList.confidenceNote': 'Forecasts get less reliable further ahead, so low-confidence days are dimmed',
+  'forecastList.updatedAt': 'Updated: {time}',
+  'forecastList.days': { one: '{count} day', other: '{count} days' },
+
+  // 時間ごとの予報
+  'hourlyTimeline.recommendedWindows': 'Recommended times',
+  'common.points': '{score} pts',
+
+  // 天気予報ページ
+  'weatherDisplay.title': 'Weather forecast',
+  'weatherDisplay.description': 'Check the current weather and 7-day forecast',
+  'weatherDisplay.loading': 'Loading weather data...',
+  'weatherDisplay.empty': 'No weather data',
+  'weatherDisplay.emptyHint': 'Weather data could not be loaded. Please try again.',
+  'weatherDisplay.retry': 'Retry',
+  'weatherDisplay.selectLocation': 'Choose a location',
+  'weatherDisplay.selectLocationHint': 'To see the forecast, choose a location or use your current location.',
+  'weatherDisplay.stats': 'Statistics',
+  'weatherDisplay.currentTemperature': 'Current temperature',
+  'weatherDisplay.weeklyHigh': 'Weekly high',
+  'weatherDisplay.weeklyLow': 'Weekly low',
+  'weatherDisplay.clearDays': 'Clear days expected',
+  'weatherDisplay.refreshing': 'Refreshing...',
+  'weatherDisplay.refresh': 'Refresh weather',
+
+  // おすすめカード
+  'recommendationCard.outdoor': 'Outdoor',
+  'recommendationCard.goalBehind': '{count} more to reach goal',
+  'recommendationCard.adjustedScore': '{score} pts at {percent}% confidence',
+  'recommendationCard.bestDay': 'Best day',
+  'recommendationCard.noPossibleDays': '🚫 No days are possible',
+  'recommendationCard.matching': '✓ Good conditions',
+  'recommendationCard.warnings': '⚠ Things to watch',
+  'recommendationCard.otherDays': 'Other days',
+  'recommendationCard.viewDetails': 'View details →',
+  'recommendationCard.scoreLabel.excellent': 'Excellent',
+  'recommendationCard.scoreLabel.good': 'Good',
+  'recommendationCard.scoreLabel.fair': 'Fair',
+  'recommendationCard.scoreLabel.poor': 'Poor',
+  'recommendationCard.activityWindow': '{start}–{end} (worst hour: {worst}, {score} pts)',
+  'recommendationCard.heatRisk': 'Heatstroke risk: {level}',
+  'recommendationCard.heatDetails': 'WBGT {wbgt}, heat index {heatIndex}, discomfort index {discomfort}',
+  'recommendationCard.coldRisk': 'Cold risk: {level}',
+  'recommendationCard.coldDetails': 'Wind chill {windChill}',
+
+  // 暑さ・寒さの段階
+  'safety.wbgt.safe': 'Low',
+  'safety.wbgt.caution': 'Caution',
+  'safety.wbgt.warning': 'Warning',
+  'safety.wbgt.severeWarning': 'Severe warning',
+  'safety.wbgt.danger': 'Danger (avoid exercise)',
+  'safety.cold.none': 'Low',
+  'safety.cold.caution': 'Caution',
+  'safety.cold.warning': 'Warning (risk of frostbite)',
+  'safety.cold.danger': 'Danger (frostbite within minutes)',
+  'recommendationCard.impossible': 'Not possible',
+  'recommendationCard.forecastDays': { one: '{count}-day forecast', other: '{count}-day forecast' },
+  'recommendationCard.impossibleDays': { one: ' ({count} day not possible)', other: ' ({count} days not possible)' },
+
+  // おすすめ一覧
+  'recommendationList.calculating': 'Calculating recommendations...',
+  'recommendationList.empty': 'No recommendations',
+  'recommendationList.emptyHint': 'No hobbies can be recommended under the current conditions.',
+  'recommendationList.emptyAction': 'Add a hobby or change the conditions.',
+  'recommendationList.title': 'Best days for your hobbies',
+  'recommendationList.description': 'Suggests the best hobbies and timing based on the weather forecast.',
+  'recommendationList.generating': 'Generating...',
+  'recommendationList.refresh': 'Refresh recommendations',
+
+  // おすすめページ
+  'recommendationDashboard.generateFailed': 'Failed to generate recommendations',
+  'recommendationDashboard.prerequisites': 'Before we can recommend anything',
+  'recommendationDashboard.hintsTitle': 'Tips',
+  'recommendationDashboard.needLocation': 'Choose a location',
+  'recommendationDashboard.needForecast': 'Load the weather forecast',
+  'recommendationDashboard.needHobbies': 'Add a hobby',
+  'recommendationDashboard.mode.days': '📅 Find by date',
+  'recommendationDashboard.mode.locations': '📍 Compare places',
+  'recommendationDashboard.mode.planner': '🗓️ Weekly plan',
+  'recommendationDashboard.failedLocations': 'Could not load forecasts for: {locations}',
+  'recommendationDashboard.hint.settings': '・Check your hobbies\' weather and temperature settings',
+  'recommendationDashboard.hint.filters': '・Your filters may be too strict',
+  'recommendationDashboard.hint.forecast': '・There may be no suitable conditions in the forecast period',
+
+  // 場所の比較
+  'locationComparison.comparing': 'Comparing forecasts across places...',
+  'locationComparison.notEnough': 'Not enough places to compare',
+  'locationComparison.notEnoughHint': 'Save two or more places in the Weather tab to compare recommendations by place.',
+  'locationComparison.emptyHint': 'No place has a day that matches the current conditions.',
+  'locationComparison.noPossibleDays': '🚫 No place has a possible day',
+  'locationComparison.place': 'Place',
+  'locationComparison.bestDay': 'Best day',
+  'locationComparison.overall': 'Overall',
+  'locationComparison.dayTemperature': '{date} · {max}° / {min}°',
+  'locationComparison.bestDayScore': '{date} ({score} pts)',
+
+  // おすすめの絞り込み
+  'recommendationFilters.title': 'Filters',
+  'recommendationFilters.minScore': 'Minimum score',
+  'recommendationFilters.weather': 'Weather',
+  'recommendationFilters.weekday': 'Days of week',
+  'recommendationFilters.excludeWeekends': 'Exclude weekends',
+  'recommendationFilters.excludeWeekdays': 'Exclude weekdays',
+  'recommendationFilters.dateRange': 'Date range',
+  'recommendationFilters.startDate': 'Start date',
+  'recommendationFilters.endDate': 'End date',
+  'recommendationFilters.weatherConditions': 'Weather conditions',
+  'recommendationFilters.active': 'Active',
+  'recommendationFilters.advanced': 'More options',
+  'recommendationFilters.scoreAtLeast': '{score}+ pts',
+
+  // おすすめ詳細モーダル
+  'recommendationDetail.subtitle': 'Detailed recommendation',
+  'recommendationDetail.outdoor': 'Outdoor activity',
+  'recommendationDetail.overallScore': 'Overall score',
+  'recommendationDetail.preferredWeather': 'Preferred weather:',
+  'recommendationDetail.noPreference': 'No preference',
+  'recommendationDetail.temperatureRange': 'Temperature range:',
+  'recommendationDetail.scoringProfile': 'Scoring profile:',
+  'recommendationDetail.createdAt': 'Created:',
+  'recommendationDetail.bestDay': 'Best day',
+  'recommendationDetail.breakdown': 'Score breakdown',
+  'recommendationDetail.factor': 'Factor',
+  'recommendationDetail.rating': 'Rating',
+  'recommendationDetail.weight': 'Weight',
+  'recommendationDetail.contribution': 'Contribution',
+  'recommendationDetail.logThisDay': 'I did this on this day',
+  'recommendationDetail.howWasIt': 'How was it?',
+  'recommendationDetail.cancel': 'Cancel',
+  'recommendationDetail.none': 'None',
+  'recommendationDetail.noLimit': 'No limit',
+  'recommendationDetail.learning': { one: '📈 Learned from your log ({count} entry)', other: '📈 Learned from your log ({count} entries)' },
+  'recommendationDetail.changesSince': 'Changes since {date}',
+  'recommendationDetail.minTemperature': 'Minimum temperature',
+  'recommendationDetail.maxTemperature': 'Maximum temperature',
+  'recommendationDetail.noChanges': 'No changes to the settings yet',
+  'recommendationDetail.learningHint': 'Rate the days you did this activity to learn your preferred weather and temperature range',
+  'recommendationDetail.days': { one: 'Recommended days ({count} day)', other: 'Recommended days ({count} days)' },
+  'recommendationDetail.activityWindow': 'Best time: {start}–{end}',
+  'recommendationDetail.worstSlot': 'Worst time: {time} ({description}, {temperature}, {score} pts)',
+  'recommendationDetail.moonPhase': '{phase} ({percent}% illuminated)',
+  'recommendationDetail.moonrise': 'Moonrise',
+  'recommendationDetail.moonset': 'Moonset',
+  'recommendationDetail.darkness': 'Dark sky (after astronomical twilight)',
+  'recommendationDetail.noDarkness': 'Never fully dark',
+  'moonPhase.new': 'New moon',
+  'moonPhase.waxingCrescent': 'Waxing crescent',
+  'moonPhase.firstQuarter': 'First quarter',
+  'moonPhase.waxingGibbous': 'Waxing gibbous',
+  'moonPhase.full': 'Full moon',
+  'moonPhase.waningGibbous': 'Waning gibbous',
+  'moonPhase.lastQuarter': 'Last quarter',
+  'moonPhase.waningCrescent': 'Waning crescent',
+  'recommendationDetail.logged': 'Logged',
+
+  // 趣味フォーム
+  'hobbyForm.errorTitle': 'Please fix the following errors',
+  'hobbyForm.suggestions': 'Choose from suggestions',
+  'hobbyForm.category': 'Category:',
+  'hobbyForm.description': 'Description',
+  'hobbyForm.weightScore': 'Score:',
+  'hobbyForm.weatherIntensity': 'Intensity:',
+  'hobbyForm.weatherIntensityAny': 'Any',
+  'hobbyForm.weatherIntensityOption': 'Up to {intensity}',
+  'hobbyForm.timeOfDay': 'Time of day',
+  'hobbyForm.temperatureRange': 'Temperature range',
+  'hobbyForm.duration': 'Activity time',
+  'hobbyForm.durationMinutes': 'Duration (minutes)',
+  'hobbyForm.earliestStart': 'Earliest start',
+  'hobbyForm.latestEnd': 'Latest end',
+  'hobbyForm.durationHint': 'With a duration set, only days with good conditions for that whole time are recommended',
+  'hobbyForm.requiresDaylight': 'Only between sunrise and sunset',
+  'hobbyForm.prefersGoldenHour': 'Prefer golden hour',
+  'hobbyForm.prefersGoldenHourHint': 'Days with a clear sky during the soft light around sunrise and sunset get a bonus (e.g. photography)',
+  'hobbyForm.weeklyFrequency': 'Times per week',
+  'hobbyForm.weeklyFrequencyDefault': 'Once a week',
+  'hobbyForm.weeklyFrequencyOption': '{count} times a week',
+  'hobbyForm.weeklyFrequencyHint': 'How many days the weekly plan assigns to this hobby',
+  'hobbyForm.goal': 'Goal',
+  'hobbyForm.goalPeriod': 'Period',
+  'hobbyForm.goalPeriod.week': 'Every week',
+  'hobbyForm.goalPeriod.month': 'Every month',
+  'hobbyForm.goalCount': 'Times',
+  'hobbyForm.goalCountPlaceholder': 'e.g. 3',
+  'hobbyForm.goalHint': 'Progress is tracked from your activity log, and hobbies behind their goal are prioritized in recommendations (leave the count empty for no goal)',
+  'hobbyForm.weights': 'Score weighting',
+  'hobbyForm.customInUse': 'Using custom settings',
+  'hobbyForm.nightSkyMode': 'Score by how dark the night sky is',
+  'hobbyForm.nightSkyModeHint': 'Recommends by night cloud cover, moonlight and how long it stays dark instead of weather preferences (e.g. stargazing)',
+  'hobbyForm.weightsHint': 'Weights are normalized to add up to 100%',
+  'hobbyForm.constraints': 'Blocking conditions',
+  'hobbyForm.forbiddenWeather': 'Excluded weather',
+  'hobbyForm.constraintsHint': 'Days and hours matching any of these conditions are marked as not possible, regardless of score',
+  'hobbyForm.locations': 'Locations',
+  'hobbyForm.withinKm': 'km or less',
+  'hobbyForm.locationsHint': 'When comparing locations, only the selected ones are considered (all locations if none are selected). Farther locations score lower',
+  'hobbyForm.isActive': 'Enable this hobby',
+  'hardConstraint.maxWindSpeed': 'Max wind speed',
+  'hardConstraint.maxPrecipitationProbability': 'Max chance of precipitation (%)',
+  'hardConstraint.minVisibility': 'Min visibility (km)',
+  'hardConstraint.minFeelsLike': 'Min feels-like temperature',
+  'hardConstraint.maxFeelsLike': 'Max feels-like temperature',
+  'hobbyForm.withUnit': '{label} ({unit})',
+  'hobbyForm.showSuggestions': 'Show suggestions',
+  'hobbyForm.name': 'Hobby name',
+  'hobbyForm.namePlaceholder': 'e.g. Running',
+  'hobbyForm.descriptionPlaceholder': 'Details about the hobby and how you enjoy it...',
+  'hobbyForm.descriptionLength': '{count}/{max} characters',
+  'hobbyForm.preferredWeather': 'Preferred weather',
+  'hobbyForm.durationPlaceholder': 'e.g. 360',
+  'hobbyForm.adjustWeights': 'Adjust weights',
+  'hobbyForm.setConstraints': 'Set conditions',
+  'hobbyForm.constraintCount': { one: '{count} condition set', other: '{count} conditions set' },
+  'hobbyForm.exclude': 'Exclude {label}',
+  'hobbyForm.maxTravelDistance': 'Maximum travel distance to {name}',
+  'hobbyForm.noUpperLimit': 'No limit',
+  'hobbyForm.update': 'Update',
+  'hobbyForm.create': 'Create',
+
+  // 趣味管理
+  'hobbyManager.title': 'Hobbies',
+  'hobbyManager.subtitle': 'Manage your hobbies and the weather you prefer for them',
+  'hobbyManager.activeOnly': 'Show active hobbies only',
+  'hobbyManager.create': 'Add a new hobby',
+  'hobbyManager.registered': 'Registered hobbies',
+  'hobbyManager.active': 'Active hobbies',
+  'hobbyManager.weatherConditions': 'Weather conditions',
+  'hobbyManager.counts': '{total} total | {active} active',
+  'hobbyManager.edit': 'Edit "{name}"',
+
+  // 趣味一覧
+  'hobbyList.empty': 'No hobbies yet',
+  'hobbyList.emptyHint': 'Add your first hobby to get the most out of the forecast!',
+  'hobbyList.edit': 'Edit',
+  'hobbyList.active': 'Active',
+  'hobbyList.inactive': 'Inactive',
+  'hobbyList.preferredWeather': 'Preferred weather:',
+  'hobbyList.createdAt': 'Created: {date}',
+  'hobbyList.updatedAt': 'Updated: {date}',
+  'hobbyList.deactivate': 'Deactivate',
+  'hobbyList.activate': 'Activate',
+  'hobbyList.deleteConfirm': 'Delete "{name}"? This cannot be undone.',
+
+  // 初期セットアップ
+  'setupFlow.initializing': 'Initializing...',
+  'setupFlow.subtitle': 'Initial setup',
+  'setupFlow.skip': 'Skip setup',
+  'setupFlow.progress': 'Setup progress',
+  'setupFlow.requiredHint': '* Complete the required steps to start using the app',
+  'setupFlow.logoAlt': 'Logo',
+
+  // セットアップ: API Key
+  'setupApiKey.description': 'Set up the API key used to fetch weather data',
+  'setupApiKey.instructions': '📋 How to get an API key',
+  'setupApiKey.visit': ' — open the API page',
+  'setupApiKey.step2': 'Click "Get API key" and create a free account',
+  'setupApiKey.step3': 'Confirm your email and get your API key',
+  'setupApiKey.step4': 'Enter the key below',
+  'setupApiKey.success': 'API key configured successfully',
+  'setupApiKey.about': 'About the API key',
+  'setupApiKey.aboutQuota': '• The OpenWeatherMap free plan allows up to 1,000 calls per day',
+  'setupApiKey.aboutStorage': '• The API key is stored in your browser\'s local storage',
+  'setupApiKey.aboutSharedPc': '• Clear the setting after using a shared computer',
+  'setupApiKey.required': 'Please enter an API key',
+  'setupApiKey.saveFailed': 'Failed to save the API key. Please try again.',
+  'setupApiKey.invalid': 'The API key is invalid. Please enter a valid key.',
+  'setupApiKey.connectionFailed': 'Could not connect to the API. Please try again later.',
+  'setupApiKey.testFailed': 'API connection test failed',
+  'setupApiKey.testing': 'Testing...',
+  'setupApiKey.test': 'Test API connection',
+  'setupApiKey.saveAndNext': 'Save and continue',
+
+  // セットアップ: 場所
+  'setupLocation.description': 'Choose the location to get forecasts for',
+  'setupLocation.done': 'Location set',
+  'setupLocation.proceeding': 'Moving to the next step...',
+  'setupLocation.useCurrent': 'Use current location',
+  'setupLocation.useCurrentHint': 'Get your current position using GPS',
+  'setupLocation.manual': 'Enter a location manually',
+  'setupLocation.manualHint': 'Enter a city or region name',
+  'setupLocation.about': 'About location settings',
+  'setupLocation.aboutPermission': '• Using your current location requires browser location permission',
+  'setupLocation.aboutSearch': '• Manual entry searches by city, region or country name',
+  'setupLocation.aboutChange': '• You can change the location later',
+  'setupLocation.required': 'Please enter a location',
+  'setupLocation.apiKeyMissing': 'No API key is configured',
+  'setupLocation.searchFailed': 'Failed to search for the location',
+  'setupLocation.notFound': 'The location could not be found',
+  'setupLocation.setFailed': 'Failed to set the location',
+  'setupLocation.coordinates': 'Latitude: {lat}, Longitude: {lon}',
+  'setupLocation.manualButton': 'Enter manually',
+  'setupLocation.placeholder': 'e.g. Tokyo, New York',
+  'setupLocation.submit': 'Set location',
+
+  // セットアップ: 趣味
+  'setupHobby.registered': 'Registered hobbies',
+  'setupHobby.description': 'Register your hobbies to get personalized recommendations',
+  'setupHobby.optional': 'Optional (you can add them later)',
+  'setupHobby.moreAccurate': 'Recommendations will be more accurate',
+  'setupHobby.benefits': 'Why register hobbies',
+  'setupHobby.benefitWeather': 'Hobby recommendations based on the weather',
+  'setupHobby.benefitPersonal': 'Suggestions tailored to your preferences',
+  'setupHobby.benefitFilter': 'Filtering by weather conditions',
+  'setupHobby.benefitSeason': 'Suggestions for seasons and events',
+  'setupHobby.about': 'About registering hobbies',
+  'setupHobby.aboutEdit': '• You can add or edit hobbies at any time',
+  'setupHobby.aboutWeather': '• Setting weather conditions makes recommendations more accurate',
+  'setupHobby.aboutMore': '• The more hobbies you add, the better the recommendations get',
+  'setupHobby.weatherConditions': { one: '{count} weather condition', other: '{count} weather conditions' },
+  'setupHobby.registeredCount': { one: '{count} hobby registered', other: '{count} hobbies registered' },
+  'setupHobby.addFirst': 'Add your first hobby',
+  'setupHobby.addAnother': 'Add another hobby',
+  'setupHobby.skip': 'Skip',
+  'setupHobby.addLater': 'Add later',
+  'setupHobby.finish': 'Finish setup',
+  'setupHobby.next': 'Next',
+
+  // セットアップ: 完了
+  'setupCompleted.title': 'Setup complete',
+  'setupCompleted.ready': 'Hobby Forecast is ready to use',
+  'setupCompleted.summary': 'Your settings',
+  'setupCompleted.features': 'Available features',
+  'setupCompleted.forecast': 'Weather forecast',
+  'setupCompleted.forecastDescription': 'Detailed 7-day forecast',
+  'setupCompleted.recommendations': 'Hobby recommendations',
+  'setupCompleted.recommendationsDescription': 'Hobby suggestions based on the weather',
+  'setupCompleted.hobbies': 'Hobby management',
+  'setupCompleted.hobbiesDescription': 'Add, edit and manage hobbies',
+  'setupCompleted.settings': 'Settings',
+  'setupCompleted.settingsDescription': 'API and personal settings',
+  'setupCompleted.nextSteps': 'Next steps',
+  'setupCompleted.nextRecommendations': '• Check weather-based recommendations in the "For you" tab',
+  'setupCompleted.nextHobbies': '• Register more hobbies in the "Hobbies" tab',
+  'setupCompleted.nextSettings': '• Fine-tune your preferences in "Settings"',
+  'setupCompleted.start': 'Start using Hobby Forecast',
+  'setupCompleted.thanks': 'Thank you for using Hobby Forecast.',
+  'setupCompleted.changeLater': 'You can change these settings at any time',
+  'setupCompleted.locationNotSet': 'Not set',
+  'setupCompleted.currentWeather': 'Current weather: {summary}',
+  'setupCompleted.hobbyCount': { one: '{count} hobby registered', other: '{count} hobbies registered' },
+  'setupCompleted.noHobbies': 'None yet (you can add them later)',
+  'setupCompleted.moreHobbies': ' and {count} more',
+
+  // API Key診断
+  'apiKeyDiagnostics.title': '🔍 API key diagnostics',
+  'apiKeyDiagnostics.subtitle': 'Check the OpenWeatherMap API configuration',
+  'apiKeyDiagnostics.running': 'Running diagnostics...',
+  'apiKeyDiagnostics.environment': 'Environment variable',
+  'apiKeyDiagnostics.serviceLoad': 'Service loading',
+  'apiKeyDiagnostics.apiConnection': 'API connection',
+  'apiKeyDiagnostics.recommendations': '📋 Recommendations',
+  'apiKeyDiagnostics.environmentDetails': '🔧 Environment variable details',
+  'apiKeyDiagnostics.serviceDetails': '⚙️ WeatherService details',
+  'apiKeyDiagnostics.connectionDetails': '🌐 API connection details',
+  'apiKeyDiagnostics.testData': 'Test data:',
+  'apiKeyDiagnostics.setupSteps': '📝 Setup steps',
+  'apiKeyDiagnostics.stepContent': 'Add the following line:',
+  'apiKeyDiagnostics.stepVerify': 'Verify with the re-run button',
+  'apiKeyDiagnostics.checking': 'Checking...',
+  'apiKeyDiagnostics.rerun': 'Run again',
+  'apiKeyDiagnostics.hideDetails': 'Hide details',
+  'apiKeyDiagnostics.showDetails': 'Show details',
+  'apiKeyDiagnostics.configured': 'Configured',
+  'apiKeyDiagnostics.ok': 'OK',
+  'apiKeyDiagnostics.error': 'Error',
+  'apiKeyDiagnostics.connected': 'Connected',
+  'apiKeyDiagnostics.connectionFailed': 'Connection failed',
+  'apiKeyDiagnostics.status': 'Status',
+  'apiKeyDiagnostics.keyLength': { one: 'Key length: {count} character', other: 'Key length: {count} characters' },
+  'apiKeyDiagnostics.preview': 'Preview',
+  'apiKeyDiagnostics.loadStatus': 'Load status',
+  'apiKeyDiagnostics.connectionStatus': 'Connection status',
+  'apiKeyDiagnostics.succeeded': 'Succeeded',
+  'apiKeyDiagnostics.failed': 'Failed',
+  'apiKeyDiagnostics.httpStatus': 'HTTP status',
+  'apiKeyDiagnostics.city': 'City',
+  'apiKeyDiagnostics.weather': 'Weather',
+  'apiKeyDiagnostics.temperature': 'Temperature',
+  'apiKeyDiagnostics.stepCreate.before': 'Create a ',
+  'apiKeyDiagnostics.stepCreate.after': ' file in the project root',
+  'apiKeyDiagnostics.stepRestart': 'Restart the dev server',
+
+  // 活動記録（サービス）
+  'activityLog.unsavedHobby': 'Activities can only be logged for saved hobbies',
+
+  // バックアップ・復元
+  'backup.title': 'Backup & Restore',
+  'backup.description': 'Save all your data (hobbies, locations, activity logs, notification settings, theme and more) to a file and restore it on another device or browser.',
+  'backup.export.title': 'Create Backup',
+  'backup.export.includeApiKey': 'Include API key',
+  'backup.export.includeApiKeyHint': 'Leave this unchecked if you plan to share the backup file.',
+  'backup.export.button': 'Download Backup',
+  'backup.export.exporting': 'Creating...',
+  'backup.export.success': 'Backup file created.',
+  'backup.export.failed': 'Failed to create the backup.',
+  'backup.restore.title': 'Restore from Backup',
+  'backup.restore.selectFile': 'Select backup file',
+  'backup.restore.mode': 'Restore mode',
+  'backup.restore.mode.merge': 'Merge',
+  'backup.restore.mode.mergeDescription': 'Overwrites records with the same name or date, adds the rest and keeps your current data',
+  'backup.restore.mode.replace': 'Replace',
+  'backup.restore.mode.replaceDescription': 'Deletes all current data and replaces it with the backup',
+  'backup.restore.previewTitle': 'Changes to apply (created {exportedAt})',
+  'backup.restore.previewChange': '{added} added, {updated} updated, {removed} removed',
+  'backup.restore.noChanges': 'No data will change',
+  'backup.restore.theme': 'Theme settings',
+  'backup.restore.apiKey': 'API key',
+  'backup.restore.willRestore': 'Will be restored',
+  'backup.restore.notIncluded': 'Not included (current setting kept)',
+  'backup.restore.button': 'Restore',
+  'backup.restore.restoring': 'Restoring...',
+  'backup.restore.confirmReplace': 'All current data will be deleted and replaced with the backup. Continue?',
+  'backup.restore.success': 'Restore complete. Reload the page to apply the changes.',
+  'backup.restore.failed': 'Restore failed.',
+  'backup.restore.reload': 'Reload',
+  'backup.error.invalidJson': 'Could not read the backup file (not valid JSON)',
+  'backup.error.invalidFormat': 'This is not a backup file from this app',
+  'backup.error.unsupportedVersion': 'Unsupported backup format (version {version})',
+  'backup.error.newerSchema': 'This backup was created by a newer version of the app and cannot be restored',
+  'backup.error.invalidField': 'The "{field}" section of the backup file is invalid',
+  'backup.table.hobbies': 'Hobbies',
+  'backup.table.weatherData': 'Weather data',
+  'backup.table.weatherForecasts': 'Weather forecasts',
+  'backup.table.locations': 'Locations',
+  'backup.table.hobbyLocations': 'Hobby locations',
+  'backup.table.settings': 'App settings',
+  'backup.table.activityLogs': 'Activity logs',
+  'backup.table.activityPhotos': 'Activity photos',
+  'backup.table.notificationConfigs': 'Notification configs',
+  'backup.table.notificationHistory': 'Notification history',
+  'backup.table.notificationSettings': 'Notification settings',
+  'backup.table.busyIntervals': 'Imported calendar events',
+  'backup.table.weatherArchive': 'Weather history',
+
+  // 趣味の共有
+  'hobbyList.share': 'Share',
+  'hobbyManager.shareAll': 'Share',
+  'hobbyManager.import': 'Import',
+  'hobbyShare.titleSingle': 'Share "{name}"',
+  'hobbyShare.titleMultiple': { one: 'Share {count} hobby', other: 'Share {count} hobbies' },
+  'hobbyShare.description': 'Shares the weather preferences, temperature range, time of day and other settings. Activity logs and locations are not included.',
+  'hobbyShare.link': 'Share link',
+  'hobbyShare.copy': 'Copy',
+  'hobbyShare.copied': 'Link copied',
+  'hobbyShare.copyFailed': 'Could not copy. Select the link and copy it manually',
+  'hobbyShare.download': 'Save as file (JSON)',
+  'hobbyShare.import.title': 'Import Hobbies',
+  'hobbyShare.import.subtitle': { one: 'Review {count} hobby before importing', other: 'Review {count} hobbies before importing' },
+  'hobbyShare.import.actionLabel': 'How to import "{name}"',
+  'hobbyShare.import.action.create': 'Add',
+  'hobbyShare.import.action.skip': 'Skip',
+  'hobbyShare.import.action.overwrite': 'Overwrite existing hobby',
+  'hobbyShare.import.action.rename': 'Add as "{name}"',
+  'hobbyShare.import.conflict': '"{name}" already exists',
+  'hobbyShare.import.duplicateInFile': 'Another hobby in the file has the same name',
+  'hobbyShare.import.temperatureRange': '{min} to {max}',
+  'hobbyShare.import.button': { one: 'Import {count} hobby', other: 'Import {count} hobbies' },
+  'hobbyShare.import.importing': 'Importing...',
+  'hobbyShare.import.success': '{created} added, {updated} overwritten, {skipped} skipped',
+  'hobbyShare.import.failed': 'Failed to import hobbies',
+  'hobbyShare.error.invalidJson': 'Could not read the file (not valid JSON)',
+  'hobbyShare.error.invalidFormat': 'This is not a hobby share file',
+  'hobbyShare.error.unsupportedVersion': 'Unsupported share format (version {version})',
+  'hobbyShare.error.empty': 'The share file contains no hobbies',
+  'hobbyShare.error.invalidHobby': 'Hobby #{index} is invalid',
+  'hobbyShare.error.invalidLink': 'The share link is invalid',
+  'hobbyShare.error.unknownWeather': 'Contains unknown weather "{weather}"',
+  'hobbyShare.error.unknownTimeOfDay': 'Contains unknown time of day "{time}"',
+
+  // カレンダーへの書き出し
+  'calendar.add': 'Add to calendar',
+  'calendar.addBestDay': 'Add the best day to your calendar (.ics)',
+  'calendar.topNLabel': 'Top days per hobby',
+  'calendar.topNOption': { one: '{count} day', other: '{count} days' },
+  'calendar.export': 'Export to calendar',
+  'calendar.name': 'Hobby recommendations',
+  'calendar.event.summary': '🎯 {hobby} ({score})',
+  'calendar.event.score': 'Score: {score}',
+  'calendar.event.weather': 'Weather: {description} (high {max} / low {min})',
+  'calendar.event.conditions': 'Chance of rain: {pop}% · Wind: {wind}',
+  'calendar.event.activityWindow': 'Activity time: {start}–{end}',
+  'calendar.event.location': 'Location: {name} ({lat}, {lon})',
+
+  // 予定（空き時間）
+  'availability.title': 'Calendar availability',
+  'availability.description': 'Import your calendar so that "Only when I\'m free" recommendations avoid days and times when you are busy. Events are stored only on this device.',
+  'availability.calendar.title': 'Import from a calendar file',
+  'availability.calendar.selectFile': 'Choose an iCalendar file (.ics)',
+  'availability.calendar.hint': 'Events from today through the next 60 days are imported. Events marked as free and cancelled events are skipped.',
+  'availability.list.title': 'Paste a list of busy times',
+  'availability.list.placeholder': '2024-05-03 09:00-12:00 Meeting\n2024-05-04\n2024-05-06 - 2024-05-08 Trip',
+  'availability.list.hint': 'Enter one per line as "date time-time title". Leave out the times for an all-day event. iCalendar text can also be pasted.',
+  'availability.list.button': 'Import',
+  'availability.importing': 'Importing...',
+  'availability.result': 'Added {added} events ({duplicates} already imported)',
+  'availability.invalidLines': 'Lines that could not be read: {lines}',
+  'availability.saved.title': { one: 'Imported events ({count})', other: 'Imported events ({count})' },
+  'availability.saved.clear': 'Delete all',
+  'availability.saved.empty': 'No events imported yet',
+  'availability.saved.delete': 'Delete the event on {interval}',
+  'availability.saved.showAll': 'Show all ({count})',
+  'availability.saved.showLess': 'Show less',
+  'availability.confirmClear': 'Delete all imported events?',
+  'availability.untitled': 'Busy',
+  'availability.allDay': 'All day',
+  'availability.range': '{start} – {end}',
+  'availability.source.ics': 'Calendar file',
+  'availability.source.manual': 'Pasted',
+  'availability.loadFailed': 'Failed to load events',
+  'availability.importFailed': 'Failed to import events',
+  'availability.deleteFailed': 'Failed to delete events',
+  'availability.error.invalidCalendar': 'This is not an iCalendar file',
+  'availability.error.empty': 'There are no events to import',
+  'recommendationFilters.availability': 'Availability',
+  'recommendationFilters.onlyWhenFree': 'Only when I\'m free',
+  'recommendationFilters.onlyWhenFreeHint': 'Avoids days and times that overlap events imported in Settings',
+  'recommendationFilters.busyHandling.exclude': 'Hide busy days',
+  'recommendationFilters.busyHandling.penalize': 'Lower the score of busy days',
+  'hiddenRecommendations.title': { one: '{count} recommendation hidden because of calendar conflicts', other: '{count} recommendations hidden because of calendar conflicts' },
+  'hiddenRecommendations.conflicts': 'Conflicts with: {events}',
+  'hiddenRecommendations.event': '{summary} ({time})',
+
+  // 週間プラン
+  'planner.title': 'Weekly plan',
+  'planner.description': 'Hobbies are assigned to days for the best total score, within each hobby\'s times per week and each day\'s limit',
+  'planner.empty': 'No recommendations to build a weekly plan from',
+  'planner.totalScore': 'Total {score} pts',
+  'planner.reset': 'Reset to automatic plan',
+  'planner.capacityLabel': 'Hobbies on {date}',
+  'planner.capacityOption': { one: '{count} hobby', other: '{count} hobbies' },
+  'planner.free': 'Nothing planned',
+  'planner.pinned': 'Added manually',
+  'planner.notPossible': 'Not possible on this day',
+  'planner.move': 'Move to…',
+  'planner.moveLabel': 'Move {hobby} to another day',
+  'planner.removeLabel': 'Remove {hobby} from this day',
+  'planner.add': 'Add hobby…',
+  'planner.addLabel': 'Add a hobby on {date}',
+  'planner.unassignedTitle': 'Hobbies that could not be fully scheduled',
+  'planner.unassigned': { one: '{hobby}: {count} more time', other: '{hobby}: {count} more times' },
+
+  // 目標
+  'goals.title': 'Goal progress',
+  'goals.loadFailed': 'Failed to load goal progress',
+  'goals.period.week': 'this week',
+  'goals.period.month': 'this month',
+  'goals.status.achieved': 'Achieved',
+  'goals.status.onTrack': 'On track',
+  'goals.status.behind': 'Behind',
+  'goals.behindCount': { one: '{count} hobby is behind', other: '{count} hobbies are behind' },
+  'goals.progress': '{completed}/{count} {period}',
+  'goals.progressLabel': '{hobby} goal progress',
+  'goals.remaining': '{count} more in {days} days',
+
+  // 典型的な天気
+  'climatology.title': 'Typical weather by month',
+  'climatology.loadFailed': 'Failed to load weather history',
+  'climatology.recordedDays': { one: '{count} day recorded since {date}', other: '{count} days recorded since {date}' },
+  'climatology.empty': 'No weather history yet. Each time the weather is fetched, the day\'s conditions are kept as history for this location.',
+  'climatology.hint': 'The more days are recorded, the closer these get to typical conditions for each time of year.',
+  'climatology.temperature': 'Temperature (average low to high)',
+  'climatology.rainDays': 'Share of rainy days',
+  'climatology.monthSummary': { one: '{month}: average {temperature} ({min} to {max}), {rain}% rainy days, wind {wind}, {count} day recorded', other: '{month}: average {temperature} ({min} to {max}), {rain}% rainy days, wind {wind}, {count} days recorded' },
+  'climatology.hobbyLabel': 'Best months for a hobby',
+  'climatology.hobbyNone': 'Select a hobby',
+  'climatology.bestMonths': 'Best months for {hobby}: {months}',
+  'climatology.bestMonth': '{month} ({ratio}% suitable days)',
+  'climatology.noBestMonths': { one: 'Best months for {hobby} appear once a month has at least {count} recorded day', other: 'Best months for {hobby} appear once a month has at least {count} recorded days' },
+};
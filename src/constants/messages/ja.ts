@@ -0,0 +1,1255 @@
+import type { Message } from '../../types/i18n';
+
+// 日本語のメッセージカタログ（キーの一覧の基準）
+export const ja = {
+  // 天気の種類
+  'weather.type.clear': '晴れ',
+  'weather.type.clouds': '曇り',
+  'weather.type.rain': '雨',
+  'weather.type.drizzle': '小雨',
+  'weather.type.thunderstorm': '雷雨',
+  'weather.type.snow': '雪',
+  'weather.type.mist': '霧',
+  'weather.type.fog': '濃霧',
+  'weather.type.haze': 'かすみ',
+  'weather.type.dust': '砂埃',
+
+  // 降水などの強さ
+  'weather.intensity.light': '弱い',
+  'weather.intensity.moderate': '並',
+  'weather.intensity.heavy': '強い',
+  'weather.intensityLimit': '{weather}（強さ: {intensity}まで）',
+  'weather.unknown': '不明',
+
+  // WMO天気コード（Open-Meteo）
+  'weather.wmo.0': '快晴',
+  'weather.wmo.1': '晴れ',
+  'weather.wmo.2': '一部曇り',
+  'weather.wmo.3': '曇り',
+  'weather.wmo.45': '霧',
+  'weather.wmo.48': '着氷性の霧',
+  'weather.wmo.51': '弱い霧雨',
+  'weather.wmo.53': '霧雨',
+  'weather.wmo.55': '強い霧雨',
+  'weather.wmo.56': '着氷性の霧雨',
+  'weather.wmo.57': '強い着氷性の霧雨',
+  'weather.wmo.61': '小雨',
+  'weather.wmo.63': '雨',
+  'weather.wmo.65': '強い雨',
+  'weather.wmo.66': '着氷性の雨',
+  'weather.wmo.67': '強い着氷性の雨',
+  'weather.wmo.71': '小雪',
+  'weather.wmo.73': '雪',
+  'weather.wmo.75': '大雪',
+  'weather.wmo.77': '霧雪',
+  'weather.wmo.80': '弱いにわか雨',
+  'weather.wmo.81': 'にわか雨',
+  'weather.wmo.82': '激しいにわか雨',
+  'weather.wmo.85': 'にわか雪',
+  'weather.wmo.86': '強いにわか雪',
+  'weather.wmo.95': '雷雨',
+  'weather.wmo.96': 'ひょうを伴う雷雨',
+  'weather.wmo.99': '激しいひょうを伴う雷雨',
+
+  // 場所の種類（検索結果）
+  'place.amenity.restaurant': 'レストラン',
+  'place.amenity.cafe': 'カフェ',
+  'place.amenity.bar': 'バー',
+  'place.amenity.fast_food': 'ファストフード',
+  'place.amenity.pub': '居酒屋',
+  'place.amenity.bank': '銀行',
+  'place.amenity.hospital': '病院',
+  'place.amenity.pharmacy': '薬局',
+  'place.amenity.school': '学校',
+  'place.amenity.university': '大学',
+  'place.amenity.library': '図書館',
+  'place.amenity.museum': '博物館',
+  'place.amenity.theatre': '劇場',
+  'place.amenity.cinema': '映画館',
+  'place.amenity.park': '公園',
+  'place.amenity.playground': '遊び場',
+  'place.amenity.swimming_pool': 'プール',
+  'place.amenity.gym': 'ジム',
+  'place.amenity.hotel': 'ホテル',
+  'place.amenity.fuel': 'ガソリンスタンド',
+  'place.amenity.parking': '駐車場',
+  'place.amenity.post_office': '郵便局',
+  'place.amenity.police': '警察署',
+  'place.amenity.fire_station': '消防署',
+  'place.shop.supermarket': 'スーパーマーケット',
+  'place.shop.convenience': 'コンビニ',
+  'place.shop.clothes': '服飾店',
+  'place.shop.electronics': '電器店',
+  'place.shop.books': '書店',
+  'place.shop.bakery': 'パン屋',
+  'place.shop.beauty': '美容院',
+  'place.shop.hairdresser': '理容室',
+  'place.shop.bicycle': '自転車店',
+  'place.shop.car': '自動車販売店',
+  'place.shop.mobile_phone': '携帯電話店',
+  'place.tourism': '観光地',
+  'place.leisure': 'レジャー施設',
+
+  // 天気データの取得元
+  'weatherProvider.openweathermap.label': 'OpenWeatherMap',
+  'weatherProvider.openweathermap.description': 'APIキーが必要です',
+  'weatherProvider.open-meteo.label': 'Open-Meteo',
+  'weatherProvider.open-meteo.description': 'APIキー不要の無料サービス',
+  'weatherProvider.local.label': 'サンプルデータ',
+  'weatherProvider.local.description': 'オフライン確認・テスト用の固定データ',
+
+  // サンプルデータの天気
+  'fixture.clearSky': '晴天',
+  'fixture.mostlyCloudy': '曇りがち',
+  'fixture.lightRain': '小雨',
+  'fixture.clear': '晴れ',
+  'fixture.thinClouds': '薄い雲',
+
+  // おすすめの理由
+  'factor.activityWindow': 'おすすめ開始: {start}〜{end}',
+  'factor.goldenHour': 'ゴールデンアワー {start}〜{end} の空が期待できます（+{bonus}点）',
+  'factor.safety.heat': '暑さ指数（WBGT）{value}：{level}',
+  'factor.safety.cold': '風を考慮した体感温度 {value}：{level}',
+  'factor.nightSky.clear': '夜間の雲量 {value}%',
+  'factor.nightSky.cloudy': '夜間の雲が多い（雲量 {value}%）',
+  'factor.nightSky.moonless': '月のない暗い空が {count} 時間',
+  'factor.nightSky.brightMoon': '明るい月が出ています（輝面比 {percent}%）',
+  'factor.nightSky.noDarkness': '一晩中薄明が続き、空が十分に暗くなりません',
+  'factor.travelOverLimit': '移動距離 {distance}km（上限 {limit}km）',
+  'factor.travelPenalty': '移動距離 {distance}km（-{penalty}点）',
+  'factor.busyPenalty': '予定あり: {summary}（-{penalty}点）',
+  'factor.blocked': '活動不可: {reason}',
+  'factor.constraint.windSpeed': '風速 {value}（上限 {limit}）',
+  'factor.constraint.precipitation': '降水確率 {value}%（上限 {limit}%）',
+  'factor.constraint.visibility': '視程 {value} km（下限 {limit} km）',
+  'factor.constraint.forbiddenWeather': '{icon} {weather}（除外する天気）',
+  'factor.constraint.minFeelsLike': '体感温度 {value}（下限 {limit}）',
+  'factor.constraint.maxFeelsLike': '体感温度 {value}（上限 {limit}）',
+  'factor.constraint.duration': '{count}分続けて活動できる時間帯がありません',
+  'factor.constraint.daylight': '日の出（{sunrise}）〜日の入り（{sunset}）の間だけ活動できます',
+  'factor.constraint.polarNight': '日の出がない日です（極夜）',
+  'factor.preferredWeather': '好適な天気: {icon} {weather} (重み: {weight})',
+  'factor.idealTemperature': '適温: {value}',
+  'factor.lowTemperature': '低温注意: {value} (推奨: {limit}以上)',
+  'factor.highTemperature': '高温注意: {value} (推奨: {limit}以下)',
+  'factor.precipitation': '降水確率: {value}%',
+  'factor.dry': '晴天: 降水確率 {value}%',
+  'factor.precipitationAmount': '降水確率: {value}%（降水量 {amount}mm）',
+  'factor.strongWind': '強風注意: {value}',
+  'factor.strongGust': '突風注意: 最大瞬間風速 {value}',
+  'factor.calmWind': '穏やかな風: {value}',
+  'factor.highUv': '強いUV: 指数 {value}',
+
+  // 共通
+  'common.hobbyActivity': '趣味活動',
+  'common.listSeparator': '、',
+
+  // 定期レポート
+  'notify.skip.noLocation': '通知対象の場所が登録されていません',
+  'notify.skip.noForecast': '天気予報データが取得できませんでした',
+  'notify.skip.noHobbies': 'アクティブな趣味が登録されていません',
+  'notify.skip.noRecommendations': '推薦データを生成できませんでした',
+  'notify.skip.error': '定期レポートの生成中にエラーが発生しました',
+  'report.period.daily': '今日',
+  'report.period.weekly': '今週',
+  'report.period.monthly': '今月',
+  'report.summary.none': '{period}は天気条件がやや厳しく、推薦できる趣味活動がありません。',
+  'report.summary.lowScores': '{period}は天気条件がやや厳しく、{count}つの趣味活動を確認しましたが高スコアの活動は少なめです。',
+  'report.summary.single': '{period}は{hobby}が特に最適です（スコア{score}点）。',
+  'report.summary.multiple': '{period}は{count}つの趣味活動が好条件です。特に{hobbies}がおすすめです。',
+  'report.summary.goalsBehind': '{hobbies}は目標より遅れています。',
+  'report.weather.unavailable': '天気データを取得できませんでした。',
+  'report.weather.current': '現在は{weather}で気温{temperature}、',
+  'report.weather.rainLikely': '降水確率{value}%と雨の可能性が高めです。',
+  'report.weather.changeable': '降水確率{value}%と変化しやすい天候です。',
+  'report.weather.stable': '降水確率{value}%と安定した天候です。',
+  'report.weather.windy': ' 風が強めです（{value}）。',
+  'report.weather.highUv': ' UV指数が高いため日焼け対策をお勧めします（UV指数{value}）。',
+  'report.stats.averageScore': '平均適性スコア: {score}点',
+  'report.stats.mixed': '（屋外{outdoor}件、屋内{indoor}件）',
+  'report.stats.outdoor': '（屋外活動中心）',
+  'report.stats.indoor': '（屋内活動中心）',
+  'report.stats.history': '。過去30日間で{count}回のレポートを送信済みです。',
+  'report.stats.unavailable': '統計データを取得できませんでした。',
+  'report.action.bestToday': '{hobby}を今日実行するのに最適です',
+  'report.action.goalBehind': '{hobby}は{period}の目標まであと{count}回です',
+  'report.action.rainIndoor': '雨の準備をして屋内活動を優先しましょう',
+  'report.action.umbrella': '折りたたみ傘を持参して屋外活動を楽しみましょう',
+  'report.action.uv': '日焼け止めと帽子で紫外線対策をしましょう',
+  'report.action.wind': '風が強いため屋外活動時は注意が必要です',
+  'report.action.cold': '防寒対策をしっかりと行いましょう',
+  'report.action.heat': '水分補給と熱中症対策を忘れずに',
+  'report.action.rest': '今日は趣味活動より休息日として過ごすのも良いでしょう',
+  'report.title': '📊 今日の趣味レポート（{location}）',
+
+  // 通知
+  'notify.locationPrefix': '【{location}】',
+  'notify.skip.belowScore': 'スコア{score}以上の趣味がありません',
+  'notify.skip.cooldown': 'クールダウン期間中です',
+  'notify.skip.evaluationError': '評価中にエラーが発生しました',
+  'notify.defaultReason': '天気に基づいた推薦',
+  'notify.highScore.title': '🌟 {hobby}の高スコア！',
+  'notify.highScore.message': 'スコア{score}点！{weather}で活動に最適です。',
+  'notify.highScore.single.title': '{hobby}が最適です！',
+  'notify.highScore.single.message': '{prefix}{weather}で気温{temperature}。スコア{score}点の高評価です！',
+  'notify.highScore.multiple.title': '{count}つの趣味が最適です！',
+  'notify.highScore.multiple.message': '{prefix}{weather}で気温{temperature}。{hobbies}などがおすすめです。最高スコア: {score}点',
+  'notify.detailedHighScore.single.title': '🌟 {hobby}が最適！',
+  'notify.detailedHighScore.multiple.title': '⭐ {count}つの趣味が最適です！',
+  'notify.weatherAlert.title': '{icon} 天気急変アラート',
+  'notify.severity.low': '天気情報',
+  'notify.severity.medium': '天気注意報',
+  'notify.severity.high': '天気警報',
+  'notify.severity.urgent': '天気急変警報',
+  'notify.report.title': '📊 今日の趣味レポート',
+  'notify.test.title': '🧪 テスト通知',
+  'notify.test.message': '通知機能が正常に動作しています。',
+
+  // 天気急変アラート
+  'alert.noLocation': '通知対象の場所がありません',
+  'alert.evaluationError': '天気アラートの評価中にエラーが発生しました',
+  'alert.unknownError': '不明なエラー',
+  'alert.fetchFailed': '天気データの取得に失敗しました',
+  'alert.cooldown': 'クールダウン期間中',
+  'alert.cooldownSkipped': 'クールダウン期間中のためアラートをスキップ',
+  'alert.notTriggered': 'アラート条件未達',
+  'alert.temperatureRise': '気温が{value}上昇しました',
+  'alert.temperatureDrop': '気温が{value}下降しました',
+  'alert.precipitationIncrease': '降水確率が{value}%上昇しました',
+  'alert.windIncrease': '風速が{value}増加しました',
+  'alert.generic': '天気急変アラート: {type}',
+  'alert.rainWarning': '雨が降る可能性が高くなりました（降水確率{value}%）',
+  'alert.temperatureDropForecast': '気温が大幅に下がる予報です（{value}）',
+  'alert.highWind': '強い風の予報です（風速{value}）',
+  'alert.heavyRain': 'まとまった雨の予報です（降水量{value}mm）',
+  'alert.strongGust': '突風の予報です（最大瞬間風速{value}）',
+  'alert.poorVisibility': '視界が悪くなる予報です（視界{value}km）',
+  'alert.extremeUv': 'UV指数が非常に高くなっています（UV指数{value}）',
+  'alert.heatstrokeRisk': '熱中症の危険が高まっています（暑さ指数 {value}・{level}）',
+  'alert.coldStress': '厳しい寒さです（風を考慮した体感温度 {value}・{level}）',
+
+  // 通知スケジューラー
+  'scheduler.placeholderMessage': '通知メッセージ',
+  'scheduler.currentWeather': '現在の天気',
+  'scheduler.currentConditions': '現在の天気条件',
+  'scheduler.highScoreChecked': '趣味チェック完了',
+  'scheduler.noHighScore': '現在、高スコアの趣味はありません',
+  'scheduler.monitoring': '天気監視中',
+  'scheduler.noAlerts': '現在、注意すべき天気の変化はありません',
+  'scheduler.reportTitle': '📊 趣味レポート',
+  'scheduler.reportFailed': 'レポートを生成できませんでした',
+
+  // 位置情報
+  'geolocation.unsupported': 'このブラウザは位置情報をサポートしていません',
+  'geolocation.denied': '位置情報の取得が拒否されました',
+  'geolocation.unavailable': '位置情報を取得できませんでした',
+  'geolocation.timeout': '位置情報の取得がタイムアウトしました',
+  'geolocation.failed': '位置情報の取得に失敗しました',
+
+  // 通知設定の初期値
+  'notificationConfig.highScore': '高スコア通知',
+  'notificationConfig.weatherAlert': '天気急変アラート',
+  'notificationConfig.regularReport': '今日の趣味レポート',
+
+  // APIキー診断の推奨事項
+  'diagnostics.recommendation.envMissing': '❌ 環境変数 VITE_OPENWEATHER_API_KEY が設定されていません',
+  'diagnostics.recommendation.envHint': '💡 .env.local ファイルにAPIキーを設定してください',
+  'diagnostics.recommendation.envShort': '⚠️ APIキーの長さが短すぎる可能性があります',
+  'diagnostics.recommendation.envOk': '✅ 環境変数は正しく設定されています',
+  'diagnostics.recommendation.serviceMissing': '❌ WeatherServiceでAPIキーが読み込まれていません',
+  'diagnostics.recommendation.serviceHint': '💡 開発サーバーを再起動してください',
+  'diagnostics.recommendation.serviceOk': '✅ WeatherServiceでAPIキーが確認できました',
+  'diagnostics.recommendation.connectionFailed': '❌ API接続に失敗しました',
+  'diagnostics.recommendation.invalidKey': '💡 APIキーが無効です。OpenWeatherMapで確認してください',
+  'diagnostics.recommendation.rateLimited': '💡 API使用制限に達しています。しばらく待ってから再試行してください',
+  'diagnostics.recommendation.networkHint': '💡 ネットワーク接続またはAPIキーを確認してください',
+  'diagnostics.recommendation.connectionOk': '✅ API接続が正常に動作しています',
+
+  // スコア計算
+  'scoringPreset.balanced.label': '標準',
+  'scoringPreset.balanced.description': '天気・気温・降水をバランスよく評価',
+  'scoringPreset.wind-sensitive.label': '風に弱い',
+  'scoringPreset.wind-sensitive.description': 'カヤック・ドローン・釣りなど風の影響を受けやすい趣味向け',
+  'scoringPreset.rain-tolerant.label': '雨に強い',
+  'scoringPreset.rain-tolerant.description': '多少の雨なら問題ない趣味向け（降水の影響を抑える）',
+  'scoringPreset.sun-seeking.label': '日差し重視',
+  'scoringPreset.sun-seeking.description': '写真撮影・日光浴など晴れていることが重要な趣味向け',
+  'scoringPreset.custom.label': 'カスタム',
+  'scoreFactor.weather': '天気',
+  'scoreFactor.temperature': '気温',
+  'scoreFactor.precipitation': '降水確率',
+  'scoreFactor.wind': '風速',
+  'scoreFactor.uv': 'UV指数',
+  'scoreFactor.cloudCover': '夜間の雲量',
+  'scoreFactor.moonlight': '月明かり',
+  'scoreFactor.darkness': '暗い時間',
+
+  // 活動の評価
+  'rating.1': '最悪',
+  'rating.2': 'いまいち',
+  'rating.3': 'ふつう',
+  'rating.4': '良い',
+  'rating.5': '最高',
+
+  // 単位
+  'units.celsius': '摂氏（°C）',
+  'units.fahrenheit': '華氏（°F）',
+  'units.ms': 'メートル毎秒（m/s）',
+  'units.kmh': 'キロメートル毎時（km/h）',
+  'units.mph': 'マイル毎時（mph）',
+
+  // 趣味候補・時間帯
+  'suggestionCategory.nature': '自然系アウトドア',
+  'suggestionCategory.active': 'アクティブ系アウトドア',
+  'suggestionCategory.sports': 'スポーツ・運動系',
+  'timeOfDay.morning': '朝',
+  'timeOfDay.day': '昼',
+  'timeOfDay.evening': '夕',
+  'timeOfDay.night': '夜',
+  'app.updateAvailable': '新しいバージョンが利用可能です。アプリを再読み込みしますか？',
+
+  // 設定画面：言語・単位
+  'settings.language.title': '表示言語',
+  'settings.units.title': '単位設定',
+  'settings.units.temperature': '気温',
+  'settings.units.windSpeed': '風速',
+  'settings.units.example': '表示例',
+  'settings.units.exampleValue': '気温 {temperature}・風速 {windSpeed}',
+
+  // 設定画面
+  'settings.title': '設定',
+  'settings.description': 'アプリケーションの動作設定を管理します',
+  'settings.apiKey.title': 'API Key設定',
+  'settings.apiKey.localBadge': 'ローカル保存',
+  'settings.apiKey.requiredTitle': 'API Key設定が必要です',
+  'settings.apiKey.requiredDescription': '天気データを取得するには、OpenWeatherMap API Keyの設定が必要です。設定したAPI Keyはブラウザのローカルストレージに保存されます。',
+  'settings.apiKey.getKeyHint': 'でAPI Keyを取得してください（無料）',
+  'settings.apiKey.saved': 'API Key設定を保存しました。次回のAPI呼び出しから新しいキーが使用されます。',
+  'settings.apiKey.saveFailed': 'API Key設定の保存に失敗しました',
+  'settings.apiKey.cleared': 'API Key設定をクリアしました',
+  'settings.notifications.title': '通知設定',
+  'settings.diagnostics.title': 'API接続診断',
+  'common.save': '保存',
+  'common.saving': '保存中...',
+  'common.clear': 'クリア',
+
+  // 設定画面：セットアップリセット
+  'setupReset.confirm': 'セットアップ情報をリセットしますか？\n\n以下の設定が削除されます：\n• 初期セットアップ完了フラグ\n• API Key設定\n• 場所設定\n• 趣味データ\n\n次回起動時に初期セットアップから開始されます。',
+  'setupReset.success': 'セットアップ情報をリセットしました。ページを再読み込みすると初期セットアップが開始されます。',
+  'setupReset.failed': 'セットアップ情報のリセットに失敗しました。',
+  'setupReset.title': 'セットアップリセット',
+  'setupReset.dangerBadge': '危険操作',
+  'setupReset.heading': 'セットアップ情報のリセット',
+  'setupReset.description': '全ての設定と登録データを削除し、初期セットアップからやり直すことができます。',
+  'setupReset.deletedItems': '削除される内容：',
+  'setupReset.item.apiKey': 'API Key設定',
+  'setupReset.item.locations': '場所設定',
+  'setupReset.item.hobbies': '登録済みの趣味',
+  'setupReset.item.weatherCache': '天気データキャッシュ',
+  'setupReset.item.setupFlag': '初期セットアップ完了フラグ',
+  'setupReset.resetting': 'リセット中...',
+  'setupReset.reset': 'セットアップをリセット',
+  'setupReset.backToSetup': '初期セットアップに戻る',
+
+  // 設定画面：セットアップ状態
+  'setupStatus.notSet': '未設定',
+  'setupStatus.title': 'セットアップ状態',
+  'setupStatus.badge': '初期設定',
+  'setupStatus.configured': '✓ 設定済み',
+  'setupStatus.missing': '✗ 未設定',
+  'setupStatus.location': '場所',
+  'setupStatus.hobbies': '趣味',
+  'setupStatus.hobbiesRegistered': '✓ {count}件登録済み',
+  'setupStatus.hobbiesOptional': '- 未登録（任意）',
+  'setupStatus.overall': '初期セットアップ状態:',
+  'setupStatus.completed': '✓ 完了',
+  'setupStatus.incomplete': '⚠ 未完了',
+  'setupStatus.requirements': '必須: API Key, 場所 | 任意: 趣味',
+
+  // テーマ
+  'theme.mode.light': 'ライトモード',
+  'theme.mode.dark': 'ダークモード',
+  'theme.settings.title': 'テーマ設定',
+  'theme.settings.appearance': '外観モード',
+  'theme.settings.mode.light': 'ライトモード',
+  'theme.settings.mode.dark': 'ダークモード',
+  'theme.settings.mode.system': 'システム設定に従う',
+  'theme.settings.modeDescription.light': '常に明るいテーマを使用',
+  'theme.settings.modeDescription.dark': '常に暗いテーマを使用',
+  'theme.settings.systemCurrent': 'システム設定: {mode}',
+  'theme.settings.current': '現在のテーマ',
+  'theme.settings.accessibility': 'アクセシビリティ',
+  'theme.settings.highContrast': '高コントラストモード',
+  'theme.settings.highContrastDescription': '視認性を向上させるため、より強いコントラストを使用',
+  'theme.settings.reducedMotion': '動きの軽減',
+  'theme.settings.reducedMotionDescription': 'アニメーションと視覚効果を最小限に抑制',
+  'theme.settings.fontSize': 'フォントサイズ',
+  'theme.settings.fontSize.small': '小',
+  'theme.settings.fontSize.medium': '中',
+  'theme.settings.fontSize.large': '大',
+  'theme.settings.preview': 'プレビュー',
+  'theme.settings.primaryColor': 'プライマリカラー',
+  'theme.settings.secondaryColor': 'セカンダリカラー',
+  'theme.settings.accentColor': 'アクセントカラー',
+  'theme.settings.sampleText': 'サンプルテキスト',
+  'theme.settings.detailText': '詳細テキスト',
+  'theme.settings.success': '成功',
+  'theme.settings.warning': '警告',
+  'theme.settings.error': 'エラー',
+  'theme.toggle.mode.light': 'ライトモード',
+  'theme.toggle.mode.dark': 'ダークモード',
+  'theme.toggle.mode.system': 'システム設定',
+  'theme.toggle.selected': '{mode}（現在選択中）',
+  'theme.toggle.select': 'テーマ選択',
+  'theme.toggle.switch': 'テーマを切り替え',
+  'theme.toggle.switchLabel': 'テーマを切り替え（{description}）',
+  'theme.toggle.menuLabel': 'テーマ選択メニュー（{description}）',
+  'theme.toggle.current': '選択中',
+
+  // PWA
+  'pwa.install.title': 'アプリをインストール',
+  'pwa.install.description': 'ホーム画面に追加してより簡単にアクセス',
+  'pwa.install.action': 'インストール',
+  'pwa.offline': 'オフラインモードで動作中 - 保存済みデータを表示',
+  'common.close': '閉じる',
+  'common.cancel': 'キャンセル',
+
+  // 通知許可
+  'notificationPrompt.unsupportedTitle': '通知機能がサポートされていません',
+  'notificationPrompt.unsupportedDescription': 'お使いのブラウザは通知機能をサポートしていません。',
+  'notificationPrompt.grantedTitle': '通知が有効です',
+  'notificationPrompt.grantedDescription': '趣味に最適なタイミングで通知をお送りします。',
+  'notificationPrompt.sendTest': 'テスト送信',
+  'notificationPrompt.deniedTitle': '通知が無効になっています',
+  'notificationPrompt.deniedDescription': 'ブラウザの設定から通知を許可してください。設定 → プライバシーとセキュリティ → 通知',
+  'notificationPrompt.requestTitle': '通知を有効にしませんか？',
+  'notificationPrompt.requestDescription': '天気に合わせた最適なタイミングで趣味活動をお知らせします。',
+  'notificationPrompt.checking': '確認中...',
+  'notificationPrompt.allow': '通知を許可',
+
+  // 通知設定
+  'notificationSettings.error': 'エラーが発生しました',
+  'notificationSettings.title': '🔔 通知設定',
+  'notificationSettings.enabled': '通知機能',
+  'notificationSettings.enabledDescription': 'すべての通知の有効/無効を切り替え',
+  'notificationSettings.quietHours': '静寂時間',
+  'notificationSettings.quietHoursDescription': '指定した時間は通知を送信しません',
+  'notificationSettings.from': 'から',
+  'notificationSettings.until': 'まで',
+  'notificationSettings.maxDaily': '1日の最大通知数',
+  'notificationSettings.maxDailyDescription': '1日に送信する通知の上限数',
+  'notificationSettings.sound': '通知音',
+  'notificationSettings.soundDescription': '通知時に音を再生',
+  'notificationSettings.vibration': 'バイブレーション',
+  'notificationSettings.vibrationDescription': '通知時に振動（対応デバイスのみ）',
+  'notificationSettings.typesTitle': '📋 通知タイプ設定',
+  'notificationSettings.noConfigs': '通知設定がありません',
+  'notificationSettings.statsTitle': '📊 通知統計',
+  'notificationSettings.totalSent': '総送信数',
+  'notificationSettings.clickRate': 'クリック率',
+  'notificationSettings.dismissRate': '非表示率',
+  'notificationSettings.times': '{count}回',
+  'notificationSettings.reloadStats': '再読み込み',
+  'notificationSettings.showStats': '統計を表示',
+  'notificationSettings.type.highScore': '趣味活動の高スコア通知',
+  'notificationSettings.type.weatherAlert': '天気急変アラート',
+  'notificationSettings.type.regularReport': '定期的な趣味レポート',
+  'notificationSettings.type.default': '通知',
+
+  // スケジューラー監視
+  'schedulerMonitor.title': '🕒 スケジューラー監視',
+  'schedulerMonitor.refresh': '更新',
+  'schedulerMonitor.error': 'エラー',
+  'schedulerMonitor.status': 'ステータス',
+  'schedulerMonitor.scheduled': 'スケジュール済み',
+  'schedulerMonitor.nextRun': '次回実行',
+  'schedulerMonitor.start': 'スケジューラー開始',
+  'schedulerMonitor.stop': 'スケジューラー停止',
+  'schedulerMonitor.nextTask': '次回実行予定',
+  'schedulerMonitor.empty': 'スケジュール済みのタスクがありません',
+  'schedulerMonitor.emptyHint': '通知設定を有効にするとタスクが表示されます',
+  'schedulerMonitor.overdue': '期限切れ',
+  'schedulerMonitor.inDays': '{count}日後',
+  'schedulerMonitor.inHours': '{count}時間後',
+  'schedulerMonitor.inMinutes': '{count}分後',
+  'schedulerMonitor.soon': '間もなく',
+  'schedulerMonitor.running': '動作中',
+  'schedulerMonitor.stopped': '停止中',
+  'schedulerMonitor.tasks': 'スケジュール済みタスク ({count})',
+  'common.hide': '非表示',
+  'common.show': '表示',
+
+  // アプリ全体
+  'app.initializing': 'アプリケーションを初期化中...',
+  'app.name': '趣味予報',
+  'app.footer': '© 2025 趣味予報 - 天気に基づく趣味おすすめアプリ',
+  'common.loading': '読み込み中...',
+  'app.tab.recommendations': 'おすすめ',
+  'app.tab.weather': '天気',
+  'app.tab.hobbies': '趣味管理',
+  'app.tab.journal': '記録',
+  'app.tab.settings': '設定',
+  'app.logoAlt': '趣味予報アプリのロゴ',
+  'app.mainNavigation': 'メインナビゲーション',
+  'app.showTab': '{tab}を表示',
+
+  // 活動記録
+  'journal.empty': 'まだ活動記録がありません',
+  'journal.emptyHint': 'おすすめの詳細から「この日に実施した」を選ぶと記録されます',
+  'journal.addPhoto': '写真を追加',
+  'journal.deletePhoto': '{name}を削除',
+  'journal.notePlaceholder': 'メモを追加',
+  'journal.deletedHobby': '削除された趣味',
+  'journal.predictedScore': '予測スコア {score}点',
+  'journal.confirmDelete': 'この記録を削除しますか？写真も削除されます。',
+  'weather.windSpeedValue': '風速 {value}',
+  'weather.popValue': '降水確率 {value}%',
+  'common.delete': '削除',
+
+  // 活動記録ページ
+  'journal.title': '活動記録',
+  'journal.description': '実施した趣味の記録とその日の天気を振り返れます',
+  'journal.hobbyFilter': '趣味',
+  'common.errorOccurred': 'エラーが発生しました',
+  'common.dismissError': 'エラーを閉じる',
+  'common.all': 'すべて',
+  'common.refresh': '更新',
+  'common.totalCount': '全 {count} 件',
+
+  // フック: useActivityLog.ts
+  'activityLog.loadFailed': '活動記録の読み込みに失敗しました',
+  'activityLog.saveFailed': '活動の記録に失敗しました',
+
+  // フック: useHobby.ts
+  'hobby.loadFailed': '趣味の読み込みに失敗しました',
+  'hobby.createFailed': '趣味の作成に失敗しました',
+  'hobby.updateFailed': '趣味の更新に失敗しました',
+  'hobby.deleteFailed': '趣味の削除に失敗しました',
+  'hobby.notFound': '趣味が見つかりません',
+  'validation.nameRequired': '趣味名は必須です',
+  'validation.nameTooLong': '趣味名は50文字以内で入力してください',
+  'validation.descriptionTooLong': '説明は200文字以内で入力してください',
+  'validation.weatherRequired': '希望天気を少なくとも1つ選択してください',
+  'validation.durationRange': '活動時間は1分〜24時間の範囲で設定してください',
+  'validation.weeklyFrequencyRange': '週の回数は1〜7回の整数で設定してください',
+  'validation.goalPeriod': '目標の期間は週か月を選んでください',
+  'validation.scoringMode': 'スコア計算の方法は weather か night-sky を指定してください',
+  'validation.goalCountRange': '目標の回数は1〜{max}回の整数で設定してください',
+  'validation.earliestStartFormat': '開始可能時刻はHH:mm形式で入力してください',
+  'validation.latestEndFormat': '終了時刻はHH:mm形式で入力してください',
+  'validation.endBeforeStart': '終了時刻は開始可能時刻より後に設定してください',
+  'validation.maxWindSpeed': '最大風速は0以上で設定してください',
+  'validation.maxPrecipitation': '最大降水確率は0-100%の範囲で設定してください',
+  'validation.minVisibility': '最低視程は0以上で設定してください',
+  'validation.feelsLikeRange': '最低体感温度は最高体感温度以下で設定してください',
+  'validation.forbiddenWeather': '除外する天気は天気の種類の一覧で指定してください',
+  'validation.scoringProfile': 'スコア計算の重み付けは既定のプリセットと、各要素の0以上の数値で指定してください',
+
+  // フック: useJournal.ts
+  'journal.loadFailed': '活動記録の読み込みに失敗しました',
+  'journal.noteSaveFailed': 'メモの保存に失敗しました',
+  'journal.deleteFailed': '活動記録の削除に失敗しました',
+  'journal.photoSaveFailed': '写真の保存に失敗しました',
+  'journal.photoDeleteFailed': '写真の削除に失敗しました',
+
+  // フック: useLocationComparison.ts
+  'locationComparison.failed': '場所の比較に失敗しました',
+
+  // フック: useNotificationConfig.ts
+  'notificationConfig.loadFailed': '通知設定の読み込みに失敗しました',
+  'notificationConfig.createFailed': '通知設定の作成に失敗しました',
+  'notificationConfig.updateFailed': '通知設定の更新に失敗しました',
+  'notificationConfig.deleteFailed': '通知設定の削除に失敗しました',
+  'notificationConfig.toggleFailed': '通知設定の切り替えに失敗しました',
+  'notificationConfig.globalUpdateFailed': 'グローバル設定の更新に失敗しました',
+  'notificationConfig.reloadFailed': '通知設定の再読み込みに失敗しました',
+  'notificationConfig.historyReloadFailed': '通知履歴の再読み込みに失敗しました',
+
+  // フック: useNotificationScheduler.ts
+  'schedulerMonitor.statusFailed': 'スケジューラー状態の取得に失敗',
+  'schedulerMonitor.startFailed': 'スケジューラーの開始に失敗',
+  'schedulerMonitor.stopFailed': 'スケジューラーの停止に失敗',
+
+  // フック: useRecommendation.ts
+  'recommendation.generateFailed': '推薦の生成に失敗しました',
+
+  // フック: useWeather.ts
+  'weather.fetchFailed': '天気情報の取得に失敗しました',
+  'weather.locationFailed': '位置情報の取得に失敗しました',
+
+  // フック: useInitialSetup.ts
+  'setup.step.apiKey.title': 'API Key設定',
+  'setup.step.apiKey.description': '天気情報を取得するためのAPI Keyを設定してください',
+  'setup.step.location.title': '場所設定',
+  'setup.step.location.description': '天気予報を取得する場所を設定してください',
+  'setup.step.hobbies.title': '趣味登録',
+  'setup.step.hobbies.description': 'あなたの趣味を登録してパーソナライズされた推薦を受けましょう',
+
+  // フック: useHobby.ts（続き）
+  'validation.weatherWeightRange': '天気条件{index}のスコアは1-10の範囲で設定してください',
+  'validation.weatherIntensity': '天気条件{index}の強さは雨・霧雨・雪・雷雨に light / moderate / heavy で指定してください',
+
+  // 活動記録の統計
+  'journalStats.averageRating': '平均評価',
+  'journalStats.typicalWeather': 'よくある天気',
+  'journalStats.averageConditions': '平均気温 / 風速',
+  'journalStats.bestRatedWeather': '評価が高い天気',
+  'journalStats.perMonth': '月ごとの回数',
+  'journalStats.sessions': '{count}回',
+
+  // 場所の選択
+  'locationSelector.current': '現在の場所',
+  'locationSelector.notSet': '場所が設定されていません',
+  'locationSelector.weatherSource': '天気データ:',
+  'locationSelector.search': '場所を検索',
+  'locationSelector.results': '検索結果',
+  'locationSelector.saved': '保存済みの場所',
+  'locationSelector.noResults': '該当する場所が見つかりませんでした',
+  'locationSelector.searchFailed': '検索に失敗しました',
+  'locationSelector.saveFailed': '場所の保存に失敗しました',
+  'locationSelector.missingId': '場所IDが見つかりません',
+  'locationSelector.selectFailed': '場所の選択に失敗しました',
+  'locationSelector.providerChangeFailed': 'データ取得元の変更に失敗しました',
+  'locationSelector.alertsChangeFailed': '通知設定の変更に失敗しました',
+  'locationSelector.type.city': '都市',
+  'locationSelector.type.business': '店舗',
+  'locationSelector.type.landmark': 'ランドマーク',
+  'locationSelector.type.address': '住所',
+  'locationSelector.type.default': '場所',
+  'locationSelector.default': 'デフォルト',
+  'locationSelector.providerOption': '{label}（{description}）',
+  'locationSelector.getCurrent': '現在地を取得',
+  'locationSelector.locating': '取得中...',
+  'locationSelector.currentButton': '📍 現在地',
+  'locationSelector.change': '場所を変更',
+  'locationSelector.searchPlaceholder': '場所を検索（都市名、店舗名、ランドマークなど）',
+  'locationSelector.searching': '検索中...',
+  'locationSelector.searchButton': '検索',
+  'locationSelector.disableAlerts': '通知の対象から外す',
+  'locationSelector.enableAlerts': '通知の対象にする',
+
+  // 現在の天気
+  'weatherCard.title': '現在の天気',
+  'weatherCard.humidity': '湿度',
+  'weatherCard.windSpeed': '風速',
+  'weatherCard.pressure': '気圧',
+  'weatherCard.visibility': '視界',
+  'weatherCard.cloudiness': '雲量',
+  'weatherCard.uvIndex': 'UV指数',
+  'weatherCard.sunriseSunset': '日の出 / 日の入り',
+  'weatherCard.direction.n': '北',
+  'weatherCard.direction.ne': '北東',
+  'weatherCard.direction.e': '東',
+  'weatherCard.direction.se': '南東',
+  'weatherCard.direction.s': '南',
+  'weatherCard.direction.sw': '南西',
+  'weatherCard.direction.w': '西',
+  'weatherCard.direction.nw': '北西',
+  'weatherCard.uv.low': '弱い',
+  'weatherCard.uv.moderate': '中程度',
+  'weatherCard.uv.high': '強い',
+  'weatherCard.uv.veryHigh': '非常に強い',
+  'weatherCard.uv.extreme': '極端',
+  'weatherCard.feelsLike': '体感温度 {value}',
+  'weatherCard.fetchedAt': 'データ取得時刻: {time}',
+
+  // 日別予報
+  'forecastCard.highLow': '最高/最低',
+  'forecastCard.pop': '降水確率',
+  'forecastCard.precipitationAmount': '{value} mm',
+  'forecastCard.windGust': '最大瞬間風速',
+  'forecastCard.partial': '一部の時間のみ',
+  'forecastCard.partialHint': '予報の取得期間の終わりのため、この日の途中までしか予報がありません',
+  'forecastCard.confidence': '信頼度 {percent}%',
+  'forecastCard.sunrise': '日の出',
+  'forecastCard.sunset': '日の入り',
+  'forecastCard.goldenHour': 'ゴールデンアワー',
+  'forecastCard.blueHour': 'ブルーアワー',
+  'forecastCard.timeRange': '{start}〜{end}',
+  'forecastCard.polarDay': '白夜（日が沈みません）',
+  'forecastCard.polarNight': '極夜（日が昇りません）',
+  'common.today': '今日',
+  'common.tomorrow': '明日',
+
+  // 週間予報
+  'forecastList.title': '7日間の天気予報',
+  'forecastList.empty': '予報データがありません',
+  'forecastList.emptyHint': '天気予報を取得できませんでした。',
+  'forecastList.hourly': '時間ごとの予報',
+  'forecastList.summary': '週間サマリー',
+  'forecastList.highest': '最高気温',
+  'forecastList.lowest': '最低気温',
+  'forecastList.averageHumidity': '平均湿度',
+  'forecastList.rainyDays': '降水日数',
+  'forecastList.detail': '{count}日間の詳細予報',
+  'forecastList.confidenceNote': '先の日ほど予報の信頼度が下がるため、信頼度の低い日は薄く表示しています',
+  'forecastList.updatedAt': '更新: {time}',
+  'forecastList.days': '{count}日',
+
+  // 時間ごとの予報
+  'hourlyTimeline.recommendedWindows': 'おすすめの時間帯',
+  'common.points': '{score}点',
+
+  // 天気予報ページ
+  'weatherDisplay.title': '天気予報',
+  'weatherDisplay.description': '現在の天気と7日間の予報をチェック',
+  'weatherDisplay.loading': '天気データを取得中...',
+  'weatherDisplay.empty': '天気データがありません',
+  'weatherDisplay.emptyHint': '天気データを取得できませんでした。再度お試しください。',
+  'weatherDisplay.retry': '再試行',
+  'weatherDisplay.selectLocation': '場所を選択してください',
+  'weatherDisplay.selectLocationHint': '天気予報を表示するには、まず場所を選択または現在地を取得してください。',
+  'weatherDisplay.stats': '統計情報',
+  'weatherDisplay.currentTemperature': '現在気温',
+  'weatherDisplay.weeklyHigh': '週間最高',
+  'weatherDisplay.weeklyLow': '週間最低',
+  'weatherDisplay.clearDays': '晴れ予想日',
+  'weatherDisplay.refreshing': '更新中...',
+  'weatherDisplay.refresh': '天気を更新',
+
+  // おすすめカード
+  'recommendationCard.outdoor': '屋外',
+  'recommendationCard.goalBehind': '目標まであと{count}回',
+  'recommendationCard.adjustedScore': '信頼度{percent}%を反映すると{score}点',
+  'recommendationCard.bestDay': '最適な日',
+  'recommendationCard.noPossibleDays': '🚫 実施できる日がありません',
+  'recommendationCard.matching': '✓ 良い条件',
+  'recommendationCard.warnings': '⚠ 注意事項',
+  'recommendationCard.otherDays': '他の候補日',
+  'recommendationCard.viewDetails': '詳細を見る →',
+  'recommendationCard.scoreLabel.excellent': '最適',
+  'recommendationCard.scoreLabel.good': '良好',
+  'recommendationCard.scoreLabel.fair': '普通',
+  'recommendationCard.scoreLabel.poor': '注意',
+  'recommendationCard.activityWindow': '{start}〜{end} （最も条件が悪い時間: {worst}・{score}点）',
+  'recommendationCard.heatRisk': '熱中症 {level}',
+  'recommendationCard.heatDetails': '暑さ指数 {wbgt}・熱指数 {heatIndex}・不快指数 {discomfort}',
+  'recommendationCard.coldRisk': '寒さ {level}',
+  'recommendationCard.coldDetails': '風を考慮した体感温度 {windChill}',
+
+  // 暑さ・寒さの段階
+  'safety.wbgt.safe': 'ほぼ安全',
+  'safety.wbgt.caution': '注意',
+  'safety.wbgt.warning': '警戒',
+  'safety.wbgt.severeWarning': '厳重警戒',
+  'safety.wbgt.danger': '危険（運動は原則中止）',
+  'safety.cold.none': '低い',
+  'safety.cold.caution': '注意',
+  'safety.cold.warning': '警戒（凍傷のおそれ）',
+  'safety.cold.danger': '危険（短時間で凍傷のおそれ）',
+  'recommendationCard.impossible': '活動不可',
+  'recommendationCard.forecastDays': '{count}日間の予測',
+  'recommendationCard.impossibleDays': '（うち活動不可 {count}日）',
+
+  // おすすめ一覧
+  'recommendationList.calculating': 'おすすめを計算中...',
+  'recommendationList.empty': 'おすすめがありません',
+  'recommendationList.emptyHint': '現在の条件ではおすすめできる趣味がありません。',
+  'recommendationList.emptyAction': '趣味を追加するか、条件を変更してください。',
+  'recommendationList.title': '趣味おすすめ日',
+  'recommendationList.description': '天気予報に基づいて最適な趣味とタイミングを提案します。',
+  'recommendationList.generating': '生成中...',
+  'recommendationList.refresh': '推薦を更新',
+
+  // おすすめページ
+  'recommendationDashboard.generateFailed': '推薦の生成に失敗しました',
+  'recommendationDashboard.prerequisites': '推薦を生成するための準備',
+  'recommendationDashboard.hintsTitle': '推薦のヒント',
+  'recommendationDashboard.needLocation': '場所を選択してください',
+  'recommendationDashboard.needForecast': '天気予報を取得してください',
+  'recommendationDashboard.needHobbies': '趣味を登録してください',
+  'recommendationDashboard.mode.days': '📅 日程で探す',
+  'recommendationDashboard.mode.locations': '📍 場所を比較',
+  'recommendationDashboard.mode.planner': '🗓️ 週間プラン',
+  'recommendationDashboard.failedLocations': '天気予報を取得できなかった場所: {locations}',
+  'recommendationDashboard.hint.settings': '・趣味の天気設定や気温範囲を確認してください',
+  'recommendationDashboard.hint.filters': '・フィルター条件が厳しすぎる可能性があります',
+  'recommendationDashboard.hint.forecast': '・予報期間中に適した条件がないかもしれません',
+
+  // 場所の比較
+  'locationComparison.comparing': '各地の天気予報を比較中...',
+  'locationComparison.notEnough': '比較する場所が足りません',
+  'locationComparison.notEnoughHint': '天気タブで場所を2か所以上登録すると、場所ごとのおすすめを比較できます。',
+  'locationComparison.emptyHint': 'どの場所でも現在の条件に合う日がありません。',
+  'locationComparison.noPossibleDays': '🚫 どの場所にも実施できる日がありません',
+  'locationComparison.place': '場所',
+  'locationComparison.bestDay': '最適日',
+  'locationComparison.overall': '総合',
+  'locationComparison.dayTemperature': '{date}・{max}° / {min}°',
+  'locationComparison.bestDayScore': '{date}（{score}点）',
+
+  // おすすめの絞り込み
+  'recommendationFilters.title': 'フィルター',
+  'recommendationFilters.minScore': '最小スコア',
+  'recommendationFilters.weather': '天気',
+  'recommendationFilters.weekday': '曜日',
+  'recommendationFilters.excludeWeekends': '週末を除外',
+  'recommendationFilters.excludeWeekdays': '平日を除外',
+  'recommendationFilters.dateRange': '期間設定',
+  'recommendationFilters.startDate': '開始日',
+  'recommendationFilters.endDate': '終了日',
+  'recommendationFilters.weatherConditions': '天気条件',
+  'recommendationFilters.active': '適用中',
+  'recommendationFilters.advanced': '詳細設定',
+  'recommendationFilters.scoreAtLeast': '{score}点以上',
+
+  // おすすめ詳細モーダル
+  'recommendationDetail.subtitle': '詳細なおすすめ情報',
+  'recommendationDetail.outdoor': '屋外活動',
+  'recommendationDetail.overallScore': '総合スコア',
+  'recommendationDetail.preferredWeather': '好適天気:',
+  'recommendationDetail.noPreference': '指定なし',
+  'recommendationDetail.temperatureRange': '適温範囲:',
+  'recommendationDetail.scoringProfile': 'スコア設定:',
+  'recommendationDetail.createdAt': '作成日:',
+  'recommendationDetail.bestDay': '最適日',
+  'recommendationDetail.breakdown': 'スコアの内訳',
+  'recommendationDetail.factor': '要素',
+  'recommendationDetail.rating': '評価',
+  'recommendationDetail.weight': '重み',
+  'recommendationDetail.contribution': '寄与',
+  'recommendationDetail.logThisDay': 'この日に実施した',
+  'recommendationDetail.howWasIt': 'どうでしたか？',
+  'recommendationDetail.cancel': 'キャンセル',
+  'recommendationDetail.none': 'なし',
+  'recommendationDetail.noLimit': '制限なし',
+  'recommendationDetail.learning': '📈 記録からの学習（{count}件の記録）',
+  'recommendationDetail.changesSince': '{date}からの変化',
+  'recommendationDetail.minTemperature': '最低気温',
+  'recommendationDetail.maxTemperature': '最高気温',
+  'recommendationDetail.noChanges': 'まだ設定に変化はありません',
+  'recommendationDetail.learningHint': '実施した日を評価すると、好みの天気や適温範囲を学習します',
+  'recommendationDetail.days': 'おすすめ日程 ({count}日間)',
+  'recommendationDetail.activityWindow': 'おすすめの時間帯: {start}〜{end}',
+  'recommendationDetail.worstSlot': '最も条件が悪い時間: {time}（{description}・{temperature}・{score}点）',
+  'recommendationDetail.moonPhase': '{phase}（輝面比 {percent}%）',
+  'recommendationDetail.moonrise': '月の出',
+  'recommendationDetail.moonset': '月の入り',
+  'recommendationDetail.darkness': '暗い時間（天文薄明の外）',
+  'recommendationDetail.noDarkness': '暗くなりません',
+  'moonPhase.new': '新月',
+  'moonPhase.waxingCrescent': '三日月',
+  'moonPhase.firstQuarter': '上弦の月',
+  'moonPhase.waxingGibbous': '十三夜月',
+  'moonPhase.full': '満月',
+  'moonPhase.waningGibbous': '寝待月',
+  'moonPhase.lastQuarter': '下弦の月',
+  'moonPhase.waningCrescent': '有明月',
+  'recommendationDetail.logged': '記録済み',
+
+  // 趣味フォーム
+  'hobbyForm.errorTitle': '入力エラーがあります',
+  'hobbyForm.suggestions': '趣味候補から選択',
+  'hobbyForm.category': 'カテゴリ選択:',
+  'hobbyForm.description': '説明',
+  'hobbyForm.weightScore': 'スコア:',
+  'hobbyForm.weatherIntensity': '強さ:',
+  'hobbyForm.weatherIntensityAny': 'すべて',
+  'hobbyForm.weatherIntensityOption': '{intensity}まで',
+  'hobbyForm.timeOfDay': '活動時間帯',
+  'hobbyForm.temperatureRange': '適温範囲',
+  'hobbyForm.duration': '活動時間',
+  'hobbyForm.durationMinutes': '所要時間（分）',
+  'hobbyForm.earliestStart': '開始可能時刻',
+  'hobbyForm.latestEnd': '終了時刻',
+  'hobbyForm.durationHint': '所要時間を設定すると、その時間ずっと条件の良い時間帯がある日だけをおすすめします',
+  'hobbyForm.requiresDaylight': '日の出〜日の入りの間だけ活動する',
+  'hobbyForm.prefersGoldenHour': 'ゴールデンアワーを優先する',
+  'hobbyForm.prefersGoldenHourHint': '日の出・日の入り前後の光がきれいな時間に晴れが期待できる日を加点します（写真撮影など）',
+  'hobbyForm.weeklyFrequency': '週の回数',
+  'hobbyForm.weeklyFrequencyDefault': '週1回',
+  'hobbyForm.weeklyFrequencyOption': '週{count}回',
+  'hobbyForm.weeklyFrequencyHint': '週間プランで、この趣味を1週間に割り当てる回数です',
+  'hobbyForm.goal': '目標',
+  'hobbyForm.goalPeriod': '期間',
+  'hobbyForm.goalPeriod.week': '毎週',
+  'hobbyForm.goalPeriod.month': '毎月',
+  'hobbyForm.goalCount': '回数',
+  'hobbyForm.goalCountPlaceholder': '例: 3',
+  'hobbyForm.goalHint': '活動記録から達成状況を確認し、目標より遅れている趣味をおすすめで優先します（回数が空の場合は目標なし）',
+  'hobbyForm.weights': 'スコアの重み付け',
+  'hobbyForm.customInUse': 'カスタム設定を使用中',
+  'hobbyForm.nightSkyMode': '夜空の暗さでスコアを計算する',
+  'hobbyForm.nightSkyModeHint': '天気の好みの代わりに、夜間の雲量・月明かり・暗い時間の長さでおすすめします（星空観察など）',
+  'hobbyForm.weightsHint': '重みは合計が100%になるよう自動で換算されます',
+  'hobbyForm.constraints': '活動不可の条件',
+  'hobbyForm.forbiddenWeather': '除外する天気',
+  'hobbyForm.constraintsHint': 'いずれかの条件に当てはまる日・時間帯は、スコアに関係なく「活動不可」になります',
+  'hobbyForm.locations': '活動場所',
+  'hobbyForm.withinKm': 'km以内',
+  'hobbyForm.locationsHint': '場所を比較するとき、選んだ場所だけを候補にします（未選択の場合はすべての場所）。遠い場所ほどスコアが下がります',
+  'hobbyForm.isActive': 'この趣味を有効にする',
+  'hardConstraint.maxWindSpeed': '最大風速',
+  'hardConstraint.maxPrecipitationProbability': '最大降水確率（%）',
+  'hardConstraint.minVisibility': '最低視程（km）',
+  'hardConstraint.minFeelsLike': '最低体感温度',
+  'hardConstraint.maxFeelsLike': '最高体感温度',
+  'hobbyForm.withUnit': '{label}（{unit}）',
+  'hobbyForm.showSuggestions': '候補を表示',
+  'hobbyForm.name': '趣味名',
+  'hobbyForm.namePlaceholder': '例: ランニング',
+  'hobbyForm.descriptionPlaceholder': '趣味の詳細や楽しみ方について...',
+  'hobbyForm.descriptionLength': '{count}/{max}文字',
+  'hobbyForm.preferredWeather': '希望天気',
+  'hobbyForm.durationPlaceholder': '例: 360',
+  'hobbyForm.adjustWeights': '重みを調整',
+  'hobbyForm.setConstraints': '条件を設定',
+  'hobbyForm.constraintCount': '{count}件の条件を設定中',
+  'hobbyForm.exclude': '{label}を除外',
+  'hobbyForm.maxTravelDistance': '{name}までの許容移動距離',
+  'hobbyForm.noUpperLimit': '上限なし',
+  'hobbyForm.update': '更新',
+  'hobbyForm.create': '作成',
+
+  // 趣味管理
+  'hobbyManager.title': '趣味管理',
+  'hobbyManager.subtitle': 'あなたの趣味と希望する天気条件を管理できます',
+  'hobbyManager.activeOnly': '有効な趣味のみ表示',
+  'hobbyManager.create': '新しい趣味を追加',
+  'hobbyManager.registered': '登録済み趣味',
+  'hobbyManager.active': '有効な趣味',
+  'hobbyManager.weatherConditions': '天気条件数',
+  'hobbyManager.counts': '全 {total} 件 | 有効 {active} 件',
+  'hobbyManager.edit': '「{name}」を編集',
+
+  // 趣味一覧
+  'hobbyList.empty': 'まだ趣味が登録されていません',
+  'hobbyList.emptyHint': '最初の趣味を追加して天気予報を楽しみましょう！',
+  'hobbyList.edit': '編集',
+  'hobbyList.active': '有効',
+  'hobbyList.inactive': '無効',
+  'hobbyList.preferredWeather': '希望天気:',
+  'hobbyList.createdAt': '作成日: {date}',
+  'hobbyList.updatedAt': '更新日: {date}',
+  'hobbyList.deactivate': '無効化',
+  'hobbyList.activate': '有効化',
+  'hobbyList.deleteConfirm': '「{name}」を削除しますか？この操作は取り消せません。',
+
+  // 初期セットアップ
+  'setupFlow.initializing': '初期化中...',
+  'setupFlow.subtitle': '初期セットアップ',
+  'setupFlow.skip': 'セットアップをスキップ',
+  'setupFlow.progress': 'セットアップ進捗',
+  'setupFlow.requiredHint': '* 必須項目を完了すると、アプリをご利用いただけます',
+  'setupFlow.logoAlt': 'ロゴ',
+
+  // セットアップ: API Key
+  'setupApiKey.description': '天気情報を取得するためのAPI Keyを設定します',
+  'setupApiKey.instructions': '📋 API Key取得手順',
+  'setupApiKey.visit': 'にアクセス',
+  'setupApiKey.step2': '「Get API key」をクリックして無料アカウントを作成',
+  'setupApiKey.step3': 'メール確認後、API Keyを取得',
+  'setupApiKey.step4': '取得したキーを下記に入力',
+  'setupApiKey.success': 'API Keyが正常に設定されました',
+  'setupApiKey.about': 'API Keyについて',
+  'setupApiKey.aboutQuota': '• OpenWeatherMapの無料プランでは1日1,000回まで呼び出し可能',
+  'setupApiKey.aboutStorage': '• API Keyはブラウザのローカルストレージに安全に保存されます',
+  'setupApiKey.aboutSharedPc': '• 共有PCでの使用後は設定をクリアすることをおすすめします',
+  'setupApiKey.required': 'API Keyを入力してください',
+  'setupApiKey.saveFailed': 'API Keyの保存に失敗しました。もう一度お試しください。',
+  'setupApiKey.invalid': 'API Keyが無効です。正しいキーを入力してください。',
+  'setupApiKey.connectionFailed': 'API接続に失敗しました。しばらく時間をおいてから再度お試しください。',
+  'setupApiKey.testFailed': 'API接続テストに失敗しました',
+  'setupApiKey.testing': 'テスト中...',
+  'setupApiKey.test': 'API接続テスト',
+  'setupApiKey.saveAndNext': '保存して次へ',
+
+  // セットアップ: 場所
+  'setupLocation.description': '天気予報を取得する場所を設定します',
+  'setupLocation.done': '場所が設定されました',
+  'setupLocation.proceeding': '次のステップに進んでいます...',
+  'setupLocation.useCurrent': '現在地を使用',
+  'setupLocation.useCurrentHint': 'GPSを使用して現在の位置を取得します',
+  'setupLocation.manual': '手動で場所を指定',
+  'setupLocation.manualHint': '都市名や地域名を入力してください',
+  'setupLocation.about': '場所設定について',
+  'setupLocation.aboutPermission': '• 現在地取得にはブラウザの位置情報許可が必要です',
+  'setupLocation.aboutSearch': '• 手動入力では都市名、地域名、国名で検索できます',
+  'setupLocation.aboutChange': '• 設定した場所は後で変更することができます',
+  'setupLocation.required': '場所を入力してください',
+  'setupLocation.apiKeyMissing': 'API Keyが設定されていません',
+  'setupLocation.searchFailed': '場所の検索に失敗しました',
+  'setupLocation.notFound': '指定された場所が見つかりません',
+  'setupLocation.setFailed': '場所の設定に失敗しました',
+  'setupLocation.coordinates': '緯度: {lat}, 経度: {lon}',
+  'setupLocation.manualButton': '手動入力',
+  'setupLocation.placeholder': '例: 東京, Tokyo, New York',
+  'setupLocation.submit': '場所を設定',
+
+  // セットアップ: 趣味
+  'setupHobby.registered': '登録済みの趣味',
+  'setupHobby.description': 'あなたの趣味を登録して、パーソナライズされた推薦を受けましょう',
+  'setupHobby.optional': 'オプション（後で追加可能）',
+  'setupHobby.moreAccurate': '推薦機能がより正確になります',
+  'setupHobby.benefits': '趣味登録のメリット',
+  'setupHobby.benefitWeather': '天気に応じた趣味の推薦',
+  'setupHobby.benefitPersonal': '個人の好みに合わせた提案',
+  'setupHobby.benefitFilter': '天気条件による絞り込み',
+  'setupHobby.benefitSeason': '季節やイベントに応じた提案',
+  'setupHobby.about': '趣味登録について',
+  'setupHobby.aboutEdit': '• 趣味は後からいつでも追加・編集できます',
+  'setupHobby.aboutWeather': '• 天気条件を設定すると、より正確な推薦が受けられます',
+  'setupHobby.aboutMore': '• 趣味が多いほど、推薦の精度が向上します',
+  'setupHobby.weatherConditions': '{count} 天気条件',
+  'setupHobby.registeredCount': '{count}件の趣味が登録されました',
+  'setupHobby.addFirst': '最初の趣味を追加',
+  'setupHobby.addAnother': '別の趣味を追加',
+  'setupHobby.skip': 'スキップ',
+  'setupHobby.addLater': '後で追加',
+  'setupHobby.finish': 'セットアップ完了',
+  'setupHobby.next': '次へ',
+
+  // セットアップ: 完了
+  'setupCompleted.title': 'セットアップ完了',
+  'setupCompleted.ready': '趣味予報をご利用いただく準備が整いました',
+  'setupCompleted.summary': '設定内容',
+  'setupCompleted.features': '利用できる機能',
+  'setupCompleted.forecast': '天気予報',
+  'setupCompleted.forecastDescription': '7日間の詳細な天気予報',
+  'setupCompleted.recommendations': '趣味推薦',
+  'setupCompleted.recommendationsDescription': '天気に応じた趣味の提案',
+  'setupCompleted.hobbies': '趣味管理',
+  'setupCompleted.hobbiesDescription': '趣味の追加・編集・管理',
+  'setupCompleted.settings': '詳細設定',
+  'setupCompleted.settingsDescription': 'API設定や個人設定',
+  'setupCompleted.nextSteps': '次のステップ',
+  'setupCompleted.nextRecommendations': '• 「おすすめ」タブで天気に応じた趣味の推薦をチェック',
+  'setupCompleted.nextHobbies': '• 「趣味管理」で追加の趣味を登録',
+  'setupCompleted.nextSettings': '• 「設定」で詳細な環境設定を調整',
+  'setupCompleted.start': '趣味予報を始める',
+  'setupCompleted.thanks': '趣味予報をご利用いただき、ありがとうございます。',
+  'setupCompleted.changeLater': '設定は後からいつでも変更できます',
+  'setupCompleted.locationNotSet': '設定されていません',
+  'setupCompleted.currentWeather': '現在の天気: {summary}',
+  'setupCompleted.hobbyCount': '{count}件の趣味が登録済み',
+  'setupCompleted.noHobbies': '未登録（後で追加可能）',
+  'setupCompleted.moreHobbies': ' 他{count}件',
+
+  // API Key診断
+  'apiKeyDiagnostics.title': '🔍 API Key診断',
+  'apiKeyDiagnostics.subtitle': 'OpenWeatherMap APIの設定状況を確認',
+  'apiKeyDiagnostics.running': '診断実行中...',
+  'apiKeyDiagnostics.environment': '環境変数',
+  'apiKeyDiagnostics.serviceLoad': 'サービス読み込み',
+  'apiKeyDiagnostics.apiConnection': 'API接続',
+  'apiKeyDiagnostics.recommendations': '📋 推奨事項',
+  'apiKeyDiagnostics.environmentDetails': '🔧 環境変数詳細',
+  'apiKeyDiagnostics.serviceDetails': '⚙️ WeatherService詳細',
+  'apiKeyDiagnostics.connectionDetails': '🌐 API接続詳細',
+  'apiKeyDiagnostics.testData': 'テストデータ:',
+  'apiKeyDiagnostics.setupSteps': '📝 設定手順',
+  'apiKeyDiagnostics.stepContent': '以下の内容を記述:',
+  'apiKeyDiagnostics.stepVerify': '再診断ボタンで確認',
+  'apiKeyDiagnostics.checking': '診断中...',
+  'apiKeyDiagnostics.rerun': '再診断',
+  'apiKeyDiagnostics.hideDetails': '詳細を隠す',
+  'apiKeyDiagnostics.showDetails': '詳細表示',
+  'apiKeyDiagnostics.configured': '設定済み',
+  'apiKeyDiagnostics.ok': '正常',
+  'apiKeyDiagnostics.error': 'エラー',
+  'apiKeyDiagnostics.connected': '接続OK',
+  'apiKeyDiagnostics.connectionFailed': '接続失敗',
+  'apiKeyDiagnostics.status': '設定状況',
+  'apiKeyDiagnostics.keyLength': 'キー長: {count}文字',
+  'apiKeyDiagnostics.preview': 'プレビュー',
+  'apiKeyDiagnostics.loadStatus': '読み込み状況',
+  'apiKeyDiagnostics.connectionStatus': '接続状況',
+  'apiKeyDiagnostics.succeeded': '成功',
+  'apiKeyDiagnostics.failed': '失敗',
+  'apiKeyDiagnostics.httpStatus': 'HTTPステータス',
+  'apiKeyDiagnostics.city': '都市',
+  'apiKeyDiagnostics.weather': '天気',
+  'apiKeyDiagnostics.temperature': '気温',
+  'apiKeyDiagnostics.stepCreate.before': 'プロジェクトルートに ',
+  'apiKeyDiagnostics.stepCreate.after': ' ファイルを作成',
+  'apiKeyDiagnostics.stepRestart': '開発サーバーを再起動',
+
+  // 活動記録（サービス）
+  'activityLog.unsavedHobby': '保存されていない趣味は記録できません',
+
+  // バックアップ・復元
+  'backup.title': 'バックアップと復元',
+  'backup.description': '趣味・場所・活動記録・通知設定・テーマなどのすべてのデータをファイルに保存し、別の端末やブラウザで復元できます。',
+  'backup.export.title': 'バックアップを作成',
+  'backup.export.includeApiKey': 'API Keyを含める',
+  'backup.export.includeApiKeyHint': 'バックアップファイルを他の人と共有する場合はチェックを外してください。',
+  'backup.export.button': 'バックアップをダウンロード',
+  'backup.export.exporting': '作成中...',
+  'backup.export.success': 'バックアップファイルを作成しました。',
+  'backup.export.failed': 'バックアップの作成に失敗しました。',
+  'backup.restore.title': 'バックアップから復元',
+  'backup.restore.selectFile': 'バックアップファイルを選択',
+  'backup.restore.mode': '復元方法',
+  'backup.restore.mode.merge': 'マージ',
+  'backup.restore.mode.mergeDescription': '名前や日時が同じデータは上書きし、それ以外は追加します。今のデータは残します',
+  'backup.restore.mode.replace': '置き換え',
+  'backup.restore.mode.replaceDescription': '今のデータをすべて削除してからバックアップの内容に置き換えます',
+  'backup.restore.previewTitle': '復元される内容（{exportedAt} に作成）',
+  'backup.restore.previewChange': '追加 {added}・上書き {updated}・削除 {removed}',
+  'backup.restore.noChanges': '変更されるデータはありません',
+  'backup.restore.theme': 'テーマ設定',
+  'backup.restore.apiKey': 'API Key',
+  'backup.restore.willRestore': '復元します',
+  'backup.restore.notIncluded': '含まれていません（今の設定を維持）',
+  'backup.restore.button': '復元する',
+  'backup.restore.restoring': '復元中...',
+  'backup.restore.confirmReplace': '今のデータをすべて削除してバックアップの内容に置き換えます。よろしいですか？',
+  'backup.restore.success': '復元が完了しました。ページを再読み込みすると反映されます。',
+  'backup.restore.failed': '復元に失敗しました。',
+  'backup.restore.reload': '再読み込み',
+  'backup.error.invalidJson': 'バックアップファイルを読み込めませんでした（JSON形式ではありません）',
+  'backup.error.invalidFormat': 'このアプリのバックアップファイルではありません',
+  'backup.error.unsupportedVersion': '対応していないバックアップ形式です（バージョン {version}）',
+  'backup.error.newerSchema': '新しいバージョンのアプリで作成されたバックアップのため復元できません',
+  'backup.error.invalidField': 'バックアップファイルの「{field}」の内容が正しくありません',
+  'backup.table.hobbies': '趣味',
+  'backup.table.weatherData': '天気データ',
+  'backup.table.weatherForecasts': '天気予報',
+  'backup.table.locations': '場所',
+  'backup.table.hobbyLocations': '趣味ごとの場所',
+  'backup.table.settings': 'アプリ設定',
+  'backup.table.activityLogs': '活動記録',
+  'backup.table.activityPhotos': '活動写真',
+  'backup.table.notificationConfigs': '通知設定',
+  'backup.table.notificationHistory': '通知履歴',
+  'backup.table.notificationSettings': '通知の全体設定',
+  'backup.table.busyIntervals': '取り込んだ予定',
+  'backup.table.weatherArchive': '天気の記録',
+
+  // 趣味の共有
+  'hobbyList.share': '共有',
+  'hobbyManager.shareAll': '共有',
+  'hobbyManager.import': '取り込み',
+  'hobbyShare.titleSingle': '「{name}」を共有',
+  'hobbyShare.titleMultiple': '{count}件の趣味を共有',
+  'hobbyShare.description': '天気の好み・気温・時間帯などの設定を共有できます。活動記録や場所は含まれません。',
+  'hobbyShare.link': '共有リンク',
+  'hobbyShare.copy': 'コピー',
+  'hobbyShare.copied': 'リンクをコピーしました',
+  'hobbyShare.copyFailed': 'コピーできませんでした。リンクを選択してコピーしてください',
+  'hobbyShare.download': 'ファイルとして保存（JSON）',
+  'hobbyShare.import.title': '趣味の取り込み',
+  'hobbyShare.import.subtitle': '{count}件の趣味の取り込み内容を確認してください',
+  'hobbyShare.import.actionLabel': '「{name}」の取り込み方法',
+  'hobbyShare.import.action.create': '追加する',
+  'hobbyShare.import.action.skip': '取り込まない',
+  'hobbyShare.import.action.overwrite': '登録済みの趣味を上書き',
+  'hobbyShare.import.action.rename': '「{name}」として追加',
+  'hobbyShare.import.conflict': '「{name}」は登録済みです',
+  'hobbyShare.import.duplicateInFile': '同じ名前の趣味がファイル内にあります',
+  'hobbyShare.import.temperatureRange': '{min} 〜 {max}',
+  'hobbyShare.import.button': '{count}件を取り込む',
+  'hobbyShare.import.importing': '取り込み中...',
+  'hobbyShare.import.success': '{created}件を追加、{updated}件を上書き、{skipped}件をスキップしました',
+  'hobbyShare.import.failed': '趣味の取り込みに失敗しました',
+  'hobbyShare.error.invalidJson': 'ファイルを読み込めませんでした（JSON形式ではありません）',
+  'hobbyShare.error.invalidFormat': '趣味の共有ファイルではありません',
+  'hobbyShare.error.unsupportedVersion': '対応していない共有形式です（バージョン {version}）',
+  'hobbyShare.error.empty': '共有ファイルに趣味が含まれていません',
+  'hobbyShare.error.invalidHobby': '{index}件目の趣味の内容が正しくありません',
+  'hobbyShare.error.invalidLink': '共有リンクが正しくありません',
+  'hobbyShare.error.unknownWeather': '不明な天気「{weather}」が含まれています',
+  'hobbyShare.error.unknownTimeOfDay': '不明な時間帯「{time}」が含まれています',
+
+  // カレンダーへの書き出し
+  'calendar.add': 'カレンダーに追加',
+  'calendar.addBestDay': '最適日をカレンダーに追加（.ics）',
+  'calendar.topNLabel': '趣味ごとの上位',
+  'calendar.topNOption': '{count}日',
+  'calendar.export': 'カレンダーに書き出し',
+  'calendar.name': '趣味のおすすめ日',
+  'calendar.event.summary': '🎯 {hobby}（{score}）',
+  'calendar.event.score': 'スコア: {score}',
+  'calendar.event.weather': '天気: {description}（最高 {max} / 最低 {min}）',
+  'calendar.event.conditions': '降水確率: {pop}%・風速: {wind}',
+  'calendar.event.activityWindow': '活動時間: {start}〜{end}',
+  'calendar.event.location': '場所: {name}（{lat}, {lon}）',
+
+  // 予定（空き時間）
+  'availability.title': '予定（空き時間）',
+  'availability.description': 'カレンダーの予定を取り込むと、「空いている日だけ」のおすすめで予定が入っている日や時間帯を避けられます。予定はこの端末にのみ保存されます。',
+  'availability.calendar.title': 'カレンダーファイルから取り込む',
+  'availability.calendar.selectFile': 'iCalendarファイル（.ics）を選択',
+  'availability.calendar.hint': '今日から60日先までの予定を取り込みます。「空き時間」として登録された予定とキャンセルされた予定は除きます。',
+  'availability.list.title': '予定の一覧を貼り付ける',
+  'availability.list.placeholder': '2024-05-03 09:00-12:00 会議\n2024-05-04\n2024-05-06 - 2024-05-08 旅行',
+  'availability.list.hint': '1行に1件、「日付 時刻-時刻 件名」の形式で入力します。時刻を省略すると終日の予定になります。iCalendar形式のテキストも貼り付けられます。',
+  'availability.list.button': '取り込む',
+  'availability.importing': '取り込み中...',
+  'availability.result': '{added}件の予定を追加しました（取り込み済み: {duplicates}件）',
+  'availability.invalidLines': '読み込めなかった行: {lines}',
+  'availability.saved.title': '取り込んだ予定（{count}件）',
+  'availability.saved.clear': 'すべて削除',
+  'availability.saved.empty': '取り込んだ予定はありません',
+  'availability.saved.delete': '{interval}の予定を削除',
+  'availability.saved.showAll': 'すべて表示（{count}件）',
+  'availability.saved.showLess': '表示を減らす',
+  'availability.confirmClear': '取り込んだ予定をすべて削除しますか？',
+  'availability.untitled': '予定あり',
+  'availability.allDay': '終日',
+  'availability.range': '{start}〜{end}',
+  'availability.source.ics': 'カレンダーファイル',
+  'availability.source.manual': '貼り付け',
+  'availability.loadFailed': '予定の読み込みに失敗しました',
+  'availability.importFailed': '予定の取り込みに失敗しました',
+  'availability.deleteFailed': '予定の削除に失敗しました',
+  'availability.error.invalidCalendar': 'iCalendar形式のファイルではありません',
+  'availability.error.empty': '取り込む予定がありません',
+  'recommendationFilters.availability': '空き時間',
+  'recommendationFilters.onlyWhenFree': '空いている日だけ',
+  'recommendationFilters.onlyWhenFreeHint': '設定で取り込んだ予定と重なる日・時間帯を避けます',
+  'recommendationFilters.busyHandling.exclude': '予定がある日を外す',
+  'recommendationFilters.busyHandling.penalize': '予定がある日は減点',
+  'hiddenRecommendations.title': '予定と重なるため非表示にしたおすすめ（{count}件）',
+  'hiddenRecommendations.conflicts': '重なる予定: {events}',
+  'hiddenRecommendations.event': '{summary}（{time}）',
+
+  // 週間プラン
+  'planner.title': '週間プラン',
+  'planner.description': '趣味ごとの週の回数と1日の数に合わせて、スコアの合計が最も高くなるように趣味を日に割り当てます',
+  'planner.empty': 'おすすめがないため週間プランを作れません',
+  'planner.totalScore': '合計 {score}点',
+  'planner.reset': '自動の割り当てに戻す',
+  'planner.capacityLabel': '{date}の趣味の数',
+  'planner.capacityOption': '{count}件',
+  'planner.free': '予定なし',
+  'planner.pinned': '手動で追加',
+  'planner.notPossible': 'この日は活動不可の条件に当てはまります',
+  'planner.move': '移動…',
+  'planner.moveLabel': '{hobby}を別の日に移動',
+  'planner.removeLabel': '{hobby}をこの日から外す',
+  'planner.add': '趣味を追加…',
+  'planner.addLabel': '{date}に趣味を追加',
+  'planner.unassignedTitle': '回数分を割り当てられなかった趣味',
+  'planner.unassigned': '{hobby}: あと{count}回',
+
+  // 目標
+  'goals.title': '目標の達成状況',
+  'goals.loadFailed': '目標の達成状況の読み込みに失敗しました',
+  'goals.period.week': '今週',
+  'goals.period.month': '今月',
+  'goals.status.achieved': '達成',
+  'goals.status.onTrack': '順調',
+  'goals.status.behind': '遅れ',
+  'goals.behindCount': '{count}件が遅れています',
+  'goals.progress': '{period} {completed}/{count}回',
+  'goals.progressLabel': '{hobby}の目標の進捗',
+  'goals.remaining': '残り{days}日であと{count}回',
+
+  // 典型的な天気
+  'climatology.title': '月ごとの典型的な天気',
+  'climatology.loadFailed': '天気の記録の読み込みに失敗しました',
+  'climatology.recordedDays': '{count}日分の記録（{date}から）',
+  'climatology.empty': 'まだ天気の記録がありません。天気を取得するたびに、その日の天気がこの場所の記録として残ります。',
+  'climatology.hint': '記録が増えるほど、年ごとの典型的な天気に近づきます。',
+  'climatology.temperature': '気温（平均最低〜平均最高）',
+  'climatology.rainDays': '雨の日の割合',
+  'climatology.monthSummary': '{month}: 平均{temperature}（{min}〜{max}）、雨の日{rain}%、風{wind}、記録{count}日',
+  'climatology.hobbyLabel': '趣味に向いている月',
+  'climatology.hobbyNone': '趣味を選択',
+  'climatology.bestMonths': '{hobby}に向いている月: {months}',
+  'climatology.bestMonth': '{month}（合う日{ratio}%）',
+  'climatology.noBestMonths': '記録が{count}日以上ある月ができると、{hobby}に向いている月を表示します',
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof ja;
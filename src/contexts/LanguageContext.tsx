@@ -0,0 +1,79 @@
+import React, {
+    createContext,
+    useContext,
+    useEffect,
+    useState,
+    useCallback,
+} from 'react';
+import type { Language, LanguageContextType } from '../types/i18n';
+import {
+    DEFAULT_LANGUAGE,
+    setActiveLanguage,
+    getLocale,
+    t,
+} from '../utils/i18n';
+import { databaseService } from '../services/database.service';
+
+const LanguageContext = createContext<LanguageContextType | null>(null);
+
+interface LanguageProviderProps {
+    children: React.ReactNode;
+}
+
+export const LanguageProvider: React.FC<LanguageProviderProps> = ({ children }) => {
+    const [language, setLanguageState] = useState<Language>(DEFAULT_LANGUAGE);
+
+    // 保存済みの設定を読み込み
+    useEffect(() => {
+        let cancelled = false;
+        databaseService
+            .getSettings()
+            .then((settings) => {
+                if (cancelled || !settings) return;
+                setLanguageState(settings.language);
+            })
+            .catch((error) => {
+                console.error('言語設定の読み込みに失敗しました:', error);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    // サービスが組み立てる文言とドキュメントの言語属性も合わせる
+    useEffect(() => {
+        setActiveLanguage(language);
+        document.documentElement.lang = language;
+    }, [language]);
+
+    const setLanguage = useCallback(async (next: Language) => {
+        setLanguageState(next);
+        await databaseService.updateSettings({ language: next });
+    }, []);
+
+    // 依存配列に入れても言語が変わるまで同じ関数を返す
+    const translate = useCallback<LanguageContextType['t']>(
+        (key, params) => t(key, params, language),
+        [language]
+    );
+
+    const value: LanguageContextType = {
+        language,
+        locale: getLocale(language),
+        setLanguage,
+        t: translate,
+    };
+
+    return (
+        <LanguageContext.Provider value={value}>{children}</LanguageContext.Provider>
+    );
+};
+
+// eslint-disable-next-line react-refresh/only-export-components
+export const useTranslation = (): LanguageContextType => {
+    const context = useContext(LanguageContext);
+    if (!context) {
+        throw new Error('useTranslation must be used within a LanguageProvider');
+    }
+    return context;
+};
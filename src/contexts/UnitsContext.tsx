@@ -0,0 +1,100 @@
+import React, {
+    createContext,
+    useContext,
+    useEffect,
+    useState,
+    useCallback,
+} from 'react';
+import type {
+    UnitsContextType,
+    UnitPreferences,
+    TemperatureUnit,
+    WindSpeedUnit,
+} from '../types/units';
+import {
+    DEFAULT_UNIT_PREFERENCES,
+    setActiveUnitPreferences,
+    convertTemperature,
+    toCelsius,
+    convertWindSpeed,
+    toMetersPerSecond,
+    formatTemperature,
+    formatWindSpeed,
+    getTemperatureSymbol,
+    getWindSpeedSymbol,
+} from '../utils/units';
+import { databaseService } from '../services/database.service';
+
+const UnitsContext = createContext<UnitsContextType | null>(null);
+
+interface UnitsProviderProps {
+    children: React.ReactNode;
+}
+
+export const UnitsProvider: React.FC<UnitsProviderProps> = ({ children }) => {
+    const [units, setUnits] = useState<UnitPreferences>(DEFAULT_UNIT_PREFERENCES);
+
+    // 保存済みの設定を読み込み
+    useEffect(() => {
+        let cancelled = false;
+        databaseService
+            .getSettings()
+            .then((settings) => {
+                if (cancelled || !settings) return;
+                setUnits({
+                    temperatureUnit: settings.temperatureUnit,
+                    windSpeedUnit: settings.windSpeedUnit,
+                });
+            })
+            .catch((error) => {
+                console.error('単位設定の読み込みに失敗しました:', error);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    // サービスが組み立てる文言にも同じ単位を使う
+    useEffect(() => {
+        setActiveUnitPreferences(units);
+    }, [units]);
+
+    const setTemperatureUnit = useCallback(async (temperatureUnit: TemperatureUnit) => {
+        setUnits((prev) => ({ ...prev, temperatureUnit }));
+        await databaseService.updateSettings({ temperatureUnit });
+    }, []);
+
+    const setWindSpeedUnit = useCallback(async (windSpeedUnit: WindSpeedUnit) => {
+        setUnits((prev) => ({ ...prev, windSpeedUnit }));
+        await databaseService.updateSettings({ windSpeedUnit });
+    }, []);
+
+    const value: UnitsContextType = {
+        units,
+        setTemperatureUnit,
+        setWindSpeedUnit,
+        formatTemperature: (celsius, digits) => formatTemperature(celsius, units, digits),
+        formatWindSpeed: (metersPerSecond, digits) =>
+            formatWindSpeed(metersPerSecond, units, digits),
+        toDisplayTemperature: (celsius) => convertTemperature(celsius, units.temperatureUnit),
+        fromDisplayTemperature: (value) => toCelsius(value, units.temperatureUnit),
+        toDisplayWindSpeed: (metersPerSecond) =>
+            convertWindSpeed(metersPerSecond, units.windSpeedUnit),
+        fromDisplayWindSpeed: (value) => toMetersPerSecond(value, units.windSpeedUnit),
+        temperatureSymbol: getTemperatureSymbol(units.temperatureUnit),
+        windSpeedSymbol: getWindSpeedSymbol(units.windSpeedUnit),
+    };
+
+    return (
+        <UnitsContext.Provider value={value}>{children}</UnitsContext.Provider>
+    );
+};
+
+// eslint-disable-next-line react-refresh/only-export-components
+export const useUnits = (): UnitsContextType => {
+    const context = useContext(UnitsContext);
+    if (!context) {
+        throw new Error('useUnits must be used within a UnitsProvider');
+    }
+    return context;
+};
@@ -0,0 +1,20 @@
+import type { ActivityRating } from '../types';
+import type { MessageKey } from '../types/i18n';
+
+export interface ActivityRatingOption {
+  rating: ActivityRating;
+  icon: string;
+  labelKey: MessageKey;
+}
+
+// 活動後の評価の選択肢
+export const ACTIVITY_RATING_OPTIONS: ActivityRatingOption[] = [
+  { rating: 1, icon: '😫', labelKey: 'rating.1' },
+  { rating: 2, icon: '😕', labelKey: 'rating.2' },
+  { rating: 3, icon: '😐', labelKey: 'rating.3' },
+  { rating: 4, icon: '🙂', labelKey: 'rating.4' },
+  { rating: 5, icon: '😄', labelKey: 'rating.5' }
+];
+
+export const getActivityRatingOption = (rating: ActivityRating): ActivityRatingOption | undefined =>
+  ACTIVITY_RATING_OPTIONS.find(option => option.rating === rating);
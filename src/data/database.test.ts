@@ -1,4 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Dexie from 'dexie';
 import { HobbyWeatherDatabase } from './database';
 import type { Hobby, Location } from '../types';
 
@@ -127,4 +128,41 @@ describe('Database', () => {
       expect(countAfter).toBe(0);
     });
   });
+});
+
+describe('Database migrations', () => {
+  it('should default existing hobbies to the standard scoring weights', async () => {
+    await Dexie.delete('HobbyWeatherDB');
+
+    // Version 5のスキーマで既存データを作成
+    const legacyDb = new Dexie('HobbyWeatherDB');
+    legacyDb.version(5).stores({
+      hobbies: '++id, name, isActive, createdAt',
+      weatherData: '++id, [lat+lon], datetime, weatherType, generatedAt, cachedAt',
+      weatherForecasts: '++id, [lat+lon], generatedAt, cachedAt',
+      locations: '++id, name, isDefault, createdAt',
+      settings: '++id',
+      notificationConfigs: '++id, type, enabled, createdAt',
+      notificationHistory: '++id, configId, type, sentAt',
+      notificationSettings: '++id'
+    });
+    const id = await legacyDb.table('hobbies').add({
+      name: '釣り',
+      preferredWeather: [{ condition: 'clouds', weight: 8 }],
+      isActive: true,
+      createdAt: new Date()
+    });
+    legacyDb.close();
+
+    const migratedDb = new HobbyWeatherDatabase();
+    await migratedDb.open();
+    const hobby = await migratedDb.hobbies.get(id as number);
+
+    expect(hobby?.scoringProfile).toEqual({
+      preset: 'balanced',
+      weights: { weather: 40, temperature: 25, precipitation: 20, wind: 10, uv: 5 }
+    });
+
+    await migratedDb.delete();
+  });
 });
\ No newline at end of file
@@ -4,21 +4,32 @@ import type {
   WeatherData, 
   WeatherForecast, 
   Location, 
+  HobbyLocation,
   AppSettings,
+  ActivityLog,
+  ActivityPhoto,
   NotificationConfig,
   NotificationHistory,
-  NotificationSettings
+  NotificationSettings,
+  BusyInterval,
+  WeatherArchiveEntry
 } from '../types';
+import { upgradeRows } from './migrations';
 
 export class HobbyWeatherDatabase extends Dexie {
   hobbies!: Table<Hobby>;
   weatherData!: Table<WeatherData>;
   weatherForecasts!: Table<WeatherForecast>;
   locations!: Table<Location>;
+  hobbyLocations!: Table<HobbyLocation>;
   settings!: Table<AppSettings>;
+  activityLogs!: Table<ActivityLog>;
+  activityPhotos!: Table<ActivityPhoto>;
   notificationConfigs!: Table<NotificationConfig>;
   notificationHistory!: Table<NotificationHistory>;
   notificationSettings!: Table<NotificationSettings>;
+  busyIntervals!: Table<BusyInterval>;
+  weatherArchive!: Table<WeatherArchiveEntry>;
 
   constructor() {
     super('HobbyWeatherDB');
@@ -38,14 +49,7 @@ export class HobbyWeatherDatabase extends Dexie {
       weatherForecasts: '++id, [lat+lon], cachedAt',
       locations: '++id, name, isDefault, createdAt',
       settings: '++id'
-    }).upgrade(async (trans) => {
-      // 既存の趣味データに活動時間帯を追加
-      await trans.table('hobbies').toCollection().modify((hobby) => {
-        if (!hobby.preferredTimeOfDay) {
-          hobby.preferredTimeOfDay = [];
-        }
-      });
-    });
+    }).upgrade((trans) => upgradeRows(trans, 2));
 
     // Version 3で天気データにgeneratedAtを追加
     this.version(3).stores({
@@ -54,21 +58,7 @@ export class HobbyWeatherDatabase extends Dexie {
       weatherForecasts: '++id, [lat+lon], generatedAt, cachedAt',
       locations: '++id, name, isDefault, createdAt',
       settings: '++id'
-    }).upgrade(async (trans) => {
-      // 既存の天気データにgeneratedAtを追加
-      await trans.table('weatherData').toCollection().modify((weatherData) => {
-        if (!weatherData.generatedAt) {
-          weatherData.generatedAt = weatherData.cachedAt || new Date();
-        }
-      });
-      
-      // 既存の天気予報データにgeneratedAtを追加
-      await trans.table('weatherForecasts').toCollection().modify((forecast) => {
-        if (!forecast.generatedAt) {
-          forecast.generatedAt = forecast.cachedAt || new Date();
-        }
-      });
-    });
+    }).upgrade((trans) => upgradeRows(trans, 3));
 
     // Version 4で場所に種別・住所・カテゴリを追加
     this.version(4).stores({
@@ -77,20 +67,7 @@ export class HobbyWeatherDatabase extends Dexie {
       weatherForecasts: '++id, [lat+lon], generatedAt, cachedAt',
       locations: '++id, name, isDefault, createdAt',
       settings: '++id'
-    }).upgrade(async (trans) => {
-      // 既存の場所データに新しいフィールドを追加
-      await trans.table('locations').toCollection().modify((location) => {
-        if (!location.type) {
-          location.type = 'city'; // 既存の場所はデフォルトで都市とする
-        }
-        if (!location.address) {
-          location.address = undefined;
-        }
-        if (!location.category) {
-          location.category = undefined;
-        }
-      });
-    });
+    }).upgrade((trans) => upgradeRows(trans, 4));
 
     // Version 5で通知機能のテーブルを追加
     this.version(5).stores({
@@ -114,8 +91,111 @@ export class HobbyWeatherDatabase extends Dexie {
       });
     });
 
+    // Version 6で趣味にスコア計算の重み付けを追加
+    this.version(6).stores({
+      hobbies: '++id, name, isActive, createdAt',
+      weatherData: '++id, [lat+lon], datetime, weatherType, generatedAt, cachedAt',
+      weatherForecasts: '++id, [lat+lon], generatedAt, cachedAt',
+      locations: '++id, name, isDefault, createdAt',
+      settings: '++id',
+      notificationConfigs: '++id, type, enabled, createdAt',
+      notificationHistory: '++id, configId, type, sentAt',
+      notificationSettings: '++id'
+    }).upgrade((trans) => upgradeRows(trans, 6));
+
+    // Version 7で活動記録のテーブルを追加
+    this.version(7).stores({
+      hobbies: '++id, name, isActive, createdAt',
+      weatherData: '++id, [lat+lon], datetime, weatherType, generatedAt, cachedAt',
+      weatherForecasts: '++id, [lat+lon], generatedAt, cachedAt',
+      locations: '++id, name, isDefault, createdAt',
+      settings: '++id',
+      activityLogs: '++id, hobbyId, date, createdAt',
+      notificationConfigs: '++id, type, enabled, createdAt',
+      notificationHistory: '++id, configId, type, sentAt',
+      notificationSettings: '++id'
+    });
+
+    // Version 8で活動記録の写真テーブルを追加
+    this.version(8).stores({
+      hobbies: '++id, name, isActive, createdAt',
+      weatherData: '++id, [lat+lon], datetime, weatherType, generatedAt, cachedAt',
+      weatherForecasts: '++id, [lat+lon], generatedAt, cachedAt',
+      locations: '++id, name, isDefault, createdAt',
+      settings: '++id',
+      activityLogs: '++id, hobbyId, date, createdAt',
+      activityPhotos: '++id, logId, createdAt',
+      notificationConfigs: '++id, type, enabled, createdAt',
+      notificationHistory: '++id, configId, type, sentAt',
+      notificationSettings: '++id'
+    });
+
+    // Version 9で趣味と活動場所の関連テーブルを追加
+    this.version(9).stores({
+      hobbies: '++id, name, isActive, createdAt',
+      weatherData: '++id, [lat+lon], datetime, weatherType, generatedAt, cachedAt',
+      weatherForecasts: '++id, [lat+lon], generatedAt, cachedAt',
+      locations: '++id, name, isDefault, createdAt',
+      hobbyLocations: '++id, hobbyId, locationId, [hobbyId+locationId]',
+      settings: '++id',
+      activityLogs: '++id, hobbyId, date, createdAt',
+      activityPhotos: '++id, logId, createdAt',
+      notificationConfigs: '++id, type, enabled, createdAt',
+      notificationHistory: '++id, configId, type, sentAt',
+      notificationSettings: '++id'
+    });
+
+    // Version 10で風速の単位の初期値をm/sに変更
+    this.version(10).stores({
+      hobbies: '++id, name, isActive, createdAt',
+      weatherData: '++id, [lat+lon], datetime, weatherType, generatedAt, cachedAt',
+      weatherForecasts: '++id, [lat+lon], generatedAt, cachedAt',
+      locations: '++id, name, isDefault, createdAt',
+      hobbyLocations: '++id, hobbyId, locationId, [hobbyId+locationId]',
+      settings: '++id',
+      activityLogs: '++id, hobbyId, date, createdAt',
+      activityPhotos: '++id, logId, createdAt',
+      notificationConfigs: '++id, type, enabled, createdAt',
+      notificationHistory: '++id, configId, type, sentAt',
+      notificationSettings: '++id'
+    }).upgrade((trans) => upgradeRows(trans, 10));
+
+    // Version 11で予定（空き時間）のテーブルを追加
+    this.version(11).stores({
+      hobbies: '++id, name, isActive, createdAt',
+      weatherData: '++id, [lat+lon], datetime, weatherType, generatedAt, cachedAt',
+      weatherForecasts: '++id, [lat+lon], generatedAt, cachedAt',
+      locations: '++id, name, isDefault, createdAt',
+      hobbyLocations: '++id, hobbyId, locationId, [hobbyId+locationId]',
+      settings: '++id',
+      activityLogs: '++id, hobbyId, date, createdAt',
+      activityPhotos: '++id, logId, createdAt',
+      notificationConfigs: '++id, type, enabled, createdAt',
+      notificationHistory: '++id, configId, type, sentAt',
+      notificationSettings: '++id',
+      busyIntervals: '++id, start, end, source'
+    });
+
+    // 天気の記録（期限切れのキャッシュとしては削除しない）
+    this.version(12).stores({
+      hobbies: '++id, name, isActive, createdAt',
+      weatherData: '++id, [lat+lon], datetime, weatherType, generatedAt, cachedAt',
+      weatherForecasts: '++id, [lat+lon], generatedAt, cachedAt',
+      locations: '++id, name, isDefault, createdAt',
+      hobbyLocations: '++id, hobbyId, locationId, [hobbyId+locationId]',
+      settings: '++id',
+      activityLogs: '++id, hobbyId, date, createdAt',
+      activityPhotos: '++id, logId, createdAt',
+      notificationConfigs: '++id, type, enabled, createdAt',
+      notificationHistory: '++id, configId, type, sentAt',
+      notificationSettings: '++id',
+      busyIntervals: '++id, start, end, source',
+      weatherArchive: '++id, [lat+lon], [lat+lon+date], date'
+    });
+
+    // バックアップから復元したデータは保存されていた作成日時をそのまま使う
     this.hobbies.hook('creating', (_, obj) => {
-      obj.createdAt = new Date();
+      obj.createdAt ??= new Date();
       obj.updatedAt = new Date();
     });
 
@@ -124,7 +204,27 @@ export class HobbyWeatherDatabase extends Dexie {
     });
 
     this.locations.hook('creating', (_, obj) => {
-      obj.createdAt = new Date();
+      obj.createdAt ??= new Date();
+    });
+
+    this.hobbyLocations.hook('creating', (_, obj) => {
+      obj.createdAt ??= new Date();
+    });
+
+    this.busyIntervals.hook('creating', (_, obj) => {
+      obj.createdAt ??= new Date();
+    });
+
+    this.weatherArchive.hook('creating', (_, obj) => {
+      obj.updatedAt ??= new Date();
+    });
+
+    this.activityLogs.hook('creating', (_, obj) => {
+      obj.createdAt ??= new Date();
+    });
+
+    this.activityPhotos.hook('creating', (_, obj) => {
+      obj.createdAt ??= new Date();
     });
 
     this.settings.hook('creating', (_, obj) => {
@@ -136,7 +236,7 @@ export class HobbyWeatherDatabase extends Dexie {
     });
 
     this.notificationConfigs.hook('creating', (_, obj) => {
-      obj.createdAt = new Date();
+      obj.createdAt ??= new Date();
       obj.updatedAt = new Date();
     });
 
@@ -158,7 +258,7 @@ export class HobbyWeatherDatabase extends Dexie {
     if (settingsCount === 0) {
       await this.settings.add({
         temperatureUnit: 'celsius',
-        windSpeedUnit: 'kmh',
+        windSpeedUnit: 'ms',
         language: 'ja',
         notificationsEnabled: true,
         cacheExpiration: 6,
@@ -1,4 +1,5 @@
-import type { WeatherType, TimeOfDay } from '../types';
+import type { WeatherType, TimeOfDay, ScoringMode } from '../types';
+import type { Language, MessageKey } from '../types/i18n';
 
 export interface HobbySuggestion {
   name: string;
@@ -7,7 +8,11 @@ export interface HobbySuggestion {
   isOutdoor: boolean;
   defaultWeather?: WeatherType[];
   defaultTimeOfDay?: TimeOfDay[];
+  requiresDaylight?: boolean;
+  prefersGoldenHour?: boolean;
+  scoringMode?: ScoringMode;
   description?: string;
+  en: { name: string; description?: string }; // 英語表示用の名前と説明
 }
 
 // 趣味候補データ
@@ -20,7 +25,8 @@ export const HOBBY_SUGGESTIONS: HobbySuggestion[] = [
     isOutdoor: true,
     defaultWeather: ['clear', 'clouds'],
     defaultTimeOfDay: ['evening', 'night'],
-    description: 'テント泊や焚き火を楽しむアウトドア活動'
+    description: 'テント泊や焚き火を楽しむアウトドア活動',
+    en: { name: 'Camping', description: 'Outdoor fun with tents and campfires' }
   },
   {
     name: 'トレッキング',
@@ -29,7 +35,8 @@ export const HOBBY_SUGGESTIONS: HobbySuggestion[] = [
     isOutdoor: true,
     defaultWeather: ['clear', 'clouds'],
     defaultTimeOfDay: ['morning', 'day'],
-    description: '自然の中を歩く健康的なアクティビティ'
+    description: '自然の中を歩く健康的なアクティビティ',
+    en: { name: 'Trekking', description: 'Healthy walks through nature' }
   },
   {
     name: '登山',
@@ -38,7 +45,8 @@ export const HOBBY_SUGGESTIONS: HobbySuggestion[] = [
     isOutdoor: true,
     defaultWeather: ['clear'],
     defaultTimeOfDay: ['morning', 'day'],
-    description: '山頂を目指すチャレンジングな活動'
+    description: '山頂を目指すチャレンジングな活動',
+    en: { name: 'Mountain climbing', description: 'A challenging climb to the summit' }
   },
   {
     name: '天体観測（星空観察）',
@@ -47,7 +55,9 @@ export const HOBBY_SUGGESTIONS: HobbySuggestion[] = [
     isOutdoor: true,
     defaultWeather: ['clear'],
     defaultTimeOfDay: ['night'],
-    description: '星座や天体を観察する静寂な趣味'
+    scoringMode: 'night-sky',
+    description: '星座や天体を観察する静寂な趣味',
+    en: { name: 'Stargazing', description: 'A quiet hobby of observing stars and constellations' }
   },
   {
     name: 'バードウォッチング（野鳥観察）',
@@ -56,7 +66,8 @@ export const HOBBY_SUGGESTIONS: HobbySuggestion[] = [
     isOutdoor: true,
     defaultWeather: ['clear', 'clouds'],
     defaultTimeOfDay: ['morning', 'evening'],
-    description: '野鳥の生態を観察する自然愛好活動'
+    description: '野鳥の生態を観察する自然愛好活動',
+    en: { name: 'Birdwatching', description: 'Watching wild birds in their habitat' }
   },
   {
     name: '植物観察（花・きのこなど）',
@@ -65,7 +76,20 @@ export const HOBBY_SUGGESTIONS: HobbySuggestion[] = [
     isOutdoor: true,
     defaultWeather: ['clear', 'clouds', 'drizzle'],
     defaultTimeOfDay: ['morning', 'day'],
-    description: '季節の植物や菌類を観察・撮影'
+    description: '季節の植物や菌類を観察・撮影',
+    en: { name: 'Plant spotting (flowers, mushrooms, etc.)', description: 'Observing and photographing seasonal plants and fungi' }
+  },
+  {
+    name: '風景写真',
+    category: '自然系アウトドア',
+    categoryIcon: '🌿',
+    isOutdoor: true,
+    defaultWeather: ['clear', 'clouds'],
+    defaultTimeOfDay: ['morning', 'evening'],
+    requiresDaylight: true,
+    prefersGoldenHour: true,
+    description: '朝夕のやわらかな光で景色を撮影',
+    en: { name: 'Landscape photography', description: 'Photographing scenery in the soft morning and evening light' }
   },
 
   // 🏔 アクティブ系アウトドア
@@ -76,7 +100,8 @@ export const HOBBY_SUGGESTIONS: HobbySuggestion[] = [
     isOutdoor: true,
     defaultWeather: ['snow', 'clouds'],
     defaultTimeOfDay: ['morning', 'day'],
-    description: '雪山で楽しむウィンタースポーツ'
+    description: '雪山で楽しむウィンタースポーツ',
+    en: { name: 'Snowboarding', description: 'A winter sport on snowy mountains' }
   },
   {
     name: 'スキー',
@@ -85,7 +110,8 @@ export const HOBBY_SUGGESTIONS: HobbySuggestion[] = [
     isOutdoor: true,
     defaultWeather: ['snow', 'clouds'],
     defaultTimeOfDay: ['morning', 'day'],
-    description: '伝統的なウィンタースポーツ'
+    description: '伝統的なウィンタースポーツ',
+    en: { name: 'Skiing', description: 'The classic winter sport' }
   },
   {
     name: 'カヤック',
@@ -94,7 +120,8 @@ export const HOBBY_SUGGESTIONS: HobbySuggestion[] = [
     isOutdoor: true,
     defaultWeather: ['clear', 'clouds'],
     defaultTimeOfDay: ['morning', 'day'],
-    description: 'パドルで水上を進むウォータースポーツ'
+    description: 'パドルで水上を進むウォータースポーツ',
+    en: { name: 'Kayaking', description: 'A water sport where you paddle across the water' }
   },
   {
     name: 'カヌー',
@@ -103,7 +130,8 @@ export const HOBBY_SUGGESTIONS: HobbySuggestion[] = [
     isOutdoor: true,
     defaultWeather: ['clear', 'clouds'],
     defaultTimeOfDay: ['morning', 'day'],
-    description: '川や湖でのんびり楽しむ水上活動'
+    description: '川や湖でのんびり楽しむ水上活動',
+    en: { name: 'Canoeing', description: 'Relaxed paddling on rivers and lakes' }
   },
   {
     name: 'SUP（スタンドアップパドルボード）',
@@ -112,7 +140,8 @@ export const HOBBY_SUGGESTIONS: HobbySuggestion[] = [
     isOutdoor: true,
     defaultWeather: ['clear', 'clouds'],
     defaultTimeOfDay: ['morning', 'day'],
-    description: 'ボードの上に立ちパドルで進むスポーツ'
+    description: 'ボードの上に立ちパドルで進むスポーツ',
+    en: { name: 'SUP (stand-up paddleboarding)', description: 'Standing on a board and paddling along' }
   },
   {
     name: 'サーフィン',
@@ -121,7 +150,8 @@ export const HOBBY_SUGGESTIONS: HobbySuggestion[] = [
     isOutdoor: true,
     defaultWeather: ['clear', 'clouds'],
     defaultTimeOfDay: ['morning', 'day'],
-    description: '波に乗るエキサイティングなマリンスポーツ'
+    description: '波に乗るエキサイティングなマリンスポーツ',
+    en: { name: 'Surfing', description: 'An exciting ocean sport of riding waves' }
   },
   {
     name: 'ラフティング',
@@ -130,7 +160,8 @@ export const HOBBY_SUGGESTIONS: HobbySuggestion[] = [
     isOutdoor: true,
     defaultWeather: ['clear', 'clouds'],
     defaultTimeOfDay: ['day'],
-    description: 'ゴムボートで急流を下るスリル満点の活動'
+    description: 'ゴムボートで急流を下るスリル満点の活動',
+    en: { name: 'Rafting', description: 'A thrilling ride down rapids in a rubber raft' }
   },
   {
     name: 'ロッククライミング（屋外）',
@@ -139,7 +170,8 @@ export const HOBBY_SUGGESTIONS: HobbySuggestion[] = [
     isOutdoor: true,
     defaultWeather: ['clear', 'clouds'],
     defaultTimeOfDay: ['morning', 'day'],
-    description: '岩壁を登る技術的なスポーツ'
+    description: '岩壁を登る技術的なスポーツ',
+    en: { name: 'Rock climbing (outdoor)', description: 'A technical sport of climbing rock faces' }
   },
   {
     name: 'ボルダリング（屋外）',
@@ -148,7 +180,8 @@ export const HOBBY_SUGGESTIONS: HobbySuggestion[] = [
     isOutdoor: true,
     defaultWeather: ['clear', 'clouds'],
     defaultTimeOfDay: ['morning', 'day'],
-    description: 'ロープを使わずに岩を登るクライミング'
+    description: 'ロープを使わずに岩を登るクライミング',
+    en: { name: 'Bouldering (outdoor)', description: 'Rock climbing without ropes' }
   },
   {
     name: 'パラグライダー',
@@ -157,7 +190,8 @@ export const HOBBY_SUGGESTIONS: HobbySuggestion[] = [
     isOutdoor: true,
     defaultWeather: ['clear'],
     defaultTimeOfDay: ['morning', 'day'],
-    description: 'パラシュート型の翼で空中散歩を楽しむ'
+    description: 'パラシュート型の翼で空中散歩を楽しむ',
+    en: { name: 'Paragliding', description: 'Gliding through the air on a parachute-like wing' }
   },
   {
     name: 'ハンググライダー',
@@ -166,7 +200,8 @@ export const HOBBY_SUGGESTIONS: HobbySuggestion[] = [
     isOutdoor: true,
     defaultWeather: ['clear'],
     defaultTimeOfDay: ['morning', 'day'],
-    description: '固定翼で長時間の滑空飛行を楽しむ'
+    description: '固定翼で長時間の滑空飛行を楽しむ',
+    en: { name: 'Hang gliding', description: 'Long glides on a fixed wing' }
   },
   {
     name: 'スカイダイビング',
@@ -175,7 +210,8 @@ export const HOBBY_SUGGESTIONS: HobbySuggestion[] = [
     isOutdoor: true,
     defaultWeather: ['clear'],
     defaultTimeOfDay: ['morning', 'day'],
-    description: '航空機から飛び降りるエクストリームスポーツ'
+    description: '航空機から飛び降りるエクストリームスポーツ',
+    en: { name: 'Skydiving', description: 'An extreme sport of jumping from an aircraft' }
   },
 
   // 🏃‍♂️ スポーツ・運動系
@@ -186,7 +222,8 @@ export const HOBBY_SUGGESTIONS: HobbySuggestion[] = [
     isOutdoor: true,
     defaultWeather: ['clear', 'clouds'],
     defaultTimeOfDay: ['morning', 'day', 'evening'],
-    description: '世界で最も人気のあるチームスポーツ'
+    description: '世界で最も人気のあるチームスポーツ',
+    en: { name: 'Soccer', description: 'The most popular team sport in the world' }
   },
   {
     name: 'バスケットボール',
@@ -195,7 +232,8 @@ export const HOBBY_SUGGESTIONS: HobbySuggestion[] = [
     isOutdoor: true,
     defaultWeather: ['clear', 'clouds'],
     defaultTimeOfDay: ['morning', 'day', 'evening'],
-    description: 'ゴールにボールを入れる技術系スポーツ'
+    description: 'ゴールにボールを入れる技術系スポーツ',
+    en: { name: 'Basketball', description: 'A skillful sport of shooting a ball through a hoop' }
   },
   {
     name: 'テニス',
@@ -204,7 +242,8 @@ export const HOBBY_SUGGESTIONS: HobbySuggestion[] = [
     isOutdoor: true,
     defaultWeather: ['clear', 'clouds'],
     defaultTimeOfDay: ['morning', 'day', 'evening'],
-    description: 'ラケットでボールを打ち合う個人・ペア競技'
+    description: 'ラケットでボールを打ち合う個人・ペア競技',
+    en: { name: 'Tennis', description: 'A singles or doubles game of hitting a ball with rackets' }
   },
   {
     name: 'ランニング',
@@ -213,7 +252,8 @@ export const HOBBY_SUGGESTIONS: HobbySuggestion[] = [
     isOutdoor: true,
     defaultWeather: ['clear', 'clouds', 'drizzle'],
     defaultTimeOfDay: ['morning', 'evening'],
-    description: '健康維持に最適な有酸素運動'
+    description: '健康維持に最適な有酸素運動',
+    en: { name: 'Running', description: 'Great aerobic exercise for staying healthy' }
   },
   {
     name: 'ジョギング',
@@ -222,7 +262,8 @@ export const HOBBY_SUGGESTIONS: HobbySuggestion[] = [
     isOutdoor: true,
     defaultWeather: ['clear', 'clouds', 'drizzle'],
     defaultTimeOfDay: ['morning', 'evening'],
-    description: 'ゆっくりとしたペースでの軽い走行'
+    description: 'ゆっくりとしたペースでの軽い走行',
+    en: { name: 'Jogging', description: 'Easy running at a relaxed pace' }
   },
   {
     name: 'ゴルフ',
@@ -231,7 +272,8 @@ export const HOBBY_SUGGESTIONS: HobbySuggestion[] = [
     isOutdoor: true,
     defaultWeather: ['clear', 'clouds'],
     defaultTimeOfDay: ['morning', 'day'],
-    description: 'クラブでボールを打ちホールを目指すスポーツ'
+    description: 'クラブでボールを打ちホールを目指すスポーツ',
+    en: { name: 'Golf', description: 'Hitting a ball with clubs toward each hole' }
   },
   {
     name: 'フィッシング（釣り）',
@@ -240,7 +282,8 @@ export const HOBBY_SUGGESTIONS: HobbySuggestion[] = [
     isOutdoor: true,
     defaultWeather: ['clear', 'clouds', 'drizzle'],
     defaultTimeOfDay: ['morning', 'day', 'evening'],
-    description: '魚を釣る静かで集中力を要する活動'
+    description: '魚を釣る静かで集中力を要する活動',
+    en: { name: 'Fishing', description: 'A calm activity that rewards focus' }
   },
   {
     name: 'サイクリング',
@@ -249,7 +292,8 @@ export const HOBBY_SUGGESTIONS: HobbySuggestion[] = [
     isOutdoor: true,
     defaultWeather: ['clear', 'clouds'],
     defaultTimeOfDay: ['morning', 'day', 'evening'],
-    description: '自転車で景色を楽しみながらの移動・運動'
+    description: '自転車で景色を楽しみながらの移動・運動',
+    en: { name: 'Cycling', description: 'Riding a bike while enjoying the scenery' }
   },
   {
     name: 'ロードバイク',
@@ -258,7 +302,8 @@ export const HOBBY_SUGGESTIONS: HobbySuggestion[] = [
     isOutdoor: true,
     defaultWeather: ['clear', 'clouds'],
     defaultTimeOfDay: ['morning', 'day'],
-    description: '高性能自転車での本格的なサイクリング'
+    description: '高性能自転車での本格的なサイクリング',
+    en: { name: 'Road cycling', description: 'Serious cycling on a high-performance bike' }
   },
   {
     name: 'ウォーキング',
@@ -267,7 +312,8 @@ export const HOBBY_SUGGESTIONS: HobbySuggestion[] = [
     isOutdoor: true,
     defaultWeather: ['clear', 'clouds', 'drizzle'],
     defaultTimeOfDay: ['morning', 'day', 'evening'],
-    description: '誰でも始められる基本的な有酸素運動'
+    description: '誰でも始められる基本的な有酸素運動',
+    en: { name: 'Walking', description: 'Basic aerobic exercise anyone can start' }
   },
   {
     name: 'ノルディックウォーキング',
@@ -276,7 +322,8 @@ export const HOBBY_SUGGESTIONS: HobbySuggestion[] = [
     isOutdoor: true,
     defaultWeather: ['clear', 'clouds'],
     defaultTimeOfDay: ['morning', 'day'],
-    description: 'ポールを使った全身運動のウォーキング'
+    description: 'ポールを使った全身運動のウォーキング',
+    en: { name: 'Nordic walking', description: 'Full-body walking with poles' }
   },
   {
     name: 'スケートボード',
@@ -285,7 +332,8 @@ export const HOBBY_SUGGESTIONS: HobbySuggestion[] = [
     isOutdoor: true,
     defaultWeather: ['clear', 'clouds'],
     defaultTimeOfDay: ['day', 'evening'],
-    description: 'ボードで技を決めるストリートスポーツ'
+    description: 'ボードで技を決めるストリートスポーツ',
+    en: { name: 'Skateboarding', description: 'A street sport of landing tricks on a board' }
   },
   {
     name: 'インラインスケート',
@@ -294,7 +342,8 @@ export const HOBBY_SUGGESTIONS: HobbySuggestion[] = [
     isOutdoor: true,
     defaultWeather: ['clear', 'clouds'],
     defaultTimeOfDay: ['morning', 'day', 'evening'],
-    description: '車輪付きシューズでの滑走スポーツ'
+    description: '車輪付きシューズでの滑走スポーツ',
+    en: { name: 'Inline skating', description: 'Gliding on wheeled skates' }
   },
   {
     name: 'フリスビー',
@@ -303,7 +352,8 @@ export const HOBBY_SUGGESTIONS: HobbySuggestion[] = [
     isOutdoor: true,
     defaultWeather: ['clear', 'clouds'],
     defaultTimeOfDay: ['day', 'evening'],
-    description: '円盤を投げ合う気軽なレクリエーション'
+    description: '円盤を投げ合う気軽なレクリエーション',
+    en: { name: 'Frisbee', description: 'Casual fun throwing a disc back and forth' }
   },
   {
     name: 'アルティメット（フリスビー競技）',
@@ -312,24 +362,42 @@ export const HOBBY_SUGGESTIONS: HobbySuggestion[] = [
     isOutdoor: true,
     defaultWeather: ['clear', 'clouds'],
     defaultTimeOfDay: ['day', 'evening'],
-    description: 'フリスビーを使った本格的なチームスポーツ'
+    description: 'フリスビーを使った本格的なチームスポーツ',
+    en: { name: 'Ultimate (frisbee)', description: 'A competitive team sport played with a disc' }
   }
 ];
 
+// 表示言語に合わせた名前と説明
+export const getLocalizedSuggestion = (
+  suggestion: HobbySuggestion,
+  language: Language
+): { name: string; description?: string } =>
+  language === 'en'
+    ? suggestion.en
+    : { name: suggestion.name, ...(suggestion.description && { description: suggestion.description }) };
+
 // カテゴリ別にグループ化
-export const HOBBY_CATEGORIES = [
+export const HOBBY_CATEGORIES: Array<{
+  name: string;
+  labelKey: MessageKey;
+  icon: string;
+  hobbies: HobbySuggestion[];
+}> = [
   {
     name: '自然系アウトドア',
+    labelKey: 'suggestionCategory.nature',
     icon: '🌿',
     hobbies: HOBBY_SUGGESTIONS.filter(h => h.category === '自然系アウトドア')
   },
   {
     name: 'アクティブ系アウトドア',
+    labelKey: 'suggestionCategory.active',
     icon: '🏔',
     hobbies: HOBBY_SUGGESTIONS.filter(h => h.category === 'アクティブ系アウトドア')
   },
   {
     name: 'スポーツ・運動系',
+    labelKey: 'suggestionCategory.sports',
     icon: '🏃‍♂️',
     hobbies: HOBBY_SUGGESTIONS.filter(h => h.category === 'スポーツ・運動系')
   }
@@ -337,8 +405,8 @@ export const HOBBY_CATEGORIES = [
 
 // 活動時間帯の設定
 export const TIME_OF_DAY_OPTIONS = [
-  { key: 'morning', label: '朝', icon: '🌅', description: '6:00-11:59' },
-  { key: 'day', label: '昼', icon: '☀️', description: '12:00-17:59' },
-  { key: 'evening', label: '夕', icon: '🌆', description: '18:00-20:59' },
-  { key: 'night', label: '夜', icon: '🌙', description: '21:00-5:59' }
+  { key: 'morning', labelKey: 'timeOfDay.morning', icon: '🌅', description: '6:00-11:59' },
+  { key: 'day', labelKey: 'timeOfDay.day', icon: '☀️', description: '12:00-17:59' },
+  { key: 'evening', labelKey: 'timeOfDay.evening', icon: '🌆', description: '18:00-20:59' },
+  { key: 'night', labelKey: 'timeOfDay.night', icon: '🌙', description: '21:00-5:59' }
 ] as const;
\ No newline at end of file
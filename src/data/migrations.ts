@@ -0,0 +1,97 @@
+import type { Transaction } from 'dexie';
+import type { BackupTableName, BackupTables } from '../types/backup';
+import { createScoringProfile } from './scoringProfiles';
+
+type Row = Record<string, unknown>;
+
+// データベースのバージョンを上げるときに既存の行を書き換える処理
+interface RowMigration {
+  version: number; // このバージョンへの更新で適用する
+  table: BackupTableName;
+  migrate: (row: Row) => void;
+}
+
+/**
+ * 行の書き換え（Dexieのupgradeと、古いバージョンで作成したバックアップの復元で共有する）
+ * テーブルの追加だけのバージョンは書き換えがないため含まない
+ */
+const ROW_MIGRATIONS: RowMigration[] = [
+  // Version 2で趣味に活動時間帯を追加
+  {
+    version: 2,
+    table: 'hobbies',
+    migrate: (hobby) => {
+      if (!hobby['preferredTimeOfDay']) {
+        hobby['preferredTimeOfDay'] = [];
+      }
+    }
+  },
+  // Version 3で天気データ・天気予報にgeneratedAtを追加
+  {
+    version: 3,
+    table: 'weatherData',
+    migrate: (weatherData) => {
+      if (!weatherData['generatedAt']) {
+        weatherData['generatedAt'] = weatherData['cachedAt'] || new Date();
+      }
+    }
+  },
+  {
+    version: 3,
+    table: 'weatherForecasts',
+    migrate: (forecast) => {
+      if (!forecast['generatedAt']) {
+        forecast['generatedAt'] = forecast['cachedAt'] || new Date();
+      }
+    }
+  },
+  // Version 4で場所に種別を追加（既存の場所はデフォルトで都市とする）
+  {
+    version: 4,
+    table: 'locations',
+    migrate: (location) => {
+      if (!location['type']) {
+        location['type'] = 'city';
+      }
+    }
+  },
+  // Version 6で趣味にスコア計算の重み付けを追加（既存の趣味は従来の固定重みを引き継ぐ）
+  {
+    version: 6,
+    table: 'hobbies',
+    migrate: (hobby) => {
+      if (!hobby['scoringProfile']) {
+        hobby['scoringProfile'] = createScoringProfile('balanced');
+      }
+    }
+  },
+  // Version 10で風速の単位の初期値をm/sに変更
+  // これまでの'kmh'は選択できない初期値で、表示は常にm/sだったため引き継がない
+  {
+    version: 10,
+    table: 'settings',
+    migrate: (settings) => {
+      if (settings['windSpeedUnit'] === 'kmh') {
+        settings['windSpeedUnit'] = 'ms';
+      }
+    }
+  }
+];
+
+// Dexieのupgradeで、指定のバージョンの書き換えをデータベースの行に適用する
+export const upgradeRows = async (trans: Transaction, version: number): Promise<void> => {
+  for (const migration of ROW_MIGRATIONS.filter((m) => m.version === version)) {
+    await trans.table(migration.table).toCollection().modify((row: Row) => migration.migrate(row));
+  }
+};
+
+/**
+ * 古いバージョンのデータベースから作成したバックアップの行を、今のバージョンの形に書き換える
+ * @param fromVersion バックアップ作成時のデータベースのバージョン
+ */
+export const migrateBackupTables = <T extends BackupTables>(tables: T, fromVersion: number): T => {
+  for (const migration of ROW_MIGRATIONS.filter((m) => m.version > fromVersion)) {
+    (tables[migration.table] as unknown as Row[]).forEach((row) => migration.migrate(row));
+  }
+  return tables;
+};
@@ -0,0 +1,72 @@
+import type { NightSkyFactor, ScoringPresetId, ScoringProfile, ScoringWeights, ScoreFactor } from '../types';
+import type { MessageKey } from '../types/i18n';
+
+export interface ScoringPreset {
+  id: Exclude<ScoringPresetId, 'custom'>;
+  labelKey: MessageKey;
+  descriptionKey: MessageKey;
+  weights: ScoringWeights;
+}
+
+// 従来の固定重み（天気40% / 気温25% / 降水20% / 風10% / UV5%）
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+  weather: 40,
+  temperature: 25,
+  precipitation: 20,
+  wind: 10,
+  uv: 5
+};
+
+// スコア計算のプリセット
+export const SCORING_PRESETS: ScoringPreset[] = [
+  {
+    id: 'balanced',
+    labelKey: 'scoringPreset.balanced.label',
+    descriptionKey: 'scoringPreset.balanced.description',
+    weights: DEFAULT_SCORING_WEIGHTS
+  },
+  {
+    id: 'wind-sensitive',
+    labelKey: 'scoringPreset.wind-sensitive.label',
+    descriptionKey: 'scoringPreset.wind-sensitive.description',
+    weights: { weather: 25, temperature: 15, precipitation: 20, wind: 35, uv: 5 }
+  },
+  {
+    id: 'rain-tolerant',
+    labelKey: 'scoringPreset.rain-tolerant.label',
+    descriptionKey: 'scoringPreset.rain-tolerant.description',
+    weights: { weather: 30, temperature: 35, precipitation: 5, wind: 20, uv: 10 }
+  },
+  {
+    id: 'sun-seeking',
+    labelKey: 'scoringPreset.sun-seeking.label',
+    descriptionKey: 'scoringPreset.sun-seeking.description',
+    weights: { weather: 55, temperature: 20, precipitation: 20, wind: 5, uv: 0 }
+  }
+];
+
+export const SCORE_FACTOR_LABELS: Record<ScoreFactor, MessageKey> = {
+  weather: 'scoreFactor.weather',
+  temperature: 'scoreFactor.temperature',
+  precipitation: 'scoreFactor.precipitation',
+  wind: 'scoreFactor.wind',
+  uv: 'scoreFactor.uv'
+};
+
+// 夜空モードの重み（夜間の雲量50% / 月明かり30% / 暗い時間20%）
+export const NIGHT_SKY_WEIGHTS: Record<NightSkyFactor, number> = {
+  cloudCover: 0.5,
+  moonlight: 0.3,
+  darkness: 0.2
+};
+
+export const NIGHT_SKY_FACTOR_LABELS: Record<NightSkyFactor, MessageKey> = {
+  cloudCover: 'scoreFactor.cloudCover',
+  moonlight: 'scoreFactor.moonlight',
+  darkness: 'scoreFactor.darkness'
+};
+
+export const createScoringProfile = (preset: ScoringPreset['id'] = 'balanced'): ScoringProfile => ({
+  preset,
+  weights: { ...(SCORING_PRESETS.find(p => p.id === preset)?.weights ?? DEFAULT_SCORING_WEIGHTS) }
+});
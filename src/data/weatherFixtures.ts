@@ -0,0 +1,84 @@
+import type { HourlyForecast, WeatherIntensity, WeatherType } from '../types';
+import type { MessageKey } from '../types/i18n';
+import { t } from '../utils/i18n';
+
+// ローカルプロバイダー用の固定データ
+export interface LocalWeatherFixture {
+  current: HourlyForecast & { visibility: number };
+  slots: HourlyForecast[];
+}
+
+// 日ごとの天気パターン（晴れ→曇り→雨→晴れ→曇り）
+const DAILY_PATTERNS: Array<{
+  weatherType: WeatherType;
+  intensity?: WeatherIntensity;
+  descriptionKey: MessageKey;
+  baseTemperature: number;
+  cloudiness: number;
+  pop: number;
+  rain: number; // 3時間の降雨量（mm）
+  windSpeed: number;
+  visibility: number;
+}> = [
+  { weatherType: 'clear', descriptionKey: 'fixture.clearSky', baseTemperature: 22, cloudiness: 5, pop: 0, rain: 0, windSpeed: 2.1, visibility: 10000 },
+  { weatherType: 'clouds', descriptionKey: 'fixture.mostlyCloudy', baseTemperature: 20, cloudiness: 70, pop: 0.2, rain: 0, windSpeed: 3.4, visibility: 9000 },
+  { weatherType: 'rain', intensity: 'light', descriptionKey: 'fixture.lightRain', baseTemperature: 17, cloudiness: 95, pop: 0.8, rain: 1.5, windSpeed: 6.2, visibility: 4000 },
+  { weatherType: 'clear', descriptionKey: 'fixture.clear', baseTemperature: 24, cloudiness: 10, pop: 0.05, rain: 0, windSpeed: 1.8, visibility: 10000 },
+  { weatherType: 'clouds', descriptionKey: 'fixture.thinClouds', baseTemperature: 21, cloudiness: 40, pop: 0.1, rain: 0, windSpeed: 4.0, visibility: 10000 }
+];
+
+// 平均風速に対する瞬間風速の比
+const GUST_FACTOR = 1.6;
+
+// 3時間ごとの気温変化（0時〜21時）
+const HOURLY_TEMPERATURE_OFFSETS = [-5, -6, -3, 2, 5, 4, 0, -3];
+
+/**
+ * 基準日から5日分（3時間ごと）のサンプル予報を生成
+ * 日付は基準日に合わせて生成されるため、常に「今日から」の予報として扱える
+ */
+export function createSampleWeatherFixture(baseDate: Date = new Date()): LocalWeatherFixture {
+  const start = new Date(baseDate);
+  start.setHours(0, 0, 0, 0);
+
+  const slots: HourlyForecast[] = DAILY_PATTERNS.flatMap((pattern, dayIndex) =>
+    HOURLY_TEMPERATURE_OFFSETS.map((offset, slotIndex) => {
+      const datetime = new Date(start);
+      datetime.setDate(start.getDate() + dayIndex);
+      datetime.setHours(slotIndex * 3);
+      const temperature = pattern.baseTemperature + offset;
+      const isDaytime = slotIndex >= 2 && slotIndex <= 5;
+
+      return {
+        datetime,
+        temperature,
+        feelsLike: temperature - pattern.windSpeed * 0.3,
+        humidity: 50 + Math.round(pattern.cloudiness / 3),
+        pressure: 1015 - Math.round(pattern.pop * 12),
+        windSpeed: pattern.windSpeed,
+        windGust: Math.round(pattern.windSpeed * GUST_FACTOR * 10) / 10,
+        windDirection: 90 + dayIndex * 45,
+        weatherType: pattern.weatherType,
+        ...(pattern.intensity && { weatherIntensity: pattern.intensity }),
+        weatherDescription: t(pattern.descriptionKey),
+        cloudiness: pattern.cloudiness,
+        uvIndex: isDaytime && pattern.weatherType === 'clear' ? 6 : 0,
+        pop: pattern.pop,
+        rain: pattern.rain,
+        snow: 0,
+        visibility: pattern.visibility
+      };
+    })
+  );
+
+  // 基準時刻に最も近いスロットを現在の天気とする
+  const nearest = slots.reduce((best, slot) =>
+    Math.abs(slot.datetime.getTime() - baseDate.getTime()) <
+    Math.abs(best.datetime.getTime() - baseDate.getTime()) ? slot : best
+  );
+
+  return {
+    current: { ...nearest, datetime: new Date(baseDate), visibility: nearest.visibility ?? 10000 },
+    slots
+  };
+}
@@ -0,0 +1,91 @@
+import { useState, useEffect, useCallback } from 'react';
+import { activityLogService, type ActivityLogInput } from '../services/activity-log.service';
+import type { RecommendedDay } from '../services/recommendation.service';
+import type { ActivityLog, ActivityRating, Hobby, Location } from '../types';
+import { t } from '../utils/i18n';
+
+interface UseActivityLogState {
+  hobby: Hobby; // 学習を反映した最新の趣味
+  logs: ActivityLog[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+interface UseActivityLogReturn extends UseActivityLogState {
+  logActivity: (day: RecommendedDay, rating: ActivityRating, location?: Location) => Promise<Hobby | undefined>;
+  clearError: () => void;
+}
+
+export const useActivityLog = (initialHobby: Hobby): UseActivityLogReturn => {
+  const [state, setState] = useState<UseActivityLogState>({
+    hobby: initialHobby,
+    logs: [],
+    isLoading: false,
+    error: null,
+  });
+
+  const updateState = useCallback((updates: Partial<UseActivityLogState>) => {
+    setState(prev => ({ ...prev, ...updates }));
+  }, []);
+
+  const clearError = useCallback(() => {
+    updateState({ error: null });
+  }, [updateState]);
+
+  const loadLogs = useCallback(async (hobbyId: number) => {
+    try {
+      const logs = await activityLogService.getLogsForHobby(hobbyId);
+      updateState({ logs });
+    } catch (error) {
+      updateState({
+        error: error instanceof Error ? error.message : t('activityLog.loadFailed')
+      });
+    }
+  }, [updateState]);
+
+  const logActivity = useCallback(async (day: RecommendedDay, rating: ActivityRating, location?: Location) => {
+    updateState({ isLoading: true, error: null });
+
+    try {
+      const input: ActivityLogInput = {
+        date: day.date,
+        forecast: day.forecast,
+        predictedScore: day.score,
+        rating,
+      };
+      if (location) {
+        if (location.id !== undefined) input.locationId = location.id;
+        input.locationName = location.name;
+        input.lat = location.lat;
+        input.lon = location.lon;
+      }
+
+      const hobby = await activityLogService.logActivity(state.hobby, input);
+      updateState({ hobby, isLoading: false });
+      if (hobby.id !== undefined) {
+        await loadLogs(hobby.id);
+      }
+      return hobby;
+    } catch (error) {
+      updateState({
+        error: error instanceof Error ? error.message : t('activityLog.saveFailed'),
+        isLoading: false
+      });
+      return undefined;
+    }
+  }, [state.hobby, updateState, loadLogs]);
+
+  // 趣味が切り替わったら記録を読み込み直す
+  useEffect(() => {
+    updateState({ hobby: initialHobby });
+    if (initialHobby.id !== undefined) {
+      loadLogs(initialHobby.id);
+    }
+  }, [initialHobby, updateState, loadLogs]);
+
+  return {
+    ...state,
+    logActivity,
+    clearError
+  };
+};
@@ -0,0 +1,115 @@
+import { useState, useEffect, useCallback } from 'react';
+import { availabilityService, type BusyImportResult } from '../services/availability.service';
+import type { BusyInterval } from '../types';
+import { t } from '../utils/i18n';
+
+interface UseAvailabilityState {
+  busyIntervals: BusyInterval[]; // 開始時刻順
+  isLoading: boolean;
+  error: string | null;
+}
+
+interface UseAvailabilityReturn extends UseAvailabilityState {
+  importCalendar: (content: string) => Promise<BusyImportResult | null>;
+  importBusyList: (text: string) => Promise<BusyImportResult | null>;
+  deleteBusyInterval: (id: number) => Promise<void>;
+  clearBusyIntervals: () => Promise<void>;
+  clearError: () => void;
+}
+
+export const useAvailability = (): UseAvailabilityReturn => {
+  const [state, setState] = useState<UseAvailabilityState>({
+    busyIntervals: [],
+    isLoading: false,
+    error: null,
+  });
+
+  const updateState = useCallback((updates: Partial<UseAvailabilityState>) => {
+    setState(prev => ({ ...prev, ...updates }));
+  }, []);
+
+  const clearError = useCallback(() => {
+    updateState({ error: null });
+  }, [updateState]);
+
+  const loadBusyIntervals = useCallback(async () => {
+    updateState({ isLoading: true, error: null });
+
+    try {
+      await availabilityService.removeExpiredIntervals();
+      updateState({
+        busyIntervals: await availabilityService.getBusyIntervals(),
+        isLoading: false
+      });
+    } catch (error) {
+      updateState({
+        error: error instanceof Error ? error.message : t('availability.loadFailed'),
+        isLoading: false
+      });
+    }
+  }, [updateState]);
+
+  // 取り込み後は保存済みの予定を読み込み直す（失敗した場合はnull）
+  const runImport = useCallback(async (importer: () => Promise<BusyImportResult>) => {
+    updateState({ error: null });
+
+    try {
+      const result = await importer();
+      updateState({ busyIntervals: await availabilityService.getBusyIntervals() });
+      return result;
+    } catch (error) {
+      updateState({
+        error: error instanceof Error ? error.message : t('availability.importFailed')
+      });
+      return null;
+    }
+  }, [updateState]);
+
+  const importCalendar = useCallback(
+    (content: string) => runImport(() => availabilityService.importCalendar(content)),
+    [runImport]
+  );
+
+  const importBusyList = useCallback(
+    (text: string) => runImport(() => availabilityService.importBusyList(text)),
+    [runImport]
+  );
+
+  const deleteBusyInterval = useCallback(async (id: number) => {
+    try {
+      await availabilityService.deleteBusyInterval(id);
+      setState(prev => ({
+        ...prev,
+        busyIntervals: prev.busyIntervals.filter(interval => interval.id !== id)
+      }));
+    } catch (error) {
+      updateState({
+        error: error instanceof Error ? error.message : t('availability.deleteFailed')
+      });
+    }
+  }, [updateState]);
+
+  const clearBusyIntervals = useCallback(async () => {
+    try {
+      await availabilityService.clearBusyIntervals();
+      updateState({ busyIntervals: [] });
+    } catch (error) {
+      updateState({
+        error: error instanceof Error ? error.message : t('availability.deleteFailed')
+      });
+    }
+  }, [updateState]);
+
+  useEffect(() => {
+    void loadBusyIntervals();
+  }, [loadBusyIntervals]);
+
+  return {
+    ...state,
+    importCalendar,
+    importBusyList,
+    deleteBusyInterval,
+    clearBusyIntervals,
+    clearError
+  };
+};
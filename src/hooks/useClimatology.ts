@@ -0,0 +1,66 @@
+import { useState, useEffect, useCallback } from 'react';
+import { climatologyService, type Climatology } from '../services/climatology.service';
+import type { Hobby, Location } from '../types';
+import { t } from '../utils/i18n';
+
+interface UseClimatologyState {
+  climatology: Climatology | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+interface UseClimatologyReturn extends UseClimatologyState {
+  refreshClimatology: () => Promise<void>;
+}
+
+// 場所の典型的な天気（場所・趣味・記録の更新日時が変わったら集計し直す）
+export const useClimatology = (
+  location: Pick<Location, 'lat' | 'lon'> | null,
+  hobby?: Hobby,
+  updatedAt?: Date
+): UseClimatologyReturn => {
+  const [state, setState] = useState<UseClimatologyState>({
+    climatology: null,
+    isLoading: false,
+    error: null,
+  });
+
+  const updateState = useCallback((updates: Partial<UseClimatologyState>) => {
+    setState(prev => ({ ...prev, ...updates }));
+  }, []);
+
+  const lat = location?.lat;
+  const lon = location?.lon;
+  const updatedTime = updatedAt?.getTime();
+
+  const refreshClimatology = useCallback(async () => {
+    if (lat === undefined || lon === undefined) {
+      updateState({ climatology: null });
+      return;
+    }
+
+    updateState({ isLoading: true, error: null });
+
+    try {
+      updateState({
+        climatology: await climatologyService.getClimatology(lat, lon, hobby),
+        isLoading: false
+      });
+    } catch (error) {
+      updateState({
+        error: error instanceof Error ? error.message : t('climatology.loadFailed'),
+        isLoading: false
+      });
+    }
+  }, [lat, lon, hobby, updateState]);
+
+  // 天気を取得して記録が増えたら集計し直す
+  useEffect(() => {
+    void refreshClimatology();
+  }, [refreshClimatology, updatedTime]);
+
+  return {
+    ...state,
+    refreshClimatology
+  };
+};
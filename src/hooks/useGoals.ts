@@ -0,0 +1,53 @@
+import { useState, useEffect, useCallback } from 'react';
+import { goalService } from '../services/goal.service';
+import type { GoalProgress } from '../utils/goals';
+import type { Hobby } from '../types';
+import { t } from '../utils/i18n';
+
+interface UseGoalsState {
+  goalProgress: GoalProgress[]; // 遅れている趣味から順
+  isLoading: boolean;
+  error: string | null;
+}
+
+interface UseGoalsReturn extends UseGoalsState {
+  refreshGoals: () => Promise<void>;
+}
+
+// 趣味の目標の進捗（趣味が変わったら計算し直す）
+export const useGoals = (hobbies: Hobby[]): UseGoalsReturn => {
+  const [state, setState] = useState<UseGoalsState>({
+    goalProgress: [],
+    isLoading: false,
+    error: null,
+  });
+
+  const updateState = useCallback((updates: Partial<UseGoalsState>) => {
+    setState(prev => ({ ...prev, ...updates }));
+  }, []);
+
+  const refreshGoals = useCallback(async () => {
+    updateState({ isLoading: true, error: null });
+
+    try {
+      updateState({
+        goalProgress: await goalService.getGoalProgress(hobbies),
+        isLoading: false
+      });
+    } catch (error) {
+      updateState({
+        error: error instanceof Error ? error.message : t('goals.loadFailed'),
+        isLoading: false
+      });
+    }
+  }, [hobbies, updateState]);
+
+  useEffect(() => {
+    void refreshGoals();
+  }, [refreshGoals]);
+
+  return {
+    ...state,
+    refreshGoals
+  };
+};
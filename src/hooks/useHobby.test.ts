@@ -1,6 +1,6 @@
 import { renderHook, act } from '@testing-library/react';
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { useHobby, validateHobby, createWeatherCondition } from './useHobby';
+import { useHobby, createWeatherCondition } from './useHobby';
 import type { Hobby } from '../types';
 
 // Mock database service
@@ -180,69 +180,6 @@ describe('useHobby', () => {
   });
 });
 
-describe('validateHobby', () => {
-  it('should validate hobby correctly', () => {
-    const validHobby = {
-      name: 'ランニング',
-      preferredWeather: [{ condition: 'clear' as const, weight: 5 }],
-      isActive: true
-    };
-
-    const errors = validateHobby(validHobby);
-    expect(errors).toHaveLength(0);
-  });
-
-  it('should return errors for invalid hobby', () => {
-    const invalidHobby = {
-      name: '',
-      preferredWeather: [],
-      isActive: true
-    };
-
-    const errors = validateHobby(invalidHobby);
-    expect(errors).toContain('趣味名は必須です');
-    expect(errors).toContain('希望天気を少なくとも1つ選択してください');
-  });
-
-  it('should validate name length', () => {
-    const hobbyWithLongName = {
-      name: 'a'.repeat(51),
-      preferredWeather: [{ condition: 'clear' as const, weight: 5 }],
-      isActive: true
-    };
-
-    const errors = validateHobby(hobbyWithLongName);
-    expect(errors).toContain('趣味名は50文字以内で入力してください');
-  });
-
-  it('should validate description length', () => {
-    const hobbyWithLongDescription = {
-      name: 'ランニング',
-      description: 'a'.repeat(201),
-      preferredWeather: [{ condition: 'clear' as const, weight: 5 }],
-      isActive: true
-    };
-
-    const errors = validateHobby(hobbyWithLongDescription);
-    expect(errors).toContain('説明は200文字以内で入力してください');
-  });
-
-  it('should validate weather condition weights', () => {
-    const hobbyWithInvalidWeights = {
-      name: 'ランニング',
-      preferredWeather: [
-        { condition: 'clear' as const, weight: 0 },
-        { condition: 'rain' as const, weight: 11 }
-      ],
-      isActive: true
-    };
-
-    const errors = validateHobby(hobbyWithInvalidWeights);
-    expect(errors).toContain('天気条件1のスコアは1-10の範囲で設定してください');
-    expect(errors).toContain('天気条件2のスコアは1-10の範囲で設定してください');
-  });
-});
-
 describe('createWeatherCondition', () => {
   it('should create weather condition with default weight', () => {
     const condition = createWeatherCondition('clear');
@@ -1,6 +1,8 @@
 import { useState, useEffect, useCallback } from 'react';
 import { databaseService } from '../services/database.service';
-import type { Hobby, WeatherCondition, WeatherType } from '../types';
+import type { Hobby, HobbyLocationLink, WeatherCondition, WeatherIntensity, WeatherType } from '../types';
+import type { MessageKey } from '../types/i18n';
+import { t } from '../utils/i18n';
 
 interface UseHobbyState {
   hobbies: Hobby[];
@@ -10,8 +12,8 @@ interface UseHobbyState {
 }
 
 interface UseHobbyReturn extends UseHobbyState {
-  createHobby: (hobby: Omit<Hobby, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
-  updateHobby: (id: number, changes: Partial<Hobby>) => Promise<void>;
+  createHobby: (hobby: Omit<Hobby, 'id' | 'createdAt' | 'updatedAt'>, locationLinks?: HobbyLocationLink[]) => Promise<void>;
+  updateHobby: (id: number, changes: Partial<Hobby>, locationLinks?: HobbyLocationLink[]) => Promise<void>;
   deleteHobby: (id: number) => Promise<void>;
   toggleHobbyActive: (id: number) => Promise<void>;
   refreshHobbies: () => Promise<void>;
@@ -50,35 +52,44 @@ export const useHobby = (): UseHobbyReturn => {
       });
     } catch (error) {
       updateState({
-        error: error instanceof Error ? error.message : '趣味の読み込みに失敗しました',
+        error: error instanceof Error ? error.message : t('hobby.loadFailed'),
         isLoading: false
       });
     }
   }, [updateState]);
 
-  const createHobby = useCallback(async (hobbyData: Omit<Hobby, 'id' | 'createdAt' | 'updatedAt'>) => {
+  const createHobby = useCallback(async (
+    hobbyData: Omit<Hobby, 'id' | 'createdAt' | 'updatedAt'>,
+    locationLinks?: HobbyLocationLink[]
+  ) => {
     updateState({ isLoading: true, error: null });
 
     try {
-      await databaseService.createHobby(hobbyData);
+      const id = await databaseService.createHobby(hobbyData);
+      if (locationLinks) {
+        await databaseService.setHobbyLocations(id, locationLinks);
+      }
       await loadHobbies();
     } catch (error) {
       updateState({
-        error: error instanceof Error ? error.message : '趣味の作成に失敗しました',
+        error: error instanceof Error ? error.message : t('hobby.createFailed'),
         isLoading: false
       });
     }
   }, [updateState, loadHobbies]);
 
-  const updateHobby = useCallback(async (id: number, changes: Partial<Hobby>) => {
+  const updateHobby = useCallback(async (id: number, changes: Partial<Hobby>, locationLinks?: HobbyLocationLink[]) => {
     updateState({ isLoading: true, error: null });
 
     try {
       await databaseService.updateHobby(id, changes);
+      if (locationLinks) {
+        await databaseService.setHobbyLocations(id, locationLinks);
+      }
       await loadHobbies();
     } catch (error) {
       updateState({
-        error: error instanceof Error ? error.message : '趣味の更新に失敗しました',
+        error: error instanceof Error ? error.message : t('hobby.updateFailed'),
         isLoading: false
       });
     }
@@ -92,7 +103,7 @@ export const useHobby = (): UseHobbyReturn => {
       await loadHobbies();
     } catch (error) {
       updateState({
-        error: error instanceof Error ? error.message : '趣味の削除に失敗しました',
+        error: error instanceof Error ? error.message : t('hobby.deleteFailed'),
         isLoading: false
       });
     }
@@ -101,7 +112,7 @@ export const useHobby = (): UseHobbyReturn => {
   const toggleHobbyActive = useCallback(async (id: number) => {
     const hobby = state.hobbies.find(h => h.id === id);
     if (!hobby) {
-      updateState({ error: '趣味が見つかりません' });
+      updateState({ error: t('hobby.notFound') });
       return;
     }
 
@@ -129,17 +140,17 @@ export const useHobby = (): UseHobbyReturn => {
 };
 
 // Weather condition utilities
-export const WEATHER_CONDITIONS: Array<{ type: WeatherType; label: string; icon: string }> = [
-  { type: 'clear', label: '晴れ', icon: '☀️' },
-  { type: 'clouds', label: '曇り', icon: '☁️' },
-  { type: 'rain', label: '雨', icon: '🌧️' },
-  { type: 'drizzle', label: '小雨', icon: '🌦️' },
-  { type: 'thunderstorm', label: '雷雨', icon: '⛈️' },
-  { type: 'snow', label: '雪', icon: '❄️' },
-  { type: 'mist', label: '霧', icon: '🌫️' },
-  { type: 'fog', label: '濃霧', icon: '🌫️' },
-  { type: 'haze', label: 'かすみ', icon: '🌫️' },
-  { type: 'dust', label: '砂埃', icon: '💨' }
+export const WEATHER_CONDITIONS: Array<{ type: WeatherType; labelKey: MessageKey; icon: string }> = [
+  { type: 'clear', labelKey: 'weather.type.clear', icon: '☀️' },
+  { type: 'clouds', labelKey: 'weather.type.clouds', icon: '☁️' },
+  { type: 'rain', labelKey: 'weather.type.rain', icon: '🌧️' },
+  { type: 'drizzle', labelKey: 'weather.type.drizzle', icon: '🌦️' },
+  { type: 'thunderstorm', labelKey: 'weather.type.thunderstorm', icon: '⛈️' },
+  { type: 'snow', labelKey: 'weather.type.snow', icon: '❄️' },
+  { type: 'mist', labelKey: 'weather.type.mist', icon: '🌫️' },
+  { type: 'fog', labelKey: 'weather.type.fog', icon: '🌫️' },
+  { type: 'haze', labelKey: 'weather.type.haze', icon: '🌫️' },
+  { type: 'dust', labelKey: 'weather.type.dust', icon: '💨' }
 ];
 
 export const createWeatherCondition = (type: WeatherType, weight: number = 5): WeatherCondition => ({
@@ -147,40 +158,13 @@ export const createWeatherCondition = (type: WeatherType, weight: number = 5): W
   weight: Math.max(1, Math.min(10, weight)) // Ensure weight is between 1-10
 });
 
-export const getWeatherConditionLabel = (type: WeatherType): string => {
-  return WEATHER_CONDITIONS.find(c => c.type === type)?.label || type;
+// 強さを指定した場合は「雨（強さ: 弱いまで）」のように添える
+export const getWeatherConditionLabel = (type: WeatherType, intensity?: WeatherIntensity): string => {
+  const condition = WEATHER_CONDITIONS.find(c => c.type === type);
+  const label = condition ? t(condition.labelKey) : type;
+  return intensity ? t('weather.intensityLimit', { weather: label, intensity: t(`weather.intensity.${intensity}`) }) : label;
 };
 
 export const getWeatherConditionIcon = (type: WeatherType): string => {
   return WEATHER_CONDITIONS.find(c => c.type === type)?.icon || '❓';
-};
-
-export const validateHobby = (hobby: Partial<Hobby>): string[] => {
-  const errors: string[] = [];
-
-  if (!hobby.name || hobby.name.trim().length === 0) {
-    errors.push('趣味名は必須です');
-  }
-
-  if (hobby.name && hobby.name.trim().length > 50) {
-    errors.push('趣味名は50文字以内で入力してください');
-  }
-
-  if (hobby.description && hobby.description.length > 200) {
-    errors.push('説明は200文字以内で入力してください');
-  }
-
-  if (!hobby.preferredWeather || hobby.preferredWeather.length === 0) {
-    errors.push('希望天気を少なくとも1つ選択してください');
-  }
-
-  if (hobby.preferredWeather) {
-    hobby.preferredWeather.forEach((condition, index) => {
-      if (typeof condition === 'object' && (condition.weight < 1 || condition.weight > 10)) {
-        errors.push(`天気条件${index + 1}のスコアは1-10の範囲で設定してください`);
-      }
-    });
-  }
-
-  return errors;
 };
\ No newline at end of file
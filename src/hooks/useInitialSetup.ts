@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useHobby } from './useHobby';
 import { useWeather } from './useWeather';
+import { t } from '../utils/i18n';
 
 export interface InitialSetupState {
   hasHobbies: boolean;
@@ -94,22 +95,22 @@ export const useInitialSetup = () => {
     return [
       {
         step: 'api-key',
-        title: 'API Key設定',
-        description: '天気情報を取得するためのAPI Keyを設定してください',
+        title: t('setup.step.apiKey.title'),
+        description: t('setup.step.apiKey.description'),
         isCompleted: setupState.hasApiKey,
         isRequired: true
       },
       {
         step: 'location',
-        title: '場所設定',
-        description: '天気予報を取得する場所を設定してください',
+        title: t('setup.step.location.title'),
+        description: t('setup.step.location.description'),
         isCompleted: setupState.hasLocation,
         isRequired: true
       },
       {
         step: 'hobbies',
-        title: '趣味登録',
-        description: 'あなたの趣味を登録してパーソナライズされた推薦を受けましょう',
+        title: t('setup.step.hobbies.title'),
+        description: t('setup.step.hobbies.description'),
         isCompleted: setupState.hasHobbies,
         isRequired: false
       }
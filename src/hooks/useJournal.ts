@@ -0,0 +1,136 @@
+import { useState, useEffect, useCallback } from 'react';
+import { databaseService } from '../services/database.service';
+import type { ActivityLog, ActivityPhoto, Hobby } from '../types';
+import { t } from '../utils/i18n';
+
+interface UseJournalState {
+  hobbies: Hobby[];
+  logs: ActivityLog[]; // 新しい順
+  photos: ActivityPhoto[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+interface UseJournalReturn extends UseJournalState {
+  updateNote: (logId: number, note: string) => Promise<void>;
+  deleteEntry: (logId: number) => Promise<void>;
+  addPhotos: (logId: number, files: File[]) => Promise<void>;
+  deletePhoto: (photoId: number) => Promise<void>;
+  refreshJournal: () => Promise<void>;
+  clearError: () => void;
+}
+
+export const useJournal = (): UseJournalReturn => {
+  const [state, setState] = useState<UseJournalState>({
+    hobbies: [],
+    logs: [],
+    photos: [],
+    isLoading: false,
+    error: null,
+  });
+
+  const updateState = useCallback((updates: Partial<UseJournalState>) => {
+    setState(prev => ({ ...prev, ...updates }));
+  }, []);
+
+  const clearError = useCallback(() => {
+    updateState({ error: null });
+  }, [updateState]);
+
+  const loadJournal = useCallback(async () => {
+    updateState({ isLoading: true, error: null });
+
+    try {
+      const [hobbies, logs] = await Promise.all([
+        databaseService.getAllHobbies(),
+        databaseService.getAllActivityLogs()
+      ]);
+      const photos = await databaseService.getActivityPhotos(
+        logs.flatMap(log => (log.id !== undefined ? [log.id] : []))
+      );
+
+      updateState({
+        hobbies,
+        logs,
+        photos,
+        isLoading: false
+      });
+    } catch (error) {
+      updateState({
+        error: error instanceof Error ? error.message : t('journal.loadFailed'),
+        isLoading: false
+      });
+    }
+  }, [updateState]);
+
+  const updateNote = useCallback(async (logId: number, note: string) => {
+    try {
+      await databaseService.updateActivityLog(logId, { note });
+      setState(prev => ({
+        ...prev,
+        logs: prev.logs.map(log => (log.id === logId ? { ...log, note } : log))
+      }));
+    } catch (error) {
+      updateState({
+        error: error instanceof Error ? error.message : t('journal.noteSaveFailed')
+      });
+    }
+  }, [updateState]);
+
+  const deleteEntry = useCallback(async (logId: number) => {
+    try {
+      await databaseService.deleteActivityLog(logId);
+      await loadJournal();
+    } catch (error) {
+      updateState({
+        error: error instanceof Error ? error.message : t('journal.deleteFailed')
+      });
+    }
+  }, [updateState, loadJournal]);
+
+  const addPhotos = useCallback(async (logId: number, files: File[]) => {
+    try {
+      for (const file of files) {
+        await databaseService.addActivityPhoto(logId, file, file.name);
+      }
+      await loadJournal();
+    } catch (error) {
+      updateState({
+        error: error instanceof Error ? error.message : t('journal.photoSaveFailed')
+      });
+    }
+  }, [updateState, loadJournal]);
+
+  const deletePhoto = useCallback(async (photoId: number) => {
+    try {
+      await databaseService.deleteActivityPhoto(photoId);
+      setState(prev => ({
+        ...prev,
+        photos: prev.photos.filter(photo => photo.id !== photoId)
+      }));
+    } catch (error) {
+      updateState({
+        error: error instanceof Error ? error.message : t('journal.photoDeleteFailed')
+      });
+    }
+  }, [updateState]);
+
+  const refreshJournal = useCallback(async () => {
+    await loadJournal();
+  }, [loadJournal]);
+
+  // Load journal on mount
+  useEffect(() => {
+    loadJournal();
+  }, [loadJournal]);
+
+  return {
+    ...state,
+    updateNote,
+    deleteEntry,
+    addPhotos,
+    deletePhoto,
+    refreshJournal,
+    clearError
+  };
+};
@@ -0,0 +1,107 @@
+import { useState, useCallback } from 'react';
+import type { Hobby } from '../types';
+import { databaseService } from '../services/database.service';
+import { weatherService } from '../services/weather.service';
+import {
+  recommendationService,
+  type LocationForecast,
+  type MultiLocationOptions,
+  type MultiLocationRecommendation
+} from '../services/recommendation.service';
+import { t } from '../utils/i18n';
+
+// 場所比較の状態
+interface UseLocationComparisonState {
+  recommendations: MultiLocationRecommendation[]; // 趣味ごとの場所別おすすめ
+  locationCount: number; // 比較した場所の数
+  failedLocations: string[]; // 天気予報を取得できなかった場所
+  isLoading: boolean; // 読み込み中フラグ
+  error: string | null; // エラーメッセージ
+}
+
+// 場所比較のアクション
+interface UseLocationComparisonActions {
+  compareLocations: (hobbies: Hobby[], options?: MultiLocationOptions) => Promise<void>; // 保存済みの全場所で比較
+  clearError: () => void; // エラークリア
+}
+
+export function useLocationComparison(): UseLocationComparisonState & UseLocationComparisonActions {
+  const [state, setState] = useState<UseLocationComparisonState>({
+    recommendations: [],
+    locationCount: 0,
+    failedLocations: [],
+    isLoading: false,
+    error: null
+  });
+
+  /**
+   * 保存済みの場所すべての天気予報を取得して比較
+   */
+  const compareLocations = useCallback(async (hobbies: Hobby[], options?: MultiLocationOptions) => {
+    setState(prev => ({ ...prev, isLoading: true, error: null }));
+
+    try {
+      const [locations, hobbyLocations, defaultLocation] = await Promise.all([
+        databaseService.getAllLocations(),
+        databaseService.getAllHobbyLocations(),
+        databaseService.getDefaultLocation()
+      ]);
+      const results = await Promise.allSettled(
+        locations.map(location =>
+          weatherService.getWeatherForecast(location.lat, location.lon, false, location.weatherProvider)
+        )
+      );
+
+      // 取得できた場所だけで比較する
+      const locationForecasts: LocationForecast[] = [];
+      const failedLocations: string[] = [];
+      results.forEach((result, index) => {
+        const location = locations[index];
+        if (!location) return;
+        if (result.status === 'fulfilled') {
+          locationForecasts.push({ location, forecast: result.value });
+        } else {
+          failedLocations.push(location.name);
+        }
+      });
+
+      const recommendations = await recommendationService.generateMultiLocationRecommendations(
+        hobbies,
+        locationForecasts,
+        {
+          hobbyLocations,
+          // 移動距離はデフォルトの場所を起点に計算する
+          ...(defaultLocation && { origin: defaultLocation }),
+          ...options
+        }
+      );
+
+      setState(prev => ({
+        ...prev,
+        recommendations,
+        locationCount: locationForecasts.length,
+        failedLocations,
+        isLoading: false
+      }));
+    } catch (error) {
+      setState(prev => ({
+        ...prev,
+        error: error instanceof Error ? error.message : t('locationComparison.failed'),
+        isLoading: false
+      }));
+    }
+  }, []);
+
+  /**
+   * エラーをクリア
+   */
+  const clearError = useCallback(() => {
+    setState(prev => ({ ...prev, error: null }));
+  }, []);
+
+  return {
+    ...state,
+    compareLocations,
+    clearError
+  };
+}
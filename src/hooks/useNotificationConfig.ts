@@ -6,6 +6,7 @@ import type {
   NotificationType,
   NotificationHistory
 } from '../types/notification';
+import { t } from '../utils/i18n';
 
 interface UseNotificationConfigReturn {
   configs: NotificationConfig[];
@@ -53,7 +54,7 @@ export function useNotificationConfig(): UseNotificationConfigReturn {
       setSettings(settingsData || null);
       setHistory(historyData);
     } catch (err) {
-      setError(err instanceof Error ? err.message : '通知設定の読み込みに失敗しました');
+      setError(err instanceof Error ? err.message : t('notificationConfig.loadFailed'));
       console.error('通知設定読み込みエラー:', err);
     } finally {
       setIsLoading(false);
@@ -67,7 +68,7 @@ export function useNotificationConfig(): UseNotificationConfigReturn {
       await configService.createNotificationConfig(config);
       await loadData(); // データを再読み込み
     } catch (err) {
-      setError(err instanceof Error ? err.message : '通知設定の作成に失敗しました');
+      setError(err instanceof Error ? err.message : t('notificationConfig.createFailed'));
       console.error('通知設定作成エラー:', err);
     }
   }, [loadData, configService]);
@@ -79,7 +80,7 @@ export function useNotificationConfig(): UseNotificationConfigReturn {
       await configService.updateNotificationConfig(id, changes);
       await loadData(); // データを再読み込み
     } catch (err) {
-      setError(err instanceof Error ? err.message : '通知設定の更新に失敗しました');
+      setError(err instanceof Error ? err.message : t('notificationConfig.updateFailed'));
       console.error('通知設定更新エラー:', err);
     }
   }, [loadData, configService]);
@@ -91,7 +92,7 @@ export function useNotificationConfig(): UseNotificationConfigReturn {
       await configService.deleteNotificationConfig(id);
       await loadData(); // データを再読み込み
     } catch (err) {
-      setError(err instanceof Error ? err.message : '通知設定の削除に失敗しました');
+      setError(err instanceof Error ? err.message : t('notificationConfig.deleteFailed'));
       console.error('通知設定削除エラー:', err);
     }
   }, [loadData, configService]);
@@ -103,7 +104,7 @@ export function useNotificationConfig(): UseNotificationConfigReturn {
       await configService.toggleNotificationConfig(id);
       await loadData(); // データを再読み込み
     } catch (err) {
-      setError(err instanceof Error ? err.message : '通知設定の切り替えに失敗しました');
+      setError(err instanceof Error ? err.message : t('notificationConfig.toggleFailed'));
       console.error('通知設定切り替えエラー:', err);
     }
   }, [loadData, configService]);
@@ -115,7 +116,7 @@ export function useNotificationConfig(): UseNotificationConfigReturn {
       await configService.updateNotificationSettings(newSettings);
       await loadData(); // データを再読み込み
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'グローバル設定の更新に失敗しました');
+      setError(err instanceof Error ? err.message : t('notificationConfig.globalUpdateFailed'));
       console.error('グローバル設定更新エラー:', err);
     }
   }, [loadData, configService]);
@@ -127,7 +128,7 @@ export function useNotificationConfig(): UseNotificationConfigReturn {
       const configsData = await configService.getAllNotificationConfigs();
       setConfigs(configsData);
     } catch (err) {
-      setError(err instanceof Error ? err.message : '通知設定の再読み込みに失敗しました');
+      setError(err instanceof Error ? err.message : t('notificationConfig.reloadFailed'));
       console.error('通知設定再読み込みエラー:', err);
     }
   }, [configService]);
@@ -139,7 +140,7 @@ export function useNotificationConfig(): UseNotificationConfigReturn {
       const historyData = await configService.getNotificationHistory({ limit: 50 });
       setHistory(historyData);
     } catch (err) {
-      setError(err instanceof Error ? err.message : '通知履歴の再読み込みに失敗しました');
+      setError(err instanceof Error ? err.message : t('notificationConfig.historyReloadFailed'));
       console.error('通知履歴再読み込みエラー:', err);
     }
   }, [configService]);
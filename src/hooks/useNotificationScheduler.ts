@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback } from 'react';
 import { NotificationSchedulerService } from '../services/notification-scheduler.service';
+import { t } from '../utils/i18n';
 
 interface ScheduledTask {
   id: string;
@@ -62,7 +63,7 @@ export function useNotificationScheduler(): UseNotificationSchedulerReturn {
 
       setError(null);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'スケジューラー状態の取得に失敗');
+      setError(err instanceof Error ? err.message : t('schedulerMonitor.statusFailed'));
     }
   }, [scheduler]);
 
@@ -73,7 +74,7 @@ export function useNotificationScheduler(): UseNotificationSchedulerReturn {
       await scheduler.start();
       updateStatus();
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'スケジューラーの開始に失敗');
+      setError(err instanceof Error ? err.message : t('schedulerMonitor.startFailed'));
     }
   }, [scheduler, updateStatus]);
 
@@ -84,7 +85,7 @@ export function useNotificationScheduler(): UseNotificationSchedulerReturn {
       scheduler.stop();
       updateStatus();
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'スケジューラーの停止に失敗');
+      setError(err instanceof Error ? err.message : t('schedulerMonitor.stopFailed'));
     }
   }, [scheduler, updateStatus]);
 
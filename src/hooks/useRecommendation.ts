@@ -1,10 +1,19 @@
 import { useState, useEffect, useCallback } from 'react';
 import type { Hobby, WeatherForecast } from '../types';
-import { recommendationService, type HobbyRecommendation, type RecommendationFilters } from '../services/recommendation.service';
+import {
+  recommendationService,
+  type HiddenRecommendation,
+  type HobbyRecommendation,
+  type RecommendationFilters
+} from '../services/recommendation.service';
+import { availabilityService } from '../services/availability.service';
+import { goalService } from '../services/goal.service';
+import { t } from '../utils/i18n';
 
 // おすすめ機能の状態
 interface UseRecommendationState {
   recommendations: HobbyRecommendation[]; // おすすめ一覧
+  hiddenRecommendations: HiddenRecommendation[]; // 予定と重なるため外した日
   isLoading: boolean; // 読み込み中フラグ
   error: string | null; // エラーメッセージ
   filters: RecommendationFilters; // フィルター条件
@@ -24,6 +33,7 @@ interface UseRecommendationActions {
 export function useRecommendation(): UseRecommendationState & UseRecommendationActions {
   const [state, setState] = useState<UseRecommendationState>({
     recommendations: [],
+    hiddenRecommendations: [],
     isLoading: false,
     error: null,
     filters: {}
@@ -42,15 +52,26 @@ export function useRecommendation(): UseRecommendationState & UseRecommendationA
 
     try {
       const filtersToUse = customFilters !== undefined ? customFilters : state.filters;
-      const recommendations = await recommendationService.generateRecommendations(
+      // 空いている日だけの場合は保存済みの予定を使う
+      const busyIntervals = filtersToUse.onlyWhenFree && !filtersToUse.busyIntervals
+        ? await availabilityService.getBusyIntervals()
+        : undefined;
+      // 目標に遅れている趣味を優先するため活動記録から進捗を計算する
+      const goalProgress = filtersToUse.goalProgress ?? await goalService.getGoalProgress(hobbies);
+      const { recommendations, hiddenRecommendations } = await recommendationService.generateRecommendationResult(
         hobbies,
         forecast,
-        filtersToUse
+        {
+          ...filtersToUse,
+          ...(busyIntervals && { busyIntervals }),
+          ...(goalProgress.length > 0 && { goalProgress })
+        }
       );
 
       setState(prev => ({
         ...prev,
         recommendations,
+        hiddenRecommendations,
         isLoading: false
       }));
 
@@ -58,7 +79,7 @@ export function useRecommendation(): UseRecommendationState & UseRecommendationA
     } catch (error) {
       setState(prev => ({
         ...prev,
-        error: error instanceof Error ? error.message : '推薦の生成に失敗しました',
+        error: error instanceof Error ? error.message : t('recommendation.generateFailed'),
         isLoading: false
       }));
     }
@@ -89,7 +110,7 @@ export function useRecommendation(): UseRecommendationState & UseRecommendationA
    */
   const getTopRecommendations = useCallback((limit: number = 5): HobbyRecommendation[] => {
     return state.recommendations
-      .filter(rec => rec.recommendedDays.length > 0)
+      .filter(rec => rec.recommendedDays.some(day => day.isPossible))
       .slice(0, limit);
   }, [state.recommendations]);
 
@@ -160,6 +160,7 @@ describe('useWeather', () => {
       lat: 35.6762,
       lon: 139.6503,
       isDefault: true,
+      weatherProvider: 'open-meteo' as const,
       createdAt: new Date()
     };
 
@@ -178,8 +179,8 @@ describe('useWeather', () => {
       await result.current.refreshWeather();
     });
 
-    expect(weatherService.getCurrentWeather).toHaveBeenCalledWith(35.6762, 139.6503, true);
-    expect(weatherService.getWeatherForecast).toHaveBeenCalledWith(35.6762, 139.6503, true);
+    expect(weatherService.getCurrentWeather).toHaveBeenCalledWith(35.6762, 139.6503, true, 'open-meteo');
+    expect(weatherService.getWeatherForecast).toHaveBeenCalledWith(35.6762, 139.6503, true, 'open-meteo');
   });
 
   it('should clear errors', async () => {
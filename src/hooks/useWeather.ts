@@ -2,8 +2,9 @@ import { useState, useEffect, useCallback } from 'react';
 import { weatherService } from '../services/weather.service';
 import { geolocationService } from '../services/geolocation.service';
 import { databaseService } from '../services/database.service';
-import type { WeatherData, WeatherForecast, Location } from '../types';
+import type { WeatherData, WeatherForecast, Location, WeatherProviderType } from '../types';
 import type { GeolocationPosition } from '../services/geolocation.service';
+import { t } from '../utils/i18n';
 
 interface UseWeatherState {
   currentWeather: WeatherData | null;
@@ -54,13 +55,18 @@ export const useWeather = (): UseWeatherReturn => {
     return null;
   }, [updateState]);
 
-  const fetchWeatherData = useCallback(async (lat: number, lon: number, forceRefresh = false) => {
+  const fetchWeatherData = useCallback(async (
+    lat: number,
+    lon: number,
+    forceRefresh = false,
+    provider?: WeatherProviderType
+  ) => {
     updateState({ isLoading: true, error: null });
 
     try {
       const [currentWeather, forecast] = await Promise.all([
-        weatherService.getCurrentWeather(lat, lon, forceRefresh),
-        weatherService.getWeatherForecast(lat, lon, forceRefresh)
+        weatherService.getCurrentWeather(lat, lon, forceRefresh, provider),
+        weatherService.getWeatherForecast(lat, lon, forceRefresh, provider)
       ]);
 
       updateState({
@@ -70,7 +76,7 @@ export const useWeather = (): UseWeatherReturn => {
       });
     } catch (error) {
       updateState({
-        error: error instanceof Error ? error.message : '天気情報の取得に失敗しました',
+        error: error instanceof Error ? error.message : t('weather.fetchFailed'),
         isLoading: false
       });
     }
@@ -104,11 +110,11 @@ export const useWeather = (): UseWeatherReturn => {
 
       // 現在の場所の天気を取得
       if (savedLocation) {
-        await fetchWeatherData(savedLocation.lat, savedLocation.lon, true);
+        await fetchWeatherData(savedLocation.lat, savedLocation.lon, true, savedLocation.weatherProvider);
       }
     } catch (error) {
       updateState({
-        locationError: error instanceof Error ? error.message : '位置情報の取得に失敗しました',
+        locationError: error instanceof Error ? error.message : t('weather.locationFailed'),
         isLocationLoading: false
       });
     }
@@ -123,12 +129,12 @@ export const useWeather = (): UseWeatherReturn => {
     }
 
     // 新しい場所の天気を取得
-    await fetchWeatherData(location.lat, location.lon, true);
+    await fetchWeatherData(location.lat, location.lon, true, location.weatherProvider);
   }, [updateState, fetchWeatherData]);
 
   const refreshWeather = useCallback(async () => {
     if (state.location) {
-      await fetchWeatherData(state.location.lat, state.location.lon, true);
+      await fetchWeatherData(state.location.lat, state.location.lon, true, state.location.weatherProvider);
     }
   }, [state.location, fetchWeatherData]);
 
@@ -137,7 +143,7 @@ export const useWeather = (): UseWeatherReturn => {
     const initialize = async () => {
       const defaultLocation = await loadDefaultLocation();
       if (defaultLocation) {
-        await fetchWeatherData(defaultLocation.lat, defaultLocation.lon);
+        await fetchWeatherData(defaultLocation.lat, defaultLocation.lon, false, defaultLocation.weatherProvider);
       }
     };
 
@@ -0,0 +1,70 @@
+import { useState, useMemo, useCallback } from 'react';
+import {
+  plannerService,
+  EMPTY_PLAN_EDITS,
+  type WeeklyPlan,
+  type WeeklyPlanEdits
+} from '../services/planner.service';
+import type { HobbyRecommendation } from '../services/recommendation.service';
+
+interface UseWeeklyPlanReturn {
+  plan: WeeklyPlan;
+  hasEdits: boolean;
+  moveAssignment: (hobbyId: number, from: string, to: string) => void;
+  removeAssignment: (hobbyId: number, date: string) => void;
+  addAssignment: (hobbyId: number, date: string) => void;
+  setDayCapacity: (date: string, capacity: number) => void;
+  resetEdits: () => void;
+}
+
+// おすすめから週間プランを作り、手動の変更を保存する
+export const useWeeklyPlan = (recommendations: HobbyRecommendation[]): UseWeeklyPlanReturn => {
+  const [edits, setEdits] = useState<WeeklyPlanEdits>(() => plannerService.loadPlanEdits());
+
+  const plan = useMemo(
+    () => plannerService.createWeeklyPlan(recommendations, { edits }),
+    [recommendations, edits]
+  );
+
+  const updateEdits = useCallback((update: (prev: WeeklyPlanEdits) => WeeklyPlanEdits) => {
+    setEdits(prev => {
+      const next = update(prev);
+      plannerService.savePlanEdits(next);
+      return next;
+    });
+  }, []);
+
+  const moveAssignment = useCallback((hobbyId: number, from: string, to: string) => {
+    updateEdits(prev => plannerService.moveAssignment(prev, hobbyId, from, to));
+  }, [updateEdits]);
+
+  const removeAssignment = useCallback((hobbyId: number, date: string) => {
+    updateEdits(prev => plannerService.removeAssignment(prev, hobbyId, date));
+  }, [updateEdits]);
+
+  const addAssignment = useCallback((hobbyId: number, date: string) => {
+    updateEdits(prev => plannerService.addAssignment(prev, hobbyId, date));
+  }, [updateEdits]);
+
+  const setDayCapacity = useCallback((date: string, capacity: number) => {
+    updateEdits(prev => plannerService.setDayCapacity(prev, date, capacity));
+  }, [updateEdits]);
+
+  const resetEdits = useCallback(() => {
+    updateEdits(() => EMPTY_PLAN_EDITS);
+  }, [updateEdits]);
+
+  const hasEdits = Object.keys(edits.capacities).length > 0 ||
+    edits.pinned.length > 0 ||
+    edits.excluded.length > 0;
+
+  return {
+    plan,
+    hasEdits,
+    moveAssignment,
+    removeAssignment,
+    addAssignment,
+    setDayCapacity,
+    resetEdits
+  };
+};
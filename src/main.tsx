@@ -3,13 +3,16 @@ import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
 import { ThemeProvider } from './contexts/ThemeContext'
+import { UnitsProvider } from './contexts/UnitsContext'
+import { LanguageProvider } from './contexts/LanguageContext'
+import { t } from './utils/i18n'
 
 // PWA Service Workerの登録
 import { registerSW } from 'virtual:pwa-register'
 
 const updateSW = registerSW({
   onNeedRefresh() {
-    if (confirm('新しいバージョンが利用可能です。アプリを再読み込みしますか？')) {
+    if (confirm(t('app.updateAvailable'))) {
       updateSW(true)
     }
   },
@@ -21,7 +24,11 @@ const updateSW = registerSW({
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <ThemeProvider>
-      <App />
+      <LanguageProvider>
+        <UnitsProvider>
+          <App />
+        </UnitsProvider>
+      </LanguageProvider>
     </ThemeProvider>
   </StrictMode>,
 )
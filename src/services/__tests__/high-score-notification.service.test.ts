@@ -4,7 +4,7 @@ import { DatabaseService } from '../database.service';
 import { RecommendationService } from '../recommendation.service';
 import { WeatherService } from '../weather.service';
 import { NotificationConfigService } from '../notification-config.service';
-import type { Hobby, WeatherForecast, DailyForecast } from '../../types';
+import type { Hobby, WeatherForecast, DailyForecast, Location } from '../../types';
 // import type { HobbyRecommendation } from '../recommendation.service'; // Unused import
 import type { ScoredRecommendation } from '../high-score-notification.service';
 
@@ -33,6 +33,15 @@ const createMockHobby = (id: number, name: string, isActive = true): Hobby => ({
   isOutdoor: true
 });
 
+const createMockLocation = (id: number, name: string, isDefault = true): Location => ({
+  id,
+  name,
+  lat: 35.6762,
+  lon: 139.6503,
+  isDefault,
+  createdAt: new Date()
+});
+
 const createMockWeatherForecast = (): WeatherForecast => ({
   lat: 35.6762,
   lon: 139.6503,
@@ -97,7 +106,8 @@ describe('HighScoreNotificationService', () => {
     
     // DatabaseService のモック
     mockDatabaseService = {
-      getActiveHobbies: vi.fn()
+      getActiveHobbies: vi.fn(),
+      getAlertLocations: vi.fn().mockResolvedValue([createMockLocation(1, '東京')])
     };
     vi.mocked(DatabaseService).mockImplementation(() => mockDatabaseService);
 
@@ -128,6 +138,38 @@ describe('HighScoreNotificationService', () => {
   });
 
   describe('evaluateAndCreateNotification', () => {
+    it('通知対象の場所がない場合は通知しない', async () => {
+      mockDatabaseService.getAlertLocations.mockResolvedValue([]);
+
+      const result = await service.evaluateAndCreateNotification();
+
+      expect(result.notificationSent).toBe(false);
+      expect(result.reason).toBe('通知対象の場所が登録されていません');
+      expect(mockWeatherService.getWeatherForecast).not.toHaveBeenCalled();
+    });
+
+    it('通知対象の場所ごとに評価し、趣味ごとに最もスコアが高い場所を選ぶ', async () => {
+      const hobby = createMockHobby(1, 'テニス');
+      const osaka = { ...createMockLocation(2, '大阪', false), lat: 34.6937, lon: 135.5023 };
+
+      mockDatabaseService.getAlertLocations.mockResolvedValue([createMockLocation(1, '東京'), osaka]);
+      mockWeatherService.getWeatherForecast.mockResolvedValue(createMockWeatherForecast());
+      mockDatabaseService.getActiveHobbies.mockResolvedValue([hobby]);
+      mockRecommendationService.generateRecommendations
+        .mockResolvedValueOnce([createMockRecommendation(hobby, 82)])
+        .mockResolvedValueOnce([createMockRecommendation(hobby, 90)]);
+
+      const result = await service.evaluateAndCreateNotification();
+
+      expect(mockWeatherService.getWeatherForecast).toHaveBeenCalledWith(34.6937, 135.5023, false, undefined);
+      expect(result.recommendations).toHaveLength(1);
+      expect(result.recommendations[0]?.location?.name).toBe('大阪');
+
+      const payload = service.createHighScoreNotificationPayload(result.recommendations, createMockWeatherForecast());
+      expect(payload.message).toMatch(/^【大阪】/);
+      expect(payload.data?.locationName).toBe('大阪');
+    });
+
     it('天気予報が取得できない場合は通知しない', async () => {
       mockWeatherService.getWeatherForecast.mockResolvedValue(null);
 
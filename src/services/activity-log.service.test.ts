@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ActivityLogService, applyActivityFeedback, getProfileDrift } from './activity-log.service';
+import { HobbyWeatherDatabase } from '../data/database';
+import type { DailyForecast, Hobby } from '../types';
+
+const createForecast = (overrides: Partial<DailyForecast> = {}): DailyForecast => ({
+  date: new Date(2024, 5, 1),
+  temperature: { min: 15, max: 25, morning: 17, day: 22, evening: 20, night: 16 },
+  feelsLike: { morning: 17, day: 22, evening: 20, night: 16 },
+  humidity: 60,
+  pressure: 1013,
+  windSpeed: 3,
+  windDirection: 180,
+  weatherType: 'clear',
+  weatherDescription: '晴れ',
+  cloudiness: 10,
+  uvIndex: 5,
+  pop: 0.1,
+  ...overrides
+});
+
+const fishing: Hobby = {
+  id: 1,
+  name: '釣り',
+  isActive: true,
+  isOutdoor: true,
+  preferredWeather: [
+    { condition: 'clear', weight: 8 },
+    { condition: 'clouds', weight: 6 }
+  ],
+  minTemperature: 15,
+  maxTemperature: 25,
+  createdAt: new Date('2024-01-01')
+};
+
+describe('applyActivityFeedback', () => {
+  it('should raise the weight of the weather on a good outing', () => {
+    const result = applyActivityFeedback(fishing, { forecast: createForecast(), rating: 5 });
+
+    expect(result.preferredWeather).toContainEqual({ condition: 'clear', weight: 10 });
+    expect(result.preferredWeather).toContainEqual({ condition: 'clouds', weight: 6 });
+  });
+
+  it('should lower the weight of the weather on a bad outing', () => {
+    const result = applyActivityFeedback(fishing, { forecast: createForecast({ weatherType: 'clouds' }), rating: 1 });
+
+    expect(result.preferredWeather).toContainEqual({ condition: 'clouds', weight: 4 });
+  });
+
+  it('should add unlisted weather after a good outing', () => {
+    const result = applyActivityFeedback(fishing, { forecast: createForecast({ weatherType: 'drizzle' }), rating: 4 });
+
+    expect(result.preferredWeather).toContainEqual({ condition: 'drizzle', weight: 6 });
+  });
+
+  it('should keep the intensity limit of the rated weather', () => {
+    const running: Hobby = {
+      ...fishing,
+      preferredWeather: [
+        { condition: 'rain', weight: 6, intensity: 'light' },
+        { condition: 'rain', weight: 3 }
+      ]
+    };
+
+    const light = applyActivityFeedback(running, { forecast: createForecast({ weatherType: 'rain', weatherIntensity: 'light' }), rating: 5 });
+    const heavy = applyActivityFeedback(running, { forecast: createForecast({ weatherType: 'rain', weatherIntensity: 'heavy' }), rating: 1 });
+
+    expect(light.preferredWeather).toEqual([
+      { condition: 'rain', weight: 8, intensity: 'light' },
+      { condition: 'rain', weight: 3 }
+    ]);
+    expect(heavy.preferredWeather).toEqual([
+      { condition: 'rain', weight: 6, intensity: 'light' },
+      { condition: 'rain', weight: 1 }
+    ]);
+  });
+
+  it('should add unlisted weather up to the logged intensity', () => {
+    const result = applyActivityFeedback(fishing, { forecast: createForecast({ weatherType: 'rain', weatherIntensity: 'light' }), rating: 4 });
+
+    expect(result.preferredWeather).toContainEqual({ condition: 'rain', weight: 6, intensity: 'light' });
+  });
+
+  it('should widen the temperature range when a colder day went well', () => {
+    const result = applyActivityFeedback(fishing, {
+      forecast: createForecast({ temperature: { min: 5, max: 12, morning: 7, day: 10, evening: 9, night: 6 } }),
+      rating: 5
+    });
+
+    expect(result.minTemperature).toBeLessThan(15);
+    expect(result.minTemperature).toBeGreaterThanOrEqual(10);
+    expect(result.maxTemperature).toBe(25);
+  });
+
+  it('should narrow the temperature range when a day inside it went badly', () => {
+    const result = applyActivityFeedback(fishing, {
+      forecast: createForecast({ temperature: { min: 20, max: 26, morning: 21, day: 24, evening: 23, night: 20 } }),
+      rating: 1
+    });
+
+    expect(result.minTemperature).toBe(15);
+    expect(result.maxTemperature).toBeLessThan(25);
+  });
+
+  it('should leave the profile untouched for a neutral rating', () => {
+    const result = applyActivityFeedback(fishing, { forecast: createForecast(), rating: 3 });
+
+    expect(result.preferredWeather).toEqual(fishing.preferredWeather);
+    expect(result.minTemperature).toBe(15);
+    expect(result.maxTemperature).toBe(25);
+  });
+});
+
+describe('ActivityLogService', () => {
+  let service: ActivityLogService;
+  let testDb: HobbyWeatherDatabase;
+
+  beforeEach(async () => {
+    const testDbName = `HobbyWeatherDB_ActivityTest_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+
+    class TestDatabase extends HobbyWeatherDatabase {
+      constructor(name: string) {
+        super();
+        // @ts-expect-error - temporary workaround for readonly property
+        this.name = name;
+      }
+    }
+
+    testDb = new TestDatabase(testDbName);
+    await testDb.open();
+    service = new ActivityLogService(testDb);
+  });
+
+  afterEach(async () => {
+    try {
+      await testDb.close();
+      await testDb.delete();
+    } catch (error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('should store the log and update the hobby', async () => {
+    const { id: _id, ...hobbyData } = fishing;
+    const id = await testDb.hobbies.add(hobbyData as Hobby);
+    const hobby = (await testDb.hobbies.get(id))!;
+
+    const updated = await service.logActivity(hobby, {
+      date: new Date(2024, 5, 1),
+      forecast: createForecast(),
+      predictedScore: 82,
+      rating: 5,
+      locationName: '東京'
+    });
+
+    const logs = await service.getLogsForHobby(id);
+    expect(logs).toHaveLength(1);
+    expect(logs[0]?.hobbyId).toBe(id);
+    expect(logs[0]?.rating).toBe(5);
+    expect(logs[0]?.createdAt).toBeInstanceOf(Date);
+
+    const stored = await testDb.hobbies.get(id);
+    expect(stored?.preferredWeather).toEqual(updated.preferredWeather);
+    expect(stored?.learningBaseline?.preferredWeather).toEqual(fishing.preferredWeather);
+  });
+
+  it('should keep the first baseline and report the drift', async () => {
+    const { id: _id, ...hobbyData } = fishing;
+    const id = await testDb.hobbies.add(hobbyData as Hobby);
+    let hobby = (await testDb.hobbies.get(id))!;
+
+    hobby = await service.logActivity(hobby, {
+      date: new Date(2024, 5, 1),
+      forecast: createForecast(),
+      predictedScore: 82,
+      rating: 4
+    });
+    hobby = await service.logActivity(hobby, {
+      date: new Date(2024, 5, 8),
+      forecast: createForecast({ weatherType: 'clouds' }),
+      predictedScore: 70,
+      rating: 1
+    });
+
+    const drift = getProfileDrift(hobby);
+    expect(hobby.learningBaseline?.preferredWeather).toEqual(fishing.preferredWeather);
+    expect(drift?.weather).toEqual([
+      { condition: 'clear', from: 8, to: 9 },
+      { condition: 'clouds', from: 6, to: 4 }
+    ]);
+  });
+
+  it('should reject hobbies that have not been saved', async () => {
+    const { id: _id, ...unsaved } = fishing;
+
+    await expect(service.logActivity(unsaved, {
+      date: new Date(),
+      forecast: createForecast(),
+      predictedScore: 50,
+      rating: 3
+    })).rejects.toThrow('保存されていない趣味は記録できません');
+  });
+});
@@ -0,0 +1,221 @@
+import { db, HobbyWeatherDatabase } from '../data/database';
+import type {
+    ActivityLog,
+    DailyForecast,
+    Hobby,
+    HobbyLearningBaseline,
+    WeatherCondition,
+    WeatherType,
+} from '../types';
+import { t } from '../utils/i18n';
+import { findPreferredWeather } from '../utils/weather-classification';
+
+// 評価1段階あたりの気温範囲の調整率（予報気温との差に対する割合）
+const TEMPERATURE_LEARNING_RATE = 0.25;
+
+// 評価の基準（これより高ければ良い体験、低ければ悪い体験）
+const NEUTRAL_RATING = 3;
+
+// 天気ごとの重みの変化
+export interface WeatherWeightDrift {
+    condition: WeatherType;
+    from?: number; // 学習前の重み（未設定の場合はundefined）
+    to?: number; // 現在の重み（削除された場合はundefined）
+}
+
+// 学習によるプロファイルの変化
+export interface ProfileDrift {
+    weather: WeatherWeightDrift[];
+    minTemperature?: { from?: number; to?: number };
+    maxTemperature?: { from?: number; to?: number };
+    since: Date;
+}
+
+// 記録に必要な情報（趣味IDと作成日時はサービス側で設定）
+export type ActivityLogInput = Omit<ActivityLog, 'id' | 'hobbyId' | 'createdAt'>;
+
+/**
+ * 1件の活動記録から趣味の設定を調整した結果を返す
+ * 良い評価の天気は重みを上げ、予報気温が適温範囲の外なら範囲を広げる。
+ * 悪い評価の場合はその逆に、重みを下げて適温範囲を予報気温から遠ざける。
+ */
+export const applyActivityFeedback = (
+    hobby: Hobby,
+    log: Pick<ActivityLog, 'forecast' | 'rating'>
+): Pick<Hobby, 'preferredWeather' | 'minTemperature' | 'maxTemperature'> => {
+    const delta = log.rating - NEUTRAL_RATING;
+    const result: Pick<Hobby, 'preferredWeather' | 'minTemperature' | 'maxTemperature'> = {
+        preferredWeather: adjustWeatherWeights(hobby.preferredWeather ?? [], log.forecast, delta),
+    };
+
+    const { minTemperature, maxTemperature } = adjustTemperatureRange(
+        hobby.minTemperature,
+        hobby.maxTemperature,
+        log.forecast.temperature.day,
+        delta
+    );
+    if (minTemperature !== undefined) result.minTemperature = minTemperature;
+    if (maxTemperature !== undefined) result.maxTemperature = maxTemperature;
+
+    return result;
+};
+
+/**
+ * 学習前の設定と現在の設定を比較する
+ */
+export const getProfileDrift = (hobby: Hobby): ProfileDrift | null => {
+    const baseline = hobby.learningBaseline;
+    if (!baseline) return null;
+
+    const current = hobby.preferredWeather ?? [];
+    const conditions = new Set<WeatherType>([
+        ...baseline.preferredWeather.map(weather => weather.condition),
+        ...current.map(weather => weather.condition),
+    ]);
+
+    const weather: WeatherWeightDrift[] = [];
+    conditions.forEach(condition => {
+        const from = baseline.preferredWeather.find(weather => weather.condition === condition)?.weight;
+        const to = current.find(weather => weather.condition === condition)?.weight;
+        if (from === to) return;
+
+        const drift: WeatherWeightDrift = { condition };
+        if (from !== undefined) drift.from = from;
+        if (to !== undefined) drift.to = to;
+        weather.push(drift);
+    });
+
+    const drift: ProfileDrift = { weather, since: baseline.capturedAt };
+    if (baseline.minTemperature !== hobby.minTemperature) {
+        drift.minTemperature = toRangeDrift(baseline.minTemperature, hobby.minTemperature);
+    }
+    if (baseline.maxTemperature !== hobby.maxTemperature) {
+        drift.maxTemperature = toRangeDrift(baseline.maxTemperature, hobby.maxTemperature);
+    }
+
+    return drift;
+};
+
+const toRangeDrift = (from: number | undefined, to: number | undefined): { from?: number; to?: number } => {
+    const drift: { from?: number; to?: number } = {};
+    if (from !== undefined) drift.from = from;
+    if (to !== undefined) drift.to = to;
+    return drift;
+};
+
+// 重みは1-10の範囲に収める
+const clampWeight = (weight: number): number => Math.max(1, Math.min(10, weight));
+
+// 調整するのはおすすめの採点でその日の天気に当てはまった好みの天気（強さの上限も含めて照合する）
+const adjustWeatherWeights = (
+    preferredWeather: WeatherCondition[],
+    forecast: Pick<DailyForecast, 'weatherType' | 'weatherIntensity'>,
+    delta: number
+): WeatherCondition[] => {
+    if (delta === 0) return preferredWeather;
+
+    const { weatherType, weatherIntensity } = forecast;
+    const existing = findPreferredWeather(preferredWeather, weatherType, weatherIntensity);
+    if (existing) {
+        return preferredWeather.map(weather =>
+            weather === existing ? { ...weather, weight: clampWeight(weather.weight + delta) } : weather
+        );
+    }
+
+    // 好適天気に含まれない天気で良い体験をした場合は、その日の強さまでを好む条件として追加する
+    if (delta > 0) {
+        return [
+            ...preferredWeather,
+            {
+                condition: weatherType,
+                weight: clampWeight(5 + delta),
+                ...(weatherIntensity && { intensity: weatherIntensity }),
+            },
+        ];
+    }
+
+    return preferredWeather;
+};
+
+const adjustTemperatureRange = (
+    minTemperature: number | undefined,
+    maxTemperature: number | undefined,
+    temperature: number,
+    delta: number
+): { minTemperature: number | undefined; maxTemperature: number | undefined } => {
+    let min = minTemperature;
+    let max = maxTemperature;
+    const strength = Math.abs(delta) * TEMPERATURE_LEARNING_RATE;
+
+    // 少なくとも1°C、最大で予報気温までずらす
+    const step = (gap: number) => Math.min(gap, Math.max(1, gap * strength));
+
+    if (delta > 0) {
+        if (min !== undefined && temperature < min) {
+            min = Math.round(min - step(min - temperature));
+        }
+        if (max !== undefined && temperature > max) {
+            max = Math.round(max + step(temperature - max));
+        }
+    } else if (delta < 0) {
+        const isInRange = (min === undefined || temperature >= min) && (max === undefined || temperature <= max);
+        if (isInRange && min !== undefined && max !== undefined) {
+            // 予報気温に近い方の境界を予報気温の外側へ寄せる
+            // （差に1°Cを加えて、境界が予報気温をまたげるようにする）
+            if (temperature - min <= max - temperature) {
+                const next = Math.round(min + step(temperature - min + 1));
+                if (next < max) min = next;
+            } else {
+                const next = Math.round(max - step(max - temperature + 1));
+                if (next > min) max = next;
+            }
+        }
+    }
+
+    return { minTemperature: min, maxTemperature: max };
+};
+
+const createLearningBaseline = (hobby: Hobby): HobbyLearningBaseline => {
+    const baseline: HobbyLearningBaseline = {
+        preferredWeather: hobby.preferredWeather ?? [],
+        capturedAt: new Date(),
+    };
+    if (hobby.minTemperature !== undefined) baseline.minTemperature = hobby.minTemperature;
+    if (hobby.maxTemperature !== undefined) baseline.maxTemperature = hobby.maxTemperature;
+    return baseline;
+};
+
+export class ActivityLogService {
+    private db: HobbyWeatherDatabase;
+
+    constructor(database?: HobbyWeatherDatabase) {
+        this.db = database || db;
+    }
+
+    /**
+     * 活動を記録し、評価をもとに趣味の設定を調整する
+     * @returns 調整後の趣味
+     */
+    async logActivity(hobby: Hobby, input: ActivityLogInput): Promise<Hobby> {
+        if (hobby.id === undefined) {
+            throw new Error(t('activityLog.unsavedHobby'));
+        }
+
+        await this.db.activityLogs.add({ ...input, hobbyId: hobby.id } as ActivityLog);
+
+        const changes: Partial<Hobby> = applyActivityFeedback(hobby, input);
+        if (!hobby.learningBaseline) {
+            changes.learningBaseline = createLearningBaseline(hobby);
+        }
+
+        await this.db.hobbies.update(hobby.id, changes);
+        return { ...hobby, ...changes };
+    }
+
+    async getLogsForHobby(hobbyId: number): Promise<ActivityLog[]> {
+        const logs = await this.db.activityLogs.where('hobbyId').equals(hobbyId).toArray();
+        return logs.sort((a, b) => b.date.getTime() - a.date.getTime());
+    }
+}
+
+export const activityLogService = new ActivityLogService();
@@ -1,5 +1,7 @@
 // OpenWeatherMap API Key設定確認用テスト
 
+import { t } from '../utils/i18n';
+
 /**
  * 環境変数の確認
  */
@@ -154,32 +156,32 @@ export async function runDiagnostics() {
   
   // 推奨事項の生成
   if (!envCheck.hasApiKey) {
-    results.recommendations.push('❌ 環境変数 VITE_OPENWEATHER_API_KEY が設定されていません');
-    results.recommendations.push('💡 .env.local ファイルにAPIキーを設定してください');
+    results.recommendations.push(t('diagnostics.recommendation.envMissing'));
+    results.recommendations.push(t('diagnostics.recommendation.envHint'));
   } else if (envCheck.apiKeyLength < 32) {
-    results.recommendations.push('⚠️ APIキーの長さが短すぎる可能性があります');
+    results.recommendations.push(t('diagnostics.recommendation.envShort'));
   } else {
-    results.recommendations.push('✅ 環境変数は正しく設定されています');
+    results.recommendations.push(t('diagnostics.recommendation.envOk'));
   }
   
   if (!serviceCheck.hasApiKey) {
-    results.recommendations.push('❌ WeatherServiceでAPIキーが読み込まれていません');
-    results.recommendations.push('💡 開発サーバーを再起動してください');
+    results.recommendations.push(t('diagnostics.recommendation.serviceMissing'));
+    results.recommendations.push(t('diagnostics.recommendation.serviceHint'));
   } else {
-    results.recommendations.push('✅ WeatherServiceでAPIキーが確認できました');
+    results.recommendations.push(t('diagnostics.recommendation.serviceOk'));
   }
   
   if (!connectionCheck.success) {
-    results.recommendations.push('❌ API接続に失敗しました');
+    results.recommendations.push(t('diagnostics.recommendation.connectionFailed'));
     if (connectionCheck.status === 401) {
-      results.recommendations.push('💡 APIキーが無効です。OpenWeatherMapで確認してください');
+      results.recommendations.push(t('diagnostics.recommendation.invalidKey'));
     } else if (connectionCheck.status === 429) {
-      results.recommendations.push('💡 API使用制限に達しています。しばらく待ってから再試行してください');
+      results.recommendations.push(t('diagnostics.recommendation.rateLimited'));
     } else {
-      results.recommendations.push('💡 ネットワーク接続またはAPIキーを確認してください');
+      results.recommendations.push(t('diagnostics.recommendation.networkHint'));
     }
   } else {
-    results.recommendations.push('✅ API接続が正常に動作しています');
+    results.recommendations.push(t('diagnostics.recommendation.connectionOk'));
   }
   
   console.log('推奨事項:');
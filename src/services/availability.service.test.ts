@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { AvailabilityService } from './availability.service';
+import { DatabaseService } from './database.service';
+import { HobbyWeatherDatabase } from '../data/database';
+
+const calendar = [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'BEGIN:VEVENT',
+  'DTSTART:20240503T090000',
+  'DTEND:20240503T120000',
+  'SUMMARY:会議',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'DTSTART:20240501T090000',
+  'DTEND:20240501T120000',
+  'SUMMARY:終わった予定',
+  'END:VEVENT',
+  'END:VCALENDAR',
+].join('\r\n');
+
+describe('AvailabilityService', () => {
+  const now = new Date(2024, 4, 2, 12);
+  let service: AvailabilityService;
+  let database: DatabaseService;
+  let testDb: HobbyWeatherDatabase;
+
+  beforeEach(async () => {
+    const testDbName = `HobbyWeatherDB_AvailabilityTest_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+
+    class TestDatabase extends HobbyWeatherDatabase {
+      constructor(name: string) {
+        super();
+        // @ts-expect-error - temporary workaround for readonly property
+        this.name = name;
+      }
+    }
+
+    testDb = new TestDatabase(testDbName);
+    await testDb.open();
+
+    database = new DatabaseService(testDb);
+    service = new AvailabilityService(database);
+  });
+
+  afterEach(async () => {
+    try {
+      await testDb.close();
+      await testDb.delete();
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('should import upcoming calendar events once', async () => {
+    expect(await service.importCalendar(calendar, now)).toEqual({ added: 1, duplicates: 0, invalidLines: [] });
+    expect(await service.importCalendar(calendar, now)).toEqual({ added: 0, duplicates: 1, invalidLines: [] });
+
+    const intervals = await service.getBusyIntervals();
+    expect(intervals).toHaveLength(1);
+    expect(intervals[0]).toMatchObject({
+      start: new Date(2024, 4, 3, 9),
+      end: new Date(2024, 4, 3, 12),
+      summary: '会議',
+      source: 'ics',
+    });
+    expect(intervals[0]?.createdAt).toBeInstanceOf(Date);
+  });
+
+  it('should import pasted lists and pasted calendars', async () => {
+    const result = await service.importBusyList('2024-05-04 10:00-11:00 歯医者\nnext week', now);
+    expect(result).toEqual({ added: 1, duplicates: 0, invalidLines: [2] });
+
+    await service.importBusyList(calendar, now);
+
+    const intervals = await service.getBusyIntervals();
+    expect(intervals.map((interval) => interval.source)).toEqual(['ics', 'manual']);
+  });
+
+  it('should reject empty lists', async () => {
+    await expect(service.importBusyList('# no events', now)).rejects.toThrow('取り込む予定がありません');
+  });
+
+  it('should remove expired intervals', async () => {
+    await service.importBusyList('2024-05-03 09:00-10:00\n2024-05-05', now);
+
+    await service.removeExpiredIntervals(new Date(2024, 4, 4));
+
+    const intervals = await service.getBusyIntervals();
+    expect(intervals).toHaveLength(1);
+    expect(intervals[0]?.allDay).toBe(true);
+  });
+});
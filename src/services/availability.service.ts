@@ -0,0 +1,94 @@
+import { DatabaseService, databaseService } from './database.service';
+import { parseICalendarBusyTimes, type BusyTime } from '../utils/ical';
+import { getAvailabilityRange, isSameBusyTime, parseBusyList } from '../utils/availability';
+import { t } from '../utils/i18n';
+import type { BusyInterval, BusyIntervalSource } from '../types';
+
+// 予定の取り込み結果
+export interface BusyImportResult {
+    added: number; // 追加した予定
+    duplicates: number; // 取り込み済みのためとばした予定
+    invalidLines: number[]; // 読み込めなかった行（貼り付けた一覧のみ）
+}
+
+export class AvailabilityService {
+    private database: DatabaseService;
+
+    constructor(database?: DatabaseService) {
+        this.database = database ?? databaseService;
+    }
+
+    async getBusyIntervals(): Promise<BusyInterval[]> {
+        return await this.database.getBusyIntervals();
+    }
+
+    // 終了した予定を削除する
+    async removeExpiredIntervals(now: Date = new Date()): Promise<void> {
+        const expiredIds = (await this.database.getBusyIntervals())
+            .filter((interval) => interval.end <= now && interval.id !== undefined)
+            .map((interval) => interval.id as number);
+        if (expiredIds.length > 0) {
+            await this.database.deleteBusyIntervals(expiredIds);
+        }
+    }
+
+    // 取り込み済みの予定と重複しないものだけを保存する
+    private async saveBusyTimes(
+        busyTimes: BusyTime[],
+        source: BusyIntervalSource,
+        now: Date
+    ): Promise<Omit<BusyImportResult, 'invalidLines'>> {
+        await this.removeExpiredIntervals(now);
+        const saved: Array<Pick<BusyInterval, 'start' | 'end' | 'summary'>> = await this.database.getBusyIntervals();
+        const added: Array<Omit<BusyInterval, 'id' | 'createdAt'>> = [];
+
+        for (const busyTime of busyTimes) {
+            if (busyTime.end <= now) continue;
+            if ([...saved, ...added].some((interval) => isSameBusyTime(interval, busyTime))) continue;
+            added.push({ ...busyTime, source });
+        }
+
+        if (added.length > 0) {
+            await this.database.addBusyIntervals(added);
+        }
+        return {
+            added: added.length,
+            duplicates: busyTimes.filter((busyTime) => busyTime.end > now).length - added.length,
+        };
+    }
+
+    /**
+     * iCalendarファイルの予定を取り込む
+     * 今日から一定期間の予定のみ保存し、繰り返しの予定はその期間だけ展開する
+     */
+    async importCalendar(content: string, now: Date = new Date()): Promise<BusyImportResult> {
+        const busyTimes = parseICalendarBusyTimes(content, getAvailabilityRange(now));
+        return { ...(await this.saveBusyTimes(busyTimes, 'ics', now)), invalidLines: [] };
+    }
+
+    /**
+     * 貼り付けた予定の一覧を取り込む
+     * iCalendar形式のテキストが貼り付けられた場合はカレンダーとして読み込む
+     */
+    async importBusyList(text: string, now: Date = new Date()): Promise<BusyImportResult> {
+        if (/^BEGIN:VCALENDAR/im.test(text)) {
+            return await this.importCalendar(text, now);
+        }
+
+        const { busyTimes, invalidLines } = parseBusyList(text);
+        if (busyTimes.length === 0 && invalidLines.length === 0) {
+            throw new Error(t('availability.error.empty'));
+        }
+        return { ...(await this.saveBusyTimes(busyTimes, 'manual', now)), invalidLines };
+    }
+
+    async deleteBusyInterval(id: number): Promise<void> {
+        await this.database.deleteBusyIntervals([id]);
+    }
+
+    async clearBusyIntervals(): Promise<void> {
+        await this.database.clearBusyIntervals();
+    }
+}
+
+export const availabilityService = new AvailabilityService();
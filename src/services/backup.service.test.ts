@@ -0,0 +1,227 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { BackupService } from './backup.service';
+import { DatabaseService } from './database.service';
+import { weatherService } from './weather.service';
+import { HobbyWeatherDatabase } from '../data/database';
+import { THEME_STORAGE_KEY } from '../utils/theme';
+import type { BackupTableChange } from '../types/backup';
+import type { ActivityLog } from '../types';
+
+const findChange = (changes: BackupTableChange[], table: BackupTableChange['table']) =>
+  changes.find((change) => change.table === table);
+
+describe('BackupService', () => {
+  let service: BackupService;
+  let database: DatabaseService;
+  let testDb: HobbyWeatherDatabase;
+
+  beforeEach(async () => {
+    const testDbName = `HobbyWeatherDB_BackupTest_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+
+    class TestDatabase extends HobbyWeatherDatabase {
+      constructor(name: string) {
+        super();
+        // @ts-expect-error - temporary workaround for readonly property
+        this.name = name;
+      }
+    }
+
+    testDb = new TestDatabase(testDbName);
+    await testDb.open();
+    await testDb.initializeDefaultData();
+
+    database = new DatabaseService(testDb);
+    service = new BackupService(database);
+
+    // localStorage のモックに保存先を持たせる
+    const store: Record<string, string> = {};
+    vi.mocked(localStorage.getItem).mockImplementation((key) => store[key] ?? null);
+    vi.mocked(localStorage.setItem).mockImplementation((key, value) => {
+      store[key] = value;
+    });
+    vi.mocked(localStorage.removeItem).mockImplementation((key) => {
+      delete store[key];
+    });
+  });
+
+  afterEach(async () => {
+    try {
+      await testDb.close();
+      await testDb.delete();
+    } catch {
+      // Ignore cleanup errors
+    }
+    vi.mocked(localStorage.getItem).mockReset();
+    vi.mocked(localStorage.setItem).mockReset();
+    vi.mocked(localStorage.removeItem).mockReset();
+  });
+
+  const createSampleData = async () => {
+    const hobbyId = await database.createHobby({
+      name: 'ランニング',
+      preferredWeather: [{ condition: 'clear', weight: 9 }],
+      isActive: true,
+    });
+    await testDb.notificationHistory.add({
+      configId: 1,
+      type: 'high-score',
+      title: '通知',
+      message: 'ランニング日和です',
+      sentAt: new Date('2024-05-01T07:00:00Z'),
+    });
+    return hobbyId;
+  };
+
+  it('should restore every table with the replace mode', async () => {
+    const hobbyId = await createSampleData();
+    const createdAt = (await database.getHobby(hobbyId))?.createdAt;
+    const json = await service.exportBackup({ includeApiKey: false });
+
+    await database.clearAllData();
+    expect(await testDb.notificationHistory.count()).toBe(0);
+    expect(await testDb.notificationSettings.count()).toBe(0);
+
+    await service.restoreBackup(service.readBackup(json), 'replace');
+
+    const hobby = await database.getHobby(hobbyId);
+    expect(hobby?.name).toBe('ランニング');
+    expect(hobby?.createdAt).toEqual(createdAt);
+
+    const history = await testDb.notificationHistory.toArray();
+    expect(history).toHaveLength(1);
+    expect(history[0]?.sentAt).toBeInstanceOf(Date);
+    expect(history[0]?.sentAt.toISOString()).toBe('2024-05-01T07:00:00.000Z');
+    expect(await testDb.notificationSettings.count()).toBe(1);
+  });
+
+  it('should keep unrelated records with the merge mode', async () => {
+    await createSampleData();
+    const backup = service.readBackup(await service.exportBackup({ includeApiKey: false }));
+
+    await database.createHobby({
+      name: '釣り',
+      preferredWeather: [{ condition: 'clouds', weight: 7 }],
+      isActive: true,
+    });
+
+    const preview = await service.previewRestore(backup, 'merge');
+    expect(findChange(preview.tables, 'hobbies')).toEqual({
+      table: 'hobbies',
+      added: 0,
+      updated: 1,
+      removed: 0,
+    });
+    expect(findChange(preview.tables, 'settings')?.updated).toBe(1);
+
+    await service.restoreBackup(backup, 'merge');
+
+    const names = (await database.getAllHobbies()).map((hobby) => hobby.name).sort();
+    expect(names).toEqual(['ランニング', '釣り'].sort());
+    expect(await testDb.settings.count()).toBe(1);
+    expect(await testDb.notificationSettings.count()).toBe(1);
+  });
+
+  it('should add records from another device instead of overwriting the same IDs', async () => {
+    // 別の端末のバックアップ: 趣味ID 1 は「サイクリング」で、その活動記録を含む
+    const hobbyId = await createSampleData();
+    const backup = service.readBackup(await service.exportBackup({ includeApiKey: false }));
+    const cycling = { ...backup.hobbies[0]!, id: hobbyId, name: 'サイクリング' };
+    const log = {
+      id: 1,
+      hobbyId,
+      date: new Date('2024-05-03T00:00:00Z'),
+      forecast: {} as ActivityLog['forecast'],
+      predictedScore: 80,
+      rating: 5 as const,
+      createdAt: new Date('2024-05-03T10:00:00Z'),
+    };
+
+    const preview = await service.previewRestore({ ...backup, hobbies: [cycling], activityLogs: [log] }, 'merge');
+    expect(findChange(preview.tables, 'hobbies')).toMatchObject({ added: 1, updated: 0 });
+    expect(findChange(preview.tables, 'activityLogs')).toMatchObject({ added: 1, updated: 0 });
+
+    await service.restoreBackup({ ...backup, hobbies: [cycling], activityLogs: [log] }, 'merge');
+
+    expect((await database.getHobby(hobbyId))?.name).toBe('ランニング');
+    const restored = (await database.getAllHobbies()).find((hobby) => hobby.name === 'サイクリング');
+    expect(restored?.id).not.toBe(hobbyId);
+    const logs = await testDb.activityLogs.toArray();
+    expect(logs).toHaveLength(1);
+    expect(logs[0]?.hobbyId).toBe(restored?.id);
+  });
+
+  it('should migrate backups from older database versions', async () => {
+    const backup = JSON.parse(await service.exportBackup({ includeApiKey: false }));
+    const oldBackup = {
+      ...backup,
+      schemaVersion: 5,
+      hobbies: [{ id: 1, name: '釣り', preferredWeather: [], isActive: true }],
+      settings: [{ ...backup.settings[0], windSpeedUnit: 'kmh' }],
+    };
+
+    const restored = service.readBackup(JSON.stringify(oldBackup));
+
+    expect(restored.hobbies[0]?.scoringProfile).toBeDefined();
+    expect(restored.settings[0]?.windSpeedUnit).toBe('ms');
+  });
+
+  it('should preview removals without changing any data', async () => {
+    const backup = service.readBackup(await service.exportBackup({ includeApiKey: false }));
+    await createSampleData();
+
+    const preview = await service.previewRestore(backup, 'replace');
+    expect(findChange(preview.tables, 'hobbies')?.removed).toBe(1);
+    expect(findChange(preview.tables, 'notificationHistory')?.removed).toBe(1);
+    expect(await database.getAllHobbies()).toHaveLength(1);
+  });
+
+  it('should include the API key only when requested', async () => {
+    localStorage.setItem('hobby-weather-api-settings', JSON.stringify({ openWeatherApiKey: 'secret-key' }));
+
+    const withoutKey = service.readBackup(await service.exportBackup({ includeApiKey: false }));
+    const withKey = service.readBackup(await service.exportBackup({ includeApiKey: true }));
+    expect(withoutKey.apiSettings).toBeUndefined();
+    expect(withKey.apiSettings?.openWeatherApiKey).toBe('secret-key');
+
+    // バックアップにAPI Keyがなければ今の設定を残す
+    localStorage.setItem('hobby-weather-api-settings', JSON.stringify({ openWeatherApiKey: 'current-key' }));
+    const preview = await service.restoreBackup(withoutKey, 'merge');
+    expect(preview.apiKey).toBe(false);
+    expect(localStorage.getItem('hobby-weather-api-settings')).toContain('current-key');
+
+    const refreshApiKey = vi.spyOn(weatherService, 'refreshApiKey');
+    await service.restoreBackup(withKey, 'merge');
+    expect(localStorage.getItem('hobby-weather-api-settings')).toContain('secret-key');
+    expect(refreshApiKey).toHaveBeenCalled();
+    refreshApiKey.mockRestore();
+  });
+
+  it('should restore the theme config', async () => {
+    localStorage.setItem(
+      THEME_STORAGE_KEY,
+      JSON.stringify({ mode: 'dark', highContrast: false, reducedMotion: false, fontSize: 'large' })
+    );
+    const backup = service.readBackup(await service.exportBackup({ includeApiKey: false }));
+    localStorage.removeItem(THEME_STORAGE_KEY);
+
+    await service.restoreBackup(backup, 'merge');
+
+    expect(JSON.parse(localStorage.getItem(THEME_STORAGE_KEY) ?? '{}')).toMatchObject({
+      mode: 'dark',
+      fontSize: 'large',
+    });
+  });
+
+  it('should reject files that cannot be restored', async () => {
+    const backup = JSON.parse(await service.exportBackup({ includeApiKey: false }));
+
+    expect(() => service.readBackup('not json')).toThrow('JSON形式ではありません');
+    expect(() => service.readBackup(JSON.stringify({ hobbies: [] }))).toThrow(
+      'このアプリのバックアップファイルではありません'
+    );
+    expect(() =>
+      service.readBackup(JSON.stringify({ ...backup, schemaVersion: database.getSchemaVersion() + 1 }))
+    ).toThrow('新しいバージョンのアプリ');
+    expect(() => service.readBackup(JSON.stringify({ ...backup, hobbies: {} }))).toThrow('「hobbies」');
+  });
+});
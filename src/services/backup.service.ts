@@ -0,0 +1,89 @@
+import { DatabaseService, databaseService } from './database.service';
+import { weatherService } from './weather.service';
+import { serializeBackup } from '../utils/backup';
+import { loadThemeConfig, saveThemeConfig } from '../utils/theme';
+import type {
+    ApiSettingsBackup,
+    BackupFile,
+    RestoreMode,
+    RestorePreview,
+} from '../types/backup';
+
+const API_SETTINGS_STORAGE_KEY = 'hobby-weather-api-settings';
+
+export interface BackupExportOptions {
+    includeApiKey: boolean;
+}
+
+export class BackupService {
+    private database: DatabaseService;
+
+    constructor(database?: DatabaseService) {
+        this.database = database ?? databaseService;
+    }
+
+    private loadApiSettings(): ApiSettingsBackup | undefined {
+        const savedSettings = localStorage.getItem(API_SETTINGS_STORAGE_KEY);
+        if (!savedSettings) return undefined;
+
+        try {
+            const parsed = JSON.parse(savedSettings) as Partial<ApiSettingsBackup>;
+            return parsed.openWeatherApiKey
+                ? { openWeatherApiKey: parsed.openWeatherApiKey }
+                : undefined;
+        } catch (error) {
+            console.error('API Key設定の読み込みに失敗しました:', error);
+            return undefined;
+        }
+    }
+
+    // データベースの全テーブルとテーマ設定（指定時はAPI Keyも）をまとめる
+    async createBackup(options: BackupExportOptions): Promise<BackupFile> {
+        const backup = await this.database.createBackup();
+        const apiSettings = options.includeApiKey ? this.loadApiSettings() : undefined;
+
+        return {
+            ...backup,
+            theme: loadThemeConfig(),
+            ...(apiSettings && { apiSettings }),
+        };
+    }
+
+    async exportBackup(options: BackupExportOptions): Promise<string> {
+        return await serializeBackup(await this.createBackup(options));
+    }
+
+    readBackup(json: string): BackupFile {
+        return this.database.readBackup(json);
+    }
+
+    // 復元した場合の変更内容（データは変更しない）
+    async previewRestore(backup: BackupFile, mode: RestoreMode): Promise<RestorePreview> {
+        return {
+            mode,
+            exportedAt: backup.exportedAt,
+            tables: await this.database.previewRestore(backup, mode),
+            theme: backup.theme !== undefined,
+            apiKey: backup.apiSettings !== undefined,
+        };
+    }
+
+    // テーマやAPI Keyがバックアップに含まれていない場合は今の設定を残す
+    async restoreBackup(backup: BackupFile, mode: RestoreMode): Promise<RestorePreview> {
+        const preview = await this.previewRestore(backup, mode);
+
+        await this.database.restoreTables(backup, mode);
+        if (backup.theme) {
+            saveThemeConfig(backup.theme);
+        }
+        if (backup.apiSettings) {
+            localStorage.setItem(API_SETTINGS_STORAGE_KEY, JSON.stringify(backup.apiSettings));
+            // 再読み込みしなくても復元したAPI Keyで天気を取得できるようにする
+            weatherService.refreshApiKey();
+        }
+
+        return preview;
+    }
+}
+
+export const backupService = new BackupService();
@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ClimatologyService } from './climatology.service';
+import { DatabaseService } from './database.service';
+import { HobbyWeatherDatabase } from '../data/database';
+import type { Hobby, WeatherArchiveEntry } from '../types';
+
+describe('ClimatologyService', () => {
+  let service: ClimatologyService;
+  let database: DatabaseService;
+  let testDb: HobbyWeatherDatabase;
+
+  const createEntry = (date: Date, temperatureDay: number, lat = 35.68): Omit<WeatherArchiveEntry, 'id'> => ({
+    lat,
+    lon: 139.65,
+    date,
+    temperatureMin: temperatureDay - 4,
+    temperatureMax: temperatureDay + 4,
+    temperatureDay,
+    humidity: 60,
+    windSpeed: 2,
+    pop: 0,
+    weatherType: 'clear',
+    source: 'forecast',
+    updatedAt: date
+  });
+
+  beforeEach(async () => {
+    const testDbName = `HobbyWeatherDB_ClimatologyTest_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+
+    class TestDatabase extends HobbyWeatherDatabase {
+      constructor(name: string) {
+        super();
+        // @ts-expect-error - temporary workaround for readonly property
+        this.name = name;
+      }
+    }
+
+    testDb = new TestDatabase(testDbName);
+    await testDb.open();
+    database = new DatabaseService(testDb);
+    service = new ClimatologyService(database);
+  });
+
+  afterEach(async () => {
+    if (testDb) {
+      await testDb.delete();
+    }
+  });
+
+  it('should summarize the archive of the location only', async () => {
+    for (const day of [1, 2, 3]) {
+      await database.saveWeatherArchiveEntry(createEntry(new Date(2024, 9, day), 18));
+    }
+    await database.saveWeatherArchiveEntry(createEntry(new Date(2024, 0, 10), 6));
+    await database.saveWeatherArchiveEntry(createEntry(new Date(2024, 0, 10), 0, 43.06));
+
+    const climatology = await service.getClimatology(35.6762, 139.6503);
+
+    expect(climatology.recordedDays).toBe(4);
+    expect(climatology.firstRecordedAt).toEqual(new Date(2024, 0, 10));
+    expect(climatology.monthly.map(summary => [summary.period, summary.averageTemperature])).toEqual([
+      [1, 6],
+      [10, 18]
+    ]);
+    expect(climatology.weekly).toHaveLength(2);
+    expect(climatology.bestMonths).toEqual([]);
+  });
+
+  it('should rank months for a hobby', async () => {
+    const camping: Hobby = { id: 1, name: 'キャンプ', isActive: true, minTemperature: 10, createdAt: new Date() };
+    for (const day of [1, 2, 3]) {
+      await database.saveWeatherArchiveEntry(createEntry(new Date(2024, 9, day), 18));
+      await database.saveWeatherArchiveEntry(createEntry(new Date(2024, 0, day), 4));
+    }
+
+    const { bestMonths } = await service.getClimatology(35.68, 139.65, camping);
+
+    expect(bestMonths.map(month => month.month)).toEqual([10, 1]);
+  });
+});
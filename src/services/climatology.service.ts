@@ -0,0 +1,42 @@
+import { DatabaseService, databaseService } from './database.service';
+import {
+    rankMonthsForHobby,
+    summarizeClimatology,
+    type ClimatologySummary,
+    type HobbyMonthSuitability,
+} from '../utils/climatology';
+import type { Hobby } from '../types';
+
+// 場所の典型的な天気（記録した日の天気から集計）
+export interface Climatology {
+    weekly: ClimatologySummary[]; // ISO週番号ごと
+    monthly: ClimatologySummary[]; // 月ごと
+    recordedDays: number;
+    firstRecordedAt: Date | null;
+    bestMonths: HobbyMonthSuitability[]; // 趣味を指定した場合のみ
+}
+
+export class ClimatologyService {
+    private database: DatabaseService;
+
+    constructor(database?: DatabaseService) {
+        this.database = database ?? databaseService;
+    }
+
+    /**
+     * 場所の週・月ごとの典型的な気温・雨の日・風
+     * 趣味を指定した場合は、その趣味に合う日が多い月から並べた一覧も返す。
+     */
+    async getClimatology(lat: number, lon: number, hobby?: Hobby): Promise<Climatology> {
+        const entries = await this.database.getWeatherArchive(lat, lon);
+        return {
+            weekly: summarizeClimatology(entries, 'week'),
+            monthly: summarizeClimatology(entries, 'month'),
+            recordedDays: entries.length,
+            firstRecordedAt: entries[0]?.date ?? null,
+            bestMonths: hobby ? rankMonthsForHobby(entries, hobby) : [],
+        };
+    }
+}
+
+export const climatologyService = new ClimatologyService();
@@ -1,7 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { DatabaseService } from './database.service';
 import { HobbyWeatherDatabase } from '../data/database';
-import type { Hobby, Location } from '../types';
+import type { ActivityLog, Hobby, Location, WeatherArchiveEntry } from '../types';
 
 describe('DatabaseService', () => {
   let service: DatabaseService;
@@ -117,6 +117,112 @@ describe('DatabaseService', () => {
     });
   });
 
+  describe('Activity journal', () => {
+    const createLog = async (hobbyId: number, date: Date) => {
+      return await testDb.activityLogs.add({
+        hobbyId,
+        date,
+        forecast: {
+          date,
+          temperature: { min: 15, max: 25, morning: 17, day: 22, evening: 20, night: 16 },
+          feelsLike: { morning: 17, day: 22, evening: 20, night: 16 },
+          humidity: 60,
+          pressure: 1013,
+          windSpeed: 3,
+          windDirection: 180,
+          weatherType: 'clear',
+          weatherDescription: '晴れ',
+          cloudiness: 10,
+          uvIndex: 5,
+          pop: 0.1
+        },
+        predictedScore: 80,
+        rating: 4
+      } as ActivityLog);
+    };
+
+    it('should list logs newest first and update notes', async () => {
+      const hobbyId = await service.createHobby({ name: '釣り', isActive: true });
+      const olderId = await createLog(hobbyId, new Date(2024, 4, 1));
+      await createLog(hobbyId, new Date(2024, 5, 1));
+
+      await service.updateActivityLog(olderId, { note: '朝まずめが良かった' });
+      const logs = await service.getAllActivityLogs();
+
+      expect(logs.map(log => log.date.getMonth())).toEqual([5, 4]);
+      expect(logs[1]?.note).toBe('朝まずめが良かった');
+    });
+
+    it('should store photos and remove them with the log', async () => {
+      const hobbyId = await service.createHobby({ name: '釣り', isActive: true });
+      const logId = await createLog(hobbyId, new Date(2024, 5, 1));
+
+      await service.addActivityPhoto(logId, new Blob(['photo'], { type: 'image/jpeg' }), 'catch.jpg');
+      const photos = await service.getActivityPhotos([logId]);
+      expect(photos).toHaveLength(1);
+      expect(photos[0]?.name).toBe('catch.jpg');
+
+      await service.deleteActivityLog(logId);
+      expect(await service.getActivityPhotos([logId])).toHaveLength(0);
+      expect(await service.getAllActivityLogs()).toHaveLength(0);
+    });
+
+    it('should delete logs when the hobby is deleted', async () => {
+      const hobbyId = await service.createHobby({ name: '釣り', isActive: true });
+      await createLog(hobbyId, new Date(2024, 5, 1));
+
+      await service.deleteHobby(hobbyId);
+
+      expect(await service.getAllActivityLogs()).toHaveLength(0);
+    });
+  });
+
+  describe('Weather archive', () => {
+    const createEntry = (overrides: Partial<WeatherArchiveEntry> = {}): Omit<WeatherArchiveEntry, 'id'> => ({
+      lat: 35.68,
+      lon: 139.65,
+      date: new Date(2024, 5, 1),
+      temperatureMin: 18,
+      temperatureMax: 25,
+      temperatureDay: 23,
+      humidity: 60,
+      windSpeed: 3,
+      pop: 0.1,
+      weatherType: 'clear',
+      source: 'forecast',
+      updatedAt: new Date(2024, 5, 1, 9),
+      ...overrides
+    });
+
+    it('should keep one entry per location and day', async () => {
+      await service.saveWeatherArchiveEntry(createEntry());
+      await service.saveWeatherArchiveEntry(createEntry({ temperatureDay: 24 }));
+      await service.saveWeatherArchiveEntry(
+        createEntry({ temperatureMin: 27, temperatureMax: 27, weatherType: 'rain', source: 'observed' })
+      );
+
+      const archive = await service.getWeatherArchive(35.6762, 139.6503);
+
+      expect(archive).toHaveLength(1);
+      expect(archive[0]).toMatchObject({
+        temperatureDay: 24,
+        temperatureMin: 18,
+        temperatureMax: 27,
+        weatherType: 'rain',
+        pop: 1,
+        source: 'observed'
+      });
+    });
+
+    it('should not be removed with the expired cache', async () => {
+      await service.saveWeatherArchiveEntry(createEntry({ updatedAt: new Date(2020, 0, 1) }));
+
+      await testDb.clearExpiredCache();
+
+      expect(await service.getWeatherArchive(35.68, 139.65)).toHaveLength(1);
+    });
+  });
+
   describe('Location management', () => {
     it('should create and retrieve location', async () => {
       const location: Omit<Location, 'id' | 'createdAt'> = {
@@ -157,6 +263,36 @@ describe('DatabaseService', () => {
       expect(kyoto?.isDefault).toBe(true);
       expect(defaultLocation?.name).toBe('京都');
     });
+
+    it('should list the default location and opted-in locations for alerts', async () => {
+      await service.saveLocation({ name: '大阪', lat: 34.6937, lon: 135.5023, isDefault: false, alertsEnabled: true });
+      await service.saveLocation({ name: '京都', lat: 35.0116, lon: 135.7681, isDefault: false });
+      const tokyoId = await service.saveLocation({ name: '東京', lat: 35.6762, lon: 139.6503, isDefault: true });
+
+      expect((await service.getAlertLocations()).map(loc => loc.name)).toEqual(['東京', '大阪']);
+
+      await service.updateLocation(tokyoId, { alertsEnabled: false });
+      expect((await service.getAlertLocations()).map(loc => loc.name)).toEqual(['大阪']);
+    });
+
+    it('should replace hobby locations and remove them with the location', async () => {
+      const hobbyId = await service.createHobby({ name: 'サーフィン', isActive: true });
+      const shonanId = await service.saveLocation({ name: '湘南', lat: 35.31, lon: 139.48, isDefault: false });
+      const chibaId = await service.saveLocation({ name: '千葉', lat: 35.6, lon: 140.12, isDefault: false });
+
+      await service.setHobbyLocations(hobbyId, [{ locationId: shonanId }]);
+      await service.setHobbyLocations(hobbyId, [
+        { locationId: shonanId, maxTravelDistance: 60 },
+        { locationId: chibaId }
+      ]);
+      expect(await service.getHobbyLocations(hobbyId)).toHaveLength(2);
+
+      await service.deleteLocation(chibaId);
+      const links = await service.getHobbyLocations(hobbyId);
+
+      expect(links).toHaveLength(1);
+      expect(links[0]?.maxTravelDistance).toBe(60);
+    });
   });
 
   describe('Settings management', () => {
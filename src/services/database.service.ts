@@ -1,11 +1,44 @@
 import { db, HobbyWeatherDatabase } from '../data/database';
+import { migrateBackupTables } from '../data/migrations';
 import type {
     Hobby,
     WeatherData,
     WeatherForecast,
+    WeatherProviderType,
     Location,
+    HobbyLocation,
+    HobbyLocationLink,
     AppSettings,
+    ActivityLog,
+    ActivityPhoto,
+    BusyInterval,
+    WeatherArchiveEntry,
 } from '../types';
+import type {
+    BackupFile,
+    BackupTableChange,
+    BackupTableName,
+    BackupTables,
+    RestoreMode,
+} from '../types/backup';
+import {
+    BACKUP_FOREIGN_KEYS,
+    BACKUP_FORMAT,
+    BACKUP_TABLE_NAMES,
+    BACKUP_VERSION,
+    SINGLETON_BACKUP_TABLES,
+    getMergeKey,
+    parseBackup,
+    serializeBackup,
+} from '../utils/backup';
+import {
+    mergeArchiveEntry,
+    roundArchiveCoordinate,
+    type WeatherArchiveInput,
+} from '../utils/weather-archive';
+
+// 復元するテーブルの行（テーブルごとの型によらず項目名で扱う）
+type RestoreRow = Record<string, unknown> & { id?: number };
 
 export class DatabaseService {
     private db: HobbyWeatherDatabase;
@@ -40,6 +73,14 @@ export class DatabaseService {
 
     async deleteHobby(id: number): Promise<void> {
         await this.db.hobbies.delete(id);
+        await this.db.hobbyLocations.where('hobbyId').equals(id).delete();
+
+        const logIds = (await this.db.activityLogs
+            .where('hobbyId')
+            .equals(id)
+            .primaryKeys()) as number[];
+        await this.db.activityPhotos.where('logId').anyOf(logIds).delete();
+        await this.db.activityLogs.bulkDelete(logIds);
     }
 
     // 天気データ操作
@@ -49,9 +90,11 @@ export class DatabaseService {
         return await this.db.weatherData.add(weatherData as WeatherData);
     }
 
+    // 取得元を切り替えた場合に前の取得元のデータを返さないよう、取得元も一致するものだけを使う
     async getWeatherData(
         lat: number,
         lon: number,
+        provider: WeatherProviderType,
         maxAge: number = 6
     ): Promise<WeatherData | undefined> {
         const cutoffTime = new Date(Date.now() - maxAge * 60 * 60 * 1000);
@@ -59,7 +102,7 @@ export class DatabaseService {
         return await this.db.weatherData
             .where('[lat+lon]')
             .equals([lat, lon])
-            .and((item) => item.cachedAt > cutoffTime)
+            .and((item) => item.cachedAt > cutoffTime && item.provider === provider)
             .first();
     }
 
@@ -77,6 +120,7 @@ export class DatabaseService {
     async getWeatherForecast(
         lat: number,
         lon: number,
+        provider: WeatherProviderType,
         maxAge: number = 6
     ): Promise<WeatherForecast | undefined> {
         const cutoffTime = new Date(Date.now() - maxAge * 60 * 60 * 1000);
@@ -84,10 +128,33 @@ export class DatabaseService {
         return await this.db.weatherForecasts
             .where('[lat+lon]')
             .equals([lat, lon])
-            .and((item) => item.cachedAt > cutoffTime)
+            .and((item) => item.cachedAt > cutoffTime && item.provider === provider)
             .first();
     }
 
+    // 天気の記録関連操作（同じ場所・同じ日の記録は1件にまとめる）
+    async saveWeatherArchiveEntry(entry: WeatherArchiveInput): Promise<void> {
+        await this.db.transaction('rw', this.db.weatherArchive, async () => {
+            const existing = await this.db.weatherArchive
+                .where('[lat+lon+date]')
+                .equals([entry.lat, entry.lon, entry.date])
+                .first();
+            const merged = mergeArchiveEntry(existing, entry);
+            if (existing?.id !== undefined) {
+                await this.db.weatherArchive.put({ ...merged, id: existing.id });
+            } else {
+                await this.db.weatherArchive.add(merged as WeatherArchiveEntry);
+            }
+        });
+    }
+
+    async getWeatherArchive(lat: number, lon: number): Promise<WeatherArchiveEntry[]> {
+        return await this.db.weatherArchive
+            .where('[lat+lon]')
+            .equals([roundArchiveCoordinate(lat), roundArchiveCoordinate(lon)])
+            .sortBy('date');
+    }
+
     // 場所関連操作
     async saveLocation(
         location: Omit<Location, 'id' | 'createdAt'>
@@ -115,6 +182,14 @@ export class DatabaseService {
             .first();
     }
 
+    // 通知の対象とする場所（デフォルトの場所を先頭にする）
+    async getAlertLocations(): Promise<Location[]> {
+        const locations = await this.db.locations.toArray();
+        return locations
+            .filter((loc) => loc.alertsEnabled ?? loc.isDefault)
+            .sort((a, b) => Number(b.isDefault) - Number(a.isDefault));
+    }
+
     async updateLocation(
         id: number,
         changes: Partial<Location>
@@ -130,6 +205,86 @@ export class DatabaseService {
 
     async deleteLocation(id: number): Promise<void> {
         await this.db.locations.delete(id);
+        await this.db.hobbyLocations.where('locationId').equals(id).delete();
+    }
+
+    // 趣味の活動場所関連操作
+    async getAllHobbyLocations(): Promise<HobbyLocation[]> {
+        return await this.db.hobbyLocations.toArray();
+    }
+
+    async getHobbyLocations(hobbyId: number): Promise<HobbyLocation[]> {
+        return await this.db.hobbyLocations
+            .where('hobbyId')
+            .equals(hobbyId)
+            .toArray();
+    }
+
+    async setHobbyLocations(
+        hobbyId: number,
+        links: HobbyLocationLink[]
+    ): Promise<void> {
+        await this.db.transaction('rw', this.db.hobbyLocations, async () => {
+            await this.db.hobbyLocations.where('hobbyId').equals(hobbyId).delete();
+            await this.db.hobbyLocations.bulkAdd(
+                links.map((link) => ({ ...link, hobbyId }) as HobbyLocation)
+            );
+        });
+    }
+
+    // 活動記録関連操作
+    async getAllActivityLogs(): Promise<ActivityLog[]> {
+        return await this.db.activityLogs.orderBy('date').reverse().toArray();
+    }
+
+    async updateActivityLog(
+        id: number,
+        changes: Partial<Pick<ActivityLog, 'note' | 'rating'>>
+    ): Promise<number> {
+        return await this.db.activityLogs.update(id, changes);
+    }
+
+    async deleteActivityLog(id: number): Promise<void> {
+        await this.db.activityPhotos.where('logId').equals(id).delete();
+        await this.db.activityLogs.delete(id);
+    }
+
+    async addActivityPhoto(logId: number, file: Blob, name: string): Promise<number> {
+        return await this.db.activityPhotos.add({
+            logId,
+            blob: file,
+            name,
+        } as ActivityPhoto);
+    }
+
+    async getActivityPhotos(logIds: number[]): Promise<ActivityPhoto[]> {
+        return await this.db.activityPhotos
+            .where('logId')
+            .anyOf(logIds)
+            .sortBy('createdAt');
+    }
+
+    async deleteActivityPhoto(id: number): Promise<void> {
+        await this.db.activityPhotos.delete(id);
+    }
+
+    // 予定関連操作
+    async getBusyIntervals(): Promise<BusyInterval[]> {
+        return await this.db.busyIntervals.orderBy('start').toArray();
+    }
+
+    async addBusyIntervals(
+        intervals: Array<Omit<BusyInterval, 'id' | 'createdAt'>>
+    ): Promise<void> {
+        await this.db.busyIntervals.bulkAdd(intervals as BusyInterval[]);
+    }
+
+    async deleteBusyIntervals(ids: number[]): Promise<void> {
+        await this.db.busyIntervals.bulkDelete(ids);
+    }
+
+    async clearBusyIntervals(): Promise<void> {
+        await this.db.busyIntervals.clear();
     }
 
     // 設定関連操作
@@ -144,7 +299,7 @@ export class DatabaseService {
         } else {
             return await this.db.settings.add({
                 temperatureUnit: 'celsius',
-                windSpeedUnit: 'kmh',
+                windSpeedUnit: 'ms',
                 language: 'ja',
                 notificationsEnabled: true,
                 cacheExpiration: 6,
@@ -160,57 +315,162 @@ export class DatabaseService {
         await this.db.weatherData.clear();
         await this.db.weatherForecasts.clear();
         await this.db.locations.clear();
+        await this.db.hobbyLocations.clear();
         await this.db.settings.clear();
+        await this.db.activityLogs.clear();
+        await this.db.activityPhotos.clear();
+        await this.db.notificationConfigs.clear();
+        await this.db.notificationHistory.clear();
+        await this.db.notificationSettings.clear();
+        await this.db.busyIntervals.clear();
+        await this.db.weatherArchive.clear();
     }
 
-    async exportData(): Promise<string> {
-        const hobbies = await this.getAllHobbies();
-        const locations = await this.getAllLocations();
-        const settings = await this.getSettings();
+    // バックアップ関連操作
+    getSchemaVersion(): number {
+        return this.db.verno;
+    }
 
-        return JSON.stringify(
-            {
-                hobbies,
-                locations,
-                settings,
-                exportedAt: new Date().toISOString(),
-            },
-            null,
-            2
-        );
-    }
-
-    async importData(jsonData: string): Promise<void> {
-        const data = JSON.parse(jsonData) as {
-            hobbies?: Array<Hobby & { id?: number }>;
-            locations?: Array<Location & { id?: number }>;
-            settings?: AppSettings & { id?: number };
+    async createBackup(): Promise<BackupFile> {
+        const tables = {} as Record<BackupTableName, unknown[]>;
+        for (const name of BACKUP_TABLE_NAMES) {
+            tables[name] = await this.db.table(name).toArray();
+        }
+
+        return {
+            format: BACKUP_FORMAT,
+            version: BACKUP_VERSION,
+            schemaVersion: this.getSchemaVersion(),
+            exportedAt: new Date().toISOString(),
+            ...(tables as unknown as BackupTables),
         };
+    }
+
+    async exportData(): Promise<string> {
+        return await serializeBackup(await this.createBackup());
+    }
+
+    // バックアップを読み込み、古いバージョンのデータベースで作成したものは今の形に書き換える
+    readBackup(json: string): BackupFile {
+        const backup = parseBackup(json, this.getSchemaVersion());
+        return migrateBackupTables(backup, backup.schemaVersion);
+    }
 
-        // 既存データをクリア
-        await this.clearAllData();
+    // 1件だけのテーブルは既存のIDに合わせる
+    private async getRestoreRows(
+        name: BackupTableName,
+        tables: BackupTables
+    ): Promise<Array<{ id?: number }>> {
+        const rows: Array<{ id?: number }> = tables[name];
+        if (!SINGLETON_BACKUP_TABLES.includes(name)) return rows;
 
-        // 趣味をインポート
-        if (data.hobbies && Array.isArray(data.hobbies)) {
-            for (const hobby of data.hobbies) {
-                const { id: _id, ...hobbyData } = hobby;
-                await this.createHobby(hobbyData);
-            }
+        const current = await this.db.table(name).toCollection().first();
+        return rows
+            .slice(0, 1)
+            .map((row) => (current?.id === undefined ? row : { ...row, id: current.id }));
+    }
+
+    // 参照先がバックアップに含まれる場合は、参照先の復元後のIDに付け替える
+    private remapForeignKeys(
+        name: BackupTableName,
+        row: RestoreRow,
+        idMaps: Map<BackupTableName, Map<number, number>>
+    ): RestoreRow {
+        const remapped = { ...row };
+        for (const { field, table } of BACKUP_FOREIGN_KEYS[name] ?? []) {
+            const id = remapped[field];
+            const mapped = typeof id === 'number' ? idMaps.get(table)?.get(id) : undefined;
+            if (mapped !== undefined) remapped[field] = mapped;
         }
+        return remapped;
+    }
 
-        // 場所をインポート
-        if (data.locations && Array.isArray(data.locations)) {
-            for (const location of data.locations) {
-                const { id: _id, ...locationData } = location;
-                await this.saveLocation(locationData);
+    /**
+     * マージで復元する
+     * IDは端末ごとに異なるため、参照するIDを付け替えてから内容で既存のデータと照合する。
+     * 同じデータは既存のIDで上書きし、それ以外は新しいIDで追加する。
+     * write が false の場合は書き込まず、追加する行に仮のIDを割り当てて件数だけを数える。
+     */
+    private async mergeTables(tables: BackupTables, write: boolean): Promise<BackupTableChange[]> {
+        const idMaps = new Map<BackupTableName, Map<number, number>>();
+        const changes: BackupTableChange[] = [];
+        let placeholderId = 0;
+
+        for (const name of BACKUP_TABLE_NAMES) {
+            const table = this.db.table(name);
+            const existing = new Map<string, number>();
+            for (const row of (await table.toArray()) as RestoreRow[]) {
+                const key = getMergeKey(name, row);
+                if (row.id !== undefined && !existing.has(key)) existing.set(key, row.id);
             }
+
+            const idMap = new Map<number, number>();
+            let added = 0;
+            let updated = 0;
+            for (const backupRow of tables[name] as unknown as RestoreRow[]) {
+                const { id: backupId, ...row } = this.remapForeignKeys(name, backupRow, idMaps);
+                const key = getMergeKey(name, row);
+                let id = existing.get(key);
+                if (id !== undefined) {
+                    updated++;
+                    if (write) await table.put({ ...row, id });
+                } else {
+                    added++;
+                    id = write ? ((await table.add(row)) as number) : --placeholderId;
+                    existing.set(key, id);
+                }
+                if (backupId !== undefined) idMap.set(backupId, id);
+            }
+
+            idMaps.set(name, idMap);
+            changes.push({ table: name, added, updated, removed: 0 });
         }
+        return changes;
+    }
+
+    // 復元した場合に追加・上書き・削除される件数（データは変更しない）
+    async previewRestore(tables: BackupTables, mode: RestoreMode): Promise<BackupTableChange[]> {
+        if (mode === 'merge') return await this.mergeTables(tables, false);
 
-        // 設定をインポート
-        if (data.settings) {
-            const { id: _id2, ...settingsData } = data.settings;
-            await this.updateSettings(settingsData);
+        const changes: BackupTableChange[] = [];
+        for (const name of BACKUP_TABLE_NAMES) {
+            const currentIds = new Set(await this.db.table(name).toCollection().primaryKeys());
+            const rows = await this.getRestoreRows(name, tables);
+            const updated = rows.filter((row) => row.id !== undefined && currentIds.has(row.id)).length;
+            changes.push({
+                table: name,
+                added: rows.length - updated,
+                updated,
+                removed: currentIds.size - updated,
+            });
         }
+        return changes;
+    }
+
+    async restoreTables(tables: BackupTables, mode: RestoreMode): Promise<void> {
+        await this.db.transaction('rw', this.db.tables, async () => {
+            if (mode === 'merge') {
+                await this.mergeTables(tables, true);
+                return;
+            }
+
+            for (const name of BACKUP_TABLE_NAMES) {
+                const rows = await this.getRestoreRows(name, tables);
+                const table = this.db.table(name);
+                await table.clear();
+                await table.bulkPut(rows);
+            }
+        });
+    }
+
+    async importData(
+        jsonData: string,
+        mode: RestoreMode = 'replace'
+    ): Promise<BackupTableChange[]> {
+        const backup = this.readBackup(jsonData);
+        const changes = await this.previewRestore(backup, mode);
+        await this.restoreTables(backup, mode);
+        return changes;
     }
     public getDb() {
         return this.db;
@@ -1,3 +1,6 @@
+import { t } from '../utils/i18n';
+import type { MessageKey } from '../types/i18n';
+
 export interface GeolocationPosition {
   lat: number;
   lon: number;
@@ -15,7 +18,7 @@ export class GeolocationService {
       if (!navigator.geolocation) {
         reject({
           code: 0,
-          message: 'このブラウザは位置情報をサポートしていません'
+          message: t('geolocation.unsupported')
         });
         return;
       }
@@ -35,15 +38,15 @@ export class GeolocationService {
           });
         },
         (error) => {
-          const errorMessages: Record<number, string> = {
-            1: '位置情報の取得が拒否されました',
-            2: '位置情報を取得できませんでした',
-            3: '位置情報の取得がタイムアウトしました'
+          const errorMessages: Record<number, MessageKey> = {
+            1: 'geolocation.denied',
+            2: 'geolocation.unavailable',
+            3: 'geolocation.timeout'
           };
 
           reject({
             code: error.code,
-            message: errorMessages[error.code] || '位置情報の取得に失敗しました'
+            message: t(errorMessages[error.code] ?? 'geolocation.failed')
           });
         },
         options
@@ -59,7 +62,7 @@ export class GeolocationService {
       if (!navigator.geolocation) {
         reject({
           code: 0,
-          message: 'このブラウザは位置情報をサポートしていません'
+          message: t('geolocation.unsupported')
         });
         return;
       }
@@ -79,15 +82,15 @@ export class GeolocationService {
           });
         },
         (error) => {
-          const errorMessages: Record<number, string> = {
-            1: '位置情報の取得が拒否されました',
-            2: '位置情報を取得できませんでした',
-            3: '位置情報の取得がタイムアウトしました'
+          const errorMessages: Record<number, MessageKey> = {
+            1: 'geolocation.denied',
+            2: 'geolocation.unavailable',
+            3: 'geolocation.timeout'
           };
 
           onError({
             code: error.code,
-            message: errorMessages[error.code] || '位置情報の取得に失敗しました'
+            message: t(errorMessages[error.code] ?? 'geolocation.failed')
           });
         },
         options
@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { GoalService } from './goal.service';
+import { DatabaseService } from './database.service';
+import { HobbyWeatherDatabase } from '../data/database';
+import type { ActivityLog, DailyForecast, Hobby } from '../types';
+
+describe('GoalService', () => {
+  // 2024-01-18（木）
+  const now = new Date(2024, 0, 18, 12);
+  let service: GoalService;
+  let testDb: HobbyWeatherDatabase;
+
+  const createHobby = (id: number, name: string, goal?: Hobby['goal']): Hobby => ({
+    id,
+    name,
+    isActive: true,
+    createdAt: new Date(),
+    ...(goal && { goal })
+  });
+
+  const createLog = (hobbyId: number, date: Date): Omit<ActivityLog, 'id'> => ({
+    hobbyId,
+    date,
+    forecast: {} as DailyForecast,
+    predictedScore: 80,
+    rating: 4,
+    createdAt: date
+  });
+
+  beforeEach(async () => {
+    const testDbName = `HobbyWeatherDB_GoalTest_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+
+    class TestDatabase extends HobbyWeatherDatabase {
+      constructor(name: string) {
+        super();
+        // @ts-expect-error - temporary workaround for readonly property
+        this.name = name;
+      }
+    }
+
+    testDb = new TestDatabase(testDbName);
+    await testDb.open();
+    service = new GoalService(new DatabaseService(testDb));
+  });
+
+  afterEach(async () => {
+    if (testDb) {
+      await testDb.delete();
+    }
+  });
+
+  it('should return progress only for active hobbies with goals, behind first', async () => {
+    await testDb.activityLogs.bulkAdd([
+      createLog(1, new Date(2024, 0, 15)),
+      createLog(1, new Date(2024, 0, 16)),
+      createLog(1, new Date(2024, 0, 17))
+    ] as ActivityLog[]);
+
+    const hobbies = [
+      createHobby(1, 'ランニング', { count: 3, period: 'week' }),
+      createHobby(2, '水泳', { count: 3, period: 'week' }),
+      createHobby(3, '読書'),
+      { ...createHobby(4, '星空観察', { count: 1, period: 'month' }), isActive: false }
+    ];
+
+    const progress = await service.getGoalProgress(hobbies, now);
+
+    expect(progress.map(p => [p.hobby.name, p.status])).toEqual([
+      ['水泳', 'behind'],
+      ['ランニング', 'achieved']
+    ]);
+  });
+
+  it('should skip loading logs when no hobby has a goal', async () => {
+    expect(await service.getGoalProgress([createHobby(1, '読書')], now)).toEqual([]);
+  });
+});
@@ -0,0 +1,31 @@
+import { DatabaseService, databaseService } from './database.service';
+import { calculateGoalProgress, type GoalProgress } from '../utils/goals';
+import type { Hobby } from '../types';
+
+export class GoalService {
+    private database: DatabaseService;
+
+    constructor(database?: DatabaseService) {
+        this.database = database ?? databaseService;
+    }
+
+    /**
+     * 目標を設定した趣味の今の期間の進捗（遅れている趣味から順に並ぶ）
+     */
+    async getGoalProgress(hobbies: Hobby[], now: Date = new Date()): Promise<GoalProgress[]> {
+        const targets = hobbies.filter((hobby) => hobby.goal && hobby.isActive);
+        if (targets.length === 0) return [];
+
+        const logs = await this.database.getAllActivityLogs();
+        const statusOrder = { behind: 0, onTrack: 1, achieved: 2 };
+        return targets
+            .map((hobby) => calculateGoalProgress(hobby, logs, now))
+            .filter((progress): progress is GoalProgress => progress !== null)
+            .sort((a, b) =>
+                statusOrder[a.status] - statusOrder[b.status] ||
+                (b.expected - b.completed) - (a.expected - a.completed)
+            );
+    }
+}
+
+export const goalService = new GoalService();
@@ -6,9 +6,12 @@ import type {
   WeatherForecast,
   NotificationPayload,
   DailyForecast,
-  Hobby
+  Hobby,
+  Location
 } from '../types';
-// import type { HobbyRecommendation } from './recommendation.service'; // Unused import
+import type { HobbyRecommendation } from './recommendation.service';
+import { formatTemperature } from '../utils/units';
+import { hasMessage, t } from '../utils/i18n';
 
 export interface HighScoreThreshold {
   minScore: number; // 通知を送る最低スコア（デフォルト: 80）
@@ -24,6 +27,7 @@ export interface ScoredRecommendation {
   date: Date;
   weather: DailyForecast;
   reasons: string[];
+  location?: Location; // 評価した場所
 }
 
 export interface HighScoreNotificationResult {
@@ -67,14 +71,31 @@ export class HighScoreNotificationService {
     }
   ): Promise<HighScoreNotificationResult> {
     try {
-      // 現在の天気予報を取得
-      const defaultLocation = { lat: 35.6762, lon: 139.6503 }; // Tokyo default
-      const forecast = await this.weatherService.getWeatherForecast(defaultLocation.lat, defaultLocation.lon);
-      if (!forecast) {
+      // 通知対象の場所を取得
+      const locations = await this.databaseService.getAlertLocations();
+      if (locations.length === 0) {
         return {
           notificationSent: false,
           recommendations: [],
-          reason: '天気予報データが取得できませんでした'
+          reason: t('notify.skip.noLocation')
+        };
+      }
+
+      // 各場所の天気予報を取得（取得できた場所だけで評価する）
+      const locationForecasts: Array<{ location: Location; forecast: WeatherForecast }> = [];
+      for (const location of locations) {
+        const forecast = await this.weatherService
+          .getWeatherForecast(location.lat, location.lon, false, location.weatherProvider)
+          .catch(() => null);
+        if (forecast) {
+          locationForecasts.push({ location, forecast });
+        }
+      }
+      if (locationForecasts.length === 0) {
+        return {
+          notificationSent: false,
+          recommendations: [],
+          reason: t('notify.skip.noForecast')
         };
       }
 
@@ -84,50 +105,38 @@ export class HighScoreNotificationService {
         return {
           notificationSent: false,
           recommendations: [],
-          reason: 'アクティブな趣味が登録されていません'
+          reason: t('notify.skip.noHobbies')
         };
       }
 
-      // 推薦を生成
-      const recommendations = await this.recommendationService.generateRecommendations(
-        hobbies,
-        forecast
-      );
+      // 場所ごとに推薦を生成し、RecommendationServiceの形式をNotificationサービス用に変換
+      const convertedRecommendations: ScoredRecommendation[] = [];
+      for (const { location, forecast } of locationForecasts) {
+        const recommendations = await this.recommendationService.generateRecommendations(
+          hobbies,
+          forecast
+        );
+        convertedRecommendations.push(...recommendations.map(rec => this.toScoredRecommendation(rec, forecast, location)));
+      }
 
-      // RecommendationServiceの形式をNotificationサービス用に変換
-      const convertedRecommendations = recommendations.map(rec => ({
-        hobby: rec.hobby,
-        score: rec.overallScore,
-        overallScore: rec.overallScore,
-        date: new Date(),
-        weather: forecast.forecasts?.[0] || {
-          date: new Date(),
-          temperature: { min: 18, max: 25, morning: 20, day: 22, evening: 21, night: 19 },
-          feelsLike: { morning: 19, day: 21, evening: 20, night: 18 },
-          humidity: forecast.current?.humidity || 60,
-          pressure: forecast.current?.pressure || 1013,
-          windSpeed: forecast.current?.windSpeed || 5,
-          windDirection: forecast.current?.windDirection || 180,
-          weatherType: forecast.current?.weatherType || 'clear',
-          weatherDescription: forecast.current?.weatherDescription || '晴れ',
-          cloudiness: forecast.current?.cloudiness || 10,
-          uvIndex: forecast.current?.uvIndex || 6,
-          pop: 10
-        },
-        reasons: rec.recommendedDays?.[0]?.matchingFactors || ['天気に基づいた推薦']
-      }));
-
-      // 高スコアの趣味をフィルタリング
+      // 高スコアの趣味をフィルタリング（同じ趣味は最もスコアが高い場所のみ）
+      const notifiedHobbies = new Set<number | string>();
       const highScoreRecommendations = convertedRecommendations
         .filter(rec => rec.overallScore >= threshold.minScore)
         .sort((a, b) => b.overallScore - a.overallScore)
+        .filter(rec => {
+          const key = rec.hobby.id ?? rec.hobby.name;
+          if (notifiedHobbies.has(key)) return false;
+          notifiedHobbies.add(key);
+          return true;
+        })
         .slice(0, threshold.topN);
 
       if (highScoreRecommendations.length === 0) {
         return {
           notificationSent: false,
           recommendations: [],
-          reason: `スコア${threshold.minScore}以上の趣味がありません`
+          reason: t('notify.skip.belowScore', { score: threshold.minScore })
         };
       }
 
@@ -141,7 +150,7 @@ export class HighScoreNotificationService {
         return {
           notificationSent: false,
           recommendations: highScoreRecommendations,
-          reason: 'クールダウン期間中です'
+          reason: t('notify.skip.cooldown')
         };
       }
 
@@ -155,11 +164,41 @@ export class HighScoreNotificationService {
       return {
         notificationSent: false,
         recommendations: [],
-        reason: error instanceof Error ? error.message : '評価中にエラーが発生しました'
+        reason: error instanceof Error ? error.message : t('notify.skip.evaluationError')
       };
     }
   }
 
+  // RecommendationServiceの推薦を通知用の形式に変換
+  private toScoredRecommendation(
+    rec: HobbyRecommendation,
+    forecast: WeatherForecast,
+    location: Location
+  ): ScoredRecommendation {
+    return {
+      hobby: rec.hobby,
+      score: rec.overallScore,
+      overallScore: rec.overallScore,
+      date: new Date(),
+      weather: forecast.forecasts?.[0] || {
+        date: new Date(),
+        temperature: { min: 18, max: 25, morning: 20, day: 22, evening: 21, night: 19 },
+        feelsLike: { morning: 19, day: 21, evening: 20, night: 18 },
+        humidity: forecast.current?.humidity || 60,
+        pressure: forecast.current?.pressure || 1013,
+        windSpeed: forecast.current?.windSpeed || 5,
+        windDirection: forecast.current?.windDirection || 180,
+        weatherType: forecast.current?.weatherType || 'clear',
+        weatherDescription: forecast.current?.weatherDescription || t('weather.type.clear'),
+        cloudiness: forecast.current?.cloudiness || 10,
+        uvIndex: forecast.current?.uvIndex || 6,
+        pop: 10
+      },
+      reasons: rec.recommendedDays?.[0]?.matchingFactors || [t('notify.defaultReason')],
+      location
+    };
+  }
+
   // 高スコア通知のペイロードを作成
   createHighScoreNotificationPayload(
     recommendations: ScoredRecommendation[],
@@ -169,18 +208,26 @@ export class HighScoreNotificationService {
     const currentWeather = forecast.current;
     const weatherCondition = this.getWeatherDescription(currentWeather?.weatherType || 'clear');
     const temperature = Math.round(currentWeather?.temperature || 20);
+    const locationName = topHobby?.location?.name;
+    const locationPrefix = locationName ? t('notify.locationPrefix', { location: locationName }) : '';
 
     // 複数の趣味がある場合
     if (recommendations.length > 1) {
       const hobbyNames = recommendations
         .slice(0, 3)
         .map(rec => rec.hobby.name)
-        .join('、');
+        .join(t('common.listSeparator'));
 
       return {
         type: 'high-score',
-        title: `${recommendations.length}つの趣味が最適です！`,
-        message: `${weatherCondition}で気温${temperature}°C。${hobbyNames}などがおすすめです。最高スコア: ${Math.round(topHobby?.overallScore ?? 0)}点`,
+        title: t('notify.highScore.multiple.title', { count: recommendations.length }),
+        message: t('notify.highScore.multiple.message', {
+          prefix: locationPrefix,
+          weather: weatherCondition,
+          temperature: formatTemperature(temperature),
+          hobbies: hobbyNames,
+          score: Math.round(topHobby?.overallScore ?? 0)
+        }),
         icon: '⭐',
         data: {
           recommendations: recommendations.map(rec => ({
@@ -188,7 +235,8 @@ export class HighScoreNotificationService {
             score: rec.overallScore
           })),
           weatherCondition,
-          temperature
+          temperature,
+          ...(locationName && { locationName })
         }
       };
     }
@@ -196,16 +244,22 @@ export class HighScoreNotificationService {
     // 単一の趣味の場合
     return {
       type: 'high-score',
-      title: `${topHobby?.hobby.name ?? '趣味活動'}が最適です！`,
-      message: `${weatherCondition}で気温${temperature}°C。スコア${Math.round(topHobby?.overallScore ?? 0)}点の高評価です！`,
+      title: t('notify.highScore.single.title', { hobby: topHobby?.hobby.name ?? t('common.hobbyActivity') }),
+      message: t('notify.highScore.single.message', {
+        prefix: locationPrefix,
+        weather: weatherCondition,
+        temperature: formatTemperature(temperature),
+        score: Math.round(topHobby?.overallScore ?? 0)
+      }),
       icon: '🌟',
       data: {
         recommendations: [{
-          name: topHobby?.hobby.name ?? '趣味活動',
+          name: topHobby?.hobby.name ?? t('common.hobbyActivity'),
           score: topHobby?.overallScore ?? 0
         }],
         weatherCondition,
-        temperature
+        temperature,
+        ...(locationName && { locationName })
       }
     };
   }
@@ -247,22 +301,10 @@ export class HighScoreNotificationService {
     }
   }
 
-  // 天気タイプの日本語説明を取得
+  // 天気タイプの説明を取得（未知のタイプはそのまま表示）
   private getWeatherDescription(weatherType: string): string {
-    const descriptions: Record<string, string> = {
-      'clear': '晴れ',
-      'clouds': '曇り',
-      'rain': '雨',
-      'drizzle': '小雨',
-      'thunderstorm': '雷雨',
-      'snow': '雪',
-      'mist': '霧',
-      'fog': '濃霧',
-      'haze': 'もや',
-      'dust': '砂埃'
-    };
-    
-    return descriptions[weatherType] || weatherType;
+    const key = `weather.type.${weatherType}`;
+    return hasMessage(key) ? t(key) : weatherType;
   }
 
   // デバッグ用：強制的に高スコア通知を評価
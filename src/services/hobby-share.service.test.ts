@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { HobbyShareService } from './hobby-share.service';
+import { DatabaseService } from './database.service';
+import { HobbyWeatherDatabase } from '../data/database';
+import type { HobbyShareFile } from '../types/hobby-share';
+
+const createFile = (hobbies: HobbyShareFile['hobbies']): HobbyShareFile => ({
+  format: 'hobby-weather-hobbies',
+  version: 1,
+  hobbies,
+});
+
+describe('HobbyShareService', () => {
+  let service: HobbyShareService;
+  let database: DatabaseService;
+  let testDb: HobbyWeatherDatabase;
+
+  beforeEach(async () => {
+    const testDbName = `HobbyWeatherDB_ShareTest_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+
+    class TestDatabase extends HobbyWeatherDatabase {
+      constructor(name: string) {
+        super();
+        // @ts-expect-error - temporary workaround for readonly property
+        this.name = name;
+      }
+    }
+
+    testDb = new TestDatabase(testDbName);
+    await testDb.open();
+
+    database = new DatabaseService(testDb);
+    service = new HobbyShareService(database);
+
+    await database.createHobby({
+      name: 'Running',
+      preferredWeather: [{ condition: 'clouds', weight: 5 }],
+      minTemperature: 5,
+      isActive: false,
+    });
+  });
+
+  afterEach(async () => {
+    try {
+      await testDb.close();
+      await testDb.delete();
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('should detect name collisions with existing hobbies and within the file', async () => {
+    const items = await service.previewImport(
+      createFile([
+        { name: ' running ', preferredWeather: [{ condition: 'clear', weight: 9 }] },
+        { name: '釣り', preferredWeather: [{ condition: 'clouds', weight: 7 }] },
+        { name: '釣り', preferredWeather: [{ condition: 'rain', weight: 3 }] },
+      ])
+    );
+
+    expect(items.map((item) => item.action)).toEqual(['skip', 'create', 'skip']);
+    expect(items[0]?.conflict?.name).toBe('Running');
+    expect(items[0]?.renamedName).toBe('running (2)');
+    expect(items[2]?.duplicateInFile).toBe(true);
+    expect(items[2]?.renamedName).toBe('釣り (2)');
+  });
+
+  it('should not import hobbies that fail validation', async () => {
+    const items = await service.previewImport(
+      createFile([{ name: '登山', preferredWeather: [{ condition: 'sunny' as never, weight: 9 }] }])
+    );
+
+    expect(items[0]?.errors).toEqual(['不明な天気「sunny」が含まれています']);
+    expect(items[0]?.action).toBe('skip');
+
+    const result = await service.importHobbies([{ ...items[0]!, action: 'create' }]);
+    expect(result).toEqual({ created: 0, updated: 0, skipped: 1 });
+  });
+
+  it('should report unknown choices in nested fields', async () => {
+    const items = await service.previewImport(
+      createFile([
+        {
+          name: '登山',
+          preferredWeather: [{ condition: 'rain', weight: 5, intensity: 'extreme' as never }],
+          goal: { count: 2, period: 'year' as never },
+          scoringMode: 'stars' as never,
+          hardConstraints: { forbiddenWeather: ['storm' as never] },
+        },
+      ])
+    );
+
+    expect(items[0]?.errors).toEqual([
+      '天気条件1の強さは雨・霧雨・雪・雷雨に light / moderate / heavy で指定してください',
+      '目標の期間は週か月を選んでください',
+      'スコア計算の方法は weather か night-sky を指定してください',
+      '除外する天気は天気の種類の一覧で指定してください',
+    ]);
+    expect(items[0]?.action).toBe('skip');
+  });
+
+  it('should overwrite, rename or add hobbies as selected', async () => {
+    const items = await service.previewImport(
+      createFile([
+        { name: 'running', preferredWeather: [{ condition: 'clear', weight: 9 }] },
+        { name: 'Running', preferredWeather: [{ condition: 'snow', weight: 4 }] },
+        { name: '釣り', preferredWeather: [{ condition: 'clouds', weight: 7 }] },
+      ])
+    );
+
+    const result = await service.importHobbies([
+      { ...items[0]!, action: 'overwrite' },
+      { ...items[1]!, action: 'rename' },
+      items[2]!,
+    ]);
+    expect(result).toEqual({ created: 2, updated: 1, skipped: 0 });
+
+    const hobbies = await database.getAllHobbies();
+    const running = hobbies.find((hobby) => hobby.name === 'Running');
+    expect(running?.preferredWeather).toEqual([{ condition: 'clear', weight: 9 }]);
+    expect(running?.minTemperature).toBeUndefined();
+    expect(running?.isActive).toBe(false);
+    expect(hobbies.map((hobby) => hobby.name).sort()).toEqual(['Running', 'Running (3)', '釣り'].sort());
+    expect(hobbies.find((hobby) => hobby.name === '釣り')?.isActive).toBe(true);
+  });
+});
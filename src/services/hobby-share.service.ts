@@ -0,0 +1,114 @@
+import { DatabaseService, databaseService } from './database.service';
+import { TIME_OF_DAY_OPTIONS } from '../data/hobbySuggestions';
+import { t } from '../utils/i18n';
+import { validateHobby } from '../utils/hobby-validation';
+import { WEATHER_TYPES } from '../utils/weather-classification';
+import { SHARED_HOBBY_FIELD_NAMES } from '../utils/hobby-share';
+import type { Hobby } from '../types';
+import type {
+    HobbyImportItem,
+    HobbyImportResult,
+    HobbyShareFile,
+    SharedHobby,
+} from '../types/hobby-share';
+
+// 名前の重複は前後の空白と大文字・小文字を区別せずに判定する
+const normalizeName = (name: string): string => name.trim().toLowerCase();
+
+export class HobbyShareService {
+    private database: DatabaseService;
+
+    constructor(database?: DatabaseService) {
+        this.database = database ?? databaseService;
+    }
+
+    private validateSharedHobby(hobby: SharedHobby): string[] {
+        const errors = validateHobby(hobby);
+        const unknownWeather = hobby.preferredWeather?.find(
+            (condition) => !WEATHER_TYPES.includes(condition.condition)
+        );
+        if (unknownWeather) {
+            errors.push(t('hobbyShare.error.unknownWeather', { weather: unknownWeather.condition }));
+        }
+        const timesOfDay: string[] = TIME_OF_DAY_OPTIONS.map((option) => option.key);
+        const unknownTime = hobby.preferredTimeOfDay?.find((time) => !timesOfDay.includes(time));
+        if (unknownTime) {
+            errors.push(t('hobbyShare.error.unknownTimeOfDay', { time: unknownTime }));
+        }
+        return errors;
+    }
+
+    // 既存の名前と重ならない名前（「名前 (2)」のように番号を付ける）
+    private createUniqueName(name: string, usedNames: Set<string>): string {
+        let candidate = name;
+        for (let count = 2; usedNames.has(normalizeName(candidate)); count++) {
+            candidate = `${name} (${count})`;
+        }
+        usedNames.add(normalizeName(candidate));
+        return candidate;
+    }
+
+    /**
+     * 取り込み前の確認内容を作る（データは変更しない）
+     * 同じ名前の趣味がある場合は既定で取り込まない
+     */
+    async previewImport(file: HobbyShareFile): Promise<HobbyImportItem[]> {
+        const existing = await this.database.getAllHobbies();
+        const existingByName = new Map(existing.map((hobby) => [normalizeName(hobby.name), hobby]));
+        const usedNames = new Set(existingByName.keys());
+        const importedNames = new Set<string>();
+
+        return file.hobbies.map((hobby) => {
+            const key = normalizeName(hobby.name);
+            const conflict = existingByName.get(key);
+            const errors = this.validateSharedHobby(hobby);
+            // ファイル内で同じ名前が続く場合も2件目以降は重複として扱う
+            const duplicateInFile = importedNames.has(key);
+            importedNames.add(key);
+
+            return {
+                hobby,
+                ...(conflict && { conflict }),
+                duplicateInFile,
+                renamedName: this.createUniqueName(hobby.name.trim(), usedNames),
+                errors,
+                action: errors.length > 0 || conflict || duplicateInFile ? 'skip' : 'create',
+            };
+        });
+    }
+
+    // 確認画面で選んだ方法で趣味を登録する
+    async importHobbies(items: HobbyImportItem[]): Promise<HobbyImportResult> {
+        const result: HobbyImportResult = { created: 0, updated: 0, skipped: 0 };
+
+        for (const item of items) {
+            if (item.action === 'skip' || item.errors.length > 0) {
+                result.skipped++;
+                continue;
+            }
+
+            if (item.action === 'overwrite' && item.conflict?.id !== undefined) {
+                // 共有ファイルにない項目は消す（Dexieはundefinedの項目を削除する）
+                const changes: Record<string, unknown> = {
+                    ...Object.fromEntries(SHARED_HOBBY_FIELD_NAMES.map((field) => [field, undefined])),
+                    ...item.hobby,
+                    name: item.conflict.name,
+                };
+                await this.database.updateHobby(item.conflict.id, changes as Partial<Hobby>);
+                result.updated++;
+                continue;
+            }
+
+            await this.database.createHobby({
+                ...item.hobby,
+                name: item.action === 'rename' ? item.renamedName : item.hobby.name.trim(),
+                isActive: true,
+            });
+            result.created++;
+        }
+
+        return result;
+    }
+}
+
+export const hobbyShareService = new HobbyShareService();
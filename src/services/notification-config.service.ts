@@ -1,5 +1,6 @@
 import { db } from '../data/database';
 import { DatabaseService } from './database.service';
+import { t } from '../utils/i18n';
 import type {
     NotificationConfig,
     NotificationHistory,
@@ -158,7 +159,7 @@ export class NotificationConfigService {
         await this.createNotificationConfig({
             type: 'high-score',
             enabled: true,
-            title: '高スコア通知',
+            title: t('notificationConfig.highScore'),
             priority: 'medium',
             schedule: {
                 timeOfDay: [{ start: '09:00', end: '18:00' }],
@@ -176,7 +177,7 @@ export class NotificationConfigService {
         await this.createNotificationConfig({
             type: 'weather-alert',
             enabled: true,
-            title: '天気急変アラート',
+            title: t('notificationConfig.weatherAlert'),
             priority: 'high',
             schedule: {
                 timeOfDay: [{ start: '06:00', end: '22:00' }],
@@ -194,7 +195,7 @@ export class NotificationConfigService {
         await this.createNotificationConfig({
             type: 'regular-report',
             enabled: true,
-            title: '今日の趣味レポート',
+            title: t('notificationConfig.regularReport'),
             priority: 'low',
             schedule: {
                 timeOfDay: [{ start: '08:00', end: '08:30' }],
@@ -7,6 +7,7 @@ import type {
     NotificationConfig,
     NotificationPayload,
 } from '../types/notification';
+import { hasMessage, t } from '../utils/i18n';
 
 interface ScheduledTask {
     id: string;
@@ -199,6 +200,7 @@ export class NotificationSchedulerService {
                         title: task.payload.title,
                         message: task.payload.message,
                         sentAt: new Date(),
+                        ...(task.payload.data && { data: task.payload.data }),
                     });
                 }
             }
@@ -346,7 +348,7 @@ export class NotificationSchedulerService {
         let payload: NotificationPayload = {
             type: config.type,
             title: config.title,
-            message: '通知メッセージ',
+            message: t('scheduler.placeholderMessage'),
         };
 
         // タイプ別のペイロード生成
@@ -366,16 +368,20 @@ export class NotificationSchedulerService {
                         })
                     );
 
-                    // 現在の天気情報を取得してペイロードを作成
+                    // 最もスコアが高い場所の天気情報を取得してペイロードを作成
+                    const location = highScoreResult.recommendations[0]?.location;
                     try {
                         const weatherService = await import(
                             './weather.service'
                         );
-                        const forecast =
-                            await new weatherService.WeatherService().getWeatherForecast(
-                                35.6762,
-                                139.6503
-                            );
+                        const forecast = location
+                            ? await new weatherService.WeatherService().getWeatherForecast(
+                                  location.lat,
+                                  location.lon,
+                                  false,
+                                  location.weatherProvider
+                              )
+                            : null;
                         if (forecast) {
                             const weatherDescription =
                                 this.getWeatherDescription(
@@ -392,15 +398,16 @@ export class NotificationSchedulerService {
                                         score: r.score,
                                     })),
                                     weatherDescription,
-                                    temperature
+                                    temperature,
+                                    location?.name
                                 );
                         } else {
                             // フォールバック: 天気情報が取得できない場合
                             payload =
                                 this.notificationService.createHighScoreNotification(
-                                    recommendations[0]?.hobbyName ?? '趣味活動',
+                                    recommendations[0]?.hobbyName ?? t('common.hobbyActivity'),
                                     recommendations[0]?.score ?? 80,
-                                    '現在の天気'
+                                    t('scheduler.currentWeather')
                                 );
                         }
                     } catch (error) {
@@ -410,19 +417,19 @@ export class NotificationSchedulerService {
                         );
                         payload =
                             this.notificationService.createHighScoreNotification(
-                                '趣味活動',
+                                t('common.hobbyActivity'),
                                 85,
-                                '現在の天気条件'
+                                t('scheduler.currentConditions')
                             );
                     }
                 } else {
                     // 高スコアの趣味がない場合はダミーまたはスキップ
                     payload = {
                         type: 'high-score',
-                        title: '趣味チェック完了',
+                        title: t('scheduler.highScoreChecked'),
                         message:
                             highScoreResult.reason ||
-                            '現在、高スコアの趣味はありません',
+                            t('scheduler.noHighScore'),
                     };
                 }
                 break;
@@ -442,14 +449,15 @@ export class NotificationSchedulerService {
                             activeAlert.severity,
                             activeAlert.alertType,
                             activeAlert.message,
-                            activeAlert.details
+                            activeAlert.details,
+                            activeAlert.locationName
                         );
                 } else {
                     // アクティブなアラートがない場合はダミーまたはスキップ
                     payload = {
                         type: 'weather-alert',
-                        title: '天気監視中',
-                        message: '現在、注意すべき天気の変化はありません',
+                        title: t('scheduler.monitoring'),
+                        message: t('scheduler.noAlerts'),
                     };
                 }
                 break;
@@ -477,16 +485,17 @@ export class NotificationSchedulerService {
                             content.summary,
                             topHobbies,
                             content.weatherSummary,
-                            content.actionItems
+                            content.actionItems,
+                            content.locationName
                         );
                 } else {
                     // レポート生成失敗時のフォールバック
                     payload = {
                         type: 'regular-report',
-                        title: '📊 趣味レポート',
+                        title: t('scheduler.reportTitle'),
                         message:
                             reportResult.reason ||
-                            'レポートを生成できませんでした',
+                            t('scheduler.reportFailed'),
                     };
                 }
                 break;
@@ -496,22 +505,10 @@ export class NotificationSchedulerService {
         return payload;
     }
 
-    // 天気タイプの日本語説明を取得
+    // 天気タイプの説明を取得（未知のタイプはそのまま表示）
     private getWeatherDescription(weatherType: string): string {
-        const descriptions: Record<string, string> = {
-            clear: '晴れ',
-            clouds: '曇り',
-            rain: '雨',
-            drizzle: '小雨',
-            thunderstorm: '雷雨',
-            snow: '雪',
-            mist: '霧',
-            fog: '濃霧',
-            haze: 'もや',
-            dust: '砂埃',
-        };
-
-        return descriptions[weatherType] || weatherType;
+        const key = `weather.type.${weatherType}`;
+        return hasMessage(key) ? t(key) : weatherType;
     }
 
     // 定期チェックの開始
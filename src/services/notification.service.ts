@@ -3,6 +3,8 @@ import type {
   NotificationPayload, 
   NotificationPermissionState
 } from '../types/notification';
+import { formatTemperature } from '../utils/units';
+import { t } from '../utils/i18n';
 
 export class NotificationService {
   private static instance: NotificationService;
@@ -109,8 +111,8 @@ export class NotificationService {
   createHighScoreNotification(hobbyName: string, score: number, weatherDescription: string): NotificationPayload {
     return {
       type: 'high-score',
-      title: `🌟 ${hobbyName}の高スコア！`,
-      message: `スコア${score}点！${weatherDescription}で活動に最適です。`,
+      title: t('notify.highScore.title', { hobby: hobbyName }),
+      message: t('notify.highScore.message', { score, weather: weatherDescription }),
       data: {
         score,
         hobbyName
@@ -122,19 +124,27 @@ export class NotificationService {
   createDetailedHighScoreNotification(
     recommendations: Array<{name: string; score: number}>,
     weatherDescription: string,
-    temperature: number
+    temperature: number,
+    locationName?: string
   ): NotificationPayload {
     const topRecommendation = recommendations[0];
+    const locationPrefix = locationName ? t('notify.locationPrefix', { location: locationName }) : '';
     
     if (recommendations.length === 1) {
       return {
         type: 'high-score',
-        title: `🌟 ${topRecommendation?.name ?? '趣味活動'}が最適！`,
-        message: `${weatherDescription}で気温${temperature}°C。スコア${Math.round(topRecommendation?.score ?? 0)}点の高評価です！`,
+        title: t('notify.detailedHighScore.single.title', { hobby: topRecommendation?.name ?? t('common.hobbyActivity') }),
+        message: t('notify.highScore.single.message', {
+          prefix: locationPrefix,
+          weather: weatherDescription,
+          temperature: formatTemperature(temperature),
+          score: Math.round(topRecommendation?.score ?? 0)
+        }),
         data: {
           recommendations,
           weatherDescription,
-          temperature
+          temperature,
+          ...(locationName && { locationName })
         }
       };
     }
@@ -142,16 +152,23 @@ export class NotificationService {
     const hobbyNames = recommendations
       .slice(0, 3)
       .map(rec => rec.name)
-      .join('、');
+      .join(t('common.listSeparator'));
 
     return {
       type: 'high-score',
-      title: `⭐ ${recommendations.length}つの趣味が最適です！`,
-      message: `${weatherDescription}で気温${temperature}°C。${hobbyNames}などがおすすめです。最高スコア: ${Math.round(topRecommendation?.score ?? 0)}点`,
+      title: t('notify.detailedHighScore.multiple.title', { count: recommendations.length }),
+      message: t('notify.highScore.multiple.message', {
+        prefix: locationPrefix,
+        weather: weatherDescription,
+        temperature: formatTemperature(temperature),
+        hobbies: hobbyNames,
+        score: Math.round(topRecommendation?.score ?? 0)
+      }),
       data: {
         recommendations,
         weatherDescription,
-        temperature
+        temperature,
+        ...(locationName && { locationName })
       }
     };
   }
@@ -166,7 +183,7 @@ export class NotificationService {
 
     return {
       type: 'weather-alert',
-      title: `${icons[alertType as keyof typeof icons] || '⚠️'} 天気急変アラート`,
+      title: t('notify.weatherAlert.title', { icon: icons[alertType as keyof typeof icons] || '⚠️' }),
       message,
       data: {
         alertType
@@ -179,7 +196,8 @@ export class NotificationService {
     severity: 'low' | 'medium' | 'high' | 'urgent',
     alertType: string,
     message: string,
-    details?: Record<string, unknown>
+    details?: Record<string, unknown>,
+    locationName?: string
   ): NotificationPayload {
     const severityIcons = {
       low: '🌤️',
@@ -188,22 +206,16 @@ export class NotificationService {
       urgent: '⛈️'
     };
 
-    const severityTitles = {
-      low: '天気情報',
-      medium: '天気注意報',
-      high: '天気警報',
-      urgent: '天気急変警報'
-    };
-
     return {
       type: 'weather-alert',
-      title: `${severityIcons[severity]} ${severityTitles[severity]}`,
-      message,
+      title: `${severityIcons[severity]} ${t(`notify.severity.${severity}`)}`,
+      message: locationName ? `${t('notify.locationPrefix', { location: locationName })}${message}` : message,
       icon: severityIcons[severity],
       data: {
         alertType,
         severity,
         details,
+        ...(locationName && { locationName }),
         timestamp: new Date().toISOString()
       }
     };
@@ -212,7 +224,7 @@ export class NotificationService {
   createRegularReportNotification(summary: string): NotificationPayload {
     return {
       type: 'regular-report',
-      title: '📊 今日の趣味レポート',
+      title: t('notify.report.title'),
       message: summary,
       data: {}
     };
@@ -223,7 +235,8 @@ export class NotificationService {
     summary: string,
     topHobbies: Array<{name: string; score: number}>,
     weatherSummary: string,
-    actionItems: string[]
+    actionItems: string[],
+    locationName?: string
   ): NotificationPayload {
     const shortSummary = summary.length > 80 
       ? summary.substring(0, 77) + '...'
@@ -231,7 +244,7 @@ export class NotificationService {
 
     return {
       type: 'regular-report',
-      title: '📊 今日の趣味レポート',
+      title: locationName ? t('report.title', { location: locationName }) : t('notify.report.title'),
       message: shortSummary,
       icon: '📊',
       data: {
@@ -239,6 +252,7 @@ export class NotificationService {
         topHobbies: topHobbies.slice(0, 3),
         weatherSummary,
         actionItems,
+        ...(locationName && { locationName }),
         timestamp: new Date().toISOString()
       }
     };
@@ -257,8 +271,8 @@ export class NotificationService {
   async sendTestNotification(): Promise<boolean> {
     const testPayload: NotificationPayload = {
       type: 'regular-report',
-      title: '🧪 テスト通知',
-      message: '通知機能が正常に動作しています。'
+      title: t('notify.test.title'),
+      message: t('notify.test.message')
     };
 
     return await this.sendNotification(testPayload);
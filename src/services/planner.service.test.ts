@@ -0,0 +1,211 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { PlannerService, EMPTY_PLAN_EDITS, getPlanDateKey } from './planner.service';
+import type { HobbyRecommendation, RecommendedDay } from './recommendation.service';
+import type { DailyForecast, Hobby, SafetyIndices } from '../types';
+
+// 2024-01-20（土）から7日間
+const dates = Array.from({ length: 7 }, (_, index) => new Date(2024, 0, 20 + index));
+const saturday = '2024-01-20';
+const sunday = '2024-01-21';
+
+const createHobby = (id: number, name: string, weeklyFrequency?: number): Hobby => ({
+  id,
+  name,
+  isActive: true,
+  createdAt: new Date(),
+  ...(weeklyFrequency !== undefined && { weeklyFrequency })
+});
+
+const createDay = (date: Date, score: number, isPossible = true): RecommendedDay => ({
+  date,
+  score,
+  confidence: 1,
+  adjustedScore: score,
+  matchingFactors: [],
+  warningFactors: [],
+  forecast: {} as DailyForecast,
+  isPossible,
+  breakdown: [],
+  safety: {} as SafetyIndices
+});
+
+// 日ごとのスコア（日付順）からおすすめを作る
+const createRecommendation = (hobby: Hobby, scores: number[]): HobbyRecommendation => ({
+  hobby,
+  recommendedDays: scores.map((score, index) => createDay(dates[index] as Date, score)),
+  overallScore: Math.max(...scores),
+  bestDayIndex: 0
+});
+
+const assignedHobbies = (service: PlannerService, recommendations: HobbyRecommendation[], date: string, edits = EMPTY_PLAN_EDITS) =>
+  service
+    .createWeeklyPlan(recommendations, { edits })
+    .days.find(day => day.key === date)
+    ?.assignments.map(assignment => assignment.hobby.name);
+
+describe('PlannerService', () => {
+  let service: PlannerService;
+
+  const hiking = createHobby(1, 'ハイキング');
+  const cycling = createHobby(2, 'サイクリング');
+  const fishing = createHobby(3, '釣り');
+
+  beforeEach(() => {
+    service = new PlannerService();
+    vi.clearAllMocks();
+  });
+
+  describe('createWeeklyPlan', () => {
+    it('should spread hobbies over days instead of stacking them on the best day', () => {
+      const recommendations = [
+        createRecommendation(hiking, [95, 70, 50, 50, 50, 50, 50]),
+        createRecommendation(cycling, [90, 85, 50, 50, 50, 50, 50]),
+        createRecommendation(fishing, [88, 60, 80, 50, 50, 50, 50])
+      ];
+
+      const plan = service.createWeeklyPlan(recommendations);
+
+      expect(plan.days).toHaveLength(7);
+      expect(plan.days.every(day => day.assignments.length <= 1)).toBe(true);
+      expect(plan.days[0]?.assignments.map(a => a.hobby.name)).toEqual(['ハイキング']);
+      expect(plan.days[1]?.assignments.map(a => a.hobby.name)).toEqual(['サイクリング']);
+      expect(plan.days[2]?.assignments.map(a => a.hobby.name)).toEqual(['釣り']);
+      expect(plan.totalScore).toBe(95 + 85 + 80);
+      expect(plan.unassigned).toEqual([]);
+    });
+
+    it('should maximize the total score rather than picking greedily', () => {
+      // 貪欲にハイキングを土曜にすると合計は 100 + 60 = 160、最適は 90 + 95 = 185
+      const recommendations = [
+        createRecommendation(hiking, [100, 90]),
+        createRecommendation(cycling, [95, 60])
+      ];
+
+      const plan = service.createWeeklyPlan(recommendations);
+
+      expect(plan.totalScore).toBe(185);
+      expect(assignedHobbies(service, recommendations, saturday)).toEqual(['サイクリング']);
+      expect(assignedHobbies(service, recommendations, sunday)).toEqual(['ハイキング']);
+    });
+
+    it('should assign a hobby as many times as its weekly frequency', () => {
+      const twiceAWeek = createHobby(1, 'ハイキング', 2);
+      const plan = service.createWeeklyPlan(
+        [createRecommendation(twiceAWeek, [90, 80, 70])],
+        { defaultCapacity: 2 }
+      );
+
+      const assigned = plan.days.filter(day => day.assignments.length > 0).map(day => day.key);
+      expect(assigned).toEqual([saturday, sunday]);
+    });
+
+    it('should use day capacities', () => {
+      const recommendations = [
+        createRecommendation(hiking, [95, 50]),
+        createRecommendation(cycling, [90, 50])
+      ];
+
+      const plan = service.createWeeklyPlan(recommendations, {
+        edits: { ...EMPTY_PLAN_EDITS, capacities: { [saturday]: 2, [sunday]: 0 } }
+      });
+
+      expect(plan.days[0]?.assignments).toHaveLength(2);
+      expect(plan.days[1]?.assignments).toHaveLength(0);
+    });
+
+    it('should not assign impossible or low scoring days', () => {
+      const recommendation = createRecommendation(hiking, [30, 80]);
+      recommendation.recommendedDays[1] = createDay(dates[1] as Date, 0, false);
+
+      const plan = service.createWeeklyPlan([recommendation]);
+
+      expect(plan.days.every(day => day.assignments.length === 0)).toBe(true);
+      expect(plan.unassigned).toEqual([{ hobby: hiking, missing: 1 }]);
+    });
+
+    it('should only plan the first seven days', () => {
+      const longForecast: HobbyRecommendation = {
+        ...createRecommendation(hiking, [60]),
+        recommendedDays: Array.from({ length: 10 }, (_, index) => createDay(new Date(2024, 0, 20 + index), 60))
+      };
+
+      expect(service.createWeeklyPlan([longForecast]).days).toHaveLength(7);
+    });
+
+    it('should list the other hobbies as alternatives', () => {
+      const plan = service.createWeeklyPlan([
+        createRecommendation(hiking, [95]),
+        createRecommendation(cycling, [40])
+      ]);
+
+      expect(plan.days[0]?.alternatives.map(alternative => alternative.hobby.name)).toEqual(['サイクリング']);
+    });
+  });
+
+  describe('edits', () => {
+    const recommendations = [
+      createRecommendation(hiking, [95, 70, 60]),
+      createRecommendation(cycling, [90, 85, 55])
+    ];
+
+    it('should keep a moved assignment and re-plan the others', () => {
+      const edits = service.moveAssignment(EMPTY_PLAN_EDITS, 1, saturday, sunday);
+
+      expect(assignedHobbies(service, recommendations, sunday, edits)).toEqual(['ハイキング']);
+      expect(assignedHobbies(service, recommendations, saturday, edits)).toEqual(['サイクリング']);
+    });
+
+    it('should not assign a removed hobby to the same day again', () => {
+      const edits = service.removeAssignment(EMPTY_PLAN_EDITS, 1, saturday);
+      const plan = service.createWeeklyPlan(recommendations, { edits });
+
+      expect(plan.days[0]?.assignments.map(a => a.hobby.name)).toEqual(['サイクリング']);
+      expect(plan.days.find(day => day.assignments.some(a => a.hobby.id === 1))?.key).not.toBe(saturday);
+    });
+
+    it('should allow adding a hobby beyond the automatic plan', () => {
+      const edits = service.addAssignment(EMPTY_PLAN_EDITS, 2, saturday);
+      const assigned = service.createWeeklyPlan(recommendations, { edits }).days[0]?.assignments;
+
+      expect(assigned?.find(a => a.hobby.id === 2)?.pinned).toBe(true);
+    });
+
+    it('should clear an exclusion when the hobby is added back', () => {
+      const removed = service.removeAssignment(EMPTY_PLAN_EDITS, 1, saturday);
+      const edits = service.addAssignment(removed, 1, saturday);
+
+      expect(edits.excluded).toEqual([]);
+      expect(edits.pinned).toEqual([{ hobbyId: 1, date: saturday }]);
+    });
+  });
+
+  describe('loadPlanEdits', () => {
+    it('should drop edits for past days', () => {
+      vi.mocked(localStorage.getItem).mockReturnValue(JSON.stringify({
+        capacities: { '2024-01-19': 2, [saturday]: 3 },
+        pinned: [{ hobbyId: 1, date: '2024-01-19' }, { hobbyId: 1, date: sunday }],
+        excluded: [{ hobbyId: 2, date: '2024-01-18' }]
+      }));
+
+      const edits = service.loadPlanEdits(new Date(2024, 0, 20, 9));
+
+      expect(edits).toEqual({
+        capacities: { [saturday]: 3 },
+        pinned: [{ hobbyId: 1, date: sunday }],
+        excluded: []
+      });
+    });
+
+    it('should fall back to no edits for broken data', () => {
+      vi.mocked(localStorage.getItem).mockReturnValue('{broken');
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(service.loadPlanEdits()).toEqual(EMPTY_PLAN_EDITS);
+      warn.mockRestore();
+    });
+  });
+
+  it('should format date keys in local time', () => {
+    expect(getPlanDateKey(new Date(2024, 0, 5, 23, 30))).toBe('2024-01-05');
+  });
+});
@@ -0,0 +1,337 @@
+import type { Hobby } from '../types';
+import type { HobbyRecommendation, RecommendedDay } from './recommendation.service';
+
+// 計画する日数（予報期間がこれより短い場合は予報期間まで）
+export const PLAN_DAYS = 7;
+
+// 趣味ごとの週の回数の初期値
+export const DEFAULT_WEEKLY_FREQUENCY = 1;
+
+// 1日に割り当てる趣味の数の初期値
+export const DEFAULT_DAY_CAPACITY = 1;
+
+// 自動で割り当てる最小スコア
+export const PLAN_MIN_SCORE = 50;
+
+const PLAN_EDITS_STORAGE_KEY = 'hobby-weather-weekly-plan';
+
+// 計画の1件（趣味と日付、日付はYYYY-MM-DD）
+export interface PlanEntry {
+  hobbyId: number;
+  date: string;
+}
+
+// 計画の手動の変更
+export interface WeeklyPlanEdits {
+  capacities: Record<string, number>; // 日ごとに割り当てる趣味の数
+  pinned: PlanEntry[]; // 手動で追加・移動した割り当て（自動の割り当てより優先）
+  excluded: PlanEntry[]; // 手動で外した割り当て（自動ではその日に割り当てない）
+}
+
+// 1日に割り当てた趣味
+export interface PlanAssignment {
+  hobby: Hobby;
+  day: RecommendedDay; // その日のおすすめ（スコア・天気）
+  pinned: boolean; // 手動で追加・移動したか
+}
+
+// 計画の1日
+export interface PlanDay {
+  date: Date;
+  key: string; // YYYY-MM-DD
+  capacity: number; // 割り当てる趣味の数
+  assignments: PlanAssignment[]; // スコア順
+  alternatives: Array<{ hobby: Hobby; day: RecommendedDay }>; // 追加できる趣味（スコア順）
+}
+
+// 回数分を割り当てられなかった趣味
+export interface UnassignedHobby {
+  hobby: Hobby;
+  missing: number; // 足りない回数
+}
+
+export interface WeeklyPlan {
+  days: PlanDay[];
+  totalScore: number; // 割り当てたおすすめのスコアの合計
+  unassigned: UnassignedHobby[];
+}
+
+export interface WeeklyPlanOptions {
+  edits?: WeeklyPlanEdits;
+  defaultCapacity?: number; // 日ごとの数が未設定の日に割り当てる趣味の数（デフォルト: 1）
+  minScore?: number; // 自動で割り当てる最小スコア（デフォルト: 50）
+}
+
+// 最小費用流の辺（逆辺の位置をrevに持つ）
+interface FlowEdge {
+  to: number;
+  capacity: number;
+  cost: number;
+  rev: number;
+}
+
+export const EMPTY_PLAN_EDITS: WeeklyPlanEdits = { capacities: {}, pinned: [], excluded: [] };
+
+export const getPlanDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const isSameEntry = (a: PlanEntry, b: PlanEntry): boolean =>
+  a.hobbyId === b.hobbyId && a.date === b.date;
+
+const withoutEntry = (entries: PlanEntry[], entry: PlanEntry): PlanEntry[] =>
+  entries.filter((current) => !isSameEntry(current, entry));
+
+export class PlannerService {
+  /**
+   * おすすめから週間の計画を作る
+   *
+   * 趣味ごとの週の回数（需要）と日ごとに割り当てる数（容量）の制約の下で、
+   * 割り当てたおすすめのスコアの合計が最大になるように趣味を日に割り当てる。
+   * 同じ趣味は1日に1回まで、活動不可の日や最小スコア未満の日には自動で割り当てない。
+   * 手動で追加・移動した割り当ては先に確定し、残りの回数と容量で最適化する。
+   *
+   * 例: 土曜に3つの趣味が高スコアでも、容量が1なら1つは土曜、残りは日曜などに分ける
+   */
+  createWeeklyPlan(
+    recommendations: HobbyRecommendation[],
+    options: WeeklyPlanOptions = {}
+  ): WeeklyPlan {
+    const {
+      edits = EMPTY_PLAN_EDITS,
+      defaultCapacity = DEFAULT_DAY_CAPACITY,
+      minScore = PLAN_MIN_SCORE
+    } = options;
+    const targets = recommendations.filter((recommendation) => recommendation.hobby.id !== undefined);
+
+    // 予報のある日を日付順に並べ、計画する日数分だけ使う
+    const dates = new Map<string, Date>();
+    for (const recommendation of targets) {
+      for (const day of recommendation.recommendedDays) {
+        dates.set(getPlanDateKey(day.date), day.date);
+      }
+    }
+    const days: PlanDay[] = [...dates.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .slice(0, PLAN_DAYS)
+      .map(([key, date]) => ({
+        date,
+        key,
+        capacity: edits.capacities[key] ?? defaultCapacity,
+        assignments: [],
+        alternatives: []
+      }));
+
+    const findDay = (recommendation: HobbyRecommendation, key: string): RecommendedDay | undefined =>
+      recommendation.recommendedDays.find((day) => getPlanDateKey(day.date) === key);
+
+    // 手動の割り当てを先に確定
+    for (const entry of edits.pinned) {
+      const recommendation = targets.find((target) => target.hobby.id === entry.hobbyId);
+      const planDay = days.find((day) => day.key === entry.date);
+      const day = recommendation && findDay(recommendation, entry.date);
+      if (!recommendation || !planDay || !day) continue;
+      if (planDay.assignments.some((assignment) => assignment.hobby.id === entry.hobbyId)) continue;
+      planDay.assignments.push({ hobby: recommendation.hobby, day, pinned: true });
+    }
+
+    // 残りの回数と容量で自動の割り当てを最適化
+    const demands = targets.map((recommendation) => {
+      const pinnedCount = days.filter((day) =>
+        day.assignments.some((assignment) => assignment.hobby.id === recommendation.hobby.id)
+      ).length;
+      const frequency = Math.min(recommendation.hobby.weeklyFrequency ?? DEFAULT_WEEKLY_FREQUENCY, days.length);
+      return Math.max(0, frequency - pinnedCount);
+    });
+    const capacities = days.map((day) => Math.max(0, day.capacity - day.assignments.length));
+    const scores = targets.map((recommendation) =>
+      days.map((planDay) => {
+        const day = findDay(recommendation, planDay.key);
+        const entry = { hobbyId: recommendation.hobby.id as number, date: planDay.key };
+        const isAvailable = day !== undefined && day.isPossible && day.score >= minScore &&
+          !edits.excluded.some((excluded) => isSameEntry(excluded, entry)) &&
+          !planDay.assignments.some((assignment) => assignment.hobby.id === entry.hobbyId);
+        return isAvailable ? day.score : null;
+      })
+    );
+
+    for (const [hobbyIndex, dayIndex] of this.solveAssignment(demands, capacities, scores)) {
+      const recommendation = targets[hobbyIndex];
+      const planDay = days[dayIndex];
+      const day = recommendation && planDay && findDay(recommendation, planDay.key);
+      if (recommendation && planDay && day) {
+        planDay.assignments.push({ hobby: recommendation.hobby, day, pinned: false });
+      }
+    }
+
+    for (const planDay of days) {
+      planDay.assignments.sort((a, b) => b.day.score - a.day.score);
+      planDay.alternatives = targets
+        .filter((recommendation) =>
+          !planDay.assignments.some((assignment) => assignment.hobby.id === recommendation.hobby.id)
+        )
+        .flatMap((recommendation) => {
+          const day = findDay(recommendation, planDay.key);
+          return day ? [{ hobby: recommendation.hobby, day }] : [];
+        })
+        .sort((a, b) => b.day.score - a.day.score);
+    }
+
+    const assignedCounts = new Map<number, number>();
+    for (const assignment of days.flatMap((day) => day.assignments)) {
+      const id = assignment.hobby.id as number;
+      assignedCounts.set(id, (assignedCounts.get(id) ?? 0) + 1);
+    }
+
+    return {
+      days,
+      totalScore: days
+        .flatMap((day) => day.assignments)
+        .reduce((sum, assignment) => sum + assignment.day.score, 0),
+      unassigned: targets.flatMap((recommendation) => {
+        const frequency = Math.min(recommendation.hobby.weeklyFrequency ?? DEFAULT_WEEKLY_FREQUENCY, days.length);
+        const missing = frequency - (assignedCounts.get(recommendation.hobby.id as number) ?? 0);
+        return missing > 0 ? [{ hobby: recommendation.hobby, missing }] : [];
+      })
+    };
+  }
+
+  /**
+   * 割り当て問題を最小費用流で解く
+   *
+   * 始点→趣味（容量: 残りの回数）→日（容量1、費用: -スコア）→終点（容量: 残りの数）のグラフで、
+   * 費用が減る（スコアの合計が増える）限り最短路に沿って流す。
+   * 戻り値は割り当てた（趣味の位置, 日の位置）の組
+   */
+  private solveAssignment(
+    demands: number[],
+    capacities: number[],
+    scores: Array<Array<number | null>>
+  ): Array<[number, number]> {
+    const source = 0;
+    const hobbyNode = (index: number) => 1 + index;
+    const dayNode = (index: number) => 1 + demands.length + index;
+    const sink = 1 + demands.length + capacities.length;
+    const graph: FlowEdge[][] = Array.from({ length: sink + 1 }, () => []);
+
+    const addEdge = (from: number, to: number, capacity: number, cost: number) => {
+      graph[from]?.push({ to, capacity, cost, rev: graph[to]?.length ?? 0 });
+      graph[to]?.push({ to: from, capacity: 0, cost: -cost, rev: (graph[from]?.length ?? 1) - 1 });
+    };
+
+    demands.forEach((demand, index) => addEdge(source, hobbyNode(index), demand, 0));
+    capacities.forEach((capacity, index) => addEdge(dayNode(index), sink, capacity, 0));
+    scores.forEach((row, hobbyIndex) => {
+      row.forEach((score, dayIndex) => {
+        if (score !== null) addEdge(hobbyNode(hobbyIndex), dayNode(dayIndex), 1, -score);
+      });
+    });
+
+    // 負の費用の辺があるためBellman-Ford法で最短路を探す
+    for (;;) {
+      const distances: number[] = new Array<number>(graph.length).fill(Infinity);
+      const previous: Array<{ node: number; edge: number } | null> = new Array(graph.length).fill(null);
+      distances[source] = 0;
+
+      for (let updated = true, round = 0; updated && round < graph.length; round++) {
+        updated = false;
+        graph.forEach((edges, node) => {
+          const distance = distances[node] ?? Infinity;
+          if (distance === Infinity) return;
+          edges.forEach((edge, edgeIndex) => {
+            if (edge.capacity > 0 && distance + edge.cost < (distances[edge.to] ?? Infinity) - 1e-9) {
+              distances[edge.to] = distance + edge.cost;
+              previous[edge.to] = { node, edge: edgeIndex };
+              updated = true;
+            }
+          });
+        });
+      }
+
+      // スコアの合計が増えない場合は終了
+      if ((distances[sink] ?? Infinity) >= -1e-9) break;
+
+      for (let node = sink; node !== source;) {
+        const step = previous[node];
+        const edge = step && graph[step.node]?.[step.edge];
+        if (!step || !edge) break;
+        edge.capacity -= 1;
+        const reverse = graph[node]?.[edge.rev];
+        if (reverse) reverse.capacity += 1;
+        node = step.node;
+      }
+    }
+
+    const assignments: Array<[number, number]> = [];
+    demands.forEach((_, hobbyIndex) => {
+      for (const edge of graph[hobbyNode(hobbyIndex)] ?? []) {
+        const dayIndex = edge.to - dayNode(0);
+        // 流した辺は容量が0になる
+        if (dayIndex >= 0 && dayIndex < capacities.length && edge.capacity === 0 && edge.cost < 0) {
+          assignments.push([hobbyIndex, dayIndex]);
+        }
+      }
+    });
+    return assignments;
+  }
+
+  // 割り当てを別の日に移す
+  moveAssignment(edits: WeeklyPlanEdits, hobbyId: number, from: string, to: string): WeeklyPlanEdits {
+    return this.addAssignment(this.removeAssignment(edits, hobbyId, from), hobbyId, to);
+  }
+
+  // 割り当てを外す（自動でもその日には割り当てない）
+  removeAssignment(edits: WeeklyPlanEdits, hobbyId: number, date: string): WeeklyPlanEdits {
+    const entry = { hobbyId, date };
+    return {
+      ...edits,
+      pinned: withoutEntry(edits.pinned, entry),
+      excluded: [...withoutEntry(edits.excluded, entry), entry]
+    };
+  }
+
+  // 趣味を日に追加する
+  addAssignment(edits: WeeklyPlanEdits, hobbyId: number, date: string): WeeklyPlanEdits {
+    const entry = { hobbyId, date };
+    return {
+      ...edits,
+      pinned: [...withoutEntry(edits.pinned, entry), entry],
+      excluded: withoutEntry(edits.excluded, entry)
+    };
+  }
+
+  setDayCapacity(edits: WeeklyPlanEdits, date: string, capacity: number): WeeklyPlanEdits {
+    return { ...edits, capacities: { ...edits.capacities, [date]: capacity } };
+  }
+
+  // 保存した手動の変更を読み込む（過ぎた日の変更は捨てる）
+  loadPlanEdits(now: Date = new Date()): WeeklyPlanEdits {
+    try {
+      const stored = localStorage.getItem(PLAN_EDITS_STORAGE_KEY);
+      if (!stored) return EMPTY_PLAN_EDITS;
+
+      const parsed = JSON.parse(stored) as Partial<WeeklyPlanEdits>;
+      const today = getPlanDateKey(now);
+      const isUpcoming = (entry: PlanEntry) => entry.date >= today;
+      return {
+        capacities: Object.fromEntries(
+          Object.entries(parsed.capacities ?? {}).filter(([date]) => date >= today)
+        ),
+        pinned: (parsed.pinned ?? []).filter(isUpcoming),
+        excluded: (parsed.excluded ?? []).filter(isUpcoming)
+      };
+    } catch (error) {
+      console.warn('週間プランの読み込みに失敗しました:', error);
+      return EMPTY_PLAN_EDITS;
+    }
+  }
+
+  savePlanEdits(edits: WeeklyPlanEdits): void {
+    try {
+      localStorage.setItem(PLAN_EDITS_STORAGE_KEY, JSON.stringify(edits));
+    } catch (error) {
+      console.warn('週間プランの保存に失敗しました:', error);
+    }
+  }
+}
+
+export const plannerService = new PlannerService();
@@ -1,6 +1,8 @@
 import { describe, it, expect } from 'vitest';
-import { recommendationService } from './recommendation.service';
-import type { Hobby, WeatherForecast, DailyForecast } from '../types';
+import { recommendationService, type HobbyRecommendation, type RecommendedDay, type RecommendedWindow } from './recommendation.service';
+import { createScoringProfile } from '../data/scoringProfiles';
+import type { GoalProgress } from '../utils/goals';
+import type { Hobby, WeatherForecast, DailyForecast, HourlyForecast, Location, BusyInterval, DaylightTimes, NightSky, WeatherType } from '../types';
 
 describe('RecommendationService', () => {
   const mockHobbies: Hobby[] = [
@@ -183,11 +185,13 @@ describe('RecommendationService', () => {
       expect(hikingBestDay?.date.toDateString()).toBe(firstForecast?.date.toDateString());
       expect(hikingBestDay?.score).toBeGreaterThan(70);
 
-      // ビーチバレーは3日目（高温・晴れ）で高スコアになるはず
-      const beachBestDay = beachVolleyRec?.recommendedDays[0];
-      expect(beachBestDay).toBeDefined();
+      // ビーチバレーの好む3日目（高温・晴れ）は暑さ指数が「危険」のため活動不可になるはず
       const thirdForecast = mockForecasts[2];
-      expect(beachBestDay?.date.toDateString()).toBe(thirdForecast?.date.toDateString());
+      const hotDay = beachVolleyRec?.recommendedDays.find(
+        day => day.date.toDateString() === thirdForecast?.date.toDateString()
+      );
+      expect(hotDay?.isPossible).toBe(false);
+      expect(hotDay?.warningFactors[0]).toContain('暑さ指数（WBGT）');
     });
 
     it('should handle indoor activities appropriately', async () => {
@@ -420,4 +424,938 @@ describe('RecommendationService', () => {
       });
     });
   });
+
+  describe('hourly recommendations', () => {
+    const createHourly = (hour: number, overrides: Partial<HourlyForecast> = {}): HourlyForecast => ({
+      datetime: new Date(2024, 0, 20, hour),
+      temperature: 20,
+      feelsLike: 20,
+      humidity: 55,
+      pressure: 1015,
+      windSpeed: 2,
+      windDirection: 90,
+      weatherType: 'clear',
+      weatherDescription: '晴れ',
+      cloudiness: 5,
+      uvIndex: 3,
+      pop: 0,
+      ...overrides
+    });
+
+    const hourlyForecast: WeatherForecast = {
+      ...mockWeatherForecast,
+      hourly: [
+        createHourly(0, { temperature: 5, weatherType: 'rain', weatherDescription: '雨', pop: 0.7 }),
+        createHourly(3, { temperature: 5, weatherType: 'rain', weatherDescription: '雨', pop: 0.7 }),
+        createHourly(6),
+        createHourly(9),
+        createHourly(12, { weatherType: 'rain', weatherDescription: '雨', pop: 0.9, windSpeed: 9 }),
+        createHourly(15),
+        createHourly(18),
+        createHourly(21, { temperature: 5, weatherType: 'rain', weatherDescription: '雨', pop: 0.7 })
+      ]
+    };
+
+    const hiking = mockHobbies[0]!;
+
+    it('should merge consecutive good slots into a window', async () => {
+      const recs = await recommendationService.generateHourlyRecommendations(
+        [{ ...hiking, preferredTimeOfDay: ['morning'] }],
+        hourlyForecast
+      );
+
+      expect(recs).toHaveLength(1);
+      expect(recs[0]?.windows).toHaveLength(1);
+      const window = recs[0]?.windows[0];
+      expect(window?.timeOfDay).toBe('morning');
+      expect(window?.start.getHours()).toBe(6);
+      expect(window?.end.getHours()).toBe(12);
+      expect(window?.slots).toHaveLength(2);
+      expect(window?.score).toBeGreaterThanOrEqual(60);
+    });
+
+    it('should split windows at low-scoring slots and respect the limit', async () => {
+      const recs = await recommendationService.generateHourlyRecommendations(
+        [hiking],
+        hourlyForecast,
+        { limit: 2 }
+      );
+
+      const windows = recs[0]?.windows ?? [];
+      expect(windows).toHaveLength(2);
+      windows.forEach(window => {
+        expect(window.slots.some(slot => slot.weatherType === 'rain')).toBe(false);
+      });
+      expect(windows[0]?.score).toBeGreaterThanOrEqual(windows[1]?.score ?? 0);
+    });
+
+    it('should skip hobbies without qualifying windows', async () => {
+      const recs = await recommendationService.generateHourlyRecommendations(
+        [{ ...hiking, preferredTimeOfDay: ['night'] }],
+        hourlyForecast
+      );
+
+      expect(recs).toHaveLength(0);
+    });
+
+    it('should return empty list when forecast has no hourly data', async () => {
+      const recs = await recommendationService.generateHourlyRecommendations(
+        mockHobbies,
+        mockWeatherForecast
+      );
+
+      expect(recs).toEqual([]);
+    });
+  });
+
+  describe('activity duration', () => {
+    const day = new Date(2024, 0, 20);
+    const createSlot = (hour: number, overrides: Partial<HourlyForecast> = {}): HourlyForecast => ({
+      datetime: new Date(2024, 0, 20, hour),
+      temperature: 20,
+      feelsLike: 20,
+      humidity: 55,
+      pressure: 1015,
+      windSpeed: 2,
+      windDirection: 90,
+      weatherType: 'clear',
+      weatherDescription: '晴れ',
+      cloudiness: 5,
+      uvIndex: 3,
+      pop: 0,
+      ...overrides
+    });
+
+    const durationForecast: WeatherForecast = {
+      ...mockWeatherForecast,
+      forecasts: [{ ...mockForecasts[0]!, date: day }],
+      hourly: [
+        createSlot(6),
+        createSlot(9, { temperature: 28 }),
+        createSlot(12, { weatherType: 'rain', weatherDescription: '雨', pop: 0.9, windSpeed: 9 }),
+        createSlot(15),
+        createSlot(18)
+      ]
+    };
+
+    const hiking = mockHobbies[0]!;
+
+    it('should find the best contiguous window and report its worst slot', async () => {
+      const recs = await recommendationService.generateRecommendations(
+        [{ ...hiking, durationMinutes: 360 }],
+        durationForecast
+      );
+
+      const window = recs[0]?.recommendedDays[0]?.activityWindow;
+      expect(window?.start.getHours()).toBe(15);
+      expect(window?.end.getHours()).toBe(21);
+      expect(window?.worstSlot.datetime.getHours()).toBe(15);
+      expect(recs[0]?.recommendedDays[0]?.score).toBe(window?.score);
+    });
+
+    it('should report the worst slot inside the window', async () => {
+      const recs = await recommendationService.generateRecommendations(
+        [{ ...hiking, durationMinutes: 360, latestEnd: '13:00' }],
+        durationForecast
+      );
+
+      const window = recs[0]?.recommendedDays[0]?.activityWindow;
+      expect(window?.start.getHours()).toBe(6);
+      expect(window?.worstSlot.datetime.getHours()).toBe(9);
+      expect(window?.worstSlotScore).toBeLessThan(window?.score ?? 0);
+    });
+
+    it('should mark days without a long enough window as not possible', async () => {
+      const recs = await recommendationService.generateRecommendations(
+        [{ ...hiking, durationMinutes: 600 }],
+        durationForecast
+      );
+
+      const day = recs[0]?.recommendedDays[0];
+      expect(day?.isPossible).toBe(false);
+      expect(day?.score).toBe(0);
+      expect(day?.activityWindow).toBeUndefined();
+      expect(day?.warningFactors[0]).toContain('600分続けて活動できる時間帯がありません');
+    });
+
+    it('should respect the earliest start time', async () => {
+      const recs = await recommendationService.generateRecommendations(
+        [{ ...hiking, durationMinutes: 60, earliestStart: '17:00' }],
+        durationForecast
+      );
+
+      expect(recs[0]?.recommendedDays[0]?.activityWindow?.start.getHours()).toBe(18);
+    });
+
+    it('should keep daily scoring when no duration is set', async () => {
+      const recs = await recommendationService.generateRecommendations([hiking], durationForecast);
+
+      expect(recs[0]?.recommendedDays[0]?.activityWindow).toBeUndefined();
+    });
+  });
+
+  describe('scoring profiles', () => {
+    const windyForecast: WeatherForecast = {
+      ...mockWeatherForecast,
+      forecasts: [{ ...mockForecasts[0]!, windSpeed: 11 }]
+    };
+
+    it('should return a breakdown whose contributions add up to the score', async () => {
+      const recs = await recommendationService.generateRecommendations([mockHobbies[0]!], mockWeatherForecast);
+      const day = recs[0]?.recommendedDays[0];
+      const total = day?.breakdown.reduce((sum, item) => sum + item.contribution, 0) ?? 0;
+
+      expect(day?.breakdown.map(item => item.factor)).toEqual(['weather', 'temperature', 'precipitation', 'wind', 'uv']);
+      expect(day?.breakdown.find(item => item.factor === 'weather')?.weight).toBeCloseTo(0.4);
+      expect(total).toBeCloseTo(day?.score ?? 0);
+    });
+
+    it('should weigh wind more heavily for wind-sensitive hobbies', async () => {
+      const kayak: Hobby = { ...mockHobbies[0]!, name: 'カヤック' };
+      const [balanced] = await recommendationService.generateRecommendations([kayak], windyForecast);
+      const [windSensitive] = await recommendationService.generateRecommendations(
+        [{ ...kayak, scoringProfile: createScoringProfile('wind-sensitive') }],
+        windyForecast
+      );
+
+      expect(windSensitive?.recommendedDays[0]?.score).toBeLessThan(balanced?.recommendedDays[0]?.score ?? 0);
+    });
+
+    it('should normalize custom weights', async () => {
+      const [rec] = await recommendationService.generateRecommendations(
+        [{
+          ...mockHobbies[0]!,
+          scoringProfile: { preset: 'custom', weights: { weather: 1, temperature: 1, precipitation: 0, wind: 0, uv: 0 } }
+        }],
+        mockWeatherForecast
+      );
+
+      const weights = rec?.recommendedDays[0]?.breakdown.map(item => item.weight);
+      expect(weights).toEqual([0.5, 0.5, 0, 0, 0]);
+    });
+  });
+
+  describe('multi-location recommendations', () => {
+    const tokyo: Location = { id: 1, name: '東京', lat: 35.68, lon: 139.69, isDefault: true, createdAt: new Date('2024-01-01') };
+    const shonan: Location = { id: 2, name: '湘南', lat: 35.31, lon: 139.48, isDefault: false, createdAt: new Date('2024-01-01') };
+
+    // 東京は初日だけ晴れ、湘南は2日目も晴れる
+    const shonanForecast: WeatherForecast = {
+      ...mockWeatherForecast,
+      forecasts: [
+        mockForecasts[0]!,
+        { ...mockForecasts[0]!, date: new Date('2024-01-16'), windSpeed: 1 },
+        mockForecasts[2]!
+      ]
+    };
+    const locationForecasts = [
+      { location: tokyo, forecast: mockWeatherForecast },
+      { location: shonan, forecast: shonanForecast }
+    ];
+
+    it('should rank location and day pairs across locations', async () => {
+      const recs = await recommendationService.generateMultiLocationRecommendations(
+        [mockHobbies[0]!],
+        locationForecasts
+      );
+
+      const pairs = recs[0]?.pairs ?? [];
+      expect(pairs.length).toBeGreaterThan(3);
+      expect(pairs[0]?.location.name).toBe('湘南');
+      expect(pairs[0]?.day.date.getDate()).toBe(16);
+      pairs.slice(1).forEach((pair, index) => {
+        expect(pair.day.score).toBeLessThanOrEqual(pairs[index]?.day.score ?? 0);
+      });
+      expect(recs[0]?.locations.map(summary => summary.location.name)).toEqual(['湘南', '東京']);
+    });
+
+    it('should only compare the locations linked to a hobby', async () => {
+      const recs = await recommendationService.generateMultiLocationRecommendations(
+        [mockHobbies[0]!, mockHobbies[1]!],
+        locationForecasts,
+        { hobbyLocations: [{ hobbyId: 1, locationId: 1, createdAt: new Date('2024-01-01') }] }
+      );
+
+      const hiking = recs.find(rec => rec.hobby.id === 1);
+      const reading = recs.find(rec => rec.hobby.id === 2);
+      expect(hiking?.locations.map(summary => summary.location.name)).toEqual(['東京']);
+      expect(reading?.locations).toHaveLength(2);
+    });
+
+    it('should leave out days that are not possible', async () => {
+      const recs = await recommendationService.generateMultiLocationRecommendations(
+        [{ ...mockHobbies[0]!, hardConstraints: { forbiddenWeather: ['rain'] } }],
+        locationForecasts,
+        { limit: 20 }
+      );
+
+      const rainyPairs = recs[0]?.pairs.filter(pair => pair.day.forecast.weatherType === 'rain');
+      expect(rainyPairs).toHaveLength(0);
+    });
+
+    it('should reduce the score by travel distance from the origin', async () => {
+      const [withoutOrigin] = await recommendationService.generateMultiLocationRecommendations(
+        [mockHobbies[0]!],
+        [{ location: shonan, forecast: shonanForecast }]
+      );
+      const [withOrigin] = await recommendationService.generateMultiLocationRecommendations(
+        [mockHobbies[0]!],
+        [{ location: shonan, forecast: shonanForecast }],
+        { origin: tokyo }
+      );
+
+      const before = withoutOrigin?.pairs[0]?.day;
+      const after = withOrigin?.pairs[0]?.day;
+      expect(after?.travelDistance).toBeCloseTo(45, 0);
+      expect(after?.score).toBeCloseTo((before?.score ?? 0) - (after?.travelDistance ?? 0) * 0.1);
+      expect(after?.warningFactors).toContain('移動距離 45km（-5点）');
+    });
+
+    it('should mark locations beyond the max travel distance as not possible', async () => {
+      const recs = await recommendationService.generateMultiLocationRecommendations(
+        [mockHobbies[0]!],
+        locationForecasts,
+        {
+          origin: tokyo,
+          hobbyLocations: [
+            { hobbyId: 1, locationId: 1, createdAt: new Date('2024-01-01') },
+            { hobbyId: 1, locationId: 2, maxTravelDistance: 30, createdAt: new Date('2024-01-01') }
+          ]
+        }
+      );
+
+      const shonanSummary = recs[0]?.locations.find(summary => summary.location.id === 2);
+      expect(recs[0]?.pairs.every(pair => pair.location.id === 1)).toBe(true);
+      expect(shonanSummary?.bestDay).toBeNull();
+      expect(shonanSummary?.overallScore).toBe(0);
+    });
+  });
+
+  describe('hard constraints', () => {
+    const hiking = mockHobbies[0]!;
+
+    it('should mark days exceeding the wind limit as not possible', async () => {
+      const [rec] = await recommendationService.generateRecommendations(
+        [{ ...hiking, hardConstraints: { maxWindSpeed: 8 } }],
+        mockWeatherForecast
+      );
+
+      const rainyDay = rec?.recommendedDays.find(day => day.date.getDate() === 16);
+      expect(rainyDay?.isPossible).toBe(false);
+      expect(rainyDay?.score).toBe(0);
+      expect(rainyDay?.warningFactors[0]).toBe('活動不可: 風速 8.5 m/s（上限 8 m/s）');
+      expect(rec?.recommendedDays[0]?.isPossible).toBe(true);
+    });
+
+    it('should exclude forbidden weather', async () => {
+      const [rec] = await recommendationService.generateRecommendations(
+        [{ ...hiking, hardConstraints: { forbiddenWeather: ['rain'] } }],
+        mockWeatherForecast
+      );
+
+      const possibleDates = rec?.recommendedDays.filter(day => day.isPossible).map(day => day.date.getDate());
+      expect(possibleDates).not.toContain(16);
+      // 17日は暑さ指数が「危険」のため活動不可
+      expect(possibleDates).toEqual([15]);
+    });
+
+    it('should report no best day when every day is not possible', async () => {
+      const [rec] = await recommendationService.generateRecommendations(
+        [{ ...hiking, hardConstraints: { maxFeelsLike: 10 } }],
+        mockWeatherForecast
+      );
+
+      expect(rec?.recommendedDays.every(day => !day.isPossible)).toBe(true);
+      expect(rec?.bestDayIndex).toBe(-1);
+      expect(rec?.overallScore).toBe(0);
+    });
+
+    it('should skip hourly slots that violate constraints', async () => {
+      const createSlot = (hour: number, overrides: Partial<HourlyForecast> = {}): HourlyForecast => ({
+        datetime: new Date(2024, 0, 20, hour),
+        temperature: 20,
+        feelsLike: 20,
+        humidity: 55,
+        pressure: 1015,
+        windSpeed: 2,
+        windDirection: 90,
+        weatherType: 'clear',
+        weatherDescription: '晴れ',
+        cloudiness: 5,
+        uvIndex: 3,
+        pop: 0,
+        visibility: 10000,
+        ...overrides
+      });
+      const forecast: WeatherForecast = {
+        ...mockWeatherForecast,
+        forecasts: [{ ...mockForecasts[0]!, date: new Date(2024, 0, 20) }],
+        hourly: [createSlot(6), createSlot(9, { visibility: 500 }), createSlot(12), createSlot(15)]
+      };
+      const hobby: Hobby = { ...hiking, durationMinutes: 360, hardConstraints: { minVisibility: 1000 } };
+
+      const [rec] = await recommendationService.generateRecommendations([hobby], forecast);
+      expect(rec?.recommendedDays[0]?.activityWindow?.start.getHours()).toBe(12);
+
+      const hourly = await recommendationService.generateHourlyRecommendations([hobby], forecast);
+      hourly[0]?.windows.forEach(window => {
+        expect(window.slots.some(slot => slot.datetime.getHours() === 9)).toBe(false);
+      });
+    });
+  });
+
+  describe('availability', () => {
+    const createSlot = (hour: number): HourlyForecast => ({
+      datetime: new Date(2024, 0, 20, hour),
+      temperature: 20,
+      feelsLike: 20,
+      humidity: 55,
+      pressure: 1015,
+      windSpeed: 2,
+      windDirection: 90,
+      weatherType: 'clear',
+      weatherDescription: '晴れ',
+      cloudiness: 5,
+      uvIndex: 3,
+      pop: 0
+    });
+    const forecast: WeatherForecast = {
+      ...mockWeatherForecast,
+      forecasts: [
+        { ...mockForecasts[0]!, date: new Date(2024, 0, 20) },
+        { ...mockForecasts[0]!, date: new Date(2024, 0, 21) }
+      ],
+      hourly: [6, 9, 12, 15, 18].map(createSlot)
+    };
+    const hiking = mockHobbies[0]!;
+    const busy = (startHour: number, endHour: number): BusyInterval => ({
+      start: new Date(2024, 0, 20, startHour),
+      end: new Date(2024, 0, 20, endHour),
+      allDay: false,
+      source: 'manual',
+      createdAt: new Date()
+    });
+    const businessTrip: BusyInterval = {
+      start: new Date(2024, 0, 20),
+      end: new Date(2024, 0, 21),
+      allDay: true,
+      summary: '出張',
+      source: 'ics',
+      createdAt: new Date()
+    };
+
+    it('should ignore busy intervals unless onlyWhenFree is set', async () => {
+      const result = await recommendationService.generateRecommendationResult([hiking], forecast, {
+        busyIntervals: [businessTrip]
+      });
+
+      expect(result.recommendations[0]?.recommendedDays).toHaveLength(2);
+      expect(result.hiddenRecommendations).toEqual([]);
+    });
+
+    it('should hide busy days and report them', async () => {
+      const result = await recommendationService.generateRecommendationResult([hiking], forecast, {
+        onlyWhenFree: true,
+        busyIntervals: [businessTrip]
+      });
+
+      const days = result.recommendations[0]?.recommendedDays ?? [];
+      expect(days.map(day => day.date.getDate())).toEqual([21]);
+      expect(result.hiddenRecommendations).toHaveLength(1);
+      expect(result.hiddenRecommendations[0]?.hobby).toBe(hiking);
+      expect(result.hiddenRecommendations[0]?.day.date.getDate()).toBe(20);
+      expect(result.hiddenRecommendations[0]?.conflicts).toEqual([businessTrip]);
+    });
+
+    it('should lower the score of busy days when penalizing', async () => {
+      const [free] = await recommendationService.generateRecommendations([hiking], forecast);
+      const result = await recommendationService.generateRecommendationResult([hiking], forecast, {
+        onlyWhenFree: true,
+        busyHandling: 'penalize',
+        busyIntervals: [businessTrip]
+      });
+
+      const freeDay = free?.recommendedDays.find(day => day.date.getDate() === 20);
+      const busyDay = result.recommendations[0]?.recommendedDays.find(day => day.date.getDate() === 20);
+      expect(busyDay?.score).toBe((freeDay?.score ?? 0) - 30);
+      expect(busyDay?.warningFactors[0]).toContain('出張');
+      expect(result.hiddenRecommendations).toEqual([]);
+    });
+
+    it('should keep days that still have enough free time', async () => {
+      const result = await recommendationService.generateRecommendationResult([hiking], forecast, {
+        onlyWhenFree: true,
+        busyIntervals: [busy(9, 12)]
+      });
+
+      expect(result.recommendations[0]?.recommendedDays).toHaveLength(2);
+      expect(result.hiddenRecommendations).toEqual([]);
+    });
+
+    it('should move the activity window to free time', async () => {
+      const hobby: Hobby = { ...hiking, durationMinutes: 180 };
+      const [free] = await recommendationService.generateRecommendations([hobby], forecast);
+      const [rec] = await recommendationService.generateRecommendations([hobby], forecast, {
+        onlyWhenFree: true,
+        busyIntervals: [busy(6, 12)]
+      });
+
+      const findWindow = (days: RecommendedDay[] = []) =>
+        days.find(day => day.date.getDate() === 20)?.activityWindow;
+      expect(findWindow(free?.recommendedDays)?.start.getHours()).toBe(6);
+      expect(findWindow(rec?.recommendedDays)?.start.getHours()).toBe(12);
+    });
+
+    it('should skip busy hourly slots', async () => {
+      const recs = await recommendationService.generateHourlyRecommendations([hiking], forecast, {
+        filters: { onlyWhenFree: true, busyIntervals: [busy(9, 12)] }
+      });
+
+      expect(recs[0]?.windows.length).toBeGreaterThan(0);
+      recs[0]?.windows.forEach(window => {
+        expect(window.slots.some(slot => slot.datetime.getHours() === 9)).toBe(false);
+      });
+    });
+  });
+
+  describe('goals', () => {
+    it('should rank hobbies behind their goal higher without changing the score', async () => {
+      const base = await recommendationService.generateRecommendations(mockHobbies, mockWeatherForecast);
+      const last = base[base.length - 1]!;
+      const progress: GoalProgress = {
+        hobby: last.hobby,
+        goal: { count: 2, period: 'week' },
+        completed: 0,
+        remaining: 2,
+        expected: 2,
+        periodStart: new Date(2024, 0, 15),
+        periodEnd: new Date(2024, 0, 22),
+        daysLeft: 1,
+        status: 'behind'
+      };
+
+      const boosted = await recommendationService.generateRecommendations(mockHobbies, mockWeatherForecast, {
+        goalProgress: [progress]
+      });
+
+      const index = boosted.findIndex(rec => rec.hobby.id === last.hobby.id);
+      expect(boosted[index]?.goalProgress).toBe(progress);
+      expect(boosted[index]?.overallScore).toBe(last.overallScore);
+      expect(index).toBe(base.filter(rec => rec.overallScore > last.overallScore + 30).length);
+    });
+  });
+
+  describe('forecast confidence', () => {
+    it('should report a confidence-adjusted score alongside the score', async () => {
+      const forecast: WeatherForecast = {
+        ...mockWeatherForecast,
+        forecasts: [
+          { ...mockForecasts[0]!, date: new Date(2024, 0, 20), confidence: 1 },
+          { ...mockForecasts[0]!, date: new Date(2024, 0, 24), confidence: 0.6, isPartial: true }
+        ]
+      };
+
+      const [rec] = await recommendationService.generateRecommendations([mockHobbies[0]!], forecast);
+
+      const near = rec?.recommendedDays.find(day => day.date.getDate() === 20);
+      const far = rec?.recommendedDays.find(day => day.date.getDate() === 24);
+      expect(near?.score).toBe(far?.score);
+      expect(near?.adjustedScore).toBe(near?.score);
+      expect(far?.confidence).toBe(0.6);
+      expect(far?.adjustedScore).toBeCloseTo((far?.score ?? 0) * 0.6, 0);
+    });
+  });
+
+  describe('daylight', () => {
+    const day = new Date(2024, 0, 20);
+    const createSlot = (hour: number, overrides: Partial<HourlyForecast> = {}): HourlyForecast => ({
+      datetime: new Date(2024, 0, 20, hour),
+      temperature: 20,
+      feelsLike: 20,
+      humidity: 55,
+      pressure: 1015,
+      windSpeed: 2,
+      windDirection: 90,
+      weatherType: 'clear',
+      weatherDescription: '晴れ',
+      cloudiness: 5,
+      uvIndex: 3,
+      pop: 0,
+      ...overrides
+    });
+    const daylight: DaylightTimes = {
+      sunrise: new Date(2024, 0, 20, 7),
+      sunset: new Date(2024, 0, 20, 17),
+      civilDawn: new Date(2024, 0, 20, 6, 30),
+      civilDusk: new Date(2024, 0, 20, 17, 30),
+      morningGoldenHour: { start: new Date(2024, 0, 20, 6, 45), end: new Date(2024, 0, 20, 7, 45) },
+      eveningGoldenHour: { start: new Date(2024, 0, 20, 16, 15), end: new Date(2024, 0, 20, 17, 15) },
+      morningBlueHour: { start: new Date(2024, 0, 20, 6, 30), end: new Date(2024, 0, 20, 6, 45) },
+      eveningBlueHour: { start: new Date(2024, 0, 20, 17, 15), end: new Date(2024, 0, 20, 17, 30) }
+    };
+    const createForecast = (times: DaylightTimes, hourly: HourlyForecast[]): WeatherForecast => ({
+      ...mockWeatherForecast,
+      forecasts: [{ ...mockForecasts[0]!, date: day, daylight: times }],
+      hourly
+    });
+    const hiking = mockHobbies[0]!;
+
+    it('should keep activity windows between sunrise and sunset', async () => {
+      const forecast = createForecast(daylight, [6, 9, 12, 15, 18].map(hour => createSlot(hour)));
+
+      const [anytime] = await recommendationService.generateRecommendations([{ ...hiking, durationMinutes: 360 }], forecast);
+      const [daytime] = await recommendationService.generateRecommendations(
+        [{ ...hiking, durationMinutes: 360, requiresDaylight: true }],
+        forecast
+      );
+
+      expect(anytime?.recommendedDays[0]?.activityWindow?.start.getHours()).toBe(6);
+      expect(daytime?.recommendedDays[0]?.activityWindow?.start.getHours()).toBe(9);
+    });
+
+    it('should explain the daylight limit when no window fits', async () => {
+      const forecast = createForecast(daylight, [6, 9, 12, 15, 18].map(hour => createSlot(hour)));
+
+      const [rec] = await recommendationService.generateRecommendations(
+        [{ ...hiking, durationMinutes: 720, requiresDaylight: true }],
+        forecast
+      );
+
+      const recommendedDay = rec?.recommendedDays[0];
+      expect(recommendedDay?.isPossible).toBe(false);
+      expect(recommendedDay?.warningFactors.some(factor => factor.includes('日の出（07:00）〜日の入り（17:00）'))).toBe(true);
+    });
+
+    it('should mark polar night days as not possible for daylight hobbies', async () => {
+      const polarNight: DaylightTimes = {
+        ...daylight,
+        sunrise: null,
+        sunset: null,
+        morningGoldenHour: null,
+        eveningGoldenHour: null,
+        polar: 'night'
+      };
+
+      const [rec] = await recommendationService.generateRecommendations(
+        [{ ...hiking, requiresDaylight: true }],
+        createForecast(polarNight, [])
+      );
+
+      expect(rec?.recommendedDays[0]?.isPossible).toBe(false);
+    });
+
+    it('should add a bonus when the golden hour is expected to be clear', async () => {
+      const clear = createForecast(daylight, [6, 9, 12, 15, 18].map(hour => createSlot(hour)));
+      const cloudy = createForecast(daylight, [6, 9, 12, 15, 18].map(hour =>
+        createSlot(hour, { weatherType: 'clouds', cloudiness: 90 })
+      ));
+      const photography: Hobby = { ...hiking, preferredWeather: [{ condition: 'clouds', weight: 5 }], prefersGoldenHour: true };
+
+      const [withoutBonus] = await recommendationService.generateRecommendations([{ ...photography, prefersGoldenHour: false }], clear);
+      const [withBonus] = await recommendationService.generateRecommendations([photography], clear);
+      const [overcast] = await recommendationService.generateRecommendations([photography], cloudy);
+
+      const baseScore = withoutBonus?.recommendedDays[0]?.score ?? 0;
+      expect(withBonus?.recommendedDays[0]?.score).toBe(Math.min(100, baseScore + 10));
+      expect(withBonus?.recommendedDays[0]?.matchingFactors.some(factor => factor.includes('ゴールデンアワー'))).toBe(true);
+      expect(overcast?.recommendedDays[0]?.matchingFactors.some(factor => factor.includes('ゴールデンアワー'))).toBe(false);
+    });
+
+    it('should skip hourly slots after sunset for daylight hobbies', async () => {
+      const forecast = createForecast(daylight, [3, 6, 9, 12, 15, 18, 21].map(hour => createSlot(hour)));
+
+      const hourly = await recommendationService.generateHourlyRecommendations(
+        [{ ...hiking, requiresDaylight: true }],
+        forecast
+      );
+
+      const hours = hourly[0]?.windows.flatMap(window => window.slots.map(slot => slot.datetime.getHours()));
+      expect(hours).toEqual([9, 12]);
+    });
+  });
+
+  describe('night sky', () => {
+    const day = new Date(2024, 0, 20);
+    const nightSky: NightSky = {
+      moonPhase: 0,
+      moonIllumination: 0,
+      moonrise: new Date(2024, 0, 20, 7),
+      moonset: new Date(2024, 0, 20, 17),
+      darkness: { start: new Date(2024, 0, 20, 19), end: new Date(2024, 0, 21, 5) },
+      darknessMinutes: 600,
+      moonlessDarknessMinutes: 600
+    };
+    const createForecast = (sky: NightSky, cloudiness = 10): WeatherForecast => ({
+      ...mockWeatherForecast,
+      forecasts: [{ ...mockForecasts[0]!, date: day, cloudiness, nightSky: sky }],
+      hourly: []
+    });
+    const stargazing: Hobby = {
+      id: 10,
+      name: '天体観測',
+      isActive: true,
+      isOutdoor: true,
+      preferredWeather: [{ condition: 'clear', weight: 10 }],
+      preferredTimeOfDay: ['night'],
+      scoringMode: 'night-sky',
+      createdAt: new Date('2024-01-01')
+    };
+
+    it('should score by cloud cover, moonlight and darkness', async () => {
+      const [rec] = await recommendationService.generateRecommendations([stargazing], createForecast(nightSky));
+
+      const recommendedDay = rec?.recommendedDays[0];
+      expect(recommendedDay?.breakdown.map(item => item.factor)).toEqual(['cloudCover', 'moonlight', 'darkness']);
+      expect(recommendedDay?.score).toBeCloseTo(95, 5);
+      expect(recommendedDay?.matchingFactors.some(factor => factor.includes('月のない暗い空が 10 時間'))).toBe(true);
+    });
+
+    it('should lower the score under a bright moon or clouds', async () => {
+      const fullMoon = { ...nightSky, moonPhase: 0.5, moonIllumination: 1, moonlessDarknessMinutes: 0 };
+
+      const [dark] = await recommendationService.generateRecommendations([stargazing], createForecast(nightSky));
+      const [moonlit] = await recommendationService.generateRecommendations([stargazing], createForecast(fullMoon));
+      const [cloudy] = await recommendationService.generateRecommendations([stargazing], createForecast(nightSky, 90));
+
+      const darkScore = dark?.recommendedDays[0]?.score ?? 0;
+      expect(moonlit?.recommendedDays[0]?.score).toBeCloseTo(darkScore - 30, 5);
+      expect(moonlit?.recommendedDays[0]?.warningFactors.some(factor => factor.includes('輝面比 100%'))).toBe(true);
+      expect(cloudy?.recommendedDays[0]?.score).toBeCloseTo(darkScore - 40, 5);
+    });
+
+    it('should use the night cloud cover from hourly forecasts', async () => {
+      const createSlot = (date: Date, cloudiness: number): HourlyForecast => ({
+        datetime: date,
+        temperature: 5,
+        feelsLike: 5,
+        humidity: 60,
+        pressure: 1015,
+        windSpeed: 2,
+        windDirection: 90,
+        weatherType: 'clouds',
+        weatherDescription: '曇り',
+        cloudiness,
+        uvIndex: 0,
+        pop: 0
+      });
+      const forecast: WeatherForecast = {
+        ...createForecast(nightSky, 10),
+        hourly: [12, 15, 21].map(hour => createSlot(new Date(2024, 0, 20, hour), hour < 19 ? 0 : 100))
+      };
+
+      const [rec] = await recommendationService.generateRecommendations([stargazing], forecast);
+
+      expect(rec?.recommendedDays[0]?.breakdown.find(item => item.factor === 'cloudCover')?.score).toBe(0);
+    });
+
+    it('should keep weather scoring for other hobbies', async () => {
+      const [rec] = await recommendationService.generateRecommendations(
+        [{ ...stargazing, scoringMode: 'weather' }],
+        createForecast(nightSky)
+      );
+
+      expect(rec?.recommendedDays[0]?.breakdown.map(item => item.factor)).toContain('weather');
+    });
+  });
+
+  describe('safety', () => {
+    const day = new Date(2024, 0, 20);
+    const createForecast = (overrides: Partial<DailyForecast>, hourly: HourlyForecast[] = []): WeatherForecast => ({
+      ...mockWeatherForecast,
+      forecasts: [{ ...mockForecasts[0]!, date: day, ...overrides }],
+      hourly
+    });
+    const heatwave: Partial<DailyForecast> = {
+      temperature: { min: 28, max: 36, morning: 30, day: 35, evening: 32, night: 29 },
+      humidity: 60,
+      uvIndex: 10
+    };
+    const hiking = mockHobbies[0]!;
+    const reading = mockHobbies[1]!;
+    const beachVolleyball = mockHobbies[2]!;
+
+    it('should mark outdoor hobbies as not possible at the danger level of heat', async () => {
+      const recommendations = await recommendationService.generateRecommendations(
+        [beachVolleyball, reading],
+        createForecast(heatwave)
+      );
+
+      const hotDay = recommendations.find(rec => rec.hobby.id === beachVolleyball.id)?.recommendedDays[0];
+      const readingDay = recommendations.find(rec => rec.hobby.id === reading.id)?.recommendedDays[0];
+      expect(hotDay?.isPossible).toBe(false);
+      expect(hotDay?.safety.wbgtLevel).toBe('danger');
+      expect(hotDay?.warningFactors[0]).toContain('危険（運動は原則中止）');
+      expect(readingDay?.isPossible).toBe(true);
+      expect(readingDay?.warningFactors.some(factor => factor.includes('暑さ指数'))).toBe(false);
+    });
+
+    it('should cap the score at the severe warning level', async () => {
+      const [rec] = await recommendationService.generateRecommendations(
+        [beachVolleyball],
+        createForecast({
+          temperature: { min: 25, max: 32, morning: 27, day: 31, evening: 29, night: 26 },
+          humidity: 60,
+          uvIndex: 8
+        })
+      );
+
+      const recommendedDay = rec?.recommendedDays[0];
+      expect(recommendedDay?.safety.wbgtLevel).toBe('severeWarning');
+      expect(recommendedDay?.score).toBe(40);
+      expect(recommendedDay?.warningFactors[0]).toContain('厳重警戒');
+    });
+
+    it('should cap the score when the wind chill risks frostbite', async () => {
+      const [rec] = await recommendationService.generateRecommendations(
+        [{ ...hiking, minTemperature: -30 }],
+        createForecast({
+          temperature: { min: -25, max: -18, morning: -22, day: -18, evening: -20, night: -24 },
+          windSpeed: 10,
+          uvIndex: 1
+        })
+      );
+
+      const recommendedDay = rec?.recommendedDays[0];
+      expect(recommendedDay?.safety.coldStressLevel).toBe('warning');
+      expect(recommendedDay?.score).toBeLessThanOrEqual(40);
+      expect(recommendedDay?.warningFactors[0]).toContain('風を考慮した体感温度');
+    });
+
+    it('should keep activity windows out of dangerous hours', async () => {
+      const createSlot = (hour: number, temperature: number, uvIndex: number, weatherType: WeatherType): HourlyForecast => ({
+        datetime: new Date(2024, 0, 20, hour),
+        temperature,
+        feelsLike: temperature,
+        humidity: 60,
+        pressure: 1010,
+        windSpeed: 1,
+        windDirection: 90,
+        weatherType,
+        weatherDescription: weatherType,
+        cloudiness: weatherType === 'clear' ? 5 : 80,
+        uvIndex,
+        pop: 0
+      });
+      // 晴れて条件の良い昼の時間は暑さ指数が「危険」
+      const hourly = [
+        createSlot(6, 27, 1, 'clouds'),
+        createSlot(9, 30, 3, 'clouds'),
+        createSlot(12, 36, 10, 'clear'),
+        createSlot(15, 35, 8, 'clear')
+      ];
+      const hobby = { ...beachVolleyball, durationMinutes: 360 };
+
+      const [outdoor] = await recommendationService.generateRecommendations([hobby], createForecast(heatwave, hourly));
+      const [indoor] = await recommendationService.generateRecommendations(
+        [{ ...hobby, isOutdoor: false }],
+        createForecast(heatwave, hourly)
+      );
+
+      const activityWindow = outdoor?.recommendedDays[0]?.activityWindow;
+      expect(indoor?.recommendedDays[0]?.activityWindow?.start.getHours()).toBe(12);
+      expect(activityWindow?.start.getHours()).toBe(6);
+      expect(activityWindow?.safety?.wbgtLevel).not.toBe('danger');
+    });
+
+    it('should leave dangerous hours out of hourly windows for outdoor hobbies', async () => {
+      const createSlot = (hour: number, temperature: number, uvIndex: number): HourlyForecast => ({
+        datetime: new Date(2024, 0, 20, hour),
+        temperature,
+        feelsLike: temperature,
+        humidity: 60,
+        pressure: 1010,
+        windSpeed: 1,
+        windDirection: 90,
+        weatherType: 'clear',
+        weatherDescription: '晴れ',
+        cloudiness: 5,
+        uvIndex,
+        pop: 0
+      });
+      // 朝は過ごしやすく、昼は暑さ指数が「危険」
+      const hourly = [createSlot(6, 26, 1), createSlot(9, 27, 3), createSlot(12, 36, 10), createSlot(15, 35, 8)];
+
+      const [outdoor] = await recommendationService.generateHourlyRecommendations(
+        [beachVolleyball],
+        createForecast(heatwave, hourly)
+      );
+      const [indoor] = await recommendationService.generateHourlyRecommendations(
+        [{ ...beachVolleyball, isOutdoor: false }],
+        createForecast(heatwave, hourly)
+      );
+
+      const hours = (windows: RecommendedWindow[] = []) =>
+        windows.flatMap(window => window.slots.map(slot => slot.datetime.getHours()));
+      expect(hours(indoor?.windows)).toContain(12);
+      expect(hours(outdoor?.windows)).not.toContain(12);
+      expect(hours(outdoor?.windows)).not.toContain(15);
+      expect(outdoor?.windows[0]?.safety?.wbgtLevel).not.toBe('danger');
+      expect(indoor?.windows.find(window => hours([window]).includes(12))?.safety?.wbgtLevel).toBe('danger');
+    });
+  });
+
+  describe('precipitation amount and gusts', () => {
+    const hiking = mockHobbies[0]!;
+    const createForecast = (overrides: Partial<DailyForecast>): WeatherForecast => ({
+      ...mockWeatherForecast,
+      forecasts: [{ ...mockForecasts[0]!, ...overrides }],
+      hourly: []
+    });
+    const getFactorScore = (rec: HobbyRecommendation | undefined, factor: string) =>
+      rec?.recommendedDays[0]?.breakdown.find(item => item.factor === factor)?.score;
+
+    it('should tell a trace of rain from heavy rain at the same chance', async () => {
+      const [trace] = await recommendationService.generateRecommendations([hiking], createForecast({ pop: 0.3, rain: 0.2, snow: 0 }));
+      const [heavy] = await recommendationService.generateRecommendations([hiking], createForecast({ pop: 0.3, rain: 20, snow: 0 }));
+      const [unknown] = await recommendationService.generateRecommendations([hiking], createForecast({ pop: 0.3 }));
+
+      expect(getFactorScore(unknown, 'precipitation')).toBe(70);
+      expect(getFactorScore(trace, 'precipitation')).toBe(85);
+      expect(getFactorScore(heavy, 'precipitation')).toBe(35);
+      expect(heavy?.recommendedDays[0]?.warningFactors).toContain('降水確率: 30%（降水量 20.0mm）');
+    });
+
+    it('should score gusty days below a steady breeze', async () => {
+      const [steady] = await recommendationService.generateRecommendations([hiking], createForecast({ windSpeed: 2, windGust: 3 }));
+      const [gusty] = await recommendationService.generateRecommendations([hiking], createForecast({ windSpeed: 2, windGust: 20 }));
+
+      expect(getFactorScore(steady, 'wind')).toBe(100);
+      expect(getFactorScore(gusty, 'wind')).toBe(10);
+      expect(gusty?.recommendedDays[0]?.warningFactors.some(factor => factor.startsWith('突風注意'))).toBe(true);
+      expect(gusty?.recommendedDays[0]?.matchingFactors.some(factor => factor.startsWith('穏やかな風'))).toBe(false);
+    });
+  });
+
+  describe('weather intensity', () => {
+    const running: Hobby = {
+      ...mockHobbies[0]!,
+      name: 'ランニング',
+      preferredWeather: [
+        { condition: 'clear', weight: 9 },
+        { condition: 'rain', weight: 8, intensity: 'light' }
+      ]
+    };
+    const createForecast = (overrides: Partial<DailyForecast>): WeatherForecast => ({
+      ...mockWeatherForecast,
+      forecasts: [{ ...mockForecasts[0]!, weatherType: 'rain', ...overrides }],
+      hourly: []
+    });
+    const getWeatherScore = (rec: HobbyRecommendation | undefined) =>
+      rec?.recommendedDays[0]?.breakdown.find(item => item.factor === 'weather')?.score;
+
+    it('should match a preference only up to its intensity', async () => {
+      const [light] = await recommendationService.generateRecommendations([running], createForecast({ weatherIntensity: 'light' }));
+      const [heavy] = await recommendationService.generateRecommendations([running], createForecast({ weatherIntensity: 'heavy' }));
+
+      expect(getWeatherScore(light)).toBe(80);
+      expect(getWeatherScore(heavy)).toBe(20);
+    });
+
+    it('should match any intensity when the preference has none', async () => {
+      const anyRain: Hobby = { ...running, preferredWeather: [{ condition: 'rain', weight: 8 }] };
+      const [heavy] = await recommendationService.generateRecommendations([anyRain], createForecast({ weatherIntensity: 'heavy' }));
+
+      expect(getWeatherScore(heavy)).toBe(80);
+    });
+  });
 });
\ No newline at end of file
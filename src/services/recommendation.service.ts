@@ -1,5 +1,34 @@
-import type { Hobby, WeatherForecast, DailyForecast, WeatherType } from '../types';
+import type {
+  Hobby,
+  WeatherForecast,
+  DailyForecast,
+  HourlyForecast,
+  TimeOfDay,
+  WeatherType,
+  ScoreFactor,
+  NightSkyFactor,
+  NightSky,
+  ScoringWeights,
+  HardConstraints,
+  Location,
+  HobbyLocation,
+  BusyInterval,
+  DaylightTimes,
+  DaylightRange,
+  SafetyIndices,
+  WeatherIntensity
+} from '../types';
 import { weatherService } from './weather.service';
+import { geolocationService } from './geolocation.service';
+import { DEFAULT_SCORING_WEIGHTS, NIGHT_SKY_WEIGHTS } from '../data/scoringProfiles';
+import { formatTemperature, formatWindSpeed } from '../utils/units';
+import { findOverlappingBusyIntervals, getLongestFreeMinutes } from '../utils/availability';
+import { getGoalPriorityBonus, type GoalProgress } from '../utils/goals';
+import { getForecastConfidence } from '../utils/forecast-confidence';
+import { findClearGoldenHour, getDaylightRange, isWithinDaylight } from '../utils/daylight';
+import { calculateDailySafety, calculateHourlySafety, getWorstSafety } from '../utils/weather-safety';
+import { findPreferredWeather, getStrongestIntensity } from '../utils/weather-classification';
+import { t } from '../utils/i18n';
 
 // 趣味のおすすめ情報
 export interface HobbyRecommendation {
@@ -7,15 +36,147 @@ export interface HobbyRecommendation {
   recommendedDays: RecommendedDay[]; // おすすめ日程
   overallScore: number; // 総合スコア
   bestDayIndex: number; // 最適日のインデックス
+  goalProgress?: GoalProgress; // 目標の進捗（目標を設定した趣味のみ）
 }
 
 // おすすめ日の詳細情報
 export interface RecommendedDay {
   date: Date; // 日付
   score: number; // スコア
+  confidence: number; // 予報の信頼度（0-1、先の日や一部の時間しか予報がない日ほど低い）
+  adjustedScore: number; // 信頼度を反映したスコア（スコア × 信頼度）
   matchingFactors: string[]; // 良い条件
   warningFactors: string[]; // 注意事項
   forecast: DailyForecast; // 天気予報
+  isPossible: boolean; // 活動不可条件に該当しないか（falseの場合スコアは0）
+  breakdown: ScoreBreakdownItem[]; // スコアの内訳
+  safety: SafetyIndices; // 暑さ・寒さの安全指標（活動時間帯がある場合はその時間帯で最も厳しい値）
+  activityWindow?: ActivityWindow; // 活動時間を確保できる最適な時間帯（活動時間設定時のみ）
+  travelDistance?: number; // デフォルトの場所からの移動距離（km、場所別おすすめのみ）
+}
+
+// スコアの内訳（要素ごと）
+export interface ScoreBreakdownItem {
+  factor: ScoreFactor | NightSkyFactor; // 要素（夜空モードの趣味は夜空の要素）
+  score: number; // 要素のスコア（0-100）
+  weight: number; // 正規化後の重み（合計1）
+  contribution: number; // 総合スコアへの寄与（スコア × 重み）
+}
+
+// 活動時間を満たす連続した時間帯
+export interface ActivityWindow {
+  start: Date; // 最適な開始時刻
+  end: Date; // 終了予定時刻（開始時刻 + 活動時間）
+  score: number; // 時間帯内スコアの平均
+  worstSlot: HourlyForecast; // 時間帯内で最も条件が悪い予報
+  worstSlotScore: number; // 最も条件が悪い予報のスコア
+  breakdown: ScoreBreakdownItem[]; // 時間帯内で平均したスコアの内訳
+  goldenHour?: DaylightRange; // 空が期待できるゴールデンアワー（prefersGoldenHourの趣味のみ、スコアに加点済み）
+  safety?: SafetyIndices; // 時間帯内で最も厳しい暑さ・寒さの安全指標
+}
+
+// おすすめ時間帯（連続した時間単位予報のまとまり）
+export interface RecommendedWindow {
+  start: Date; // 開始時刻
+  end: Date; // 終了時刻
+  timeOfDay: TimeOfDay; // 時間帯
+  score: number; // スコア（時間単位スコアの平均）
+  matchingFactors: string[]; // 良い条件
+  warningFactors: string[]; // 注意事項
+  slots: HourlyForecast[]; // 対象の時間単位予報
+  safety?: SafetyIndices; // 時間帯内で最も厳しい暑さ・寒さの安全指標
+}
+
+// 趣味の時間帯別おすすめ情報
+export interface HourlyRecommendation {
+  hobby: Hobby; // 対象の趣味
+  windows: RecommendedWindow[]; // おすすめ時間帯（スコア順）
+}
+
+// 時間帯別おすすめのオプション
+export interface HourlyRecommendationOptions {
+  minScore?: number; // 時間帯に含める最小スコア（デフォルト: 60）
+  limit?: number; // 趣味ごとの最大件数（デフォルト: 3）
+  filters?: RecommendationFilters; // 日付・天気などのフィルター
+}
+
+// 場所ごとの天気予報
+export interface LocationForecast {
+  location: Location; // 対象の場所
+  forecast: WeatherForecast; // その場所の天気予報
+}
+
+// 場所と日の組み合わせ
+export interface LocationDayPair {
+  location: Location; // 場所
+  day: RecommendedDay; // その場所でのおすすめ日
+}
+
+// 場所ごとの比較結果
+export interface LocationSummary {
+  location: Location; // 場所
+  overallScore: number; // その場所での総合スコア
+  bestDay: RecommendedDay | null; // その場所での最適日（実施可能な日がない場合はnull）
+}
+
+// 趣味の場所別おすすめ情報
+export interface MultiLocationRecommendation {
+  hobby: Hobby; // 対象の趣味
+  pairs: LocationDayPair[]; // 実施可能な（場所, 日）の組み合わせ（スコア順）
+  locations: LocationSummary[]; // 場所ごとの比較（総合スコア順）
+}
+
+// 場所別おすすめのオプション
+export interface MultiLocationOptions {
+  filters?: RecommendationFilters; // 日付・天気などのフィルター
+  hobbyLocations?: HobbyLocation[]; // 趣味ごとの活動場所（関連のない趣味はすべての場所）
+  origin?: { lat: number; lon: number }; // 移動距離の起点（デフォルトの場所）
+  limit?: number; // 趣味ごとの組み合わせの最大件数（デフォルト: 10）
+}
+
+// スコア計算に用いる気象条件（日別・時間別で共通）
+interface ScoringConditions {
+  weatherType: WeatherType;
+  weatherIntensity: WeatherIntensity | undefined; // 取得元が強さを提供しない場合はundefined
+  weatherDescription: string;
+  temperature: number; // 活動時間帯の気温
+  feelsLikeMin: number; // 活動時間帯の最低体感温度
+  feelsLikeMax: number; // 活動時間帯の最高体感温度
+  pop: number;
+  precipitation: number | undefined; // 降水量（mm、雨と雪の合計。取得元が提供しない場合はundefined）
+  windSpeed: number;
+  windGust: number | undefined; // 最大瞬間風速（取得元が提供しない場合はundefined）
+  uvIndex: number;
+  visibility: number | undefined; // 取得元が視程を提供しない場合はundefined
+}
+
+// 活動不可条件への該当（durationは活動時間を確保できない場合、travelは移動距離の上限を超える場合、
+// daylightは日の出〜日の入りの間に活動できない場合、heat・coldは屋外の趣味で暑さ・寒さが危険な場合）
+interface ConstraintViolation {
+  constraint: keyof HardConstraints | 'duration' | 'travel' | 'daylight' | 'heat' | 'cold';
+  message: string;
+}
+
+// 予定と重なるためおすすめから外した日
+export interface HiddenRecommendation {
+  hobby: Hobby; // 対象の趣味
+  day: RecommendedDay; // 外さなかった場合のおすすめ日
+  conflicts: BusyInterval[]; // 重なる予定
+}
+
+// おすすめと、予定と重なるため外した日
+export interface RecommendationResult {
+  recommendations: HobbyRecommendation[];
+  hiddenRecommendations: HiddenRecommendation[];
+}
+
+// 予定と重なる日・時間帯の扱い（exclude: おすすめから外す、penalize: 減点して残す）
+export type BusyHandling = 'exclude' | 'penalize';
+
+// 活動場所までの移動
+interface TravelContext {
+  distanceKm: number; // 起点からの距離
+  maxDistanceKm?: number; // 許容する移動距離
 }
 
 // おすすめのフィルター条件
@@ -28,8 +189,48 @@ export interface RecommendationFilters {
   weatherTypes?: WeatherType[]; // 天気タイプ
   excludeWeekends?: boolean; // 週末を除外
   excludeWeekdays?: boolean; // 平日を除外
+  onlyWhenFree?: boolean; // 予定が入っている日・時間帯を避ける
+  busyHandling?: BusyHandling; // 予定と重なる場合の扱い（デフォルト: exclude）
+  busyIntervals?: BusyInterval[]; // 避ける予定（onlyWhenFreeの場合のみ使用）
+  goalProgress?: GoalProgress[]; // 目標の進捗（目標に遅れている趣味を優先して並べる）
 }
 
+// 活動時間帯に含められる予報の最小スコア
+const ACTIVITY_SLOT_MIN_SCORE = 50;
+
+const SCORE_FACTORS: ScoreFactor[] = ['weather', 'temperature', 'precipitation', 'wind', 'uv'];
+const NIGHT_SKY_FACTORS: NightSkyFactor[] = ['cloudCover', 'moonlight', 'darkness'];
+
+// 移動距離1kmあたりの減点と減点の上限
+const TRAVEL_PENALTY_PER_KM = 0.1;
+const MAX_TRAVEL_PENALTY = 20;
+
+// 予定と重なる場合の減点（busyHandlingがpenalizeの場合）
+const BUSY_PENALTY = 30;
+
+// 活動時間が未設定の趣味で、空いていれば活動できるとみなす時間（分）
+const DEFAULT_FREE_MINUTES = 60;
+
+// ゴールデンアワーの空が期待できる場合の加点（prefersGoldenHourの趣味のみ）
+const GOLDEN_HOUR_BONUS = 10;
+
+// 夜空モードで暗さを満点とする暗い時間の長さ（分）
+const FULL_DARKNESS_MINUTES = 6 * 60;
+// 夜空モードで注意事項に挙げる夜間の雲量（%）と月の輝面比
+const NIGHT_SKY_CLOUDY_THRESHOLD = 50;
+const BRIGHT_MOON_ILLUMINATION = 0.5;
+
+// 屋外の趣味で暑さ・寒さが「厳重警戒」「警戒」の日のスコア上限と、暑さが「警戒」の日の減点
+const SAFETY_SCORE_CAP = 40;
+const SAFETY_WARNING_PENALTY = 10;
+
+// 降水量がわずか（この値未満）な場合は降水確率による減点を半分に、多い（この値以上）場合は点数を半分にする（mm）
+const LIGHT_PRECIPITATION_MM = 1;
+const HEAVY_PRECIPITATION_MM = 10;
+// 瞬間風速を平均風速に換算する比と、注意事項に挙げる瞬間風速（m/s）
+const GUST_FACTOR = 1.5;
+const STRONG_GUST_SPEED = 15;
+
 export class RecommendationService {
   /**
    * 趣味に基づいて天気予報からおすすめを生成
@@ -39,113 +240,972 @@ export class RecommendationService {
     forecast: WeatherForecast,
     filters?: RecommendationFilters
   ): Promise<HobbyRecommendation[]> {
+    const { recommendations } = await this.generateRecommendationResult(hobbies, forecast, filters);
+    return recommendations;
+  }
+
+  /**
+   * おすすめを生成し、予定と重なるためおすすめから外した日もあわせて返す
+   * （外した日はonlyWhenFreeかつbusyHandlingがexcludeの場合のみ）
+   */
+  async generateRecommendationResult(
+    hobbies: Hobby[],
+    forecast: WeatherForecast,
+    filters?: RecommendationFilters
+  ): Promise<RecommendationResult> {
     const recommendations: HobbyRecommendation[] = [];
+    const hiddenRecommendations: HiddenRecommendation[] = [];
+    const hourly = this.sortSlots(forecast.hourly);
+    const slotInterval = this.inferSlotInterval(hourly);
 
     for (const hobby of hobbies) {
-      const recommendedDays = this.calculateDailyScores(hobby, forecast.forecasts, filters);
-      
-      if (recommendedDays.length === 0) continue;
-
-      const overallScore = this.calculateOverallScore(recommendedDays);
-      const bestDayIndex = this.findBestDayIndex(recommendedDays);
-
-      recommendations.push({
-        hobby,
-        recommendedDays,
-        overallScore,
-        bestDayIndex
-      });
+      const recommendation = this.buildRecommendation(
+        hobby, forecast.forecasts, hourly, slotInterval, filters, undefined, hiddenRecommendations
+      );
+      const goalProgress = filters?.goalProgress?.find(progress => progress.hobby.id === hobby.id);
+      if (recommendation) {
+        recommendations.push(goalProgress ? { ...recommendation, goalProgress } : recommendation);
+      }
+    }
+
+    // スコア順でソート（目標に遅れている趣味は優先）
+    const priority = (recommendation: HobbyRecommendation) =>
+      recommendation.overallScore + getGoalPriorityBonus(recommendation.goalProgress);
+    return {
+      recommendations: recommendations.sort((a, b) => priority(b) - priority(a)),
+      hiddenRecommendations: hiddenRecommendations.sort((a, b) => a.day.date.getTime() - b.day.date.getTime())
+    };
+  }
+
+  /**
+   * 複数の場所の天気予報から、趣味ごとに（場所, 日）の組み合わせをランキング
+   *
+   * 場所ごとにスコアを計算し、趣味単位でまとめ直す。
+   * 活動場所が関連付けられた趣味は、その場所だけを比較対象にする。
+   * 起点が指定された場合は移動距離に応じて減点し、許容距離を超える場所は活動不可とする。
+   *
+   * 例: 週末のサーフィン → 「湘南 土曜 88点」「千葉 日曜 81点」…
+   */
+  async generateMultiLocationRecommendations(
+    hobbies: Hobby[],
+    locationForecasts: LocationForecast[],
+    options: MultiLocationOptions = {}
+  ): Promise<MultiLocationRecommendation[]> {
+    const { filters, hobbyLocations = [], origin, limit = 10 } = options;
+    const results = new Map<Hobby, MultiLocationRecommendation>();
+
+    for (const { location, forecast } of locationForecasts) {
+      const hourly = this.sortSlots(forecast.hourly);
+      const slotInterval = this.inferSlotInterval(hourly);
+      const distanceKm = origin
+        ? geolocationService.calculateDistance(origin.lat, origin.lon, location.lat, location.lon)
+        : undefined;
+
+      for (const hobby of hobbies) {
+        const links = hobbyLocations.filter(link => link.hobbyId === hobby.id);
+        const link = links.find(l => l.locationId === location.id);
+        if (links.length > 0 && !link) continue;
+
+        let travel: TravelContext | undefined;
+        if (distanceKm !== undefined) {
+          travel = { distanceKm };
+          if (link?.maxTravelDistance !== undefined) {
+            travel.maxDistanceKm = link.maxTravelDistance;
+          }
+        }
+
+        const recommendation = this.buildRecommendation(hobby, forecast.forecasts, hourly, slotInterval, filters, travel);
+        if (!recommendation) continue;
+
+        const result = results.get(hobby) ?? { hobby, pairs: [], locations: [] };
+        const possibleDays = recommendation.recommendedDays.filter(day => day.isPossible);
+
+        result.pairs.push(...possibleDays.map(day => ({ location, day })));
+        result.locations.push({
+          location,
+          overallScore: recommendation.overallScore,
+          bestDay: recommendation.recommendedDays[recommendation.bestDayIndex] ?? null
+        });
+        results.set(hobby, result);
+      }
+    }
+
+    return [...results.values()]
+      .map(result => ({
+        ...result,
+        pairs: result.pairs.sort((a, b) => b.day.score - a.day.score).slice(0, limit),
+        locations: result.locations.sort((a, b) => b.overallScore - a.overallScore)
+      }))
+      .sort((a, b) => (b.pairs[0]?.day.score ?? 0) - (a.pairs[0]?.day.score ?? 0));
+  }
+
+  /**
+   * 時間単位の予報から趣味ごとのおすすめ時間帯を生成
+   *
+   * アルゴリズム:
+   * 1. 趣味の活動時間帯（未指定なら全時間帯）に含まれる予報をスコアリング
+   * 2. 最小スコア以上の予報が同じ時間帯内で連続する範囲を1つの時間帯にまとめる
+   * 3. 時間帯のスコアは含まれる予報スコアの平均とし、上位から返す
+   *
+   * 例: 朝の散歩で6時・9時がともに高スコア → 「06:00〜12:00」
+   */
+  async generateHourlyRecommendations(
+    hobbies: Hobby[],
+    forecast: WeatherForecast,
+    options: HourlyRecommendationOptions = {}
+  ): Promise<HourlyRecommendation[]> {
+    const { minScore = 60, limit = 3, filters } = options;
+    const slots = this.sortSlots(forecast.hourly);
+    if (slots.length === 0) return [];
+
+    const slotInterval = this.inferSlotInterval(slots);
+    const daylightByDate = this.getDaylightByDate(forecast.forecasts);
+    const recommendations: HourlyRecommendation[] = [];
+
+    for (const hobby of hobbies) {
+      // 活動時間に満たない時間帯は除外
+      const minDuration = (hobby.durationMinutes ?? 0) * 60 * 1000;
+      const windows = this.findRecommendedWindows(hobby, slots, slotInterval, minScore, filters, daylightByDate)
+        .filter(window => window.end.getTime() - window.start.getTime() >= minDuration)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+
+      if (windows.length === 0) continue;
+
+      recommendations.push({ hobby, windows });
     }
 
-    // スコア順でソート
-    return recommendations.sort((a, b) => b.overallScore - a.overallScore);
+    // 最良の時間帯のスコア順でソート
+    return recommendations.sort((a, b) => (b.windows[0]?.score ?? 0) - (a.windows[0]?.score ?? 0));
+  }
+
+  /**
+   * 条件を満たす連続した時間単位予報をおすすめ時間帯としてまとめる
+   */
+  private findRecommendedWindows(
+    hobby: Hobby,
+    slots: HourlyForecast[],
+    slotInterval: number,
+    minScore: number,
+    filters?: RecommendationFilters,
+    daylightByDate: Map<string, DaylightTimes> = new Map()
+  ): RecommendedWindow[] {
+    const preferredTimes = hobby.preferredTimeOfDay?.length ? hobby.preferredTimeOfDay : null;
+    const busyIntervals = this.getBusyIntervals(filters);
+    const windows: RecommendedWindow[] = [];
+    let run: {
+      timeOfDay: TimeOfDay;
+      slots: HourlyForecast[];
+      scores: number[];
+      safety: SafetyIndices[];
+    } | null = null;
+
+    const closeRun = () => {
+      if (run) {
+        const daylight = run.slots[0] && daylightByDate.get(run.slots[0].datetime.toDateString());
+        windows.push(this.createWindow(hobby, run.timeOfDay, run.slots, run.scores, slotInterval, run.safety, daylight));
+        run = null;
+      }
+    };
+
+    for (const slot of slots) {
+      const timeOfDay = this.getTimeOfDay(slot.datetime);
+
+      if (preferredTimes && !preferredTimes.includes(timeOfDay)) {
+        closeRun();
+        continue;
+      }
+
+      if (!this.isWithinActivityHours(hobby, slot.datetime)) {
+        closeRun();
+        continue;
+      }
+
+      // 日中だけ活動する趣味は日の出〜日の入りの間の予報のみ
+      const daylight = daylightByDate.get(slot.datetime.toDateString());
+      const slotEnd = new Date(slot.datetime.getTime() + slotInterval);
+      if (hobby.requiresDaylight && daylight && !isWithinDaylight(daylight, slot.datetime, slot.datetime, slotEnd)) {
+        closeRun();
+        continue;
+      }
+
+      const slotDate = new Date(slot.datetime);
+      slotDate.setHours(0, 0, 0, 0);
+      if (!this.passesFilters({ date: slotDate, weatherType: slot.weatherType }, filters)) {
+        closeRun();
+        continue;
+      }
+
+      const conditions = this.toHourlyConditions(slot);
+      if (this.checkHardConstraints(hobby, conditions).length > 0) {
+        closeRun();
+        continue;
+      }
+
+      // 屋外の趣味は暑さ・寒さが「危険」の時間を除き、それ以外は危険度でスコアを上書き
+      const safety = calculateHourlySafety(slot);
+      if (hobby.isOutdoor && this.isDangerous(safety)) {
+        closeRun();
+        continue;
+      }
+
+      let { score } = this.calculateDayScore(hobby, conditions);
+      if (hobby.isOutdoor) {
+        score = this.applySafetyOverride(safety, score).score;
+      }
+
+      // ゴールデンアワーの空が期待できる時間は加点
+      if (hobby.prefersGoldenHour && daylight &&
+        findClearGoldenHour(daylight, [slot], slotInterval, slot.datetime, slotEnd)) {
+        score = Math.min(100, score + GOLDEN_HOUR_BONUS);
+      }
+
+      // 予定と重なる時間は除外または減点
+      if (findOverlappingBusyIntervals(slot.datetime, slotEnd, busyIntervals).length > 0) {
+        if (filters?.busyHandling === 'penalize') {
+          score = Math.max(0, score - BUSY_PENALTY);
+        } else {
+          closeRun();
+          continue;
+        }
+      }
+
+      if (score < minScore) {
+        closeRun();
+        continue;
+      }
+
+      const previous: HourlyForecast | undefined = run?.slots[run.slots.length - 1];
+      const isContinuous = run !== null && previous !== undefined &&
+        run.timeOfDay === timeOfDay &&
+        slot.datetime.getTime() - previous.datetime.getTime() <= slotInterval;
+
+      if (run && isContinuous) {
+        run.slots.push(slot);
+        run.scores.push(score);
+        run.safety.push(safety);
+      } else {
+        closeRun();
+        run = { timeOfDay, slots: [slot], scores: [score], safety: [safety] };
+      }
+    }
+    closeRun();
+
+    return windows;
+  }
+
+  /**
+   * おすすめ時間帯を生成
+   * 要因分析は時間帯内の平均気温・最大降水確率・最大風速で行う
+   */
+  private createWindow(
+    hobby: Hobby,
+    timeOfDay: TimeOfDay,
+    slots: HourlyForecast[],
+    scores: number[],
+    slotInterval: number,
+    slotSafety: SafetyIndices[],
+    daylight?: DaylightTimes
+  ): RecommendedWindow {
+    const first = slots[0];
+    const last = slots[slots.length - 1];
+    if (!first || !last) {
+      throw new Error('Recommended window requires at least one slot');
+    }
+
+    const representative = slots[Math.floor(slots.length / 2)] ?? first;
+    const conditions: ScoringConditions = {
+      weatherType: representative.weatherType,
+      weatherIntensity: getStrongestIntensity(
+        slots.filter(slot => slot.weatherType === representative.weatherType).map(slot => slot.weatherIntensity)
+      ),
+      weatherDescription: representative.weatherDescription,
+      temperature: slots.reduce((sum, slot) => sum + slot.temperature, 0) / slots.length,
+      feelsLikeMin: Math.min(...slots.map(slot => slot.feelsLike)),
+      feelsLikeMax: Math.max(...slots.map(slot => slot.feelsLike)),
+      pop: Math.max(...slots.map(slot => slot.pop)),
+      precipitation: this.totalPrecipitation(slots),
+      windSpeed: Math.max(...slots.map(slot => slot.windSpeed)),
+      windGust: this.maxWindGust(slots),
+      uvIndex: Math.max(...slots.map(slot => slot.uvIndex)),
+      visibility: this.minVisibility(slots)
+    };
+    const { matchingFactors, warningFactors } = this.analyzeFactors(hobby, conditions);
+    const end = new Date(last.datetime.getTime() + slotInterval);
+
+    const goldenHour = hobby.prefersGoldenHour && daylight
+      ? findClearGoldenHour(daylight, slots, slotInterval, first.datetime, end)
+      : null;
+    if (goldenHour) {
+      matchingFactors.push(this.formatGoldenHour(goldenHour));
+    }
+
+    const score = scores.reduce((sum, value) => sum + value, 0) / scores.length;
+    const safety = getWorstSafety(slotSafety);
+    if (hobby.isOutdoor && safety) {
+      warningFactors.unshift(...this.applySafetyOverride(safety, score).warningFactors);
+    }
+
+    return {
+      start: first.datetime,
+      end,
+      timeOfDay,
+      score,
+      matchingFactors,
+      warningFactors,
+      slots,
+      ...(safety && { safety })
+    };
+  }
+
+  /**
+   * 1つの趣味のおすすめを生成（該当する日がない場合はnull）
+   */
+  private buildRecommendation(
+    hobby: Hobby,
+    forecasts: DailyForecast[],
+    hourly: HourlyForecast[],
+    slotInterval: number,
+    filters?: RecommendationFilters,
+    travel?: TravelContext,
+    hiddenRecommendations?: HiddenRecommendation[]
+  ): HobbyRecommendation | null {
+    const recommendedDays = this.calculateDailyScores(
+      hobby, forecasts, hourly, slotInterval, filters, travel, hiddenRecommendations
+    );
+
+    if (recommendedDays.length === 0) return null;
+
+    return {
+      hobby,
+      recommendedDays,
+      overallScore: this.calculateOverallScore(recommendedDays),
+      bestDayIndex: this.findBestDayIndex(recommendedDays)
+    };
   }
 
   /**
    * 各日のスコアを計算
+   * 予定と重なるため外した日はhiddenRecommendationsに追加する
    */
   private calculateDailyScores(
     hobby: Hobby,
     forecasts: DailyForecast[],
-    filters?: RecommendationFilters
+    hourly: HourlyForecast[],
+    slotInterval: number,
+    filters?: RecommendationFilters,
+    travel?: TravelContext,
+    hiddenRecommendations?: HiddenRecommendation[]
   ): RecommendedDay[] {
     const recommendedDays: RecommendedDay[] = [];
+    const busyIntervals = this.getBusyIntervals(filters);
 
     for (const forecast of forecasts) {
       // フィルター適用
       if (!this.passesFilters(forecast, filters)) continue;
 
-      const dayScore = this.calculateDayScore(hobby, forecast);
-      const { matchingFactors, warningFactors } = this.analyzeFactors(hobby, forecast);
+      const conditions = this.toDailyConditions(hobby, forecast);
+      const { matchingFactors, warningFactors } = this.analyzeFactors(hobby, conditions);
+      let { score, breakdown } = this.calculateDayScore(hobby, conditions);
+      let activityWindow: ActivityWindow | undefined;
+      let violations: ConstraintViolation[];
+      let busyConflicts: BusyInterval[] = [];
+
+      // 活動時間が設定されている場合は時間単位予報から連続した時間帯を探す
+      const daySlots = hourly.filter(slot => slot.datetime.toDateString() === forecast.date.toDateString());
+      if (hobby.durationMinutes && daySlots.length > 0) {
+        activityWindow = this.findActivityWindow(hobby, daySlots, slotInterval, busyIntervals, forecast.daylight) ?? undefined;
+
+        // 空いている時間帯がない場合は予定と重なる時間帯を候補にして、重なる予定を記録する
+        if (!activityWindow && busyIntervals.length > 0) {
+          activityWindow = this.findActivityWindow(hobby, daySlots, slotInterval, [], forecast.daylight) ?? undefined;
+          if (activityWindow) {
+            busyConflicts = findOverlappingBusyIntervals(activityWindow.start, activityWindow.end, busyIntervals);
+          }
+        }
+        violations = activityWindow ? [] : this.explainMissingWindow(hobby, daySlots, forecast.daylight);
+
+        if (activityWindow) {
+          score = activityWindow.score;
+          breakdown = activityWindow.breakdown;
+          matchingFactors.push(t('factor.activityWindow', {
+            start: this.formatTime(activityWindow.start),
+            end: this.formatTime(activityWindow.end)
+          }));
+          if (activityWindow.goldenHour) {
+            matchingFactors.push(this.formatGoldenHour(activityWindow.goldenHour));
+          }
+        }
+      } else {
+        violations = [...this.checkHardConstraints(hobby, conditions), ...this.checkDaylight(hobby, forecast)];
+        busyConflicts = this.findDayBusyConflicts(hobby, forecast.date, busyIntervals);
+
+        // ゴールデンアワーの空が期待できる日は加点
+        const dayStart = new Date(forecast.date.getFullYear(), forecast.date.getMonth(), forecast.date.getDate());
+        const dayEnd = new Date(dayStart.getFullYear(), dayStart.getMonth(), dayStart.getDate() + 1);
+        const goldenHour = hobby.prefersGoldenHour && forecast.daylight
+          ? findClearGoldenHour(forecast.daylight, daySlots, slotInterval, dayStart, dayEnd)
+          : null;
+        if (goldenHour) {
+          score = Math.min(100, score + GOLDEN_HOUR_BONUS);
+          matchingFactors.push(this.formatGoldenHour(goldenHour));
+        }
+      }
+
+      // 夜空モードの趣味は天気の好みの代わりにその日の夜の暗さと晴れでスコアを計算
+      if (hobby.scoringMode === 'night-sky' && forecast.nightSky) {
+        const nightSky = this.calculateNightSkyScore(
+          forecast.nightSky,
+          this.getNightCloudiness(forecast, hourly, slotInterval)
+        );
+        score = nightSky.score;
+        breakdown = nightSky.breakdown;
+        matchingFactors.push(...nightSky.matchingFactors);
+        warningFactors.push(...nightSky.warningFactors);
+      }
+
+      // 屋外の趣味は暑さ・寒さの危険度でスコアを上書き（活動時間帯がある場合はその時間帯で判定）
+      const safety = activityWindow?.safety ?? calculateDailySafety(
+        forecast,
+        hobby.preferredTimeOfDay?.length ? hobby.preferredTimeOfDay : undefined
+      );
+      if (hobby.isOutdoor) {
+        const override = this.applySafetyOverride(safety, score);
+        score = override.score;
+        violations.push(...override.violations);
+        warningFactors.unshift(...override.warningFactors);
+      }
+
+      // 移動距離が上限を超える場合は活動不可、それ以外は距離に応じて減点
+      if (travel) {
+        const distance = Math.round(travel.distanceKm);
+        if (travel.maxDistanceKm !== undefined && travel.distanceKm > travel.maxDistanceKm) {
+          violations.push({
+            constraint: 'travel',
+            message: t('factor.travelOverLimit', { distance, limit: travel.maxDistanceKm })
+          });
+        } else {
+          const penalty = Math.min(travel.distanceKm * TRAVEL_PENALTY_PER_KM, MAX_TRAVEL_PENALTY);
+          if (penalty >= 1) {
+            score = Math.max(0, score - penalty);
+            warningFactors.push(t('factor.travelPenalty', { distance, penalty: Math.round(penalty) }));
+          }
+        }
+      }
+
+      // 活動不可の日はスコア0として理由を注意事項の先頭に表示
+      const isPossible = violations.length === 0;
+      if (!isPossible) {
+        score = 0;
+        warningFactors.unshift(...violations.map(violation => t('factor.blocked', { reason: violation.message })));
+      }
+
+      // 予定と重なる日は減点（除外する場合は最小スコアの判定後に外す）
+      const isBusy = isPossible && busyConflicts.length > 0;
+      if (isBusy && filters?.busyHandling === 'penalize') {
+        score = Math.max(0, score - BUSY_PENALTY);
+        warningFactors.unshift(t('factor.busyPenalty', {
+          summary: this.formatBusySummary(busyConflicts),
+          penalty: BUSY_PENALTY
+        }));
+      }
 
       // 最小スコアフィルター
-      if (filters?.minScore && dayScore.score < filters.minScore) continue;
+      if (filters?.minScore && score < filters.minScore) continue;
 
-      recommendedDays.push({
+      const confidence = getForecastConfidence(forecast);
+      const recommendedDay: RecommendedDay = {
         date: forecast.date,
-        score: dayScore.score,
+        score,
+        confidence,
+        adjustedScore: Math.round(score * confidence * 10) / 10,
         matchingFactors,
         warningFactors,
-        forecast
+        forecast,
+        isPossible,
+        breakdown,
+        safety
+      };
+      if (activityWindow) {
+        recommendedDay.activityWindow = activityWindow;
+      }
+      if (travel) {
+        recommendedDay.travelDistance = travel.distanceKm;
+      }
+
+      if (isBusy && filters?.busyHandling !== 'penalize') {
+        hiddenRecommendations?.push({ hobby, day: recommendedDay, conflicts: busyConflicts });
+        continue;
+      }
+
+      recommendedDays.push(recommendedDay);
+    }
+
+    // 実施可能な日を優先し、スコア順でソート
+    return recommendedDays.sort((a, b) => Number(b.isPossible) - Number(a.isPossible) || b.score - a.score);
+  }
+
+  /**
+   * 活動時間を満たす連続した時間帯のうち最もスコアが高いものを探す
+   *
+   * アルゴリズム:
+   * 1. 活動時間を予報間隔で割り、必要な連続予報数を算出（30分の散歩なら1つ、6時間のハイキングなら3時間間隔で2つ）
+   * 2. 開始時刻を1つずつずらし、開始可能時刻〜終了期限に収まる候補を列挙
+   * 3. 候補内のすべての予報が最小スコア以上かつ活動不可条件に該当しない場合のみ採用し、
+   *    平均スコアが最も高い候補を返す
+   * 4. 予定が指定された場合は予定と重なる候補を除く
+   * 5. 日中だけ活動する趣味は日の出〜日の入りに収まる候補に限り、
+   *    ゴールデンアワーを好む趣味は空が期待できるゴールデンアワーを含む候補に加点する
+   *
+   * 該当する時間帯がない場合はnullを返す
+   */
+  private findActivityWindow(
+    hobby: Hobby,
+    daySlots: HourlyForecast[],
+    slotInterval: number,
+    busyIntervals: BusyInterval[] = [],
+    daylight?: DaylightTimes
+  ): ActivityWindow | null {
+    const durationMinutes = hobby.durationMinutes ?? 0;
+    const slotCount = Math.max(1, Math.ceil((durationMinutes * 60 * 1000) / slotInterval));
+    const latestEnd = this.parseTime(hobby.latestEnd) ?? 24 * 60;
+    const preferredTimes = hobby.preferredTimeOfDay?.length ? hobby.preferredTimeOfDay : null;
+    const slotConditions = daySlots.map(slot => this.toHourlyConditions(slot));
+    const slotScores = slotConditions.map(conditions => this.calculateDayScore(hobby, conditions));
+    const scores = slotScores.map(slotScore => slotScore.score);
+    const slotSafety = daySlots.map(slot => calculateHourlySafety(slot));
+    // 屋外の趣味は暑さ・寒さが「危険」の時間も活動不可
+    const blocked = slotConditions.map((conditions, index) =>
+      this.checkHardConstraints(hobby, conditions).length > 0 ||
+      (hobby.isOutdoor === true && this.isDangerous(slotSafety[index]))
+    );
+
+    let best: ActivityWindow | null = null;
+
+    for (let i = 0; i + slotCount <= daySlots.length; i++) {
+      const first = daySlots[i];
+      if (!first) continue;
+
+      // 開始時刻の制約（開始可能時刻・活動時間帯・終了期限）
+      if (!this.isWithinActivityHours(hobby, first.datetime)) continue;
+      if (preferredTimes && !preferredTimes.includes(this.getTimeOfDay(first.datetime))) continue;
+      if (this.getMinutesOfDay(first.datetime) + durationMinutes > latestEnd) continue;
+
+      const windowSlots = daySlots.slice(i, i + slotCount);
+      const windowScores = scores.slice(i, i + slotCount);
+
+      // 途中で予報が欠けている場合や条件を満たさない予報を含む場合は不採用
+      const isContinuous = windowSlots.every((slot, index) => {
+        const previous = windowSlots[index - 1];
+        return !previous || slot.datetime.getTime() - previous.datetime.getTime() <= slotInterval;
       });
+      if (!isContinuous || windowScores.some(score => score < ACTIVITY_SLOT_MIN_SCORE)) continue;
+      if (blocked.slice(i, i + slotCount).some(Boolean)) continue;
+
+      const end = new Date(first.datetime.getTime() + durationMinutes * 60 * 1000);
+      if (hobby.requiresDaylight && daylight && !isWithinDaylight(daylight, first.datetime, first.datetime, end)) continue;
+      if (findOverlappingBusyIntervals(first.datetime, end, busyIntervals).length > 0) continue;
+
+      const goldenHour = hobby.prefersGoldenHour && daylight
+        ? findClearGoldenHour(daylight, windowSlots, slotInterval, first.datetime, end)
+        : null;
+      const averageScore = windowScores.reduce((sum, value) => sum + value, 0) / windowScores.length;
+      const score = goldenHour ? Math.min(100, averageScore + GOLDEN_HOUR_BONUS) : averageScore;
+      if (best && score <= best.score) continue;
+
+      const worstScore = Math.min(...windowScores);
+      const worstSlot = windowSlots[windowScores.indexOf(worstScore)] ?? first;
+      const safety = getWorstSafety(slotSafety.slice(i, i + slotCount));
+
+      best = {
+        start: first.datetime,
+        end,
+        score,
+        worstSlot,
+        worstSlotScore: worstScore,
+        breakdown: this.averageBreakdowns(slotScores.slice(i, i + slotCount).map(slotScore => slotScore.breakdown)),
+        ...(goldenHour && { goldenHour }),
+        ...(safety && { safety })
+      };
     }
 
-    return recommendedDays.sort((a, b) => b.score - a.score);
+    return best;
   }
 
   /**
-   * 趣味に対する1日のスコアを算出（0-100点）
+   * 趣味に対する1日（時間単位予報の場合はその時間）のスコアを算出（0-100点）
    * 
-   * スコア構成要素と重み付け:
+   * スコア構成要素と標準の重み付け:
    * - 天気タイプ: 40% （最も重要な要素、趣味の適性に直結）
    * - 気温: 25% （体感に大きく影響、活動の快適性を左右）
    * - 降水確率: 20% （屋外活動に重要、屋内活動には影響少）
    * - 風速: 10% （一部の活動に影響、スポーツ系で重要）
    * - UV指数: 5% （長時間屋外活動時のみ考慮）
    * 
-   * 重み付けは実際の利用パターンやフィードバックに基づいて調整可能
+   * 趣味にスコアプロファイルが設定されている場合はその重みを使用する
+   * （例: カヤックは「風に弱い」プリセットで風速の比重を上げる）
    */
-  private calculateDayScore(hobby: Hobby, forecast: DailyForecast): { score: number; breakdown: Record<string, number> } {
-    let score = 0;
-    const breakdown: Record<string, number> = {};
+  private calculateDayScore(hobby: Hobby, conditions: ScoringConditions): { score: number; breakdown: ScoreBreakdownItem[] } {
+    const factorScores: Record<ScoreFactor, number> = {
+      weather: this.calculateWeatherScore(hobby, conditions),
+      temperature: this.calculateTemperatureScore(hobby, conditions),
+      precipitation: this.calculatePrecipitationScore(hobby, conditions),
+      wind: this.calculateWindScore(hobby, conditions),
+      uv: this.calculateUVScore(hobby, conditions)
+    };
+    const weights = this.getScoringWeights(hobby);
 
-    // 天気タイプスコア (40%) - 趣味の適性に最も重要
-    const weatherScore = this.calculateWeatherScore(hobby, forecast);
-    score += weatherScore * 0.4;
-    breakdown['weather'] = weatherScore;
+    const breakdown = SCORE_FACTORS.map(factor => ({
+      factor,
+      score: factorScores[factor],
+      weight: weights[factor],
+      contribution: factorScores[factor] * weights[factor]
+    }));
+    const score = breakdown.reduce((sum, item) => sum + item.contribution, 0);
 
-    // 気温スコア (25%) - 快適性に大きく影響
-    const temperatureScore = this.calculateTemperatureScore(hobby, forecast);
-    score += temperatureScore * 0.25;
-    breakdown['temperature'] = temperatureScore;
+    return { score: Math.max(0, Math.min(100, score)), breakdown };
+  }
 
-    // 降水確率スコア (20%) - 屋外活動の実行可能性を判断
-    const precipitationScore = this.calculatePrecipitationScore(hobby, forecast);
-    score += precipitationScore * 0.2;
-    breakdown['precipitation'] = precipitationScore;
+  /**
+   * 夜空モードのスコア計算
+   * 夜間の雲量・月明かり（輝面比 × 暗い時間に月が出ている割合）・暗い時間の長さを重み付けする
+   */
+  private calculateNightSkyScore(nightSky: NightSky, cloudiness: number): {
+    score: number;
+    breakdown: ScoreBreakdownItem[];
+    matchingFactors: string[];
+    warningFactors: string[];
+  } {
+    const moonUpRatio = nightSky.darknessMinutes > 0
+      ? 1 - nightSky.moonlessDarknessMinutes / nightSky.darknessMinutes
+      : 1;
+    const factorScores: Record<NightSkyFactor, number> = {
+      cloudCover: Math.max(0, 100 - cloudiness),
+      moonlight: 100 * (1 - nightSky.moonIllumination * moonUpRatio),
+      darkness: 100 * Math.min(1, nightSky.darknessMinutes / FULL_DARKNESS_MINUTES)
+    };
 
-    // 風速スコア (10%) - 一部活動への影響を考慮
-    const windScore = this.calculateWindScore(hobby, forecast);
-    score += windScore * 0.1;
-    breakdown['wind'] = windScore;
+    const breakdown = NIGHT_SKY_FACTORS.map(factor => ({
+      factor,
+      score: factorScores[factor],
+      weight: NIGHT_SKY_WEIGHTS[factor],
+      contribution: factorScores[factor] * NIGHT_SKY_WEIGHTS[factor]
+    }));
+    const score = breakdown.reduce((sum, item) => sum + item.contribution, 0);
 
-    // UV指数スコア (5%)
-    const uvScore = this.calculateUVScore(hobby, forecast);
-    score += uvScore * 0.05;
-    breakdown['uv'] = uvScore;
+    const matchingFactors: string[] = [];
+    const warningFactors: string[] = [];
+    const roundedCloudiness = Math.round(cloudiness);
+    if (cloudiness >= NIGHT_SKY_CLOUDY_THRESHOLD) {
+      warningFactors.push(t('factor.nightSky.cloudy', { value: roundedCloudiness }));
+    } else {
+      matchingFactors.push(t('factor.nightSky.clear', { value: roundedCloudiness }));
+    }
 
-    return { score: Math.max(0, Math.min(100, score)), breakdown };
+    // 30分単位で表示
+    const moonlessHours = Math.round(nightSky.moonlessDarknessMinutes / 30) / 2;
+    if (nightSky.darknessMinutes === 0) {
+      warningFactors.push(t('factor.nightSky.noDarkness'));
+    } else if (moonlessHours > 0) {
+      matchingFactors.push(t('factor.nightSky.moonless', { count: moonlessHours }));
+    }
+    if (nightSky.darknessMinutes > 0 && nightSky.moonIllumination >= BRIGHT_MOON_ILLUMINATION && moonUpRatio > 0) {
+      warningFactors.push(t('factor.nightSky.brightMoon', { percent: Math.round(nightSky.moonIllumination * 100) }));
+    }
+
+    return { score: Math.max(0, Math.min(100, score)), breakdown, matchingFactors, warningFactors };
+  }
+
+  /**
+   * 夜空モードで使う夜間の雲量
+   * 暗い時間に重なる時間単位予報の平均、ない場合は日別予報の雲量
+   */
+  private getNightCloudiness(forecast: DailyForecast, hourly: HourlyForecast[], slotInterval: number): number {
+    const darkness = forecast.nightSky?.darkness;
+    const nightSlots = darkness
+      ? hourly.filter(slot =>
+        slot.datetime.getTime() < darkness.end.getTime() &&
+        slot.datetime.getTime() + slotInterval > darkness.start.getTime()
+      )
+      : [];
+    if (nightSlots.length === 0) return forecast.cloudiness;
+
+    return nightSlots.reduce((sum, slot) => sum + slot.cloudiness, 0) / nightSlots.length;
+  }
+
+  /**
+   * 複数の内訳を要素ごとに平均（重みは共通のため寄与の合計は平均スコアと一致する）
+   */
+  private averageBreakdowns(breakdowns: ScoreBreakdownItem[][]): ScoreBreakdownItem[] {
+    return SCORE_FACTORS.map(factor => {
+      const items = breakdowns.flatMap(breakdown => breakdown.filter(item => item.factor === factor));
+      const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / Math.max(1, values.length);
+
+      return {
+        factor,
+        score: average(items.map(item => item.score)),
+        weight: items[0]?.weight ?? 0,
+        contribution: average(items.map(item => item.contribution))
+      };
+    });
+  }
+
+  /**
+   * 趣味の重み付けを合計1に正規化して取得
+   */
+  private getScoringWeights(hobby: Hobby): ScoringWeights {
+    const sumWeights = (weights: ScoringWeights) =>
+      SCORE_FACTORS.reduce((sum, factor) => sum + Math.max(0, weights[factor]), 0);
+
+    // すべて0の場合は標準の重みを使用
+    const custom = hobby.scoringProfile?.weights;
+    const weights = custom && sumWeights(custom) > 0 ? custom : DEFAULT_SCORING_WEIGHTS;
+    const total = sumWeights(weights);
+
+    return SCORE_FACTORS.reduce((normalized, factor) => {
+      normalized[factor] = Math.max(0, weights[factor]) / total;
+      return normalized;
+    }, { ...weights });
+  }
+
+  /**
+   * 日別予報をスコア計算用の気象条件に変換
+   */
+  private toDailyConditions(hobby: Hobby, forecast: DailyForecast): ScoringConditions {
+    const feelsLike = this.getTargetFeelsLike(hobby, forecast);
+
+    return {
+      weatherType: forecast.weatherType,
+      weatherIntensity: forecast.weatherIntensity,
+      weatherDescription: forecast.weatherDescription,
+      temperature: this.getTargetTemperature(hobby, forecast),
+      feelsLikeMin: Math.min(...feelsLike),
+      feelsLikeMax: Math.max(...feelsLike),
+      pop: forecast.pop,
+      precipitation: this.totalPrecipitation([forecast]),
+      windSpeed: forecast.windSpeed,
+      windGust: forecast.windGust,
+      uvIndex: forecast.uvIndex,
+      visibility: forecast.visibility
+    };
+  }
+
+  /**
+   * 時間単位予報をスコア計算用の気象条件に変換
+   */
+  private toHourlyConditions(slot: HourlyForecast): ScoringConditions {
+    return {
+      weatherType: slot.weatherType,
+      weatherIntensity: slot.weatherIntensity,
+      weatherDescription: slot.weatherDescription,
+      temperature: slot.temperature,
+      feelsLikeMin: slot.feelsLike,
+      feelsLikeMax: slot.feelsLike,
+      pop: slot.pop,
+      precipitation: this.totalPrecipitation([slot]),
+      windSpeed: slot.windSpeed,
+      windGust: slot.windGust,
+      uvIndex: slot.uvIndex,
+      visibility: slot.visibility
+    };
+  }
+
+  /**
+   * 活動不可条件（ハード制約）の判定
+   *
+   * スコアによる減点とは異なり、1つでも該当すると活動不可として扱う
+   * 例: カヤックで最大風速8m/sを設定 → 風速14m/sの日は他の条件が良くても除外
+   */
+  private checkHardConstraints(hobby: Hobby, conditions: ScoringConditions): ConstraintViolation[] {
+    const constraints = hobby.hardConstraints;
+    if (!constraints) return [];
+
+    const violations: ConstraintViolation[] = [];
+
+    if (constraints.maxWindSpeed !== undefined && conditions.windSpeed > constraints.maxWindSpeed) {
+      violations.push({
+        constraint: 'maxWindSpeed',
+        message: t('factor.constraint.windSpeed', {
+          value: formatWindSpeed(conditions.windSpeed),
+          limit: formatWindSpeed(constraints.maxWindSpeed)
+        })
+      });
+    }
+
+    const popPercent = conditions.pop * 100;
+    if (constraints.maxPrecipitationProbability !== undefined && popPercent > constraints.maxPrecipitationProbability) {
+      violations.push({
+        constraint: 'maxPrecipitationProbability',
+        message: t('factor.constraint.precipitation', {
+          value: popPercent.toFixed(0),
+          limit: constraints.maxPrecipitationProbability
+        })
+      });
+    }
+
+    // 視程を提供しない取得元の場合は判定しない
+    if (constraints.minVisibility !== undefined && conditions.visibility !== undefined &&
+      conditions.visibility < constraints.minVisibility) {
+      violations.push({
+        constraint: 'minVisibility',
+        message: t('factor.constraint.visibility', {
+          value: (conditions.visibility / 1000).toFixed(1),
+          limit: (constraints.minVisibility / 1000).toFixed(1)
+        })
+      });
+    }
+
+    if (constraints.forbiddenWeather?.includes(conditions.weatherType)) {
+      violations.push({
+        constraint: 'forbiddenWeather',
+        message: t('factor.constraint.forbiddenWeather', {
+          icon: weatherService.getWeatherIcon(conditions.weatherType),
+          weather: conditions.weatherDescription
+        })
+      });
+    }
+
+    if (constraints.minFeelsLike !== undefined && conditions.feelsLikeMin < constraints.minFeelsLike) {
+      violations.push({
+        constraint: 'minFeelsLike',
+        message: t('factor.constraint.minFeelsLike', {
+          value: formatTemperature(conditions.feelsLikeMin, undefined, 1),
+          limit: formatTemperature(constraints.minFeelsLike, undefined, 1)
+        })
+      });
+    }
+
+    if (constraints.maxFeelsLike !== undefined && conditions.feelsLikeMax > constraints.maxFeelsLike) {
+      violations.push({
+        constraint: 'maxFeelsLike',
+        message: t('factor.constraint.maxFeelsLike', {
+          value: formatTemperature(conditions.feelsLikeMax, undefined, 1),
+          limit: formatTemperature(constraints.maxFeelsLike, undefined, 1)
+        })
+      });
+    }
+
+    return violations;
+  }
+
+  /**
+   * 活動時間を確保できなかった理由を作成
+   * 活動不可条件に該当した予報があれば、条件ごとに最初の該当内容を添える
+   * 日中だけ活動する趣味には、活動できる日の出〜日の入りの時刻を添える
+   */
+  private explainMissingWindow(hobby: Hobby, daySlots: HourlyForecast[], daylight?: DaylightTimes): ConstraintViolation[] {
+    const reasons = new Map<ConstraintViolation['constraint'], ConstraintViolation>();
+
+    const date = daySlots[0]?.datetime;
+    if (hobby.requiresDaylight && daylight && date) {
+      const range = getDaylightRange(daylight, date);
+      reasons.set('daylight', {
+        constraint: 'daylight',
+        message: range
+          ? t('factor.constraint.daylight', { sunrise: this.formatTime(range.start), sunset: this.formatTime(range.end) })
+          : t('factor.constraint.polarNight')
+      });
+    }
+
+    for (const slot of daySlots) {
+      for (const violation of this.checkHardConstraints(hobby, this.toHourlyConditions(slot))) {
+        if (!reasons.has(violation.constraint)) {
+          reasons.set(violation.constraint, {
+            ...violation,
+            message: `${this.formatTime(slot.datetime)} ${violation.message}`
+          });
+        }
+      }
+    }
+
+    return [
+      {
+        constraint: 'duration',
+        message: t('factor.constraint.duration', { count: hobby.durationMinutes ?? 0 })
+      },
+      ...reasons.values()
+    ];
+  }
+
+  /**
+   * 暑さ・寒さによるスコアの上書き（屋外の趣味のみ）
+   * 危険: 活動不可、厳重警戒・寒さの警戒: スコアを上限まで下げる、暑さの警戒: 減点、注意: 注意事項のみ
+   */
+  private applySafetyOverride(safety: SafetyIndices, score: number): {
+    score: number;
+    violations: ConstraintViolation[];
+    warningFactors: string[];
+  } {
+    const violations: ConstraintViolation[] = [];
+    const warningFactors: string[] = [];
+    let adjusted = score;
+
+    const heat = t('factor.safety.heat', {
+      value: safety.wbgt.toFixed(1),
+      level: t(`safety.wbgt.${safety.wbgtLevel}`)
+    });
+    switch (safety.wbgtLevel) {
+      case 'danger':
+        violations.push({ constraint: 'heat', message: heat });
+        break;
+      case 'severeWarning':
+        adjusted = Math.min(adjusted, SAFETY_SCORE_CAP);
+        warningFactors.push(heat);
+        break;
+      case 'warning':
+        adjusted = Math.max(0, adjusted - SAFETY_WARNING_PENALTY);
+        warningFactors.push(heat);
+        break;
+      case 'caution':
+        warningFactors.push(heat);
+        break;
+    }
+
+    const cold = t('factor.safety.cold', {
+      value: formatTemperature(safety.windChill, undefined, 1),
+      level: t(`safety.cold.${safety.coldStressLevel}`)
+    });
+    switch (safety.coldStressLevel) {
+      case 'danger':
+        violations.push({ constraint: 'cold', message: cold });
+        break;
+      case 'warning':
+        adjusted = Math.min(adjusted, SAFETY_SCORE_CAP);
+        warningFactors.push(cold);
+        break;
+      case 'caution':
+        warningFactors.push(cold);
+        break;
+    }
+
+    return { score: adjusted, violations, warningFactors };
+  }
+
+  // 暑さ・寒さが「危険」か
+  private isDangerous(safety: SafetyIndices | undefined): boolean {
+    return safety?.wbgtLevel === 'danger' || safety?.coldStressLevel === 'danger';
+  }
+
+  /**
+   * 日中だけ活動する趣味で、日の出がない日（極夜）を活動不可とする
+   * 時刻の指定がない趣味は日中のいずれかの時間に活動できるものとして扱う
+   */
+  private checkDaylight(hobby: Hobby, forecast: DailyForecast): ConstraintViolation[] {
+    if (!hobby.requiresDaylight || !forecast.daylight) return [];
+    if (getDaylightRange(forecast.daylight, forecast.date)) return [];
+
+    return [{ constraint: 'daylight', message: t('factor.constraint.polarNight') }];
   }
 
   /**
    * 天気タイプスコア計算
    */
-  private calculateWeatherScore(hobby: Hobby, forecast: DailyForecast): number {
+  private calculateWeatherScore(hobby: Hobby, conditions: ScoringConditions): number {
     if (!hobby.preferredWeather || hobby.preferredWeather.length === 0) return 50;
 
     // 天気条件配列の場合の処理
     const weatherConditions = hobby.preferredWeather;
-    const matchingCondition = weatherConditions.find(w => w.condition === forecast.weatherType);
+    const matchingCondition = findPreferredWeather(weatherConditions, conditions.weatherType, conditions.weatherIntensity);
     
     if (matchingCondition) {
       // 重み付きスコア計算 (重み1-10を0-100に変換)
@@ -162,6 +1222,7 @@ export class RecommendationService {
      * 
      * この互換性により、完全一致しない場合でも部分スコア（60点）を付与
      * 完全不適合でも最低限のスコア（20点）を保証してユーザビリティを向上
+     * 同じ天気で強さの上限を超えた場合は互換とみなさない（例: 弱い雨まで可の趣味で強い雨）
      */
     const compatibleWeather: Record<WeatherType, WeatherType[]> = {
       clear: ['clear'],
@@ -176,8 +1237,10 @@ export class RecommendationService {
       dust: ['dust']
     };
 
-    const compatible = compatibleWeather[forecast.weatherType] || [];
-    const hasCompatible = weatherConditions.some(weather => compatible.includes(weather.condition));
+    const compatible = compatibleWeather[conditions.weatherType] || [];
+    const hasCompatible = weatherConditions.some(weather =>
+      weather.condition !== conditions.weatherType && compatible.includes(weather.condition)
+    );
 
     return hasCompatible ? 60 : 20;
   }
@@ -193,9 +1256,9 @@ export class RecommendationService {
    * 例: 散歩（15-25℃設定）で気温30℃の場合
    * → 距離5℃ × 5点 = 25点減点 → 75点
    */
-  private calculateTemperatureScore(hobby: Hobby, forecast: DailyForecast): number {
+  private calculateTemperatureScore(hobby: Hobby, conditions: ScoringConditions): number {
     // 活動時間帯に基づいた気温を使用
-    const targetTemp = this.getTargetTemperature(hobby, forecast);
+    const targetTemp = conditions.temperature;
     
     // デフォルト範囲: 10-30度（一般的な屋外活動に適した範囲）
     const minTemp = hobby.minTemperature ?? 10;
@@ -222,20 +1285,24 @@ export class RecommendationService {
    * - 30%以下: 70点（注意すれば可能）
    * - 50%以下: 40点（リスクあり）
    * - 50%超: 10点（推奨しない）
+   * - 降水量がわかる場合、わずか（1mm未満）なら減点を半分に、多い（10mm以上）なら点数を半分にする
    * 
    * 屋内活動（読書、料理等）:
    * - より雨に寛容な評価
    * - 移動時の影響のみ考慮
    */
-  private calculatePrecipitationScore(hobby: Hobby, forecast: DailyForecast): number {
-    const popPercent = forecast.pop * 100;
+  private calculatePrecipitationScore(hobby: Hobby, conditions: ScoringConditions): number {
+    const popPercent = conditions.pop * 100;
 
     // 屋外活動は雨に敏感
     if (hobby.isOutdoor) {
-      if (popPercent <= 10) return 100;
-      if (popPercent <= 30) return 70;
-      if (popPercent <= 50) return 40;
-      return 10;
+      const score = popPercent <= 10 ? 100 : popPercent <= 30 ? 70 : popPercent <= 50 ? 40 : 10;
+      const amount = conditions.precipitation;
+
+      if (amount === undefined) return score;
+      if (amount < LIGHT_PRECIPITATION_MM) return score + (100 - score) / 2;
+      if (amount >= HEAVY_PRECIPITATION_MM) return score / 2;
+      return score;
     }
 
     // 屋内活動は雨の影響が少ない（移動時の影響のみ）
@@ -247,9 +1314,12 @@ export class RecommendationService {
 
   /**
    * 風速スコア計算
+   * 屋外活動は瞬間風速がわかる場合、平均風速に換算した値が平均風速より大きければその値で評価する
    */
-  private calculateWindScore(hobby: Hobby, forecast: DailyForecast): number {
-    const windSpeed = forecast.windSpeed;
+  private calculateWindScore(hobby: Hobby, conditions: ScoringConditions): number {
+    const windSpeed = hobby.isOutdoor && conditions.windGust !== undefined
+      ? Math.max(conditions.windSpeed, conditions.windGust / GUST_FACTOR)
+      : conditions.windSpeed;
 
     // 屋外活動は風の影響を受けやすい
     if (hobby.isOutdoor) {
@@ -267,8 +1337,8 @@ export class RecommendationService {
   /**
    * UVスコア計算
    */
-  private calculateUVScore(hobby: Hobby, forecast: DailyForecast): number {
-    const uvIndex = forecast.uvIndex;
+  private calculateUVScore(hobby: Hobby, conditions: ScoringConditions): number {
+    const uvIndex = conditions.uvIndex;
 
     if (!hobby.isOutdoor) return 100; // 屋内は UV の影響なし
 
@@ -283,7 +1353,7 @@ export class RecommendationService {
   /**
    * マッチング要因と警告要因を分析
    */
-  private analyzeFactors(hobby: Hobby, forecast: DailyForecast): {
+  private analyzeFactors(hobby: Hobby, conditions: ScoringConditions): {
     matchingFactors: string[];
     warningFactors: string[];
   } {
@@ -291,42 +1361,62 @@ export class RecommendationService {
     const warningFactors: string[] = [];
 
     // 天気チェック
-    const matchingWeather = hobby.preferredWeather?.find(w => w.condition === forecast.weatherType);
+    const matchingWeather = findPreferredWeather(hobby.preferredWeather ?? [], conditions.weatherType, conditions.weatherIntensity);
     if (matchingWeather) {
-      matchingFactors.push(`好適な天気: ${weatherService.getWeatherIcon(forecast.weatherType)} ${forecast.weatherDescription} (重み: ${matchingWeather.weight})`);
+      matchingFactors.push(t('factor.preferredWeather', {
+        icon: weatherService.getWeatherIcon(conditions.weatherType),
+        weather: conditions.weatherDescription,
+        weight: matchingWeather.weight
+      }));
     }
 
     // 気温チェック
-    const targetTemp = this.getTargetTemperature(hobby, forecast);
+    const targetTemp = conditions.temperature;
     const minTemp = hobby.minTemperature ?? 10;
     const maxTemp = hobby.maxTemperature ?? 30;
 
     if (targetTemp >= minTemp && targetTemp <= maxTemp) {
-      matchingFactors.push(`適温: ${targetTemp.toFixed(1)}°C`);
+      matchingFactors.push(t('factor.idealTemperature', { value: formatTemperature(targetTemp, undefined, 1) }));
     } else if (targetTemp < minTemp) {
-      warningFactors.push(`低温注意: ${targetTemp.toFixed(1)}°C (推奨: ${minTemp}°C以上)`);
+      warningFactors.push(t('factor.lowTemperature', {
+        value: formatTemperature(targetTemp, undefined, 1),
+        limit: formatTemperature(minTemp, undefined, 1)
+      }));
     } else {
-      warningFactors.push(`高温注意: ${targetTemp.toFixed(1)}°C (推奨: ${maxTemp}°C以下)`);
+      warningFactors.push(t('factor.highTemperature', {
+        value: formatTemperature(targetTemp, undefined, 1),
+        limit: formatTemperature(maxTemp, undefined, 1)
+      }));
     }
 
-    // 降水確率チェック
-    const popPercent = forecast.pop * 100;
-    if (hobby.isOutdoor && popPercent > 30) {
-      warningFactors.push(`降水確率: ${popPercent.toFixed(0)}%`);
+    // 降水確率チェック（降水量がわかる場合は量も添え、量が多ければ確率が低くても注意する）
+    const popPercent = conditions.pop * 100;
+    const amount = conditions.precipitation;
+    const isHeavy = amount !== undefined && amount >= HEAVY_PRECIPITATION_MM;
+    if (hobby.isOutdoor && (popPercent > 30 || isHeavy)) {
+      warningFactors.push(amount === undefined
+        ? t('factor.precipitation', { value: popPercent.toFixed(0) })
+        : t('factor.precipitationAmount', { value: popPercent.toFixed(0), amount: amount.toFixed(1) }));
     } else if (popPercent <= 10) {
-      matchingFactors.push(`晴天: 降水確率 ${popPercent.toFixed(0)}%`);
+      matchingFactors.push(t('factor.dry', { value: popPercent.toFixed(0) }));
     }
 
-    // 風速チェック
-    if (hobby.isOutdoor && forecast.windSpeed > 8) {
-      warningFactors.push(`強風注意: ${forecast.windSpeed.toFixed(1)} m/s`);
-    } else if (forecast.windSpeed <= 3) {
-      matchingFactors.push(`穏やかな風: ${forecast.windSpeed.toFixed(1)} m/s`);
+    // 風速チェック（平均風速が弱くても瞬間風速が強ければ注意する）
+    const strongGust = hobby.isOutdoor && conditions.windGust !== undefined && conditions.windGust >= STRONG_GUST_SPEED
+      ? conditions.windGust
+      : undefined;
+    if (hobby.isOutdoor && conditions.windSpeed > 8) {
+      warningFactors.push(t('factor.strongWind', { value: formatWindSpeed(conditions.windSpeed) }));
+    } else if (conditions.windSpeed <= 3 && strongGust === undefined) {
+      matchingFactors.push(t('factor.calmWind', { value: formatWindSpeed(conditions.windSpeed) }));
+    }
+    if (strongGust !== undefined) {
+      warningFactors.push(t('factor.strongGust', { value: formatWindSpeed(strongGust) }));
     }
 
     // UV指数チェック
-    if (hobby.isOutdoor && forecast.uvIndex > 7) {
-      warningFactors.push(`強いUV: 指数 ${forecast.uvIndex.toFixed(1)}`);
+    if (hobby.isOutdoor && conditions.uvIndex > 7) {
+      warningFactors.push(t('factor.highUv', { value: conditions.uvIndex.toFixed(1) }));
     }
 
     return { matchingFactors, warningFactors };
@@ -336,10 +1426,11 @@ export class RecommendationService {
    * 全体スコア計算
    */
   private calculateOverallScore(recommendedDays: RecommendedDay[]): number {
-    if (recommendedDays.length === 0) return 0;
+    const possibleDays = recommendedDays.filter(day => day.isPossible);
+    if (possibleDays.length === 0) return 0;
 
-    // 上位3日の平均スコア
-    const topDays = recommendedDays.slice(0, 3);
+    // 実施可能な日のうち上位3日の平均スコア
+    const topDays = possibleDays.slice(0, 3);
     return topDays.reduce((sum, day) => sum + day.score, 0) / topDays.length;
   }
 
@@ -347,13 +1438,15 @@ export class RecommendationService {
    * 最適日のインデックスを取得
    */
   private findBestDayIndex(recommendedDays: RecommendedDay[]): number {
-    if (recommendedDays.length === 0) return -1;
-    
-    let bestIndex = 0;
-    let bestScore = recommendedDays[0]?.score || 0;
+    // 実施可能な日がない場合は-1
+    let bestIndex = -1;
+    let bestScore = -1;
+
+    for (let i = 0; i < recommendedDays.length; i++) {
+      const day = recommendedDays[i];
+      if (!day?.isPossible) continue;
 
-    for (let i = 1; i < recommendedDays.length; i++) {
-      const currentScore = recommendedDays[i]?.score || 0;
+      const currentScore = day.score;
       if (currentScore > bestScore) {
         bestScore = currentScore;
         bestIndex = i;
@@ -363,10 +1456,45 @@ export class RecommendationService {
     return bestIndex;
   }
 
+  /**
+   * 避ける予定（onlyWhenFreeでない場合は空）
+   */
+  private getBusyIntervals(filters?: RecommendationFilters): BusyInterval[] {
+    return filters?.onlyWhenFree ? filters.busyIntervals ?? [] : [];
+  }
+
+  /**
+   * 時間単位の活動時間帯を探さない日に、予定で活動できなくなるかを判定
+   *
+   * 開始可能時刻〜終了期限（未設定なら終日）の中に、活動時間（未設定なら1時間）以上の
+   * 空き時間がない場合は、その範囲と重なる予定を返す
+   */
+  private findDayBusyConflicts(hobby: Hobby, date: Date, busyIntervals: BusyInterval[]): BusyInterval[] {
+    if (busyIntervals.length === 0) return [];
+
+    const start = new Date(date.getFullYear(), date.getMonth(), date.getDate(), 0, this.parseTime(hobby.earliestStart) ?? 0);
+    const end = new Date(date.getFullYear(), date.getMonth(), date.getDate(), 0, this.parseTime(hobby.latestEnd) ?? 24 * 60);
+    const requiredMinutes = hobby.durationMinutes ?? DEFAULT_FREE_MINUTES;
+
+    if (getLongestFreeMinutes(start, end, busyIntervals) >= requiredMinutes) return [];
+    return findOverlappingBusyIntervals(start, end, busyIntervals);
+  }
+
+  /**
+   * 重なる予定の件名（件名がない予定は時刻）をまとめる
+   */
+  private formatBusySummary(conflicts: BusyInterval[]): string {
+    return conflicts
+      .map(conflict => conflict.summary ?? (conflict.allDay
+        ? t('availability.allDay')
+        : `${this.formatTime(conflict.start)}-${this.formatTime(conflict.end)}`))
+      .join(t('common.listSeparator'));
+  }
+
   /**
    * フィルター適用チェック
    */
-  private passesFilters(forecast: DailyForecast, filters?: RecommendationFilters): boolean {
+  private passesFilters(forecast: Pick<DailyForecast, 'date' | 'weatherType'>, filters?: RecommendationFilters): boolean {
     if (!filters) return true;
 
     // 日付範囲フィルター
@@ -421,6 +1549,136 @@ export class RecommendationService {
     return timeTemps.reduce((sum, temp) => sum + temp, 0) / timeTemps.length;
   }
 
+  /**
+   * 活動時間帯の体感温度を取得（未指定の場合は朝〜夕）
+   */
+  private getTargetFeelsLike(hobby: Hobby, forecast: DailyForecast): number[] {
+    const timesOfDay: TimeOfDay[] = hobby.preferredTimeOfDay?.length
+      ? hobby.preferredTimeOfDay
+      : ['morning', 'day', 'evening'];
+
+    return timesOfDay.map(timeOfDay => forecast.feelsLike[timeOfDay]);
+  }
+
+  /**
+   * 予報の降水量（雨と雪）の合計を取得（降水量を提供しない取得元の場合はundefined）
+   */
+  private totalPrecipitation(items: Array<{ rain?: number; snow?: number }>): number | undefined {
+    const amounts = items.flatMap(item => [item.rain, item.snow]).filter((amount): amount is number => amount !== undefined);
+    return amounts.length > 0 ? Math.round(amounts.reduce((sum, amount) => sum + amount, 0) * 10) / 10 : undefined;
+  }
+
+  /**
+   * 予報の最大瞬間風速を取得（瞬間風速を提供しない取得元の場合はundefined）
+   */
+  private maxWindGust(slots: HourlyForecast[]): number | undefined {
+    const gusts = slots.flatMap(slot => slot.windGust === undefined ? [] : [slot.windGust]);
+    return gusts.length > 0 ? Math.max(...gusts) : undefined;
+  }
+
+  /**
+   * 予報の最低視程を取得（視程を提供しない取得元の場合はundefined）
+   */
+  private minVisibility(slots: HourlyForecast[]): number | undefined {
+    const visibilities = slots.flatMap(slot => slot.visibility === undefined ? [] : [slot.visibility]);
+    return visibilities.length > 0 ? Math.min(...visibilities) : undefined;
+  }
+
+  /**
+   * 時刻から時間帯を判定
+   * 朝: 6-11時、昼: 12-17時、夕: 18-20時、夜: 21-5時
+   */
+  private getTimeOfDay(datetime: Date): TimeOfDay {
+    const hour = datetime.getHours();
+    if (hour >= 6 && hour < 12) return 'morning';
+    if (hour >= 12 && hour < 18) return 'day';
+    if (hour >= 18 && hour < 21) return 'evening';
+    return 'night';
+  }
+
+  /**
+   * 開始可能時刻〜終了期限の範囲内かを判定（未設定の場合は終日）
+   */
+  private isWithinActivityHours(hobby: Hobby, datetime: Date): boolean {
+    const minutes = this.getMinutesOfDay(datetime);
+    const earliestStart = this.parseTime(hobby.earliestStart) ?? 0;
+    const latestEnd = this.parseTime(hobby.latestEnd) ?? 24 * 60;
+
+    return minutes >= earliestStart && minutes < latestEnd;
+  }
+
+  /**
+   * "HH:mm"形式の時刻を0時からの経過分に変換
+   */
+  private parseTime(time?: string): number | null {
+    if (!time) return null;
+
+    const match = /^(\d{1,2}):(\d{2})$/.exec(time);
+    if (!match) return null;
+
+    return Number(match[1]) * 60 + Number(match[2]);
+  }
+
+  private getMinutesOfDay(datetime: Date): number {
+    return datetime.getHours() * 60 + datetime.getMinutes();
+  }
+
+  private formatTime(datetime: Date): string {
+    return `${String(datetime.getHours()).padStart(2, '0')}:${String(datetime.getMinutes()).padStart(2, '0')}`;
+  }
+
+  /**
+   * ゴールデンアワーの加点理由
+   */
+  private formatGoldenHour(goldenHour: DaylightRange): string {
+    return t('factor.goldenHour', {
+      start: this.formatTime(goldenHour.start),
+      end: this.formatTime(goldenHour.end),
+      bonus: GOLDEN_HOUR_BONUS
+    });
+  }
+
+  /**
+   * 日別予報の日の出・日の入り情報を日付ごとにまとめる
+   */
+  private getDaylightByDate(forecasts: DailyForecast[]): Map<string, DaylightTimes> {
+    const daylightByDate = new Map<string, DaylightTimes>();
+    for (const forecast of forecasts) {
+      if (forecast.daylight) {
+        daylightByDate.set(forecast.date.toDateString(), forecast.daylight);
+      }
+    }
+    return daylightByDate;
+  }
+
+  /**
+   * 時間単位予報を時刻順に並べ替え
+   */
+  private sortSlots(slots?: HourlyForecast[]): HourlyForecast[] {
+    return [...(slots ?? [])].sort((a, b) => a.datetime.getTime() - b.datetime.getTime());
+  }
+
+  /**
+   * 時間単位予報の間隔を推定（OpenWeatherMapは3時間、Open-Meteoは1時間）
+   */
+  private inferSlotInterval(slots: HourlyForecast[]): number {
+    const defaultInterval = 3 * 60 * 60 * 1000;
+    let interval = Infinity;
+
+    for (let i = 1; i < slots.length; i++) {
+      const current = slots[i];
+      const previous = slots[i - 1];
+      if (!current || !previous) continue;
+
+      const diff = current.datetime.getTime() - previous.datetime.getTime();
+      if (diff > 0 && diff < interval) {
+        interval = diff;
+      }
+    }
+
+    return Number.isFinite(interval) ? interval : defaultInterval;
+  }
+
   /**
    * トップおすすめを取得
    */
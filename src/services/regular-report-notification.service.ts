@@ -2,11 +2,15 @@ import { DatabaseService } from './database.service';
 import { WeatherService } from './weather.service';
 import { RecommendationService } from './recommendation.service';
 import { NotificationConfigService } from './notification-config.service';
+import { GoalService } from './goal.service';
 import type { 
   WeatherForecast,
   NotificationPayload 
 } from '../types';
 import type { HobbyRecommendation } from './recommendation.service';
+import { formatTemperature, formatWindSpeed } from '../utils/units';
+import { getGoalPriorityBonus, type GoalProgress } from '../utils/goals';
+import { hasMessage, t } from '../utils/i18n';
 
 export interface ReportPeriod {
   type: 'daily' | 'weekly' | 'monthly';
@@ -20,6 +24,7 @@ export interface ReportContent {
   weatherSummary: string;
   statisticsSummary: string;
   actionItems: string[];
+  locationName: string; // レポート対象の場所
 }
 
 export interface RegularReportResult {
@@ -34,6 +39,7 @@ export class RegularReportNotificationService {
   private weatherService = new WeatherService();
   private recommendationService = new RecommendationService();
   private configService = new NotificationConfigService();
+  private goalService = new GoalService(this.databaseService);
 
   static getInstance(): RegularReportNotificationService {
     if (!RegularReportNotificationService.instance) {
@@ -51,13 +57,24 @@ export class RegularReportNotificationService {
     }
   ): Promise<RegularReportResult> {
     try {
-      // 現在の天気予報を取得
-      const defaultLocation = { lat: 35.6762, lon: 139.6503 }; // Tokyo default
-      const forecast = await this.weatherService.getWeatherForecast(defaultLocation.lat, defaultLocation.lon);
+      // 通知対象の場所（デフォルトの場所を優先）の天気予報を取得
+      const [location] = await this.databaseService.getAlertLocations();
+      if (!location) {
+        return {
+          reportGenerated: false,
+          reason: t('notify.skip.noLocation')
+        };
+      }
+      const forecast = await this.weatherService.getWeatherForecast(
+        location.lat,
+        location.lon,
+        false,
+        location.weatherProvider
+      );
       if (!forecast) {
         return {
           reportGenerated: false,
-          reason: '天気予報データが取得できませんでした'
+          reason: t('notify.skip.noForecast')
         };
       }
 
@@ -66,20 +83,22 @@ export class RegularReportNotificationService {
       if (hobbies.length === 0) {
         return {
           reportGenerated: false,
-          reason: 'アクティブな趣味が登録されていません'
+          reason: t('notify.skip.noHobbies')
         };
       }
 
-      // 推薦を生成
+      // 推薦を生成（目標に遅れている趣味を優先）
+      const goalProgress = await this.goalService.getGoalProgress(hobbies);
       const recommendations = await this.recommendationService.generateRecommendations(
         hobbies,
-        forecast
+        forecast,
+        goalProgress.length > 0 ? { goalProgress } : undefined
       );
 
       if (recommendations.length === 0) {
         return {
           reportGenerated: false,
-          reason: '推薦データを生成できませんでした'
+          reason: t('notify.skip.noRecommendations')
         };
       }
 
@@ -87,7 +106,9 @@ export class RegularReportNotificationService {
       const reportContent = await this.createReportContent(
         recommendations,
         forecast,
-        period
+        period,
+        location.name,
+        goalProgress
       );
 
       return {
@@ -99,7 +120,7 @@ export class RegularReportNotificationService {
       console.error('定期レポートの生成中にエラー:', error);
       return {
         reportGenerated: false,
-        reason: error instanceof Error ? error.message : '定期レポートの生成中にエラーが発生しました'
+        reason: error instanceof Error ? error.message : t('notify.skip.error')
       };
     }
   }
@@ -108,15 +129,18 @@ export class RegularReportNotificationService {
   private async createReportContent(
     recommendations: HobbyRecommendation[],
     forecast: WeatherForecast,
-    period: ReportPeriod
+    period: ReportPeriod,
+    locationName: string,
+    goalProgress: GoalProgress[] = []
   ): Promise<ReportContent> {
-    // 上位推薦を取得（スコア順）
+    // 上位推薦を取得（スコア順、目標に遅れている趣味は優先）
+    const priority = (rec: HobbyRecommendation) => rec.overallScore + getGoalPriorityBonus(rec.goalProgress);
     const topRecommendations = recommendations
-      .sort((a, b) => b.overallScore - a.overallScore)
+      .sort((a, b) => priority(b) - priority(a))
       .slice(0, 5);
 
     // 概要の生成
-    const summary = this.generateSummary(topRecommendations, period);
+    const summary = this.generateSummary(topRecommendations, period) + this.generateGoalSummary(goalProgress);
 
     // 天気概要の生成
     const weatherSummary = this.generateWeatherSummary(forecast, period);
@@ -125,46 +149,58 @@ export class RegularReportNotificationService {
     const statisticsSummary = await this.generateStatisticsSummary(recommendations);
 
     // アクション項目の生成
-    const actionItems = this.generateActionItems(topRecommendations, forecast);
+    const actionItems = this.generateActionItems(topRecommendations, forecast, goalProgress);
 
     return {
       summary,
       topRecommendations,
       weatherSummary,
       statisticsSummary,
-      actionItems
+      actionItems,
+      locationName
     };
   }
 
   // サマリーの生成
   private generateSummary(recommendations: HobbyRecommendation[], period: ReportPeriod): string {
-    const periodText = {
-      daily: '今日',
-      weekly: '今週',
-      monthly: '今月'
-    };
+    const periodText = t(`report.period.${period.type}`);
 
     const highScoreCount = recommendations.filter(rec => rec.overallScore >= 80).length;
     const topHobby = recommendations[0];
     
     if (!topHobby) {
-      return `${periodText[period.type]}は天気条件がやや厳しく、推薦できる趣味活動がありません。`;
+      return t('report.summary.none', { period: periodText });
     }
 
     if (highScoreCount === 0) {
-      return `${periodText[period.type]}は天気条件がやや厳しく、${recommendations.length}つの趣味活動を確認しましたが高スコアの活動は少なめです。`;
+      return t('report.summary.lowScores', { period: periodText, count: recommendations.length });
     }
 
     if (highScoreCount === 1) {
-      return `${periodText[period.type]}は${topHobby?.hobby.name ?? '趣味活動'}が特に最適です（スコア${Math.round(topHobby?.overallScore ?? 0)}点）。`;
+      return t('report.summary.single', {
+        period: periodText,
+        hobby: topHobby?.hobby.name ?? t('common.hobbyActivity'),
+        score: Math.round(topHobby?.overallScore ?? 0)
+      });
     }
 
     const hobbyNames = recommendations
       .slice(0, 3)
       .map(rec => rec.hobby.name)
-      .join('、');
+      .join(t('common.listSeparator'));
 
-    return `${periodText[period.type]}は${highScoreCount}つの趣味活動が好条件です。特に${hobbyNames}がおすすめです。`;
+    return t('report.summary.multiple', { period: periodText, count: highScoreCount, hobbies: hobbyNames });
+  }
+
+  // 目標に遅れている趣味の概要（遅れがない場合は空文字）
+  private generateGoalSummary(goalProgress: GoalProgress[]): string {
+    const behind = goalProgress.filter(progress => progress.status === 'behind');
+    if (behind.length === 0) return '';
+
+    return t('report.summary.goalsBehind', {
+      count: behind.length,
+      hobbies: behind.map(progress => progress.hobby.name).join(t('common.listSeparator'))
+    });
   }
 
   // 天気概要の生成
@@ -172,29 +208,32 @@ export class RegularReportNotificationService {
     // periodパラメータは将来の期間別分析に使用予定
     void period;
     const currentWeather = forecast.forecasts?.[0];
-    if (!currentWeather) return '天気データを取得できませんでした。';
+    if (!currentWeather) return t('report.weather.unavailable');
     
     const weatherDescription = this.getWeatherDescription(currentWeather.weatherType);
     
-    let summary = `現在は${weatherDescription}で気温${Math.round(currentWeather.temperature.day)}°C、`;
+    let summary = t('report.weather.current', {
+      weather: weatherDescription,
+      temperature: formatTemperature(currentWeather.temperature.day)
+    });
     
     const precipitationPercent = Math.round(currentWeather.pop * 100);
     if (precipitationPercent > 60) {
-      summary += `降水確率${precipitationPercent}%と雨の可能性が高めです。`;
+      summary += t('report.weather.rainLikely', { value: precipitationPercent });
     } else if (precipitationPercent > 30) {
-      summary += `降水確率${precipitationPercent}%と変化しやすい天候です。`;
+      summary += t('report.weather.changeable', { value: precipitationPercent });
     } else {
-      summary += `降水確率${precipitationPercent}%と安定した天候です。`;
+      summary += t('report.weather.stable', { value: precipitationPercent });
     }
 
     // 風速情報を追加
     if (currentWeather.windSpeed > 10) {
-      summary += ` 風が強めです（${currentWeather.windSpeed}m/s）。`;
+      summary += t('report.weather.windy', { value: formatWindSpeed(currentWeather.windSpeed) });
     }
 
     // UV指数情報を追加
     if (currentWeather.uvIndex > 6) {
-      summary += ` UV指数が高いため日焼け対策をお勧めします（UV指数${currentWeather.uvIndex}）。`;
+      summary += t('report.weather.highUv', { value: currentWeather.uvIndex });
     }
 
     return summary;
@@ -216,91 +255,90 @@ export class RegularReportNotificationService {
       const outdoorCount = recommendations.filter(rec => rec.hobby.isOutdoor).length;
       const indoorCount = recommendations.length - outdoorCount;
 
-      let summary = `平均適性スコア: ${avgScore}点`;
+      let summary = t('report.stats.averageScore', { score: avgScore });
 
       if (outdoorCount > 0 && indoorCount > 0) {
-        summary += `（屋外${outdoorCount}件、屋内${indoorCount}件）`;
+        summary += t('report.stats.mixed', { outdoor: outdoorCount, indoor: indoorCount });
       } else if (outdoorCount > 0) {
-        summary += `（屋外活動中心）`;
+        summary += t('report.stats.outdoor');
       } else {
-        summary += `（屋内活動中心）`;
+        summary += t('report.stats.indoor');
       }
 
       if (history.length > 0) {
-        summary += `。過去30日間で${history.length}回のレポートを送信済みです。`;
+        summary += t('report.stats.history', { count: history.length });
       }
 
       return summary;
 
     } catch (error) {
       console.error('統計概要の生成エラー:', error);
-      return '統計データを取得できませんでした。';
+      return t('report.stats.unavailable');
     }
   }
 
   // アクション項目の生成
   private generateActionItems(
     recommendations: HobbyRecommendation[],
-    forecast: WeatherForecast
+    forecast: WeatherForecast,
+    goalProgress: GoalProgress[] = []
   ): string[] {
     const actions: string[] = [];
 
+    // 最も遅れている目標のアクション
+    const behindGoal = goalProgress.find(progress => progress.status === 'behind');
+    if (behindGoal) {
+      actions.push(t('report.action.goalBehind', {
+        hobby: behindGoal.hobby.name,
+        count: behindGoal.remaining,
+        period: t(`goals.period.${behindGoal.goal.period}`)
+      }));
+    }
+
     // 高スコア活動のアクション
     const highScoreRecs = recommendations.filter(rec => rec.overallScore >= 80);
     if (highScoreRecs.length > 0) {
       const topHobby = highScoreRecs[0];
-      actions.push(`${topHobby?.hobby.name ?? '趣味活動'}を今日実行するのに最適です`);
+      actions.push(t('report.action.bestToday', { hobby: topHobby?.hobby.name ?? t('common.hobbyActivity') }));
     }
 
     // 天気に基づくアクション
     const current = forecast.current;
     const precipProb = 30; // デフォルト値
     if (precipProb > 60) {
-      actions.push('雨の準備をして屋内活動を優先しましょう');
+      actions.push(t('report.action.rainIndoor'));
     } else if (precipProb > 30) {
-      actions.push('折りたたみ傘を持参して屋外活動を楽しみましょう');
+      actions.push(t('report.action.umbrella'));
     }
 
     if ((current?.uvIndex ?? 0) > 6) {
-      actions.push('日焼け止めと帽子で紫外線対策をしましょう');
+      actions.push(t('report.action.uv'));
     }
 
     if ((current?.windSpeed ?? 0) > 10) {
-      actions.push('風が強いため屋外活動時は注意が必要です');
+      actions.push(t('report.action.wind'));
     }
 
     // 温度に基づくアクション
     if ((current?.temperature ?? 20) < 10) {
-      actions.push('防寒対策をしっかりと行いましょう');
+      actions.push(t('report.action.cold'));
     } else if ((current?.temperature ?? 20) > 25) {
-      actions.push('水分補給と熱中症対策を忘れずに');
+      actions.push(t('report.action.heat'));
     }
 
     // 推薦に基づくアクション
     const lowScoreRecs = recommendations.filter(rec => rec.overallScore < 60);
     if (lowScoreRecs.length === recommendations.length) {
-      actions.push('今日は趣味活動より休息日として過ごすのも良いでしょう');
+      actions.push(t('report.action.rest'));
     }
 
     return actions.slice(0, 4); // 最大4つまで
   }
 
-  // 天気タイプの日本語説明を取得
+  // 天気タイプの説明を取得（未知のタイプはそのまま表示）
   private getWeatherDescription(weatherType: string): string {
-    const descriptions: Record<string, string> = {
-      'clear': '晴れ',
-      'clouds': '曇り',
-      'rain': '雨',
-      'drizzle': '小雨',
-      'thunderstorm': '雷雨',
-      'snow': '雪',
-      'mist': '霧',
-      'fog': '濃霧',
-      'haze': 'もや',
-      'dust': '砂埃'
-    };
-    
-    return descriptions[weatherType] || weatherType;
+    const key = `weather.type.${weatherType}`;
+    return hasMessage(key) ? t(key) : weatherType;
   }
 
   // 定期レポート通知のペイロード作成
@@ -316,7 +354,7 @@ export class RegularReportNotificationService {
 
     return {
       type: 'regular-report',
-      title: '📊 今日の趣味レポート',
+      title: t('report.title', { location: reportContent.locationName }),
       message: shortSummary,
       icon: '📊',
       data: {
@@ -327,6 +365,7 @@ export class RegularReportNotificationService {
         })),
         weatherSummary: reportContent.weatherSummary,
         actionItems: reportContent.actionItems,
+        locationName: reportContent.locationName,
         timestamp: new Date().toISOString()
       }
     };
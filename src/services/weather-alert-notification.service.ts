@@ -1,12 +1,17 @@
+import { DatabaseService } from './database.service';
 import { WeatherService } from './weather.service';
 import { NotificationConfigService } from './notification-config.service';
 import type { 
   WeatherForecast,
-  NotificationPayload 
+  NotificationPayload,
+  Location
 } from '../types';
+import { formatTemperature, formatTemperatureDifference, formatWindSpeed } from '../utils/units';
+import { t } from '../utils/i18n';
+import { calculateDailySafety, getColdStressLevel, getWbgtLevel } from '../utils/weather-safety';
 
 export interface WeatherAlertCondition {
-  type: 'precipitation' | 'temperature' | 'wind' | 'uv' | 'visibility';
+  type: 'precipitation' | 'precipitationAmount' | 'temperature' | 'wind' | 'gust' | 'uv' | 'visibility' | 'wbgt' | 'windChill';
   threshold: number;
   comparison: 'above' | 'below' | 'change';
   changeThreshold?: number; // 急変アラート用（1時間の変化量）
@@ -29,13 +34,15 @@ export interface WeatherAlertResult {
     condition: WeatherAlertCondition;
   }[];
   reason?: string;
+  locationName?: string; // アラートを評価した場所
 }
 
 export class WeatherAlertNotificationService {
   private static instance: WeatherAlertNotificationService;
+  private databaseService = new DatabaseService();
   private weatherService = new WeatherService();
   private configService = new NotificationConfigService();
-  private lastWeatherData: WeatherForecast | null = null;
+  private lastWeatherData: Map<number, WeatherForecast> = new Map(); // 場所IDごとの前回データ
   private checkIntervalMs = 15 * 60 * 1000; // 15分間隔でチェック
 
   // デフォルトアラート設定
@@ -47,6 +54,13 @@ export class WeatherAlertNotificationService {
       priority: 'medium',
       cooldownMinutes: 60
     }],
+    ['heavy-rain', {
+      conditions: [
+        { type: 'precipitationAmount', threshold: 20, comparison: 'above' }
+      ],
+      priority: 'high',
+      cooldownMinutes: 180
+    }],
     ['temperature-drop', {
       conditions: [
         { type: 'temperature', threshold: -5, comparison: 'change', changeThreshold: 60 }
@@ -61,6 +75,13 @@ export class WeatherAlertNotificationService {
       priority: 'medium',
       cooldownMinutes: 180
     }],
+    ['strong-gust', {
+      conditions: [
+        { type: 'gust', threshold: 20, comparison: 'above' }
+      ],
+      priority: 'high',
+      cooldownMinutes: 180
+    }],
     ['poor-visibility', {
       conditions: [
         { type: 'visibility', threshold: 2, comparison: 'below' }
@@ -74,6 +95,20 @@ export class WeatherAlertNotificationService {
       ],
       priority: 'medium',
       cooldownMinutes: 240
+    }],
+    ['heatstroke-risk', {
+      conditions: [
+        { type: 'wbgt', threshold: 28, comparison: 'above' }
+      ],
+      priority: 'high',
+      cooldownMinutes: 180
+    }],
+    ['cold-stress', {
+      conditions: [
+        { type: 'windChill', threshold: -10, comparison: 'below' }
+      ],
+      priority: 'medium',
+      cooldownMinutes: 240
     }]
   ]);
 
@@ -84,41 +119,25 @@ export class WeatherAlertNotificationService {
     return WeatherAlertNotificationService.instance;
   }
 
-  // 天気急変アラートの評価
+  // 天気急変アラートの評価（通知対象の場所ごと）
   async evaluateWeatherAlerts(): Promise<WeatherAlertResult[]> {
     try {
-      const defaultLocation = { lat: 35.6762, lon: 139.6503 }; // Tokyo default
-      const currentForecast = await this.weatherService.getWeatherForecast(defaultLocation.lat, defaultLocation.lon);
-      if (!currentForecast) {
+      const locations = await this.databaseService.getAlertLocations();
+      if (locations.length === 0) {
         return [{
           alertTriggered: false,
           alertType: 'system-error',
           severity: 'low',
-          message: '天気データの取得に失敗しました',
+          message: t('alert.noLocation'),
           details: [],
-          reason: '天気予報データが取得できませんでした'
+          reason: t('notify.skip.noLocation')
         }];
       }
 
       const alerts: WeatherAlertResult[] = [];
-      
-      // 各アラート設定を評価
-      for (const [alertType, config] of this.defaultAlertConfigs) {
-        const alert = await this.evaluateAlertConfig(alertType, config, currentForecast);
-        if (alert.alertTriggered) {
-          alerts.push(alert);
-        }
+      for (const location of locations) {
+        alerts.push(...await this.evaluateLocationAlerts(location));
       }
-
-      // 前回データとの比較による急変チェック
-      if (this.lastWeatherData) {
-        const changeAlerts = this.detectWeatherChanges(this.lastWeatherData, currentForecast);
-        alerts.push(...changeAlerts);
-      }
-
-      // 現在のデータを保存
-      this.lastWeatherData = currentForecast;
-
       return alerts;
 
     } catch (error) {
@@ -127,31 +146,77 @@ export class WeatherAlertNotificationService {
         alertTriggered: false,
         alertType: 'system-error',
         severity: 'low',
-        message: '天気アラートの評価中にエラーが発生しました',
+        message: t('alert.evaluationError'),
         details: [],
-        reason: error instanceof Error ? error.message : '不明なエラー'
+        reason: error instanceof Error ? error.message : t('alert.unknownError')
       }];
     }
   }
 
+  // 1つの場所の天気急変アラートを評価
+  private async evaluateLocationAlerts(location: Location): Promise<WeatherAlertResult[]> {
+    const currentForecast = await this.weatherService.getWeatherForecast(
+      location.lat,
+      location.lon,
+      false,
+      location.weatherProvider
+    );
+    if (!currentForecast) {
+      return [{
+        alertTriggered: false,
+        alertType: 'system-error',
+        severity: 'low',
+        message: t('alert.fetchFailed'),
+        details: [],
+        reason: t('notify.skip.noForecast'),
+        locationName: location.name
+      }];
+    }
+
+    const alerts: WeatherAlertResult[] = [];
+
+    // 各アラート設定を評価
+    for (const [alertType, config] of this.defaultAlertConfigs) {
+      const alert = await this.evaluateAlertConfig(alertType, config, currentForecast, location.name);
+      if (alert.alertTriggered) {
+        alerts.push(alert);
+      }
+    }
+
+    // 前回データとの比較による急変チェック
+    const key = location.id ?? -1;
+    const lastWeatherData = this.lastWeatherData.get(key);
+    if (lastWeatherData) {
+      const changeAlerts = this.detectWeatherChanges(lastWeatherData, currentForecast);
+      alerts.push(...changeAlerts.map(alert => ({ ...alert, locationName: location.name })));
+    }
+
+    // 現在のデータを保存
+    this.lastWeatherData.set(key, currentForecast);
+
+    return alerts;
+  }
+
   // 特定のアラート設定を評価
   private async evaluateAlertConfig(
     alertType: string,
     config: WeatherAlertConfig,
-    forecast: WeatherForecast
+    forecast: WeatherForecast,
+    locationName: string
   ): Promise<WeatherAlertResult> {
     const details: WeatherAlertResult['details'] = [];
     let triggeredConditions = 0;
 
     // クールダウンチェック
-    if (await this.isInCooldown(alertType, config.cooldownMinutes)) {
+    if (await this.isInCooldown(alertType, config.cooldownMinutes, locationName)) {
       return {
         alertTriggered: false,
         alertType,
         severity: config.priority,
-        message: 'クールダウン期間中',
+        message: t('alert.cooldown'),
         details: [],
-        reason: 'クールダウン期間中のためアラートをスキップ'
+        reason: t('alert.cooldownSkipped'),
+        locationName
       };
     }
 
@@ -171,9 +236,10 @@ export class WeatherAlertNotificationService {
     return {
       alertTriggered,
       alertType,
-      severity: config.priority,
-      message: alertTriggered ? this.generateAlertMessage(alertType, details) : 'アラート条件未達',
-      details
+      severity: alertTriggered ? this.getAlertSeverity(alertType, config, details) : config.priority,
+      message: alertTriggered ? this.generateAlertMessage(alertType, details) : t('alert.notTriggered'),
+      details,
+      locationName
     };
   }
 
@@ -188,18 +254,35 @@ export class WeatherAlertNotificationService {
       case 'precipitation':
         currentValue = forecast.forecasts[0]?.pop ?? 0;
         break;
+      case 'precipitationAmount':
+        // 降水量を提供しない取得元の場合は0（発動しない）
+        currentValue = (forecast.forecasts[0]?.rain ?? 0) + (forecast.forecasts[0]?.snow ?? 0);
+        break;
       case 'temperature':
         currentValue = forecast.forecasts[0]?.temperature.day ?? 0;
         break;
       case 'wind':
         currentValue = forecast.forecasts[0]?.windSpeed ?? 0;
         break;
+      case 'gust':
+        currentValue = forecast.forecasts[0]?.windGust ?? 0;
+        break;
       case 'uv':
         currentValue = forecast.forecasts[0]?.uvIndex ?? 0;
         break;
       case 'visibility':
         currentValue = 10000; // visibility not available in forecast data
         break;
+      case 'wbgt': {
+        const today = forecast.forecasts[0];
+        currentValue = today ? calculateDailySafety(today).wbgt : 0;
+        break;
+      }
+      case 'windChill': {
+        const today = forecast.forecasts[0];
+        currentValue = today ? calculateDailySafety(today).windChill : 0;
+        break;
+      }
       default:
         currentValue = 0;
     }
@@ -247,7 +330,9 @@ export class WeatherAlertNotificationService {
         alertTriggered: true,
         alertType: tempChange > 0 ? 'temperature-sudden-rise' : 'temperature-sudden-drop',
         severity: Math.abs(tempChange) >= 10 ? 'urgent' : 'high',
-        message: `気温が${Math.abs(tempChange)}°C${tempChange > 0 ? '上昇' : '下降'}しました`,
+        message: t(tempChange > 0 ? 'alert.temperatureRise' : 'alert.temperatureDrop', {
+          value: formatTemperatureDifference(Math.abs(tempChange), undefined, 1)
+        }),
         details: [{
           currentValue: currentForecast.forecasts[0]?.temperature.day ?? 0,
           threshold: previousForecast.forecasts[0]?.temperature.day ?? 0,
@@ -264,7 +349,7 @@ export class WeatherAlertNotificationService {
         alertTriggered: true,
         alertType: 'precipitation-sudden-increase',
         severity: precipChange >= 50 ? 'urgent' : 'high',
-        message: `降水確率が${precipChange}%上昇しました`,
+        message: t('alert.precipitationIncrease', { value: precipChange }),
         details: [{
           currentValue: currentForecast.forecasts[0]?.pop ?? 0,
           threshold: previousForecast.forecasts[0]?.pop ?? 0,
@@ -280,7 +365,7 @@ export class WeatherAlertNotificationService {
         alertTriggered: true,
         alertType: 'wind-sudden-increase',
         severity: windChange >= 15 ? 'urgent' : 'high',
-        message: `風速が${windChange}m/s増加しました`,
+        message: t('alert.windIncrease', { value: formatWindSpeed(windChange) }),
         details: [{
           currentValue: currentForecast.forecasts[0]?.windSpeed ?? 0,
           threshold: previousForecast.forecasts[0]?.windSpeed ?? 0,
@@ -292,30 +377,56 @@ export class WeatherAlertNotificationService {
     return alerts;
   }
 
+  // 発動したアラートの重要度（暑さ指数が「危険」の段階は緊急に引き上げる）
+  private getAlertSeverity(
+    alertType: string,
+    config: WeatherAlertConfig,
+    details: WeatherAlertResult['details']
+  ): WeatherAlertResult['severity'] {
+    if (alertType === 'heatstroke-risk' && getWbgtLevel(details[0]?.currentValue ?? 0) === 'danger') {
+      return 'urgent';
+    }
+    return config.priority;
+  }
+
   // アラートメッセージの生成
   private generateAlertMessage(alertType: string, details: WeatherAlertResult['details']): string {
     const primaryDetail = details[0];
-    if (!primaryDetail) return `天気急変アラート: ${alertType}`;
+    if (!primaryDetail) return t('alert.generic', { type: alertType });
     const value = Math.round(primaryDetail.currentValue * 10) / 10;
 
     switch (alertType) {
       case 'rain-warning':
-        return `雨が降る可能性が高くなりました（降水確率${value}%）`;
+        return t('alert.rainWarning', { value });
       case 'temperature-drop':
-        return `気温が大幅に下がる予報です（${value}°C）`;
+        return t('alert.temperatureDropForecast', { value: formatTemperature(value, undefined, 1) });
+      case 'heavy-rain':
+        return t('alert.heavyRain', { value });
       case 'high-wind':
-        return `強い風の予報です（風速${value}m/s）`;
+        return t('alert.highWind', { value: formatWindSpeed(value) });
+      case 'strong-gust':
+        return t('alert.strongGust', { value: formatWindSpeed(value) });
       case 'poor-visibility':
-        return `視界が悪くなる予報です（視界${value}km）`;
+        return t('alert.poorVisibility', { value });
       case 'extreme-uv':
-        return `UV指数が非常に高くなっています（UV指数${value}）`;
+        return t('alert.extremeUv', { value });
+      case 'heatstroke-risk':
+        return t('alert.heatstrokeRisk', {
+          value: value.toFixed(1),
+          level: t(`safety.wbgt.${getWbgtLevel(value)}`)
+        });
+      case 'cold-stress':
+        return t('alert.coldStress', {
+          value: formatTemperature(value, undefined, 1),
+          level: t(`safety.cold.${getColdStressLevel(value)}`)
+        });
       default:
-        return `天気急変アラート: ${alertType}`;
+        return t('alert.generic', { type: alertType });
     }
   }
 
-  // クールダウン期間のチェック
-  private async isInCooldown(alertType: string, cooldownMinutes: number): Promise<boolean> {
+  // クールダウン期間のチェック（場所ごと）
+  private async isInCooldown(alertType: string, cooldownMinutes: number, locationName: string): Promise<boolean> {
     try {
       const cutoffTime = new Date();
       cutoffTime.setMinutes(cutoffTime.getMinutes() - cooldownMinutes);
@@ -327,11 +438,15 @@ export class WeatherAlertNotificationService {
 
       interface AlertData {
         alertType: string;
+        locationName?: string;
       }
 
-      return recentAlerts.some(alert => 
-        alert.data && (alert.data as AlertData).alertType === alertType
-      );
+      // 場所の記録がない履歴はすべての場所のものとして扱う
+      return recentAlerts.some(alert => {
+        if (!alert.data) return false;
+        const data = alert.data as AlertData;
+        return data.alertType === alertType && (data.locationName ?? locationName) === locationName;
+      });
     } catch (error) {
       console.error('クールダウンチェックエラー:', error);
       return false; // エラー時は通知を許可
@@ -347,22 +462,18 @@ export class WeatherAlertNotificationService {
       urgent: '⛈️'
     };
 
-    const severityTitles = {
-      low: '天気情報',
-      medium: '天気注意報',
-      high: '天気警報',
-      urgent: '天気急変警報'
-    };
-
     return {
       type: 'weather-alert',
-      title: `${severityIcons[alert.severity]} ${severityTitles[alert.severity]}`,
-      message: alert.message,
+      title: `${severityIcons[alert.severity]} ${t(`notify.severity.${alert.severity}`)}`,
+      message: alert.locationName
+        ? `${t('notify.locationPrefix', { location: alert.locationName })}${alert.message}`
+        : alert.message,
       icon: severityIcons[alert.severity],
       data: {
         alertType: alert.alertType,
         severity: alert.severity,
         details: alert.details,
+        ...(alert.locationName && { locationName: alert.locationName }),
         timestamp: new Date().toISOString()
       }
     };
@@ -0,0 +1,4 @@
+export * from './weather-provider';
+export { OpenWeatherMapProvider } from './openweathermap.provider';
+export { OpenMeteoProvider } from './open-meteo.provider';
+export { LocalWeatherProvider } from './local.provider';
@@ -0,0 +1,57 @@
+import { createSampleWeatherFixture, type LocalWeatherFixture } from '../../data/weatherFixtures';
+import {
+  aggregateDailyForecasts,
+  type ProviderCurrentWeather,
+  type ProviderForecast,
+  type WeatherProvider
+} from './weather-provider';
+
+/**
+ * 固定データを返すローカルプロバイダー
+ *
+ * ネットワーク・APIキーなしで動作するため、オフラインでの動作確認や
+ * テストでfetchをモックせずに天気データを差し替える用途に使用する
+ */
+export class LocalWeatherProvider implements WeatherProvider {
+  readonly type = 'local' as const;
+  readonly requiresApiKey = false;
+  private fixture: LocalWeatherFixture | null;
+
+  // fixture未指定の場合は取得のたびに現在日時基準のサンプルを生成
+  constructor(fixture?: LocalWeatherFixture) {
+    this.fixture = fixture ?? null;
+  }
+
+  setFixture(fixture: LocalWeatherFixture | null): void {
+    this.fixture = fixture;
+  }
+
+  private getFixture(): LocalWeatherFixture {
+    return this.fixture ?? createSampleWeatherFixture();
+  }
+
+  async fetchCurrentWeather(_lat: number, _lon: number): Promise<ProviderCurrentWeather> {
+    const { current } = this.getFixture();
+
+    return {
+      datetime: current.datetime,
+      temperature: current.temperature,
+      feelsLike: current.feelsLike,
+      humidity: current.humidity,
+      pressure: current.pressure,
+      visibility: current.visibility,
+      windSpeed: current.windSpeed,
+      windDirection: current.windDirection,
+      weatherType: current.weatherType,
+      weatherDescription: current.weatherDescription,
+      condition: current.weatherDescription,
+      cloudiness: current.cloudiness,
+      uvIndex: current.uvIndex
+    };
+  }
+
+  async fetchForecast(_lat: number, _lon: number): Promise<ProviderForecast> {
+    const { slots } = this.getFixture();
+    return { forecasts: aggregateDailyForecasts(slots), hourly: slots };
+  }
+}
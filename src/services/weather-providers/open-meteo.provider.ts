@@ -0,0 +1,191 @@
+import type { OpenMeteoApiError, OpenMeteoForecastResponse } from '../../types/api';
+import type { HourlyForecast, WeatherDetail, WeatherIntensity, WeatherType } from '../../types';
+import {
+  aggregateDailyForecasts,
+  type ProviderCurrentWeather,
+  type ProviderForecast,
+  type WeatherProvider
+} from './weather-provider';
+import { t } from '../../utils/i18n';
+import type { MessageKey } from '../../types/i18n';
+
+const HOURLY_VARIABLES = [
+  'temperature_2m',
+  'apparent_temperature',
+  'relative_humidity_2m',
+  'pressure_msl',
+  'cloud_cover',
+  'wind_speed_10m',
+  'wind_direction_10m',
+  'weather_code',
+  'precipitation_probability',
+  'rain',
+  'showers',
+  'snowfall',
+  'wind_gusts_10m',
+  'visibility',
+  'uv_index'
+].join(',');
+
+const CURRENT_VARIABLES = [
+  'temperature_2m',
+  'apparent_temperature',
+  'relative_humidity_2m',
+  'pressure_msl',
+  'cloud_cover',
+  'wind_speed_10m',
+  'wind_direction_10m',
+  'weather_code'
+].join(',');
+
+/**
+ * WMO天気コードと天気タイプ・説明文（メッセージキー）・細かい分類・強さの対応表
+ * https://open-meteo.com/en/docs の "WMO Weather interpretation codes" に準拠
+ */
+const WMO_WEATHER_CODES: Record<
+  number,
+  { type: WeatherType; descriptionKey: MessageKey; detail: WeatherDetail; intensity?: WeatherIntensity }
+> = {
+  0: { type: 'clear', descriptionKey: 'weather.wmo.0', detail: 'clear' },
+  1: { type: 'clear', descriptionKey: 'weather.wmo.1', detail: 'clear' },
+  2: { type: 'clouds', descriptionKey: 'weather.wmo.2', detail: 'scatteredClouds' },
+  3: { type: 'clouds', descriptionKey: 'weather.wmo.3', detail: 'overcast' },
+  45: { type: 'fog', descriptionKey: 'weather.wmo.45', detail: 'fog' },
+  48: { type: 'fog', descriptionKey: 'weather.wmo.48', detail: 'fog' },
+  51: { type: 'drizzle', descriptionKey: 'weather.wmo.51', detail: 'drizzle', intensity: 'light' },
+  53: { type: 'drizzle', descriptionKey: 'weather.wmo.53', detail: 'drizzle', intensity: 'moderate' },
+  55: { type: 'drizzle', descriptionKey: 'weather.wmo.55', detail: 'drizzle', intensity: 'heavy' },
+  56: { type: 'drizzle', descriptionKey: 'weather.wmo.56', detail: 'freezingDrizzle', intensity: 'light' },
+  57: { type: 'drizzle', descriptionKey: 'weather.wmo.57', detail: 'freezingDrizzle', intensity: 'heavy' },
+  61: { type: 'rain', descriptionKey: 'weather.wmo.61', detail: 'rain', intensity: 'light' },
+  63: { type: 'rain', descriptionKey: 'weather.wmo.63', detail: 'rain', intensity: 'moderate' },
+  65: { type: 'rain', descriptionKey: 'weather.wmo.65', detail: 'rain', intensity: 'heavy' },
+  66: { type: 'rain', descriptionKey: 'weather.wmo.66', detail: 'freezingRain', intensity: 'light' },
+  67: { type: 'rain', descriptionKey: 'weather.wmo.67', detail: 'freezingRain', intensity: 'heavy' },
+  71: { type: 'snow', descriptionKey: 'weather.wmo.71', detail: 'snow', intensity: 'light' },
+  73: { type: 'snow', descriptionKey: 'weather.wmo.73', detail: 'snow', intensity: 'moderate' },
+  75: { type: 'snow', descriptionKey: 'weather.wmo.75', detail: 'snow', intensity: 'heavy' },
+  77: { type: 'snow', descriptionKey: 'weather.wmo.77', detail: 'snow', intensity: 'light' },
+  80: { type: 'rain', descriptionKey: 'weather.wmo.80', detail: 'showerRain', intensity: 'light' },
+  81: { type: 'rain', descriptionKey: 'weather.wmo.81', detail: 'showerRain', intensity: 'moderate' },
+  82: { type: 'rain', descriptionKey: 'weather.wmo.82', detail: 'showerRain', intensity: 'heavy' },
+  85: { type: 'snow', descriptionKey: 'weather.wmo.85', detail: 'showerSnow', intensity: 'light' },
+  86: { type: 'snow', descriptionKey: 'weather.wmo.86', detail: 'showerSnow', intensity: 'heavy' },
+  95: { type: 'thunderstorm', descriptionKey: 'weather.wmo.95', detail: 'thunderstorm', intensity: 'moderate' },
+  96: { type: 'thunderstorm', descriptionKey: 'weather.wmo.96', detail: 'thunderstorm', intensity: 'moderate' },
+  99: { type: 'thunderstorm', descriptionKey: 'weather.wmo.99', detail: 'thunderstorm', intensity: 'heavy' }
+};
+
+// 降雪量（cm）を水に換算した量（mm）にする係数（7cmの雪が10mmの降水に相当）
+const SNOWFALL_CM_TO_WATER_MM = 10 / 7;
+
+export class OpenMeteoProvider implements WeatherProvider {
+  readonly type = 'open-meteo' as const;
+  readonly requiresApiKey = false;
+  private readonly baseUrl = 'https://api.open-meteo.com/v1/forecast';
+
+  private mapWeatherCode(code: number): {
+    type: WeatherType;
+    description: string;
+    detail?: WeatherDetail;
+    intensity?: WeatherIntensity;
+  } {
+    const entry = WMO_WEATHER_CODES[code];
+    if (!entry) return { type: 'clear', description: t('weather.unknown') };
+    return {
+      type: entry.type,
+      description: t(entry.descriptionKey),
+      detail: entry.detail,
+      ...(entry.intensity && { intensity: entry.intensity })
+    };
+  }
+
+  /**
+   * Open-Meteo APIへのリクエストを実行
+   *
+   * APIキー不要・非商用利用は1日10,000回まで無料
+   * 風速はOpenWeatherMapと揃えるためm/sで取得する
+   */
+  private async makeRequest(lat: number, lon: number, params: string): Promise<OpenMeteoForecastResponse> {
+    const url = `${this.baseUrl}?latitude=${lat}&longitude=${lon}&${params}` +
+      `&wind_speed_unit=ms&timeformat=unixtime&timezone=auto`;
+    const response = await fetch(url);
+
+    if (!response.ok) {
+      const errorData: OpenMeteoApiError = await response.json();
+      throw new Error(`Weather API Error: ${errorData.reason} (Code: ${response.status})`);
+    }
+
+    return response.json();
+  }
+
+  async fetchCurrentWeather(lat: number, lon: number): Promise<ProviderCurrentWeather> {
+    const response = await this.makeRequest(lat, lon, `current=${CURRENT_VARIABLES}`);
+    const current = response.current;
+    if (!current) {
+      throw new Error('Invalid current weather response format');
+    }
+
+    const weather = this.mapWeatherCode(current.weather_code);
+
+    return {
+      datetime: new Date(current.time * 1000),
+      temperature: current.temperature_2m,
+      feelsLike: current.apparent_temperature,
+      humidity: current.relative_humidity_2m,
+      pressure: current.pressure_msl,
+      visibility: 10000, // currentでは視程が提供されない
+      windSpeed: current.wind_speed_10m,
+      windDirection: current.wind_direction_10m,
+      weatherType: weather.type,
+      ...(weather.detail && { weatherDetail: weather.detail }),
+      ...(weather.intensity && { weatherIntensity: weather.intensity }),
+      weatherDescription: weather.description,
+      condition: weather.description,
+      cloudiness: current.cloud_cover,
+      uvIndex: 0
+    };
+  }
+
+  async fetchForecast(lat: number, lon: number): Promise<ProviderForecast> {
+    const response = await this.makeRequest(lat, lon, `hourly=${HOURLY_VARIABLES}&forecast_days=7`);
+    const data = response.hourly;
+
+    // Validate response structure
+    if (!data || !Array.isArray(data.time)) {
+      throw new Error('Invalid forecast response format');
+    }
+
+    const hourly: HourlyForecast[] = data.time.map((time, index) => {
+      const weather = this.mapWeatherCode(data.weather_code[index] ?? 0);
+      const rain = data.rain?.[index] ?? undefined;
+      const snowfall = data.snowfall?.[index] ?? undefined;
+      const gust = data.wind_gusts_10m?.[index] ?? undefined;
+
+      return {
+        datetime: new Date(time * 1000),
+        temperature: data.temperature_2m[index] ?? 0,
+        feelsLike: data.apparent_temperature[index] ?? 0,
+        humidity: data.relative_humidity_2m[index] ?? 0,
+        pressure: data.pressure_msl[index] ?? 0,
+        windSpeed: data.wind_speed_10m[index] ?? 0,
+        windDirection: data.wind_direction_10m[index] ?? 0,
+        ...(gust !== undefined && { windGust: gust }),
+        weatherType: weather.type,
+        ...(weather.detail && { weatherDetail: weather.detail }),
+        ...(weather.intensity && { weatherIntensity: weather.intensity }),
+        weatherDescription: weather.description,
+        cloudiness: data.cloud_cover[index] ?? 0,
+        uvIndex: data.uv_index[index] ?? 0,
+        // Open-Meteoはパーセント表記のため0-1に正規化
+        pop: (data.precipitation_probability[index] ?? 0) / 100,
+        // 降雨量はにわか雨を含める、降雪量はcmのため水に換算
+        ...(rain !== undefined && { rain: rain + (data.showers?.[index] ?? 0) }),
+        ...(snowfall !== undefined && { snow: Math.round(snowfall * SNOWFALL_CM_TO_WATER_MM * 10) / 10 }),
+        visibility: data.visibility[index] ?? 10000
+      };
+    });
+
+    return { forecasts: aggregateDailyForecasts(hourly), hourly };
+  }
+}
@@ -0,0 +1,126 @@
+import type {
+  OpenWeatherMapCurrentResponse,
+  OpenWeatherMapForecastResponse,
+  WeatherApiError
+} from '../../types/api';
+import type { HourlyForecast } from '../../types';
+import {
+  aggregateDailyForecasts,
+  type ProviderCurrentWeather,
+  type ProviderForecast,
+  type WeatherProvider
+} from './weather-provider';
+import { getActiveLanguage } from '../../utils/i18n';
+import { classifyOpenWeatherMapCondition } from '../../utils/weather-classification';
+
+export class OpenWeatherMapProvider implements WeatherProvider {
+  readonly type = 'openweathermap' as const;
+  readonly requiresApiKey = true;
+  private readonly baseUrl = 'https://api.openweathermap.org/data/2.5';
+  private readonly getApiKey: () => string;
+
+  // API KeyはWeatherService側で管理されるため取得関数を受け取る
+  constructor(getApiKey: () => string) {
+    this.getApiKey = getApiKey;
+  }
+
+  // 天気ID（weather.id）から天気タイプ・細かい分類・強さを取得
+  private mapWeatherCondition(id: number | undefined): Pick<HourlyForecast, 'weatherType' | 'weatherDetail' | 'weatherIntensity'> {
+    const classification = classifyOpenWeatherMapCondition(id ?? 800);
+    return {
+      weatherType: classification.type,
+      weatherDetail: classification.detail,
+      ...(classification.intensity && { weatherIntensity: classification.intensity })
+    };
+  }
+
+  /**
+   * OpenWeatherMap APIへのリクエストを実行
+   *
+   * API制限事項:
+   * - 無料プラン: 1,000 calls/day, 60 calls/minute
+   * - レートリミット超過時は429ステータスコードを返す
+   * - キャッシュ機能でAPI呼び出しを最小化
+   */
+  private async makeRequest<T>(path: string, lat: number, lon: number): Promise<T> {
+    const apiKey = this.getApiKey();
+    if (!apiKey) {
+      throw new Error('API key not configured');
+    }
+
+    const url = `${this.baseUrl}/${path}?lat=${lat}&lon=${lon}&appid=${apiKey}&units=metric&lang=${getActiveLanguage()}`;
+    const response = await fetch(url);
+
+    if (!response.ok) {
+      const errorData: WeatherApiError = await response.json();
+      throw new Error(`Weather API Error: ${errorData.message} (Code: ${errorData.cod})`);
+    }
+
+    return response.json();
+  }
+
+  async fetchCurrentWeather(lat: number, lon: number): Promise<ProviderCurrentWeather> {
+    const response: OpenWeatherMapCurrentResponse = await this.makeRequest('weather', lat, lon);
+
+    return {
+      datetime: new Date(response.dt * 1000),
+      temperature: response.main.temp,
+      feelsLike: response.main.feels_like,
+      humidity: response.main.humidity,
+      pressure: response.main.pressure,
+      visibility: response.visibility,
+      windSpeed: response.wind.speed,
+      windDirection: response.wind?.deg ?? 0,
+      ...this.mapWeatherCondition(response.weather?.[0]?.id),
+      weatherDescription: response.weather?.[0]?.description ?? 'unknown',
+      condition: response.weather?.[0]?.description ?? 'unknown',
+      cloudiness: response.clouds.all,
+      uvIndex: 0, // Current weather API doesn't provide UV index
+      sunrise: new Date(response.sys.sunrise * 1000),
+      sunset: new Date(response.sys.sunset * 1000)
+    };
+  }
+
+  /**
+   * OneCall APIは2023年6月から有料サービスに変更
+   * 代わりに5日間予報APIを使用して日別データを集約
+   * 3時間ごとのデータを日別にグループ化して処理
+   */
+  async fetchForecast(lat: number, lon: number): Promise<ProviderForecast> {
+    const response: OpenWeatherMapForecastResponse = await this.makeRequest('forecast', lat, lon);
+
+    // Validate response structure
+    if (!response.list || !Array.isArray(response.list)) {
+      throw new Error('Invalid forecast response format');
+    }
+
+    const hourly: HourlyForecast[] = response.list.map((item) => {
+      const weather = item.weather?.[0];
+      if (!weather) {
+        throw new Error('Invalid weather data in forecast');
+      }
+
+      return {
+        datetime: new Date(item.dt * 1000),
+        temperature: item.main.temp,
+        feelsLike: item.main.feels_like,
+        humidity: item.main.humidity,
+        pressure: item.main.pressure,
+        windSpeed: item.wind.speed,
+        windDirection: item.wind?.deg ?? 0,
+        ...(item.wind?.gust !== undefined && { windGust: item.wind.gust }),
+        ...this.mapWeatherCondition(weather.id),
+        weatherDescription: weather.description,
+        cloudiness: item.clouds?.all ?? 0,
+        uvIndex: 0, // 5-day forecast doesn't include UV index
+        pop: item.pop ?? 0,
+        // 降らない時間はrain・snow自体が省略されるため0とする
+        rain: item.rain?.['3h'] ?? 0,
+        snow: item.snow?.['3h'] ?? 0,
+        visibility: item.visibility ?? 10000
+      };
+    });
+
+    return { forecasts: aggregateDailyForecasts(hourly), hourly };
+  }
+}
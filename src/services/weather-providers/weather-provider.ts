@@ -0,0 +1,166 @@
+import type { DailyForecast, HourlyForecast, WeatherData, WeatherProviderType } from '../../types';
+import type { MessageKey } from '../../types/i18n';
+import { calculateForecastConfidence } from '../../utils/forecast-confidence';
+import { getStrongestIntensity } from '../../utils/weather-classification';
+
+// プロバイダーが返す現在の天気（位置・キャッシュ情報はWeatherService側で付与）
+export type ProviderCurrentWeather = Omit<WeatherData, 'id' | 'lat' | 'lon' | 'generatedAt' | 'cachedAt'>;
+
+// プロバイダーが返す予報データ
+export interface ProviderForecast {
+  forecasts: DailyForecast[];
+  hourly: HourlyForecast[];
+}
+
+/**
+ * 天気データ取得元の共通インターフェース
+ *
+ * WeatherServiceはキャッシュを担当し、実際の取得と
+ * アプリ内部形式への変換は各プロバイダーに委譲する
+ */
+export interface WeatherProvider {
+  readonly type: WeatherProviderType;
+  readonly requiresApiKey: boolean;
+  fetchCurrentWeather(lat: number, lon: number): Promise<ProviderCurrentWeather>;
+  fetchForecast(lat: number, lon: number): Promise<ProviderForecast>;
+}
+
+export const DEFAULT_WEATHER_PROVIDER: WeatherProviderType = 'openweathermap';
+
+export const WEATHER_PROVIDER_OPTIONS: Array<{
+  type: WeatherProviderType;
+  labelKey: MessageKey;
+  descriptionKey: MessageKey;
+  requiresApiKey: boolean;
+}> = [
+  { type: 'openweathermap', labelKey: 'weatherProvider.openweathermap.label', descriptionKey: 'weatherProvider.openweathermap.description', requiresApiKey: true },
+  { type: 'open-meteo', labelKey: 'weatherProvider.open-meteo.label', descriptionKey: 'weatherProvider.open-meteo.description', requiresApiKey: false },
+  { type: 'local', labelKey: 'weatherProvider.local.label', descriptionKey: 'weatherProvider.local.description', requiresApiKey: false }
+];
+
+const average = (values: number[]): number =>
+  values.length === 0 ? 0 : values.reduce((a, b) => a + b, 0) / values.length;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 取得元が提供する値のみを取り出す
+const definedValues = (items: HourlyForecast[], key: 'rain' | 'snow' | 'windGust'): number[] =>
+  items.flatMap(item => item[key] === undefined ? [] : [item[key]]);
+
+const sumAmount = (values: number[]): number =>
+  Math.round(values.reduce((a, b) => a + b, 0) * 10) / 10;
+
+// 予報の間隔（最も短い時刻の差、1件しかない場合は1時間）
+const inferSlotIntervalMs = (slots: HourlyForecast[]): number => {
+  const times = slots.map(slot => slot.datetime.getTime()).sort((a, b) => a - b);
+  const gaps = times.slice(1).map((time, index) => time - (times[index] ?? time)).filter(gap => gap > 0);
+  return gaps.length > 0 ? Math.min(...gaps) : 60 * 60 * 1000;
+};
+
+/**
+ * 時間単位の予報データを日別にグループ化して集約
+ * 最高最低気温、時間帯別気温、平均湿度などを計算
+ *
+ * 最後の予報がその日の終わりまで届かない日は一部のみ（isPartial）とし、
+ * 最初の日からの日数と合わせて予報の信頼度を付ける
+ */
+export function aggregateDailyForecasts(slots: HourlyForecast[], maxDays = 7): DailyForecast[] {
+  const slotIntervalMs = inferSlotIntervalMs(slots);
+
+  const dailyData = new Map<string, HourlyForecast[]>();
+
+  slots.forEach((slot) => {
+    const date = slot.datetime.toDateString();
+    if (!dailyData.has(date)) {
+      dailyData.set(date, []);
+    }
+    dailyData.get(date)?.push(slot);
+  });
+
+  const firstDate = slots[0] ? new Date(slots[0].datetime.toDateString()) : null;
+
+  return Array.from(dailyData.entries())
+    .slice(0, maxDays)
+    .map(([dateString, items]) => {
+      const temps = items.map(item => item.temperature);
+      const feelsLike = items.map(item => item.feelsLike);
+      const visibilities = items.flatMap(item => item.visibility === undefined ? [] : [item.visibility]);
+      const rain = definedValues(items, 'rain');
+      const snow = definedValues(items, 'snow');
+      const gusts = definedValues(items, 'windGust');
+      const atHour = (hour: number) => items.find(item => item.datetime.getHours() === hour);
+
+      // 一日の中間時刻の天気情報を代表値として使用
+      // より精度を高める場合は最頻値を使用することも可能
+      const representative = items[Math.floor(items.length / 2)];
+      if (!representative) {
+        throw new Error('Invalid weather data in forecast');
+      }
+
+      const daily: DailyForecast = {
+        date: new Date(dateString),
+        temperature: {
+          min: Math.min(...temps),
+          max: Math.max(...temps),
+          morning: atHour(6)?.temperature ?? temps[0] ?? 0,
+          day: atHour(12)?.temperature ?? temps[Math.floor(temps.length / 2)] ?? 0,
+          evening: atHour(18)?.temperature ?? temps[temps.length - 1] ?? 0,
+          night: atHour(0)?.temperature ?? temps[0] ?? 0
+        },
+        feelsLike: {
+          morning: atHour(6)?.feelsLike ?? feelsLike[0] ?? 0,
+          day: atHour(12)?.feelsLike ?? feelsLike[Math.floor(feelsLike.length / 2)] ?? 0,
+          evening: atHour(18)?.feelsLike ?? feelsLike[feelsLike.length - 1] ?? 0,
+          night: atHour(0)?.feelsLike ?? feelsLike[0] ?? 0
+        },
+        humidity: Math.round(average(items.map(item => item.humidity))),
+        pressure: Math.round(average(items.map(item => item.pressure))),
+        windSpeed: Math.round(average(items.map(item => item.windSpeed)) * 10) / 10,
+        windDirection: representative.windDirection,
+        weatherType: representative.weatherType,
+        weatherDescription: representative.weatherDescription,
+        cloudiness: representative.cloudiness,
+        uvIndex: Math.max(...items.map(item => item.uvIndex)),
+        pop: Math.max(...items.map(item => item.pop))
+      };
+
+      // 視程は取得元が提供する場合のみ（1日の最低値）
+      if (visibilities.length > 0) {
+        daily.visibility = Math.min(...visibilities);
+      }
+
+      // 細かい分類は代表値、強さは代表値と同じ天気の時間のうち最も強いもの（取得元が提供する場合のみ）
+      if (representative.weatherDetail) {
+        daily.weatherDetail = representative.weatherDetail;
+      }
+      const intensity = getStrongestIntensity(
+        items.filter(item => item.weatherType === representative.weatherType).map(item => item.weatherIntensity)
+      );
+      if (intensity) {
+        daily.weatherIntensity = intensity;
+      }
+
+      // 降水量は1日の合計、瞬間風速は1日の最大（取得元が提供する場合のみ）
+      if (rain.length > 0) {
+        daily.rain = sumAmount(rain);
+      }
+      if (snow.length > 0) {
+        daily.snow = sumAmount(snow);
+      }
+      if (gusts.length > 0) {
+        daily.windGust = Math.max(...gusts);
+      }
+
+      const date = daily.date;
+      const nextDay = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+      const lastSlotEnd = Math.max(...items.map(item => item.datetime.getTime())) + slotIntervalMs;
+      const isPartial = lastSlotEnd < nextDay.getTime();
+      if (isPartial) {
+        daily.isPartial = true;
+      }
+      const leadDays = firstDate ? Math.round((date.getTime() - firstDate.getTime()) / DAY_MS) : 0;
+      daily.confidence = calculateForecastConfidence(leadDays, isPartial);
+
+      return daily;
+    });
+}
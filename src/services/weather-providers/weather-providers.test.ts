@@ -0,0 +1,252 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { OpenMeteoProvider } from './open-meteo.provider';
+import { LocalWeatherProvider } from './local.provider';
+import { aggregateDailyForecasts } from './weather-provider';
+import { createSampleWeatherFixture } from '../../data/weatherFixtures';
+import { WeatherService } from '../weather.service';
+import type { OpenMeteoForecastResponse } from '../../types/api';
+import type { HourlyForecast } from '../../types';
+
+vi.mock('../database.service', () => ({
+  databaseService: {
+    getWeatherData: vi.fn(),
+    saveWeatherData: vi.fn(),
+    getWeatherForecast: vi.fn(),
+    saveWeatherForecast: vi.fn(),
+  }
+}));
+
+const createSlot = (datetime: Date, overrides: Partial<HourlyForecast> = {}): HourlyForecast => ({
+  datetime,
+  temperature: 20,
+  feelsLike: 19,
+  humidity: 60,
+  pressure: 1012,
+  windSpeed: 3,
+  windDirection: 180,
+  weatherType: 'clear',
+  weatherDescription: '晴れ',
+  cloudiness: 10,
+  uvIndex: 0,
+  pop: 0,
+  ...overrides
+});
+
+describe('aggregateDailyForecasts', () => {
+  it('should group slots by day and compute daily statistics', () => {
+    const slots = [
+      createSlot(new Date(2024, 0, 15, 6), { temperature: 12, pop: 0.1 }),
+      createSlot(new Date(2024, 0, 15, 12), { temperature: 22, pop: 0.4, windSpeed: 5 }),
+      createSlot(new Date(2024, 0, 15, 18), { temperature: 16 }),
+      createSlot(new Date(2024, 0, 16, 12), { temperature: 25, weatherType: 'rain' })
+    ];
+
+    const daily = aggregateDailyForecasts(slots);
+
+    expect(daily).toHaveLength(2);
+    expect(daily[0]?.temperature.min).toBe(12);
+    expect(daily[0]?.temperature.max).toBe(22);
+    expect(daily[0]?.temperature.morning).toBe(12);
+    expect(daily[0]?.temperature.day).toBe(22);
+    expect(daily[0]?.pop).toBe(0.4);
+    expect(daily[0]?.windSpeed).toBe(3.7);
+    expect(daily[1]?.weatherType).toBe('rain');
+  });
+
+  it('should total precipitation and take the strongest gust when provided', () => {
+    const slots = [
+      createSlot(new Date(2024, 0, 15, 6), { rain: 0.4, snow: 0, windGust: 6 }),
+      createSlot(new Date(2024, 0, 15, 12), { rain: 2.3, snow: 1.1, windGust: 14.5 }),
+      createSlot(new Date(2024, 0, 16, 12))
+    ];
+
+    const daily = aggregateDailyForecasts(slots);
+
+    expect(daily[0]?.rain).toBe(2.7);
+    expect(daily[0]?.snow).toBe(1.1);
+    expect(daily[0]?.windGust).toBe(14.5);
+    expect(daily[1]?.rain).toBeUndefined();
+    expect(daily[1]?.windGust).toBeUndefined();
+  });
+
+  it('should take the strongest intensity of the representative weather', () => {
+    const slots = [
+      createSlot(new Date(2024, 0, 15, 6), { weatherType: 'rain', weatherDetail: 'rain', weatherIntensity: 'light' }),
+      createSlot(new Date(2024, 0, 15, 12), { weatherType: 'rain', weatherDetail: 'rain', weatherIntensity: 'light' }),
+      createSlot(new Date(2024, 0, 15, 18), { weatherType: 'rain', weatherDetail: 'showerRain', weatherIntensity: 'heavy' }),
+      createSlot(new Date(2024, 0, 16, 12))
+    ];
+
+    const daily = aggregateDailyForecasts(slots);
+
+    expect(daily[0]?.weatherType).toBe('rain');
+    expect(daily[0]?.weatherIntensity).toBe('heavy');
+    expect(daily[1]?.weatherDetail).toBeUndefined();
+    expect(daily[1]?.weatherIntensity).toBeUndefined();
+  });
+
+  it('should limit the number of days', () => {
+    const slots = Array.from({ length: 10 }, (_, i) => createSlot(new Date(2024, 0, 1 + i, 12)));
+    expect(aggregateDailyForecasts(slots, 7)).toHaveLength(7);
+  });
+
+  it('should flag the last day as partial and lower confidence with lead time', () => {
+    // 3時間ごとに4日と半日分（最後の日は12時まで）
+    const start = new Date(2024, 0, 15, 0).getTime();
+    const slots = Array.from({ length: 37 }, (_, i) => createSlot(new Date(start + i * 3 * 60 * 60 * 1000)));
+
+    const daily = aggregateDailyForecasts(slots);
+
+    expect(daily).toHaveLength(5);
+    expect(daily.slice(0, 4).some(day => day.isPartial)).toBe(false);
+    expect(daily[4]?.isPartial).toBe(true);
+    expect(daily.map(day => day.confidence)).toEqual([1, 0.92, 0.84, 0.76, 0.54]);
+  });
+});
+
+describe('OpenMeteoProvider', () => {
+  beforeEach(() => {
+    globalThis.fetch = vi.fn();
+  });
+
+  it('should parse hourly forecast without an API key', async () => {
+    const base = new Date(2024, 0, 15, 0).getTime() / 1000;
+    const mockResponse: OpenMeteoForecastResponse = {
+      latitude: 35.68,
+      longitude: 139.65,
+      timezone: 'Asia/Tokyo',
+      utc_offset_seconds: 32400,
+      hourly: {
+        time: [base + 6 * 3600, base + 12 * 3600],
+        temperature_2m: [10, 18],
+        apparent_temperature: [8, 17],
+        relative_humidity_2m: [70, 50],
+        pressure_msl: [1010, 1012],
+        cloud_cover: [20, 80],
+        wind_speed_10m: [2, 4],
+        wind_direction_10m: [90, 180],
+        weather_code: [0, 63],
+        precipitation_probability: [10, 60],
+        visibility: [20000, 8000],
+        uv_index: [1, 4]
+      }
+    };
+
+    (globalThis.fetch as any).mockResolvedValueOnce({
+      ok: true,
+      json: async () => mockResponse
+    });
+
+    const provider = new OpenMeteoProvider();
+    const { forecasts, hourly } = await provider.fetchForecast(35.68, 139.65);
+
+    expect(provider.requiresApiKey).toBe(false);
+    expect((globalThis.fetch as any).mock.calls[0][0]).toContain('api.open-meteo.com');
+    expect(forecasts).toHaveLength(1);
+    expect(forecasts[0]?.temperature.max).toBe(18);
+    expect(forecasts[0]?.weatherType).toBe('rain');
+    expect(forecasts[0]?.weatherDescription).toBe('雨');
+    expect(forecasts[0]?.pop).toBe(0.6);
+    expect(forecasts[0]?.uvIndex).toBe(4);
+    expect(hourly).toHaveLength(2);
+    expect(hourly[1]?.datetime.getHours()).toBe(12);
+  });
+
+  it('should parse precipitation amounts and gusts', async () => {
+    const base = new Date(2024, 0, 15, 0).getTime() / 1000;
+    const mockResponse: OpenMeteoForecastResponse = {
+      latitude: 35.68,
+      longitude: 139.65,
+      timezone: 'Asia/Tokyo',
+      utc_offset_seconds: 32400,
+      hourly: {
+        time: [base + 6 * 3600, base + 12 * 3600],
+        temperature_2m: [1, 2],
+        apparent_temperature: [-2, -1],
+        relative_humidity_2m: [80, 85],
+        pressure_msl: [1005, 1003],
+        cloud_cover: [100, 100],
+        wind_speed_10m: [4, 6],
+        wind_direction_10m: [0, 10],
+        weather_code: [61, 73],
+        precipitation_probability: [70, 90],
+        rain: [1.5, 0],
+        showers: [0.5, null],
+        snowfall: [0, 1.4],
+        wind_gusts_10m: [9, 17],
+        visibility: [5000, 2000],
+        uv_index: [0, 0]
+      }
+    };
+
+    (globalThis.fetch as any).mockResolvedValueOnce({
+      ok: true,
+      json: async () => mockResponse
+    });
+
+    const { forecasts, hourly } = await new OpenMeteoProvider().fetchForecast(35.68, 139.65);
+
+    expect((globalThis.fetch as any).mock.calls[0][0]).toContain('wind_gusts_10m');
+    expect(hourly[0]?.rain).toBe(2);
+    // 1.4cmの雪は水に換算して2mm
+    expect(hourly[1]?.snow).toBe(2);
+    expect(forecasts[0]?.rain).toBe(2);
+    expect(forecasts[0]?.snow).toBe(2);
+    expect(forecasts[0]?.windGust).toBe(17);
+  });
+
+  it('should map WMO weather codes', () => {
+    const provider = new OpenMeteoProvider();
+
+    expect((provider as any).mapWeatherCode(0).type).toBe('clear');
+    expect((provider as any).mapWeatherCode(3).type).toBe('clouds');
+    expect((provider as any).mapWeatherCode(45).type).toBe('fog');
+    expect((provider as any).mapWeatherCode(53).type).toBe('drizzle');
+    expect((provider as any).mapWeatherCode(75).type).toBe('snow');
+    expect((provider as any).mapWeatherCode(95).type).toBe('thunderstorm');
+    expect((provider as any).mapWeatherCode(65)).toMatchObject({ detail: 'rain', intensity: 'heavy' });
+    expect((provider as any).mapWeatherCode(3).detail).toBe('overcast');
+  });
+
+  it('should surface API errors', async () => {
+    (globalThis.fetch as any).mockResolvedValueOnce({
+      ok: false,
+      status: 400,
+      json: async () => ({ error: true, reason: 'Latitude must be in range' })
+    });
+
+    await expect(new OpenMeteoProvider().fetchForecast(999, 0))
+      .rejects.toThrow('Weather API Error: Latitude must be in range (Code: 400)');
+  });
+});
+
+describe('LocalWeatherProvider', () => {
+  it('should serve forecasts from the fixture', async () => {
+    const fixture = createSampleWeatherFixture(new Date(2024, 0, 15, 9));
+    const provider = new LocalWeatherProvider(fixture);
+
+    const { forecasts } = await provider.fetchForecast(0, 0);
+    const current = await provider.fetchCurrentWeather(0, 0);
+
+    expect(forecasts).toHaveLength(5);
+    expect(forecasts[0]?.date.toDateString()).toBe(new Date(2024, 0, 15).toDateString());
+    expect(forecasts[2]?.weatherType).toBe('rain');
+    expect(current.weatherType).toBe('clear');
+  });
+
+  it('should let WeatherService use canned data without fetch', async () => {
+    globalThis.fetch = vi.fn();
+    const service = new WeatherService();
+    service.registerProvider(new LocalWeatherProvider({
+      current: { ...createSlot(new Date(2024, 0, 15, 12)), visibility: 10000 },
+      slots: [createSlot(new Date(2024, 0, 15, 12), { weatherType: 'snow', temperature: -2 })]
+    }));
+
+    const forecast = await service.getWeatherForecast(35.6762, 139.6503, true, 'local');
+
+    expect(globalThis.fetch).not.toHaveBeenCalled();
+    expect(forecast.forecasts[0]?.weatherType).toBe('snow');
+    expect(forecast.hourly).toHaveLength(1);
+    expect(forecast.lat).toBe(35.6762);
+  });
+});
@@ -1,5 +1,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { WeatherService } from './weather.service';
+import { databaseService } from './database.service';
+import { setActiveLanguage } from '../utils/i18n';
 import type { OpenWeatherMapCurrentResponse, OpenWeatherMapForecastResponse } from '../types/api';
 
 // Mock database service
@@ -9,6 +11,7 @@ vi.mock('./database.service', () => ({
     saveWeatherData: vi.fn(),
     getWeatherForecast: vi.fn(),
     saveWeatherForecast: vi.fn(),
+    saveWeatherArchiveEntry: vi.fn(),
   }
 }));
 
@@ -24,16 +27,21 @@ describe('WeatherService', () => {
 
   describe('mapWeatherCondition', () => {
     it('should map weather conditions correctly', () => {
-      const service = new WeatherService();
+      const provider = new WeatherService().getProvider('openweathermap');
       
-      expect((service as any).mapWeatherCondition('Clear')).toBe('clear');
-      expect((service as any).mapWeatherCondition('Clouds')).toBe('clouds');
-      expect((service as any).mapWeatherCondition('Rain')).toBe('rain');
-      expect((service as any).mapWeatherCondition('Drizzle')).toBe('drizzle');
-      expect((service as any).mapWeatherCondition('Thunderstorm')).toBe('thunderstorm');
-      expect((service as any).mapWeatherCondition('Snow')).toBe('snow');
-      expect((service as any).mapWeatherCondition('Mist')).toBe('mist');
-      expect((service as any).mapWeatherCondition('Unknown')).toBe('clear');
+      expect((provider as any).mapWeatherCondition(800).weatherType).toBe('clear');
+      expect((provider as any).mapWeatherCondition(803).weatherType).toBe('clouds');
+      expect((provider as any).mapWeatherCondition(501).weatherType).toBe('rain');
+      expect((provider as any).mapWeatherCondition(300).weatherType).toBe('drizzle');
+      expect((provider as any).mapWeatherCondition(211).weatherType).toBe('thunderstorm');
+      expect((provider as any).mapWeatherCondition(601).weatherType).toBe('snow');
+      expect((provider as any).mapWeatherCondition(701).weatherType).toBe('mist');
+      expect((provider as any).mapWeatherCondition(999).weatherType).toBe('clear');
+      expect((provider as any).mapWeatherCondition(502)).toEqual({
+        weatherType: 'rain',
+        weatherDetail: 'rain',
+        weatherIntensity: 'heavy'
+      });
     });
   });
 
@@ -82,8 +90,11 @@ describe('WeatherService', () => {
       expect(result.temperature).toBe(25.5);
       expect(result.weatherType).toBe('clear');
       expect(result.weatherDescription).toBe('晴天');
+      expect(result.sunrise).toEqual(new Date(1640989800 * 1000));
+      expect(result.sunset).toEqual(new Date(1641024600 * 1000));
       expect(result.lat).toBe(35.6762);
       expect(result.lon).toBe(139.6503);
+      expect(result.provider).toBe('openweathermap');
     });
 
     it('should throw error when API key is missing', async () => {
@@ -135,6 +146,7 @@ describe('WeatherService', () => {
             wind: { speed: 3.5, deg: 180, gust: 4.2 },
             visibility: 10000,
             pop: 0.2,
+            rain: { '3h': 1.2 },
             sys: { pod: 'd' },
             dt_txt: '2024-01-01 12:00:00'
           }
@@ -162,8 +174,34 @@ describe('WeatherService', () => {
       const firstForecast = result.forecasts[0];
       expect(firstForecast?.temperature.day).toBe(25.5);
       expect(firstForecast?.weatherType).toBe('clear');
+      expect(firstForecast?.rain).toBe(1.2);
+      expect(firstForecast?.snow).toBe(0);
+      expect(firstForecast?.windGust).toBe(4.2);
+      expect(firstForecast?.daylight?.sunrise).toBeInstanceOf(Date);
+      expect(firstForecast?.nightSky?.moonIllumination).toBeGreaterThanOrEqual(0);
+      // 東京の1月の南中高度は約31°
+      expect(firstForecast?.sunAltitude).toBeCloseTo(31, 0);
+      expect(result.hourly?.[0]?.sunAltitude).toBeDefined();
       expect(result.lat).toBe(35.6762);
       expect(result.lon).toBe(139.6503);
+      expect(databaseService.saveWeatherArchiveEntry).toHaveBeenCalledWith(
+        expect.objectContaining({ lat: 35.68, lon: 139.65, temperatureDay: 25.5, source: 'forecast' })
+      );
+      expect(databaseService.saveWeatherForecast).toHaveBeenCalledWith(
+        expect.objectContaining({ provider: 'openweathermap' })
+      );
+    });
+
+    it('should look up the cache for the selected provider', async () => {
+      service = new WeatherService();
+      const cached = { lat: 35.6762, lon: 139.6503, forecasts: [], provider: 'open-meteo' };
+      vi.mocked(databaseService.getWeatherForecast).mockResolvedValueOnce(cached as any);
+
+      const result = await service.getWeatherForecast(35.6762, 139.6503, false, 'open-meteo');
+
+      expect(result).toBe(cached);
+      expect(databaseService.getWeatherForecast).toHaveBeenCalledWith(35.6762, 139.6503, 'open-meteo');
+      expect(globalThis.fetch).not.toHaveBeenCalled();
     });
   });
 
@@ -219,6 +257,22 @@ describe('WeatherService', () => {
       expect(result).toBe('東京');
     });
 
+    it('should use the place name for the active language', async () => {
+      vi.stubEnv('VITE_OPENWEATHER_API_KEY', 'test-api-key');
+      service = new WeatherService();
+      (globalThis.fetch as any).mockResolvedValue({
+        ok: true,
+        json: async () => [{ name: 'Tokyo', local_names: { ja: '東京', en: 'Tokyo City' }, lat: 35.6762, lon: 139.6503 }]
+      });
+
+      setActiveLanguage('en');
+      try {
+        expect(await service.getLocationByCoords(35.6762, 139.6503)).toBe('Tokyo City');
+      } finally {
+        setActiveLanguage('ja');
+      }
+    });
+
     it('should return coordinates when no location found', async () => {
       vi.stubEnv('VITE_OPENWEATHER_API_KEY', 'test-api-key');
       service = new WeatherService();
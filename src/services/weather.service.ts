@@ -1,17 +1,33 @@
-import type { 
-  OpenWeatherMapCurrentResponse, 
-  OpenWeatherMapForecastResponse,
-  WeatherApiError 
-} from '../types/api';
-import type { WeatherData, WeatherForecast, DailyForecast, WeatherType, LocationSearchResult, LocationType } from '../types';
+import type { WeatherData, WeatherForecast, WeatherType, WeatherProviderType, LocationSearchResult, LocationType } from '../types';
 import { databaseService } from './database.service';
+import {
+  DEFAULT_WEATHER_PROVIDER,
+  LocalWeatherProvider,
+  OpenMeteoProvider,
+  OpenWeatherMapProvider,
+  type WeatherProvider
+} from './weather-providers';
+import { t, getActiveLanguage } from '../utils/i18n';
+import {
+  createArchiveEntryFromForecast,
+  createArchiveEntryFromObservation,
+  type WeatherArchiveInput
+} from '../utils/weather-archive';
+import { calculateDaylight, calculateNoonSunAltitude, calculateSunAltitude } from '../utils/daylight';
+import { calculateNightSky } from '../utils/astronomy';
+import type { MessageKey } from '../types/i18n';
 
 export class WeatherService {
   private apiKey: string;
-  private readonly baseUrl = 'https://api.openweathermap.org/data/2.5';
+  private providers: Map<WeatherProviderType, WeatherProvider>;
 
   constructor() {
     this.apiKey = this.getApiKey();
+    this.providers = new Map<WeatherProviderType, WeatherProvider>([
+      ['openweathermap', new OpenWeatherMapProvider(() => this.apiKey)],
+      ['open-meteo', new OpenMeteoProvider()],
+      ['local', new LocalWeatherProvider()]
+    ]);
   }
 
   private getApiKey(): string {
@@ -42,44 +58,21 @@ export class WeatherService {
     this.apiKey = this.getApiKey();
   }
 
-  private mapWeatherCondition(condition: string): WeatherType {
-    const conditionLower = condition.toLowerCase();
-    
-    if (conditionLower.includes('clear')) return 'clear';
-    if (conditionLower.includes('cloud')) return 'clouds';
-    if (conditionLower.includes('rain')) return 'rain';
-    if (conditionLower.includes('drizzle')) return 'drizzle';
-    if (conditionLower.includes('thunderstorm')) return 'thunderstorm';
-    if (conditionLower.includes('snow')) return 'snow';
-    if (conditionLower.includes('mist')) return 'mist';
-    if (conditionLower.includes('fog')) return 'fog';
-    if (conditionLower.includes('haze')) return 'haze';
-    if (conditionLower.includes('dust') || conditionLower.includes('sand')) return 'dust';
-    
-    return 'clear'; // Default fallback
-  }
-
   /**
-   * OpenWeatherMap APIへのリクエストを実行
-   * 
-   * API制限事項:
-   * - 無料プラン: 1,000 calls/day, 60 calls/minute
-   * - レートリミット超過時は429ステータスコードを返す
-   * - キャッシュ機能でAPI呼び出しを最小化
+   * 天気データの取得元を取得
+   * 未指定の場合はOpenWeatherMapを使用
    */
-  private async makeRequest<T>(url: string): Promise<T> {
-    if (!this.apiKey) {
-      throw new Error('API key not configured');
-    }
-
-    const response = await fetch(url);
-    
-    if (!response.ok) {
-      const errorData: WeatherApiError = await response.json();
-      throw new Error(`Weather API Error: ${errorData.message} (Code: ${errorData.cod})`);
+  getProvider(type: WeatherProviderType = DEFAULT_WEATHER_PROVIDER): WeatherProvider {
+    const provider = this.providers.get(type);
+    if (!provider) {
+      throw new Error(`Unknown weather provider: ${type}`);
     }
+    return provider;
+  }
 
-    return response.json();
+  // プロバイダーを差し替え（テスト用の固定データ注入など）
+  registerProvider(provider: WeatherProvider): void {
+    this.providers.set(provider.type, provider);
   }
 
   /**
@@ -90,132 +83,83 @@ export class WeatherService {
    * - forceRefresh=trueでキャッシュをバイパスして最新データを取得
    * - API呼び出し回数を減らしてレートリミットを回避
    */
-  async getCurrentWeather(lat: number, lon: number, forceRefresh = false): Promise<WeatherData> {
+  async getCurrentWeather(
+    lat: number,
+    lon: number,
+    forceRefresh = false,
+    providerType?: WeatherProviderType
+  ): Promise<WeatherData> {
+    const provider = this.getProvider(providerType);
+
     // 強制更新でない限りまずキャッシュをチェック
     if (!forceRefresh) {
-      const cached = await databaseService.getWeatherData(lat, lon);
+      const cached = await databaseService.getWeatherData(lat, lon, provider.type);
       if (cached) {
         return cached;
       }
     }
 
-    const url = `${this.baseUrl}/weather?lat=${lat}&lon=${lon}&appid=${this.apiKey}&units=metric&lang=ja`;
-    const response: OpenWeatherMapCurrentResponse = await this.makeRequest(url);
+    const current = await provider.fetchCurrentWeather(lat, lon);
+
+    // 取得元が日の出・日の入りを提供しない場合は場所から計算する
+    const { sunrise, sunset } = calculateDaylight(current.datetime, lat, lon);
 
     const now = new Date();
     const weatherData: Omit<WeatherData, 'id'> = {
+      ...(sunrise && { sunrise }),
+      ...(sunset && { sunset }),
+      ...current,
       lat,
       lon,
-      datetime: new Date(response.dt * 1000),
-      temperature: response.main.temp,
-      feelsLike: response.main.feels_like,
-      humidity: response.main.humidity,
-      pressure: response.main.pressure,
-      visibility: response.visibility,
-      windSpeed: response.wind.speed,
-      windDirection: response.wind?.deg ?? 0,
-      weatherType: this.mapWeatherCondition(response.weather?.[0]?.main ?? 'clear'),
-      weatherDescription: response.weather?.[0]?.description ?? 'unknown',
-      condition: response.weather?.[0]?.description ?? 'unknown',
-      cloudiness: response.clouds.all,
-      uvIndex: 0, // Current weather API doesn't provide UV index
+      provider: provider.type,
       generatedAt: now,
       cachedAt: now
     };
 
     // Save to cache
     await databaseService.saveWeatherData(weatherData);
+    await this.saveToArchive(createArchiveEntryFromObservation(lat, lon, weatherData, now));
 
     return weatherData as WeatherData;
   }
 
-  async getWeatherForecast(lat: number, lon: number, forceRefresh = false): Promise<WeatherForecast> {
+  async getWeatherForecast(
+    lat: number,
+    lon: number,
+    forceRefresh = false,
+    providerType?: WeatherProviderType
+  ): Promise<WeatherForecast> {
+    const provider = this.getProvider(providerType);
+
     // Check cache first unless forced refresh
     if (!forceRefresh) {
-      const cached = await databaseService.getWeatherForecast(lat, lon);
+      const cached = await databaseService.getWeatherForecast(lat, lon, provider.type);
       if (cached) {
         return cached;
       }
     }
 
-    /**
-     * OneCall APIは2023年6月から有料サービスに変更
-     * 代わりに5日間予報APIを使用して日別データを集約
-     * 3時間ごとのデータを日別にグループ化して処理
-     */
-    const url = `${this.baseUrl}/forecast?lat=${lat}&lon=${lon}&appid=${this.apiKey}&units=metric&lang=ja`;
-    const response: OpenWeatherMapForecastResponse = await this.makeRequest(url);
+    const { forecasts: providerForecasts, hourly: providerHourly } = await provider.fetchForecast(lat, lon);
 
-    // Validate response structure
-    if (!response.list || !Array.isArray(response.list)) {
-      throw new Error('Invalid forecast response format');
-    }
-
-    /**
-     * 3時間ごとの予報データを日別にグループ化
-     * 最高最低気温、時間帯別気温、平均湿度などを計算
-     */
-    const dailyData = new Map<string, OpenWeatherMapForecastResponse['list']>();
-    
-    response.list.forEach((item) => {
-      const date = new Date(item.dt * 1000).toDateString();
-      if (!dailyData.has(date)) {
-        dailyData.set(date, []);
-      }
-      const dayData = dailyData.get(date);
-      if (dayData) {
-        dayData.push(item);
-      }
-    });
-
-    const dailyForecasts: DailyForecast[] = Array.from(dailyData.entries())
-      .slice(0, 7)
-      .map(([dateString, items]) => {
-        const temps = items.map(item => item.main.temp);
-        const feelsLike = items.map(item => item.main.feels_like);
-        const humidities = items.map(item => item.main.humidity);
-        const pressures = items.map(item => item.main.pressure);
-        const winds = items.map(item => item.wind.speed);
-        
-        // 一日の中間時刻の天気情報を代表値として使用
-        // より精度を高める場合は最頻値を使用することも可能
-        const weather = items[Math.floor(items.length / 2)]?.weather?.[0];
-        if (!weather) {
-          throw new Error('Invalid weather data in forecast');
-        }
-        
-        return {
-          date: new Date(dateString),
-          temperature: {
-            min: Math.min(...temps),
-            max: Math.max(...temps),
-            morning: items.find(item => new Date(item.dt * 1000).getHours() === 6)?.main.temp ?? temps[0] ?? 0,
-            day: items.find(item => new Date(item.dt * 1000).getHours() === 12)?.main.temp ?? temps[Math.floor(temps.length / 2)] ?? 0,
-            evening: items.find(item => new Date(item.dt * 1000).getHours() === 18)?.main.temp ?? temps[temps.length - 1] ?? 0,
-            night: items.find(item => new Date(item.dt * 1000).getHours() === 0)?.main.temp ?? temps[0] ?? 0
-          },
-          feelsLike: {
-            morning: items.find(item => new Date(item.dt * 1000).getHours() === 6)?.main.feels_like ?? feelsLike[0] ?? 0,
-            day: items.find(item => new Date(item.dt * 1000).getHours() === 12)?.main.feels_like ?? feelsLike[Math.floor(feelsLike.length / 2)] ?? 0,
-            evening: items.find(item => new Date(item.dt * 1000).getHours() === 18)?.main.feels_like ?? feelsLike[feelsLike.length - 1] ?? 0,
-            night: items.find(item => new Date(item.dt * 1000).getHours() === 0)?.main.feels_like ?? feelsLike[0] ?? 0
-          },
-          humidity: Math.round(humidities.reduce((a, b) => a + b, 0) / humidities.length),
-          pressure: Math.round(pressures.reduce((a, b) => a + b, 0) / pressures.length),
-          windSpeed: Math.round((winds.reduce((a, b) => a + b, 0) / winds.length) * 10) / 10,
-          windDirection: items[Math.floor(items.length / 2)]?.wind?.deg ?? 0,
-          weatherType: this.mapWeatherCondition(weather.main),
-          weatherDescription: weather.description,
-          cloudiness: items[Math.floor(items.length / 2)]?.clouds?.all ?? 0,
-          uvIndex: 0, // 5-day forecast doesn't include UV index
-          pop: Math.max(...items.map(item => item.pop ?? 0))
-        };
-      });
+    // 日の出・日の入りや月などは取得元によらず場所から計算する
+    const forecasts = providerForecasts.map(daily => ({
+      ...daily,
+      daylight: calculateDaylight(daily.date, lat, lon),
+      nightSky: calculateNightSky(daily.date, lat, lon),
+      sunAltitude: calculateNoonSunAltitude(daily.date, lat, lon)
+    }));
+    // 太陽高度はUV指数を提供しない取得元で日射量を見積もるのに使う
+    const hourly = providerHourly.map(slot => ({
+      ...slot,
+      sunAltitude: calculateSunAltitude(slot.datetime, lat, lon)
+    }));
 
     const forecast: Omit<WeatherForecast, 'id'> = {
       lat,
       lon,
-      forecasts: dailyForecasts,
+      forecasts,
+      hourly,
+      provider: provider.type,
       generatedAt: new Date(),
       cachedAt: new Date()
     };
@@ -223,9 +167,24 @@ export class WeatherService {
     // Save to cache
     await databaseService.saveWeatherForecast(forecast);
 
+    // 最初の日の予報は期限切れのキャッシュとは別に記録として残す
+    const firstDay = forecasts[0];
+    if (firstDay) {
+      await this.saveToArchive(createArchiveEntryFromForecast(lat, lon, firstDay, forecast.generatedAt));
+    }
+
     return forecast as WeatherForecast;
   }
 
+  // 記録の保存に失敗しても天気の取得は続ける
+  private async saveToArchive(entry: WeatherArchiveInput): Promise<void> {
+    try {
+      await databaseService.saveWeatherArchiveEntry(entry);
+    } catch (error) {
+      console.warn('Failed to save weather archive:', error);
+    }
+  }
+
   async searchLocation(query: string): Promise<LocationSearchResult[]> {
     const results: LocationSearchResult[] = [];
 
@@ -361,46 +320,18 @@ export class WeatherService {
   }
 
   private extractLocationCategory(location: { type?: string; class?: string; amenity?: string; leisure?: string; tourism?: string }): string | undefined {
-    const amenityTypes: Record<string, string> = {
-      restaurant: 'レストラン',
-      cafe: 'カフェ',
-      bar: 'バー',
-      fast_food: 'ファストフード',
-      pub: '居酒屋',
-      bank: '銀行',
-      hospital: '病院',
-      pharmacy: '薬局',
-      school: '学校',
-      university: '大学',
-      library: '図書館',
-      museum: '博物館',
-      theatre: '劇場',
-      cinema: '映画館',
-      park: '公園',
-      playground: '遊び場',
-      swimming_pool: 'プール',
-      gym: 'ジム',
-      hotel: 'ホテル',
-      fuel: 'ガソリンスタンド',
-      parking: '駐車場',
-      post_office: '郵便局',
-      police: '警察署',
-      fire_station: '消防署'
-    };
-
-    const shopTypes: Record<string, string> = {
-      supermarket: 'スーパーマーケット',
-      convenience: 'コンビニ',
-      clothes: '服飾店',
-      electronics: '電器店',
-      books: '書店',
-      bakery: 'パン屋',
-      beauty: '美容院',
-      hairdresser: '理容室',
-      bicycle: '自転車店',
-      car: '自動車販売店',
-      mobile_phone: '携帯電話店'
-    };
+    // 翻訳のある施設・店舗の種類
+    const amenityTypes = new Set<string>([
+      'restaurant', 'cafe', 'bar', 'fast_food', 'pub', 'bank',
+      'hospital', 'pharmacy', 'school', 'university', 'library', 'museum',
+      'theatre', 'cinema', 'park', 'playground', 'swimming_pool', 'gym',
+      'hotel', 'fuel', 'parking', 'post_office', 'police', 'fire_station'
+    ]);
+
+    const shopTypes = new Set<string>([
+      'supermarket', 'convenience', 'clothes', 'electronics', 'books', 'bakery',
+      'beauty', 'hairdresser', 'bicycle', 'car', 'mobile_phone'
+    ]);
 
     interface LocationWithTags {
       type?: string;
@@ -417,19 +348,19 @@ export class WeatherService {
 
     const tags = (location as LocationWithTags).tags;
     if (tags?.amenity) {
-      return amenityTypes[tags.amenity] ?? tags.amenity;
+      return amenityTypes.has(tags.amenity) ? t(`place.amenity.${tags.amenity}` as MessageKey) : tags.amenity;
     }
 
     if (tags?.shop) {
-      return shopTypes[tags.shop] ?? tags.shop;
+      return shopTypes.has(tags.shop) ? t(`place.shop.${tags.shop}` as MessageKey) : tags.shop;
     }
 
     if (tags?.tourism) {
-      return '観光地';
+      return t('place.tourism');
     }
 
     if (tags?.leisure) {
-      return 'レジャー施設';
+      return t('place.leisure');
     }
 
     return undefined;
@@ -461,7 +392,7 @@ export class WeatherService {
       }
 
       // 同じ種別内では名前順
-      return a.name.localeCompare(b.name, 'ja');
+      return a.name.localeCompare(b.name, getActiveLanguage());
     });
   }
 
@@ -485,7 +416,8 @@ export class WeatherService {
 
     const location = locations[0];
     if (location) {
-      return location.local_names?.ja ?? location.name ?? `${lat.toFixed(4)}, ${lon.toFixed(4)}`;
+      // 表示言語の地名がない場合は既定の地名を使う
+      return location.local_names?.[getActiveLanguage()] ?? location.name ?? `${lat.toFixed(4)}, ${lon.toFixed(4)}`;
     }
     return `${lat.toFixed(4)}, ${lon.toFixed(4)}`;
   }
@@ -508,20 +440,7 @@ export class WeatherService {
   }
 
   getWeatherDescription(weatherType: WeatherType): string {
-    const descriptionMap: Record<WeatherType, string> = {
-      clear: '晴れ',
-      clouds: '曇り',
-      rain: '雨',
-      drizzle: '小雨',
-      thunderstorm: '雷雨',
-      snow: '雪',
-      mist: '霧',
-      fog: '濃霧',
-      haze: 'かすみ',
-      dust: '砂埃'
-    };
-
-    return descriptionMap[weatherType] ?? '不明';
+    return t(`weather.type.${weatherType}`);
   }
 }
 
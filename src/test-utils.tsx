@@ -2,11 +2,17 @@
 import React from 'react';
 import { render, RenderOptions } from '@testing-library/react';
 import { ThemeProvider } from './contexts/ThemeContext';
+import { UnitsProvider } from './contexts/UnitsContext';
+import { LanguageProvider } from './contexts/LanguageContext';
 
 const AllTheProviders = ({ children }: { children: React.ReactNode }) => {
   return (
     <ThemeProvider>
-      {children}
+      <LanguageProvider>
+        <UnitsProvider>
+          {children}
+        </UnitsProvider>
+      </LanguageProvider>
     </ThemeProvider>
   );
 };
@@ -174,4 +174,45 @@ export interface OpenWeatherMapOneCallResponse {
 export interface WeatherApiError {
   cod: number;
   message: string;
-}
\ No newline at end of file
+}
+// Open-Meteo Forecast API（timeformat=unixtime指定時）
+export interface OpenMeteoForecastResponse {
+  latitude: number;
+  longitude: number;
+  timezone: string;
+  utc_offset_seconds: number;
+  current?: {
+    time: number;
+    temperature_2m: number;
+    apparent_temperature: number;
+    relative_humidity_2m: number;
+    pressure_msl: number;
+    cloud_cover: number;
+    wind_speed_10m: number;
+    wind_direction_10m: number;
+    weather_code: number;
+  };
+  hourly?: {
+    time: number[];
+    temperature_2m: number[];
+    apparent_temperature: number[];
+    relative_humidity_2m: number[];
+    pressure_msl: number[];
+    cloud_cover: number[];
+    wind_speed_10m: number[];
+    wind_direction_10m: number[];
+    weather_code: number[];
+    precipitation_probability: Array<number | null>;
+    rain?: Array<number | null>;
+    showers?: Array<number | null>;
+    snowfall?: Array<number | null>;
+    wind_gusts_10m?: Array<number | null>;
+    visibility: number[];
+    uv_index: number[];
+  };
+}
+
+export interface OpenMeteoApiError {
+  error: boolean;
+  reason: string;
+}
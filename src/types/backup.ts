@@ -0,0 +1,68 @@
+import type {
+  Hobby,
+  WeatherData,
+  WeatherForecast,
+  Location,
+  HobbyLocation,
+  AppSettings,
+  ActivityLog,
+  ActivityPhoto,
+  NotificationConfig,
+  NotificationHistory,
+  NotificationSettings,
+  BusyInterval,
+  WeatherArchiveEntry,
+} from './index';
+import type { ThemeConfig } from './theme';
+
+// バックアップに含めるDexieのテーブル（テーブル名と同じキーで保存する）
+export interface BackupTables {
+  hobbies: Hobby[];
+  weatherData: WeatherData[];
+  weatherForecasts: WeatherForecast[];
+  locations: Location[];
+  hobbyLocations: HobbyLocation[];
+  settings: AppSettings[];
+  activityLogs: ActivityLog[];
+  activityPhotos: ActivityPhoto[];
+  notificationConfigs: NotificationConfig[];
+  notificationHistory: NotificationHistory[];
+  notificationSettings: NotificationSettings[];
+  busyIntervals: BusyInterval[];
+  weatherArchive: WeatherArchiveEntry[];
+}
+
+export type BackupTableName = keyof BackupTables;
+
+export interface ApiSettingsBackup {
+  openWeatherApiKey: string;
+}
+
+export interface BackupFile extends BackupTables {
+  format: 'hobby-weather-backup';
+  version: number; // バックアップ形式のバージョン
+  schemaVersion: number; // 作成時のデータベースのバージョン
+  exportedAt: string;
+  theme?: ThemeConfig;
+  apiSettings?: ApiSettingsBackup; // API Keyを含めない場合は省略
+}
+
+// merge: 内容が同じデータ（趣味は名前、場所は名前と座標など）だけを上書きし、それ以外は追加する。今のデータは残す
+// replace: 既存のデータをすべて削除してから復元する
+export type RestoreMode = 'merge' | 'replace';
+
+export interface BackupTableChange {
+  table: BackupTableName;
+  added: number;
+  updated: number;
+  removed: number;
+}
+
+// 復元で変わる内容（実際には書き込まない事前確認にも使う）
+export interface RestorePreview {
+  mode: RestoreMode;
+  exportedAt: string;
+  tables: BackupTableChange[];
+  theme: boolean;
+  apiKey: boolean;
+}
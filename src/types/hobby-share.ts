@@ -0,0 +1,36 @@
+import type { Hobby } from './index';
+
+// 共有する趣味の定義（ID・日時・有効状態・学習前の設定は共有しない）
+export type SharedHobby = Omit<
+  Hobby,
+  'id' | 'isActive' | 'createdAt' | 'updatedAt' | 'learningBaseline'
+>;
+
+// 趣味の共有ファイル（形式は HOBBY_SHARE_FORMAT.md を参照）
+export interface HobbyShareFile {
+  format: 'hobby-weather-hobbies';
+  version: number;
+  exportedAt?: string; // 共有リンクでは省略
+  hobbies: SharedHobby[];
+}
+
+// skip: 取り込まない
+// overwrite: 同じ名前の趣味を上書きする
+// rename: 別の名前を付けて追加する
+export type HobbyImportAction = 'skip' | 'overwrite' | 'rename';
+
+// 取り込み前の確認に表示する1件分の内容
+export interface HobbyImportItem {
+  hobby: SharedHobby;
+  conflict?: Hobby; // 同じ名前の登録済みの趣味
+  duplicateInFile: boolean; // ファイル内の前の趣味と同じ名前
+  renamedName: string; // rename を選んだ場合の名前
+  errors: string[]; // 入力チェックのエラー（ある場合は取り込めない）
+  action: HobbyImportAction | 'create';
+}
+
+export interface HobbyImportResult {
+  created: number;
+  updated: number;
+  skipped: number;
+}
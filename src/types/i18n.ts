@@ -0,0 +1,23 @@
+import type { MessageKey } from '../constants/messages/ja';
+
+export type Language = 'ja' | 'en';
+
+// 件数で文言が変わるメッセージ（Intl.PluralRulesのカテゴリ）
+export interface PluralMessage {
+  one?: string;
+  other: string;
+}
+
+export type Message = string | PluralMessage;
+
+// {name}形式のプレースホルダーに埋め込む値（countは複数形の判定にも使う）
+export type MessageParams = Record<string, string | number>;
+
+export interface LanguageContextType {
+  language: Language;
+  locale: string;
+  setLanguage: (language: Language) => Promise<void>;
+  t: (key: MessageKey, params?: MessageParams) => string;
+}
+
+export type { MessageKey };
@@ -1,3 +1,6 @@
+import type { TemperatureUnit, WindSpeedUnit } from './units';
+import type { Language } from './i18n';
+
 export interface Hobby {
   id?: number;
   name: string;
@@ -8,6 +11,17 @@ export interface Hobby {
   isOutdoor?: boolean;
   minTemperature?: number;
   maxTemperature?: number;
+  durationMinutes?: number; // 活動に必要な時間（分）
+  earliestStart?: string; // 開始可能な最も早い時刻（HH:mm）
+  latestEnd?: string; // 終了しなければならない時刻（HH:mm）
+  weeklyFrequency?: number; // 週に活動したい回数（週間プランで使用、未指定の場合は1回）
+  requiresDaylight?: boolean; // 日の出〜日の入りの間だけ活動できる
+  prefersGoldenHour?: boolean; // ゴールデンアワーの空が期待できる日・時間帯を優先する（写真撮影など）
+  scoringMode?: ScoringMode; // スコア計算の方法（未指定の場合はweather）
+  goal?: HobbyGoal; // 活動回数の目標
+  scoringProfile?: ScoringProfile; // スコア計算の重み付け（未指定の場合は標準）
+  hardConstraints?: HardConstraints; // 活動不可とする条件
+  learningBaseline?: HobbyLearningBaseline; // 活動記録による学習を始める前の設定
   createdAt: Date;
   updatedAt?: Date;
 }
@@ -15,6 +29,88 @@ export interface Hobby {
 export interface WeatherCondition {
   condition: WeatherType;
   weight: number; // 1-10のスコア
+  intensity?: WeatherIntensity; // この強さまでを好適とする（雨・霧雨・雪・雷雨のみ、未指定はすべての強さ）
+}
+
+// 活動回数の目標の期間
+export type GoalPeriod = 'week' | 'month';
+
+// 活動回数の目標（例: 週3回、月1回）
+export interface HobbyGoal {
+  count: number; // 期間内の目標回数
+  period: GoalPeriod;
+}
+
+// スコア計算の要素
+export type ScoreFactor = 'weather' | 'temperature' | 'precipitation' | 'wind' | 'uv';
+
+// 夜空モードのスコア要素（夜間の雲量・月明かり・暗い時間の長さ）
+export type NightSkyFactor = 'cloudCover' | 'moonlight' | 'darkness';
+
+// スコア計算の方法
+export type ScoringMode =
+  | 'weather'    // 天気の好みと重み付け
+  | 'night-sky'; // 夜空の暗さ（星空観察など）
+
+// 要素ごとの重み（合計で正規化されるため100でなくてもよい）
+export type ScoringWeights = Record<ScoreFactor, number>;
+
+export type ScoringPresetId =
+  | 'balanced'        // 標準
+  | 'wind-sensitive'  // 風に弱い
+  | 'rain-tolerant'   // 雨に強い
+  | 'sun-seeking'     // 日差し重視
+  | 'custom';         // カスタム
+
+export interface ScoringProfile {
+  preset: ScoringPresetId;
+  weights: ScoringWeights;
+}
+
+// 活動不可とする条件（いずれか1つでも該当すると除外）
+export interface HardConstraints {
+  maxWindSpeed?: number; // 最大風速（m/s）
+  maxPrecipitationProbability?: number; // 最大降水確率（%）
+  minVisibility?: number; // 最低視程（m）
+  forbiddenWeather?: WeatherType[]; // 除外する天気
+  minFeelsLike?: number; // 最低体感温度（℃）
+  maxFeelsLike?: number; // 最高体感温度（℃）
+}
+
+// 活動後の評価（1: 最悪 〜 5: 最高）
+export type ActivityRating = 1 | 2 | 3 | 4 | 5;
+
+// 実際に趣味を行った記録
+export interface ActivityLog {
+  id?: number;
+  hobbyId: number;
+  date: Date; // 活動した日
+  locationId?: number;
+  locationName?: string;
+  lat?: number;
+  lon?: number;
+  forecast: DailyForecast; // 記録時点の予報
+  predictedScore: number; // 記録時点のおすすめスコア
+  rating: ActivityRating;
+  note?: string;
+  createdAt: Date;
+}
+
+// 活動記録に添付した写真（Blobのまま保存）
+export interface ActivityPhoto {
+  id?: number;
+  logId: number;
+  blob: Blob;
+  name: string;
+  createdAt: Date;
+}
+
+// 学習前の趣味設定（プロファイルの変化を表示するために保持）
+export interface HobbyLearningBaseline {
+  preferredWeather: WeatherCondition[];
+  minTemperature?: number;
+  maxTemperature?: number;
+  capturedAt: Date;
 }
 
 export type WeatherType = 
@@ -29,6 +125,38 @@ export type WeatherType =
   | 'haze'
   | 'dust';
 
+// 降水・雷雨などの強さ
+export type WeatherIntensity = 'light' | 'moderate' | 'heavy';
+
+/**
+ * 天気タイプより細かい天気の分類
+ * スコア計算などは従来どおりWeatherTypeで行い、こちらは強さの判定や表示に使う
+ */
+export type WeatherDetail =
+  | 'clear'
+  | 'fewClouds'
+  | 'scatteredClouds'
+  | 'brokenClouds'
+  | 'overcast'
+  | 'drizzle'
+  | 'freezingDrizzle'
+  | 'rain'
+  | 'freezingRain'
+  | 'showerRain'
+  | 'thunderstorm'
+  | 'snow'
+  | 'sleet'
+  | 'showerSnow'
+  | 'mist'
+  | 'smoke'
+  | 'haze'
+  | 'dust'
+  | 'sand'
+  | 'ash'
+  | 'fog'
+  | 'squall'
+  | 'tornado';
+
 export type TimeOfDay = 
   | 'morning'   // 朝 (6:00-11:59)
   | 'day'       // 昼 (12:00-17:59)
@@ -48,10 +176,15 @@ export interface WeatherData {
   windSpeed: number;
   windDirection: number;
   weatherType: WeatherType;
+  weatherDetail?: WeatherDetail; // 細かい天気の分類（取得元が提供する場合のみ）
+  weatherIntensity?: WeatherIntensity; // 降水などの強さ（取得元が提供する場合のみ）
   weatherDescription: string;
   condition: string; // 天気状況の説明文
   cloudiness: number;
   uvIndex: number;
+  sunrise?: Date; // 日の出（取得元が提供する場合のみ）
+  sunset?: Date; // 日の入り（取得元が提供する場合のみ）
+  provider?: WeatherProviderType; // 取得元（キャッシュは取得元ごとに分ける。古いキャッシュには存在しない）
   generatedAt: Date;
   cachedAt: Date;
 }
@@ -62,6 +195,8 @@ export interface WeatherForecast {
   lon: number;
   current?: WeatherData;
   forecasts: DailyForecast[];
+  hourly?: HourlyForecast[]; // 時間単位の予報（古いキャッシュには存在しない）
+  provider?: WeatherProviderType; // 取得元（古いキャッシュには存在しない）
   generatedAt: Date;
   cachedAt: Date;
 }
@@ -87,14 +222,128 @@ export interface DailyForecast {
   windSpeed: number;
   windDirection: number;
   weatherType: WeatherType;
+  weatherDetail?: WeatherDetail; // 細かい天気の分類（取得元が提供する場合のみ）
+  weatherIntensity?: WeatherIntensity; // 代表的な天気の1日で最も強い強さ（取得元が提供する場合のみ）
   weatherDescription: string;
   cloudiness: number;
   uvIndex: number;
   pop: number; // 降水確率
+  rain?: number; // 1日の降雨量の合計（mm、取得元が提供する場合のみ）
+  snow?: number; // 1日の降雪量の合計（mm、水に換算した量）
+  windGust?: number; // 1日の最大瞬間風速（m/s、取得元が提供する場合のみ）
+  visibility?: number; // 最低視程（m、取得元が提供する場合のみ）
+  isPartial?: boolean; // 予報が1日の途中までしかない（取得期間の最後の日など）
+  confidence?: number; // 予報の信頼度（0-1、先の日ほど低い）
+  daylight?: DaylightTimes; // 日の出・日の入りなど（場所から計算、古いキャッシュには存在しない）
+  nightSky?: NightSky; // その日の夜の月と暗さ（場所から計算、古いキャッシュには存在しない）
+  sunAltitude?: number; // 南中時の太陽高度（度、場所から計算、古いキャッシュには存在しない）
+}
+
+// 時刻の範囲
+export interface DaylightRange {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * 1日の日の出・日の入りと薄明の時刻
+ *
+ * - 市民薄明: 太陽高度 -6° 〜 日の出・日の入り
+ * - ゴールデンアワー: 太陽高度 -4° 〜 6°
+ * - ブルーアワー: 太陽高度 -6° 〜 -4°
+ *
+ * 太陽がその高度を通過しない日（高緯度の白夜・極夜など）はnull
+ */
+export interface DaylightTimes {
+  sunrise: Date | null;
+  sunset: Date | null;
+  civilDawn: Date | null;
+  civilDusk: Date | null;
+  morningGoldenHour: DaylightRange | null;
+  eveningGoldenHour: DaylightRange | null;
+  morningBlueHour: DaylightRange | null;
+  eveningBlueHour: DaylightRange | null;
+  polar?: 'day' | 'night'; // 太陽が沈まない日（白夜）または昇らない日（極夜）
+}
+
+// 暑さ指数（WBGT）の段階（環境省の指針: 21未満 ほぼ安全 / 21〜 注意 / 25〜 警戒 / 28〜 厳重警戒 / 31〜 危険）
+export type WbgtLevel = 'safe' | 'caution' | 'warning' | 'severeWarning' | 'danger';
+
+// 寒さの段階（風を考慮した体感温度による）
+export type ColdStressLevel = 'none' | 'caution' | 'warning' | 'danger';
+
+// 気温・湿度・風・日差しから求める安全のための指標
+export interface SafetyIndices {
+  wbgt: number; // 推定した暑さ指数（°C）
+  wbgtLevel: WbgtLevel;
+  heatIndex: number; // 熱指数（湿度を考慮した体感温度、°C）
+  windChill: number; // 風を考慮した体感温度（°C）
+  discomfortIndex: number; // 不快指数
+  coldStressLevel: ColdStressLevel;
+}
+
+// その日の夜（日没後〜翌朝）の月と暗さ
+export interface NightSky {
+  moonPhase: number; // 月相（0: 新月、0.25: 上弦、0.5: 満月、0.75: 下弦）
+  moonIllumination: number; // 月の輝面比（0-1）
+  moonrise: Date | null; // その日の月の出（ない日はnull）
+  moonset: Date | null; // その日の月の入り（ない日はnull）
+  darkness: DaylightRange | null; // 天文薄明の終わり〜翌朝の天文薄明の始まり（暗くならない夜はnull）
+  darknessMinutes: number; // 暗い時間の長さ（分）
+  moonlessDarknessMinutes: number; // 暗い時間のうち月が沈んでいる時間（分）
+}
+
+// 時間単位の予報（OpenWeatherMapは3時間ごと、Open-Meteoは1時間ごと）
+export interface HourlyForecast {
+  datetime: Date;
+  temperature: number;
+  feelsLike: number;
+  humidity: number;
+  pressure: number;
+  windSpeed: number;
+  windDirection: number;
+  weatherType: WeatherType;
+  weatherDetail?: WeatherDetail; // 細かい天気の分類（取得元が提供する場合のみ）
+  weatherIntensity?: WeatherIntensity; // 降水などの強さ（取得元が提供する場合のみ）
+  weatherDescription: string;
+  cloudiness: number;
+  uvIndex: number;
+  pop: number; // 降水確率（0-1）
+  rain?: number; // 予報の間隔の降雨量（mm、取得元が提供する場合のみ）
+  snow?: number; // 予報の間隔の降雪量（mm、水に換算した量）
+  windGust?: number; // 最大瞬間風速（m/s、取得元が提供する場合のみ）
+  visibility?: number; // 視程（m、取得元が提供する場合のみ）
+  sunAltitude?: number; // 太陽高度（度、場所から計算、古いキャッシュには存在しない）
+}
+
+// 天気の記録の元（forecast: その日の予報、observed: 現在の天気を観測した値を含む）
+export type WeatherArchiveSource = 'forecast' | 'observed';
+
+// 場所ごと・日ごとの天気の記録（予報のキャッシュとは別に、期限なく残す）
+export interface WeatherArchiveEntry {
+  id?: number;
+  lat: number; // 小数点以下2桁に丸めた緯度
+  lon: number; // 小数点以下2桁に丸めた経度
+  date: Date; // その日の0時（ローカル時間）
+  temperatureMin: number;
+  temperatureMax: number;
+  temperatureDay: number;
+  humidity: number;
+  windSpeed: number;
+  pop: number; // 降水確率（0-1）
+  weatherType: WeatherType;
+  source: WeatherArchiveSource;
+  updatedAt: Date;
 }
 
 export type LocationType = 'city' | 'landmark' | 'business' | 'address';
 
+// 天気データの取得元
+export type WeatherProviderType =
+  | 'openweathermap' // OpenWeatherMap（APIキー必須）
+  | 'open-meteo'     // Open-Meteo（APIキー不要）
+  | 'local';         // ローカルのサンプルデータ
+
 export interface Location {
   id?: number;
   name: string;
@@ -106,6 +355,34 @@ export interface Location {
   category?: string; // 店舗カテゴリ（レストラン、公園、美術館など）
   state?: string; // 都道府県/州
   country?: string; // 国
+  weatherProvider?: WeatherProviderType; // 未指定の場合はOpenWeatherMap
+  alertsEnabled?: boolean; // 通知の対象にするか（未指定の場合はデフォルトの場所のみ対象）
+  createdAt: Date;
+}
+
+// 趣味と活動場所の関連（多対多）
+export interface HobbyLocation {
+  id?: number;
+  hobbyId: number;
+  locationId: number;
+  maxTravelDistance?: number; // 許容する移動距離（km、デフォルトの場所から）
+  createdAt: Date;
+}
+
+// 趣味の編集時に指定する活動場所
+export type HobbyLocationLink = Pick<HobbyLocation, 'locationId' | 'maxTravelDistance'>;
+
+// 予定の取り込み元（ics: カレンダーファイル、manual: 貼り付けた予定の一覧）
+export type BusyIntervalSource = 'ics' | 'manual';
+
+// 予定が入っている時間（空いている日だけおすすめする場合に避ける）
+export interface BusyInterval {
+  id?: number;
+  start: Date;
+  end: Date; // 終了時刻（この時刻は含まない）
+  allDay: boolean;
+  summary?: string; // 予定の件名
+  source: BusyIntervalSource;
   createdAt: Date;
 }
 
@@ -131,9 +408,9 @@ export interface HobbyRecommendation {
 
 export interface AppSettings {
   id?: number;
-  temperatureUnit: 'celsius' | 'fahrenheit';
-  windSpeedUnit: 'kmh' | 'mph' | 'ms';
-  language: 'ja' | 'en';
+  temperatureUnit: TemperatureUnit;
+  windSpeedUnit: WindSpeedUnit;
+  language: Language;
   notificationsEnabled: boolean;
   cacheExpiration: number; // 時間
   updatedAt: Date;
@@ -65,6 +65,7 @@ export interface NotificationHistory {
     score?: number;
     weatherData?: unknown;
     url?: string;
+    locationName?: string; // 評価した場所
     [key: string]: unknown;
   };
 }
@@ -88,6 +89,7 @@ export interface NotificationPayload {
     recommendations?: Array<{ name: string; score: number }>;
     weatherDescription?: string;
     temperature?: number;
+    locationName?: string; // 評価した場所
     [key: string]: unknown;
   };
 }
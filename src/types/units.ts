@@ -0,0 +1,23 @@
+export type TemperatureUnit = 'celsius' | 'fahrenheit';
+
+export type WindSpeedUnit = 'kmh' | 'mph' | 'ms';
+
+// 表示に使う単位（保存する値は常に°C・m/s）
+export interface UnitPreferences {
+  temperatureUnit: TemperatureUnit;
+  windSpeedUnit: WindSpeedUnit;
+}
+
+export interface UnitsContextType {
+  units: UnitPreferences;
+  setTemperatureUnit: (unit: TemperatureUnit) => Promise<void>;
+  setWindSpeedUnit: (unit: WindSpeedUnit) => Promise<void>;
+  formatTemperature: (celsius: number, digits?: number) => string;
+  formatWindSpeed: (metersPerSecond: number, digits?: number) => string;
+  toDisplayTemperature: (celsius: number) => number;
+  fromDisplayTemperature: (value: number) => number;
+  toDisplayWindSpeed: (metersPerSecond: number) => number;
+  fromDisplayWindSpeed: (value: number) => number;
+  temperatureSymbol: string;
+  windSpeedSymbol: string;
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateMoonPhase,
+  calculateMoonTimes,
+  calculateNightSky,
+  getAstronomicalDarkness,
+  getMoonPhaseName
+} from './astronomy';
+
+// 期待値との差（分）
+const minutesFrom = (actual: Date | null | undefined, expectedIso: string): number =>
+  Math.abs((actual?.getTime() ?? NaN) - new Date(expectedIso).getTime()) / 60000;
+
+describe('calculateMoonPhase', () => {
+  it('should match new and full moons', () => {
+    // 2024年4月8日 18:21 UTC 新月、4月23日 23:49 UTC 満月
+    const newMoon = calculateMoonPhase(new Date('2024-04-08T18:21:00Z'));
+    const fullMoon = calculateMoonPhase(new Date('2024-04-23T23:49:00Z'));
+
+    expect(newMoon.illumination).toBeLessThan(0.01);
+    expect(fullMoon.illumination).toBeGreaterThan(0.99);
+    expect(getMoonPhaseName(newMoon.phase)).toBe('new');
+    expect(getMoonPhaseName(fullMoon.phase)).toBe('full');
+  });
+
+  it('should tell waxing from waning', () => {
+    // 2024年4月15日 上弦、5月1日 下弦
+    expect(getMoonPhaseName(calculateMoonPhase(new Date('2024-04-15T19:13:00Z')).phase)).toBe('firstQuarter');
+    expect(getMoonPhaseName(calculateMoonPhase(new Date('2024-05-01T11:27:00Z')).phase)).toBe('lastQuarter');
+  });
+});
+
+describe('calculateMoonTimes', () => {
+  it('should find the moonrise of the day', () => {
+    // グリニッジ 2024年1月11日（新月）の月の出 8:44 GMT
+    // 日付は実行環境のタイムゾーンで区切るため、UTC-8〜+14 のどこでも同じ日に入る月の出で確かめる
+    const { moonrise } = calculateMoonTimes(new Date('2024-01-11T08:44:00Z'), 51.48, 0);
+
+    expect(minutesFrom(moonrise, '2024-01-11T08:44:00Z')).toBeLessThan(15);
+  });
+});
+
+describe('getAstronomicalDarkness', () => {
+  it('should span from astronomical dusk to the next dawn', () => {
+    // 東京 2024年6月1日: 天文薄明の終わり 20:39 JST・翌朝の始まり 2:40 JST
+    const darkness = getAstronomicalDarkness(new Date(2024, 5, 1), 35.6895, 139.6917);
+
+    expect(darkness).not.toBeNull();
+    const hours = ((darkness?.end.getTime() ?? 0) - (darkness?.start.getTime() ?? 0)) / (60 * 60 * 1000);
+    expect(hours).toBeGreaterThan(5.5);
+    expect(hours).toBeLessThan(6.5);
+  });
+
+  it('should return null when the sky never gets fully dark', () => {
+    // ロンドンの夏至前後は天文薄明が一晩中続く
+    expect(getAstronomicalDarkness(new Date(2024, 5, 21), 51.5, 0)).toBeNull();
+  });
+});
+
+describe('calculateNightSky', () => {
+  it('should count moonless darkness on a new moon night', () => {
+    const nightSky = calculateNightSky(new Date(2024, 0, 11), 51.48, 0);
+
+    expect(nightSky.moonIllumination).toBeLessThan(0.02);
+    expect(nightSky.darknessMinutes).toBeGreaterThan(600);
+    expect(nightSky.moonlessDarknessMinutes).toBe(nightSky.darknessMinutes);
+  });
+
+  it('should have no darkness on a midsummer night', () => {
+    const nightSky = calculateNightSky(new Date(2024, 5, 21), 51.5, 0);
+
+    expect(nightSky.darkness).toBeNull();
+    expect(nightSky.darknessMinutes).toBe(0);
+    expect(nightSky.moonlessDarknessMinutes).toBe(0);
+  });
+});
@@ -0,0 +1,213 @@
+import type { DaylightRange, NightSky } from '../types';
+import { calculateSunAltitudeCrossing, isCrossing } from './daylight';
+
+// 天文薄明の始まり・終わり（これより太陽が低いと空が十分に暗い）
+const ASTRONOMICAL_TWILIGHT_ALTITUDE = -18;
+// 月の出・月の入りの月の高度（地心での値。視差・大気差・月の半径を考慮）
+const MOONRISE_ALTITUDE = 0.125;
+// 月の高度を調べる間隔（分）
+const MOON_SAMPLE_MINUTES = 10;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const JULIAN_1970 = 2440587.5;
+const JULIAN_2000 = 2451545;
+const EARTH_OBLIQUITY = 23.4397;
+const SUN_DISTANCE_KM = 149598000;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+// 2000年1月1日12時（UTC）からの日数
+const toDays = (time: number): number => time / DAY_MS + JULIAN_1970 - JULIAN_2000;
+
+interface EquatorialCoordinates {
+  rightAscension: number; // 赤経（ラジアン）
+  declination: number; // 赤緯（ラジアン）
+}
+
+// 黄道座標を赤道座標に変換
+const toEquatorial = (longitude: number, latitude: number): EquatorialCoordinates => {
+  const e = toRadians(EARTH_OBLIQUITY);
+  return {
+    rightAscension: Math.atan2(
+      Math.sin(longitude) * Math.cos(e) - Math.tan(latitude) * Math.sin(e),
+      Math.cos(longitude)
+    ),
+    declination: Math.asin(
+      Math.sin(latitude) * Math.cos(e) + Math.cos(latitude) * Math.sin(e) * Math.sin(longitude)
+    )
+  };
+};
+
+const getSunCoordinates = (days: number): EquatorialCoordinates => {
+  const m = toRadians(357.5291 + 0.98560028 * days);
+  const center = toRadians(1.9148 * Math.sin(m) + 0.02 * Math.sin(2 * m) + 0.0003 * Math.sin(3 * m));
+  return toEquatorial(m + center + toRadians(102.9372) + Math.PI, 0);
+};
+
+/**
+ * 月の位置（地心）
+ * 主な摂動項のみの簡略式による。位置の誤差は1°程度で、月の出入りは数分程度ずれる。
+ */
+const getMoonCoordinates = (days: number): EquatorialCoordinates & { distance: number } => {
+  const meanLongitude = toRadians(218.316 + 13.176396 * days);
+  const meanAnomaly = toRadians(134.963 + 13.064993 * days);
+  const argumentOfLatitude = toRadians(93.272 + 13.22935 * days);
+
+  return {
+    ...toEquatorial(
+      meanLongitude + toRadians(6.289) * Math.sin(meanAnomaly),
+      toRadians(5.128) * Math.sin(argumentOfLatitude)
+    ),
+    distance: 385001 - 20905 * Math.cos(meanAnomaly)
+  };
+};
+
+// 月の高度（度）
+const getMoonAltitude = (time: number, lat: number, lon: number): number => {
+  const days = toDays(time);
+  const moon = getMoonCoordinates(days);
+  const hourAngle = toRadians(280.16 + 360.9856235 * days + lon) - moon.rightAscension;
+  const phi = toRadians(lat);
+
+  const altitude = Math.asin(
+    Math.sin(phi) * Math.sin(moon.declination) + Math.cos(phi) * Math.cos(moon.declination) * Math.cos(hourAngle)
+  );
+  return (altitude * 180) / Math.PI;
+};
+
+/**
+ * 月相と輝面比
+ * 月相は新月を0として1周で1、輝面比は月面の照らされている割合
+ */
+export const calculateMoonPhase = (date: Date): { phase: number; illumination: number } => {
+  const days = toDays(date.getTime());
+  const sun = getSunCoordinates(days);
+  const moon = getMoonCoordinates(days);
+
+  const elongation = Math.acos(
+    Math.sin(sun.declination) * Math.sin(moon.declination) +
+      Math.cos(sun.declination) * Math.cos(moon.declination) * Math.cos(sun.rightAscension - moon.rightAscension)
+  );
+  const inclination = Math.atan2(
+    SUN_DISTANCE_KM * Math.sin(elongation),
+    moon.distance - SUN_DISTANCE_KM * Math.cos(elongation)
+  );
+  const angle = Math.atan2(
+    Math.cos(sun.declination) * Math.sin(sun.rightAscension - moon.rightAscension),
+    Math.sin(sun.declination) * Math.cos(moon.declination) -
+      Math.cos(sun.declination) * Math.sin(moon.declination) * Math.cos(sun.rightAscension - moon.rightAscension)
+  );
+
+  return {
+    phase: 0.5 + (0.5 * inclination * (angle < 0 ? -1 : 1)) / Math.PI,
+    illumination: (1 + Math.cos(inclination)) / 2
+  };
+};
+
+/**
+ * 日付（ローカル時間）の月の出・月の入り
+ * 一定間隔で月の高度を調べ、地平線を通過した時刻を間の値から求める。ない日はnull。
+ */
+export const calculateMoonTimes = (date: Date, lat: number, lon: number): { moonrise: Date | null; moonset: Date | null } => {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+  const end = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1).getTime();
+  const step = MOON_SAMPLE_MINUTES * MINUTE_MS;
+
+  let moonrise: Date | null = null;
+  let moonset: Date | null = null;
+  let previousTime = start;
+  let previous = getMoonAltitude(start, lat, lon) - MOONRISE_ALTITUDE;
+
+  for (let time = start + step; time <= end && (!moonrise || !moonset); time += step) {
+    const current = getMoonAltitude(time, lat, lon) - MOONRISE_ALTITUDE;
+    if (Math.sign(previous) !== Math.sign(current)) {
+      const crossing = new Date(Math.round(previousTime + (step * previous) / (previous - current)));
+      if (current > 0) {
+        moonrise ??= crossing;
+      } else {
+        moonset ??= crossing;
+      }
+    }
+    previousTime = time;
+    previous = current;
+  }
+
+  return { moonrise, moonset };
+};
+
+/**
+ * 日付（ローカル時間）の夜に天文薄明が終わってから翌朝に始まるまで
+ * 太陽が-18°まで沈まない夜はnull、一日中沈んでいる場合はその日と翌日の正午で区切る
+ */
+export const getAstronomicalDarkness = (date: Date, lat: number, lon: number): DaylightRange | null => {
+  const nextDay = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+  const tonight = calculateSunAltitudeCrossing(date, lat, lon, ASTRONOMICAL_TWILIGHT_ALTITUDE);
+  const tomorrow = calculateSunAltitudeCrossing(nextDay, lat, lon, ASTRONOMICAL_TWILIGHT_ALTITUDE);
+
+  const start = isCrossing(tonight)
+    ? tonight.setting
+    : tonight === 'below' ? new Date(date.getFullYear(), date.getMonth(), date.getDate(), 12) : null;
+  const end = isCrossing(tomorrow)
+    ? tomorrow.rising
+    : tomorrow === 'below' ? new Date(nextDay.getFullYear(), nextDay.getMonth(), nextDay.getDate(), 12) : null;
+
+  return start && end && start < end ? { start, end } : null;
+};
+
+/**
+ * 場所と日付からその日の夜の月と暗さを計算する
+ * 月相と輝面比は夜の中ごろ（翌日0時）の値を使う。
+ */
+export const calculateNightSky = (date: Date, lat: number, lon: number): NightSky => {
+  const midnight = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+  const { phase, illumination } = calculateMoonPhase(midnight);
+  const darkness = getAstronomicalDarkness(date, lat, lon);
+
+  // 暗い時間のうち月が地平線の下にある時間
+  let darknessMinutes = 0;
+  let moonlessDarknessMinutes = 0;
+  if (darkness) {
+    const step = MOON_SAMPLE_MINUTES * MINUTE_MS;
+    for (let time = darkness.start.getTime(); time < darkness.end.getTime(); time += step) {
+      const minutes = (Math.min(step, darkness.end.getTime() - time)) / MINUTE_MS;
+      darknessMinutes += minutes;
+      if (getMoonAltitude(time + (minutes * MINUTE_MS) / 2, lat, lon) < MOONRISE_ALTITUDE) {
+        moonlessDarknessMinutes += minutes;
+      }
+    }
+  }
+
+  return {
+    moonPhase: phase,
+    moonIllumination: illumination,
+    ...calculateMoonTimes(date, lat, lon),
+    darkness,
+    darknessMinutes: Math.round(darknessMinutes),
+    moonlessDarknessMinutes: Math.round(moonlessDarknessMinutes)
+  };
+};
+
+export type MoonPhaseName =
+  | 'new'
+  | 'waxingCrescent'
+  | 'firstQuarter'
+  | 'waxingGibbous'
+  | 'full'
+  | 'waningGibbous'
+  | 'lastQuarter'
+  | 'waningCrescent';
+
+const MOON_PHASE_NAMES: MoonPhaseName[] = [
+  'new',
+  'waxingCrescent',
+  'firstQuarter',
+  'waxingGibbous',
+  'full',
+  'waningGibbous',
+  'lastQuarter',
+  'waningCrescent'
+];
+
+// 月相を8つの呼び名に分ける（新月・満月などはその前後1/16周を含む）
+export const getMoonPhaseName = (phase: number): MoonPhaseName =>
+  MOON_PHASE_NAMES[Math.round(phase * 8) % 8] ?? 'new';
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findOverlappingBusyIntervals,
+  getAvailabilityRange,
+  getLongestFreeMinutes,
+  parseBusyList,
+} from './availability';
+
+describe('availability utils', () => {
+  it('should parse all-day, timed and multi-day lines', () => {
+    const { busyTimes, invalidLines } = parseBusyList(
+      [
+        '# 5月の予定',
+        '2024-05-03',
+        '2024/5/4 09:00-12:00 会議',
+        '',
+        '2024-05-06 - 2024-05-08 旅行',
+        '2024-05-09 22:00 - 2024-05-10 06:00 夜勤',
+      ].join('\n')
+    );
+
+    expect(invalidLines).toEqual([]);
+    expect(busyTimes).toEqual([
+      { start: new Date(2024, 4, 3), end: new Date(2024, 4, 4), allDay: true },
+      { start: new Date(2024, 4, 4, 9), end: new Date(2024, 4, 4, 12), allDay: false, summary: '会議' },
+      { start: new Date(2024, 4, 6), end: new Date(2024, 4, 9), allDay: true, summary: '旅行' },
+      { start: new Date(2024, 4, 9, 22), end: new Date(2024, 4, 10, 6), allDay: false, summary: '夜勤' },
+    ]);
+  });
+
+  it('should end overnight ranges on the next day', () => {
+    const { busyTimes } = parseBusyList('2024-05-03 22:00-02:00');
+
+    expect(busyTimes[0]?.end).toEqual(new Date(2024, 4, 4, 2));
+  });
+
+  it('should report lines that cannot be read', () => {
+    const { busyTimes, invalidLines } = parseBusyList(
+      ['2024-05-03 09:00', 'tomorrow', '2024-02-30', '2024-05-05 - 2024-05-04', '2024-05-06'].join('\n')
+    );
+
+    expect(invalidLines).toEqual([1, 2, 3, 4]);
+    expect(busyTimes).toHaveLength(1);
+  });
+
+  it('should find overlapping intervals without touching the edges', () => {
+    const intervals = [
+      { start: new Date(2024, 4, 3, 9), end: new Date(2024, 4, 3, 12) },
+      { start: new Date(2024, 4, 3, 12), end: new Date(2024, 4, 3, 13) },
+    ];
+
+    expect(findOverlappingBusyIntervals(new Date(2024, 4, 3, 11), new Date(2024, 4, 3, 12), intervals)).toEqual([
+      intervals[0],
+    ]);
+  });
+
+  it('should calculate the longest free time', () => {
+    const intervals = [
+      { start: new Date(2024, 4, 3, 8), end: new Date(2024, 4, 3, 10) },
+      { start: new Date(2024, 4, 3, 9), end: new Date(2024, 4, 3, 11) },
+      { start: new Date(2024, 4, 3, 14), end: new Date(2024, 4, 3, 18) },
+    ];
+
+    expect(getLongestFreeMinutes(new Date(2024, 4, 3, 6), new Date(2024, 4, 3, 20), intervals)).toBe(180);
+    expect(getLongestFreeMinutes(new Date(2024, 4, 3, 9), new Date(2024, 4, 3, 10), intervals)).toBe(0);
+  });
+
+  it('should import from the start of today', () => {
+    const range = getAvailabilityRange(new Date(2024, 4, 3, 15));
+
+    expect(range.from).toEqual(new Date(2024, 4, 3));
+    expect(range.to).toEqual(new Date(2024, 6, 2));
+  });
+});
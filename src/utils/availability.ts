@@ -0,0 +1,161 @@
+import type { BusyInterval } from '../types';
+import type { BusyTime, BusyTimeRange } from './ical';
+import { getLocale, t } from './i18n';
+
+// 予定を取り込む期間（今日から何日先まで）
+export const AVAILABILITY_HORIZON_DAYS = 60;
+
+// 貼り付けた予定の一覧の読み込み結果
+export interface BusyListParseResult {
+  busyTimes: BusyTime[];
+  invalidLines: number[]; // 読み込めなかった行（1始まり）
+}
+
+const DATE_PATTERN = String.raw`(\d{4}[-/]\d{1,2}[-/]\d{1,2})`;
+const TIME_PATTERN = String.raw`(\d{1,2}:\d{2})`;
+
+// 「日付 [時刻] [- [日付] [時刻]] [件名]」の1行
+const BUSY_LINE_PATTERN = new RegExp(
+  `^${DATE_PATTERN}(?:\\s+${TIME_PATTERN})?` +
+    `(?:\\s*[-~〜]\\s*(?:${DATE_PATTERN}(?:\\s+${TIME_PATTERN})?|${TIME_PATTERN}))?` +
+    `(?:\\s+(.+))?$`
+);
+
+// 取り込む期間（今日の0時から）
+export const getAvailabilityRange = (now: Date = new Date()): BusyTimeRange => {
+  const from = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const to = new Date(from.getFullYear(), from.getMonth(), from.getDate() + AVAILABILITY_HORIZON_DAYS);
+  return { from, to };
+};
+
+const parseDate = (value: string): Date | null => {
+  const [year = 0, month = 0, day = 0] = value.split(/[-/]/).map(Number);
+  const date = new Date(year, month - 1, day);
+  // 2月30日など存在しない日付は読み込まない
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+};
+
+const withTime = (date: Date, time: string): Date | null => {
+  const [hours = 0, minutes = 0] = time.split(':').map(Number);
+  if (hours > 24 || minutes > 59) return null;
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate(), hours, minutes);
+};
+
+const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const parseBusyLine = (line: string): BusyTime | null => {
+  const match = BUSY_LINE_PATTERN.exec(line);
+  if (!match) return null;
+
+  const [, startDateValue = '', startTime, endDateValue, endTimeWithDate, endTimeOnly, summaryValue] = match;
+  const endTime = endTimeWithDate ?? endTimeOnly;
+  const startDate = parseDate(startDateValue);
+  const endDate = endDateValue ? parseDate(endDateValue) : startDate;
+  if (!startDate || !endDate) return null;
+
+  const summary = summaryValue?.trim();
+  const optional = summary ? { summary } : {};
+
+  // 時刻がない場合は終了日までの終日の予定
+  if (!startTime && !endTime) {
+    const end = addDays(endDate, 1);
+    return end > startDate ? { start: startDate, end, allDay: true, ...optional } : null;
+  }
+  if (!startTime || !endTime) return null;
+
+  const start = withTime(startDate, startTime);
+  let end = withTime(endDate, endTime);
+  if (!start || !end) return null;
+  // 「22:00-02:00」のように日付なしで日をまたぐ場合は翌日の終了時刻にする
+  if (!endDateValue && end <= start) {
+    end = withTime(addDays(endDate, 1), endTime);
+  }
+  return end && end > start ? { start, end, allDay: false, ...optional } : null;
+};
+
+/**
+ * 貼り付けた予定の一覧を読み込む
+ *
+ * 1行に1件、次の形式で書く（空行と#で始まる行は無視する）
+ * - 2024-05-03 → 終日
+ * - 2024-05-03 - 2024-05-05 → 3日〜5日の終日
+ * - 2024-05-03 09:00-12:00 会議 → 時刻の範囲と件名
+ * - 2024-05-03 22:00 - 2024-05-04 06:00 夜勤 → 日をまたぐ予定
+ */
+export const parseBusyList = (text: string): BusyListParseResult => {
+  const busyTimes: BusyTime[] = [];
+  const invalidLines: number[] = [];
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) return;
+
+    const busyTime = parseBusyLine(line);
+    if (busyTime) {
+      busyTimes.push(busyTime);
+    } else {
+      invalidLines.push(index + 1);
+    }
+  });
+
+  return { busyTimes, invalidLines };
+};
+
+// 指定した時間と重なる予定（終了時刻ちょうどに始まる場合は重ならない）
+export const findOverlappingBusyIntervals = <T extends Pick<BusyInterval, 'start' | 'end'>>(
+  start: Date,
+  end: Date,
+  intervals: T[]
+): T[] => intervals.filter((interval) => interval.start < end && interval.end > start);
+
+// 指定した時間のうち予定が入っていない最も長い時間（分）
+export const getLongestFreeMinutes = (
+  start: Date,
+  end: Date,
+  intervals: Array<Pick<BusyInterval, 'start' | 'end'>>
+): number => {
+  const busy = findOverlappingBusyIntervals(start, end, intervals).sort(
+    (a, b) => a.start.getTime() - b.start.getTime()
+  );
+
+  let longest = 0;
+  let cursor = start.getTime();
+  for (const interval of busy) {
+    longest = Math.max(longest, interval.start.getTime() - cursor);
+    cursor = Math.max(cursor, interval.end.getTime());
+  }
+  longest = Math.max(longest, end.getTime() - cursor);
+
+  return longest / (60 * 1000);
+};
+
+// 同じ予定かどうか（取り込み直したときに重複させない）
+export const isSameBusyTime = (
+  a: Pick<BusyInterval, 'start' | 'end' | 'summary'>,
+  b: Pick<BusyInterval, 'start' | 'end' | 'summary'>
+): boolean =>
+  a.start.getTime() === b.start.getTime() &&
+  a.end.getTime() === b.end.getTime() &&
+  (a.summary ?? '') === (b.summary ?? '');
+
+// 予定の日時の表示（例: 5月3日 9:00〜12:00、終日の予定は日付のみ）
+export const formatBusyInterval = (interval: Pick<BusyInterval, 'start' | 'end' | 'allDay'>): string => {
+  const dateFormat = new Intl.DateTimeFormat(getLocale(), { month: 'short', day: 'numeric', weekday: 'short' });
+  const timeFormat = new Intl.DateTimeFormat(getLocale(), { hour: '2-digit', minute: '2-digit' });
+
+  if (interval.allDay) {
+    const lastDay = addDays(interval.end, -1);
+    return lastDay > interval.start
+      ? t('availability.range', { start: dateFormat.format(interval.start), end: dateFormat.format(lastDay) })
+      : dateFormat.format(interval.start);
+  }
+
+  const isSameDay = interval.start.toDateString() === interval.end.toDateString();
+  return t('availability.range', {
+    start: `${dateFormat.format(interval.start)} ${timeFormat.format(interval.start)}`,
+    end: isSameDay
+      ? timeFormat.format(interval.end)
+      : `${dateFormat.format(interval.end)} ${timeFormat.format(interval.end)}`,
+  });
+};
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { BACKUP_FORMAT, BACKUP_VERSION, parseBackup, serializeBackup } from './backup';
+import type { BackupFile } from '../types/backup';
+
+const createBackup = (overrides: Partial<BackupFile> = {}): BackupFile => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  schemaVersion: 10,
+  exportedAt: '2024-05-01T00:00:00.000Z',
+  hobbies: [],
+  weatherData: [],
+  weatherForecasts: [],
+  locations: [],
+  hobbyLocations: [],
+  settings: [],
+  activityLogs: [],
+  activityPhotos: [],
+  notificationConfigs: [],
+  notificationHistory: [],
+  notificationSettings: [],
+  busyIntervals: [],
+  weatherArchive: [],
+  ...overrides,
+});
+
+describe('backup utils', () => {
+  it('should round-trip dates and photos', async () => {
+    const createdAt = new Date('2024-05-01T09:30:00Z');
+    const json = await serializeBackup(
+      createBackup({
+        activityPhotos: [
+          { id: 1, logId: 2, blob: new Blob(['photo'], { type: 'image/jpeg' }), name: 'summit.jpg', createdAt },
+        ],
+      })
+    );
+
+    const photo = parseBackup(json, 10).activityPhotos[0];
+    expect(photo?.createdAt).toEqual(createdAt);
+    expect(photo?.blob).toBeInstanceOf(Blob);
+    expect(photo?.blob.type).toBe('image/jpeg');
+    expect(photo?.blob.size).toBe(5);
+  });
+
+  it('should fill in tables missing from older backups', () => {
+    const { notificationHistory: _history, ...backup } = createBackup();
+
+    expect(parseBackup(JSON.stringify(backup), 10).notificationHistory).toEqual([]);
+  });
+
+  it('should reject unsupported versions', () => {
+    expect(() => parseBackup(JSON.stringify(createBackup({ version: BACKUP_VERSION + 1 })), 10)).toThrow(
+      `バージョン ${BACKUP_VERSION + 1}`
+    );
+    expect(() => parseBackup(JSON.stringify(createBackup({ schemaVersion: 11 })), 10)).toThrow();
+  });
+});
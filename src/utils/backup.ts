@@ -0,0 +1,166 @@
+import type { BackupFile, BackupTableName } from '../types/backup';
+import { t } from './i18n';
+
+export const BACKUP_FORMAT = 'hobby-weather-backup';
+export const BACKUP_VERSION = 1;
+
+export const BACKUP_TABLE_NAMES: BackupTableName[] = [
+  'hobbies',
+  'weatherData',
+  'weatherForecasts',
+  'locations',
+  'hobbyLocations',
+  'settings',
+  'activityLogs',
+  'activityPhotos',
+  'notificationConfigs',
+  'notificationHistory',
+  'notificationSettings',
+  'busyIntervals',
+  'weatherArchive',
+];
+
+// 1件だけ保持するテーブル（マージ時は既存の1件を上書きする）
+export const SINGLETON_BACKUP_TABLES: BackupTableName[] = ['settings', 'notificationSettings'];
+
+/**
+ * 他のテーブルのIDを参照する項目
+ * マージ時はIDが端末ごとに異なるため、参照先の復元後のIDに付け替える
+ */
+export const BACKUP_FOREIGN_KEYS: Partial<Record<BackupTableName, Array<{ field: string; table: BackupTableName }>>> = {
+  hobbyLocations: [
+    { field: 'hobbyId', table: 'hobbies' },
+    { field: 'locationId', table: 'locations' },
+  ],
+  activityLogs: [
+    { field: 'hobbyId', table: 'hobbies' },
+    { field: 'locationId', table: 'locations' },
+  ],
+  activityPhotos: [{ field: 'logId', table: 'activityLogs' }],
+  notificationHistory: [{ field: 'configId', table: 'notificationConfigs' }],
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const keyPart = (value: unknown): string => (value instanceof Date ? String(value.getTime()) : String(value));
+
+// マージ時に同じデータとみなす項目（IDの代わりに内容で照合する、1件だけのテーブルは常に既存の1件と同じとみなす）
+const MERGE_KEY_FIELDS: Record<BackupTableName, string[]> = {
+  hobbies: ['name'],
+  weatherData: ['lat', 'lon', 'datetime'],
+  weatherForecasts: ['lat', 'lon', 'generatedAt'],
+  locations: ['name', 'lat', 'lon'],
+  hobbyLocations: ['hobbyId', 'locationId'],
+  settings: [],
+  activityLogs: ['hobbyId', 'date', 'createdAt'],
+  activityPhotos: ['logId', 'name', 'createdAt'],
+  notificationConfigs: ['type', 'title', 'createdAt'],
+  notificationHistory: ['configId', 'sentAt'],
+  notificationSettings: [],
+  busyIntervals: ['source', 'start', 'end', 'summary'],
+  weatherArchive: ['lat', 'lon', 'date'],
+};
+
+// マージ時に同じデータかを判定するキー（参照するIDは付け替えた後の値を使う）
+export const getMergeKey = (table: BackupTableName, row: Record<string, unknown>): string =>
+  MERGE_KEY_FIELDS[table].map((field) => keyPart(row[field])).join('|');
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header = '', data = ''] = dataUrl.split(',');
+  const type = /^data:([^;]*)/.exec(header)?.[1] ?? '';
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type });
+};
+
+// JSONで表せない値（日時・写真）を目印付きのオブジェクトに変換
+const encodeValue = async (value: unknown): Promise<unknown> => {
+  if (value instanceof Date) return { $date: value.toISOString() };
+  if (value instanceof Blob) return { $blob: await blobToDataUrl(value) };
+  if (Array.isArray(value)) return Promise.all(value.map(encodeValue));
+  if (isRecord(value)) {
+    const entries = await Promise.all(
+      Object.entries(value).map(async ([key, entry]) => [key, await encodeValue(entry)] as const)
+    );
+    return Object.fromEntries(entries);
+  }
+  return value;
+};
+
+const reviveValue = (_key: string, value: unknown): unknown => {
+  if (isRecord(value)) {
+    const keys = Object.keys(value);
+    if (keys.length === 1 && typeof value['$date'] === 'string') return new Date(value['$date']);
+    if (keys.length === 1 && typeof value['$blob'] === 'string') return dataUrlToBlob(value['$blob']);
+  }
+  return value;
+};
+
+export const serializeBackup = async (backup: BackupFile): Promise<string> =>
+  JSON.stringify(await encodeValue(backup), null, 2);
+
+/**
+ * バックアップファイルを読み込み、形式を検証する
+ * @param schemaVersion 現在のデータベースのバージョン（これより新しいバックアップは読み込まない）
+ */
+export const parseBackup = (json: string, schemaVersion: number): BackupFile => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json, reviveValue);
+  } catch {
+    throw new Error(t('backup.error.invalidJson'));
+  }
+
+  if (!isRecord(data) || data['format'] !== BACKUP_FORMAT) {
+    throw new Error(t('backup.error.invalidFormat'));
+  }
+  const version = data['version'];
+  if (typeof version !== 'number' || version > BACKUP_VERSION) {
+    throw new Error(t('backup.error.unsupportedVersion', { version: String(version) }));
+  }
+  const backupSchemaVersion = data['schemaVersion'];
+  if (typeof backupSchemaVersion !== 'number' || backupSchemaVersion > schemaVersion) {
+    throw new Error(t('backup.error.newerSchema'));
+  }
+
+  const tables: Record<string, unknown[]> = {};
+  for (const name of BACKUP_TABLE_NAMES) {
+    const rows = data[name] ?? [];
+    const isValid =
+      Array.isArray(rows) &&
+      rows.every((row) => isRecord(row) && (row['id'] === undefined || typeof row['id'] === 'number'));
+    if (!isValid) {
+      throw new Error(t('backup.error.invalidField', { field: name }));
+    }
+    tables[name] = rows;
+  }
+
+  const { theme, apiSettings } = data;
+  if (theme !== undefined && !isRecord(theme)) {
+    throw new Error(t('backup.error.invalidField', { field: 'theme' }));
+  }
+  if (
+    apiSettings !== undefined &&
+    (!isRecord(apiSettings) || typeof apiSettings['openWeatherApiKey'] !== 'string')
+  ) {
+    throw new Error(t('backup.error.invalidField', { field: 'apiSettings' }));
+  }
+
+  return {
+    ...data,
+    ...tables,
+    exportedAt: typeof data['exportedAt'] === 'string' ? data['exportedAt'] : '',
+  } as unknown as BackupFile;
+};
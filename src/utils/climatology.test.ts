@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { getIsoWeek, isRainDay, rankMonthsForHobby, summarizeClimatology } from './climatology';
+import type { Hobby, WeatherArchiveEntry, WeatherType } from '../types';
+
+const createEntry = (
+  date: Date,
+  temperatureDay: number,
+  weatherType: WeatherType = 'clear',
+  pop = 0
+): WeatherArchiveEntry => ({
+  lat: 35.68,
+  lon: 139.65,
+  date,
+  temperatureMin: temperatureDay - 5,
+  temperatureMax: temperatureDay + 5,
+  temperatureDay,
+  humidity: 60,
+  windSpeed: 3,
+  pop,
+  weatherType,
+  source: 'forecast',
+  updatedAt: date
+});
+
+describe('getIsoWeek', () => {
+  it('should follow ISO 8601 week numbering', () => {
+    expect(getIsoWeek(new Date(2024, 0, 1))).toBe(1);
+    expect(getIsoWeek(new Date(2024, 11, 30))).toBe(1);
+    expect(getIsoWeek(new Date(2021, 0, 3))).toBe(53);
+    expect(getIsoWeek(new Date(2024, 5, 15))).toBe(24);
+  });
+});
+
+describe('isRainDay', () => {
+  it('should count precipitation or a high chance of rain', () => {
+    expect(isRainDay({ weatherType: 'snow', pop: 0 })).toBe(true);
+    expect(isRainDay({ weatherType: 'clouds', pop: 0.6 })).toBe(true);
+    expect(isRainDay({ weatherType: 'clouds', pop: 0.3 })).toBe(false);
+  });
+});
+
+describe('summarizeClimatology', () => {
+  it('should combine the same month across years', () => {
+    const entries = [
+      createEntry(new Date(2023, 7, 10), 30),
+      createEntry(new Date(2024, 7, 12), 28, 'rain'),
+      createEntry(new Date(2024, 0, 5), 5)
+    ];
+
+    const monthly = summarizeClimatology(entries, 'month');
+
+    expect(monthly.map(summary => summary.period)).toEqual([1, 8]);
+    expect(monthly[1]).toEqual({
+      period: 8,
+      sampleDays: 2,
+      averageTemperature: 29,
+      averageMin: 24,
+      averageMax: 34,
+      rainDayRatio: 0.5,
+      averageWindSpeed: 3
+    });
+  });
+
+  it('should group by ISO week', () => {
+    const entries = [
+      createEntry(new Date(2024, 0, 1), 5),
+      createEntry(new Date(2024, 0, 7), 7),
+      createEntry(new Date(2024, 0, 8), 9)
+    ];
+
+    expect(summarizeClimatology(entries, 'week').map(summary => [summary.period, summary.sampleDays])).toEqual([
+      [1, 2],
+      [2, 1]
+    ]);
+  });
+});
+
+describe('rankMonthsForHobby', () => {
+  const camping: Hobby = {
+    id: 1,
+    name: 'キャンプ',
+    isActive: true,
+    isOutdoor: true,
+    minTemperature: 10,
+    maxTemperature: 28,
+    createdAt: new Date()
+  };
+
+  it('should rank months by the share of suitable days', () => {
+    const entries = [
+      // 5月: 3日とも合う
+      ...[1, 2, 3].map(day => createEntry(new Date(2024, 4, day), 20)),
+      // 7月: 暑すぎる日と雨の日
+      createEntry(new Date(2024, 6, 1), 32),
+      createEntry(new Date(2024, 6, 2), 25, 'rain'),
+      createEntry(new Date(2024, 6, 3), 24),
+      // 1月: 記録が少ないため候補にしない
+      createEntry(new Date(2024, 0, 1), 15)
+    ];
+
+    expect(rankMonthsForHobby(entries, camping)).toEqual([
+      { month: 5, sampleDays: 3, suitableDayRatio: 1 },
+      { month: 7, sampleDays: 3, suitableDayRatio: 0.33 }
+    ]);
+  });
+
+  it('should not rule out rain for hobbies that prefer it', () => {
+    const rainyWalk: Hobby = { ...camping, preferredWeather: [{ condition: 'rain', weight: 8 }] };
+    const entries = [1, 2, 3].map(day => createEntry(new Date(2024, 5, day), 22, 'rain'));
+
+    expect(rankMonthsForHobby(entries, rainyWalk)[0]?.suitableDayRatio).toBe(1);
+  });
+});
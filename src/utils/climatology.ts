@@ -0,0 +1,112 @@
+import type { Hobby, WeatherArchiveEntry } from '../types';
+import { PRECIPITATION_WEATHER_TYPES } from './weather-archive';
+
+// 降水確率がこの値以上の日は雨の日として数える
+export const RAIN_DAY_POP_THRESHOLD = 0.5;
+
+// 趣味に合う月を選ぶ際に必要な記録の日数（少なすぎる月は候補にしない）
+export const MIN_SUITABILITY_SAMPLE_DAYS = 3;
+
+// 集計の単位（week: ISO週番号 1-53、month: 1-12）
+export type ClimatologyPeriodType = 'week' | 'month';
+
+// 週または月ごとの典型的な天気
+export interface ClimatologySummary {
+  period: number;
+  sampleDays: number; // 記録の日数
+  averageTemperature: number;
+  averageMin: number;
+  averageMax: number;
+  rainDayRatio: number; // 雨の日の割合（0-1）
+  averageWindSpeed: number; // m/s
+}
+
+// 月ごとの趣味に合う日の割合
+export interface HobbyMonthSuitability {
+  month: number; // 1-12
+  sampleDays: number;
+  suitableDayRatio: number; // 0-1
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const average = (values: number[]): number =>
+  Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10;
+
+const roundRatio = (value: number): number => Math.round(value * 100) / 100;
+
+// ISO 8601の週番号（月曜始まり、その年の最初の木曜日を含む週が第1週）
+export const getIsoWeek = (date: Date): number => {
+  const target = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+  const dayOfWeek = target.getUTCDay() || 7;
+  target.setUTCDate(target.getUTCDate() + 4 - dayOfWeek);
+  const yearStart = new Date(Date.UTC(target.getUTCFullYear(), 0, 1));
+  return Math.ceil(((target.getTime() - yearStart.getTime()) / DAY_MS + 1) / 7);
+};
+
+export const getClimatologyPeriod = (date: Date, type: ClimatologyPeriodType): number =>
+  type === 'week' ? getIsoWeek(date) : date.getMonth() + 1;
+
+export const isRainDay = (entry: Pick<WeatherArchiveEntry, 'weatherType' | 'pop'>): boolean =>
+  PRECIPITATION_WEATHER_TYPES.includes(entry.weatherType) || entry.pop >= RAIN_DAY_POP_THRESHOLD;
+
+const groupByPeriod = (
+  entries: WeatherArchiveEntry[],
+  type: ClimatologyPeriodType
+): Map<number, WeatherArchiveEntry[]> => {
+  const groups = new Map<number, WeatherArchiveEntry[]>();
+  for (const entry of entries) {
+    const period = getClimatologyPeriod(entry.date, type);
+    groups.set(period, [...(groups.get(period) ?? []), entry]);
+  }
+  return groups;
+};
+
+/**
+ * 天気の記録を週または月ごとに集計する
+ * 年をまたいで同じ週・月の記録をまとめるため、記録が増えるほど典型的な値に近づく。
+ * 記録のない週・月は含めない（期間順に並べる）。
+ */
+export const summarizeClimatology = (
+  entries: WeatherArchiveEntry[],
+  type: ClimatologyPeriodType
+): ClimatologySummary[] =>
+  [...groupByPeriod(entries, type)]
+    .sort(([a], [b]) => a - b)
+    .map(([period, days]) => ({
+      period,
+      sampleDays: days.length,
+      averageTemperature: average(days.map(day => day.temperatureDay)),
+      averageMin: average(days.map(day => day.temperatureMin)),
+      averageMax: average(days.map(day => day.temperatureMax)),
+      rainDayRatio: roundRatio(days.filter(isRainDay).length / days.length),
+      averageWindSpeed: average(days.map(day => day.windSpeed))
+    }));
+
+/**
+ * 記録された日が趣味に合うか
+ * 日中の気温が趣味の気温範囲内で、屋外の趣味では雨の日でない（雨を好む趣味を除く）場合に合うとする。
+ */
+export const isSuitableDay = (entry: WeatherArchiveEntry, hobby: Hobby): boolean => {
+  if (hobby.minTemperature !== undefined && entry.temperatureDay < hobby.minTemperature) return false;
+  if (hobby.maxTemperature !== undefined && entry.temperatureDay > hobby.maxTemperature) return false;
+
+  if (hobby.isOutdoor && isRainDay(entry)) {
+    return hobby.preferredWeather?.some(weather => weather.condition === entry.weatherType) ?? false;
+  }
+  return true;
+};
+
+// 「この場所でキャンプに向いている月は？」に答えるため、趣味に合う日の割合が高い月から並べる
+export const rankMonthsForHobby = (
+  entries: WeatherArchiveEntry[],
+  hobby: Hobby
+): HobbyMonthSuitability[] =>
+  [...groupByPeriod(entries, 'month')]
+    .filter(([, days]) => days.length >= MIN_SUITABILITY_SAMPLE_DAYS)
+    .map(([month, days]) => ({
+      month,
+      sampleDays: days.length,
+      suitableDayRatio: roundRatio(days.filter(day => isSuitableDay(day, hobby)).length / days.length)
+    }))
+    .sort((a, b) => b.suitableDayRatio - a.suitableDayRatio || a.month - b.month);
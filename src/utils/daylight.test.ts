@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateDaylight,
+  calculateNoonSunAltitude,
+  calculateSunAltitude,
+  findClearGoldenHour,
+  getDaylightRange,
+  isWithinDaylight
+} from './daylight';
+import type { HourlyForecast, WeatherType } from '../types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// 期待値との差（分）
+const minutesFrom = (actual: Date | null | undefined, expectedIso: string): number =>
+  Math.abs((actual?.getTime() ?? NaN) - new Date(expectedIso).getTime()) / 60000;
+
+const createSlot = (datetime: Date, weatherType: WeatherType = 'clear', cloudiness = 10): HourlyForecast => ({
+  datetime,
+  temperature: 20,
+  feelsLike: 20,
+  humidity: 60,
+  pressure: 1013,
+  windSpeed: 2,
+  windDirection: 180,
+  weatherType,
+  weatherDescription: weatherType,
+  cloudiness,
+  uvIndex: 3,
+  pop: 0
+});
+
+describe('calculateDaylight', () => {
+  // グリニッジ（日の出 2024年6月1日 4:48 BST・12月21日 8:04 GMT）
+  const greenwich = (date: Date) => calculateDaylight(date, 51.4769, 0);
+  const tokyo = calculateDaylight(new Date(2024, 5, 1), 35.6895, 139.6917);
+
+  it('should calculate sunrise and sunset within a few minutes', () => {
+    const summer = greenwich(new Date(2024, 5, 1));
+    const winter = greenwich(new Date(2024, 11, 21));
+
+    expect(minutesFrom(summer.sunrise, '2024-06-01T03:48:00Z')).toBeLessThan(3);
+    expect(minutesFrom(summer.sunset, '2024-06-01T20:08:00Z')).toBeLessThan(3);
+    expect(minutesFrom(winter.sunrise, '2024-12-21T08:04:00Z')).toBeLessThan(3);
+    expect(minutesFrom(winter.sunset, '2024-12-21T15:53:00Z')).toBeLessThan(3);
+  });
+
+  it('should order twilight, blue hour and golden hour around sunrise', () => {
+    const times = [
+      tokyo.civilDawn,
+      tokyo.morningBlueHour?.end,
+      tokyo.sunrise,
+      tokyo.morningGoldenHour?.end
+    ].map(time => time?.getTime() ?? NaN);
+
+    expect(tokyo.morningBlueHour?.start).toEqual(tokyo.civilDawn);
+    expect(tokyo.morningGoldenHour?.start).toEqual(tokyo.morningBlueHour?.end);
+    expect(times).toEqual([...times].sort((a, b) => a - b));
+    expect(tokyo.eveningBlueHour?.end).toEqual(tokyo.civilDusk);
+    expect(tokyo.polar).toBeUndefined();
+  });
+
+  it('should handle polar day and night', () => {
+    // トロムソ（北緯69.6°）
+    const summer = calculateDaylight(new Date(2024, 5, 21), 69.65, 18.96);
+    const winter = calculateDaylight(new Date(2024, 11, 21), 69.65, 18.96);
+
+    expect(summer.polar).toBe('day');
+    expect(summer.sunrise).toBeNull();
+    expect(winter.polar).toBe('night');
+    expect(getDaylightRange(winter, new Date(2024, 11, 21))).toBeNull();
+  });
+});
+
+describe('calculateSunAltitude', () => {
+  it('should reach 90° minus the latitude plus the declination at noon', () => {
+    // 東京の夏至は約77.8°、冬至は約30.9°
+    expect(calculateNoonSunAltitude(new Date(2024, 5, 21), 35.6895, 139.6917)).toBeCloseTo(77.8, 0);
+    expect(calculateNoonSunAltitude(new Date(2024, 11, 21), 35.6895, 139.6917)).toBeCloseTo(30.9, 0);
+  });
+
+  it('should be at the horizon at sunrise', () => {
+    const { sunrise } = calculateDaylight(new Date(2024, 5, 1), 51.4769, 0);
+
+    expect(calculateSunAltitude(sunrise ?? new Date(NaN), 51.4769, 0)).toBeCloseTo(-0.833, 1);
+  });
+});
+
+describe('isWithinDaylight', () => {
+  const date = new Date(2024, 5, 1);
+  const daylight = calculateDaylight(date, 35.6895, 139.6917);
+  const sunrise = daylight.sunrise as Date;
+  const sunset = daylight.sunset as Date;
+
+  it('should require the whole window between sunrise and sunset', () => {
+    expect(isWithinDaylight(daylight, date, sunrise, new Date(sunrise.getTime() + HOUR_MS))).toBe(true);
+    expect(isWithinDaylight(daylight, date, new Date(sunset.getTime() - HOUR_MS), new Date(sunset.getTime() + 1))).toBe(false);
+  });
+
+  it('should treat polar days as daylight all day', () => {
+    const polarDate = new Date(2024, 5, 21);
+    const polarDay = calculateDaylight(polarDate, 69.65, 18.96);
+
+    expect(isWithinDaylight(polarDay, polarDate, new Date(2024, 5, 21, 0, 30), new Date(2024, 5, 21, 23))).toBe(true);
+  });
+});
+
+describe('findClearGoldenHour', () => {
+  const date = new Date(2024, 5, 1);
+  const daylight = calculateDaylight(date, 35.6895, 139.6917);
+  const evening = daylight.eveningGoldenHour;
+  const slotStart = new Date(Math.floor((evening?.start.getTime() ?? 0) / HOUR_MS) * HOUR_MS);
+  const slots = [0, 1, 2].map(index => createSlot(new Date(slotStart.getTime() + index * HOUR_MS)));
+
+  it('should find the golden hour when the sky is clear', () => {
+    expect(findClearGoldenHour(daylight, slots, HOUR_MS, slotStart, new Date(slotStart.getTime() + 3 * HOUR_MS)))
+      .toEqual(evening);
+  });
+
+  it('should not count a golden hour under rain or heavy clouds', () => {
+    const cloudy = slots.map(slot => ({ ...slot, cloudiness: 90 }));
+    const rainy = slots.map(slot => ({ ...slot, weatherType: 'rain' as const }));
+    const end = new Date(slotStart.getTime() + 3 * HOUR_MS);
+
+    expect(findClearGoldenHour(daylight, cloudy, HOUR_MS, slotStart, end)).toBeNull();
+    expect(findClearGoldenHour(daylight, rainy, HOUR_MS, slotStart, end)).toBeNull();
+  });
+
+  it('should ignore golden hours outside the window', () => {
+    const noon = new Date(((daylight.sunrise?.getTime() ?? 0) + (daylight.sunset?.getTime() ?? 0)) / 2);
+
+    expect(findClearGoldenHour(daylight, slots, HOUR_MS, noon, new Date(noon.getTime() + HOUR_MS))).toBeNull();
+  });
+});
@@ -0,0 +1,185 @@
+import type { DaylightRange, DaylightTimes, HourlyForecast } from '../types';
+
+// 日の出・日の入りの太陽高度（大気差と太陽の半径を考慮）
+const SUNRISE_ALTITUDE = -0.833;
+// 市民薄明の始まり・終わり
+const CIVIL_TWILIGHT_ALTITUDE = -6;
+// ゴールデンアワーとブルーアワーの境目
+const BLUE_HOUR_END_ALTITUDE = -4;
+// ゴールデンアワーの終わり（朝）・始まり（夕）
+const GOLDEN_HOUR_ALTITUDE = 6;
+
+// ゴールデンアワーの空が期待できる予報（雲量・降水確率の上限）
+const GOLDEN_HOUR_MAX_CLOUDINESS = 70;
+const GOLDEN_HOUR_MAX_POP = 0.3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const JULIAN_1970 = 2440587.5;
+const JULIAN_2000 = 2451545;
+const EARTH_OBLIQUITY = 23.4397;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number): number => (radians * 180) / Math.PI;
+const toJulian = (time: number): number => time / DAY_MS + JULIAN_1970;
+const fromJulian = (julian: number): Date => new Date(Math.round((julian - JULIAN_1970) * DAY_MS));
+
+interface SolarDay {
+  transit: number; // 南中時刻（ユリウス日）
+  declination: number; // 太陽の赤緯（ラジアン）
+}
+
+// 太陽が指定の高度を通過する時刻（朝・夕）、通過しない場合は常に上か下か
+export type AltitudeCrossing = { rising: Date; setting: Date } | 'above' | 'below';
+
+/**
+ * 日付（ローカル時間）の南中時刻と太陽の赤緯
+ * 日の出の方程式（NOAAの簡略式）による。誤差は中緯度で1〜2分程度。
+ */
+const getSolarDay = (date: Date, lon: number): SolarDay => {
+  const localNoon = new Date(date.getFullYear(), date.getMonth(), date.getDate(), 12).getTime();
+  // 現地の正午に最も近い南中を選ぶ
+  const dayNumber = Math.round(toJulian(localNoon) - JULIAN_2000 + lon / 360);
+  const meanSolarNoon = dayNumber - lon / 360;
+
+  const meanAnomaly = (357.5291 + 0.98560028 * meanSolarNoon) % 360;
+  const m = toRadians(meanAnomaly);
+  const center = 1.9148 * Math.sin(m) + 0.02 * Math.sin(2 * m) + 0.0003 * Math.sin(3 * m);
+  const eclipticLongitude = toRadians((meanAnomaly + center + 180 + 102.9372) % 360);
+
+  return {
+    transit: JULIAN_2000 + meanSolarNoon + 0.0053 * Math.sin(m) - 0.0069 * Math.sin(2 * eclipticLongitude),
+    declination: Math.asin(Math.sin(eclipticLongitude) * Math.sin(toRadians(EARTH_OBLIQUITY)))
+  };
+};
+
+const getAltitudeCrossing = (solar: SolarDay, lat: number, altitude: number): AltitudeCrossing => {
+  const phi = toRadians(lat);
+  const cosHourAngle =
+    (Math.sin(toRadians(altitude)) - Math.sin(phi) * Math.sin(solar.declination)) /
+    (Math.cos(phi) * Math.cos(solar.declination));
+
+  if (cosHourAngle < -1) return 'above';
+  if (cosHourAngle > 1) return 'below';
+
+  const offset = toDegrees(Math.acos(cosHourAngle)) / 360;
+  return { rising: fromJulian(solar.transit - offset), setting: fromJulian(solar.transit + offset) };
+};
+
+export const isCrossing = (crossing: AltitudeCrossing): crossing is { rising: Date; setting: Date } =>
+  typeof crossing === 'object';
+
+// 日付（ローカル時間）に太陽が指定の高度を通過する時刻
+export const calculateSunAltitudeCrossing = (date: Date, lat: number, lon: number, altitude: number): AltitudeCrossing =>
+  getAltitudeCrossing(getSolarDay(date, lon), lat, altitude);
+
+// 太陽の高度（度）。時角は南中からの経過時間から求める
+const getSunAltitude = (solar: SolarDay, lat: number, julian: number): number => {
+  const phi = toRadians(lat);
+  const hourAngle = (julian - solar.transit) * 2 * Math.PI;
+  return toDegrees(Math.asin(
+    Math.sin(phi) * Math.sin(solar.declination) + Math.cos(phi) * Math.cos(solar.declination) * Math.cos(hourAngle)
+  ));
+};
+
+// 日時の太陽高度（度）
+export const calculateSunAltitude = (time: Date, lat: number, lon: number): number =>
+  getSunAltitude(getSolarDay(time, lon), lat, toJulian(time.getTime()));
+
+// 日付（ローカル時間）の南中時の太陽高度（度）
+export const calculateNoonSunAltitude = (date: Date, lat: number, lon: number): number => {
+  const solar = getSolarDay(date, lon);
+  return getSunAltitude(solar, lat, solar.transit);
+};
+
+/**
+ * 場所と日付から日の出・日の入り・薄明・ゴールデンアワー・ブルーアワーを計算する
+ * 時刻は取得元に依存せず、すべての日について同じ方法で計算する。
+ */
+export const calculateDaylight = (date: Date, lat: number, lon: number): DaylightTimes => {
+  const solar = getSolarDay(date, lon);
+  const sun = getAltitudeCrossing(solar, lat, SUNRISE_ALTITUDE);
+  const civil = getAltitudeCrossing(solar, lat, CIVIL_TWILIGHT_ALTITUDE);
+  const blueEnd = getAltitudeCrossing(solar, lat, BLUE_HOUR_END_ALTITUDE);
+  const golden = getAltitudeCrossing(solar, lat, GOLDEN_HOUR_ALTITUDE);
+
+  // 太陽が6°まで昇らない日は、-4°を上回っている間ずっとゴールデンアワー
+  let morningGoldenHour: DaylightRange | null = null;
+  let eveningGoldenHour: DaylightRange | null = null;
+  if (isCrossing(blueEnd)) {
+    if (isCrossing(golden)) {
+      morningGoldenHour = { start: blueEnd.rising, end: golden.rising };
+      eveningGoldenHour = { start: golden.setting, end: blueEnd.setting };
+    } else {
+      morningGoldenHour = { start: blueEnd.rising, end: blueEnd.setting };
+    }
+  }
+
+  const bothCross = isCrossing(civil) && isCrossing(blueEnd);
+  const daylight: DaylightTimes = {
+    sunrise: isCrossing(sun) ? sun.rising : null,
+    sunset: isCrossing(sun) ? sun.setting : null,
+    civilDawn: isCrossing(civil) ? civil.rising : null,
+    civilDusk: isCrossing(civil) ? civil.setting : null,
+    morningGoldenHour,
+    eveningGoldenHour,
+    morningBlueHour: bothCross ? { start: civil.rising, end: blueEnd.rising } : null,
+    eveningBlueHour: bothCross ? { start: blueEnd.setting, end: civil.setting } : null
+  };
+  if (!isCrossing(sun)) {
+    daylight.polar = sun === 'above' ? 'day' : 'night';
+  }
+  return daylight;
+};
+
+/**
+ * 日の出〜日の入りの範囲（白夜の日は終日、極夜の日はnull）
+ */
+export const getDaylightRange = (daylight: DaylightTimes, date: Date): DaylightRange | null => {
+  if (daylight.sunrise && daylight.sunset) {
+    return { start: daylight.sunrise, end: daylight.sunset };
+  }
+  if (daylight.polar === 'day') {
+    const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    return { start, end: new Date(start.getFullYear(), start.getMonth(), start.getDate() + 1) };
+  }
+  return null;
+};
+
+// 開始〜終了がすべて日の出〜日の入りの間か
+export const isWithinDaylight = (daylight: DaylightTimes, date: Date, start: Date, end: Date): boolean => {
+  const range = getDaylightRange(daylight, date);
+  return range !== null && start.getTime() >= range.start.getTime() && end.getTime() <= range.end.getTime();
+};
+
+export const getGoldenHours = (daylight: DaylightTimes): DaylightRange[] =>
+  [daylight.morningGoldenHour, daylight.eveningGoldenHour].filter((range): range is DaylightRange => range !== null);
+
+const overlaps = (range: DaylightRange, start: Date, end: Date): boolean =>
+  range.start.getTime() < end.getTime() && start.getTime() < range.end.getTime();
+
+/**
+ * 開始〜終了の間で、空が期待できるゴールデンアワー
+ * ゴールデンアワーに重なる予報がすべて晴れ・曇り（雲量・降水確率が上限以下）の場合のみ返す
+ */
+export const findClearGoldenHour = (
+  daylight: DaylightTimes,
+  slots: HourlyForecast[],
+  slotInterval: number,
+  start: Date,
+  end: Date
+): DaylightRange | null => {
+  for (const goldenHour of getGoldenHours(daylight)) {
+    if (!overlaps(goldenHour, start, end)) continue;
+
+    const goldenSlots = slots.filter(slot =>
+      overlaps(goldenHour, slot.datetime, new Date(slot.datetime.getTime() + slotInterval))
+    );
+    const isClear = goldenSlots.length > 0 && goldenSlots.every(slot =>
+      (slot.weatherType === 'clear' || slot.weatherType === 'clouds') &&
+      slot.cloudiness <= GOLDEN_HOUR_MAX_CLOUDINESS &&
+      slot.pop <= GOLDEN_HOUR_MAX_POP
+    );
+    if (isClear) return goldenHour;
+  }
+  return null;
+};
@@ -0,0 +1,13 @@
+// 文字列をファイルとしてダウンロードさせる
+export const downloadTextFile = (content: string, fileName: string, type: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// ファイル名に付ける日付（YYYY-MM-DD）
+export const getFileDateStamp = (date: Date = new Date()): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
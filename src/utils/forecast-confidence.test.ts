@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { calculateForecastConfidence, getConfidenceLevel, getForecastConfidence } from './forecast-confidence';
+
+describe('forecast confidence', () => {
+  it('should decrease with lead time down to the minimum', () => {
+    expect(calculateForecastConfidence(0)).toBe(1);
+    expect(calculateForecastConfidence(3)).toBe(0.76);
+    expect(calculateForecastConfidence(20)).toBe(0.4);
+  });
+
+  it('should be lower for partial days', () => {
+    expect(calculateForecastConfidence(5, true)).toBe(0.48);
+  });
+
+  it('should treat forecasts without confidence as certain', () => {
+    expect(getForecastConfidence({})).toBe(1);
+    expect(getForecastConfidence({ confidence: 0.7 })).toBe(0.7);
+  });
+
+  it('should map confidence to levels', () => {
+    expect(getConfidenceLevel(0.92)).toBe('high');
+    expect(getConfidenceLevel(0.68)).toBe('medium');
+    expect(getConfidenceLevel(0.52)).toBe('low');
+  });
+});
@@ -0,0 +1,35 @@
+import type { DailyForecast } from '../types';
+
+// 1日先になるごとに下がる信頼度
+export const CONFIDENCE_DECAY_PER_DAY = 0.08;
+
+// 信頼度の下限
+export const MIN_CONFIDENCE = 0.4;
+
+// 予報が1日の一部しかない日の信頼度の倍率
+export const PARTIAL_DAY_CONFIDENCE_FACTOR = 0.8;
+
+// 信頼度の段階
+export type ConfidenceLevel = 'high' | 'medium' | 'low';
+
+/**
+ * 予報の信頼度（0-1）
+ *
+ * 予報の取得時点から先の日ほど外れやすいため、日数に応じて直線的に下げる。
+ * 1日の一部の時間帯しか予報がない日は、さらに下げる。
+ * 例: 当日 1.0、3日後 0.76、5日後 0.6（一部のみなら 0.48）
+ */
+export const calculateForecastConfidence = (leadDays: number, isPartial = false): number => {
+  const confidence = Math.max(MIN_CONFIDENCE, 1 - CONFIDENCE_DECAY_PER_DAY * Math.max(0, leadDays));
+  return Math.round((isPartial ? confidence * PARTIAL_DAY_CONFIDENCE_FACTOR : confidence) * 100) / 100;
+};
+
+// 信頼度が保存されていない予報（以前のキャッシュ）は信頼度1として扱う
+export const getForecastConfidence = (forecast: Pick<DailyForecast, 'confidence'>): number =>
+  forecast.confidence ?? 1;
+
+export const getConfidenceLevel = (confidence: number): ConfidenceLevel => {
+  if (confidence >= 0.8) return 'high';
+  if (confidence >= 0.6) return 'medium';
+  return 'low';
+};
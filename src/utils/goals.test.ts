@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { calculateGoalProgress, getGoalPeriodRange, getGoalPriorityBonus } from './goals';
+import type { ActivityLog, DailyForecast, Hobby, HobbyGoal } from '../types';
+
+const createHobby = (goal?: HobbyGoal): Hobby => ({
+  id: 1,
+  name: 'ランニング',
+  isActive: true,
+  createdAt: new Date(),
+  ...(goal && { goal })
+});
+
+const createLog = (date: Date, hobbyId = 1): ActivityLog => ({
+  hobbyId,
+  date,
+  forecast: {} as DailyForecast,
+  predictedScore: 80,
+  rating: 4,
+  createdAt: date
+});
+
+describe('getGoalPeriodRange', () => {
+  it('should start weeks on Monday', () => {
+    // 2024-01-21は日曜
+    const { start, end } = getGoalPeriodRange('week', new Date(2024, 0, 21, 18));
+
+    expect(start).toEqual(new Date(2024, 0, 15));
+    expect(end).toEqual(new Date(2024, 0, 22));
+  });
+
+  it('should use calendar months', () => {
+    const { start, end } = getGoalPeriodRange('month', new Date(2024, 1, 10));
+
+    expect(start).toEqual(new Date(2024, 1, 1));
+    expect(end).toEqual(new Date(2024, 2, 1));
+  });
+});
+
+describe('calculateGoalProgress', () => {
+  const threeTimesAWeek = createHobby({ count: 3, period: 'week' });
+
+  it('should return null without a goal', () => {
+    expect(calculateGoalProgress(createHobby(), [], new Date())).toBeNull();
+  });
+
+  it('should count only logs of the hobby in the current period', () => {
+    const logs = [
+      createLog(new Date(2024, 0, 14)), // 先週
+      createLog(new Date(2024, 0, 15)),
+      createLog(new Date(2024, 0, 16), 2) // 別の趣味
+    ];
+
+    const progress = calculateGoalProgress(threeTimesAWeek, logs, new Date(2024, 0, 17, 12));
+
+    expect(progress?.completed).toBe(1);
+    expect(progress?.remaining).toBe(2);
+    expect(progress?.daysLeft).toBe(5);
+  });
+
+  it('should not be behind at the start of the period', () => {
+    const progress = calculateGoalProgress(threeTimesAWeek, [], new Date(2024, 0, 15, 9));
+
+    expect(progress?.expected).toBe(0);
+    expect(progress?.status).toBe('onTrack');
+  });
+
+  it('should be behind when fewer sessions than the elapsed share of the goal', () => {
+    // 木曜: 3 × 3/7 → 1回
+    const progress = calculateGoalProgress(threeTimesAWeek, [], new Date(2024, 0, 18, 9));
+
+    expect(progress?.expected).toBe(1);
+    expect(progress?.status).toBe('behind');
+  });
+
+  it('should be achieved once the goal count is reached', () => {
+    const logs = [15, 16, 17].map(day => createLog(new Date(2024, 0, day)));
+
+    expect(calculateGoalProgress(threeTimesAWeek, logs, new Date(2024, 0, 18))?.status).toBe('achieved');
+  });
+});
+
+describe('getGoalPriorityBonus', () => {
+  const hobby = createHobby({ count: 4, period: 'month' });
+
+  it('should be zero unless behind', () => {
+    expect(getGoalPriorityBonus(undefined)).toBe(0);
+    expect(getGoalPriorityBonus(calculateGoalProgress(hobby, [], new Date(2024, 0, 1)) ?? undefined)).toBe(0);
+  });
+
+  it('should grow with the shortfall', () => {
+    // 1月20日: 4 × 19/31 → 2回
+    const progress = calculateGoalProgress(hobby, [], new Date(2024, 0, 20)) ?? undefined;
+
+    expect(progress?.expected).toBe(2);
+    expect(getGoalPriorityBonus(progress)).toBe(15);
+  });
+});
@@ -0,0 +1,103 @@
+import type { ActivityLog, GoalPeriod, Hobby, HobbyGoal } from '../types';
+
+// 目標回数の上限（期間ごと）
+export const MAX_GOAL_COUNT: Record<GoalPeriod, number> = {
+  week: 7,
+  month: 31
+};
+
+// 目標に遅れている趣味をおすすめの並び順で優先する最大の点数
+export const GOAL_PRIORITY_MAX_BONUS = 30;
+
+// 目標の状態
+export type GoalStatus = 'achieved' | 'onTrack' | 'behind';
+
+// 目標の進捗（今の期間）
+export interface GoalProgress {
+  hobby: Hobby;
+  goal: HobbyGoal;
+  completed: number; // 期間内に記録した活動の回数
+  remaining: number; // 目標まであと何回
+  expected: number; // 期間の経過に合わせて今日までに済ませておきたい回数
+  periodStart: Date;
+  periodEnd: Date; // この日時を含まない
+  daysLeft: number; // 今日を含む期間の残り日数
+  status: GoalStatus;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const startOfDay = (date: Date): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const countDays = (from: Date, to: Date): number =>
+  Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / DAY_MS);
+
+/**
+ * 目標の期間（週は月曜始まり、月は1日始まり）
+ */
+export const getGoalPeriodRange = (period: GoalPeriod, now: Date = new Date()): { start: Date; end: Date } => {
+  if (period === 'month') {
+    return {
+      start: new Date(now.getFullYear(), now.getMonth(), 1),
+      end: new Date(now.getFullYear(), now.getMonth() + 1, 1)
+    };
+  }
+
+  const daysSinceMonday = (now.getDay() + 6) % 7;
+  const start = new Date(now.getFullYear(), now.getMonth(), now.getDate() - daysSinceMonday);
+  return { start, end: new Date(start.getFullYear(), start.getMonth(), start.getDate() + 7) };
+};
+
+/**
+ * 活動記録から目標の進捗を計算する（目標のない趣味はnull）
+ *
+ * 今日までの経過日数の割合で目標回数を按分し、それより少なければ「遅れ」とする。
+ * 今日はまだ活動できるため経過日数に含めない。
+ * 例: 週3回の目標で木曜（経過3日）に0回 → 3 × 3/7 = 1.3 → 1回必要なので遅れ
+ */
+export const calculateGoalProgress = (
+  hobby: Hobby,
+  logs: ActivityLog[],
+  now: Date = new Date()
+): GoalProgress | null => {
+  const goal = hobby.goal;
+  if (!goal || hobby.id === undefined) return null;
+
+  const { start, end } = getGoalPeriodRange(goal.period, now);
+  const completed = logs.filter(log =>
+    log.hobbyId === hobby.id && log.date >= start && log.date < end
+  ).length;
+  const totalDays = countDays(start, end);
+  const elapsedDays = countDays(start, now);
+  const expected = Math.floor(goal.count * elapsedDays / totalDays);
+  const remaining = Math.max(0, goal.count - completed);
+
+  let status: GoalStatus = 'onTrack';
+  if (remaining === 0) {
+    status = 'achieved';
+  } else if (completed < expected) {
+    status = 'behind';
+  }
+
+  return {
+    hobby,
+    goal,
+    completed,
+    remaining,
+    expected,
+    periodStart: start,
+    periodEnd: end,
+    daysLeft: totalDays - elapsedDays,
+    status
+  };
+};
+
+/**
+ * 目標に遅れている趣味をおすすめで優先する点数（遅れている回数の割合に比例）
+ */
+export const getGoalPriorityBonus = (progress: GoalProgress | undefined): number => {
+  if (!progress || progress.status !== 'behind') return 0;
+  const shortfall = Math.min(progress.goal.count, progress.expected - progress.completed);
+  return Math.round(GOAL_PRIORITY_MAX_BONUS * shortfall / progress.goal.count);
+};
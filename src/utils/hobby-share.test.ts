@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createHobbyShareLink,
+  decodeHobbyShareLink,
+  getHobbyShareLinkPayload,
+  parseHobbyShare,
+  serializeHobbyShare,
+} from './hobby-share';
+import type { Hobby } from '../types';
+
+const hobby: Hobby = {
+  id: 3,
+  name: 'ランニング',
+  preferredWeather: [{ condition: 'clear', weight: 9 }],
+  preferredTimeOfDay: ['morning'],
+  isActive: false,
+  minTemperature: 10,
+  maxTemperature: 25,
+  learningBaseline: {
+    preferredWeather: [{ condition: 'clouds', weight: 5 }],
+    capturedAt: new Date('2024-04-01T00:00:00Z'),
+  },
+  createdAt: new Date('2024-04-01T00:00:00Z'),
+};
+
+describe('hobby share utils', () => {
+  it('should export only the shareable fields', () => {
+    const file = parseHobbyShare(serializeHobbyShare([hobby]));
+
+    expect(file.exportedAt).toBeDefined();
+    expect(file.hobbies).toEqual([
+      {
+        name: 'ランニング',
+        preferredWeather: [{ condition: 'clear', weight: 9 }],
+        preferredTimeOfDay: ['morning'],
+        minTemperature: 10,
+        maxTemperature: 25,
+      },
+    ]);
+  });
+
+  it('should round-trip hobbies through a share link', () => {
+    const link = createHobbyShareLink([hobby], 'https://example.com/app/');
+    expect(link.startsWith('https://example.com/app/#hobby-share=')).toBe(true);
+
+    // base64urlはURLで特別な意味を持つ文字を含まない
+    const payload = getHobbyShareLinkPayload(new URL(link).hash);
+    expect(payload).toMatch(/^[\w-]+$/);
+
+    const file = decodeHobbyShareLink(payload!);
+    expect(file.exportedAt).toBeUndefined();
+    expect(file.hobbies[0]?.name).toBe('ランニング');
+  });
+
+  it('should ignore unknown fields and reject invalid values', () => {
+    const file = parseHobbyShare(
+      JSON.stringify({
+        format: 'hobby-weather-hobbies',
+        version: 1,
+        hobbies: [{ name: '釣り', id: 99, isActive: false, extra: 'x' }],
+      })
+    );
+    expect(file.hobbies).toEqual([{ name: '釣り' }]);
+
+    expect(() =>
+      parseHobbyShare(
+        JSON.stringify({
+          format: 'hobby-weather-hobbies',
+          version: 1,
+          hobbies: [{ name: '釣り' }, { name: '登山', minTemperature: '10' }],
+        })
+      )
+    ).toThrow('2件目');
+    expect(() => parseHobbyShare(JSON.stringify({ format: 'other', version: 1, hobbies: [] }))).toThrow(
+      '趣味の共有ファイルではありません'
+    );
+  });
+
+  it('should check the shape of nested fields', () => {
+    const parse = (hobby: Record<string, unknown>) =>
+      parseHobbyShare(JSON.stringify({ format: 'hobby-weather-hobbies', version: 1, hobbies: [hobby] }));
+
+    expect(
+      parse({ name: '釣り', goal: { count: 2, period: 'week', extra: true }, hardConstraints: { maxWindSpeed: 8 } })
+        .hobbies[0]
+    ).toEqual({ name: '釣り', goal: { count: 2, period: 'week' }, hardConstraints: { maxWindSpeed: 8 } });
+
+    expect(() => parse({ name: '釣り', goal: { count: '2', period: 'week' } })).toThrow('1件目');
+    expect(() => parse({ name: '釣り', scoringProfile: { preset: 'balanced' } })).toThrow('1件目');
+    expect(() => parse({ name: '釣り', scoringProfile: { preset: 'custom', weights: { wind: 'high' } } })).toThrow(
+      '1件目'
+    );
+    expect(() => parse({ name: '釣り', hardConstraints: { forbiddenWeather: [1] } })).toThrow('1件目');
+  });
+
+  it('should report links that cannot be decoded', () => {
+    expect(getHobbyShareLinkPayload('#other=1')).toBeNull();
+    expect(() => decodeHobbyShareLink('%%%')).toThrow('共有リンクが正しくありません');
+  });
+});
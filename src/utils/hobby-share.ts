@@ -0,0 +1,219 @@
+import type { Hobby } from '../types';
+import type { HobbyShareFile, SharedHobby } from '../types/hobby-share';
+import { t } from './i18n';
+
+export const HOBBY_SHARE_FORMAT = 'hobby-weather-hobbies';
+export const HOBBY_SHARE_VERSION = 1;
+
+// 共有リンクのハッシュに使うパラメータ名（#hobby-share=...）
+export const HOBBY_SHARE_LINK_PARAM = 'hobby-share';
+
+type FieldType = 'string' | 'number' | 'boolean' | 'array' | 'object';
+
+// 共有する項目と値の型（ここにない項目は書き出さず、読み込み時も無視する）
+const SHARED_HOBBY_FIELDS: Record<keyof SharedHobby, FieldType> = {
+  name: 'string',
+  description: 'string',
+  isOutdoor: 'boolean',
+  preferredWeather: 'array',
+  preferredTimeOfDay: 'array',
+  minTemperature: 'number',
+  maxTemperature: 'number',
+  durationMinutes: 'number',
+  earliestStart: 'string',
+  latestEnd: 'string',
+  requiresDaylight: 'boolean',
+  prefersGoldenHour: 'boolean',
+  scoringMode: 'string',
+  weeklyFrequency: 'number',
+  goal: 'object',
+  scoringProfile: 'object',
+  hardConstraints: 'object',
+};
+
+export const SHARED_HOBBY_FIELD_NAMES = Object.keys(SHARED_HOBBY_FIELDS) as Array<keyof SharedHobby>;
+
+// 入れ子の項目の形（?付きは省略できる項目）
+// 値の範囲や選択肢は取り込み時の入力チェック（validateHobby）で確かめる
+const NESTED_HOBBY_FIELDS: Partial<Record<keyof SharedHobby, Record<string, FieldType>>> = {
+  goal: { count: 'number', period: 'string' },
+  scoringProfile: { preset: 'string', weights: 'object' },
+  hardConstraints: {
+    'maxWindSpeed?': 'number',
+    'maxPrecipitationProbability?': 'number',
+    'minVisibility?': 'number',
+    'forbiddenWeather?': 'array',
+    'minFeelsLike?': 'number',
+    'maxFeelsLike?': 'number',
+  },
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const matchesFieldType = (value: unknown, type: string): boolean => {
+  if (type === 'array') return Array.isArray(value);
+  if (type === 'object') return isRecord(value);
+  if (type === 'number') return typeof value === 'number' && Number.isFinite(value);
+  return typeof value === type;
+};
+
+// 入れ子の項目の形を確かめ、共有する項目だけを残す（形が違う場合はnull）
+const pickNestedFields = (
+  value: Record<string, unknown>,
+  fields: Record<string, FieldType>
+): Record<string, unknown> | null => {
+  const picked: Record<string, unknown> = {};
+  for (const [key, type] of Object.entries(fields)) {
+    const field = key.replace(/\?$/, '');
+    const fieldValue = value[field];
+    if (fieldValue === undefined || fieldValue === null) {
+      if (key.endsWith('?')) continue;
+      return null;
+    }
+    if (!matchesFieldType(fieldValue, type)) return null;
+    picked[field] = fieldValue;
+  }
+  return picked;
+};
+
+export const toSharedHobby = (hobby: Hobby): SharedHobby => {
+  const shared: Record<string, unknown> = {};
+  for (const field of SHARED_HOBBY_FIELD_NAMES) {
+    const value = hobby[field];
+    if (value !== undefined) {
+      shared[field] = value;
+    }
+  }
+  return shared as unknown as SharedHobby;
+};
+
+export const createHobbyShareFile = (hobbies: Hobby[], exportedAt?: Date): HobbyShareFile => ({
+  format: HOBBY_SHARE_FORMAT,
+  version: HOBBY_SHARE_VERSION,
+  ...(exportedAt && { exportedAt: exportedAt.toISOString() }),
+  hobbies: hobbies.map(toSharedHobby),
+});
+
+export const serializeHobbyShare = (hobbies: Hobby[]): string =>
+  JSON.stringify(createHobbyShareFile(hobbies, new Date()), null, 2);
+
+const parseSharedHobby = (value: unknown, index: number): SharedHobby => {
+  const invalid = () => new Error(t('hobbyShare.error.invalidHobby', { index: index + 1 }));
+  if (!isRecord(value) || typeof value['name'] !== 'string') throw invalid();
+
+  const hobby: Record<string, unknown> = {};
+  for (const [field, type] of Object.entries(SHARED_HOBBY_FIELDS)) {
+    const fieldValue = value[field];
+    if (fieldValue === undefined || fieldValue === null) continue;
+    if (!matchesFieldType(fieldValue, type)) throw invalid();
+    const nestedFields = NESTED_HOBBY_FIELDS[field as keyof SharedHobby];
+    if (nestedFields) {
+      const nested = pickNestedFields(fieldValue as Record<string, unknown>, nestedFields);
+      if (!nested) throw invalid();
+      hobby[field] = nested;
+    } else {
+      hobby[field] = fieldValue;
+    }
+  }
+
+  const weather = hobby['preferredWeather'];
+  if (
+    Array.isArray(weather) &&
+    !weather.every(
+      (condition) =>
+        isRecord(condition) &&
+        typeof condition['condition'] === 'string' &&
+        typeof condition['weight'] === 'number' &&
+        (condition['intensity'] === undefined || typeof condition['intensity'] === 'string')
+    )
+  ) {
+    throw invalid();
+  }
+  const timeOfDay = hobby['preferredTimeOfDay'];
+  if (Array.isArray(timeOfDay) && !timeOfDay.every((time) => typeof time === 'string')) {
+    throw invalid();
+  }
+  const weights = (hobby['scoringProfile'] as Record<string, unknown> | undefined)?.['weights'];
+  if (isRecord(weights) && !Object.values(weights).every((weight) => matchesFieldType(weight, 'number'))) {
+    throw invalid();
+  }
+  const forbiddenWeather = (hobby['hardConstraints'] as Record<string, unknown> | undefined)?.['forbiddenWeather'];
+  if (Array.isArray(forbiddenWeather) && !forbiddenWeather.every((weather) => typeof weather === 'string')) {
+    throw invalid();
+  }
+
+  return hobby as unknown as SharedHobby;
+};
+
+/**
+ * 趣味の共有ファイルを読み込み、形式を検証する
+ * 共有する項目以外の値は取り除く
+ */
+export const parseHobbyShare = (json: string): HobbyShareFile => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error(t('hobbyShare.error.invalidJson'));
+  }
+
+  if (!isRecord(data) || data['format'] !== HOBBY_SHARE_FORMAT || !Array.isArray(data['hobbies'])) {
+    throw new Error(t('hobbyShare.error.invalidFormat'));
+  }
+  const version = data['version'];
+  if (typeof version !== 'number' || version > HOBBY_SHARE_VERSION) {
+    throw new Error(t('hobbyShare.error.unsupportedVersion', { version: String(version) }));
+  }
+  if (data['hobbies'].length === 0) {
+    throw new Error(t('hobbyShare.error.empty'));
+  }
+
+  const exportedAt = data['exportedAt'];
+  return {
+    format: HOBBY_SHARE_FORMAT,
+    version,
+    ...(typeof exportedAt === 'string' && { exportedAt }),
+    hobbies: data['hobbies'].map(parseSharedHobby),
+  };
+};
+
+// URLに載せられるよう、UTF-8のJSONをbase64url（=なし）にする
+const toBase64Url = (text: string): string => {
+  let binary = '';
+  for (const byte of new TextEncoder().encode(text)) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string): string => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+};
+
+/**
+ * 趣味の共有リンクを作成する（データはURLのハッシュに入れるためサーバーには送られない）
+ * @param baseUrl リンク先のアプリのURL（省略時は今開いているページ）
+ */
+export const createHobbyShareLink = (
+  hobbies: Hobby[],
+  baseUrl = `${window.location.origin}${window.location.pathname}`
+): string => {
+  const payload = toBase64Url(JSON.stringify(createHobbyShareFile(hobbies)));
+  return `${baseUrl}#${HOBBY_SHARE_LINK_PARAM}=${payload}`;
+};
+
+// URLのハッシュから共有リンクのデータを取り出す（共有リンクでなければnull）
+export const getHobbyShareLinkPayload = (hash: string): string | null =>
+  new URLSearchParams(hash.replace(/^#/, '')).get(HOBBY_SHARE_LINK_PARAM);
+
+export const decodeHobbyShareLink = (payload: string): HobbyShareFile => {
+  let json: string;
+  try {
+    json = fromBase64Url(payload);
+  } catch {
+    throw new Error(t('hobbyShare.error.invalidLink'));
+  }
+  return parseHobbyShare(json);
+};
@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import { validateHobby } from './hobby-validation';
+
+describe('validateHobby', () => {
+  it('should validate hobby correctly', () => {
+    const validHobby = {
+      name: 'ランニング',
+      preferredWeather: [{ condition: 'clear' as const, weight: 5 }],
+      isActive: true
+    };
+
+    const errors = validateHobby(validHobby);
+    expect(errors).toHaveLength(0);
+  });
+
+  it('should return errors for invalid hobby', () => {
+    const invalidHobby = {
+      name: '',
+      preferredWeather: [],
+      isActive: true
+    };
+
+    const errors = validateHobby(invalidHobby);
+    expect(errors).toContain('趣味名は必須です');
+    expect(errors).toContain('希望天気を少なくとも1つ選択してください');
+  });
+
+  it('should validate name length', () => {
+    const hobbyWithLongName = {
+      name: 'a'.repeat(51),
+      preferredWeather: [{ condition: 'clear' as const, weight: 5 }],
+      isActive: true
+    };
+
+    const errors = validateHobby(hobbyWithLongName);
+    expect(errors).toContain('趣味名は50文字以内で入力してください');
+  });
+
+  it('should validate description length', () => {
+    const hobbyWithLongDescription = {
+      name: 'ランニング',
+      description: 'a'.repeat(201),
+      preferredWeather: [{ condition: 'clear' as const, weight: 5 }],
+      isActive: true
+    };
+
+    const errors = validateHobby(hobbyWithLongDescription);
+    expect(errors).toContain('説明は200文字以内で入力してください');
+  });
+
+  it('should validate weather condition weights', () => {
+    const hobbyWithInvalidWeights = {
+      name: 'ランニング',
+      preferredWeather: [
+        { condition: 'clear' as const, weight: 0 },
+        { condition: 'rain' as const, weight: 11 }
+      ],
+      isActive: true
+    };
+
+    const errors = validateHobby(hobbyWithInvalidWeights);
+    expect(errors).toContain('天気条件1のスコアは1-10の範囲で設定してください');
+    expect(errors).toContain('天気条件2のスコアは1-10の範囲で設定してください');
+  });
+
+  it('should validate weather intensities', () => {
+    const errors = validateHobby({
+      name: 'ランニング',
+      preferredWeather: [
+        { condition: 'rain' as const, weight: 8, intensity: 'light' as const },
+        { condition: 'clear' as const, weight: 9, intensity: 'heavy' as const }
+      ],
+      isActive: true
+    });
+
+    expect(errors).not.toContain('天気条件1の強さは雨・霧雨・雪・雷雨に light / moderate / heavy で指定してください');
+    expect(errors).toContain('天気条件2の強さは雨・霧雨・雪・雷雨に light / moderate / heavy で指定してください');
+  });
+
+  it('should validate duration and activity hours', () => {
+    const hobbyWithInvalidHours = {
+      name: 'ハイキング',
+      preferredWeather: [{ condition: 'clear' as const, weight: 5 }],
+      isActive: true,
+      durationMinutes: 0,
+      earliestStart: '18:00',
+      latestEnd: '09:00'
+    };
+
+    const errors = validateHobby(hobbyWithInvalidHours);
+    expect(errors).toContain('活動時間は1分〜24時間の範囲で設定してください');
+    expect(errors).toContain('終了時刻は開始可能時刻より後に設定してください');
+    expect(validateHobby({ ...hobbyWithInvalidHours, durationMinutes: 360, latestEnd: '7pm' }))
+      .toContain('終了時刻はHH:mm形式で入力してください');
+  });
+
+  it('should reject times past 24:00', () => {
+    const hobby = {
+      name: 'ハイキング',
+      preferredWeather: [{ condition: 'clear' as const, weight: 5 }],
+      isActive: true,
+      earliestStart: '06:00'
+    };
+
+    expect(validateHobby({ ...hobby, latestEnd: '24:00' })).toHaveLength(0);
+    expect(validateHobby({ ...hobby, latestEnd: '24:30' })).toContain('終了時刻はHH:mm形式で入力してください');
+    expect(validateHobby({ ...hobby, earliestStart: '24:59' }))
+      .toContain('開始可能時刻はHH:mm形式で入力してください');
+  });
+
+  it('should validate hard constraints', () => {
+    const errors = validateHobby({
+      name: 'カヤック',
+      preferredWeather: [{ condition: 'clear' as const, weight: 5 }],
+      isActive: true,
+      hardConstraints: { maxPrecipitationProbability: 120, minFeelsLike: 25, maxFeelsLike: 10 }
+    });
+
+    expect(errors).toContain('最大降水確率は0-100%の範囲で設定してください');
+    expect(errors).toContain('最低体感温度は最高体感温度以下で設定してください');
+  });
+
+  it('should reject values of the wrong type from shared files', () => {
+    const errors = validateHobby(JSON.parse(JSON.stringify({
+      name: 'カヤック',
+      preferredWeather: [{ condition: 'clear', weight: '5' }],
+      isActive: true,
+      hardConstraints: { maxWindSpeed: '8', forbiddenWeather: ['storm'] }
+    })));
+
+    expect(errors).toContain('天気条件1のスコアは1-10の範囲で設定してください');
+    expect(errors).toContain('除外する天気は天気の種類の一覧で指定してください');
+    expect(errors).toContain('最大風速は0以上で設定してください');
+  });
+
+  it('should validate scoring profiles', () => {
+    const hobby = {
+      name: 'ランニング',
+      preferredWeather: [{ condition: 'clear' as const, weight: 5 }],
+      isActive: true
+    };
+    const weights = { weather: 40, temperature: 25, precipitation: 20, wind: 10, uv: 5 };
+
+    expect(validateHobby({ ...hobby, scoringProfile: { preset: 'custom', weights } })).toHaveLength(0);
+    expect(validateHobby({ ...hobby, scoringProfile: { preset: 'unknown' as 'custom', weights } }))
+      .toContain('スコア計算の重み付けは既定のプリセットと、各要素の0以上の数値で指定してください');
+    expect(validateHobby({ ...hobby, scoringProfile: { preset: 'custom', weights: { ...weights, wind: -1 } } }))
+      .toContain('スコア計算の重み付けは既定のプリセットと、各要素の0以上の数値で指定してください');
+  });
+});
@@ -0,0 +1,120 @@
+import type { Hobby } from '../types';
+import { SCORING_PRESETS, DEFAULT_SCORING_WEIGHTS } from '../data/scoringProfiles';
+import { t } from './i18n';
+import { MAX_GOAL_COUNT } from './goals';
+import { INTENSITY_WEATHER_TYPES, WEATHER_INTENSITIES, WEATHER_TYPES } from './weather-classification';
+
+// 範囲内の数値か（文字列などの数値でない値は不正とする）
+const isNumberInRange = (value: unknown, min = -Infinity, max = Infinity): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+const isOptionalNumber = (value: unknown, min?: number, max?: number): boolean =>
+  value === undefined || isNumberInRange(value, min, max);
+
+const SCORING_PRESET_IDS: string[] = [...SCORING_PRESETS.map(preset => preset.id), 'custom'];
+const SCORE_FACTORS = Object.keys(DEFAULT_SCORING_WEIGHTS);
+
+/**
+ * 趣味の入力チェック（フォームと、共有ファイルからの取り込みで共通）
+ * 共有ファイルなど外部の値も受けるため、型どおりの値かも確かめる
+ */
+export const validateHobby = (hobby: Partial<Hobby>): string[] => {
+  const errors: string[] = [];
+
+  if (!hobby.name || hobby.name.trim().length === 0) {
+    errors.push(t('validation.nameRequired'));
+  }
+
+  if (hobby.name && hobby.name.trim().length > 50) {
+    errors.push(t('validation.nameTooLong'));
+  }
+
+  if (hobby.description && hobby.description.length > 200) {
+    errors.push(t('validation.descriptionTooLong'));
+  }
+
+  if (!hobby.preferredWeather || hobby.preferredWeather.length === 0) {
+    errors.push(t('validation.weatherRequired'));
+  }
+
+  if (hobby.preferredWeather) {
+    hobby.preferredWeather.forEach((condition, index) => {
+      if (typeof condition === 'object' && !isNumberInRange(condition.weight, 1, 10)) {
+        errors.push(t('validation.weatherWeightRange', { index: index + 1 }));
+      }
+      if (typeof condition === 'object' && condition.intensity !== undefined &&
+        (!WEATHER_INTENSITIES.includes(condition.intensity) || !INTENSITY_WEATHER_TYPES.includes(condition.condition))) {
+        errors.push(t('validation.weatherIntensity', { index: index + 1 }));
+      }
+    });
+  }
+
+  if (hobby.durationMinutes !== undefined && (hobby.durationMinutes < 1 || hobby.durationMinutes > 24 * 60)) {
+    errors.push(t('validation.durationRange'));
+  }
+
+  if (hobby.weeklyFrequency !== undefined &&
+      (!Number.isInteger(hobby.weeklyFrequency) || hobby.weeklyFrequency < 1 || hobby.weeklyFrequency > 7)) {
+    errors.push(t('validation.weeklyFrequencyRange'));
+  }
+
+  if (hobby.goal) {
+    const maxCount = MAX_GOAL_COUNT[hobby.goal.period];
+    if (!maxCount) {
+      errors.push(t('validation.goalPeriod'));
+    } else if (!Number.isInteger(hobby.goal.count) || hobby.goal.count < 1 || hobby.goal.count > maxCount) {
+      errors.push(t('validation.goalCountRange', { max: maxCount }));
+    }
+  }
+
+  if (hobby.scoringMode !== undefined && hobby.scoringMode !== 'weather' && hobby.scoringMode !== 'night-sky') {
+    errors.push(t('validation.scoringMode'));
+  }
+
+  // 24:00（日付の終わり）は許可し、24:01以降は不正とする
+  const timePattern = /^([01]\d|2[0-3]):[0-5]\d$|^24:00$/;
+  if (hobby.earliestStart && !timePattern.test(hobby.earliestStart)) {
+    errors.push(t('validation.earliestStartFormat'));
+  }
+  if (hobby.latestEnd && !timePattern.test(hobby.latestEnd)) {
+    errors.push(t('validation.latestEndFormat'));
+  }
+  if (hobby.earliestStart && hobby.latestEnd && hobby.earliestStart >= hobby.latestEnd) {
+    errors.push(t('validation.endBeforeStart'));
+  }
+
+  // 重み付けは既知のプリセットで、すべての要素に0以上の重みがあること
+  const profile = hobby.scoringProfile;
+  if (profile) {
+    const weights: Record<string, unknown> = { ...profile.weights };
+    if (!SCORING_PRESET_IDS.includes(profile.preset) ||
+      !SCORE_FACTORS.every(factor => isNumberInRange(weights[factor], 0))) {
+      errors.push(t('validation.scoringProfile'));
+    }
+  }
+
+  const constraints = hobby.hardConstraints;
+  if (constraints) {
+    if (!isOptionalNumber(constraints.maxWindSpeed, 0)) {
+      errors.push(t('validation.maxWindSpeed'));
+    }
+    if (!isOptionalNumber(constraints.maxPrecipitationProbability, 0, 100)) {
+      errors.push(t('validation.maxPrecipitation'));
+    }
+    if (!isOptionalNumber(constraints.minVisibility, 0)) {
+      errors.push(t('validation.minVisibility'));
+    }
+    if (!isOptionalNumber(constraints.minFeelsLike) || !isOptionalNumber(constraints.maxFeelsLike) ||
+      (constraints.minFeelsLike !== undefined && constraints.maxFeelsLike !== undefined &&
+        constraints.minFeelsLike > constraints.maxFeelsLike)) {
+      errors.push(t('validation.feelsLikeRange'));
+    }
+    if (constraints.forbiddenWeather !== undefined &&
+      (!Array.isArray(constraints.forbiddenWeather) ||
+        !constraints.forbiddenWeather.every(weather => WEATHER_TYPES.includes(weather)))) {
+      errors.push(t('validation.forbiddenWeather'));
+    }
+  }
+
+  return errors;
+};
\ No newline at end of file
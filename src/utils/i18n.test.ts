@@ -0,0 +1,47 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { t, getLocale, getActiveLanguage, setActiveLanguage } from './i18n';
+import { ja } from '../constants/messages/ja';
+import { en } from '../constants/messages/en';
+import type { Message, MessageKey } from '../types/i18n';
+
+const placeholders = (message: Message): string[] => {
+  const texts = typeof message === 'string' ? [message] : [message.one ?? '', message.other];
+  return [...new Set(texts.flatMap((text) => text.match(/\{\w+\}/g) ?? []))].sort();
+};
+
+describe('i18n', () => {
+  afterEach(() => {
+    setActiveLanguage('ja');
+  });
+
+  it('should translate with the active language', () => {
+    expect(getActiveLanguage()).toBe('ja');
+    expect(t('common.save')).toBe('保存');
+
+    setActiveLanguage('en');
+    expect(t('common.save')).toBe('Save');
+    expect(getLocale()).toBe('en-US');
+  });
+
+  it('should interpolate parameters', () => {
+    expect(t('common.points', { score: 85 })).toBe('85点');
+    expect(t('hobbyManager.edit', { name: 'Running' }, 'en')).toBe('Edit "Running"');
+  });
+
+  it('should keep placeholders without a value', () => {
+    expect(t('hobbyManager.counts', { total: 3 })).toBe('全 3 件 | 有効 {active} 件');
+  });
+
+  it('should select plural forms by count', () => {
+    expect(t('hobbyForm.constraintCount', { count: 1 }, 'en')).toBe('1 condition set');
+    expect(t('hobbyForm.constraintCount', { count: 2 }, 'en')).toBe('2 conditions set');
+    expect(t('hobbyForm.constraintCount', { count: 1 }, 'ja')).toBe('1件の条件を設定中');
+  });
+
+  it('should use the same placeholders in every language', () => {
+    const mismatched = (Object.keys(ja) as MessageKey[]).filter(
+      (key) => placeholders(en[key]).join() !== placeholders(ja[key]).join()
+    );
+    expect(mismatched).toEqual([]);
+  });
+});
@@ -0,0 +1,54 @@
+import type { Language, Message, MessageKey, MessageParams } from '../types/i18n';
+import { ja } from '../constants/messages/ja';
+import { en } from '../constants/messages/en';
+
+export const DEFAULT_LANGUAGE: Language = 'ja';
+
+export const LANGUAGE_OPTIONS: Array<{ value: Language; label: string }> = [
+  { value: 'ja', label: '日本語' },
+  { value: 'en', label: 'English' },
+];
+
+const CATALOGS: Record<Language, Record<MessageKey, Message>> = { ja, en };
+
+const LOCALES: Record<Language, string> = {
+  ja: 'ja-JP',
+  en: 'en-US',
+};
+
+// サービスが組み立てる文言（通知・おすすめ理由など）が参照する言語
+// （画面の言語設定と同期する。LanguageProviderが更新する）
+let activeLanguage: Language = DEFAULT_LANGUAGE;
+
+export const getActiveLanguage = (): Language => activeLanguage;
+
+export const setActiveLanguage = (language: Language): void => {
+  activeLanguage = language;
+};
+
+// 日付・数値の書式に使うロケール
+export const getLocale = (language: Language = activeLanguage): string => LOCALES[language];
+
+const selectMessage = (message: Message, language: Language, params?: MessageParams): string => {
+  if (typeof message === 'string') return message;
+  const count = params?.['count'];
+  if (typeof count !== 'number') return message.other;
+  const category = new Intl.PluralRules(LOCALES[language]).select(count);
+  return (category === 'one' ? message.one : undefined) ?? message.other;
+};
+
+// 動的に組み立てたキーがカタログにあるか
+export const hasMessage = (key: string): key is MessageKey => key in CATALOGS[DEFAULT_LANGUAGE];
+
+export const t = (
+  key: MessageKey,
+  params?: MessageParams,
+  language: Language = activeLanguage
+): string => {
+  const message = CATALOGS[language][key];
+  const text = selectMessage(message, language, params);
+  if (!params) return text;
+  return text.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+};
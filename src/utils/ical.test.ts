@@ -0,0 +1,194 @@
+import { describe, it, expect } from 'vitest';
+import { createICalendar, escapeText, foldLine, parseICalendarBusyTimes, unescapeText } from './ical';
+
+describe('iCalendar utils', () => {
+  it('should escape special characters in text values', () => {
+    expect(escapeText('a,b;c\\d\ne')).toBe('a\\,b\\;c\\\\d\\ne');
+  });
+
+  it('should fold long lines without splitting multi-byte characters', () => {
+    const line = `DESCRIPTION:${'晴れ'.repeat(40)}`;
+    const folded = foldLine(line).split('\r\n');
+
+    expect(folded.length).toBeGreaterThan(1);
+    folded.forEach((part, index) => {
+      expect(new TextEncoder().encode(part).length).toBeLessThanOrEqual(75);
+      if (index > 0) expect(part.startsWith(' ')).toBe(true);
+    });
+    expect(folded.map((part, index) => (index > 0 ? part.slice(1) : part)).join('')).toBe(line);
+  });
+
+  it('should write all-day and timed events with CRLF line endings', () => {
+    const ics = createICalendar(
+      [
+        {
+          uid: 'all-day@test',
+          start: new Date(2024, 4, 3),
+          end: new Date(2024, 4, 4),
+          allDay: true,
+          summary: 'ランニング',
+          geo: { lat: 35.6812, lon: 139.7671 },
+        },
+        {
+          uid: 'timed@test',
+          start: new Date('2024-05-04T00:00:00Z'),
+          end: new Date('2024-05-04T02:30:00Z'),
+          allDay: false,
+          summary: '釣り',
+          description: '1行目\n2行目',
+        },
+      ],
+      { name: 'テスト', now: new Date('2024-05-01T12:00:00Z') }
+    );
+
+    expect(ics.endsWith('\r\n')).toBe(true);
+    expect(ics.replace(/\r\n/g, '')).not.toContain('\n');
+
+    const lines = ics.split('\r\n');
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(lines).toContain('VERSION:2.0');
+    expect(lines).toContain('X-WR-CALNAME:テスト');
+    expect(lines).toContain('DTSTAMP:20240501T120000Z');
+    expect(lines).toContain('DTSTART;VALUE=DATE:20240503');
+    expect(lines).toContain('DTEND;VALUE=DATE:20240504');
+    expect(lines).toContain('GEO:35.681200;139.767100');
+    expect(lines).toContain('DTSTART:20240504T000000Z');
+    expect(lines).toContain('DTEND:20240504T023000Z');
+    expect(lines).toContain('DESCRIPTION:1行目\\n2行目');
+    expect(lines.filter((line) => line === 'BEGIN:VEVENT')).toHaveLength(2);
+  });
+
+  describe('parseICalendarBusyTimes', () => {
+    const range = { from: new Date(2024, 4, 1), to: new Date(2024, 5, 1) };
+    const calendar = (...lines: string[]): string =>
+      ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n');
+
+    it('should unescape text values', () => {
+      expect(unescapeText('a\\,b\\;c\\\\d\\ne')).toBe('a,b;c\\d\ne');
+    });
+
+    it('should read timed and all-day events with folded lines', () => {
+      const busyTimes = parseICalendarBusyTimes(
+        calendar(
+          'BEGIN:VEVENT',
+          'UID:1',
+          'DTSTART:20240503T000000Z',
+          'DURATION:PT1H30M',
+          'SUMMARY:Team\\, weekly',
+          ' sync',
+          'END:VEVENT',
+          'BEGIN:VEVENT',
+          'UID:2',
+          'DTSTART;VALUE=DATE:20240510',
+          'DTEND;VALUE=DATE:20240512',
+          'SUMMARY:Trip',
+          'BEGIN:VALARM',
+          'TRIGGER:-PT15M',
+          'END:VALARM',
+          'END:VEVENT'
+        ),
+        range
+      );
+
+      expect(busyTimes).toEqual([
+        {
+          start: new Date(Date.UTC(2024, 4, 3, 0, 0)),
+          end: new Date(Date.UTC(2024, 4, 3, 1, 30)),
+          allDay: false,
+          summary: 'Team, weeklysync',
+        },
+        { start: new Date(2024, 4, 10), end: new Date(2024, 4, 12), allDay: true, summary: 'Trip' },
+      ]);
+    });
+
+    it('should skip free, cancelled and out-of-range events', () => {
+      const busyTimes = parseICalendarBusyTimes(
+        calendar(
+          'BEGIN:VEVENT',
+          'DTSTART:20240503T090000',
+          'DTEND:20240503T100000',
+          'TRANSP:TRANSPARENT',
+          'END:VEVENT',
+          'BEGIN:VEVENT',
+          'DTSTART:20240504T090000',
+          'DTEND:20240504T100000',
+          'STATUS:CANCELLED',
+          'END:VEVENT',
+          'BEGIN:VEVENT',
+          'DTSTART:20240703T090000',
+          'DTEND:20240703T100000',
+          'END:VEVENT'
+        ),
+        range
+      );
+
+      expect(busyTimes).toEqual([]);
+    });
+
+    it('should expand weekly recurrences with exceptions', () => {
+      const busyTimes = parseICalendarBusyTimes(
+        calendar(
+          'BEGIN:VEVENT',
+          'UID:weekly',
+          'DTSTART;TZID=Asia/Tokyo:20240506T090000',
+          'DTEND;TZID=Asia/Tokyo:20240506T100000',
+          'RRULE:FREQ=WEEKLY;BYDAY=MO,WE;COUNT=5',
+          'EXDATE;TZID=Asia/Tokyo:20240508T090000',
+          'END:VEVENT',
+          'BEGIN:VEVENT',
+          'UID:weekly',
+          'RECURRENCE-ID;TZID=Asia/Tokyo:20240513T090000',
+          'DTSTART;TZID=Asia/Tokyo:20240513T140000',
+          'DTEND;TZID=Asia/Tokyo:20240513T150000',
+          'END:VEVENT'
+        ),
+        range
+      );
+
+      expect(busyTimes.map((busyTime) => [busyTime.start.getDate(), busyTime.start.getHours()])).toEqual([
+        [6, 9],
+        [13, 14],
+        [15, 9],
+        [20, 9],
+      ]);
+    });
+
+    it('should stop daily recurrences at the end of the range', () => {
+      const busyTimes = parseICalendarBusyTimes(
+        calendar('BEGIN:VEVENT', 'DTSTART:20240530T120000', 'DTEND:20240530T130000', 'RRULE:FREQ=DAILY', 'END:VEVENT'),
+        range
+      );
+
+      expect(busyTimes.map((busyTime) => busyTime.start.getDate())).toEqual([30, 31]);
+    });
+
+    it('should read busy periods from VFREEBUSY', () => {
+      const busyTimes = parseICalendarBusyTimes(
+        calendar(
+          'BEGIN:VFREEBUSY',
+          'FREEBUSY:20240503T000000Z/20240503T020000Z,20240504T000000Z/PT1H',
+          'FREEBUSY;FBTYPE=FREE:20240505T000000Z/20240505T020000Z',
+          'END:VFREEBUSY'
+        ),
+        range
+      );
+
+      expect(busyTimes).toEqual([
+        { start: new Date(Date.UTC(2024, 4, 3, 0)), end: new Date(Date.UTC(2024, 4, 3, 2)), allDay: false },
+        { start: new Date(Date.UTC(2024, 4, 4, 0)), end: new Date(Date.UTC(2024, 4, 4, 1)), allDay: false },
+      ]);
+    });
+
+    it('should read back exported recommendations as free time', () => {
+      const ics = createICalendar([
+        { uid: 'a@test', start: new Date(2024, 4, 3, 9), end: new Date(2024, 4, 3, 12), allDay: false, summary: 'Run' },
+      ]);
+
+      expect(parseICalendarBusyTimes(ics, range)).toEqual([]);
+    });
+
+    it('should reject files that are not iCalendar', () => {
+      expect(() => parseICalendarBusyTimes('hello', range)).toThrow('iCalendar形式のファイルではありません');
+    });
+  });
+});
@@ -0,0 +1,378 @@
+import { t } from './i18n';
+
+// iCalendar（RFC 5545）形式の予定
+export interface CalendarEvent {
+  uid: string; // 同じ予定を取り込み直したときに上書きされるよう固定の値にする
+  start: Date;
+  end: Date;
+  allDay: boolean; // trueの場合は開始日〜終了日の前日までの終日の予定（日付はローカル時刻で扱う）
+  summary: string;
+  description?: string;
+  location?: string;
+  geo?: { lat: number; lon: number };
+}
+
+export interface CalendarOptions {
+  name?: string; // カレンダーアプリに表示するカレンダー名
+  now?: Date; // 作成日時（DTSTAMP）
+}
+
+const PRODUCT_ID = '-//hobby-weather//Recommendations//EN';
+
+// 1行の最大長（改行を除いたオクテット数）
+const MAX_LINE_OCTETS = 75;
+
+// 繰り返しの予定を展開するときの最大の繰り返し数（無限ループ防止）
+const MAX_RECURRENCE_ITERATIONS = 10000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// RRULEのBYDAYの曜日（Date.getDay()の順）
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const pad = (value: number, length = 2): string => String(value).padStart(length, '0');
+
+const formatDate = (date: Date): string =>
+  `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+
+const formatDateTimeUtc = (date: Date): string =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+  `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+// TEXT型の値のエスケープ
+export const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// 75オクテットを超える行を折り返す（UTF-8の文字の途中では切らない）
+export const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const lines: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    // 折り返した行は先頭の空白1文字分短くなる
+    const limit = lines.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      lines.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  lines.push(current);
+
+  return lines.join('\r\n ');
+};
+
+const formatEvent = (event: CalendarEvent, stamp: string): string[] => {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${stamp}`,
+    ...(event.allDay
+      ? [`DTSTART;VALUE=DATE:${formatDate(event.start)}`, `DTEND;VALUE=DATE:${formatDate(event.end)}`]
+      : [`DTSTART:${formatDateTimeUtc(event.start)}`, `DTEND:${formatDateTimeUtc(event.end)}`]),
+    `SUMMARY:${escapeText(event.summary)}`,
+  ];
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.geo) lines.push(`GEO:${event.geo.lat.toFixed(6)};${event.geo.lon.toFixed(6)}`);
+  // 予定の時間を「空き時間」として扱う（おすすめは確定した予定ではないため）
+  lines.push('TRANSP:TRANSPARENT', 'END:VEVENT');
+  return lines;
+};
+
+/**
+ * 予定の一覧からiCalendarファイルの内容を作る
+ * 改行はCRLF、長い行は折り返す
+ */
+export const createICalendar = (events: CalendarEvent[], options: CalendarOptions = {}): string => {
+  const stamp = formatDateTimeUtc(options.now ?? new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...(options.name ? [`X-WR-CALNAME:${escapeText(options.name)}`] : []),
+    ...events.flatMap((event) => formatEvent(event, stamp)),
+    'END:VCALENDAR',
+  ];
+
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+};
+
+// 取り込んだカレンダーで予定が入っている時間
+export interface BusyTime {
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  summary?: string;
+}
+
+// 予定を取り込む期間（繰り返しの予定はこの期間だけ展開する）
+export interface BusyTimeRange {
+  from: Date;
+  to: Date;
+}
+
+interface PropertyLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface Component {
+  name: string;
+  properties: PropertyLine[];
+}
+
+interface RecurrenceRule {
+  freq: string;
+  interval: number;
+  count?: number;
+  until?: Date;
+  byDay: number[]; // 曜日（0=日曜）
+}
+
+// TEXT型の値のエスケープを戻す
+export const unescapeText = (value: string): string =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+// 「名前;パラメーター:値」の1行を分ける（引用符内の「:」は区切りとして扱わない）
+const parsePropertyLine = (line: string): PropertyLine | null => {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [name = '', ...paramParts] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const [key = '', ...value] = part.split('=');
+    params[key.toUpperCase()] = value.join('=').replace(/^"|"$/g, '');
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+// 折り返した行を戻してコンポーネント（VEVENTなど）ごとにまとめる
+const parseComponents = (content: string): Component[] => {
+  const components: Component[] = [];
+  const stack: Component[] = [];
+
+  for (const line of content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/)) {
+    const property = parsePropertyLine(line);
+    if (!property) continue;
+
+    if (property.name === 'BEGIN') {
+      stack.push({ name: property.value.trim().toUpperCase(), properties: [] });
+    } else if (property.name === 'END') {
+      const component = stack.pop();
+      if (component) components.push(component);
+    } else {
+      stack[stack.length - 1]?.properties.push(property);
+    }
+  }
+
+  return components;
+};
+
+const getProperty = (component: Component, name: string): PropertyLine | undefined =>
+  component.properties.find((property) => property.name === name);
+
+// DATE・DATE-TIME型の値を読む（UTC以外の時刻はTZIDに関係なく端末のタイムゾーンの時刻として扱う）
+const parseDateValue = (value: string): { date: Date; allDay: boolean } | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z?))?$/.exec(value.trim());
+  if (!match) return null;
+
+  const [year = 0, month = 1, day = 1, hour = 0, minute = 0, second = 0] = match
+    .slice(1, 7)
+    .map((part) => Number(part ?? 0));
+  if (match[4] === undefined) {
+    return { date: new Date(year, month - 1, day), allDay: true };
+  }
+  const date =
+    match[7] === 'Z'
+      ? new Date(Date.UTC(year, month - 1, day, hour, minute, second))
+      : new Date(year, month - 1, day, hour, minute, second);
+  return { date, allDay: false };
+};
+
+// DURATION型の値をミリ秒にする（例: PT1H30M、P1D）
+const parseDuration = (value: string): number | null => {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [weeks = 0, days = 0, hours = 0, minutes = 0, seconds = 0] = match.slice(2).map((part) => Number(part ?? 0));
+  const milliseconds = ((weeks * 7 + days) * 24 * 3600 + hours * 3600 + minutes * 60 + seconds) * 1000;
+  return match[1] === '-' ? -milliseconds : milliseconds;
+};
+
+const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+const addMonths = (date: Date, months: number): Date => {
+  const result = new Date(date);
+  result.setMonth(result.getMonth() + months);
+  return result;
+};
+
+const parseRecurrenceRule = (value: string): RecurrenceRule | null => {
+  const parts: Record<string, string> = {};
+  for (const part of value.split(';')) {
+    const [key = '', partValue = ''] = part.split('=');
+    parts[key.toUpperCase()] = partValue.toUpperCase();
+  }
+  const freq = parts['FREQ'];
+  if (!freq) return null;
+
+  const until = parts['UNTIL'] ? parseDateValue(parts['UNTIL']) : null;
+  return {
+    freq,
+    interval: Math.max(1, Number(parts['INTERVAL'] ?? 1) || 1),
+    ...(parts['COUNT'] && { count: Number(parts['COUNT']) }),
+    ...(until && { until: until.date }),
+    byDay: (parts['BYDAY'] ?? '')
+      .split(',')
+      .map((day) => WEEKDAY_CODES.indexOf(day.slice(-2)))
+      .filter((day) => day >= 0),
+  };
+};
+
+/**
+ * 繰り返しの予定の開始日時を列挙する
+ * DAILY・WEEKLY（BYDAY）・MONTHLY・YEARLYの単純な繰り返しのみ対応し、
+ * それ以外（BYSETPOSや「第2月曜」など）は最初の1回だけとして扱う
+ */
+const expandOccurrences = (start: Date, rule: RecurrenceRule | null, to: Date): Date[] => {
+  if (!rule) return [start];
+
+  // 月曜始まりで並べた曜日
+  const byDay = [...rule.byDay].sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7));
+  const simpleRule = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(rule.freq) &&
+    (rule.freq === 'WEEKLY' || byDay.length === 0);
+  if (!simpleRule) return [start];
+
+  const occurrences: Date[] = [];
+  for (let i = 0; i < MAX_RECURRENCE_ITERATIONS; i++) {
+    let candidates: Date[];
+    if (rule.freq === 'DAILY') {
+      candidates = [addDays(start, i * rule.interval)];
+    } else if (rule.freq === 'WEEKLY') {
+      const weekStart = addDays(start, i * 7 * rule.interval - ((start.getDay() + 6) % 7));
+      candidates = byDay.length > 0
+        ? byDay.map((day) => addDays(weekStart, (day + 6) % 7)).filter((date) => date >= start)
+        : [addDays(start, i * 7 * rule.interval)];
+    } else {
+      // 31日の予定など、該当する日がない月はとばす
+      const date = addMonths(start, i * rule.interval * (rule.freq === 'YEARLY' ? 12 : 1));
+      candidates = date.getDate() === start.getDate() ? [date] : [];
+    }
+
+    for (const date of candidates) {
+      if (date > to || (rule.until && date > rule.until)) return occurrences;
+      if (rule.count !== undefined && occurrences.length >= rule.count) return occurrences;
+      occurrences.push(date);
+    }
+  }
+  return occurrences;
+};
+
+// VEVENTの予定（空き時間扱いの予定・キャンセルされた予定は除く）
+const parseEventBusyTimes = (events: Component[], range: BusyTimeRange): BusyTime[] => {
+  // 繰り返しの予定のうち個別に変更された回（RECURRENCE-ID）は、変更後の予定だけを使う
+  const overridden = new Map<string, Set<number>>();
+  for (const event of events) {
+    const uid = getProperty(event, 'UID')?.value ?? '';
+    const recurrenceId = getProperty(event, 'RECURRENCE-ID');
+    const date = recurrenceId && parseDateValue(recurrenceId.value);
+    if (date) {
+      overridden.set(uid, (overridden.get(uid) ?? new Set()).add(date.date.getTime()));
+    }
+  }
+
+  return events.flatMap((event) => {
+    if (getProperty(event, 'STATUS')?.value.trim().toUpperCase() === 'CANCELLED') return [];
+    if (getProperty(event, 'TRANSP')?.value.trim().toUpperCase() === 'TRANSPARENT') return [];
+
+    const start = parseDateValue(getProperty(event, 'DTSTART')?.value ?? '');
+    if (!start) return [];
+
+    const end = parseDateValue(getProperty(event, 'DTEND')?.value ?? '');
+    const duration = parseDuration(getProperty(event, 'DURATION')?.value ?? '');
+    const durationMs = end
+      ? end.date.getTime() - start.date.getTime()
+      : duration ?? (start.allDay ? DAY_MS : 0);
+    if (durationMs <= 0) return [];
+
+    const summary = unescapeText(getProperty(event, 'SUMMARY')?.value ?? '').trim();
+    const rrule = getProperty(event, 'RRULE');
+    const rule = rrule && !getProperty(event, 'RECURRENCE-ID') ? parseRecurrenceRule(rrule.value) : null;
+    const excluded = new Set(
+      event.properties
+        .filter((property) => property.name === 'EXDATE')
+        .flatMap((property) => property.value.split(','))
+        .map((value) => parseDateValue(value)?.date.getTime())
+    );
+    const overriddenDates = rule ? overridden.get(getProperty(event, 'UID')?.value ?? '') : undefined;
+
+    return expandOccurrences(start.date, rule, range.to)
+      .filter((date) => !excluded.has(date.getTime()) && !overriddenDates?.has(date.getTime()))
+      .map((date): BusyTime => ({
+        start: date,
+        end: start.allDay ? addDays(date, Math.round(durationMs / DAY_MS)) : new Date(date.getTime() + durationMs),
+        allDay: start.allDay,
+        ...(summary && { summary }),
+      }));
+  });
+};
+
+// VFREEBUSYの予定あり（FBTYPE=FREE以外）の期間
+const parseFreeBusyTimes = (freeBusy: Component[]): BusyTime[] =>
+  freeBusy.flatMap((component) =>
+    component.properties
+      .filter((property) => property.name === 'FREEBUSY' && (property.params['FBTYPE'] ?? 'BUSY').toUpperCase() !== 'FREE')
+      .flatMap((property) => property.value.split(','))
+      .flatMap((period) => {
+        const [startValue = '', endValue = ''] = period.split('/');
+        const start = parseDateValue(startValue);
+        const duration = parseDuration(endValue);
+        const end = duration !== null && start
+          ? new Date(start.date.getTime() + duration)
+          : parseDateValue(endValue)?.date;
+        return start && end && end > start.date ? [{ start: start.date, end, allDay: false }] : [];
+      })
+  );
+
+/**
+ * iCalendarファイルから予定が入っている時間を読み込む
+ * VEVENT（繰り返しの予定を含む）とVFREEBUSYの予定ありの期間のうち、指定した期間と重なるものを返す
+ */
+export const parseICalendarBusyTimes = (content: string, range: BusyTimeRange): BusyTime[] => {
+  const components = parseComponents(content);
+  if (!components.some((component) => component.name === 'VCALENDAR')) {
+    throw new Error(t('availability.error.invalidCalendar'));
+  }
+
+  return [
+    ...parseEventBusyTimes(components.filter((component) => component.name === 'VEVENT'), range),
+    ...parseFreeBusyTimes(components.filter((component) => component.name === 'VFREEBUSY')),
+  ]
+    .filter((busyTime) => busyTime.end > range.from && busyTime.start < range.to)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+};
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { calculateJournalStats, getMonthKey } from './journal';
+import type { ActivityLog, DailyForecast, WeatherType } from '../types';
+
+const createLog = (date: Date, rating: ActivityLog['rating'], weatherType: WeatherType, dayTemperature: number): ActivityLog => {
+  const forecast: DailyForecast = {
+    date,
+    temperature: { min: dayTemperature - 5, max: dayTemperature + 3, morning: dayTemperature - 2, day: dayTemperature, evening: dayTemperature - 1, night: dayTemperature - 4 },
+    feelsLike: { morning: dayTemperature - 2, day: dayTemperature, evening: dayTemperature - 1, night: dayTemperature - 4 },
+    humidity: 60,
+    pressure: 1013,
+    windSpeed: 4,
+    windDirection: 180,
+    weatherType,
+    weatherDescription: weatherType,
+    cloudiness: 20,
+    uvIndex: 4,
+    pop: 0.1
+  };
+
+  return { hobbyId: 1, date, forecast, predictedScore: 70, rating, createdAt: date };
+};
+
+describe('getMonthKey', () => {
+  it('should format the month with zero padding', () => {
+    expect(getMonthKey(new Date(2024, 2, 15))).toBe('2024-03');
+  });
+});
+
+describe('calculateJournalStats', () => {
+  const now = new Date(2024, 5, 20);
+  const logs = [
+    createLog(new Date(2024, 5, 1), 5, 'clear', 24),
+    createLog(new Date(2024, 5, 8), 4, 'clear', 22),
+    createLog(new Date(2024, 4, 12), 2, 'clouds', 16),
+    createLog(new Date(2023, 11, 30), 3, 'rain', 8)
+  ];
+
+  it('should count sessions per month for the recent months', () => {
+    const stats = calculateJournalStats(logs, 3, now);
+
+    expect(stats.sessionsPerMonth).toEqual([
+      { month: '2024-04', count: 0 },
+      { month: '2024-05', count: 1 },
+      { month: '2024-06', count: 2 }
+    ]);
+    expect(stats.totalSessions).toBe(4);
+  });
+
+  it('should summarize ratings and typical conditions', () => {
+    const stats = calculateJournalStats(logs, 6, now);
+
+    expect(stats.averageRating).toBe(3.5);
+    expect(stats.typicalWeather).toBe('clear');
+    expect(stats.bestRatedWeather).toBe('clear');
+    expect(stats.averageTemperature).toBe(17.5);
+    expect(stats.averageWindSpeed).toBe(4);
+    expect(stats.lastActivityDate).toEqual(new Date(2024, 5, 8));
+  });
+
+  it('should return empty stats without logs', () => {
+    const stats = calculateJournalStats([], 6, now);
+
+    expect(stats.totalSessions).toBe(0);
+    expect(stats.averageRating).toBeNull();
+    expect(stats.typicalWeather).toBeNull();
+    expect(stats.lastActivityDate).toBeNull();
+    expect(stats.sessionsPerMonth).toHaveLength(6);
+  });
+});
@@ -0,0 +1,75 @@
+import type { ActivityLog, WeatherType } from '../types';
+
+// 月ごとの活動回数
+export interface MonthlySessionCount {
+  month: string; // YYYY-MM
+  count: number;
+}
+
+// 趣味ごとの活動統計
+export interface HobbyJournalStats {
+  totalSessions: number;
+  averageRating: number | null;
+  sessionsPerMonth: MonthlySessionCount[]; // 古い月から順に並ぶ
+  typicalWeather: WeatherType | null; // 最も多かった天気
+  averageTemperature: number | null; // 日中の平均気温（°C）
+  averageWindSpeed: number | null; // 平均風速（m/s）
+  bestRatedWeather: WeatherType | null; // 平均評価が最も高い天気
+  lastActivityDate: Date | null;
+}
+
+export const getMonthKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+const average = (values: number[]): number | null =>
+  values.length === 0 ? null : values.reduce((sum, value) => sum + value, 0) / values.length;
+
+/**
+ * 活動記録から統計を計算する
+ * @param months 月ごとの回数を集計する期間（直近の月数、活動のない月は0回）
+ */
+export const calculateJournalStats = (
+  logs: ActivityLog[],
+  months: number = 6,
+  now: Date = new Date()
+): HobbyJournalStats => {
+  const monthlyCounts = new Map<string, number>();
+  for (let i = months - 1; i >= 0; i--) {
+    monthlyCounts.set(getMonthKey(new Date(now.getFullYear(), now.getMonth() - i, 1)), 0);
+  }
+
+  const weatherCounts = new Map<WeatherType, number>();
+  const weatherRatings = new Map<WeatherType, number[]>();
+
+  logs.forEach(log => {
+    const key = getMonthKey(log.date);
+    if (monthlyCounts.has(key)) {
+      monthlyCounts.set(key, (monthlyCounts.get(key) ?? 0) + 1);
+    }
+
+    const weatherType = log.forecast.weatherType;
+    weatherCounts.set(weatherType, (weatherCounts.get(weatherType) ?? 0) + 1);
+    weatherRatings.set(weatherType, [...(weatherRatings.get(weatherType) ?? []), log.rating]);
+  });
+
+  const typicalWeather = [...weatherCounts.entries()]
+    .sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+  const bestRatedWeather = [...weatherRatings.entries()]
+    .map(([weatherType, ratings]) => ({ weatherType, rating: average(ratings) ?? 0 }))
+    .sort((a, b) => b.rating - a.rating)[0]?.weatherType ?? null;
+  const lastActivityDate = logs.reduce<Date | null>(
+    (latest, log) => (!latest || log.date > latest ? log.date : latest),
+    null
+  );
+
+  return {
+    totalSessions: logs.length,
+    averageRating: average(logs.map(log => log.rating)),
+    sessionsPerMonth: [...monthlyCounts.entries()].map(([month, count]) => ({ month, count })),
+    typicalWeather,
+    averageTemperature: average(logs.map(log => log.forecast.temperature.day)),
+    averageWindSpeed: average(logs.map(log => log.forecast.windSpeed)),
+    bestRatedWeather,
+    lastActivityDate
+  };
+};
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createRecommendationCalendar,
+  createRecommendedDayEvent,
+  selectTopRecommendedDays,
+} from './recommendation-calendar';
+import { calculateDailySafety } from './weather-safety';
+import type { HobbyRecommendation, RecommendedDay } from '../services/recommendation.service';
+import type { DailyForecast, Hobby, Location } from '../types';
+
+const hobby: Hobby = {
+  id: 1,
+  name: 'ランニング',
+  isActive: true,
+  createdAt: new Date('2024-04-01T00:00:00Z'),
+};
+
+const location: Location = {
+  id: 2,
+  name: '代々木公園',
+  lat: 35.6717,
+  lon: 139.6949,
+  isDefault: true,
+  createdAt: new Date('2024-04-01T00:00:00Z'),
+};
+
+const createForecast = (date: Date): DailyForecast => ({
+  date,
+  temperature: { min: 12, max: 22, morning: 14, day: 21, evening: 18, night: 13 },
+  feelsLike: { morning: 13, day: 21, evening: 17, night: 12 },
+  humidity: 50,
+  pressure: 1015,
+  windSpeed: 3,
+  windDirection: 180,
+  weatherType: 'clear',
+  weatherDescription: '晴れ',
+  cloudiness: 5,
+  uvIndex: 4,
+  pop: 0.1,
+});
+
+const createDay = (dayOfMonth: number, score: number, isPossible = true): RecommendedDay => {
+  const date = new Date(2024, 4, dayOfMonth);
+  return {
+    date,
+    score,
+    confidence: 1,
+    adjustedScore: score,
+    matchingFactors: ['快適な気温'],
+    warningFactors: [],
+    forecast: createForecast(date),
+    isPossible,
+    breakdown: [],
+    safety: calculateDailySafety(createForecast(date)),
+  };
+};
+
+describe('recommendation calendar', () => {
+  it('should pick the best possible days', () => {
+    const recommendation: HobbyRecommendation = {
+      hobby,
+      recommendedDays: [createDay(1, 70), createDay(2, 95, false), createDay(3, 90), createDay(4, 80)],
+      overallScore: 80,
+      bestDayIndex: 2,
+    };
+
+    expect(selectTopRecommendedDays(recommendation, 2).map((day) => day.score)).toEqual([90, 80]);
+  });
+
+  it('should include the score, forecast and coordinates in the event', () => {
+    const event = createRecommendedDayEvent(hobby, createDay(3, 88), location);
+
+    expect(event.uid).toBe('hobby-1-20240503-location-2@hobby-weather');
+    expect(event.allDay).toBe(true);
+    expect(event.summary).toBe('🎯 ランニング（88点）');
+    expect(event.description).toContain('スコア: 88点');
+    expect(event.description).toContain('天気: 晴れ（最高 22°C / 最低 12°C）');
+    expect(event.description).toContain('降水確率: 10%');
+    expect(event.description).toContain('・快適な気温');
+    expect(event.description).toContain('35.6717, 139.6949');
+    expect(event.geo).toEqual({ lat: 35.6717, lon: 139.6949 });
+  });
+
+  it('should use the activity window as the event time', () => {
+    const day = createDay(3, 88);
+    day.activityWindow = {
+      start: new Date('2024-05-03T00:00:00Z'),
+      end: new Date('2024-05-03T02:00:00Z'),
+      score: 85,
+      worstSlot: { ...createForecast(day.date), datetime: day.date, temperature: 15, feelsLike: 15 },
+      worstSlotScore: 80,
+      breakdown: [],
+    };
+
+    const event = createRecommendedDayEvent(hobby, day);
+    expect(event.allDay).toBe(false);
+    expect(event.start.toISOString()).toBe('2024-05-03T00:00:00.000Z');
+    expect(event.geo).toBeUndefined();
+  });
+
+  it('should export the top days of every hobby', () => {
+    const recommendations: HobbyRecommendation[] = [
+      { hobby, recommendedDays: [createDay(1, 70), createDay(2, 90)], overallScore: 80, bestDayIndex: 1 },
+      {
+        hobby: { ...hobby, id: 5, name: '釣り' },
+        recommendedDays: [createDay(1, 60, false)],
+        overallScore: 0,
+        bestDayIndex: 0,
+      },
+    ];
+
+    const ics = createRecommendationCalendar(recommendations, { topN: 1, location });
+    expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(1);
+    expect(ics).toContain('UID:hobby-1-20240502-location-2@hobby-weather');
+  });
+});
@@ -0,0 +1,129 @@
+import type { Hobby, Location } from '../types';
+import type { HobbyRecommendation, RecommendedDay } from '../services/recommendation.service';
+import { createICalendar, type CalendarEvent } from './ical';
+import { formatTemperature, formatWindSpeed } from './units';
+import { getLocale, t } from './i18n';
+
+// 趣味ごとに書き出すおすすめ日の数
+export const DEFAULT_CALENDAR_TOP_N = 3;
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+const getDateKey = (date: Date): string =>
+  `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+
+const formatTime = (date: Date): string =>
+  new Intl.DateTimeFormat(getLocale(), { hour: '2-digit', minute: '2-digit' }).format(date);
+
+// 予定の説明（スコア・天気・活動時間帯・要因・場所）
+const createDescription = (day: RecommendedDay, location?: Location): string => {
+  const { forecast } = day;
+  const lines = [
+    t('calendar.event.score', { score: t('common.points', { score: Math.round(day.score) }) }),
+    t('calendar.event.weather', {
+      description: forecast.weatherDescription,
+      max: formatTemperature(forecast.temperature.max),
+      min: formatTemperature(forecast.temperature.min),
+    }),
+    t('calendar.event.conditions', {
+      pop: Math.round(forecast.pop * 100),
+      wind: formatWindSpeed(forecast.windSpeed),
+    }),
+  ];
+
+  if (day.activityWindow) {
+    lines.push(
+      t('calendar.event.activityWindow', {
+        start: formatTime(day.activityWindow.start),
+        end: formatTime(day.activityWindow.end),
+      })
+    );
+  }
+  if (day.matchingFactors.length > 0) {
+    lines.push('', t('recommendationCard.matching'), ...day.matchingFactors.map((factor) => `・${factor}`));
+  }
+  if (day.warningFactors.length > 0) {
+    lines.push('', t('recommendationCard.warnings'), ...day.warningFactors.map((factor) => `・${factor}`));
+  }
+  if (location) {
+    lines.push(
+      '',
+      t('calendar.event.location', {
+        name: location.name,
+        lat: location.lat.toFixed(4),
+        lon: location.lon.toFixed(4),
+      })
+    );
+  }
+
+  return lines.join('\n');
+};
+
+/**
+ * おすすめ日を予定にする
+ * 活動時間帯がある場合はその時間の予定、ない場合は終日の予定にする
+ */
+export const createRecommendedDayEvent = (
+  hobby: Hobby,
+  day: RecommendedDay,
+  location?: Location
+): CalendarEvent => {
+  const dayStart = new Date(day.date.getFullYear(), day.date.getMonth(), day.date.getDate());
+  const nextDay = new Date(dayStart.getFullYear(), dayStart.getMonth(), dayStart.getDate() + 1);
+  const uidParts = [
+    `hobby-${hobby.id ?? encodeURIComponent(hobby.name)}`,
+    getDateKey(dayStart),
+    ...(location?.id !== undefined ? [`location-${location.id}`] : []),
+  ];
+
+  return {
+    uid: `${uidParts.join('-')}@hobby-weather`,
+    start: day.activityWindow?.start ?? dayStart,
+    end: day.activityWindow?.end ?? nextDay,
+    allDay: !day.activityWindow,
+    summary: t('calendar.event.summary', {
+      hobby: hobby.name,
+      score: t('common.points', { score: Math.round(day.score) }),
+    }),
+    description: createDescription(day, location),
+    ...(location && {
+      location: location.address ?? location.name,
+      geo: { lat: location.lat, lon: location.lon },
+    }),
+  };
+};
+
+// 実施可能な日をスコアの高い順にtopN件選ぶ
+export const selectTopRecommendedDays = (
+  recommendation: HobbyRecommendation,
+  topN: number = DEFAULT_CALENDAR_TOP_N
+): RecommendedDay[] =>
+  recommendation.recommendedDays
+    .filter((day) => day.isPossible)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topN);
+
+// 1日分のおすすめをiCalendarにする
+export const createRecommendedDayCalendar = (
+  hobby: Hobby,
+  day: RecommendedDay,
+  location?: Location
+): string => createICalendar([createRecommendedDayEvent(hobby, day, location)]);
+
+// 趣味ごとの上位のおすすめ日をまとめてiCalendarにする
+export const createRecommendationCalendar = (
+  recommendations: HobbyRecommendation[],
+  options: { topN?: number; location?: Location | undefined } = {}
+): string => {
+  const events = recommendations.flatMap((recommendation) =>
+    selectTopRecommendedDays(recommendation, options.topN).map((day) =>
+      createRecommendedDayEvent(recommendation.hobby, day, options.location)
+    )
+  );
+  return createICalendar(events, { name: t('calendar.name') });
+};
+
+export const getCalendarFileName = (hobby?: Hobby, date?: Date): string =>
+  hobby && date
+    ? `${hobby.name}-${getDateKey(date)}.ics`
+    : `hobby-weather-recommendations-${getDateKey(new Date())}.ics`;
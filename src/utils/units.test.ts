@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import {
+  convertTemperature,
+  toCelsius,
+  convertWindSpeed,
+  toMetersPerSecond,
+  formatTemperature,
+  formatTemperatureDifference,
+  formatWindSpeed,
+  DEFAULT_UNIT_PREFERENCES,
+} from './units';
+import type { UnitPreferences } from '../types/units';
+
+const imperial: UnitPreferences = { temperatureUnit: 'fahrenheit', windSpeedUnit: 'mph' };
+
+describe('unit utilities', () => {
+  it('should convert temperatures both ways', () => {
+    expect(convertTemperature(25, 'fahrenheit')).toBe(77);
+    expect(convertTemperature(25, 'celsius')).toBe(25);
+    expect(toCelsius(77, 'fahrenheit')).toBe(25);
+    expect(toCelsius(convertTemperature(-3.5, 'fahrenheit'), 'fahrenheit')).toBeCloseTo(-3.5);
+  });
+
+  it('should convert wind speeds both ways', () => {
+    expect(convertWindSpeed(10, 'kmh')).toBe(36);
+    expect(convertWindSpeed(10, 'mph')).toBeCloseTo(22.37, 2);
+    expect(toMetersPerSecond(36, 'kmh')).toBe(10);
+  });
+
+  it('should format values in the default units', () => {
+    expect(formatTemperature(26.6, DEFAULT_UNIT_PREFERENCES)).toBe('27°C');
+    expect(formatTemperature(20, DEFAULT_UNIT_PREFERENCES, 1)).toBe('20°C');
+    expect(formatWindSpeed(3.5, DEFAULT_UNIT_PREFERENCES)).toBe('3.5 m/s');
+    expect(formatWindSpeed(8, DEFAULT_UNIT_PREFERENCES)).toBe('8 m/s');
+  });
+
+  it('should format values in the selected units', () => {
+    expect(formatTemperature(25, imperial)).toBe('77°F');
+    expect(formatTemperatureDifference(5, imperial)).toBe('9°F');
+    expect(formatWindSpeed(10, imperial)).toBe('22.4 mph');
+    expect(formatWindSpeed(10, { ...imperial, windSpeedUnit: 'kmh' }, 0)).toBe('36 km/h');
+  });
+});
@@ -0,0 +1,87 @@
+import type { TemperatureUnit, UnitPreferences, WindSpeedUnit } from '../types/units';
+import type { MessageKey } from '../types/i18n';
+
+export const DEFAULT_UNIT_PREFERENCES: UnitPreferences = {
+  temperatureUnit: 'celsius',
+  windSpeedUnit: 'ms',
+};
+
+export const TEMPERATURE_UNIT_OPTIONS: Array<{ value: TemperatureUnit; labelKey: MessageKey }> = [
+  { value: 'celsius', labelKey: 'units.celsius' },
+  { value: 'fahrenheit', labelKey: 'units.fahrenheit' },
+];
+
+export const WIND_SPEED_UNIT_OPTIONS: Array<{ value: WindSpeedUnit; labelKey: MessageKey }> = [
+  { value: 'ms', labelKey: 'units.ms' },
+  { value: 'kmh', labelKey: 'units.kmh' },
+  { value: 'mph', labelKey: 'units.mph' },
+];
+
+// m/sからの換算係数
+const WIND_SPEED_FACTORS: Record<WindSpeedUnit, number> = {
+  ms: 1,
+  kmh: 3.6,
+  mph: 2.236936,
+};
+
+const WIND_SPEED_SYMBOLS: Record<WindSpeedUnit, string> = {
+  ms: 'm/s',
+  kmh: 'km/h',
+  mph: 'mph',
+};
+
+// 通知やおすすめ理由の文言を組み立てるサービスが参照する単位
+// （画面の単位設定と同期する。UnitsProviderが更新する）
+let activeUnitPreferences: UnitPreferences = DEFAULT_UNIT_PREFERENCES;
+
+export const getActiveUnitPreferences = (): UnitPreferences => activeUnitPreferences;
+
+export const setActiveUnitPreferences = (units: UnitPreferences): void => {
+  activeUnitPreferences = units;
+};
+
+export const convertTemperature = (celsius: number, unit: TemperatureUnit): number =>
+  unit === 'fahrenheit' ? celsius * 9 / 5 + 32 : celsius;
+
+export const toCelsius = (value: number, unit: TemperatureUnit): number =>
+  unit === 'fahrenheit' ? (value - 32) * 5 / 9 : value;
+
+// 気温差の換算（オフセットは含めない）
+export const convertTemperatureDifference = (celsius: number, unit: TemperatureUnit): number =>
+  unit === 'fahrenheit' ? celsius * 9 / 5 : celsius;
+
+export const convertWindSpeed = (metersPerSecond: number, unit: WindSpeedUnit): number =>
+  metersPerSecond * WIND_SPEED_FACTORS[unit];
+
+export const toMetersPerSecond = (value: number, unit: WindSpeedUnit): number =>
+  value / WIND_SPEED_FACTORS[unit];
+
+export const getTemperatureSymbol = (unit: TemperatureUnit): string =>
+  unit === 'fahrenheit' ? '°F' : '°C';
+
+export const getWindSpeedSymbol = (unit: WindSpeedUnit): string => WIND_SPEED_SYMBOLS[unit];
+
+// 指定桁で丸めた数値（末尾の0は表示しない）
+const formatNumber = (value: number, digits: number): string =>
+  String(Number(value.toFixed(digits)));
+
+export const formatTemperature = (
+  celsius: number,
+  units: UnitPreferences = activeUnitPreferences,
+  digits = 0
+): string =>
+  `${formatNumber(convertTemperature(celsius, units.temperatureUnit), digits)}${getTemperatureSymbol(units.temperatureUnit)}`;
+
+export const formatTemperatureDifference = (
+  celsius: number,
+  units: UnitPreferences = activeUnitPreferences,
+  digits = 0
+): string =>
+  `${formatNumber(convertTemperatureDifference(celsius, units.temperatureUnit), digits)}${getTemperatureSymbol(units.temperatureUnit)}`;
+
+export const formatWindSpeed = (
+  metersPerSecond: number,
+  units: UnitPreferences = activeUnitPreferences,
+  digits = 1
+): string =>
+  `${formatNumber(convertWindSpeed(metersPerSecond, units.windSpeedUnit), digits)} ${getWindSpeedSymbol(units.windSpeedUnit)}`;
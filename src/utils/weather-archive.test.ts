@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createArchiveEntryFromForecast,
+  createArchiveEntryFromObservation,
+  mergeArchiveEntry
+} from './weather-archive';
+import type { DailyForecast, WeatherArchiveEntry } from '../types';
+
+const now = new Date(2024, 5, 1, 15);
+
+const forecast = {
+  date: new Date(2024, 5, 1, 12),
+  temperature: { min: 18, max: 26, morning: 19, day: 24, evening: 22, night: 19 },
+  humidity: 60,
+  windSpeed: 3,
+  weatherType: 'clouds',
+  pop: 0.2
+} as DailyForecast;
+
+const observation = {
+  datetime: new Date(2024, 5, 1, 15),
+  temperature: 28,
+  humidity: 70,
+  windSpeed: 5,
+  weatherType: 'clear' as const
+};
+
+describe('createArchiveEntryFromForecast', () => {
+  it('should round coordinates and use the start of the day', () => {
+    const entry = createArchiveEntryFromForecast(35.6762, 139.6503, forecast, now);
+
+    expect(entry).toMatchObject({
+      lat: 35.68,
+      lon: 139.65,
+      date: new Date(2024, 5, 1),
+      temperatureMin: 18,
+      temperatureMax: 26,
+      temperatureDay: 24,
+      source: 'forecast'
+    });
+  });
+});
+
+describe('mergeArchiveEntry', () => {
+  const existing: WeatherArchiveEntry = { id: 1, ...createArchiveEntryFromForecast(35.68, 139.65, forecast, now) };
+
+  it('should replace an older forecast with a newer one', () => {
+    const newer = createArchiveEntryFromForecast(35.68, 139.65, { ...forecast, pop: 0.6 }, now);
+
+    expect(mergeArchiveEntry(existing, newer).pop).toBe(0.6);
+  });
+
+  it('should widen the temperature range with observations', () => {
+    const merged = mergeArchiveEntry(existing, createArchiveEntryFromObservation(35.68, 139.65, observation, now));
+
+    expect(merged).toMatchObject({ temperatureMin: 18, temperatureMax: 28, weatherType: 'clouds', pop: 0.2, source: 'observed' });
+  });
+
+  it('should record observed rain as a rain day', () => {
+    const rain = createArchiveEntryFromObservation(35.68, 139.65, { ...observation, weatherType: 'rain' }, now);
+
+    expect(mergeArchiveEntry(existing, rain)).toMatchObject({ weatherType: 'rain', pop: 1 });
+  });
+
+  it('should keep observed values over a later forecast', () => {
+    const observed = { ...existing, source: 'observed' as const, temperatureMax: 30 };
+
+    expect(mergeArchiveEntry(observed, createArchiveEntryFromForecast(35.68, 139.65, forecast, now))).toBe(observed);
+  });
+});
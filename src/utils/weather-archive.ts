@@ -0,0 +1,83 @@
+import type { DailyForecast, WeatherArchiveEntry, WeatherData, WeatherType } from '../types';
+
+// 降水がある天気（観測した場合はその日を雨の日として記録する）
+export const PRECIPITATION_WEATHER_TYPES: readonly WeatherType[] = ['rain', 'drizzle', 'thunderstorm', 'snow'];
+
+export type WeatherArchiveInput = Omit<WeatherArchiveEntry, 'id'>;
+
+// 近い地点の記録をまとめるため、座標を小数点以下2桁（約1km）に丸める
+export const roundArchiveCoordinate = (value: number): number => Math.round(value * 100) / 100;
+
+export const getArchiveDate = (date: Date): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// 取得した予報の最初の日を記録にする
+export const createArchiveEntryFromForecast = (
+  lat: number,
+  lon: number,
+  forecast: DailyForecast,
+  now = new Date()
+): WeatherArchiveInput => ({
+  lat: roundArchiveCoordinate(lat),
+  lon: roundArchiveCoordinate(lon),
+  date: getArchiveDate(forecast.date),
+  temperatureMin: forecast.temperature.min,
+  temperatureMax: forecast.temperature.max,
+  temperatureDay: forecast.temperature.day,
+  humidity: forecast.humidity,
+  windSpeed: forecast.windSpeed,
+  pop: forecast.pop,
+  weatherType: forecast.weatherType,
+  source: 'forecast',
+  updatedAt: now
+});
+
+// 現在の天気（観測値）を記録にする
+export const createArchiveEntryFromObservation = (
+  lat: number,
+  lon: number,
+  weather: Pick<WeatherData, 'datetime' | 'temperature' | 'humidity' | 'windSpeed' | 'weatherType'>,
+  now = new Date()
+): WeatherArchiveInput => ({
+  lat: roundArchiveCoordinate(lat),
+  lon: roundArchiveCoordinate(lon),
+  date: getArchiveDate(weather.datetime),
+  temperatureMin: weather.temperature,
+  temperatureMax: weather.temperature,
+  temperatureDay: weather.temperature,
+  humidity: weather.humidity,
+  windSpeed: weather.windSpeed,
+  pop: PRECIPITATION_WEATHER_TYPES.includes(weather.weatherType) ? 1 : 0,
+  weatherType: weather.weatherType,
+  source: 'observed',
+  updatedAt: now
+});
+
+/**
+ * 同じ日の記録をまとめる
+ *
+ * - 予報どうしは新しい予報で置き換える
+ * - 観測値を含む記録は、あとから取得した予報では置き換えない
+ * - 観測値は最低・最高気温の範囲を広げ、降水を観測した場合は雨の日として残す
+ */
+export const mergeArchiveEntry = (
+  existing: WeatherArchiveEntry | undefined,
+  incoming: WeatherArchiveInput
+): WeatherArchiveInput => {
+  if (!existing) return incoming;
+
+  if (incoming.source === 'forecast') {
+    return existing.source === 'observed' ? existing : incoming;
+  }
+
+  const hasPrecipitation = PRECIPITATION_WEATHER_TYPES.includes(incoming.weatherType);
+  return {
+    ...existing,
+    temperatureMin: Math.min(existing.temperatureMin, incoming.temperatureMin),
+    temperatureMax: Math.max(existing.temperatureMax, incoming.temperatureMax),
+    weatherType: hasPrecipitation ? incoming.weatherType : existing.weatherType,
+    pop: hasPrecipitation ? 1 : existing.pop,
+    source: 'observed',
+    updatedAt: incoming.updatedAt
+  };
+};
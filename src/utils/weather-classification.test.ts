@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import {
+  classifyOpenWeatherMapCondition,
+  findPreferredWeather,
+  getStrongestIntensity,
+  isWithinIntensity
+} from './weather-classification';
+import type { WeatherCondition } from '../types';
+
+describe('classifyOpenWeatherMapCondition', () => {
+  it('should classify rain by intensity', () => {
+    expect(classifyOpenWeatherMapCondition(500)).toEqual({ type: 'rain', detail: 'rain', intensity: 'light' });
+    expect(classifyOpenWeatherMapCondition(502)).toEqual({ type: 'rain', detail: 'rain', intensity: 'heavy' });
+    expect(classifyOpenWeatherMapCondition(521)).toEqual({ type: 'rain', detail: 'showerRain', intensity: 'moderate' });
+  });
+
+  it('should keep the weather type buckets for extended details', () => {
+    // スコールは雷雨、煙はもや、曇りは雲に含める
+    expect(classifyOpenWeatherMapCondition(771)).toMatchObject({ type: 'thunderstorm', detail: 'squall' });
+    expect(classifyOpenWeatherMapCondition(711)).toEqual({ type: 'haze', detail: 'smoke' });
+    expect(classifyOpenWeatherMapCondition(804)).toEqual({ type: 'clouds', detail: 'overcast' });
+    expect(classifyOpenWeatherMapCondition(611)).toMatchObject({ type: 'snow', detail: 'sleet' });
+  });
+
+  it('should fall back to the group for unknown IDs', () => {
+    expect(classifyOpenWeatherMapCondition(599)).toEqual({ type: 'rain', detail: 'rain' });
+    expect(classifyOpenWeatherMapCondition(999)).toEqual({ type: 'clear', detail: 'clear' });
+  });
+});
+
+describe('isWithinIntensity', () => {
+  it('should compare against the limit', () => {
+    expect(isWithinIntensity('light', 'light')).toBe(true);
+    expect(isWithinIntensity('light', 'moderate')).toBe(false);
+    expect(isWithinIntensity('heavy', 'heavy')).toBe(true);
+    expect(isWithinIntensity(undefined, 'heavy')).toBe(true);
+  });
+
+  it('should treat an unknown intensity as moderate', () => {
+    expect(isWithinIntensity('light', undefined)).toBe(false);
+    expect(isWithinIntensity('moderate', undefined)).toBe(true);
+  });
+});
+
+describe('findPreferredWeather', () => {
+  const heavyRain: WeatherCondition = { condition: 'rain', weight: 3, intensity: 'heavy' };
+  const lightRain: WeatherCondition = { condition: 'rain', weight: 8, intensity: 'light' };
+  const anyRain: WeatherCondition = { condition: 'rain', weight: 1 };
+
+  it('should prefer the tightest intensity whatever the order', () => {
+    expect(findPreferredWeather([anyRain, heavyRain, lightRain], 'rain', 'light')).toBe(lightRain);
+    expect(findPreferredWeather([lightRain, heavyRain, anyRain], 'rain', 'light')).toBe(lightRain);
+    expect(findPreferredWeather([heavyRain, lightRain], 'rain', 'moderate')).toBe(heavyRain);
+  });
+
+  it('should fall back to a condition without intensity', () => {
+    expect(findPreferredWeather([lightRain, anyRain], 'rain', 'heavy')).toBe(anyRain);
+    expect(findPreferredWeather([lightRain], 'clear', undefined)).toBeUndefined();
+  });
+});
+
+describe('getStrongestIntensity', () => {
+  it('should pick the strongest known intensity', () => {
+    expect(getStrongestIntensity(['light', undefined, 'heavy', 'moderate'])).toBe('heavy');
+    expect(getStrongestIntensity([undefined, undefined])).toBeUndefined();
+  });
+});
@@ -0,0 +1,185 @@
+import type { WeatherCondition, WeatherDetail, WeatherIntensity, WeatherType } from '../types';
+
+// 天気の分類（細かい分類・強さ）
+export interface WeatherClassification {
+  type: WeatherType;
+  detail: WeatherDetail;
+  intensity?: WeatherIntensity;
+}
+
+// 天気タイプ（細かい分類をまとめた、好みの天気などで使う分類）
+export const WEATHER_TYPES: WeatherType[] = [
+  'clear',
+  'clouds',
+  'rain',
+  'drizzle',
+  'thunderstorm',
+  'snow',
+  'mist',
+  'fog',
+  'haze',
+  'dust'
+];
+
+// 弱い順の強さ
+export const WEATHER_INTENSITIES: WeatherIntensity[] = ['light', 'moderate', 'heavy'];
+
+// 強さを指定できる天気タイプ
+export const INTENSITY_WEATHER_TYPES: WeatherType[] = ['rain', 'drizzle', 'snow', 'thunderstorm'];
+
+/**
+ * 細かい分類と天気タイプの対応
+ * スコール・竜巻は対応する天気タイプがないため、荒天として雷雨に含める
+ */
+const WEATHER_TYPE_BY_DETAIL: Record<WeatherDetail, WeatherType> = {
+  clear: 'clear',
+  fewClouds: 'clouds',
+  scatteredClouds: 'clouds',
+  brokenClouds: 'clouds',
+  overcast: 'clouds',
+  drizzle: 'drizzle',
+  freezingDrizzle: 'drizzle',
+  rain: 'rain',
+  freezingRain: 'rain',
+  showerRain: 'rain',
+  thunderstorm: 'thunderstorm',
+  snow: 'snow',
+  sleet: 'snow',
+  showerSnow: 'snow',
+  mist: 'mist',
+  smoke: 'haze',
+  haze: 'haze',
+  dust: 'dust',
+  sand: 'dust',
+  ash: 'dust',
+  fog: 'fog',
+  squall: 'thunderstorm',
+  tornado: 'thunderstorm'
+};
+
+/**
+ * OpenWeatherMapの天気ID（weather.id）と細かい分類・強さの対応表
+ * https://openweathermap.org/weather-conditions に準拠
+ */
+const OPEN_WEATHER_MAP_CONDITIONS: Record<number, { detail: WeatherDetail; intensity?: WeatherIntensity }> = {
+  // 雷雨（2xx）
+  200: { detail: 'thunderstorm', intensity: 'light' },
+  201: { detail: 'thunderstorm', intensity: 'moderate' },
+  202: { detail: 'thunderstorm', intensity: 'heavy' },
+  210: { detail: 'thunderstorm', intensity: 'light' },
+  211: { detail: 'thunderstorm', intensity: 'moderate' },
+  212: { detail: 'thunderstorm', intensity: 'heavy' },
+  221: { detail: 'thunderstorm', intensity: 'heavy' },
+  230: { detail: 'thunderstorm', intensity: 'light' },
+  231: { detail: 'thunderstorm', intensity: 'moderate' },
+  232: { detail: 'thunderstorm', intensity: 'heavy' },
+  // 霧雨（3xx）
+  300: { detail: 'drizzle', intensity: 'light' },
+  301: { detail: 'drizzle', intensity: 'moderate' },
+  302: { detail: 'drizzle', intensity: 'heavy' },
+  310: { detail: 'drizzle', intensity: 'light' },
+  311: { detail: 'drizzle', intensity: 'moderate' },
+  312: { detail: 'drizzle', intensity: 'heavy' },
+  313: { detail: 'drizzle', intensity: 'moderate' },
+  314: { detail: 'drizzle', intensity: 'heavy' },
+  321: { detail: 'drizzle', intensity: 'moderate' },
+  // 雨（5xx）
+  500: { detail: 'rain', intensity: 'light' },
+  501: { detail: 'rain', intensity: 'moderate' },
+  502: { detail: 'rain', intensity: 'heavy' },
+  503: { detail: 'rain', intensity: 'heavy' },
+  504: { detail: 'rain', intensity: 'heavy' },
+  511: { detail: 'freezingRain', intensity: 'moderate' },
+  520: { detail: 'showerRain', intensity: 'light' },
+  521: { detail: 'showerRain', intensity: 'moderate' },
+  522: { detail: 'showerRain', intensity: 'heavy' },
+  531: { detail: 'showerRain', intensity: 'moderate' },
+  // 雪（6xx）
+  600: { detail: 'snow', intensity: 'light' },
+  601: { detail: 'snow', intensity: 'moderate' },
+  602: { detail: 'snow', intensity: 'heavy' },
+  611: { detail: 'sleet', intensity: 'moderate' },
+  612: { detail: 'sleet', intensity: 'light' },
+  613: { detail: 'sleet', intensity: 'moderate' },
+  615: { detail: 'sleet', intensity: 'light' },
+  616: { detail: 'sleet', intensity: 'moderate' },
+  620: { detail: 'showerSnow', intensity: 'light' },
+  621: { detail: 'showerSnow', intensity: 'moderate' },
+  622: { detail: 'showerSnow', intensity: 'heavy' },
+  // 大気（7xx）
+  701: { detail: 'mist' },
+  711: { detail: 'smoke' },
+  721: { detail: 'haze' },
+  731: { detail: 'dust' },
+  741: { detail: 'fog' },
+  751: { detail: 'sand' },
+  761: { detail: 'dust' },
+  762: { detail: 'ash' },
+  771: { detail: 'squall', intensity: 'heavy' },
+  781: { detail: 'tornado', intensity: 'heavy' },
+  // 晴れ・雲（800番台）
+  800: { detail: 'clear' },
+  801: { detail: 'fewClouds' },
+  802: { detail: 'scatteredClouds' },
+  803: { detail: 'brokenClouds' },
+  804: { detail: 'overcast' }
+};
+
+// 対応表にない天気IDは百の位のグループで分類する
+const DETAIL_BY_GROUP: Record<number, WeatherDetail> = {
+  2: 'thunderstorm',
+  3: 'drizzle',
+  5: 'rain',
+  6: 'snow',
+  7: 'mist',
+  8: 'clear'
+};
+
+export const getWeatherTypeForDetail = (detail: WeatherDetail): WeatherType => WEATHER_TYPE_BY_DETAIL[detail];
+
+/**
+ * OpenWeatherMapの天気IDから天気を分類する
+ * 未知のIDはグループの代表的な分類とし、グループも不明な場合は晴れとする
+ */
+export const classifyOpenWeatherMapCondition = (id: number): WeatherClassification => {
+  const entry = OPEN_WEATHER_MAP_CONDITIONS[id] ?? { detail: DETAIL_BY_GROUP[Math.floor(id / 100)] ?? 'clear' };
+  return {
+    type: getWeatherTypeForDetail(entry.detail),
+    detail: entry.detail,
+    ...(entry.intensity && { intensity: entry.intensity })
+  };
+};
+
+/**
+ * 実際の強さが上限以内か（上限なしは常に以内）
+ * 強さが不明な予報は「並」として扱う
+ */
+export const isWithinIntensity = (limit: WeatherIntensity | undefined, actual: WeatherIntensity | undefined): boolean =>
+  limit === undefined || WEATHER_INTENSITIES.indexOf(actual ?? 'moderate') <= WEATHER_INTENSITIES.indexOf(limit);
+
+/**
+ * 予報の天気に当てはまる好みの天気
+ * 強さを指定した条件は予報の強さがその強さまでの場合のみ当てはまり、強さを指定しない条件より優先する
+ * 強さを指定した条件が複数当てはまる場合は、最も弱い強さまでの（範囲の狭い）条件を使う
+ */
+export const findPreferredWeather = (
+  preferredWeather: WeatherCondition[],
+  weatherType: WeatherType,
+  intensity: WeatherIntensity | undefined
+): WeatherCondition | undefined => {
+  const matches = preferredWeather.filter(w => w.condition === weatherType && isWithinIntensity(w.intensity, intensity));
+  const intensityRank = (w: WeatherCondition) => WEATHER_INTENSITIES.indexOf(w.intensity ?? 'heavy');
+  const [tightest] = matches
+    .filter(w => w.intensity !== undefined)
+    .sort((a, b) => intensityRank(a) - intensityRank(b));
+  return tightest ?? matches[0];
+};
+
+// 最も強い強さ（強さのある予報がない場合はundefined）
+export const getStrongestIntensity = (intensities: Array<WeatherIntensity | undefined>): WeatherIntensity | undefined =>
+  intensities.reduce<WeatherIntensity | undefined>((strongest, intensity) =>
+    intensity !== undefined && (strongest === undefined ||
+      WEATHER_INTENSITIES.indexOf(intensity) > WEATHER_INTENSITIES.indexOf(strongest))
+      ? intensity
+      : strongest,
+  undefined);
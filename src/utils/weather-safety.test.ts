@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateDailySafety,
+  calculateDiscomfortIndex,
+  calculateHeatIndex,
+  calculateWindChill,
+  estimateSolarRadiation,
+  estimateWbgt,
+  getColdStressLevel,
+  getWbgtLevel,
+  getWorstSafety
+} from './weather-safety';
+import type { DailyForecast } from '../types';
+
+const createForecast = (overrides: Partial<DailyForecast> = {}): DailyForecast => ({
+  date: new Date(2024, 7, 1),
+  temperature: { min: 26, max: 35, morning: 28, day: 34, evening: 30, night: 27 },
+  feelsLike: { morning: 30, day: 38, evening: 32, night: 28 },
+  humidity: 60,
+  pressure: 1008,
+  windSpeed: 1,
+  windDirection: 180,
+  weatherType: 'clear',
+  weatherDescription: '晴れ',
+  cloudiness: 10,
+  pop: 0,
+  uvIndex: 10,
+  ...overrides
+});
+
+describe('estimateWbgt', () => {
+  it('should estimate WBGT from temperature, humidity, sun and wind', () => {
+    // 真夏の晴れた日中は「危険」、日射がなければ下がる
+    expect(estimateWbgt(35, 60, 1, 1)).toBeCloseTo(33.0, 0);
+    expect(estimateWbgt(35, 60, 1, 0)).toBeLessThan(estimateWbgt(35, 60, 1, 1));
+    expect(estimateWbgt(35, 60, 5, 1)).toBeLessThan(estimateWbgt(35, 60, 1, 1));
+  });
+
+  it('should map WBGT to the heatstroke bands', () => {
+    expect(getWbgtLevel(20.9)).toBe('safe');
+    expect(getWbgtLevel(21)).toBe('caution');
+    expect(getWbgtLevel(25)).toBe('warning');
+    expect(getWbgtLevel(28)).toBe('severeWarning');
+    expect(getWbgtLevel(31)).toBe('danger');
+  });
+});
+
+describe('estimateSolarRadiation', () => {
+  it('should use the UV index when provided', () => {
+    expect(estimateSolarRadiation(10, 10, 78)).toBe(1);
+  });
+
+  it('should estimate from the sun and clouds when the UV index is missing', () => {
+    // 太陽高度78°の晴天でおよそ1kW/m²、厚い雲で大きく減る
+    expect(estimateSolarRadiation(0, 10, 78)).toBeCloseTo(1, 1);
+    expect(estimateSolarRadiation(0, 100, 78)).toBeLessThan(0.3);
+    expect(estimateSolarRadiation(0, 10, 20)).toBeLessThan(estimateSolarRadiation(0, 10, 78));
+    expect(estimateSolarRadiation(0, 0, -5)).toBe(0);
+    expect(estimateSolarRadiation(0, 0)).toBe(0);
+  });
+});
+
+describe('calculateHeatIndex', () => {
+  it('should match the heat index table in hot and humid weather', () => {
+    // 32℃・湿度70%で約40.5℃
+    expect(calculateHeatIndex(32, 70)).toBeCloseTo(40.5, 0);
+  });
+
+  it('should return the temperature when it is not hot', () => {
+    expect(calculateHeatIndex(20, 90)).toBe(20);
+  });
+});
+
+describe('calculateWindChill', () => {
+  it('should match the wind chill table', () => {
+    // -10℃・風速20km/hで約-18℃
+    expect(calculateWindChill(-10, 20 / 3.6)).toBeCloseTo(-18, 0);
+    expect(getColdStressLevel(-18)).toBe('caution');
+    expect(getColdStressLevel(-30)).toBe('warning');
+    expect(getColdStressLevel(-45)).toBe('danger');
+  });
+
+  it('should return the temperature when it is warm or calm', () => {
+    expect(calculateWindChill(15, 10)).toBe(15);
+    expect(calculateWindChill(-5, 0.5)).toBe(-5);
+  });
+});
+
+describe('calculateDiscomfortIndex', () => {
+  it('should calculate the discomfort index', () => {
+    expect(calculateDiscomfortIndex(30, 70)).toBeCloseTo(81.4, 1);
+  });
+});
+
+describe('calculateDailySafety', () => {
+  it('should use the maximum temperature and UV index when the day is included', () => {
+    const safety = calculateDailySafety(createForecast());
+
+    expect(safety.wbgt).toBe(estimateWbgt(35, 60, 1, 1));
+    expect(safety.wbgtLevel).toBe('danger');
+    expect(safety.coldStressLevel).toBe('none');
+  });
+
+  it('should estimate the sun when the provider has no UV index', () => {
+    // OpenWeatherMapの予報はUV指数が常に0
+    const safety = calculateDailySafety(createForecast({ uvIndex: 0, sunAltitude: 78 }));
+    const shade = calculateDailySafety(createForecast({ uvIndex: 0 }));
+
+    expect(safety.wbgtLevel).toBe('danger');
+    expect(safety.wbgt).toBeGreaterThan(shade.wbgt + 2);
+  });
+
+  it('should ignore the midday sun for morning and evening activities', () => {
+    const safety = calculateDailySafety(createForecast(), ['morning', 'evening']);
+
+    expect(safety.wbgt).toBe(estimateWbgt(30, 60, 1, 0));
+    expect(safety.windChill).toBe(28);
+  });
+});
+
+describe('getWorstSafety', () => {
+  it('should take the hottest and coldest values', () => {
+    const hot = calculateDailySafety(createForecast());
+    const cold = calculateDailySafety(createForecast({
+      temperature: { min: -15, max: -5, morning: -12, day: -6, evening: -10, night: -14 },
+      windSpeed: 8,
+      uvIndex: 1
+    }));
+    const worst = getWorstSafety([hot, cold]);
+
+    expect(worst?.wbgtLevel).toBe('danger');
+    expect(worst?.windChill).toBe(cold.windChill);
+    expect(worst?.coldStressLevel).toBe(cold.coldStressLevel);
+    expect(getWorstSafety([])).toBeUndefined();
+  });
+});
@@ -0,0 +1,188 @@
+import type {
+  ColdStressLevel,
+  DailyForecast,
+  HourlyForecast,
+  SafetyIndices,
+  TimeOfDay,
+  WbgtLevel
+} from '../types';
+
+// 暑さ指数（WBGT）の段階の下限（環境省「熱中症予防情報」）
+const WBGT_LEVELS: Array<{ level: WbgtLevel; min: number }> = [
+  { level: 'danger', min: 31 },
+  { level: 'severeWarning', min: 28 },
+  { level: 'warning', min: 25 },
+  { level: 'caution', min: 21 }
+];
+
+// 寒さの段階の上限（風を考慮した体感温度、カナダ環境省の凍傷リスクの目安）
+const COLD_STRESS_LEVELS: Array<{ level: ColdStressLevel; max: number }> = [
+  { level: 'danger', max: -40 },
+  { level: 'warning', max: -28 },
+  { level: 'caution', max: -10 }
+];
+
+// 熱指数を計算する下限の気温（これより低い場合は気温のまま）
+const HEAT_INDEX_MIN_TEMPERATURE = 27;
+// 風を考慮した体感温度を計算する上限の気温と下限の風速（4.8km/h）
+const WIND_CHILL_MAX_TEMPERATURE = 10;
+const WIND_CHILL_MIN_WIND_SPEED = 1.34;
+// 日射量を推定するUV指数（UV指数10で1kW/m²とみなす）
+const UV_INDEX_PER_KW = 10;
+// 日射量の上限（kW/m²）
+const MAX_SOLAR_RADIATION = 1.2;
+
+const round1 = (value: number): number => Math.round(value * 10) / 10;
+
+/**
+ * 日射量（kW/m²）の推定
+ * UV指数がある場合はUV指数から推定する。UV指数がない（0の）場合は、太陽が出ていれば
+ * 太陽高度から晴天時の日射量（Haurwitzの式）を求め、雲量で減らす（Kasten・Czeplakの式）。
+ */
+export const estimateSolarRadiation = (uvIndex: number, cloudiness: number, sunAltitude?: number): number => {
+  if (uvIndex > 0) return Math.min(MAX_SOLAR_RADIATION, uvIndex / UV_INDEX_PER_KW);
+  if (sunAltitude === undefined || sunAltitude <= 0) return 0;
+
+  const sinAltitude = Math.sin((sunAltitude * Math.PI) / 180);
+  const clearSky = 1.098 * sinAltitude * Math.exp(-0.057 / sinAltitude);
+  const cloudFactor = 1 - 0.75 * Math.pow(Math.min(100, Math.max(0, cloudiness)) / 100, 3.4);
+  return Math.min(MAX_SOLAR_RADIATION, clearSky * cloudFactor);
+};
+
+/**
+ * 暑さ指数（WBGT）の推定
+ * 気温・湿度・日射量（kW/m²）・風速からの回帰式（小野・登内 2014）による。
+ */
+export const estimateWbgt = (temperature: number, humidity: number, windSpeed: number, solarRadiation: number): number => {
+  const wbgt =
+    0.735 * temperature +
+    0.0374 * humidity +
+    0.00292 * temperature * humidity +
+    7.619 * solarRadiation -
+    4.557 * solarRadiation * solarRadiation -
+    0.0572 * windSpeed -
+    4.064;
+  return round1(wbgt);
+};
+
+/**
+ * 熱指数（米国気象局のRothfuszの式）
+ * 気温が低い場合は湿度の影響が小さいため気温をそのまま返す
+ */
+export const calculateHeatIndex = (temperature: number, humidity: number): number => {
+  if (temperature < HEAT_INDEX_MIN_TEMPERATURE) return round1(temperature);
+
+  const f = temperature * 9 / 5 + 32;
+  const heatIndex =
+    -42.379 +
+    2.04901523 * f +
+    10.14333127 * humidity -
+    0.22475541 * f * humidity -
+    0.00683783 * f * f -
+    0.05481717 * humidity * humidity +
+    0.00122874 * f * f * humidity +
+    0.00085282 * f * humidity * humidity -
+    0.00000199 * f * f * humidity * humidity;
+  return round1(Math.max(temperature, (heatIndex - 32) * 5 / 9));
+};
+
+/**
+ * 風を考慮した体感温度（ウィンドチル、カナダ・米国の式）
+ * 気温が高い場合や風が弱い場合は気温をそのまま返す
+ */
+export const calculateWindChill = (temperature: number, windSpeed: number): number => {
+  if (temperature > WIND_CHILL_MAX_TEMPERATURE || windSpeed < WIND_CHILL_MIN_WIND_SPEED) {
+    return round1(temperature);
+  }
+
+  const v = Math.pow(windSpeed * 3.6, 0.16);
+  return round1(Math.min(temperature, 13.12 + 0.6215 * temperature - 11.37 * v + 0.3965 * temperature * v));
+};
+
+// 不快指数（75以上でやや暑い、80以上で暑くて汗が出る、85以上で暑くてたまらない）
+export const calculateDiscomfortIndex = (temperature: number, humidity: number): number =>
+  round1(0.81 * temperature + 0.01 * humidity * (0.99 * temperature - 14.3) + 46.3);
+
+export const getWbgtLevel = (wbgt: number): WbgtLevel =>
+  WBGT_LEVELS.find(({ min }) => wbgt >= min)?.level ?? 'safe';
+
+export const getColdStressLevel = (windChill: number): ColdStressLevel =>
+  COLD_STRESS_LEVELS.find(({ max }) => windChill <= max)?.level ?? 'none';
+
+// 安全指標の計算に使う気象条件
+export interface SafetyConditions {
+  hotTemperature: number; // 暑さの指標に使う気温（活動時間帯で最も高い気温）
+  coldTemperature: number; // 寒さの指標に使う気温（活動時間帯で最も低い気温）
+  humidity: number;
+  windSpeed: number;
+  uvIndex: number;
+  cloudiness: number;
+  sunAltitude?: number; // 太陽高度（度、UV指数がない場合の日射量の推定に使う）
+}
+
+export const calculateSafetyIndices = (conditions: SafetyConditions): SafetyIndices => {
+  const solarRadiation = estimateSolarRadiation(conditions.uvIndex, conditions.cloudiness, conditions.sunAltitude);
+  const wbgt = estimateWbgt(conditions.hotTemperature, conditions.humidity, conditions.windSpeed, solarRadiation);
+  const windChill = calculateWindChill(conditions.coldTemperature, conditions.windSpeed);
+
+  return {
+    wbgt,
+    wbgtLevel: getWbgtLevel(wbgt),
+    heatIndex: calculateHeatIndex(conditions.hotTemperature, conditions.humidity),
+    windChill,
+    discomfortIndex: calculateDiscomfortIndex(conditions.hotTemperature, conditions.humidity),
+    coldStressLevel: getColdStressLevel(windChill)
+  };
+};
+
+/**
+ * 日別予報の安全指標
+ * 活動時間帯（未指定の場合は朝〜夕）の気温のうち、暑さは最も高い気温、寒さは最も低い気温で求める。
+ * 日中を含む場合は最高気温と最大のUV指数（ない場合は南中時の太陽高度と雲量）で日射を見積もる。
+ */
+export const calculateDailySafety = (
+  forecast: DailyForecast,
+  timesOfDay: TimeOfDay[] = ['morning', 'day', 'evening']
+): SafetyIndices => {
+  const includesDay = timesOfDay.includes('day');
+  const temperatures = timesOfDay.map(timeOfDay => forecast.temperature[timeOfDay]);
+
+  return calculateSafetyIndices({
+    hotTemperature: includesDay ? forecast.temperature.max : Math.max(...temperatures),
+    coldTemperature: Math.min(...temperatures),
+    humidity: forecast.humidity,
+    windSpeed: forecast.windSpeed,
+    uvIndex: includesDay ? forecast.uvIndex : 0,
+    cloudiness: forecast.cloudiness,
+    ...(includesDay && forecast.sunAltitude !== undefined && { sunAltitude: forecast.sunAltitude })
+  });
+};
+
+export const calculateHourlySafety = (slot: HourlyForecast): SafetyIndices =>
+  calculateSafetyIndices({
+    hotTemperature: slot.temperature,
+    coldTemperature: slot.temperature,
+    humidity: slot.humidity,
+    windSpeed: slot.windSpeed,
+    uvIndex: slot.uvIndex,
+    cloudiness: slot.cloudiness,
+    ...(slot.sunAltitude !== undefined && { sunAltitude: slot.sunAltitude })
+  });
+
+/**
+ * 複数の時間の安全指標のうち最も厳しい値（暑さは最大、寒さは最小）
+ */
+export const getWorstSafety = (indices: SafetyIndices[]): SafetyIndices | undefined => {
+  if (indices.length === 0) return undefined;
+
+  const wbgt = Math.max(...indices.map(index => index.wbgt));
+  const windChill = Math.min(...indices.map(index => index.windChill));
+  return {
+    wbgt,
+    wbgtLevel: getWbgtLevel(wbgt),
+    heatIndex: Math.max(...indices.map(index => index.heatIndex)),
+    windChill,
+    discomfortIndex: Math.max(...indices.map(index => index.discomfortIndex)),
+    coldStressLevel: getColdStressLevel(windChill)
+  };
+};